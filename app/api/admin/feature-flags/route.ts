@@ -2,47 +2,107 @@
  * Admin Feature Flags API
  * 
  * Endpoints for managing feature flags:
- * - PATCH: Update feature flag
+ * - GET: Explain how a flag evaluates for a user
+ * - PATCH: Update feature flag (switch, rollout percentage, targeting rules)
  * 
  * Requirements: 20.8, 20.9
  */
 
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { explainFeatureFlag, updateFeatureFlag } from '@/lib/utils/feature-flags';
+import { FEATURE_FLAG_ROLES, type FeatureFlagRole } from '@/lib/utils/feature-flag-rules';
 
-export async function PATCH(request: NextRequest) {
+/**
+ * Returns an error response unless the caller is an admin
+ */
+async function requireAdmin(): Promise<NextResponse | null> {
+  const supabase = await createClient();
+
+  // Check authentication
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // Check if user is admin
+  const { data: userRole, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single<{ role: string }>();
+
+  if (roleError || !userRole || userRole.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden: Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/admin/feature-flags?name=...&userId=...[&role=...&clubId=...]
+ * Role and club are looked up from the user's profile when omitted.
+ */
+export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
+    const denied = await requireAdmin();
+    if (denied) return denied;
 
-    // Check authentication
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const params = request.nextUrl.searchParams;
+    const name = params.get('name');
+    const userId = params.get('userId')?.trim();
+    const role = params.get('role');
+    const clubId = params.get('clubId');
 
-    if (!user) {
+    if (!name || !userId) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Feature flag name and userId are required' },
+        { status: 400 }
       );
     }
 
-    // Check if user is admin
-    const { data: userRole, error: roleError } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single<{ role: string }>();
-
-    if (roleError || !userRole || userRole.role !== 'admin') {
+    if (role && !(FEATURE_FLAG_ROLES as readonly string[]).includes(role)) {
       return NextResponse.json(
-        { error: 'Forbidden: Admin access required' },
-        { status: 403 }
+        { error: `Unknown role: ${role}` },
+        { status: 400 }
       );
     }
 
+    const evaluation = await explainFeatureFlag(name, userId, {
+      ...(role ? { role: role as FeatureFlagRole } : {}),
+      ...(clubId ? { clubId } : {}),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: evaluation,
+    });
+  } catch (error) {
+    console.error('Error in feature flags API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const denied = await requireAdmin();
+    if (denied) return denied;
+
     // Parse request body
     const body = await request.json();
-    const { name, enabled, rollout_percentage } = body;
+    const { name, enabled, rollout_percentage, rules } = body;
 
     if (!name) {
       return NextResponse.json(
@@ -65,25 +125,30 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // Update feature flag using RPC to avoid type issues
-    const { data, error } = await (supabase as any)
-      .rpc('update_feature_flag', {
-        flag_name: name,
-        flag_enabled: enabled,
-        flag_rollout: rollout_percentage
-      });
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'enabled must be a boolean' },
+        { status: 400 }
+      );
+    }
 
-    if (error) {
-      console.error('Error updating feature flag:', error);
+    // Validates the rules, invalidates the cache and writes the audit log
+    const result = await updateFeatureFlag(name, {
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(rollout_percentage !== undefined ? { rollout_percentage } : {}),
+      ...(rules !== undefined ? { rules } : {}),
+    });
+
+    if (!result.success) {
+      console.error('Error updating feature flag:', result.error);
       return NextResponse.json(
-        { error: 'Failed to update feature flag' },
-        { status: 500 }
+        { error: result.error ?? 'Failed to update feature flag' },
+        { status: 400 }
       );
     }
 
     return NextResponse.json({
       success: true,
-      data,
     });
   } catch (error) {
     console.error('Error in feature flags API:', error);
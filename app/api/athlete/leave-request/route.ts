@@ -40,7 +40,8 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { sessionId, reason } = body;
+    const { sessionId, reason, category, attachmentPath, acknowledgeViolations } = body;
+    const leaveInput = { sessionId, reason, category, attachmentPath, acknowledgeViolations };
 
     if (!sessionId || !reason) {
       return NextResponse.json(
@@ -77,7 +78,7 @@ export async function POST(request: NextRequest) {
         user.id,
         '/api/athlete/leave-request',
         async () => {
-          const leaveResult = await requestLeave({ sessionId, reason }) as any;
+          const leaveResult = await requestLeave(leaveInput) as any;
           
           if (leaveResult.error || !leaveResult.success) {
             throw new Error(leaveResult.error || 'Failed to submit leave request');
@@ -106,15 +107,16 @@ export async function POST(request: NextRequest) {
     }
 
     // No idempotency key, execute normally
-    const result = await requestLeave({ sessionId, reason }) as any;
+    const result = await requestLeave(leaveInput) as any;
 
     if (result.error || !result.success) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: 'LEAVE_REQUEST_FAILED',
-            message: result.error || 'Failed to submit leave request'
+            code: result.violations ? 'LEAVE_POLICY_VIOLATION' : 'LEAVE_REQUEST_FAILED',
+            message: result.error || 'Failed to submit leave request',
+            violations: result.violations
           }
         },
         { status: 400 }
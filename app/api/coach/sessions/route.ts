@@ -94,6 +94,20 @@ export async function POST(request: NextRequest) {
     // No idempotency key, execute normally
     const result = await createSession(body);
 
+    if (result.error && result.conflicts) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SCHEDULE_CONFLICT',
+            message: result.error,
+            conflicts: result.conflicts
+          }
+        },
+        { status: 409 }
+      );
+    }
+
     if (result.error) {
       return NextResponse.json(
         {
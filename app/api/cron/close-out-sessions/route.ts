@@ -0,0 +1,61 @@
+/**
+ * Training Session Close-out Job
+ *
+ * GET /api/cron/close-out-sessions
+ *
+ * Finalises attendance for every ended session (absent/excused rows, sheet
+ * lock, attendance.recorded events). Called by the Vercel cron schedule with
+ * `Authorization: Bearer <CRON_SECRET>`. Add `?dryRun=1` to see what would
+ * change without writing anything.
+ */
+
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { runSessionCloseOut } from '@/lib/admin/session-close-out';
+import { createApiErrorResponse, createApiResponse, getApiContext } from '@/lib/utils/api-context';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export async function GET(request: NextRequest) {
+  const context = getApiContext(request);
+  const logger = createLogger(context);
+
+  if (!isAuthorized(request)) {
+    logger.warn('Close-out job called without a valid cron secret');
+    return createApiErrorResponse('Unauthorized', context, 401);
+  }
+
+  const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dryRun') || '');
+
+  try {
+    const supabase = createAdminClient({ correlationId: context.correlationId });
+    const summary = await runSessionCloseOut(supabase, {
+      dryRun,
+      correlationId: context.correlationId,
+    });
+
+    logger.info('Session close-out finished', {
+      dryRun,
+      sessionsClosed: summary.sessionsClosed,
+      absentMarked: summary.absentMarked,
+      excusedMarked: summary.excusedMarked,
+      eventsPublished: summary.eventsPublished,
+    });
+
+    return createApiResponse({ success: true, data: summary }, context);
+  } catch (error) {
+    logger.error('Session close-out failed', error as Error);
+    return createApiErrorResponse('Session close-out failed', context, 500);
+  }
+}
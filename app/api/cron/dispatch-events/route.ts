@@ -0,0 +1,63 @@
+/**
+ * Event Outbox Dispatch Job
+ *
+ * GET /api/cron/dispatch-events
+ *
+ * Delivers due events from event_outbox to their subscribers, routes new
+ * notifications to their channels, then sends the outbound webhook
+ * deliveries, Web Push deliveries and emails that queued. Event, webhook,
+ * push and email delivery retry failures with backoff and dead-letter what
+ * runs out of attempts.
+ * Called by the Vercel cron schedule with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { dispatchOutboxEvents } from '@/lib/admin/event-outbox';
+import { dispatchWebhookDeliveries } from '@/lib/admin/webhook-delivery';
+import { dispatchPushDeliveries } from '@/lib/admin/push-delivery';
+import { dispatchEmailMessages } from '@/lib/admin/email-delivery';
+import { routeNotificationDeliveries } from '@/lib/admin/notification-router';
+import { createApiErrorResponse, createApiResponse, getApiContext } from '@/lib/utils/api-context';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export async function GET(request: NextRequest) {
+  const context = getApiContext(request);
+  const logger = createLogger(context);
+
+  if (!isAuthorized(request)) {
+    logger.warn('Event dispatch job called without a valid cron secret');
+    return createApiErrorResponse('Unauthorized', context, 401);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const events = await dispatchOutboxEvents(supabase);
+    const notifications = await routeNotificationDeliveries(supabase);
+    const webhooks = await dispatchWebhookDeliveries(supabase);
+    const push = await dispatchPushDeliveries(supabase);
+    const email = await dispatchEmailMessages(supabase);
+
+    logger.info('Event dispatch finished', { events, notifications, webhooks, push, email });
+
+    return createApiResponse(
+      { success: true, data: { events, notifications, webhooks, push, email } },
+      context
+    );
+  } catch (error) {
+    logger.error('Event dispatch failed', error as Error);
+    return createApiErrorResponse('Event dispatch failed', context, 500);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Parent Report Job
+ *
+ * GET /api/cron/parent-reports
+ *
+ * Generates last week's and last month's parent reports that do not exist
+ * yet and notifies the parents who receive them. Called by the Vercel cron
+ * schedule with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { generateParentReports } from '@/lib/admin/parent-reports';
+import { createApiErrorResponse, createApiResponse, getApiContext } from '@/lib/utils/api-context';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export async function GET(request: NextRequest) {
+  const context = getApiContext(request);
+  const logger = createLogger(context);
+
+  if (!isAuthorized(request)) {
+    logger.warn('Parent report job called without a valid cron secret');
+    return createApiErrorResponse('Unauthorized', context, 401);
+  }
+
+  try {
+    const summary = await generateParentReports(createAdminClient());
+
+    logger.info('Parent report generation finished', {
+      generated: summary.generated,
+      notified: summary.notified,
+      digestItems: summary.digestItems,
+      failed: summary.failed,
+    });
+
+    return createApiResponse({ success: true, data: summary }, context);
+  } catch (error) {
+    logger.error('Parent report generation failed', error as Error);
+    return createApiErrorResponse('Parent report generation failed', context, 500);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Email Bounce Webhook
+ *
+ * POST /api/email/bounces
+ *
+ * Records bounces and complaints reported by the email provider and
+ * suppresses addresses that should not receive more email
+ * (lib/admin/email-delivery.ts). Providers call it with
+ * `Authorization: Bearer <EMAIL_WEBHOOK_SECRET>` and a JSON body of one
+ * report or a list of reports:
+ *
+ *   { "email": "parent@example.com", "type": "hard" | "soft" | "complaint",
+ *     "messageId": "<...>", "detail": "550 5.1.1 user unknown" }
+ */
+
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { recordEmailBounce, type EmailBounceReport } from '@/lib/admin/email-delivery';
+import { createApiErrorResponse, createApiResponse, getApiContext } from '@/lib/utils/api-context';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+/** Reports accepted per request */
+const MAX_REPORTS = 100;
+
+const BOUNCE_KINDS = new Set(['hard', 'soft', 'complaint']);
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function parseReport(value: unknown): EmailBounceReport | null {
+  if (!value || typeof value !== 'object') return null;
+  const report = value as Record<string, unknown>;
+  if (typeof report.email !== 'string' || !report.email.includes('@')) return null;
+  if (typeof report.type !== 'string' || !BOUNCE_KINDS.has(report.type)) return null;
+
+  return {
+    email: report.email,
+    kind: report.type as EmailBounceReport['kind'],
+    messageId: typeof report.messageId === 'string' ? report.messageId : null,
+    detail: typeof report.detail === 'string' ? report.detail : null,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const context = getApiContext(request);
+  const logger = createLogger(context);
+
+  if (!isAuthorized(request)) {
+    logger.warn('Email bounce webhook called without a valid secret');
+    return createApiErrorResponse('Unauthorized', context, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return createApiErrorResponse('Invalid JSON body', context, 400);
+  }
+
+  const items = Array.isArray(body) ? body : [body];
+  const reports = items.map(parseReport);
+  if (items.length === 0 || items.length > MAX_REPORTS || reports.some((report) => !report)) {
+    return createApiErrorResponse('Invalid bounce report', context, 400);
+  }
+
+  try {
+    const supabase = createAdminClient();
+    let suppressed = 0;
+    for (const report of reports as EmailBounceReport[]) {
+      const result = await recordEmailBounce(supabase, report);
+      if (result.suppressed) suppressed++;
+    }
+
+    logger.info('Email bounces recorded', { reports: reports.length, suppressed });
+
+    return createApiResponse(
+      { success: true, data: { recorded: reports.length, suppressed } },
+      context
+    );
+  } catch (error) {
+    logger.error('Recording email bounces failed', error as Error);
+    return createApiErrorResponse('Recording email bounces failed', context, 500);
+  }
+}
@@ -3,9 +3,9 @@ import { createClient } from '@/lib/supabase/server';
 
 export async function POST(request: NextRequest) {
   try {
-    const { subscription, userId } = await request.json();
+    const { subscription, userId, deviceId, deviceInfo } = await request.json();
 
-    if (!subscription || !userId) {
+    if (!subscription?.endpoint || !userId || !deviceId) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -23,15 +23,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Store push subscription in database
+    // The browser may have been saved under an earlier fingerprint; keep one row per endpoint
+    const { error: replaceError } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .neq('device_id', deviceId)
+      .filter('subscription->>endpoint', 'eq', subscription.endpoint);
+
+    if (replaceError) {
+      console.error('Failed to replace push subscription:', replaceError);
+    }
+
+    // Store this device's push subscription; the user's other devices keep theirs
     const { error } = await (supabase as any).from('push_subscriptions').upsert(
       {
         user_id: userId,
+        device_id: deviceId,
+        device_info: deviceInfo ?? null,
         subscription: subscription,
         updated_at: new Date().toISOString(),
       },
       {
-        onConflict: 'user_id',
+        onConflict: 'user_id,device_id',
       }
     );
 
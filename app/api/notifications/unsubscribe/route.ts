@@ -3,11 +3,11 @@ import { createClient } from '@/lib/supabase/server';
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await request.json();
+    const { userId, deviceId, endpoint } = await request.json();
 
-    if (!userId) {
+    if (!userId || (!deviceId && !endpoint)) {
       return NextResponse.json(
-        { error: 'Missing user ID' },
+        { error: 'Missing required fields' },
         { status: 400 }
       );
     }
@@ -23,11 +23,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Remove push subscription from database
-    const { error } = await supabase
-      .from('push_subscriptions')
-      .delete()
-      .eq('user_id', userId);
+    // Remove only this device's push subscription, matched by fingerprint and
+    // by endpoint in case it was saved under an earlier fingerprint
+    const removals = [];
+    if (deviceId) {
+      removals.push(
+        supabase.from('push_subscriptions').delete().eq('user_id', userId).eq('device_id', deviceId)
+      );
+    }
+    if (endpoint) {
+      removals.push(
+        supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('user_id', userId)
+          .filter('subscription->>endpoint', 'eq', endpoint)
+      );
+    }
+    const error = (await Promise.all(removals)).find((result) => result.error)?.error;
 
     if (error) {
       console.error('Failed to remove push subscription:', error);
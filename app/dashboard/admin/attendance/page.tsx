@@ -5,6 +5,7 @@ import { AttendanceOverview } from '@/components/admin/AttendanceOverview';
 import { ClubStatsTable } from '@/components/admin/ClubStatsTable';
 import { Calendar, TrendingUp } from 'lucide-react';
 import { DateRangeFilter } from '@/components/admin/DateRangeFilter';
+import { SessionCloseOutPanel } from '@/components/admin/SessionCloseOutPanel';
 
 interface PageProps {
   searchParams: {
@@ -122,6 +123,9 @@ export default async function AdminAttendancePage({ searchParams }: PageProps) {
 
         {/* Club Statistics */}
         <ClubStatsTable clubStats={clubStats || []} />
+
+        {/* Attendance Close-out */}
+        <SessionCloseOutPanel />
       </div>
     </div>
   );
@@ -1,22 +1,150 @@
-import { FileText } from 'lucide-react';
+/**
+ * Admin Audit Log Page
+ *
+ * Allows admins to:
+ * - Filter audit entries by entity type, record ID and correlation ID
+ * - See what each mutation changed (before and after)
+ * - Follow a single record's timeline from creation to its current state
+ * - Verify the hash chain and export a signed bundle for auditors
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AuditIntegrityPanel } from '@/components/admin/AuditIntegrityPanel';
+import { AuditLogFilters } from '@/components/admin/AuditLogFilters';
+import { AuditLogList, AUDIT_ENTITY_LABELS } from '@/components/admin/AuditLogList';
+import {
+  getAuditLogs,
+  getAuditTimeline,
+  type AuditEntityType,
+  type AuditLogEntry,
+} from '@/lib/audit/actions';
+
+const PAGE_SIZE = 50;
+
+interface PageProps {
+  searchParams: Promise<{
+    entityType?: string;
+    entityId?: string;
+    correlationId?: string;
+  }>;
+}
+
+function isEntityType(value: string | undefined): value is AuditEntityType {
+  return !!value && value in AUDIT_ENTITY_LABELS;
+}
+
+export default async function AuditLogsPage({ searchParams }: PageProps) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: userRole } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single<{ role: string }>();
+
+  if (!userRole || userRole.role !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const { entityType: rawEntityType, entityId, correlationId } = await searchParams;
+  const entityType = isEntityType(rawEntityType) ? rawEntityType : undefined;
+  const showTimeline = !!entityType && !!entityId;
+
+  const result = showTimeline
+    ? await getAuditTimeline(entityType, entityId)
+    : await getAuditLogs({ entityType, entityId, correlationId, limit: PAGE_SIZE });
+  const entries = (result.data ?? []) as AuditLogEntry[];
+
+  // Show who made each change by name
+  const userIds = [...new Set(entries.map((entry) => entry.user_id).filter(Boolean))] as string[];
+  const { data: profiles } = userIds.length
+    ? await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .in('id', userIds)
+        .returns<{ id: string; full_name: string | null }[]>()
+    : { data: [] };
+  const actorNames = Object.fromEntries(
+    (profiles ?? []).map((profile) => [profile.id, profile.full_name ?? profile.id])
+  );
 
-export default function AuditLogsPage() {
   return (
-    <div className="p-8">
-      <div className="mb-8">
+    <div className="container mx-auto space-y-6 p-6">
+      <div>
         <h1 className="text-3xl font-bold text-gray-900">บันทึกการตรวจสอบ</h1>
-        <p className="mt-2 text-gray-600">ดูกิจกรรมระบบและการกระทำของผู้ใช้</p>
-      </div>
-
-      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 bg-white p-12">
-        <FileText className="mb-4 h-12 w-12 text-gray-400" />
-        <h3 className="mb-2 text-lg font-semibold text-gray-900">ระบบบันทึกการตรวจสอบกำลังจะมาเร็วๆ นี้</h3>
-        <p className="text-center text-gray-600">
-          ฟังก์ชันการบันทึกการตรวจสอบจะติดตามเหตุการณ์ทั้งหมดในระบบ รวมถึง:
-          <br />
-          การเข้าสู่ระบบของผู้ใช้ การแก้ไขข้อมูล และการดำเนินการของผู้ดูแลระบบ
+        <p className="mt-2 text-gray-600">
+          ทุกการเปลี่ยนแปลงข้อมูลในระบบ พร้อมค่าก่อนและหลัง ผู้ดำเนินการ และ Correlation ID
         </p>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ความถูกต้องของบันทึก</CardTitle>
+          <CardDescription>
+            ทุกรายการเชื่อมกับรายการก่อนหน้าด้วยแฮช ตรวจสอบว่าไม่มีรายการถูกแก้ไขหรือลบ
+            และส่งออกชุดข้อมูลที่ลงนามแล้วสำหรับผู้ตรวจสอบจากสมาคม
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AuditIntegrityPanel />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <AuditLogFilters
+            currentEntityType={entityType}
+            currentEntityId={entityId}
+            currentCorrelationId={correlationId}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {showTimeline
+              ? `ไทม์ไลน์: ${AUDIT_ENTITY_LABELS[entityType]} · ${entityId}`
+              : 'รายการล่าสุด'}
+          </CardTitle>
+          <CardDescription>
+            {showTimeline ? (
+              <>
+                เรียงจากเก่าไปใหม่ ·{' '}
+                <Link href="?" className="text-blue-600 hover:underline">
+                  กลับไปยังรายการทั้งหมด
+                </Link>
+              </>
+            ) : (
+              `แสดงสูงสุด ${PAGE_SIZE} รายการ เรียงจากใหม่ไปเก่า`
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.success ? (
+            <AuditLogList
+              entries={entries}
+              actorNames={actorNames}
+              showRecordLinks={!showTimeline}
+            />
+          ) : (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+              <p className="text-red-800">เกิดข้อผิดพลาดในการโหลดข้อมูล: {result.error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -1,5 +1,16 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { describeDevice } from '@/lib/utils/device-fingerprint';
+
+interface PushDeviceRow {
+  id: string;
+  device_id: string;
+  device_name: string | null;
+  device_info: { userAgent?: string; platform?: string } | null;
+  updated_at: string;
+  user: { email: string } | null;
+}
 
 export default async function DevicesPage() {
   const supabase = await createClient();
@@ -27,11 +38,33 @@ export default async function DevicesPage() {
   // Get device statistics
   const { data: deviceStats } = await supabase.rpc('get_device_statistics');
 
+  // Get devices receiving push notifications (one subscription per device)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: pushDevices } = await (supabase as any)
+    .from('push_subscriptions')
+    .select(`
+      id,
+      device_id,
+      device_name,
+      device_info,
+      updated_at,
+      user:user_id (
+        email
+      )
+    `)
+    .order('updated_at', { ascending: false })
+    .limit(100);
+
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">Device Tracking</h1>
-        <p className="text-gray-600 mt-1">ติดตามการใช้งานอุปกรณ์ในระบบ</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Device Tracking</h1>
+          <p className="text-gray-600 mt-1">ติดตามการใช้งานอุปกรณ์ในระบบ</p>
+        </div>
+        <Link href="/dashboard/devices" className="text-sm text-blue-600 hover:underline">
+          อุปกรณ์ของฉัน
+        </Link>
       </div>
 
       {/* Device Statistics */}
@@ -79,6 +112,57 @@ export default async function DevicesPage() {
         </div>
       </div>
 
+      {/* Push Notification Devices */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          อุปกรณ์ที่รับการแจ้งเตือน
+        </h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-700">
+                  อีเมล
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-700">
+                  อุปกรณ์
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-700">
+                  Device ID
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-700">
+                  Platform
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-700">
+                  ใช้งานล่าสุด
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {(pushDevices as PushDeviceRow[] | null)?.map((device) => (
+                <tr key={device.id} className="border-b border-gray-100">
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {device.user?.email || '-'}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {device.device_name || describeDevice(device.device_info?.userAgent)}
+                  </td>
+                  <td className="py-3 px-4 text-sm font-mono text-gray-700">
+                    {device.device_id}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-700">
+                    {device.device_info?.platform || '-'}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-700">
+                    {new Date(device.updated_at).toLocaleString('th-TH')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Recent Login Sessions */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
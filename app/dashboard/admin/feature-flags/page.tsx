@@ -5,6 +5,7 @@
  * - View all feature flags
  * - Enable/disable features
  * - Adjust rollout percentages
+ * - Target flags by role, club, user and schedule
  * - Create new feature flags
  * 
  * Requirements: 20.8, 20.9
@@ -15,6 +16,7 @@ import { redirect } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { FeatureFlagList } from '@/components/admin/FeatureFlagList';
+import type { FeatureFlagRules } from '@/lib/utils/feature-flag-rules';
 
 export default async function FeatureFlagsPage() {
   const supabase = await createClient();
@@ -46,6 +48,7 @@ export default async function FeatureFlagsPage() {
     description: string | null;
     enabled: boolean;
     rollout_percentage: number;
+    rules: FeatureFlagRules | null;
     created_at: string;
     updated_at: string;
   }
@@ -59,6 +62,12 @@ export default async function FeatureFlagsPage() {
     console.error('Error fetching feature flags:', error);
   }
 
+  // Clubs for club targeting
+  const { data: clubs } = await supabase
+    .from('clubs')
+    .select('id, name')
+    .order('name') as { data: { id: string; name: string }[] | null };
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div>
@@ -114,7 +123,7 @@ export default async function FeatureFlagsPage() {
         </CardHeader>
         <CardContent>
           {flags && flags.length > 0 ? (
-            <FeatureFlagList flags={flags} />
+            <FeatureFlagList flags={flags} clubs={clubs ?? []} />
           ) : (
             <div className="text-center py-8 text-muted-foreground">
               No feature flags configured
@@ -147,6 +156,13 @@ export default async function FeatureFlagsPage() {
                 This will instantly disable the feature for all users regardless of rollout percentage.
               </p>
             </div>
+            <div>
+              <h3 className="font-semibold mb-2">Targeting Rules</h3>
+              <p className="text-sm text-muted-foreground">
+                Rules are checked in order: kill-switch, schedule window, denied users, allowed users,
+                roles and clubs, then rollout percentage. Use &quot;Check a user&quot; to see which rule decides.
+              </p>
+            </div>
           </div>
         </CardContent>
       </Card>
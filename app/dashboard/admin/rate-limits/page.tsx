@@ -5,6 +5,7 @@
  * 
  * Features:
  * - View recent signup attempts
+ * - Live rate limit counters per IP and user from the shared store
  * - Identify potentially rate-limited IPs
  * - Manually create users to bypass rate limits
  * - Monitor signup activity
@@ -23,10 +24,16 @@ import {
   AlertTriangle, 
   CheckCircle2,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { useToast } from '@/hooks/useToast';
+import {
+  getRateLimitCounters,
+  resetRateLimitCounter,
+  type RateLimitCounterSummary,
+} from '@/lib/admin/rate-limit-actions';
 
 interface SignupAttempt {
   id: string;
@@ -41,6 +48,8 @@ export default function RateLimitsPage() {
   const [creating, setCreating] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [recentSignups, setRecentSignups] = useState<SignupAttempt[]>([]);
+  const [counters, setCounters] = useState<RateLimitCounterSummary[]>([]);
+  const [resettingKey, setResettingKey] = useState<string | null>(null);
   const [stats, setStats] = useState({
     last_hour: 0,
     last_24h: 0,
@@ -92,6 +101,17 @@ export default function RateLimitsPage() {
       });
 
       setRecentSignups(users || []);
+
+      const counterResult = await getRateLimitCounters();
+      if (counterResult.success) {
+        setCounters(counterResult.data || []);
+      } else {
+        toast({
+          title: 'โหลดตัวนับไม่สำเร็จ',
+          description: counterResult.error,
+          variant: 'error',
+        });
+      }
     } catch (error) {
       console.error('Error loading data:', error);
       toast({
@@ -114,6 +134,27 @@ export default function RateLimitsPage() {
     });
   }
 
+  async function handleResetCounter(key: string) {
+    setResettingKey(key);
+    const result = await resetRateLimitCounter(key);
+    setResettingKey(null);
+
+    if (!result.success) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: result.error,
+        variant: 'error',
+      });
+      return;
+    }
+
+    setCounters((current) => current.filter((counter) => counter.key !== key));
+    toast({
+      title: 'รีเซ็ตสำเร็จ',
+      description: 'ผู้ใช้นี้สามารถส่งคำขอได้ตามปกติแล้ว',
+    });
+  }
+
   async function handleCreateUser() {
     if (!formData.email || !formData.full_name) {
       toast({
@@ -276,6 +317,57 @@ export default function RateLimitsPage() {
         </Card>
       </div>
 
+      {/* Live Rate Limit Counters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>ตัวนับ Rate Limit ปัจจุบัน</CardTitle>
+          <CardDescription>
+            IP และผู้ใช้ที่ใช้โควต้าคำขอไปแล้วบางส่วน (นับรวมทุกเซิร์ฟเวอร์)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {counters.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">ไม่มีการใช้งานที่ถูกจำกัดในขณะนี้</p>
+            ) : (
+              counters.map((counter) => (
+                <div
+                  key={counter.key}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {counter.scope} · {counter.subject === 'user' ? 'ผู้ใช้' : 'IP'}
+                      </Badge>
+                      <p className="font-medium truncate">{counter.label}</p>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      ใช้ไป {counter.used}/{counter.capacity} คำขอ ต่อ {counter.windowMs / 1000} วินาที ·
+                      ล่าสุด {getTimeAgo(counter.lastRequestAt)}
+                    </p>
+                  </div>
+                  {counter.blocked && <Badge variant="destructive">ถูกบล็อก</Badge>}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResetCounter(counter.key)}
+                    disabled={resettingKey === counter.key}
+                  >
+                    {resettingKey === counter.key ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                    )}
+                    รีเซ็ต
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Manual User Creation (Bypass Rate Limit) */}
       <Card>
         <CardHeader>
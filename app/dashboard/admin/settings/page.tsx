@@ -8,6 +8,9 @@ import { Button } from '@/components/ui/button';
 import { Loader2, Save, Settings as SettingsIcon } from 'lucide-react';
 import { getSystemSettings, updateSystemSetting, type SystemSetting } from '@/lib/admin/settings-actions';
 import { useToast } from '@/hooks/useToast';
+import { AttendancePolicySettings } from '@/components/admin/AttendancePolicySettings';
+import { LeavePolicySettings } from '@/components/admin/LeavePolicySettings';
+import { EmailDeliverySettings } from '@/components/admin/EmailDeliverySettings';
 
 export default function AdminSettingsPage() {
   const { toast } = useToast();
@@ -141,7 +144,8 @@ export default function AdminSettingsPage() {
                   เปิดใช้งานระบบ OTP เพื่อยืนยันอีเมลหลังสมัครสมาชิก
                 </p>
                 <p className="text-xs text-amber-600 mt-2">
-                  ⚠️ ต้องตั้งค่า SMTP provider (SendGrid, AWS SES) ก่อนเปิดใช้งาน
+                  ⚠️ OTP ส่งโดย Supabase Auth ต้องตั้งค่า SMTP ใน Supabase ก่อนเปิดใช้งาน
+                  (อีเมลอื่นของระบบตั้งค่าที่ &quot;การส่งอีเมล&quot; ด้านล่าง)
                 </p>
               </div>
               <Switch
@@ -201,6 +205,15 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Attendance Policy (saved separately, per club) */}
+        <AttendancePolicySettings />
+
+        {/* Leave Policy (saved separately, per club) */}
+        <LeavePolicySettings />
+
+        {/* Email delivery (configured by environment variables) */}
+        <EmailDeliverySettings />
+
         {/* Current Configuration Summary */}
         <Card className="bg-blue-50 border-blue-200">
           <CardHeader>
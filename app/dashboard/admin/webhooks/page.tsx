@@ -0,0 +1,48 @@
+/**
+ * Admin Webhooks Page
+ *
+ * Allows admins to:
+ * - Register webhook endpoints for any club, or for all clubs
+ * - Choose which domain events each endpoint receives
+ * - Review each endpoint's delivery log and replay failed deliveries
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { WebhookManager } from '@/components/admin/WebhookManager';
+
+export default async function AdminWebhooksPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: userRole } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single<{ role: string }>();
+
+  if (!userRole || userRole.role !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+        <p className="text-muted-foreground mt-2">
+          ส่งเหตุการณ์ของสโมสร เช่น การเช็คชื่อและการสมัครสมาชิก ไปยังระบบภายนอก พร้อมลายเซ็น HMAC
+          และส่งซ้ำอัตโนมัติเมื่อไม่สำเร็จ
+        </p>
+      </div>
+
+      <WebhookManager />
+    </div>
+  );
+}
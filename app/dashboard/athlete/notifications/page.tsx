@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { NotificationList } from '@/components/athlete/NotificationList';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Smartphone } from 'lucide-react';
 import Link from 'next/link';
 
 export default async function NotificationsPage() {
@@ -21,13 +21,14 @@ export default async function NotificationsPage() {
     .from('notifications')
     .select('*')
     .eq('user_id', user.id)
+    .eq('in_app', true)
     .order('created_at', { ascending: false })
     .limit(100);
 
   return (
     <div className="max-w-2xl mx-auto p-4">
       {/* Header */}
-      <div className="mb-6">
+      <div className="mb-6 flex items-center justify-between">
         <Link
           href="/dashboard/athlete"
           className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
@@ -35,6 +36,13 @@ export default async function NotificationsPage() {
           <ArrowLeft className="w-4 h-4" />
           กลับไปหน้าหลัก
         </Link>
+        <Link
+          href="/dashboard/devices"
+          className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <Smartphone className="w-4 h-4" />
+          อุปกรณ์ที่รับการแจ้งเตือน
+        </Link>
       </div>
 
       {/* Notifications */}
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { getSessionDetails } from '@/lib/athlete/attendance-actions';
+import { getAttendancePolicy } from '@/lib/admin/settings-actions';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckInButton } from '@/components/athlete/CheckInButton';
 import { LeaveRequestForm } from '@/components/athlete/LeaveRequestForm';
@@ -44,6 +45,9 @@ export default async function SessionDetailPage({ params }: PageProps) {
     );
   }
 
+  // Club attendance policy (check-in window and late threshold)
+  const policy = await getAttendancePolicy(session.club_id);
+
   // Get coach name
   let coachName = 'ไม่ระบุ';
   if (session.coach_id) {
@@ -186,6 +190,11 @@ export default async function SessionDetailPage({ params }: PageProps) {
                   เหตุผล: {session.leave_request.reason}
                 </div>
               )}
+              {session.leave_request?.review_comment && (
+                <div className="text-sm text-gray-600 mt-1">
+                  ความคิดเห็นโค้ช: {session.leave_request.review_comment}
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -254,7 +263,8 @@ export default async function SessionDetailPage({ params }: PageProps) {
           <CardHeader>
             <CardTitle>เช็คอินเข้าร่วม</CardTitle>
             <CardDescription>
-              คุณสามารถเช็คอินได้ 30 นาทีก่อนเวลาเริ่ม จนถึง 15 นาทีหลังเวลาเริ่ม
+              คุณสามารถเช็คอินได้ {policy.check_in_opens_minutes_before} นาทีก่อนเวลาเริ่ม จนถึง{' '}
+              {policy.check_in_closes_minutes_after} นาทีหลังเวลาเริ่ม
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -263,6 +273,7 @@ export default async function SessionDetailPage({ params }: PageProps) {
               sessionDate={session.session_date}
               startTime={session.start_time}
               sessionTitle={session.title || undefined}
+              policy={policy}
             />
           </CardContent>
         </Card>
@@ -274,7 +285,7 @@ export default async function SessionDetailPage({ params }: PageProps) {
           <CardHeader>
             <CardTitle>แจ้งลา</CardTitle>
             <CardDescription>
-              หากคุณไม่สามารถเข้าร่วมได้ กรุณาแจ้งลาล่วงหน้าอย่างน้อย 2 ชั่วโมง
+              หากคุณไม่สามารถเข้าร่วมได้ กรุณาแจ้งลาล่วงหน้าตามนโยบายการลาของสโมสร
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -0,0 +1,51 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getMyTournamentInvitations } from '@/lib/athlete/tournament-actions';
+import {
+  TournamentInvitations,
+  type TournamentInvitation,
+} from '@/components/athlete/TournamentInvitations';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AthleteTournamentsPage() {
+  const result = await getMyTournamentInvitations();
+
+  if (result.error === 'Unauthorized') {
+    redirect('/login');
+  }
+
+  const invitations = (result.invitations || []) as TournamentInvitation[];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/dashboard/athlete"
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5 text-black" />
+            </Link>
+            <div>
+              <h1 className="text-lg font-bold text-black">ทัวร์นาเมนต์</h1>
+              <p className="text-xs text-gray-500">ยืนยันหรือสละสิทธิ์การเข้าร่วมแข่งขัน</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-6">
+        {result.error ? (
+          <p className="text-sm text-red-600">{result.error}</p>
+        ) : (
+          <TournamentInvitations invitations={invitations} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,8 @@ import {
   Settings,
   Bell,
   ChevronRight,
-  Award
+  Award,
+  Webhook
 } from 'lucide-react';
 import Link from 'next/link';
 import { CoachBottomNav } from '@/components/coach/CoachBottomNav';
@@ -140,9 +141,13 @@ export default async function CoachDashboard() {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+              <Link
+                href="/dashboard/devices"
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="การแจ้งเตือนและอุปกรณ์"
+              >
                 <Bell className="h-5 w-5 text-black" />
-              </button>
+              </Link>
               <Link
                 href="/logout"
                 className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -332,6 +337,30 @@ export default async function CoachDashboard() {
             </div>
           </div>
 
+          {/* การเชื่อมต่อ */}
+          <div>
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3 px-2">
+              การเชื่อมต่อ
+            </h2>
+            <div className="bg-white rounded-2xl overflow-hidden shadow-sm">
+              <Link
+                href="/dashboard/coach/webhooks"
+                className="flex items-center justify-between p-4 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-black flex items-center justify-center">
+                    <Webhook className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-black">Webhook</p>
+                    <p className="text-xs text-gray-500">ส่งข้อมูลไปยังสเปรดชีตหรือ LINE bot ของสโมสร</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </Link>
+            </div>
+          </div>
+
           {/* Quick Info Card */}
           <div className="bg-white rounded-2xl p-4 shadow-sm">
             <div className="flex items-center gap-3 mb-3">
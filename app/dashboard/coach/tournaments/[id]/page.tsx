@@ -1,13 +1,17 @@
 import { Suspense } from 'react';
 import { TournamentManagement } from '@/components/coach/TournamentManagement';
+import { TournamentEvents } from '@/components/coach/TournamentEvents';
 
 export default async function TournamentDetailPage({ params }: { params: { id: string } }) {
   const { id } = await params;
   return (
-    <div className="container mx-auto p-6">
+    <div className="container mx-auto p-6 space-y-6">
       <Suspense fallback={<div>กำลังโหลด...</div>}>
         <TournamentManagement tournamentId={id} />
       </Suspense>
+      <Suspense fallback={<div>กำลังโหลด...</div>}>
+        <TournamentEvents tournamentId={id} />
+      </Suspense>
     </div>
   );
 }
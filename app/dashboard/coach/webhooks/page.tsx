@@ -0,0 +1,26 @@
+import Link from 'next/link';
+import { WebhookManager } from '@/components/admin/WebhookManager';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export default function CoachWebhooksPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <Link href="/dashboard/coach">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          กลับ
+        </Button>
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold">Webhook</h1>
+        <p className="text-muted-foreground mt-1">
+          ส่งข้อมูลการเช็คชื่อและการสมัครสมาชิกของสโมสรไปยังสเปรดชีตหรือ LINE bot
+        </p>
+      </div>
+
+      <WebhookManager />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { getMyPushDevices } from '@/lib/notifications/actions';
+import { MyDevicesList } from '@/components/ui/MyDevicesList';
+import { NotificationPreferencesCenter } from '@/components/ui/NotificationPreferencesCenter';
+
+/**
+ * My Devices
+ * Every role's notification preferences and the devices that receive push notifications
+ */
+export default async function MyDevicesPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    redirect('/login');
+  }
+
+  const { data: devices } = await getMyPushDevices();
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-4">
+      <div>
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          กลับไปหน้าหลัก
+        </Link>
+      </div>
+
+      <NotificationPreferencesCenter recipient={{ kind: 'user', userId: user.id }} />
+      <MyDevicesList devices={devices || []} />
+    </div>
+  );
+}
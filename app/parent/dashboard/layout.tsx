@@ -0,0 +1,5 @@
+import { FeatureFlagBootstrap } from '@/components/feature-flags/FeatureFlagBootstrap';
+
+export default function ParentDashboardLayout({ children }: { children: React.ReactNode }) {
+  return <FeatureFlagBootstrap>{children}</FeatureFlagBootstrap>;
+}
@@ -0,0 +1,18 @@
+import { ParentForgotPasswordForm } from '@/components/parent/ParentForgotPasswordForm';
+
+export default function ParentForgotPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">ลืมรหัสผ่าน</h1>
+          <p className="text-gray-600">เราจะส่งลิงก์สำหรับตั้งรหัสผ่านใหม่ไปที่อีเมลของคุณ</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <ParentForgotPasswordForm />
+        </div>
+      </div>
+    </div>
+  );
+}
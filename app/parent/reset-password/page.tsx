@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { ParentPasswordForm } from '@/components/parent/ParentPasswordForm';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Link from the password reset email
+ */
+export default async function ParentResetPasswordPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">ตั้งรหัสผ่านใหม่</h1>
+          <p className="text-gray-600">บัญชีผู้ปกครอง</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {token ? (
+            <ParentPasswordForm mode="reset" token={token} />
+          ) : (
+            <p className="text-center text-gray-700">
+              ลิงก์รีเซ็ตรหัสผ่านไม่ถูกต้อง{' '}
+              <Link href="/parent/forgot-password" className="text-blue-600 hover:underline">
+                ขอลิงก์ใหม่
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import Link from 'next/link';
+import { ParentPasswordForm } from '@/components/parent/ParentPasswordForm';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Link from the verification email: confirms the parent's email and sets
+ * the password of their parent account
+ */
+export default async function ParentVerifyPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">ยืนยันอีเมลผู้ปกครอง</h1>
+          <p className="text-gray-600">ตั้งรหัสผ่านเพื่อเข้าใช้งานระบบผู้ปกครอง</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {token ? (
+            <ParentPasswordForm mode="verify" token={token} />
+          ) : (
+            <p className="text-center text-gray-700">
+              ลิงก์ยืนยันไม่ถูกต้อง กรุณาให้บุตรหลานส่งอีเมลยืนยันใหม่
+            </p>
+          )}
+        </div>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          มีบัญชีแล้ว?{' '}
+          <Link href="/parent/login" className="text-blue-600 hover:underline font-medium">
+            เข้าสู่ระบบ
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   LogOut,
   Calendar,
   ClipboardCheck,
+  Webhook,
 } from 'lucide-react';
 import { signOut } from '@/lib/auth/actions';
 
@@ -23,6 +24,7 @@ const navigation = [
   { name: 'Sessions', href: '/dashboard/admin/sessions', icon: Calendar },
   { name: 'Attendance', href: '/dashboard/admin/attendance', icon: ClipboardCheck },
   { name: 'Reports', href: '/dashboard/admin/reports', icon: FileText },
+  { name: 'Webhooks', href: '/dashboard/admin/webhooks', icon: Webhook },
   { name: 'Settings', href: '/dashboard/admin/settings', icon: Settings },
 ];
 
@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * Attendance Policy Settings
+ *
+ * Edits the system default attendance policy and per-club overrides:
+ * - Check-in open/close offsets
+ * - Late threshold
+ * - Whether late counts towards the attendance rate
+ * - Auto-mark absent after the session ends
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { getAllClubs } from '@/lib/admin/actions';
+import { getAttendancePolicies, updateAttendancePolicy } from '@/lib/admin/settings-actions';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  validateAttendancePolicy,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+
+const DEFAULT_SCOPE = 'default';
+
+const MINUTE_FIELDS: {
+  key: keyof Pick<
+    AttendancePolicy,
+    'check_in_opens_minutes_before' | 'check_in_closes_minutes_after' | 'late_after_minutes'
+  >;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    key: 'check_in_opens_minutes_before',
+    label: 'เปิดเช็คอินก่อนเวลาเริ่ม (นาที)',
+    hint: 'นักกีฬาเริ่มเช็คอินได้ก่อนเวลาเริ่มฝึกซ้อม',
+  },
+  {
+    key: 'check_in_closes_minutes_after',
+    label: 'ปิดเช็คอินหลังเวลาเริ่ม (นาที)',
+    hint: 'หลังจากนี้นักกีฬาจะเช็คอินเองไม่ได้',
+  },
+  {
+    key: 'late_after_minutes',
+    label: 'นับว่าสายหลังเวลาเริ่ม (นาที)',
+    hint: '0 = เช็คอินหลังเวลาเริ่มถือว่าสายทันที',
+  },
+];
+
+export function AttendancePolicySettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [clubs, setClubs] = useState<{ id: string; name: string }[]>([]);
+  const [defaultPolicy, setDefaultPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY);
+  const [clubPolicies, setClubPolicies] = useState<Record<string, AttendancePolicy>>({});
+  const [scope, setScope] = useState<string>(DEFAULT_SCOPE);
+  const [draft, setDraft] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY);
+
+  async function loadPolicies() {
+    setLoading(true);
+    const [policiesResult, clubsResult] = await Promise.all([
+      getAttendancePolicies(),
+      getAllClubs(),
+    ]);
+
+    if (policiesResult.success && policiesResult.data) {
+      setDefaultPolicy(policiesResult.data.defaultPolicy);
+      setClubPolicies(policiesResult.data.clubPolicies);
+      setDraft(
+        scope === DEFAULT_SCOPE
+          ? policiesResult.data.defaultPolicy
+          : (policiesResult.data.clubPolicies[scope] ?? policiesResult.data.defaultPolicy)
+      );
+    } else {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: policiesResult.error || 'ไม่สามารถโหลดนโยบายการเข้าร่วมได้',
+        variant: 'error',
+      });
+    }
+
+    if (clubsResult.success && clubsResult.data) {
+      setClubs(clubsResult.data as { id: string; name: string }[]);
+    }
+
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    loadPolicies();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function handleScopeChange(value: string) {
+    setScope(value);
+    setDraft(value === DEFAULT_SCOPE ? defaultPolicy : (clubPolicies[value] ?? defaultPolicy));
+  }
+
+  function updateDraft<K extends keyof AttendancePolicy>(key: K, value: AttendancePolicy[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function handleSave() {
+    const validationError = validateAttendancePolicy(draft);
+    if (validationError) {
+      toast({ title: 'ข้อมูลไม่ถูกต้อง', description: validationError, variant: 'error' });
+      return;
+    }
+
+    setSaving(true);
+    const result = await updateAttendancePolicy(scope === DEFAULT_SCOPE ? null : scope, draft);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: result.error || 'ไม่สามารถบันทึกนโยบายการเข้าร่วมได้',
+        variant: 'error',
+      });
+      return;
+    }
+
+    toast({
+      title: 'บันทึกสำเร็จ! ✅',
+      description: 'นโยบายการเข้าร่วมถูกอัปเดตเรียบร้อยแล้ว',
+      variant: 'default',
+    });
+    await loadPolicies();
+  }
+
+  const usesDefault = scope !== DEFAULT_SCOPE && !clubPolicies[scope];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>นโยบายการเข้าร่วมฝึกซ้อม</CardTitle>
+        <CardDescription>
+          กำหนดช่วงเวลาเช็คอิน เกณฑ์การมาสาย และการคำนวณอัตราการเข้าร่วม แยกตามสโมสรได้
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>ใช้กับ</Label>
+              <Select value={scope} onValueChange={handleScopeChange}>
+                <SelectTrigger className="w-full sm:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SCOPE}>ค่าเริ่มต้นของระบบ (ทุกสโมสร)</SelectItem>
+                  {clubs.map((club) => (
+                    <SelectItem key={club.id} value={club.id}>
+                      {club.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {usesDefault && (
+                <p className="text-xs text-blue-600">
+                  💡 สโมสรนี้ใช้ค่าเริ่มต้นของระบบอยู่ การบันทึกจะสร้างนโยบายเฉพาะสโมสร
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              {MINUTE_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    min={0}
+                    value={draft[field.key]}
+                    onChange={(e) => updateDraft(field.key, Number(e.target.value))}
+                  />
+                  <p className="text-xs text-gray-500">{field.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between space-x-4 p-4 border rounded-lg">
+              <div className="flex-1">
+                <Label htmlFor="count-late" className="text-base font-medium">
+                  นับการมาสายเป็นการเข้าร่วม
+                </Label>
+                <p className="text-sm text-gray-600 mt-1">
+                  ใช้ในการคำนวณอัตราการเข้าร่วมในรายงานและสถิติ
+                </p>
+              </div>
+              <Switch
+                id="count-late"
+                checked={draft.count_late_as_present}
+                onCheckedChange={(checked) => updateDraft('count_late_as_present', checked)}
+              />
+            </div>
+
+            <div className="p-4 border rounded-lg space-y-4">
+              <div className="flex items-center justify-between space-x-4">
+                <div className="flex-1">
+                  <Label htmlFor="auto-absent" className="text-base font-medium">
+                    บันทึกขาดอัตโนมัติหลังจบการฝึกซ้อม
+                  </Label>
+                  <p className="text-sm text-gray-600 mt-1">
+                    นักกีฬาที่ไม่มีการเช็คอินหรือการลาจะถูกนับว่าขาด
+                  </p>
+                </div>
+                <Switch
+                  id="auto-absent"
+                  checked={draft.auto_mark_absent}
+                  onCheckedChange={(checked) => updateDraft('auto_mark_absent', checked)}
+                />
+              </div>
+              {draft.auto_mark_absent && (
+                <div className="space-y-1 sm:w-80">
+                  <Label htmlFor="auto-absent-after">หลังจบการฝึกซ้อม (นาที)</Label>
+                  <Input
+                    id="auto-absent-after"
+                    type="number"
+                    min={0}
+                    value={draft.auto_mark_absent_after_minutes}
+                    onChange={(e) =>
+                      updateDraft('auto_mark_absent_after_minutes', Number(e.target.value))
+                    }
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    กำลังบันทึก...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    บันทึกนโยบาย
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
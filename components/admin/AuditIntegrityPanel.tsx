@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { exportAuditBundle, verifyAuditLogChain } from '@/lib/audit/integrity-actions';
+import type { AuditChainIssueType, AuditChainVerification } from '@/lib/audit/bundle';
+
+const ISSUE_LABELS: Record<AuditChainIssueType, string> = {
+  gap: 'รายการหายไป',
+  modified: 'ข้อมูลถูกแก้ไข',
+  broken_link: 'ลำดับการเชื่อมโยงไม่ถูกต้อง',
+};
+
+/** Local dates from the inputs, as the start of the first day and the end of the last */
+function toRange(startDate: string, endDate: string) {
+  return {
+    startDate: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+    endDate: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export function AuditIntegrityPanel() {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [result, setResult] = useState<AuditChainVerification | null>(null);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    const response = await verifyAuditLogChain(toRange(startDate, endDate));
+    setVerifying(false);
+
+    if (!response.success || !response.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: response.error, variant: 'error' });
+      return;
+    }
+    setResult(response.data);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    const response = await exportAuditBundle(toRange(startDate, endDate));
+    setExporting(false);
+
+    if (!response.success || !response.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: response.error, variant: 'error' });
+      return;
+    }
+
+    setResult(response.data.verification);
+    const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log_${startDate || 'start'}_${endDate || new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'ส่งออกสำเร็จ',
+      description: `ลงนามด้วยกุญแจ ${response.data.signature.keyId.slice(0, 16)}`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="integrityStartDate">วันที่เริ่มต้น</Label>
+          <Input
+            id="integrityStartDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            max={endDate || undefined}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="integrityEndDate">วันที่สิ้นสุด</Label>
+          <Input
+            id="integrityEndDate"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            min={startDate || undefined}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleVerify} disabled={verifying || exporting}>
+          {verifying ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ShieldCheck className="mr-2 h-4 w-4" />
+          )}
+          ตรวจสอบความถูกต้อง
+        </Button>
+        <Button variant="outline" onClick={handleExport} disabled={verifying || exporting}>
+          {exporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          ส่งออกชุดข้อมูลที่ลงนาม
+        </Button>
+      </div>
+
+      {result && (
+        <div
+          className={`rounded-lg border p-4 ${
+            result.valid ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            {result.valid ? (
+              <ShieldCheck className="h-5 w-5 text-green-600" />
+            ) : (
+              <ShieldAlert className="h-5 w-5 text-red-600" />
+            )}
+            <p className="font-medium">
+              {result.valid
+                ? `ตรวจสอบ ${result.checked.toLocaleString('th-TH')} รายการ ไม่พบการแก้ไขหรือลบข้อมูล`
+                : `พบปัญหา ${result.issues.length.toLocaleString('th-TH')} จุดจาก ${result.checked.toLocaleString('th-TH')} รายการ`}
+            </p>
+          </div>
+          {result.headHash && (
+            <p className="mt-2 break-all font-mono text-xs text-gray-600">
+              ลำดับ {result.firstSequence}–{result.lastSequence} · แฮชล่าสุด {result.headHash}
+            </p>
+          )}
+          {result.issues.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {result.issues.map((issue) => (
+                <li key={`${issue.type}-${issue.sequence}`} className="flex items-center gap-2">
+                  <Badge variant="destructive">{ISSUE_LABELS[issue.type]}</Badge>
+                  <span>
+                    ลำดับที่ {issue.sequence}
+                    {issue.type === 'gap' &&
+                      ` (ลำดับ ${issue.missingFrom}–${issue.missingTo} หายไป)`}
+                  </span>
+                  <span className="font-mono text-xs text-gray-500">{issue.entryId}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
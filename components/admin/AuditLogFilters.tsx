@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+import { AUDIT_ENTITY_LABELS } from '@/components/admin/AuditLogList';
+
+const ALL_ENTITIES = 'all';
+
+interface AuditLogFiltersProps {
+  currentEntityType?: string;
+  currentEntityId?: string;
+  currentCorrelationId?: string;
+}
+
+export function AuditLogFilters({
+  currentEntityType,
+  currentEntityId,
+  currentCorrelationId,
+}: AuditLogFiltersProps) {
+  const router = useRouter();
+  const [entityType, setEntityType] = useState(currentEntityType || ALL_ENTITIES);
+  const [entityId, setEntityId] = useState(currentEntityId || '');
+  const [correlationId, setCorrelationId] = useState(currentCorrelationId || '');
+
+  const handleApplyFilter = () => {
+    const params = new URLSearchParams();
+    if (entityType !== ALL_ENTITIES) params.set('entityType', entityType);
+    if (entityId.trim()) params.set('entityId', entityId.trim());
+    if (correlationId.trim()) params.set('correlationId', correlationId.trim());
+    router.push(`?${params.toString()}`);
+  };
+
+  const handleClearFilter = () => {
+    setEntityType(ALL_ENTITIES);
+    setEntityId('');
+    setCorrelationId('');
+    router.push('?');
+  };
+
+  const hasActiveFilter = currentEntityType || currentEntityId || currentCorrelationId;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>ประเภทข้อมูล</Label>
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ENTITIES}>ทั้งหมด</SelectItem>
+              {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="entityId">รหัสข้อมูล</Label>
+          <Input
+            id="entityId"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            placeholder="UUID หรือชื่อ"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="correlationId">Correlation ID</Label>
+          <Input
+            id="correlationId"
+            value={correlationId}
+            onChange={(e) => setCorrelationId(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleApplyFilter}>ค้นหา</Button>
+        {hasActiveFilter && (
+          <Button variant="outline" onClick={handleClearFilter}>
+            <X className="mr-2 h-4 w-4" />
+            ล้างตัวกรอง
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        💡 ระบุทั้งประเภทและรหัสข้อมูลเพื่อดูไทม์ไลน์ของข้อมูลนั้นตั้งแต่สร้างจนถึงปัจจุบัน
+      </p>
+    </div>
+  );
+}
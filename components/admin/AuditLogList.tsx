@@ -0,0 +1,150 @@
+/**
+ * Audit log entries with their field-level changes
+ * Used for both the filtered log and the timeline of a single record.
+ */
+
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import type { AuditEntityType, AuditLogEntry } from '@/lib/audit/actions';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'ผู้ใช้',
+  parent_user: 'บัญชีผู้ปกครอง',
+  parent_connection: 'การเชื่อมต่อผู้ปกครอง',
+  club: 'สโมสร',
+  coach: 'โค้ช',
+  athlete: 'นักกีฬา',
+  training_session: 'ตารางฝึกซ้อม',
+  training_session_series: 'ชุดตารางฝึกซ้อม',
+  attendance_log: 'การเช็คชื่อ',
+  leave_request: 'คำขอลา',
+  performance_record: 'ผลการทดสอบ',
+  announcement: 'ประกาศ',
+  membership_application: 'ใบสมัครสมาชิก',
+  activity: 'กิจกรรม',
+  activity_registration: 'การลงทะเบียนกิจกรรม',
+  activity_checkin: 'การเช็คอินกิจกรรม',
+  tournament: 'การแข่งขัน',
+  tournament_category: 'รุ่นการแข่งขัน',
+  tournament_participant: 'ผู้เข้าแข่งขัน',
+  tournament_event: 'รายการแข่งขัน',
+  tournament_match: 'คู่แข่งขัน',
+  tournament_result: 'ผลการแข่งขัน',
+  athlete_goal: 'เป้าหมาย',
+  progress_report: 'รายงานความก้าวหน้า',
+  home_training_log: 'บันทึกฝึกที่บ้าน',
+  home_training_feedback: 'ความคิดเห็นการฝึกที่บ้าน',
+  system_setting: 'การตั้งค่าระบบ',
+  webhook_endpoint: 'Webhook',
+  rate_limit: 'Rate Limit',
+  feature_flag: 'Feature Flag',
+  audit_log: 'บันทึกการตรวจสอบ',
+  email_message: 'อีเมล',
+  email_suppression: 'อีเมลที่ถูกระงับ',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'ผู้ดูแลระบบ',
+  coach: 'โค้ช',
+  athlete: 'นักกีฬา',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+interface AuditLogListProps {
+  entries: AuditLogEntry[];
+  /** Display names of the users who made the changes */
+  actorNames: Record<string, string>;
+  /** Hide the record link when every entry is for the same record */
+  showRecordLinks?: boolean;
+}
+
+export function AuditLogList({ entries, actorNames, showRecordLinks = true }: AuditLogListProps) {
+  if (entries.length === 0) {
+    return <p className="py-8 text-center text-gray-500">ไม่พบบันทึกการตรวจสอบ</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => {
+        const changes = Object.entries(entry.changes ?? {});
+        const actor = entry.user_id
+          ? (actorNames[entry.user_id] ?? entry.user_id)
+          : 'ระบบ / ผู้ปกครอง';
+
+        return (
+          <li key={entry.id} className="rounded-lg border bg-white p-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono text-xs text-gray-400">#{entry.sequence}</span>
+              <Badge variant="outline">{entry.action_type}</Badge>
+              {showRecordLinks && entry.entity_id ? (
+                <Link
+                  href={`?entityType=${entry.entity_type}&entityId=${encodeURIComponent(entry.entity_id)}`}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type} · {entry.entity_id}
+                </Link>
+              ) : (
+                <span className="text-sm text-gray-600">
+                  {AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}
+                </span>
+              )}
+              <span className="ml-auto text-xs text-gray-500">
+                {new Date(entry.created_at).toLocaleString('th-TH')}
+              </span>
+            </div>
+
+            <p className="mt-2 text-sm text-gray-700">
+              โดย {actor}
+              {entry.user_role && ` (${ROLE_LABELS[entry.user_role] ?? entry.user_role})`}
+              {entry.correlation_id && (
+                <>
+                  {' · '}
+                  <Link
+                    href={`?correlationId=${encodeURIComponent(entry.correlation_id)}`}
+                    className="font-mono text-xs text-blue-600 hover:underline"
+                  >
+                    {entry.correlation_id}
+                  </Link>
+                </>
+              )}
+            </p>
+
+            {changes.length > 0 && (
+              <table className="mt-3 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="w-1/4 pb-1 font-medium">ฟิลด์</th>
+                    <th className="pb-1 font-medium">ก่อน</th>
+                    <th className="pb-1 font-medium">หลัง</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map(([field, change]) => (
+                    <tr key={field} className="border-t align-top">
+                      <td className="py-1 pr-2 font-mono text-xs">{field}</td>
+                      <td className="break-all py-1 pr-2 text-red-700">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="break-all py-1 text-green-700">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {entry.details && Object.keys(entry.details).length > 0 && (
+              <pre className="mt-3 overflow-x-auto rounded bg-gray-50 p-2 text-xs text-gray-600">
+                {JSON.stringify(entry.details, null, 2)}
+              </pre>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+/**
+ * Email Delivery Settings
+ *
+ * Shows whether email is configured (transport and sender come from the
+ * environment), the last week's send counts, recent messages and the
+ * suppression list, and sends a test email.
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Mail, RotateCcw, Send, X } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import {
+  getEmailDeliveryOverview,
+  removeEmailSuppression,
+  retryEmailMessage,
+  sendTestEmail,
+  type EmailDeliveryOverview,
+} from '@/lib/admin/email-actions';
+import { EMAIL_LOCALES, EMAIL_LOCALE_LABELS, type EmailLocale } from '@/lib/utils/email-templates';
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  pending: { label: 'รอส่ง', className: 'bg-gray-100 text-gray-800' },
+  processing: { label: 'กำลังส่ง', className: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'ส่งแล้ว', className: 'bg-green-100 text-green-800' },
+  bounced: { label: 'ตีกลับ', className: 'bg-orange-100 text-orange-800' },
+  suppressed: { label: 'ถูกระงับ', className: 'bg-yellow-100 text-yellow-800' },
+  dead_letter: { label: 'ส่งไม่สำเร็จ', className: 'bg-red-100 text-red-800' },
+};
+
+const SUPPRESSION_REASON_LABELS: Record<string, string> = {
+  hard_bounce: 'ตีกลับถาวร',
+  soft_bounces: 'ตีกลับชั่วคราวหลายครั้ง',
+  complaint: 'ผู้รับแจ้งว่าเป็นสแปม',
+};
+
+export function EmailDeliverySettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [overview, setOverview] = useState<EmailDeliveryOverview | null>(null);
+  const [testTo, setTestTo] = useState('');
+  const [testLocale, setTestLocale] = useState<EmailLocale>('th');
+  const [sending, setSending] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadOverview() {
+      const result = await getEmailDeliveryOverview();
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setOverview(result.data);
+      } else {
+        toast({
+          title: 'เกิดข้อผิดพลาด',
+          description: result.error || 'ไม่สามารถโหลดข้อมูลการส่งอีเมลได้',
+          variant: 'error',
+        });
+      }
+      setLoading(false);
+    }
+
+    loadOverview();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey, toast]);
+
+  async function handleTestSend() {
+    setSending(true);
+    const result = await sendTestEmail(testTo, testLocale);
+    setSending(false);
+
+    toast({
+      title: result.success ? 'ส่งอีเมลทดสอบแล้ว' : 'ส่งอีเมลทดสอบไม่สำเร็จ',
+      description: result.success ? result.message : result.error,
+      variant: result.success ? 'success' : 'error',
+    });
+  }
+
+  async function handleRetry(messageId: string) {
+    const result = await retryEmailMessage(messageId);
+    if (!result.success) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    setReloadKey((key) => key + 1);
+  }
+
+  async function handleRemoveSuppression(email: string) {
+    const result = await removeEmailSuppression(email);
+    if (!result.success) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    setReloadKey((key) => key + 1);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          การส่งอีเมล
+        </CardTitle>
+        <CardDescription>
+          อีเมลยืนยันผู้ปกครอง รีเซ็ตรหัสผ่าน ผลการสมัครสมาชิก และรายงานความก้าวหน้า
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !overview ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <div className="p-4 border rounded-lg space-y-1 text-sm">
+              {overview.transport ? (
+                <p>
+                  ส่งผ่าน <span className="font-medium">{overview.transport}</span>
+                  {overview.sender ? (
+                    <>
+                      {' '}
+                      จาก <span className="font-medium">{overview.sender}</span>
+                    </>
+                  ) : (
+                    <span className="text-amber-600"> — ยังไม่ได้ตั้งค่า EMAIL_FROM</span>
+                  )}
+                </p>
+              ) : (
+                <p className="text-amber-600">
+                  ⚠️ ยังไม่ได้ตั้งค่าการส่งอีเมล อีเมลจะรอในคิวจนกว่าจะตั้งค่า SMTP_HOST (หรือ
+                  EMAIL_TRANSPORT) และ EMAIL_FROM
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 pt-2">
+                {Object.entries(overview.counts).map(([status, count]) => (
+                  <Badge key={status} className={STATUS_LABELS[status]?.className}>
+                    {STATUS_LABELS[status]?.label ?? status}: {count}
+                  </Badge>
+                ))}
+                {Object.keys(overview.counts).length === 0 && (
+                  <span className="text-gray-500">ไม่มีอีเมลใน 7 วันที่ผ่านมา</span>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="test-email">ส่งอีเมลทดสอบ</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  id="test-email"
+                  type="email"
+                  placeholder="admin@example.com"
+                  value={testTo}
+                  onChange={(e) => setTestTo(e.target.value)}
+                />
+                <Select
+                  value={testLocale}
+                  onValueChange={(value) => setTestLocale(value as EmailLocale)}
+                >
+                  <SelectTrigger className="sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_LOCALES.map((locale) => (
+                      <SelectItem key={locale} value={locale}>
+                        {EMAIL_LOCALE_LABELS[locale]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleTestSend} disabled={sending || !testTo}>
+                  {sending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  ส่ง
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">อีเมลล่าสุด</h3>
+              {overview.recent.length === 0 ? (
+                <p className="text-sm text-gray-500">ยังไม่มีอีเมล</p>
+              ) : (
+                <ul className="divide-y border rounded-lg text-sm">
+                  {overview.recent.map((message) => (
+                    <li key={message.id} className="flex items-center gap-3 p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate">
+                          <span className="font-medium">{message.template}</span> →{' '}
+                          {message.to_email}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(message.created_at).toLocaleString('th-TH')} · ครั้งที่ส่ง{' '}
+                          {message.attempts}
+                          {message.last_error && ` · ${message.last_error}`}
+                        </p>
+                      </div>
+                      <Badge className={STATUS_LABELS[message.status]?.className}>
+                        {STATUS_LABELS[message.status]?.label ?? message.status}
+                      </Badge>
+                      {message.status === 'dead_letter' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRetry(message.id)}
+                          aria-label="ส่งซ้ำ"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">อีเมลที่ถูกระงับ</h3>
+              {overview.suppressions.length === 0 ? (
+                <p className="text-sm text-gray-500">ไม่มีอีเมลที่ถูกระงับ</p>
+              ) : (
+                <ul className="divide-y border rounded-lg text-sm">
+                  {overview.suppressions.map((suppression) => (
+                    <li key={suppression.email} className="flex items-center gap-3 p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate font-medium">{suppression.email}</p>
+                        <p className="text-xs text-gray-500">
+                          {SUPPRESSION_REASON_LABELS[suppression.reason] ?? suppression.reason}
+                          {suppression.detail && ` · ${suppression.detail}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemoveSuppression(suppression.email)}
+                        aria-label="ยกเลิกการระงับ"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@
  * Displays and manages feature flags with:
  * - Enable/disable toggle
  * - Rollout percentage slider
+ * - Targeting rules (roles, clubs, users, schedule)
  * - Real-time updates
  */
 
@@ -15,11 +16,14 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/hooks/useToast';
+import { FeatureFlagRulesEditor } from '@/components/admin/FeatureFlagRulesEditor';
+import type { FeatureFlagRules } from '@/lib/utils/feature-flag-rules';
 
 interface FeatureFlag {
   name: string;
   enabled: boolean;
   rollout_percentage: number;
+  rules: FeatureFlagRules | null;
   description: string | null;
   created_at: string;
   updated_at: string;
@@ -27,11 +31,30 @@ interface FeatureFlag {
 
 interface FeatureFlagListProps {
   flags: FeatureFlag[];
+  clubs: { id: string; name: string }[];
 }
 
-export function FeatureFlagList({ flags: initialFlags }: FeatureFlagListProps) {
+/** Short labels for the targeting rules a flag uses */
+function describeRules(rules: FeatureFlagRules | null, clubs: { id: string; name: string }[]) {
+  if (!rules) return [];
+  const labels: string[] = [];
+  if (rules.roles?.length) labels.push(`Roles: ${rules.roles.join(', ')}`);
+  if (rules.club_ids?.length) {
+    labels.push(
+      `Clubs: ${rules.club_ids.map((id) => clubs.find((c) => c.id === id)?.name ?? id).join(', ')}`
+    );
+  }
+  if (rules.allow_user_ids?.length) labels.push(`${rules.allow_user_ids.length} allowed users`);
+  if (rules.deny_user_ids?.length) labels.push(`${rules.deny_user_ids.length} denied users`);
+  if (rules.starts_at) labels.push(`From ${new Date(rules.starts_at).toLocaleString()}`);
+  if (rules.ends_at) labels.push(`Until ${new Date(rules.ends_at).toLocaleString()}`);
+  return labels;
+}
+
+export function FeatureFlagList({ flags: initialFlags, clubs }: FeatureFlagListProps) {
   const [flags, setFlags] = useState(initialFlags);
   const [updating, setUpdating] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
   const { toast } = useToast();
 
   const updateFlag = async (
@@ -106,6 +129,15 @@ export function FeatureFlagList({ flags: initialFlags }: FeatureFlagListProps) {
                   {flag.description}
                 </p>
               )}
+              {describeRules(flag.rules, clubs).length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {describeRules(flag.rules, clubs).map(label => (
+                    <Badge key={label} variant="outline" className="text-xs">
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
             <Switch
               checked={flag.enabled}
@@ -143,9 +175,35 @@ export function FeatureFlagList({ flags: initialFlags }: FeatureFlagListProps) {
             </div>
           )}
 
-          <div className="text-xs text-muted-foreground">
-            Last updated: {new Date(flag.updated_at).toLocaleString()}
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-muted-foreground">
+              Last updated: {new Date(flag.updated_at).toLocaleString()}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditing(editing === flag.name ? null : flag.name)}
+            >
+              {editing === flag.name ? 'Hide targeting' : 'Targeting rules'}
+            </Button>
           </div>
+
+          {editing === flag.name && (
+            <FeatureFlagRulesEditor
+              flagName={flag.name}
+              rules={flag.rules ?? {}}
+              clubs={clubs}
+              onSaved={rules =>
+                setFlags(prev =>
+                  prev.map(f =>
+                    f.name === flag.name
+                      ? { ...f, rules, updated_at: new Date().toISOString() }
+                      : f
+                  )
+                )
+              }
+            />
+          )}
         </div>
       ))}
     </div>
@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * Feature Flag Rules Editor
+ *
+ * Edits the targeting rules of one flag:
+ * - Roles and clubs the flag is limited to
+ * - User allow/deny lists
+ * - Schedule window
+ * And checks how the flag evaluates for a given user.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/useToast';
+import {
+  FEATURE_FLAG_ROLES,
+  type FeatureFlagEvaluation,
+  type FeatureFlagRole,
+  type FeatureFlagRules,
+} from '@/lib/utils/feature-flag-rules';
+
+interface FeatureFlagRulesEditorProps {
+  flagName: string;
+  rules: FeatureFlagRules;
+  clubs: { id: string; name: string }[];
+  onSaved: (rules: FeatureFlagRules) => void;
+}
+
+/** ISO timestamp to the value of a datetime-local input, in local time */
+function toLocalInput(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function toIso(local: string): string | null {
+  return local ? new Date(local).toISOString() : null;
+}
+
+function toLines(ids: string[] | undefined): string {
+  return (ids ?? []).join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+export function FeatureFlagRulesEditor({
+  flagName,
+  rules,
+  clubs,
+  onSaved,
+}: FeatureFlagRulesEditorProps) {
+  const [roles, setRoles] = useState<FeatureFlagRole[]>(rules.roles ?? []);
+  const [clubIds, setClubIds] = useState<string[]>(rules.club_ids ?? []);
+  const [allowList, setAllowList] = useState(toLines(rules.allow_user_ids));
+  const [denyList, setDenyList] = useState(toLines(rules.deny_user_ids));
+  const [startsAt, setStartsAt] = useState(toLocalInput(rules.starts_at));
+  const [endsAt, setEndsAt] = useState(toLocalInput(rules.ends_at));
+  const [saving, setSaving] = useState(false);
+  const [testUserId, setTestUserId] = useState('');
+  const [evaluation, setEvaluation] = useState<FeatureFlagEvaluation | null>(null);
+  const [checking, setChecking] = useState(false);
+  const { toast } = useToast();
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((item) => item !== value);
+
+  const saveRules = async () => {
+    setSaving(true);
+
+    try {
+      const nextRules: FeatureFlagRules = {
+        roles,
+        club_ids: clubIds,
+        allow_user_ids: fromLines(allowList),
+        deny_user_ids: fromLines(denyList),
+        starts_at: toIso(startsAt),
+        ends_at: toIso(endsAt),
+      };
+
+      const response = await fetch('/api/admin/feature-flags', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: flagName, rules: nextRules }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update targeting rules');
+      }
+
+      onSaved(nextRules);
+      setEvaluation(null);
+      toast({
+        title: 'Success',
+        description: 'Targeting rules updated successfully',
+      });
+    } catch (error) {
+      console.error('Error updating targeting rules:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update targeting rules',
+        variant: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const checkUser = async () => {
+    if (!testUserId.trim()) return;
+    setChecking(true);
+
+    try {
+      const params = new URLSearchParams({ name: flagName, userId: testUserId.trim() });
+      const response = await fetch(`/api/admin/feature-flags?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to evaluate feature flag');
+      }
+
+      setEvaluation(result.data);
+    } catch (error) {
+      console.error('Error evaluating feature flag:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to evaluate feature flag',
+        variant: 'error',
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-md bg-muted/40 p-4">
+      <div className="space-y-2">
+        <Label>Roles</Label>
+        <div className="flex flex-wrap gap-4">
+          {FEATURE_FLAG_ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={roles.includes(role)}
+                onCheckedChange={(checked) =>
+                  setRoles((prev) => toggle(prev, role, checked === true))
+                }
+              />
+              {role}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">None selected: every role</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Clubs</Label>
+        <div className="grid max-h-40 grid-cols-1 gap-2 overflow-y-auto sm:grid-cols-2">
+          {clubs.map((club) => (
+            <label key={club.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={clubIds.includes(club.id)}
+                onCheckedChange={(checked) =>
+                  setClubIds((prev) => toggle(prev, club.id, checked === true))
+                }
+              />
+              {club.name}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">None selected: every club</p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${flagName}-allow`}>Always enabled for (user IDs)</Label>
+          <Textarea
+            id={`${flagName}-allow`}
+            value={allowList}
+            onChange={(e) => setAllowList(e.target.value)}
+            placeholder="One user ID per line"
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${flagName}-deny`}>Never enabled for (user IDs)</Label>
+          <Textarea
+            id={`${flagName}-deny`}
+            value={denyList}
+            onChange={(e) => setDenyList(e.target.value)}
+            placeholder="One user ID per line"
+            rows={3}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${flagName}-starts`}>Enable from</Label>
+          <Input
+            id={`${flagName}-starts`}
+            type="datetime-local"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${flagName}-ends`}>Disable from</Label>
+          <Input
+            id={`${flagName}-ends`}
+            type="datetime-local"
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={saveRules} disabled={saving} size="sm">
+          {saving ? 'Saving...' : 'Save targeting rules'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Label htmlFor={`${flagName}-test`}>Check a user</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${flagName}-test`}
+            value={testUserId}
+            onChange={(e) => setTestUserId(e.target.value)}
+            placeholder="User ID"
+          />
+          <Button variant="outline" size="sm" onClick={checkUser} disabled={checking}>
+            {checking ? 'Checking...' : 'Check'}
+          </Button>
+        </div>
+        {evaluation && (
+          <p className={`text-sm ${evaluation.enabled ? 'text-green-600' : 'text-red-600'}`}>
+            {evaluation.reason.charAt(0).toUpperCase() + evaluation.reason.slice(1)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
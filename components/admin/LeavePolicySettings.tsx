@@ -0,0 +1,256 @@
+'use client';
+
+/**
+ * Leave Policy Settings
+ *
+ * Edits the system default leave policy and per-club overrides:
+ * - Minimum notice before the session
+ * - Maximum leaves per month
+ * - Reason categories that need a supporting document
+ * - Auto-approval of requests that are within policy
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { getAllClubs } from '@/lib/admin/actions';
+import { getLeavePolicies, updateLeavePolicy } from '@/lib/admin/settings-actions';
+import {
+  DEFAULT_LEAVE_POLICY,
+  LEAVE_REASON_CATEGORIES,
+  LEAVE_REASON_CATEGORY_LABELS,
+  validateLeavePolicy,
+  type LeavePolicy,
+  type LeaveReasonCategory,
+} from '@/lib/utils/leave-policy';
+
+const DEFAULT_SCOPE = 'default';
+
+export function LeavePolicySettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [clubs, setClubs] = useState<{ id: string; name: string }[]>([]);
+  const [defaultPolicy, setDefaultPolicy] = useState<LeavePolicy>(DEFAULT_LEAVE_POLICY);
+  const [clubPolicies, setClubPolicies] = useState<Record<string, LeavePolicy>>({});
+  const [scope, setScope] = useState<string>(DEFAULT_SCOPE);
+  const [draft, setDraft] = useState<LeavePolicy>(DEFAULT_LEAVE_POLICY);
+
+  async function loadPolicies() {
+    setLoading(true);
+    const [policiesResult, clubsResult] = await Promise.all([getLeavePolicies(), getAllClubs()]);
+
+    if (policiesResult.success && policiesResult.data) {
+      setDefaultPolicy(policiesResult.data.defaultPolicy);
+      setClubPolicies(policiesResult.data.clubPolicies);
+      setDraft(
+        scope === DEFAULT_SCOPE
+          ? policiesResult.data.defaultPolicy
+          : (policiesResult.data.clubPolicies[scope] ?? policiesResult.data.defaultPolicy)
+      );
+    } else {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: policiesResult.error || 'ไม่สามารถโหลดนโยบายการลาได้',
+        variant: 'error',
+      });
+    }
+
+    if (clubsResult.success && clubsResult.data) {
+      setClubs(clubsResult.data as { id: string; name: string }[]);
+    }
+
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    loadPolicies();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function handleScopeChange(value: string) {
+    setScope(value);
+    setDraft(value === DEFAULT_SCOPE ? defaultPolicy : (clubPolicies[value] ?? defaultPolicy));
+  }
+
+  function updateDraft<K extends keyof LeavePolicy>(key: K, value: LeavePolicy[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function toggleAttachmentCategory(category: LeaveReasonCategory, required: boolean) {
+    setDraft((prev) => ({
+      ...prev,
+      attachment_required_categories: required
+        ? [...prev.attachment_required_categories, category]
+        : prev.attachment_required_categories.filter((value) => value !== category),
+    }));
+  }
+
+  async function handleSave() {
+    const validationError = validateLeavePolicy(draft);
+    if (validationError) {
+      toast({ title: 'ข้อมูลไม่ถูกต้อง', description: validationError, variant: 'error' });
+      return;
+    }
+
+    setSaving(true);
+    const result = await updateLeavePolicy(scope === DEFAULT_SCOPE ? null : scope, draft);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: result.error || 'ไม่สามารถบันทึกนโยบายการลาได้',
+        variant: 'error',
+      });
+      return;
+    }
+
+    toast({
+      title: 'บันทึกสำเร็จ! ✅',
+      description: 'นโยบายการลาถูกอัปเดตเรียบร้อยแล้ว',
+      variant: 'default',
+    });
+    await loadPolicies();
+  }
+
+  const usesDefault = scope !== DEFAULT_SCOPE && !clubPolicies[scope];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>นโยบายการลา</CardTitle>
+        <CardDescription>
+          กำหนดระยะเวลาแจ้งลาล่วงหน้า จำนวนครั้งที่ลาได้ต่อเดือน และเอกสารที่ต้องแนบ
+          คำขอลาที่เป็นไปตามนโยบายสามารถอนุมัติอัตโนมัติได้
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>ใช้กับ</Label>
+              <Select value={scope} onValueChange={handleScopeChange}>
+                <SelectTrigger className="w-full sm:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SCOPE}>ค่าเริ่มต้นของระบบ (ทุกสโมสร)</SelectItem>
+                  {clubs.map((club) => (
+                    <SelectItem key={club.id} value={club.id}>
+                      {club.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {usesDefault && (
+                <p className="text-xs text-blue-600">
+                  💡 สโมสรนี้ใช้ค่าเริ่มต้นของระบบอยู่ การบันทึกจะสร้างนโยบายเฉพาะสโมสร
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="min-notice-hours">แจ้งลาล่วงหน้าอย่างน้อย (ชั่วโมง)</Label>
+                <Input
+                  id="min-notice-hours"
+                  type="number"
+                  min={0}
+                  value={draft.min_notice_hours}
+                  onChange={(e) => updateDraft('min_notice_hours', Number(e.target.value))}
+                />
+                <p className="text-xs text-gray-500">นับจากเวลาเริ่มฝึกซ้อม</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max-leaves-per-month">ลาได้สูงสุดต่อเดือน (ครั้ง)</Label>
+                <Input
+                  id="max-leaves-per-month"
+                  type="number"
+                  min={1}
+                  placeholder="ไม่จำกัด"
+                  value={draft.max_leaves_per_month ?? ''}
+                  onChange={(e) =>
+                    updateDraft(
+                      'max_leaves_per_month',
+                      e.target.value === '' ? null : Number(e.target.value)
+                    )
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  เว้นว่าง = ไม่จำกัด (นับคำขอที่รอพิจารณาและอนุมัติแล้ว)
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>ต้องแนบเอกสารประกอบสำหรับการลาประเภท</Label>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {LEAVE_REASON_CATEGORIES.map((category) => (
+                  <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                    <Checkbox
+                      checked={draft.attachment_required_categories.includes(category)}
+                      onCheckedChange={(checked) =>
+                        toggleAttachmentCategory(category, checked === true)
+                      }
+                    />
+                    {LEAVE_REASON_CATEGORY_LABELS[category]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between space-x-4 p-4 border rounded-lg">
+              <div className="flex-1">
+                <Label htmlFor="auto-approve-leave" className="text-base font-medium">
+                  อนุมัติอัตโนมัติเมื่อเป็นไปตามนโยบาย
+                </Label>
+                <p className="text-sm text-gray-600 mt-1">
+                  คำขอที่ไม่เป็นไปตามนโยบายจะถูกส่งให้โค้ชพิจารณาพร้อมเหตุผล
+                </p>
+              </div>
+              <Switch
+                id="auto-approve-leave"
+                checked={draft.auto_approve}
+                onCheckedChange={(checked) => updateDraft('auto_approve', checked)}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    กำลังบันทึก...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    บันทึกนโยบาย
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+/**
+ * Session Close-out Panel
+ *
+ * Lets admins preview (dry run) or run the close-out job that finalises
+ * attendance for ended sessions. The same job also runs on a schedule.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Loader2, Lock, Eye } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { closeOutEndedSessions } from '@/lib/admin/attendance-actions';
+import type { CloseOutSummary } from '@/lib/admin/session-close-out';
+
+export function SessionCloseOutPanel() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [running, setRunning] = useState<'preview' | 'run' | null>(null);
+  const [summary, setSummary] = useState<CloseOutSummary | null>(null);
+
+  async function handleRun(dryRun: boolean) {
+    setRunning(dryRun ? 'preview' : 'run');
+    const result = await closeOutEndedSessions({ dryRun });
+    setRunning(null);
+
+    if (result.error || !result.data) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: result.error || 'ไม่สามารถปิดการเช็คชื่อได้',
+        variant: 'error',
+      });
+      return;
+    }
+
+    setSummary(result.data);
+
+    if (!dryRun) {
+      toast({
+        title: 'ปิดการเช็คชื่อสำเร็จ ✅',
+        description: `ปิด ${result.data.sessionsClosed} การฝึกซ้อม บันทึกขาด ${result.data.absentMarked} คน ลา ${result.data.excusedMarked} คน`,
+        variant: 'success',
+      });
+      router.refresh();
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start gap-2">
+          <Lock className="h-5 w-5 text-gray-600 mt-0.5" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              ปิดการเช็คชื่อการฝึกซ้อมที่จบแล้ว
+            </h2>
+            <p className="text-sm text-gray-600">
+              บันทึกขาดสำหรับผู้ที่ไม่ได้เช็คอิน เปลี่ยนคำขอลาที่อนุมัติเป็น &quot;ลา&quot;
+              และล็อกใบเช็คชื่อ (ระบบทำอัตโนมัติทุก 15 นาที)
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleRun(true)} disabled={running !== null}>
+            {running === 'preview' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-2" />
+            )}
+            ตรวจสอบก่อน
+          </Button>
+          <Button onClick={() => handleRun(false)} disabled={running !== null}>
+            {running === 'run' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Lock className="h-4 w-4 mr-2" />
+            )}
+            ปิดการเช็คชื่อตอนนี้
+          </Button>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="rounded-lg border p-3 text-sm">
+          <p className="font-medium text-gray-900 mb-2">
+            {summary.dryRun ? 'ผลการตรวจสอบ (ยังไม่บันทึก)' : 'ผลการปิดการเช็คชื่อ'}:{' '}
+            {summary.sessions.length} การฝึกซ้อม, ขาด {summary.absentMarked} คน, ลา{' '}
+            {summary.excusedMarked} คน
+          </p>
+          {summary.sessions.length === 0 ? (
+            <p className="text-gray-600">ไม่มีการฝึกซ้อมที่รอปิดการเช็คชื่อ</p>
+          ) : (
+            <ul className="space-y-1 max-h-60 overflow-y-auto">
+              {summary.sessions.map((session) => (
+                <li key={session.sessionId} className="flex justify-between gap-4 text-gray-700">
+                  <span>
+                    {new Date(session.sessionDate).toLocaleDateString('th-TH')} · {session.title}
+                  </span>
+                  {session.error ? (
+                    <span className="text-red-600">ผิดพลาด: {session.error}</span>
+                  ) : (
+                    <span>
+                      ขาด {session.absent} · ลา {session.excused}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
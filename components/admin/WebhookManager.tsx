@@ -0,0 +1,502 @@
+'use client';
+
+/**
+ * Webhook Manager
+ *
+ * Register outbound webhook endpoints, enable/disable them, rotate secrets
+ * and browse each endpoint's delivery log with replay. Used by admins (any
+ * club, or all clubs) and coaches (their own club).
+ */
+
+import { useEffect, useState } from 'react';
+import { Copy, Loader2, Plus, RefreshCw, RotateCcw, Trash2, Webhook } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/useToast';
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  getWebhookEndpoints,
+  replayWebhookDeliveries,
+  rotateWebhookSecret,
+  updateWebhookEndpoint,
+  type WebhookClubOption,
+  type WebhookEndpointSummary,
+} from '@/lib/admin/webhook-actions';
+import type { WebhookDelivery } from '@/lib/admin/webhook-delivery';
+import {
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDeliveryStatus,
+} from '@/lib/utils/webhooks';
+
+const ALL_CLUBS = '__all__';
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'รอส่ง',
+  processing: 'กำลังส่ง',
+  delivered: 'ส่งสำเร็จ',
+  dead_letter: 'ส่งไม่สำเร็จ',
+};
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  dead_letter: 'bg-red-100 text-red-800',
+};
+
+export function WebhookManager() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<'admin' | 'coach'>('coach');
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [clubs, setClubs] = useState<WebhookClubOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  async function loadEndpoints() {
+    const result = await getWebhookEndpoints();
+    setLoading(false);
+
+    if (!result.success || !result.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+
+    setRole(result.data.role);
+    setEndpoints(result.data.endpoints);
+    setClubs(result.data.clubs);
+  }
+
+  useEffect(() => {
+    loadEndpoints();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function handleToggle(endpoint: WebhookEndpointSummary, isActive: boolean) {
+    const result = await updateWebhookEndpoint(endpoint.id, { isActive });
+    if (!result.success || !result.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? result.data! : e)));
+  }
+
+  async function handleRotate(endpoint: WebhookEndpointSummary) {
+    if (!confirm('เปลี่ยนรหัสลับ? ผู้รับต้องอัปเดตรหัสลับใหม่ก่อนการส่งครั้งถัดไป')) return;
+
+    const result = await rotateWebhookSecret(endpoint.id);
+    if (!result.success || !result.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    setRevealedSecret(result.data.secret);
+    loadEndpoints();
+  }
+
+  async function handleDelete(endpoint: WebhookEndpointSummary) {
+    if (!confirm(`ลบ Webhook ${endpoint.url} และประวัติการส่งทั้งหมด?`)) return;
+
+    const result = await deleteWebhookEndpoint(endpoint.id);
+    if (!result.success) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    if (selectedId === endpoint.id) setSelectedId(null);
+    setEndpoints((prev) => prev.filter((e) => e.id !== endpoint.id));
+    toast({ title: 'ลบ Webhook แล้ว', variant: 'success' });
+  }
+
+  const clubName = (clubId: string | null) =>
+    clubId === null ? 'ทุกสโมสร' : (clubs.find((club) => club.id === clubId)?.name ?? 'สโมสร');
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setCreating(true)} disabled={clubs.length === 0 && role !== 'admin'}>
+          <Plus className="h-4 w-4 mr-2" />
+          เพิ่ม Webhook
+        </Button>
+      </div>
+
+      {endpoints.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          <Webhook className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+          ยังไม่มี Webhook
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {endpoints.map((endpoint) => (
+            <div
+              key={endpoint.id}
+              className={`bg-white rounded-lg shadow p-4 space-y-3 ${
+                selectedId === endpoint.id ? 'ring-2 ring-blue-500' : ''
+              }`}
+            >
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm text-gray-900 break-all">{endpoint.url}</p>
+                  <p className="text-sm text-gray-600">
+                    {clubName(endpoint.club_id)}
+                    {endpoint.description && ` · ${endpoint.description}`}
+                  </p>
+                  <p className="text-xs text-gray-400">รหัสลับ ••••{endpoint.secret_preview}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={endpoint.is_active}
+                    onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                    aria-label="เปิดใช้งาน"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedId(selectedId === endpoint.id ? null : endpoint.id)}
+                  >
+                    ประวัติการส่ง
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRotate(endpoint)}>
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(endpoint)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {endpoint.event_types.map((type) => (
+                  <Badge key={type} variant="secondary" className="font-mono text-xs">
+                    {type}
+                  </Badge>
+                ))}
+              </div>
+
+              {selectedId === endpoint.id && <DeliveryLog endpointId={endpoint.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {creating && (
+        <CreateWebhookDialog
+          role={role}
+          clubs={clubs}
+          onClose={() => setCreating(false)}
+          onCreated={(secret) => {
+            setCreating(false);
+            setRevealedSecret(secret);
+            loadEndpoints();
+          }}
+        />
+      )}
+
+      <Dialog open={revealedSecret !== null} onOpenChange={() => setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>รหัสลับของ Webhook</DialogTitle>
+            <DialogDescription>
+              ใช้ตรวจสอบลายเซ็นใน X-Webhook-Signature รหัสนี้จะแสดงเพียงครั้งเดียว
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret ?? ''} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(revealedSecret ?? '');
+                toast({ title: 'คัดลอกแล้ว', variant: 'success' });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>เสร็จสิ้น</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function CreateWebhookDialog({
+  role,
+  clubs,
+  onClose,
+  onCreated,
+}: {
+  role: 'admin' | 'coach';
+  clubs: WebhookClubOption[];
+  onClose: () => void;
+  onCreated: (secret: string) => void;
+}) {
+  const { toast } = useToast();
+  const [clubId, setClubId] = useState<string>(role === 'admin' ? ALL_CLUBS : (clubs[0]?.id ?? ''));
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  function toggleEventType(type: string, checked: boolean) {
+    setEventTypes((prev) => (checked ? [...prev, type] : prev.filter((t) => t !== type)));
+  }
+
+  async function handleSubmit() {
+    setSaving(true);
+    const result = await createWebhookEndpoint({
+      clubId: clubId === ALL_CLUBS ? null : clubId,
+      url,
+      description,
+      eventTypes,
+    });
+    setSaving(false);
+
+    if (!result.success || !result.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+
+    onCreated(result.data.secret);
+  }
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>เพิ่ม Webhook</DialogTitle>
+          <DialogDescription>
+            ระบบจะส่ง POST พร้อมลายเซ็น HMAC เมื่อเกิดเหตุการณ์ที่เลือก
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>สโมสร</Label>
+            <Select value={clubId} onValueChange={setClubId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {role === 'admin' && <SelectItem value={ALL_CLUBS}>ทุกสโมสร</SelectItem>}
+                {clubs.map((club) => (
+                  <SelectItem key={club.id} value={club.id}>
+                    {club.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/webhooks"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">คำอธิบาย</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              maxLength={MAX_WEBHOOK_DESCRIPTION_LENGTH}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="เช่น LINE bot ของสโมสร"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>เหตุการณ์</Label>
+            <div className="max-h-56 overflow-y-auto space-y-2 rounded-md border p-3">
+              {WEBHOOK_EVENT_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={eventTypes.includes(type)}
+                    onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                  />
+                  <span className="font-mono text-xs">{type}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !url || eventTypes.length === 0}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            บันทึก
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | 'all'>('all');
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  async function loadDeliveries() {
+    const result = await getWebhookDeliveries(endpointId, {
+      status: status === 'all' ? undefined : status,
+    });
+    if (!result.success) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    setDeliveries(result.data || []);
+  }
+
+  useEffect(() => {
+    loadDeliveries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endpointId, status]);
+
+  async function handleReplay(deliveryIds: string[], key: string) {
+    setReplaying(key);
+    const result = await replayWebhookDeliveries(endpointId, deliveryIds);
+    setReplaying(null);
+
+    if (!result.success || !result.data) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+      return;
+    }
+    toast({
+      title: 'ส่งซ้ำแล้ว',
+      description: `${result.data.replayed} รายการจะถูกส่งในรอบถัดไป`,
+      variant: 'success',
+    });
+    loadDeliveries();
+  }
+
+  const failedIds = (deliveries || [])
+    .filter((delivery) => delivery.status === 'dead_letter')
+    .map((delivery) => delivery.id);
+
+  return (
+    <div className="border-t pt-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">ทั้งหมด</SelectItem>
+            {(Object.keys(STATUS_LABELS) as WebhookDeliveryStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={loadDeliveries}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          {failedIds.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={replaying !== null}
+              onClick={() => handleReplay(failedIds, 'all')}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              ส่งซ้ำที่ไม่สำเร็จ ({failedIds.length})
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {deliveries === null ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">ยังไม่มีการส่ง</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {deliveries.map((delivery) => (
+            <li
+              key={delivery.id}
+              className="py-2 flex flex-col gap-1 sm:flex-row sm:justify-between"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[delivery.status]}`}
+                  >
+                    {STATUS_LABELS[delivery.status]}
+                  </span>
+                  <span className="font-mono text-xs text-gray-700 truncate">
+                    {delivery.event_type}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(delivery.created_at).toLocaleString('th-TH')} · ครั้งที่ส่ง{' '}
+                  {delivery.attempts}
+                  {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                  {delivery.duration_ms !== null && ` · ${delivery.duration_ms} ms`}
+                </p>
+                {delivery.last_error && (
+                  <p className="text-xs text-red-600 break-all">{delivery.last_error}</p>
+                )}
+              </div>
+              {delivery.status !== 'processing' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={replaying !== null}
+                  onClick={() => handleReplay([delivery.id], delivery.id)}
+                >
+                  {replaying === delivery.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -13,13 +13,23 @@ import {
 } from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/toast';
 import { athleteCheckIn } from '@/lib/athlete/attendance-actions';
-import { CheckCircle, Clock, AlertCircle, Loader2 } from 'lucide-react';
+import { getDevicePosition } from '@/lib/utils/device-location';
+import { QRCodeScanner } from './QRCodeScanner';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  evaluateCheckIn,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+import { CheckCircle, Clock, AlertCircle, Loader2, QrCode } from 'lucide-react';
 
 interface CheckInButtonProps {
   sessionId: string;
   sessionDate: string;
   startTime: string;
   sessionTitle?: string;
+  /** Club attendance policy; defaults to 30 min before / 15 min after */
+  policy?: AttendancePolicy;
   disabled?: boolean;
   className?: string;
   onSuccess?: () => void;
@@ -29,8 +39,11 @@ interface CheckInButtonProps {
 /**
  * CheckInButton Component
  * 
- * Validates check-in time window (30 min before - 15 min after)
+ * Validates the club's check-in window (default 30 min before - 15 min after)
  * Shows confirmation dialog
+ * Sends the device position so the server can verify the club geofence
+ * Offers scanning the coach's rotating QR code as an alternative
+ * (feature flag attendance_qr_checkin_v1)
  * Calls athleteCheckIn action
  * Displays success/error toast notifications
  * Updates UI state after check-in
@@ -42,6 +55,7 @@ export function CheckInButton({
   sessionDate,
   startTime,
   sessionTitle,
+  policy = DEFAULT_ATTENDANCE_POLICY,
   disabled = false,
   className = '',
   onSuccess,
@@ -51,36 +65,16 @@ export function CheckInButton({
   const { addToast } = useToast();
   const [isCheckingIn, setIsCheckingIn] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const qrCheckInEnabled = useFeatureFlag('attendance_qr_checkin_v1', true);
 
   /**
    * Validate check-in time window
-   * BR1: 30 minutes before to 15 minutes after start time
+   * BR1: club policy window (default 30 minutes before to 15 minutes after start time)
    */
   const validateCheckInWindow = (): { valid: boolean; message?: string } => {
-    const sessionDateTime = new Date(`${sessionDate}T${startTime}`);
-    const now = new Date();
-
-    // 30 minutes before
-    const earliestCheckIn = new Date(sessionDateTime.getTime() - 30 * 60 * 1000);
-    // 15 minutes after
-    const latestCheckIn = new Date(sessionDateTime.getTime() + 15 * 60 * 1000);
-
-    if (now < earliestCheckIn) {
-      const minutesUntil = Math.ceil((earliestCheckIn.getTime() - now.getTime()) / (60 * 1000));
-      return {
-        valid: false,
-        message: `ยังไม่ถึงเวลาเช็คอิน (สามารถเช็คอินได้ในอีก ${minutesUntil} นาที)`,
-      };
-    }
-
-    if (now > latestCheckIn) {
-      return {
-        valid: false,
-        message: 'หมดเวลาเช็คอินแล้ว (สามารถเช็คอินได้จนถึง 15 นาทีหลังเวลาเริ่ม)',
-      };
-    }
-
-    return { valid: true };
+    const evaluation = evaluateCheckIn(new Date(), sessionDate, startTime, policy);
+    return evaluation.allowed ? { valid: true } : { valid: false, message: evaluation.message };
   };
 
   /**
@@ -92,13 +86,9 @@ export function CheckInButton({
     icon: typeof Clock;
     color: string;
   } => {
-    const sessionDateTime = new Date(`${sessionDate}T${startTime}`);
-    const now = new Date();
-
-    const earliestCheckIn = new Date(sessionDateTime.getTime() - 30 * 60 * 1000);
-    const latestCheckIn = new Date(sessionDateTime.getTime() + 15 * 60 * 1000);
+    const evaluation = evaluateCheckIn(new Date(), sessionDate, startTime, policy);
 
-    if (now < earliestCheckIn) {
+    if (!evaluation.allowed && evaluation.reason === 'too_early') {
       return {
         status: 'early',
         message: 'ยังไม่ถึงเวลาเช็คอิน',
@@ -107,7 +97,7 @@ export function CheckInButton({
       };
     }
 
-    if (now > latestCheckIn) {
+    if (!evaluation.allowed) {
       return {
         status: 'closed',
         message: 'หมดเวลาเช็คอิน',
@@ -116,7 +106,7 @@ export function CheckInButton({
       };
     }
 
-    if (now <= sessionDateTime) {
+    if (evaluation.status === 'present') {
       return {
         status: 'on-time',
         message: 'เช็คอินได้ตอนนี้',
@@ -164,7 +154,8 @@ export function CheckInButton({
     setShowConfirmDialog(false);
 
     try {
-      const result = await athleteCheckIn(sessionId);
+      const position = await getDevicePosition();
+      const result = await athleteCheckIn(sessionId, position);
 
       if (result.error) {
         addToast({
@@ -176,12 +167,20 @@ export function CheckInButton({
           onError(result.error);
         }
       } else {
-        // Success
-        addToast({
-          title: 'เช็คอินสำเร็จ!',
-          description: 'คุณได้เช็คอินเข้าร่วมการฝึกซ้อมเรียบร้อยแล้ว',
-          variant: 'success',
-        });
+        // Success (possibly flagged by the geofence for coach review)
+        addToast(
+          result.flagged
+            ? {
+                title: 'เช็คอินสำเร็จ (รอโค้ชตรวจสอบ)',
+                description: `${result.flagReason} โค้ชจะตรวจสอบการเช็คอินนี้`,
+                variant: 'warning',
+              }
+            : {
+                title: 'เช็คอินสำเร็จ!',
+                description: 'คุณได้เช็คอินเข้าร่วมการฝึกซ้อมเรียบร้อยแล้ว',
+                variant: 'success',
+              }
+        );
         if (onSuccess) {
           onSuccess();
         }
@@ -232,6 +231,17 @@ export function CheckInButton({
           )}
         </Button>
 
+        {!isDisabled && qrCheckInEnabled && (
+          <Button
+            variant="outline"
+            onClick={() => setShowScanner(true)}
+            className={className || 'w-full'}
+          >
+            <QrCode className="mr-2 h-4 w-4" />
+            สแกน QR จากโค้ช
+          </Button>
+        )}
+
         {/* Time Status Indicator */}
         <div className={`flex items-center justify-center gap-2 text-sm ${timeStatus.color}`}>
           <TimeIcon className="h-4 w-4" />
@@ -269,7 +279,7 @@ export function CheckInButton({
                     <div className="flex items-start gap-2">
                       <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
                       <div className="text-sm text-yellow-700">
-                        คุณกำลังเช็คอินหลังเวลาเริ่ม สถานะจะถูกบันทึกว่า "สาย"
+                        คุณกำลังเช็คอินหลังเวลาที่กำหนด สถานะจะถูกบันทึกว่า "สาย"
                       </div>
                     </div>
                   </div>
@@ -298,6 +308,18 @@ export function CheckInButton({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {showScanner && (
+        <QRCodeScanner
+          sessionId={sessionId}
+          onClose={() => setShowScanner(false)}
+          onSuccess={() => {
+            setShowScanner(false);
+            onSuccess?.();
+            router.refresh();
+          }}
+        />
+      )}
     </>
   );
 }
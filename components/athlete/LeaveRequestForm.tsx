@@ -5,6 +5,14 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -14,8 +22,14 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/toast';
-import { requestLeave } from '@/lib/athlete/attendance-actions';
-import { AlertCircle, Clock, Loader2 } from 'lucide-react';
+import { requestLeave, uploadLeaveAttachment } from '@/lib/athlete/attendance-actions';
+import {
+  LEAVE_REASON_CATEGORIES,
+  LEAVE_REASON_CATEGORY_LABELS,
+  type LeavePolicyViolation,
+  type LeaveReasonCategory,
+} from '@/lib/utils/leave-policy';
+import { AlertCircle, AlertTriangle, Clock, Loader2, Paperclip } from 'lucide-react';
 
 interface LeaveRequestFormProps {
   sessionId: string;
@@ -31,9 +45,9 @@ interface LeaveRequestFormProps {
 /**
  * LeaveRequestForm Component
  * 
- * Reason textarea (min 10 characters)
- * Validate timing (at least 2 hours before session)
- * Call requestLeave action
+ * Reason category, reason textarea (min 10 characters) and optional attachment
+ * Call requestLeave action; the club leave policy is checked on the server
+ * and any rules the request breaks are shown before it is sent to the coach
  * Show submission status with toast notifications
  * 
  * Requirements: BR2
@@ -54,21 +68,22 @@ export function LeaveRequestForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [category, setCategory] = useState<LeaveReasonCategory>('other');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [uploadedPath, setUploadedPath] = useState<string | null>(null);
+  const [violations, setViolations] = useState<LeavePolicyViolation[]>([]);
 
   /**
-   * Validate timing - must be at least 2 hours before session
-   * BR2: Must request leave at least 2 hours before session start
+   * Validate timing - the session must not have started yet
+   * The notice period itself is a club leave policy rule checked by requestLeave
    */
   const validateTiming = (): { valid: boolean; message?: string } => {
     const sessionDateTime = new Date(`${sessionDate}T${startTime}`);
-    const now = new Date();
-    const twoHoursFromNow = new Date(now.getTime() + 2 * 60 * 60 * 1000);
 
-    if (sessionDateTime < twoHoursFromNow) {
-      const hoursUntil = Math.ceil((sessionDateTime.getTime() - now.getTime()) / (60 * 60 * 1000));
+    if (sessionDateTime <= new Date()) {
       return {
         valid: false,
-        message: `ต้องแจ้งลาล่วงหน้าอย่างน้อย 2 ชั่วโมงก่อนเวลาเริ่ม (เหลือเวลาอีก ${hoursUntil} ชั่วโมง)`,
+        message: 'ตารางฝึกซ้อมนี้เริ่มไปแล้ว ไม่สามารถแจ้งลาได้',
       };
     }
 
@@ -104,6 +119,7 @@ export function LeaveRequestForm({
    */
   const handleReasonChange = (value: string) => {
     setReason(value);
+    setViolations([]);
     
     // Clear validation error when user starts typing
     if (validationError) {
@@ -159,19 +175,47 @@ export function LeaveRequestForm({
 
   /**
    * Handle leave request confirmation
-   * Calls requestLeave action and handles response
+   * Uploads the attachment (if any), calls requestLeave and handles response.
+   * With `acknowledgeViolations` the request goes to the coach even though it
+   * breaks the leave policy.
    */
-  const handleConfirmLeaveRequest = async () => {
+  const handleConfirmLeaveRequest = async (acknowledgeViolations = false) => {
     setIsSubmitting(true);
     setShowConfirmDialog(false);
 
     try {
+      let attachmentPath = uploadedPath;
+      if (attachment && !attachmentPath) {
+        const upload = await uploadLeaveAttachment(attachment);
+        if (upload.error || !upload.data) {
+          addToast({
+            title: 'อัปโหลดไฟล์ไม่สำเร็จ',
+            description: upload.error || 'ไม่สามารถอัปโหลดไฟล์ได้',
+            variant: 'error',
+          });
+          return;
+        }
+        attachmentPath = upload.data.path;
+        setUploadedPath(attachmentPath);
+      }
+
       const result = await requestLeave({
         sessionId,
         reason: reason.trim(),
+        category,
+        attachmentPath,
+        acknowledgeViolations,
       });
 
-      if (result.error) {
+      if (result.violations && result.violations.length > 0) {
+        // Nothing was saved; show which rules the request breaks
+        setViolations(result.violations);
+        addToast({
+          title: 'คำขอลาไม่เป็นไปตามนโยบายการลา',
+          description: 'กรุณาตรวจสอบรายละเอียด หรือส่งให้โค้ชพิจารณา',
+          variant: 'warning',
+        });
+      } else if (result.error) {
         addToast({
           title: 'เกิดข้อผิดพลาด',
           description: result.error,
@@ -183,11 +227,17 @@ export function LeaveRequestForm({
       } else {
         // Success
         addToast({
-          title: 'ส่งคำขอลาสำเร็จ!',
-          description: 'คำขอลาของคุณได้ถูกส่งไปยังโค้ชเรียบร้อยแล้ว',
+          title: result.data?.status === 'approved' ? 'คำขอลาได้รับการอนุมัติแล้ว!' : 'ส่งคำขอลาสำเร็จ!',
+          description:
+            result.data?.status === 'approved'
+              ? 'คำขอลาเป็นไปตามนโยบายของสโมสรและได้รับการอนุมัติอัตโนมัติ'
+              : 'คำขอลาของคุณได้ถูกส่งไปยังโค้ชเรียบร้อยแล้ว',
           variant: 'success',
         });
         setReason(''); // Clear form
+        setAttachment(null);
+        setUploadedPath(null);
+        setViolations([]);
         if (onSuccess) {
           onSuccess();
         }
@@ -254,6 +304,30 @@ export function LeaveRequestForm({
           <span>{timingStatus.message}</span>
         </div>
 
+        {/* Reason Category */}
+        <div className="space-y-2">
+          <Label htmlFor="leave-category">ประเภทการลา</Label>
+          <Select
+            value={category}
+            onValueChange={(value) => {
+              setCategory(value as LeaveReasonCategory);
+              setViolations([]);
+            }}
+            disabled={isDisabled}
+          >
+            <SelectTrigger id="leave-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEAVE_REASON_CATEGORIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {LEAVE_REASON_CATEGORY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Reason Textarea */}
         <div className="space-y-2">
           <Label htmlFor="leave-reason">
@@ -283,6 +357,51 @@ export function LeaveRequestForm({
           </div>
         </div>
 
+        {/* Attachment */}
+        <div className="space-y-2">
+          <Label htmlFor="leave-attachment" className="flex items-center gap-1">
+            <Paperclip className="h-4 w-4" />
+            เอกสารประกอบ (เช่น ใบรับรองแพทย์)
+          </Label>
+          <Input
+            id="leave-attachment"
+            type="file"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            onChange={(e) => {
+              setAttachment(e.target.files?.[0] ?? null);
+              setUploadedPath(null);
+              setViolations([]);
+            }}
+            disabled={isDisabled}
+          />
+          <p className="text-xs text-gray-500">PDF หรือรูปภาพ ไม่เกิน 10MB</p>
+        </div>
+
+        {/* Policy Violations */}
+        {violations.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+            <div className="flex items-start gap-2 text-sm text-amber-800">
+              <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+              <div>
+                <div className="font-medium mb-1">คำขอลานี้ไม่เป็นไปตามนโยบายการลาของสโมสร</div>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {violations.map((violation) => (
+                    <li key={violation.rule}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => handleConfirmLeaveRequest(true)}
+              disabled={isDisabled}
+            >
+              ส่งให้โค้ชพิจารณา
+            </Button>
+          </div>
+        )}
+
         {/* Submit Button */}
         <Button
           onClick={handleSubmit}
@@ -337,7 +456,8 @@ export function LeaveRequestForm({
                   <div className="flex items-start gap-2">
                     <AlertCircle className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
                     <div className="text-sm text-blue-700">
-                      คำขอลาจะถูกส่งไปยังโค้ชเพื่อพิจารณาอนุมัติ
+                      คำขอลาที่เป็นไปตามนโยบายของสโมสรจะได้รับการอนุมัติอัตโนมัติ
+                      นอกนั้นจะถูกส่งไปยังโค้ชเพื่อพิจารณา
                     </div>
                   </div>
                 </div>
@@ -352,7 +472,7 @@ export function LeaveRequestForm({
             >
               ยกเลิก
             </Button>
-            <Button onClick={handleConfirmLeaveRequest} disabled={isSubmitting}>
+            <Button onClick={() => handleConfirmLeaveRequest()} disabled={isSubmitting}>
               {isSubmitting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
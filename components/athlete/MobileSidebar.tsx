@@ -12,6 +12,7 @@ import {
   TrendingUp, 
   FileText, 
   User, 
+  Trophy,
   LogOut 
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -28,6 +29,7 @@ const navItems: NavItem[] = [
   { href: '/dashboard/athlete/schedule', label: 'ตารางฝึกซ้อม', icon: Calendar },
   { href: '/dashboard/athlete/performance', label: 'ผลการทดสอบ', icon: TrendingUp },
   { href: '/dashboard/athlete/attendance', label: 'ประวัติการเข้าร่วม', icon: FileText },
+  { href: '/dashboard/athlete/tournaments', label: 'ทัวร์นาเมนต์', icon: Trophy },
   { href: '/dashboard/athlete/profile', label: 'โปรไฟล์', icon: User },
 ];
 
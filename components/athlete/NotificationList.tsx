@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Bell, Calendar, MessageSquare, TrendingUp, Check, X, Trash2 } from 'lucide-react';
+import { Bell, Calendar, CalendarX, FileText, MessageSquare, TrendingUp, Check, X, Trash2, Trophy } from 'lucide-react';
 import { Notification, markAsRead, markAllAsRead, deleteNotification } from '@/lib/notifications/actions';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
@@ -28,6 +28,12 @@ export function NotificationList({ notifications }: NotificationListProps) {
         return <Check className="w-5 h-5" />;
       case 'leave_rejected':
         return <X className="w-5 h-5" />;
+      case 'tournament_selection':
+        return <Trophy className="w-5 h-5" />;
+      case 'schedule_cancelled':
+        return <CalendarX className="w-5 h-5" />;
+      case 'report_published':
+        return <FileText className="w-5 h-5" />;
       default:
         return <Bell className="w-5 h-5" />;
     }
@@ -47,6 +53,12 @@ export function NotificationList({ notifications }: NotificationListProps) {
         return 'bg-green-100 text-green-600';
       case 'leave_rejected':
         return 'bg-red-100 text-red-600';
+      case 'tournament_selection':
+        return 'bg-orange-100 text-orange-600';
+      case 'schedule_cancelled':
+        return 'bg-red-100 text-red-600';
+      case 'report_published':
+        return 'bg-blue-100 text-blue-600';
       default:
         return 'bg-gray-100 text-gray-600';
     }
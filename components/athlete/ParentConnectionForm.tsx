@@ -23,6 +23,7 @@ import {
 } from '@/components/ui/dialog';
 import { UserPlus, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
+import { EMAIL_LOCALES, EMAIL_LOCALE_LABELS, type EmailLocale } from '@/lib/utils/email-templates';
 
 export function ParentConnectionForm() {
   const [open, setOpen] = useState(false);
@@ -34,6 +35,7 @@ export function ParentConnectionForm() {
     parentName: '',
     relationship: 'father',
     phoneNumber: '',
+    emailLocale: 'th',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -77,6 +79,7 @@ export function ParentConnectionForm() {
           parentName: '',
           relationship: 'father',
           phoneNumber: '',
+          emailLocale: 'th',
         });
         
         setOpen(false);
@@ -185,6 +188,28 @@ export function ParentConnectionForm() {
                 disabled={loading}
               />
             </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="emailLocale">ภาษาของอีเมลถึงผู้ปกครอง</Label>
+              <Select
+                value={formData.emailLocale}
+                onValueChange={(value: EmailLocale) =>
+                  setFormData({ ...formData, emailLocale: value })
+                }
+                disabled={loading}
+              >
+                <SelectTrigger id="emailLocale">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_LOCALES.map((locale) => (
+                    <SelectItem key={locale} value={locale}>
+                      {EMAIL_LOCALE_LABELS[locale]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <DialogFooter>
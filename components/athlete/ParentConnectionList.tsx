@@ -27,14 +27,23 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
 import { Mail, Phone, CheckCircle, XCircle, Trash2, Send, Settings } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
-import { NotificationPreferencesDialog } from './NotificationPreferencesDialog';
+import { NotificationPreferencesCenter } from '@/components/ui/NotificationPreferencesCenter';
 
 export function ParentConnectionList() {
   const [connections, setConnections] = useState<ParentConnection[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [preferencesFor, setPreferencesFor] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -178,10 +187,31 @@ export function ParentConnectionList() {
               </div>
               
               <div className="flex items-center gap-2">
-                <NotificationPreferencesDialog
-                  connection={connection}
-                  onUpdate={loadConnections}
-                />
+                <Dialog
+                  open={preferencesFor === connection.id}
+                  onOpenChange={(open) => setPreferencesFor(open ? connection.id : null)}
+                >
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label="ตั้งค่าการแจ้งเตือน">
+                      <Settings className="w-4 h-4" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>ตั้งค่าการแจ้งเตือน</DialogTitle>
+                      <DialogDescription>
+                        กำหนดช่องทางและความถี่ของการแจ้งเตือนที่ผู้ปกครองจะได้รับ
+                      </DialogDescription>
+                    </DialogHeader>
+                    <NotificationPreferencesCenter
+                      recipient={{ kind: 'parent', connection }}
+                      onSaved={() => {
+                        setPreferencesFor(null);
+                        loadConnections();
+                      }}
+                    />
+                  </DialogContent>
+                </Dialog>
                 
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
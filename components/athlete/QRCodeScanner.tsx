@@ -5,17 +5,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { checkInWithQR } from '@/lib/activity/actions';
+import { athleteCheckIn } from '@/lib/athlete/attendance-actions';
+import { parseSessionQRToken } from '@/lib/athlete/session-qr-token';
+import { getDevicePosition } from '@/lib/utils/device-location';
 import { useToast } from '@/components/ui/toast';
 import { Camera, Keyboard, Loader2, X, AlertCircle } from 'lucide-react';
 import { Html5Qrcode } from 'html5-qrcode';
 
 interface QRCodeScannerProps {
-  activityId: string;
+  /** Activity to check in to with its static QR token */
+  activityId?: string;
+  /** Training session to check in to with the coach's rotating QR token */
+  sessionId?: string;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export function QRCodeScanner({ activityId, onClose, onSuccess }: QRCodeScannerProps) {
+export function QRCodeScanner({ activityId, sessionId, onClose, onSuccess }: QRCodeScannerProps) {
   const [mode, setMode] = useState<'scan' | 'manual'>('scan');
   const [qrToken, setQrToken] = useState('');
   const [loading, setLoading] = useState(false);
@@ -84,6 +90,35 @@ export function QRCodeScanner({ activityId, onClose, onSuccess }: QRCodeScannerP
     setScanning(false);
   };
 
+  /**
+   * Send the scanned text through the matching check-in path:
+   * rotating training session tokens go to athleteCheckIn, anything else is
+   * treated as an activity token
+   */
+  const submitToken = async (
+    token: string
+  ): Promise<{
+    error?: string;
+    data?: unknown;
+    session?: { flagged?: boolean; flagReason?: string };
+  }> => {
+    const sessionToken = parseSessionQRToken(token);
+
+    if (sessionToken) {
+      if (sessionId && sessionToken.sessionId !== sessionId) {
+        return { error: 'QR Code นี้ไม่ใช่ของตารางฝึกซ้อมนี้' };
+      }
+      const position = await getDevicePosition();
+      const result = await athleteCheckIn(sessionToken.sessionId, position, token);
+      return result.error ? { error: result.error } : { session: result };
+    }
+
+    if (!activityId) {
+      return { error: 'QR Code ไม่ถูกต้อง' };
+    }
+    return checkInWithQR(activityId, token);
+  };
+
   const handleScan = async (decodedText: string) => {
     if (loading) return;
 
@@ -91,7 +126,7 @@ export function QRCodeScanner({ activityId, onClose, onSuccess }: QRCodeScannerP
     await stopScanner();
 
     setLoading(true);
-    const result = await checkInWithQR(activityId, decodedText.trim());
+    const result = await submitToken(decodedText.trim());
     setLoading(false);
 
     if (result.error) {
@@ -104,6 +139,15 @@ export function QRCodeScanner({ activityId, onClose, onSuccess }: QRCodeScannerP
       if (mode === 'scan') {
         setTimeout(() => startScanner(), 1000);
       }
+    } else if (result.session) {
+      addToast({
+        title: 'เช็คอินสำเร็จ! 🎉',
+        description: result.session.flagged
+          ? `${result.session.flagReason} โค้ชจะตรวจสอบการเช็คอินนี้`
+          : 'คุณได้เช็คอินเข้าร่วมการฝึกซ้อมเรียบร้อยแล้ว',
+        variant: result.session.flagged ? 'warning' : 'success',
+      });
+      onSuccess();
     } else {
       addToast({
         title: 'เช็คอินสำเร็จ! 🎉',
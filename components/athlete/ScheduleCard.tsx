@@ -1,12 +1,19 @@
 'use client';
 
-import { Calendar, Clock, MapPin, User, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { Calendar, Clock, MapPin, User, CheckCircle, XCircle, AlertCircle, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Database } from '@/types/database.types';
 import { useState } from 'react';
 import { athleteCheckIn, requestLeave } from '@/lib/athlete/attendance-actions';
+import { getDevicePosition } from '@/lib/utils/device-location';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  evaluateCheckIn,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
 import { useRouter } from 'next/navigation';
+import { describeRecurrence, type RecurrenceFrequency } from '@/lib/coach/session-recurrence';
 
 type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
 type AttendanceLog = Database['public']['Tables']['attendance']['Row'];
@@ -28,13 +35,21 @@ interface SessionWithAttendance extends TrainingSession {
   attendance?: AttendanceLog | null;
   leave_request?: LeaveRequest | null;
   coach_name?: string;
+  series?: {
+    frequency: RecurrenceFrequency;
+    weekdays: number[];
+    end_date: string | null;
+    occurrence_count: number | null;
+  } | null;
 }
 
 interface ScheduleCardProps {
   session: SessionWithAttendance;
+  /** Club attendance policy; defaults to 30 min before / 15 min after */
+  policy?: AttendancePolicy;
 }
 
-export function ScheduleCard({ session }: ScheduleCardProps) {
+export function ScheduleCard({ session, policy = DEFAULT_ATTENDANCE_POLICY }: ScheduleCardProps) {
   const router = useRouter();
   const [isCheckingIn, setIsCheckingIn] = useState(false);
   const [isRequestingLeave, setIsRequestingLeave] = useState(false);
@@ -64,15 +79,7 @@ export function ScheduleCard({ session }: ScheduleCardProps) {
       return false;
     }
 
-    const sessionDateTime = new Date(`${session.session_date}T${session.start_time}`);
-    const now = new Date();
-    
-    // 30 minutes before
-    const earliestCheckIn = new Date(sessionDateTime.getTime() - 30 * 60 * 1000);
-    // 15 minutes after
-    const latestCheckIn = new Date(sessionDateTime.getTime() + 15 * 60 * 1000);
-
-    return now >= earliestCheckIn && now <= latestCheckIn;
+    return evaluateCheckIn(new Date(), session.session_date, session.start_time, policy).allowed;
   };
 
   // Check if leave request is available
@@ -172,7 +179,8 @@ export function ScheduleCard({ session }: ScheduleCardProps) {
     setIsCheckingIn(true);
     setError(null);
 
-    const result = await athleteCheckIn(session.id);
+    const position = await getDevicePosition();
+    const result = await athleteCheckIn(session.id, position);
 
     if (result.error) {
       setError(result.error);
@@ -237,6 +245,21 @@ export function ScheduleCard({ session }: ScheduleCardProps) {
             <span>{session.location}</span>
           </div>
 
+          {/* Recurrence */}
+          {session.series && (
+            <div className="flex items-center text-sm text-gray-600">
+              <Repeat className="h-4 w-4 mr-2 flex-shrink-0" />
+              <span>
+                {describeRecurrence({
+                  frequency: session.series.frequency,
+                  weekdays: session.series.weekdays,
+                  end_date: session.series.end_date ?? undefined,
+                  occurrence_count: session.series.occurrence_count ?? undefined,
+                })}
+              </span>
+            </div>
+          )}
+
           {/* Coach */}
           {session.coach_name && (
             <div className="flex items-center text-sm text-gray-600">
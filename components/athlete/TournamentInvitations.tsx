@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/toast';
+import { respondToTournamentInvitation } from '@/lib/athlete/tournament-actions';
+import {
+  MAX_RSVP_REASON_LENGTH,
+  RSVP_STAGE_LABELS,
+  canRespond,
+  rsvpStage,
+  type RsvpState,
+} from '@/lib/utils/tournament-rsvp';
+import { Calendar, Check, Loader2, MapPin, Trophy, X } from 'lucide-react';
+
+export interface TournamentInvitation extends RsvpState {
+  id: string;
+  response_reason: string | null;
+  athlete_responded_at: string | null;
+  tournament: {
+    id: string;
+    name: string;
+    sport_type: string;
+    location: string | null;
+    start_date: string;
+    end_date: string;
+  };
+  category: { id: string; name: string } | null;
+}
+
+interface TournamentInvitationsProps {
+  invitations: TournamentInvitation[];
+}
+
+const STAGE_COLORS: Record<string, string> = {
+  awaiting_athlete: 'bg-blue-100 text-blue-700',
+  awaiting_consent: 'bg-yellow-100 text-yellow-700',
+  confirmed: 'bg-green-100 text-green-700',
+  declined: 'bg-gray-100 text-gray-600',
+  waiting: 'bg-orange-100 text-orange-700',
+};
+
+/**
+ * TournamentInvitations Component
+ *
+ * Lists the athlete's tournament selections; a place can be confirmed, or
+ * declined with a reason. Minors see that their confirmation still waits for
+ * a parent's consent.
+ */
+export function TournamentInvitations({ invitations }: TournamentInvitationsProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const [declining, setDeclining] = useState<TournamentInvitation | null>(null);
+  const [reason, setReason] = useState('');
+
+  async function respond(invitation: TournamentInvitation, response: 'confirmed' | 'declined') {
+    setSubmitting(invitation.id);
+    const result = await respondToTournamentInvitation(
+      invitation.id,
+      response,
+      response === 'declined' ? reason : undefined
+    );
+    setSubmitting(null);
+
+    if (result.error) {
+      addToast({ title: 'ไม่สามารถบันทึกคำตอบได้', description: result.error, variant: 'error' });
+      return;
+    }
+
+    addToast({
+      title: response === 'confirmed' ? 'ยืนยันการเข้าร่วมแล้ว' : 'สละสิทธิ์แล้ว',
+      description:
+        result.status === 'selected' ? 'รอผู้ปกครองให้ความยินยอมก่อนยืนยันสิทธิ์' : undefined,
+      variant: 'success',
+    });
+    setDeclining(null);
+    setReason('');
+    router.refresh();
+  }
+
+  if (invitations.length === 0) {
+    return (
+      <div className="bg-white rounded-2xl p-12 text-center">
+        <Trophy className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-600">ยังไม่มีการคัดเลือกเข้าร่วมทัวร์นาเมนต์</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {invitations.map((invitation) => {
+        const stage = rsvpStage(invitation);
+        return (
+          <div key={invitation.id} className="bg-white rounded-xl border border-gray-200 p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h3 className="font-semibold text-black">{invitation.tournament.name}</h3>
+                <p className="text-xs text-gray-500">
+                  {invitation.tournament.sport_type}
+                  {invitation.category && ` · ${invitation.category.name}`}
+                </p>
+              </div>
+              <span className={`text-xs px-2 py-0.5 rounded-full ${STAGE_COLORS[stage]}`}>
+                {RSVP_STAGE_LABELS[stage]}
+              </span>
+            </div>
+
+            <div className="mt-3 space-y-1 text-sm text-gray-600">
+              <p className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                {new Date(invitation.tournament.start_date).toLocaleDateString('th-TH')} -{' '}
+                {new Date(invitation.tournament.end_date).toLocaleDateString('th-TH')}
+              </p>
+              {invitation.tournament.location && (
+                <p className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  {invitation.tournament.location}
+                </p>
+              )}
+            </div>
+
+            {invitation.response_reason && (
+              <p className="mt-3 text-sm text-gray-500">เหตุผล: {invitation.response_reason}</p>
+            )}
+
+            {canRespond(invitation.status) && invitation.athlete_response !== 'confirmed' && (
+              <div className="mt-4 flex gap-2">
+                <Button
+                  className="flex-1"
+                  disabled={submitting === invitation.id}
+                  onClick={() => respond(invitation, 'confirmed')}
+                >
+                  {submitting === invitation.id ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4 mr-1" />
+                  )}
+                  ยืนยันเข้าร่วม
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={submitting === invitation.id}
+                  onClick={() => setDeclining(invitation)}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  สละสิทธิ์
+                </Button>
+              </div>
+            )}
+
+            {canRespond(invitation.status) && invitation.athlete_response === 'confirmed' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-3 text-red-600"
+                onClick={() => setDeclining(invitation)}
+              >
+                เปลี่ยนเป็นสละสิทธิ์
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      <Dialog open={!!declining} onOpenChange={(open) => !open && setDeclining(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>สละสิทธิ์การเข้าร่วม</DialogTitle>
+            <DialogDescription>
+              {declining?.tournament.name} — สิทธิ์ของคุณจะถูกส่งต่อให้นักกีฬาในรายชื่อสำรอง
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decline-reason">เหตุผล</Label>
+            <Textarea
+              id="decline-reason"
+              value={reason}
+              maxLength={MAX_RSVP_REASON_LENGTH}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="เช่น ติดสอบ, บาดเจ็บ"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeclining(null)}>
+              ยกเลิก
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || submitting !== null}
+              onClick={() => declining && respond(declining, 'declined')}
+            >
+              ยืนยันสละสิทธิ์
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
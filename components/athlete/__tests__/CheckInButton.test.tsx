@@ -142,7 +142,7 @@ describe('CheckInButton', () => {
     fireEvent.click(confirmButton);
 
     await waitFor(() => {
-      expect(mockCheckIn).toHaveBeenCalledWith('test-session-id');
+      expect(mockCheckIn).toHaveBeenCalledWith('test-session-id', null);
     });
   });
 
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -12,8 +12,12 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { markAttendance } from '@/lib/coach/attendance-actions';
+import { getQueuedAttendanceMarks, queueAttendanceMark } from '@/lib/coach/offline-attendance';
+import type { OfflineAttendanceMark } from '@/lib/coach/attendance-conflicts';
+import { syncManager } from '@/lib/utils/sync-manager';
+import { describeGeofenceReason } from '@/lib/athlete/geofence';
 import { Database } from '@/types/database.types';
-import { Search, CheckCircle2, XCircle, Clock, UserX } from 'lucide-react';
+import { Search, CheckCircle2, XCircle, Clock, UserX, MapPinOff, CloudOff } from 'lucide-react';
 
 type AttendanceStatus = Database['public']['Tables']['attendance']['Row']['status'];
 type AttendanceLog = Database['public']['Tables']['attendance']['Row'];
@@ -30,6 +34,8 @@ interface AttendanceSheetProps {
   sessionId: string;
   athletes: AthleteWithAttendance[];
   onUpdate?: () => void;
+  /** Sheet was closed out after the session ended; marking is read-only */
+  locked?: boolean;
 }
 
 const STATUS_OPTIONS: { value: AttendanceStatus; label: string; icon: React.ReactNode; color: string }[] = [
@@ -39,10 +45,35 @@ const STATUS_OPTIONS: { value: AttendanceStatus; label: string; icon: React.Reac
   { value: 'late', label: 'สาย', icon: <Clock className="size-4" />, color: 'text-yellow-600' },
 ];
 
-export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceSheetProps) {
+export function AttendanceSheet({
+  sessionId,
+  athletes,
+  onUpdate,
+  locked = false,
+}: AttendanceSheetProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [savingStates, setSavingStates] = useState<Record<string, boolean>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Marks taken offline that have not been sent yet, by athlete ID
+  const [pendingMarks, setPendingMarks] = useState<Record<string, OfflineAttendanceMark>>({});
+
+  useEffect(() => {
+    const loadPendingMarks = async () => {
+      try {
+        setPendingMarks(await getQueuedAttendanceMarks(sessionId));
+      } catch (error) {
+        console.error('Failed to load queued attendance marks:', error);
+      }
+    };
+
+    loadPendingMarks();
+    return syncManager.addListener((status) => {
+      if (status.status === 'success' || status.status === 'error') {
+        loadPendingMarks();
+        onUpdate?.();
+      }
+    });
+  }, [sessionId, onUpdate]);
 
   // Filter athletes based on search query
   const filteredAthletes = useMemo(() => {
@@ -56,16 +87,43 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
     });
   }, [athletes, searchQuery]);
 
-  // Handle status change with real-time save
-  const handleStatusChange = async (athleteId: string, status: AttendanceStatus) => {
-    setSavingStates((prev) => ({ ...prev, [athleteId]: true }));
-    setErrors((prev) => ({ ...prev, [athleteId]: '' }));
+  // Save a mark, or queue it for sync when there is no connection
+  const saveMark = async (
+    athleteId: string,
+    status: AttendanceStatus,
+    notes?: string
+  ): Promise<{ success?: boolean; error?: string }> => {
+    if (navigator.onLine) {
+      try {
+        return await markAttendance({ sessionId, athleteId, status, notes });
+      } catch {
+        // The request did not reach the server; queue the mark instead
+      }
+    }
 
-    const result = await markAttendance({
+    const athlete = athletes.find((a) => a.id === athleteId);
+    const pending = pendingMarks[athleteId];
+    await queueAttendanceMark({
       sessionId,
       athleteId,
+      athleteName: athlete ? `${athlete.first_name} ${athlete.last_name}` : athleteId,
       status,
+      notes: notes ?? pending?.notes,
+      markedAt: new Date().toISOString(),
+      base: athlete?.attendance
+        ? { status: athlete.attendance.status, updatedAt: athlete.attendance.updated_at }
+        : null,
     });
+    setPendingMarks(await getQueuedAttendanceMarks(sessionId));
+    return { success: true };
+  };
+
+  // Handle status change with real-time save
+  const handleStatusChange = async (athleteId: string, status: AttendanceStatus) => {
+    setSavingStates((prev) => ({ ...prev, [athleteId]: true }));
+    setErrors((prev) => ({ ...prev, [athleteId]: '' }));
+
+    const result = await saveMark(athleteId, status);
 
     setSavingStates((prev) => ({ ...prev, [athleteId]: false }));
 
@@ -80,17 +138,13 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
   // Handle notes change with real-time save
   const handleNotesChange = async (athleteId: string, notes: string) => {
     const athlete = athletes.find((a) => a.id === athleteId);
-    const currentStatus = athlete?.attendance?.status || 'absent';
+    const currentStatus =
+      pendingMarks[athleteId]?.status || athlete?.attendance?.status || 'absent';
 
     setSavingStates((prev) => ({ ...prev, [`${athleteId}-notes`]: true }));
     setErrors((prev) => ({ ...prev, [`${athleteId}-notes`]: '' }));
 
-    const result = await markAttendance({
-      sessionId,
-      athleteId,
-      status: currentStatus,
-      notes,
-    });
+    const result = await saveMark(athleteId, currentStatus, notes);
 
     setSavingStates((prev) => ({ ...prev, [`${athleteId}-notes`]: false }));
 
@@ -141,8 +195,9 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
           </div>
         ) : (
           filteredAthletes.map((athlete) => {
-            const currentStatus = athlete.attendance?.status;
-            const currentNotes = athlete.attendance?.notes || '';
+            const pendingMark = pendingMarks[athlete.id];
+            const currentStatus = pendingMark?.status ?? athlete.attendance?.status;
+            const currentNotes = pendingMark?.notes ?? (athlete.attendance?.notes || '');
             const isSaving = savingStates[athlete.id];
             const isSavingNotes = savingStates[`${athlete.id}-notes`];
             const error = errors[athlete.id];
@@ -167,6 +222,29 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
                     {currentStatus && (
                       <div className="mt-1">{getStatusBadge(currentStatus)}</div>
                     )}
+                    {pendingMark && (
+                      <div className="mt-1 flex items-center gap-1 text-orange-600">
+                        <CloudOff className="size-4" />
+                        <span className="text-xs font-medium">รอซิงค์เมื่อกลับมาออนไลน์</span>
+                      </div>
+                    )}
+                    {athlete.attendance?.geofence_flagged && (
+                      <div
+                        className="mt-1 flex items-center gap-1 text-orange-600"
+                        title={
+                          athlete.attendance.check_in_distance_m != null
+                            ? `ห่างจากจุดฝึกซ้อม ${Math.round(athlete.attendance.check_in_distance_m)} ม.`
+                            : undefined
+                        }
+                      >
+                        <MapPinOff className="size-4" />
+                        <span className="text-xs font-medium">
+                          ตำแหน่งเช็คอินถูกตั้งข้อสังเกต
+                          {athlete.attendance.geofence_flag_reason &&
+                            ` (${describeGeofenceReason(athlete.attendance.geofence_flag_reason)})`}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Status Selector */}
@@ -174,7 +252,7 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
                     <Select
                       value={currentStatus || ''}
                       onValueChange={(value) => handleStatusChange(athlete.id, value as AttendanceStatus)}
-                      disabled={isSaving}
+                      disabled={isSaving || locked}
                     >
                       <SelectTrigger className="w-full">
                         <SelectValue placeholder="เลือกสถานะ" />
@@ -203,7 +281,7 @@ export function AttendanceSheet({ sessionId, athletes, onUpdate }: AttendanceShe
                     placeholder="เพิ่มหมายเหตุ..."
                     value={currentNotes}
                     onChange={(e) => handleNotesChange(athlete.id, e.target.value)}
-                    disabled={isSavingNotes}
+                    disabled={isSavingNotes || locked}
                     rows={2}
                     className="resize-none text-sm"
                   />
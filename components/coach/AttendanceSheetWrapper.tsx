@@ -1,10 +1,13 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { AttendanceSheet } from './AttendanceSheet';
-import { Users } from 'lucide-react';
+import { QRCodeDisplay } from './QRCodeDisplay';
+import { Button } from '@/components/ui/button';
+import { Users, QrCode, Lock, CloudOff } from 'lucide-react';
 import { Database } from '@/types/database.types';
 import { useRouter } from 'next/navigation';
+import { cacheAttendanceSheet, getCachedAttendanceSheet } from '@/lib/coach/offline-attendance';
 
 type AttendanceLog = Database['public']['Tables']['attendance']['Row'];
 
@@ -28,7 +31,36 @@ export function AttendanceSheetWrapper({
   initialSession,
 }: AttendanceSheetWrapperProps) {
   const router = useRouter();
-  const [athletes] = useState(initialAthletes);
+  const [athletes, setAthletes] = useState(initialAthletes);
+  const [showQRCode, setShowQRCode] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+
+  // Keep the sheet available offline; without a connection, show the copy
+  // cached the last time the session was opened online
+  useEffect(() => {
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+
+    if (navigator.onLine) {
+      cacheAttendanceSheet(sessionId, initialSession, initialAthletes).catch((error) =>
+        console.error('Failed to cache attendance sheet:', error)
+      );
+    } else {
+      getCachedAttendanceSheet<unknown, AthleteWithAttendance>(sessionId)
+        .then((sheet) => {
+          setIsOffline(true);
+          if (sheet) setAthletes(sheet.athletes);
+        })
+        .catch((error) => console.error('Failed to load cached attendance sheet:', error));
+    }
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sessionId, initialSession, initialAthletes]);
 
   // Handle refresh after attendance update
   const handleUpdate = useCallback(() => {
@@ -42,6 +74,7 @@ export function AttendanceSheetWrapper({
   const excusedCount = athletes.filter((a) => a.attendance?.status === 'excused').length;
   const lateCount = athletes.filter((a) => a.attendance?.status === 'late').length;
   const unmarkedCount = athletes.filter((a) => !a.attendance).length;
+  const isLocked = Boolean(initialSession.attendance_locked_at);
 
   return (
     <div className="grid gap-6 lg:grid-cols-3">
@@ -49,10 +82,30 @@ export function AttendanceSheetWrapper({
       <div className="lg:col-span-2">
         <div className="rounded-lg bg-white p-6 shadow">
           <h2 className="text-lg font-semibold mb-4">รายชื่อนักกีฬา</h2>
+          {isOffline && !isLocked && (
+            <div className="mb-4 flex items-start gap-2 rounded-lg bg-orange-50 p-3 text-sm text-orange-800">
+              <CloudOff className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                ออฟไลน์อยู่ การเช็คชื่อจะถูกบันทึกไว้ในเครื่องและส่งเข้าระบบเมื่อกลับมาออนไลน์
+                หากข้อมูลในระบบเปลี่ยนไประหว่างนั้น จะมีรายการให้ตรวจสอบที่มุมขวาล่าง
+              </span>
+            </div>
+          )}
+          {isLocked && (
+            <div className="mb-4 flex items-start gap-2 rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+              <Lock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                ปิดการเช็คชื่อแล้วเมื่อ{' '}
+                {new Date(initialSession.attendance_locked_at).toLocaleString('th-TH')}{' '}
+                นักกีฬาที่ไม่ได้เช็คอินถูกบันทึกเป็นขาด/ลาโดยอัตโนมัติ หากต้องการแก้ไขกรุณาติดต่อแอดมิน
+              </span>
+            </div>
+          )}
           <AttendanceSheet
             sessionId={sessionId}
             athletes={athletes}
             onUpdate={handleUpdate}
+            locked={isLocked}
           />
         </div>
       </div>
@@ -114,6 +167,13 @@ export function AttendanceSheetWrapper({
               </div>
             )}
           </div>
+
+          {initialSession.status !== 'cancelled' && !isLocked && (
+            <Button variant="outline" className="w-full mt-4" onClick={() => setShowQRCode(true)}>
+              <QrCode className="h-4 w-4 mr-2" />
+              แสดง QR Code เช็คอิน
+            </Button>
+          )}
         </div>
 
         {/* Attendance Summary */}
@@ -203,6 +263,21 @@ export function AttendanceSheetWrapper({
           </ul>
         </div>
       </div>
+
+      {showQRCode && (
+        <QRCodeDisplay
+          trainingSession={{
+            id: sessionId,
+            title: initialSession.title || initialSession.session_name || 'ฝึกซ้อม',
+            session_date: initialSession.session_date,
+            start_time: initialSession.start_time,
+          }}
+          onClose={() => {
+            setShowQRCode(false);
+            handleUpdate();
+          }}
+        />
+      )}
     </div>
   );
 }
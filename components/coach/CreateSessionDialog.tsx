@@ -33,7 +33,7 @@ export function CreateSessionDialog() {
         <DialogHeader>
           <DialogTitle>สร้างตารางฝึกซ้อมใหม่</DialogTitle>
           <DialogDescription>
-            กรอกข้อมูลตารางฝึกซ้อมที่ต้องการสร้าง
+            กรอกข้อมูลตารางฝึกซ้อมที่ต้องการสร้าง หรือเลือกทำซ้ำเพื่อสร้างตารางประจำสัปดาห์
           </DialogDescription>
         </DialogHeader>
         <SessionForm
@@ -3,11 +3,15 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/toast';
-import { reviewLeaveRequest } from '@/lib/coach/attendance-actions';
-import { CheckCircle, XCircle, Clock, User, Calendar, MapPin, Loader2 } from 'lucide-react';
+import { bulkReviewLeaveRequests, reviewLeaveRequest } from '@/lib/coach/attendance-actions';
+import { LEAVE_REASON_CATEGORY_LABELS, type LeavePolicyViolation, type LeaveReasonCategory } from '@/lib/utils/leave-policy';
+import { CheckCircle, XCircle, Clock, User, Calendar, MapPin, Loader2, Paperclip, AlertTriangle, Zap } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 interface LeaveRequest {
@@ -19,6 +23,11 @@ interface LeaveRequest {
   requested_at: string;
   reviewed_by: string | null;
   reviewed_at: string | null;
+  reason_category?: LeaveReasonCategory;
+  attachment_url?: string | null;
+  policy_violations?: LeavePolicyViolation[];
+  auto_approved?: boolean;
+  review_comment?: string | null;
   training_sessions?: {
     id: string;
     title: string;
@@ -46,10 +55,37 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
   const [reviewAction, setReviewAction] = useState<'approve' | 'reject' | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [comment, setComment] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<'approve' | 'reject' | null>(null);
+
+  const pendingRequests = requests.filter((request) => request.status === 'pending');
+  const allPendingSelected = pendingRequests.length > 0 && pendingRequests.every((request) => selectedIds.has(request.id));
 
   const handleReviewClick = (request: LeaveRequest, action: 'approve' | 'reject') => {
     setSelectedRequest(request);
     setReviewAction(action);
+    setComment('');
+  };
+
+  const closeReviewDialog = () => {
+    setSelectedRequest(null);
+    setReviewAction(null);
+    setBulkAction(null);
+    setComment('');
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllPending = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(pendingRequests.map((request) => request.id)) : new Set());
   };
 
   const handleConfirmReview = async () => {
@@ -57,7 +93,7 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
     setIsSubmitting(true);
 
     try {
-      const result = await reviewLeaveRequest(selectedRequest.id, reviewAction);
+      const result = await reviewLeaveRequest(selectedRequest.id, reviewAction, comment);
       if (result.error) {
         addToast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
       } else {
@@ -66,8 +102,7 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
           description: 'คำขอลาได้รับการพิจารณาแล้ว',
           variant: 'success',
         });
-        setSelectedRequest(null);
-        setReviewAction(null);
+        closeReviewDialog();
         router.refresh();
       }
     } catch (error) {
@@ -77,6 +112,32 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
     }
   };
 
+  const handleConfirmBulkReview = async () => {
+    if (!bulkAction || selectedIds.size === 0) return;
+    setIsSubmitting(true);
+
+    try {
+      const result = await bulkReviewLeaveRequests(Array.from(selectedIds), bulkAction, comment);
+      if (result.error || !result.data) {
+        addToast({ title: 'เกิดข้อผิดพลาด', description: result.error || 'เกิดข้อผิดพลาดที่ไม่คาดคิด', variant: 'error' });
+      } else {
+        const { reviewed, skipped } = result.data;
+        addToast({
+          title: bulkAction === 'approve' ? `อนุมัติคำขอลา ${reviewed} รายการ` : `ปฏิเสธคำขอลา ${reviewed} รายการ`,
+          description: skipped.length > 0 ? `ข้าม ${skipped.length} รายการ: ${skipped[0].error}` : 'คำขอลาได้รับการพิจารณาแล้ว',
+          variant: skipped.length > 0 ? 'warning' : 'success',
+        });
+        setSelectedIds(new Set());
+        closeReviewDialog();
+        router.refresh();
+      }
+    } catch {
+      addToast({ title: 'เกิดข้อผิดพลาด', description: 'เกิดข้อผิดพลาดที่ไม่คาดคิด', variant: 'error' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const getAthleteName = (request: LeaveRequest) => {
     if (!request.athletes) return 'นักกีฬา';
     const { first_name, last_name, nickname } = request.athletes;
@@ -122,6 +183,23 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
 
   return (
     <>
+      {pendingRequests.length > 0 && (
+        <div className="flex flex-col gap-3 mb-4 p-3 rounded-lg border bg-gray-50 sm:flex-row sm:items-center sm:justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox checked={allPendingSelected} onCheckedChange={(checked) => toggleAllPending(checked === true)} />
+            {selectedIds.size > 0 ? `เลือกแล้ว ${selectedIds.size} รายการ` : 'เลือกคำขอที่รอพิจารณาทั้งหมด'}
+          </label>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => { setBulkAction('approve'); setComment(''); }} disabled={selectedIds.size === 0} className="bg-green-600 hover:bg-green-700">
+              <CheckCircle className="w-4 h-4 mr-2" />อนุมัติที่เลือก
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => { setBulkAction('reject'); setComment(''); }} disabled={selectedIds.size === 0} className="border-red-300 text-red-600 hover:bg-red-50">
+              <XCircle className="w-4 h-4 mr-2" />ปฏิเสธที่เลือก
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-4">
         {requests.map((request) => (
           <Card key={request.id}>
@@ -129,9 +207,15 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-2">
+                    {request.status === 'pending' && (
+                      <Checkbox checked={selectedIds.has(request.id)} onCheckedChange={(checked) => toggleSelected(request.id, checked === true)} aria-label={`เลือกคำขอลาของ ${getAthleteName(request)}`} />
+                    )}
                     <User className="w-4 h-4 text-gray-500" />
                     <CardTitle className="text-lg">{getAthleteName(request)}</CardTitle>
                     {getStatusBadge(request.status)}
+                    {request.auto_approved && (
+                      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200"><Zap className="w-3 h-3 mr-1" />อนุมัติอัตโนมัติ</Badge>
+                    )}
                   </div>
                   {request.training_sessions && (
                     <CardDescription>
@@ -153,9 +237,24 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
             <CardContent>
               <div className="space-y-4">
                 <div>
-                  <div className="text-sm font-medium text-gray-700 mb-1">เหตุผล:</div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">
+                    เหตุผล{request.reason_category && ` (${LEAVE_REASON_CATEGORY_LABELS[request.reason_category]})`}:
+                  </div>
                   <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">{request.reason}</div>
                 </div>
+                {request.attachment_url && (
+                  <a href={request.attachment_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+                    <Paperclip className="w-4 h-4" />ดูเอกสารแนบ
+                  </a>
+                )}
+                {request.policy_violations && request.policy_violations.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    <div className="flex items-center gap-1 font-medium mb-1"><AlertTriangle className="w-4 h-4" />ไม่เป็นไปตามนโยบายการลา</div>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {request.policy_violations.map((violation) => <li key={violation.rule}>{violation.message}</li>)}
+                    </ul>
+                  </div>
+                )}
                 <div className="text-xs text-gray-500">แจ้งลาเมื่อ: {formatDateTime(request.requested_at)}</div>
                 {request.status === 'pending' && (
                   <div className="flex gap-2 pt-2">
@@ -168,7 +267,10 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
                   </div>
                 )}
                 {request.status !== 'pending' && request.reviewed_at && (
-                  <div className="text-xs text-gray-500 pt-2 border-t">พิจารณาเมื่อ: {formatDateTime(request.reviewed_at)}</div>
+                  <div className="text-xs text-gray-500 pt-2 border-t space-y-1">
+                    <div>พิจารณาเมื่อ: {formatDateTime(request.reviewed_at)}</div>
+                    {request.review_comment && <div>ความคิดเห็นโค้ช: {request.review_comment}</div>}
+                  </div>
                 )}
               </div>
             </CardContent>
@@ -176,7 +278,7 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
         ))}
       </div>
 
-      <Dialog open={selectedRequest !== null} onOpenChange={(open) => { if (!open) { setSelectedRequest(null); setReviewAction(null); } }}>
+      <Dialog open={selectedRequest !== null} onOpenChange={(open) => { if (!open) closeReviewDialog(); }}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>{reviewAction === 'approve' ? 'ยืนยันการอนุมัติคำขอลา' : 'ยืนยันการปฏิเสธคำขอลา'}</DialogTitle>
@@ -217,14 +319,49 @@ export function LeaveRequestList({ requests, filter = 'all' }: LeaveRequestListP
               </div>
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">ความคิดเห็นถึงนักกีฬา (ไม่บังคับ)</Label>
+            <Textarea id="review-comment" value={comment} onChange={(e) => setComment(e.target.value)} maxLength={500} rows={3} disabled={isSubmitting} />
+          </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => { setSelectedRequest(null); setReviewAction(null); }} disabled={isSubmitting}>ยกเลิก</Button>
+            <Button variant="outline" onClick={closeReviewDialog} disabled={isSubmitting}>ยกเลิก</Button>
             <Button onClick={handleConfirmReview} disabled={isSubmitting} className={reviewAction === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}>
               {isSubmitting ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />กำลังดำเนินการ...</> : <>{reviewAction === 'approve' ? <><CheckCircle className="w-4 h-4 mr-2" />ยืนยันอนุมัติ</> : <><XCircle className="w-4 h-4 mr-2" />ยืนยันปฏิเสธ</>}</>}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={bulkAction !== null} onOpenChange={(open) => { if (!open) closeReviewDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{bulkAction === 'approve' ? `อนุมัติคำขอลา ${selectedIds.size} รายการ` : `ปฏิเสธคำขอลา ${selectedIds.size} รายการ`}</DialogTitle>
+            <DialogDescription asChild>
+              <div className="space-y-2">
+                <ul className="text-sm text-gray-600 max-h-40 overflow-y-auto space-y-1">
+                  {pendingRequests.filter((request) => selectedIds.has(request.id)).map((request) => (
+                    <li key={request.id}>
+                      {getAthleteName(request)}
+                      {request.training_sessions && ` · ${request.training_sessions.title} ${formatDate(request.training_sessions.session_date)}`}
+                    </li>
+                  ))}
+                </ul>
+                <div className="text-sm text-gray-700">ความคิดเห็นจะถูกส่งถึงนักกีฬาทุกคนที่เลือก</div>
+              </div>
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-review-comment">ความคิดเห็น (ไม่บังคับ)</Label>
+            <Textarea id="bulk-review-comment" value={comment} onChange={(e) => setComment(e.target.value)} maxLength={500} rows={3} disabled={isSubmitting} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReviewDialog} disabled={isSubmitting}>ยกเลิก</Button>
+            <Button onClick={handleConfirmBulkReview} disabled={isSubmitting} className={bulkAction === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}>
+              {isSubmitting ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />กำลังดำเนินการ...</> : <>{bulkAction === 'approve' ? 'ยืนยันอนุมัติทั้งหมด' : 'ยืนยันปฏิเสธทั้งหมด'}</>}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -2,8 +2,10 @@
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Copy, Download } from 'lucide-react';
+import { Copy, Download, RefreshCw } from 'lucide-react';
 import { useToast } from '@/components/ui/toast';
+import { getSessionQRToken } from '@/lib/coach/attendance-actions';
+import { QR_TOKEN_ROTATION_SECONDS } from '@/lib/athlete/session-qr-token';
 import QRCode from 'qrcode';
 import { useEffect, useState } from 'react';
 
@@ -16,21 +18,100 @@ interface Activity {
   start_time: string;
 }
 
-export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClose: () => void }) {
+interface TrainingSessionQR {
+  id: string;
+  title: string;
+  session_date: string;
+  start_time: string;
+}
+
+/**
+ * QR code dialog for check-in
+ *
+ * Activities show their stored token. Training sessions show a rotating
+ * signed token that is fetched again every time it expires, so the code on
+ * screen is only valid for a short time.
+ */
+export function QRCodeDisplay({
+  activity,
+  trainingSession,
+  onClose,
+}: {
+  activity?: Activity;
+  trainingSession?: TrainingSessionQR;
+  onClose: () => void;
+}) {
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [rotatingToken, setRotatingToken] = useState<{ token: string; expiresAt: string } | null>(
+    null
+  );
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
   const { addToast } = useToast();
 
+  const isRotating = !!trainingSession;
+  const trainingSessionId = trainingSession?.id;
+  const title = activity?.title ?? trainingSession?.title ?? '';
+  const date = activity?.activity_date ?? trainingSession?.session_date ?? '';
+  const startTime = activity?.start_time ?? trainingSession?.start_time ?? '';
+  const qrToken = isRotating ? rotatingToken?.token : activity?.qr_code_token;
+
+  // Fetch a new training session token whenever the current one expires
+  useEffect(() => {
+    if (!trainingSessionId) return;
+
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = async () => {
+      const result = await getSessionQRToken(trainingSessionId);
+      if (cancelled) return;
+
+      if (result.error || !result.data) {
+        setTokenError(result.error || 'ไม่สามารถสร้าง QR Code ได้');
+        // Keep trying in case the error was temporary
+        refreshTimer = setTimeout(refresh, 5000);
+        return;
+      }
+
+      setTokenError(null);
+      setRotatingToken({ token: result.data.token, expiresAt: result.data.expiresAt });
+      const delay = Math.max(new Date(result.data.expiresAt).getTime() - Date.now(), 1000);
+      refreshTimer = setTimeout(refresh, delay);
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [trainingSessionId]);
+
+  // Countdown until the displayed token rotates
   useEffect(() => {
-    if (activity.qr_code_token) {
-      QRCode.toDataURL(activity.qr_code_token, {
+    if (!rotatingToken) return;
+
+    const tick = () =>
+      setSecondsLeft(
+        Math.max(0, Math.ceil((new Date(rotatingToken.expiresAt).getTime() - Date.now()) / 1000))
+      );
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [rotatingToken]);
+
+  useEffect(() => {
+    if (qrToken) {
+      QRCode.toDataURL(qrToken, {
         width: 400,
         margin: 2,
       }).then(setQrDataUrl);
     }
-  }, [activity.qr_code_token]);
+  }, [qrToken]);
 
   const handleCopyToken = () => {
-    if (activity.qr_code_token) {
+    if (activity?.qr_code_token) {
       navigator.clipboard.writeText(activity.qr_code_token);
       addToast({
         title: 'คัดลอกแล้ว',
@@ -44,7 +125,7 @@ export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClo
     if (qrDataUrl) {
       const link = document.createElement('a');
       link.href = qrDataUrl;
-      link.download = `qr-${activity.title}-${activity.activity_date}.png`;
+      link.download = `qr-${title}-${date}.png`;
       link.click();
       addToast({
         title: 'ดาวน์โหลดสำเร็จ',
@@ -58,7 +139,7 @@ export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClo
     <Dialog open onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>{activity.title}</DialogTitle>
+          <DialogTitle>{title}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
@@ -68,19 +149,32 @@ export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClo
             </div>
           )}
 
+          {isRotating && (
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+              <RefreshCw className="w-4 h-4" />
+              {tokenError ? (
+                <span className="text-red-600">{tokenError}</span>
+              ) : secondsLeft !== null ? (
+                <span>QR Code จะเปลี่ยนใหม่ใน {secondsLeft} วินาที</span>
+              ) : (
+                <span>กำลังสร้าง QR Code...</span>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <div className="text-sm">
               <span className="font-medium">วันที่:</span>{' '}
-              {new Date(activity.activity_date).toLocaleDateString('th-TH', {
+              {new Date(date).toLocaleDateString('th-TH', {
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric',
               })}
             </div>
             <div className="text-sm">
-              <span className="font-medium">เวลา:</span> {activity.start_time}
+              <span className="font-medium">เวลา:</span> {startTime}
             </div>
-            {activity.qr_code_expires_at && (
+            {activity?.qr_code_expires_at && (
               <div className="text-sm text-gray-600">
                 <span className="font-medium">หมดอายุ:</span>{' '}
                 {new Date(activity.qr_code_expires_at).toLocaleString('th-TH')}
@@ -88,21 +182,26 @@ export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClo
             )}
           </div>
 
-          <div className="p-3 bg-gray-50 rounded-lg">
-            <div className="text-xs text-gray-600 mb-1">รหัส QR Code:</div>
-            <div className="text-sm font-mono break-all">{activity.qr_code_token}</div>
-          </div>
+          {/* Rotating codes are not shared or downloaded: a copy would stop working */}
+          {!isRotating && (
+            <>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-600 mb-1">รหัส QR Code:</div>
+                <div className="text-sm font-mono break-all">{activity?.qr_code_token}</div>
+              </div>
 
-          <div className="flex gap-2">
-            <Button variant="outline" onClick={handleCopyToken} className="flex-1">
-              <Copy className="w-4 h-4 mr-2" />
-              คัดลอกรหัส
-            </Button>
-            <Button variant="outline" onClick={handleDownload} className="flex-1">
-              <Download className="w-4 h-4 mr-2" />
-              ดาวน์โหลด
-            </Button>
-          </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleCopyToken} className="flex-1">
+                  <Copy className="w-4 h-4 mr-2" />
+                  คัดลอกรหัส
+                </Button>
+                <Button variant="outline" onClick={handleDownload} className="flex-1">
+                  <Download className="w-4 h-4 mr-2" />
+                  ดาวน์โหลด
+                </Button>
+              </div>
+            </>
+          )}
 
           <div className="p-4 bg-blue-50 rounded-lg">
             <p className="text-sm text-blue-900">
@@ -110,7 +209,14 @@ export function QRCodeDisplay({ activity, onClose }: { activity: Activity; onClo
             </p>
             <ol className="text-sm text-blue-800 mt-2 space-y-1 list-decimal list-inside">
               <li>แสดง QR Code นี้ให้นักกีฬาสแกน</li>
-              <li>หรือแชร์รหัสให้นักกีฬากรอกด้วยตนเอง</li>
+              {isRotating ? (
+                <li>
+                  QR Code เปลี่ยนทุก {QR_TOKEN_ROTATION_SECONDS} วินาที
+                  ภาพที่ถ่ายเก็บไว้จะใช้เช็คอินไม่ได้
+                </li>
+              ) : (
+                <li>หรือแชร์รหัสให้นักกีฬากรอกด้วยตนเอง</li>
+              )}
               <li>นักกีฬาสามารถเช็คอินได้ภายในช่วงเวลาที่กำหนด</li>
             </ol>
           </div>
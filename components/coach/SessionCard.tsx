@@ -1,6 +1,6 @@
 'use client';
 
-import { Calendar, Clock, MapPin, Users, MoreVertical, Edit, Trash2, Eye } from 'lucide-react';
+import { Calendar, Clock, MapPin, Users, MoreVertical, Edit, Trash2, Eye, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Database } from '@/types/database.types';
@@ -14,6 +14,7 @@ import {
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { cancelSession } from '@/lib/coach/session-actions';
+import type { SeriesEditScope } from '@/lib/coach/session-recurrence';
 import { useToast } from '@/hooks/useToast';
 
 type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
@@ -69,17 +70,35 @@ export function SessionCard({
 
   const status = getStatus();
 
+  // Confirmation text per cancel scope (series sessions only offer all three)
+  const cancelScopeConfig: Record<SeriesEditScope, { label: string; confirm: string }> = {
+    this: {
+      label: session.series_id ? 'ยกเลิกครั้งนี้' : 'ยกเลิก',
+      confirm: 'คุณแน่ใจหรือไม่ที่จะยกเลิกตารางฝึกซ้อมนี้?',
+    },
+    following: {
+      label: 'ยกเลิกครั้งนี้และครั้งถัดไป',
+      confirm: 'คุณแน่ใจหรือไม่ที่จะยกเลิกตารางฝึกซ้อมนี้และทุกครั้งถัดไปในชุด?',
+    },
+    all: {
+      label: 'ยกเลิกทั้งชุด',
+      confirm: 'คุณแน่ใจหรือไม่ที่จะยกเลิกตารางฝึกซ้อมทั้งชุดที่ยังไม่ถึงเวลา?',
+    },
+  };
+
+  const cancelScopes: SeriesEditScope[] = session.series_id ? ['this', 'following', 'all'] : ['this'];
+
   // Handle delete
-  const handleDelete = async (e: React.MouseEvent) => {
+  const handleDelete = async (e: React.MouseEvent, scope: SeriesEditScope = 'this') => {
     e.preventDefault();
     e.stopPropagation();
     
-    if (!confirm('คุณแน่ใจหรือไม่ที่จะยกเลิกตารางฝึกซ้อมนี้?')) {
+    if (!confirm(cancelScopeConfig[scope].confirm)) {
       return;
     }
 
     setIsDeleting(true);
-    const result = await cancelSession(session.id);
+    const result = await cancelSession(session.id, scope);
     
     if (result.error) {
       toast({
@@ -90,7 +109,10 @@ export function SessionCard({
     } else {
       toast({
         title: 'สำเร็จ',
-        description: 'ยกเลิกตารางฝึกซ้อมเรียบร้อยแล้ว',
+        description:
+          result.cancelledCount && result.cancelledCount > 1
+            ? `ยกเลิกตารางฝึกซ้อม ${result.cancelledCount} ครั้งเรียบร้อยแล้ว`
+            : 'ยกเลิกตารางฝึกซ้อมเรียบร้อยแล้ว',
         variant: 'success',
       });
       router.refresh();
@@ -133,6 +155,12 @@ export function SessionCard({
           >
             {currentStatus.label}
           </span>
+          {session.series_id && (
+            <span className="ml-1 inline-flex items-center gap-1 rounded-full bg-purple-100 px-2.5 py-0.5 text-xs font-medium text-purple-700">
+              <Repeat className="h-3 w-3" />
+              ทำซ้ำ
+            </span>
+          )}
         </Link>
 
         {/* Quick Actions Menu */}
@@ -166,16 +194,18 @@ export function SessionCard({
               <Users className="mr-2 h-4 w-4" />
               เช็คชื่อ
             </DropdownMenuItem>
-            {status === 'scheduled' && (
-              <DropdownMenuItem
-                onClick={handleDelete}
-                disabled={isDeleting}
-                className="text-red-600 focus:text-red-600"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                {isDeleting ? 'กำลังยกเลิก...' : 'ยกเลิก'}
-              </DropdownMenuItem>
-            )}
+            {status === 'scheduled' &&
+              cancelScopes.map((scope) => (
+                <DropdownMenuItem
+                  key={scope}
+                  onClick={(e) => handleDelete(e, scope)}
+                  disabled={isDeleting}
+                  className="text-red-600 focus:text-red-600"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {isDeleting ? 'กำลังยกเลิก...' : cancelScopeConfig[scope].label}
+                </DropdownMenuItem>
+              ))}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
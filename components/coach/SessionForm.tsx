@@ -1,14 +1,31 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/components/ui/toast';
 import { createSession } from '@/lib/coach/session-actions';
-import { Loader2, AlertCircle } from 'lucide-react';
+import {
+  expandRecurrence,
+  validateRecurrenceRule,
+  WEEKDAY_LABELS_TH,
+  MAX_SERIES_OCCURRENCES,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '@/lib/coach/session-recurrence';
+import { describeConflict, type SessionConflict } from '@/lib/coach/session-conflicts';
+import { Loader2, AlertCircle, AlertTriangle, Repeat } from 'lucide-react';
 
 interface SessionFormProps {
   onSuccess?: () => void;
@@ -28,6 +45,48 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
     end_time: '',
     location: '',
   });
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: 'weekly' as RecurrenceFrequency,
+    weekdays: [] as number[],
+    endType: 'count' as 'count' | 'date',
+    end_date: '',
+    occurrence_count: '12',
+  });
+  // Conflicts returned by the server; the coach may save anyway with a reason
+  const [conflicts, setConflicts] = useState<SessionConflict[]>([]);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const buildRecurrenceRule = (): RecurrenceRule | undefined => {
+    if (!recurrence.enabled) return undefined;
+    return {
+      frequency: recurrence.frequency,
+      weekdays: recurrence.weekdays,
+      ...(recurrence.endType === 'date'
+        ? { end_date: recurrence.end_date }
+        : { occurrence_count: Number(recurrence.occurrence_count) }),
+    };
+  };
+
+  // Preview how many sessions the series will create
+  const occurrencePreview = useMemo(() => {
+    const rule = buildRecurrenceRule();
+    if (!rule || !formData.session_date || validateRecurrenceRule(rule, formData.session_date)) {
+      return null;
+    }
+    return expandRecurrence(formData.session_date, rule);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recurrence, formData.session_date]);
+
+  const toggleWeekday = (day: number) => {
+    setRecurrence((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter((d) => d !== day)
+        : [...prev.weekdays, day],
+    }));
+    clearFieldError('recurrence');
+  };
 
   // Client-side validation with field-specific errors
   const validateForm = (): boolean => {
@@ -70,6 +129,15 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
       errors.end_time = 'เวลาสิ้นสุดต้องมากกว่าเวลาเริ่ม';
     }
 
+    // Validate recurrence rule
+    const rule = buildRecurrenceRule();
+    if (rule && formData.session_date) {
+      const recurrenceError = validateRecurrenceRule(rule, formData.session_date);
+      if (recurrenceError) {
+        errors.recurrence = recurrenceError;
+      }
+    }
+
     setFieldErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -98,12 +166,18 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
       start_time: formData.start_time,
       end_time: formData.end_time,
       location: formData.location,
+      recurrence: buildRecurrenceRule(),
+      override: conflicts.length > 0 ? { reason: overrideReason } : undefined,
     });
 
     if (result.success) {
+      setConflicts([]);
+      setOverrideReason('');
       addToast({
         title: 'สำเร็จ!',
-        description: 'สร้างตารางฝึกซ้อมเรียบร้อยแล้ว',
+        description: result.occurrenceCount
+          ? `สร้างตารางฝึกซ้อมแบบทำซ้ำ ${result.occurrenceCount} ครั้งเรียบร้อยแล้ว`
+          : 'สร้างตารางฝึกซ้อมเรียบร้อยแล้ว',
         variant: 'success',
       });
       
@@ -115,6 +189,7 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
         end_time: '',
         location: '',
       });
+      setRecurrence((prev) => ({ ...prev, enabled: false, weekdays: [] }));
       
       // Call success callback if provided
       if (onSuccess) {
@@ -124,8 +199,11 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
         router.refresh();
       }
     } else {
+      if (result.conflicts) {
+        setConflicts(result.conflicts);
+      }
       addToast({
-        title: 'เกิดข้อผิดพลาด',
+        title: result.conflicts ? 'พบตารางที่ชนกัน' : 'เกิดข้อผิดพลาด',
         description: result.error || 'ไม่สามารถสร้างตารางฝึกซ้อมได้',
         variant: 'error',
       });
@@ -135,6 +213,14 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
   };
 
   const clearFieldError = (field: string) => {
+    // Editing the slot invalidates conflicts found for the previous values
+    if (
+      conflicts.length > 0 &&
+      ['session_date', 'start_time', 'end_time', 'location', 'recurrence'].includes(field)
+    ) {
+      setConflicts([]);
+      setOverrideReason('');
+    }
     if (fieldErrors[field]) {
       setFieldErrors((prev) => {
         const newErrors = { ...prev };
@@ -286,6 +372,175 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
         )}
       </div>
 
+      {/* Recurrence */}
+      <div className="space-y-3 rounded-lg border border-gray-200 p-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="repeat"
+            checked={recurrence.enabled}
+            onCheckedChange={(checked) => {
+              setRecurrence((prev) => ({
+                ...prev,
+                enabled: checked as boolean,
+                weekdays:
+                  checked && prev.weekdays.length === 0 && formData.session_date
+                    ? [new Date(`${formData.session_date}T00:00:00`).getDay()]
+                    : prev.weekdays,
+              }));
+              clearFieldError('recurrence');
+            }}
+            disabled={loading}
+          />
+          <Label htmlFor="repeat" className="flex items-center gap-1 cursor-pointer">
+            <Repeat className="h-4 w-4" />
+            ทำซ้ำตารางนี้
+          </Label>
+        </div>
+
+        {recurrence.enabled && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>ความถี่</Label>
+              <Select
+                value={recurrence.frequency}
+                onValueChange={(value) =>
+                  setRecurrence({ ...recurrence, frequency: value as RecurrenceFrequency })
+                }
+                disabled={loading}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">ทุกสัปดาห์</SelectItem>
+                  <SelectItem value="biweekly">ทุก 2 สัปดาห์</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>วันในสัปดาห์</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS_TH.map((label, day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={recurrence.weekdays.includes(day) ? 'default' : 'outline'}
+                    onClick={() => toggleWeekday(day)}
+                    disabled={loading}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>สิ้นสุดเมื่อ</Label>
+                <Select
+                  value={recurrence.endType}
+                  onValueChange={(value) =>
+                    setRecurrence({ ...recurrence, endType: value as 'count' | 'date' })
+                  }
+                  disabled={loading}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">ครบจำนวนครั้ง</SelectItem>
+                    <SelectItem value="date">ถึงวันที่</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                {recurrence.endType === 'count' ? (
+                  <>
+                    <Label htmlFor="occurrence_count">จำนวนครั้ง</Label>
+                    <Input
+                      id="occurrence_count"
+                      type="number"
+                      min={1}
+                      max={MAX_SERIES_OCCURRENCES}
+                      value={recurrence.occurrence_count}
+                      onChange={(e) => {
+                        setRecurrence({ ...recurrence, occurrence_count: e.target.value });
+                        clearFieldError('recurrence');
+                      }}
+                      disabled={loading}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Label htmlFor="recurrence_end_date">วันสิ้นสุด</Label>
+                    <Input
+                      id="recurrence_end_date"
+                      type="date"
+                      value={recurrence.end_date}
+                      min={formData.session_date || undefined}
+                      onChange={(e) => {
+                        setRecurrence({ ...recurrence, end_date: e.target.value });
+                        clearFieldError('recurrence');
+                      }}
+                      disabled={loading}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            {occurrencePreview && (
+              <p className="text-sm text-gray-600">
+                จะสร้างทั้งหมด {occurrencePreview.length} ครั้ง
+                {occurrencePreview.length > 0 &&
+                  ` (${occurrencePreview[0]} ถึง ${occurrencePreview[occurrencePreview.length - 1]})`}
+              </p>
+            )}
+
+            {fieldErrors.recurrence && (
+              <div className="flex items-center gap-1 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                <span>{fieldErrors.recurrence}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="space-y-3 rounded-lg border border-yellow-300 bg-yellow-50 p-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-yellow-800">
+            <AlertTriangle className="h-4 w-4" />
+            พบตารางที่ชนกัน {conflicts.length} รายการ
+          </div>
+          <ul className="list-disc space-y-1 pl-5 text-sm text-yellow-800">
+            {conflicts.slice(0, 10).map((conflict, index) => (
+              <li
+                key={`${conflict.type}-${conflict.conflicting_entity.id}-${conflict.session_date}-${index}`}
+              >
+                {describeConflict(conflict)}
+              </li>
+            ))}
+            {conflicts.length > 10 && <li>และอีก {conflicts.length - 10} รายการ</li>}
+          </ul>
+          <div className="space-y-2">
+            <Label htmlFor="override_reason">เหตุผลในการยืนยันบันทึก</Label>
+            <Textarea
+              id="override_reason"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="เช่น ใช้สนามร่วมกับทีมเยาวชน, นักกีฬาที่แข่งได้รับการยกเว้น"
+              disabled={loading}
+              rows={2}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Form Actions */}
       <div className="flex justify-end gap-2 pt-4">
         {onCancel && (
@@ -299,6 +554,8 @@ export function SessionForm({ onSuccess, onCancel }: SessionFormProps) {
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               กำลังสร้าง...
             </>
+          ) : conflicts.length > 0 ? (
+            'ยืนยันบันทึกแม้มีตารางชน'
           ) : (
             'สร้างตารางฝึกซ้อม'
           )}
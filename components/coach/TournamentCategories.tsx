@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { createTournamentCategory, deleteTournamentCategory } from '@/lib/coach/tournament-actions';
+import {
+  CATEGORY_GENDER_LABELS,
+  SKILL_LEVELS,
+  SKILL_LEVEL_LABELS,
+  describeCategory,
+  type CategoryGender,
+  type SkillLevel,
+  type TournamentCategory,
+} from '@/lib/utils/tournament-eligibility';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Tags, X } from 'lucide-react';
+
+interface TournamentCategoriesProps {
+  tournamentId: string;
+  categories: TournamentCategory[];
+  /** Selected + confirmed entries per category id */
+  entryCounts: Record<string, number>;
+  referenceDate: string;
+  onChange: () => void;
+}
+
+const ANY_GENDER = 'any';
+
+const EMPTY_FORM = {
+  name: '',
+  min_age: '',
+  max_age: '',
+  gender: ANY_GENDER,
+  min_weight_kg: '',
+  max_weight_kg: '',
+  skill_levels: [] as SkillLevel[],
+  max_participants: '',
+};
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+export function TournamentCategories({
+  tournamentId,
+  categories,
+  entryCounts,
+  referenceDate,
+  onChange,
+}: TournamentCategoriesProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  async function handleCreate() {
+    setSaving(true);
+    const result = await createTournamentCategory(tournamentId, {
+      name: form.name,
+      min_age: optionalNumber(form.min_age),
+      max_age: optionalNumber(form.max_age),
+      gender: form.gender === ANY_GENDER ? null : (form.gender as CategoryGender),
+      min_weight_kg: optionalNumber(form.min_weight_kg),
+      max_weight_kg: optionalNumber(form.max_weight_kg),
+      skill_levels: form.skill_levels,
+      max_participants: optionalNumber(form.max_participants),
+    });
+    if (result.error) {
+      alert(result.error);
+    } else {
+      setForm(EMPTY_FORM);
+      onChange();
+    }
+    setSaving(false);
+  }
+
+  async function handleDelete(categoryId: string) {
+    const result = await deleteTournamentCategory(categoryId);
+    if (result.error) {
+      alert(result.error);
+    } else {
+      onChange();
+    }
+  }
+
+  function toggleSkillLevel(level: SkillLevel, checked: boolean) {
+    setForm((current) => ({
+      ...current,
+      skill_levels: checked
+        ? [...current.skill_levels, level]
+        : current.skill_levels.filter((value) => value !== level),
+    }));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          ประเภทการแข่งขัน ({categories.length})
+        </CardTitle>
+        <CardDescription>
+          อายุคำนวณ ณ วันที่ {new Date(referenceDate).toLocaleDateString('th-TH')}{' '}
+          นักกีฬาต้องผ่านเกณฑ์ของประเภทที่สมัคร
+          เมื่อประเภทหรือทัวร์นาเมนต์เต็มจะถูกเพิ่มในรายชื่อสำรองอัตโนมัติ
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.length > 0 && (
+          <div className="space-y-2">
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium">{category.name}</p>
+                  <p className="text-sm text-muted-foreground">{describeCategory(category)}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    {entryCounts[category.id] ?? 0}
+                    {category.max_participants !== null && ` / ${category.max_participants}`} คน
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(category.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 border-t pt-4">
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="category-name">ชื่อประเภท</Label>
+            <Input
+              id="category-name"
+              placeholder="เช่น รุ่นอายุไม่เกิน 12 ปี ชาย"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>เพศ</Label>
+            <Select value={form.gender} onValueChange={(gender) => setForm({ ...form, gender })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_GENDER}>ทุกเพศ</SelectItem>
+                {(Object.keys(CATEGORY_GENDER_LABELS) as CategoryGender[]).map((gender) => (
+                  <SelectItem key={gender} value={gender}>
+                    {CATEGORY_GENDER_LABELS[gender]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-max">จำนวนที่รับ</Label>
+            <Input
+              id="category-max"
+              type="number"
+              min={1}
+              placeholder="ไม่จำกัด"
+              value={form.max_participants}
+              onChange={(e) => setForm({ ...form, max_participants: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-min-age">อายุต่ำสุด (ปี)</Label>
+            <Input
+              id="category-min-age"
+              type="number"
+              min={0}
+              value={form.min_age}
+              onChange={(e) => setForm({ ...form, min_age: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-max-age">อายุสูงสุด (ปี)</Label>
+            <Input
+              id="category-max-age"
+              type="number"
+              min={0}
+              value={form.max_age}
+              onChange={(e) => setForm({ ...form, max_age: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-min-weight">น้ำหนักต่ำสุด (กก.)</Label>
+            <Input
+              id="category-min-weight"
+              type="number"
+              min={0}
+              step="0.1"
+              value={form.min_weight_kg}
+              onChange={(e) => setForm({ ...form, min_weight_kg: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-max-weight">น้ำหนักสูงสุด (กก.)</Label>
+            <Input
+              id="category-max-weight"
+              type="number"
+              min={0}
+              step="0.1"
+              value={form.max_weight_kg}
+              onChange={(e) => setForm({ ...form, max_weight_kg: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1 col-span-2 md:col-span-3">
+            <Label>ระดับฝีมือ (ไม่เลือก = ทุกระดับ)</Label>
+            <div className="flex gap-4 pt-1">
+              {SKILL_LEVELS.map((level) => (
+                <label key={level} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.skill_levels.includes(level)}
+                    onCheckedChange={(checked) => toggleSkillLevel(level, checked === true)}
+                  />
+                  {SKILL_LEVEL_LABELS[level]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end">
+            <Button
+              className="w-full"
+              onClick={handleCreate}
+              disabled={saving || !form.name.trim()}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              เพิ่มประเภท
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,567 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  createTournamentEvent,
+  deleteTournamentEvent,
+  generateEventBracket,
+  getTournamentEvents,
+  recordEventResult,
+  recordMatchResult,
+} from '@/lib/coach/tournament-event-actions';
+import {
+  TOURNAMENT_EVENT_FORMAT_LABELS,
+  computeRoundRobinStandings,
+  type BracketMatchResult,
+  type TournamentEventFormat,
+  type TournamentResultType,
+} from '@/lib/utils/tournament-bracket';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/toast';
+import { Medal, Plus, Shuffle, Trash2, Trophy } from 'lucide-react';
+
+interface EventMatch extends BracketMatchResult {
+  id: string;
+}
+
+interface EventResult {
+  participant_id: string;
+  placing: number | null;
+  score: number | null;
+  time_seconds: number | null;
+}
+
+interface TournamentEvent {
+  id: string;
+  name: string;
+  format: TournamentEventFormat;
+  result_type: TournamentResultType;
+  unit: string | null;
+  status: 'draft' | 'in_progress' | 'completed';
+  entries: { participant_id: string; seed: number }[];
+  matches: EventMatch[];
+  results: EventResult[];
+}
+
+interface EventParticipant {
+  id: string;
+  status: string;
+  athlete: { id: string; full_name: string } | null;
+}
+
+const STATUS_LABELS: Record<TournamentEvent['status'], string> = {
+  draft: 'ยังไม่จัดสาย',
+  in_progress: 'กำลังแข่งขัน',
+  completed: 'จบการแข่งขัน',
+};
+
+function roundLabel(round: number, totalRounds: number): string {
+  const remaining = totalRounds - round;
+  if (remaining === 0) return 'รอบชิงชนะเลิศ';
+  if (remaining === 1) return 'รอบรองชนะเลิศ';
+  if (remaining === 2) return 'รอบ 8 คนสุดท้าย';
+  return `รอบที่ ${round}`;
+}
+
+export function TournamentEvents({ tournamentId }: { tournamentId: string }) {
+  const { addToast } = useToast();
+  const [events, setEvents] = useState<TournamentEvent[]>([]);
+  const [participants, setParticipants] = useState<EventParticipant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentEventFormat>('single_elimination');
+  const [resultType, setResultType] = useState<'score' | 'time'>('time');
+  const [unit, setUnit] = useState('');
+
+  const [scoringMatch, setScoringMatch] = useState<EventMatch | null>(null);
+  const [scoreA, setScoreA] = useState('');
+  const [scoreB, setScoreB] = useState('');
+  const [rankingValues, setRankingValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournamentId]);
+
+  async function loadEvents() {
+    const result = await getTournamentEvents(tournamentId);
+    if (result.error) {
+      addToast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+    } else {
+      setEvents((result.events || []) as TournamentEvent[]);
+      setParticipants((result.participants || []) as EventParticipant[]);
+    }
+    setLoading(false);
+  }
+
+  const participantName = (participantId: string | null) => {
+    if (!participantId) return '-';
+    return participants.find((p) => p.id === participantId)?.athlete?.full_name || 'ไม่ทราบชื่อ';
+  };
+
+  async function run(action: () => Promise<{ error?: string }>, successMessage: string) {
+    setBusy(true);
+    const result = await action();
+    if (result.error) {
+      addToast({ title: 'เกิดข้อผิดพลาด', description: result.error, variant: 'error' });
+    } else {
+      addToast({ title: successMessage, variant: 'success' });
+      await loadEvents();
+    }
+    setBusy(false);
+    return !result.error;
+  }
+
+  async function handleCreateEvent() {
+    if (!name.trim()) return;
+    const created = await run(
+      () =>
+        createTournamentEvent(tournamentId, {
+          name,
+          format,
+          result_type: format === 'ranking' ? resultType : 'placing',
+          unit: format === 'ranking' && resultType === 'score' ? unit : undefined,
+        }),
+      'เพิ่มรายการแข่งขันแล้ว'
+    );
+    if (created) {
+      setName('');
+      setUnit('');
+    }
+  }
+
+  async function handleSaveScore() {
+    if (!scoringMatch) return;
+    const saved = await run(
+      () => recordMatchResult(scoringMatch.id, Number(scoreA), Number(scoreB)),
+      'บันทึกผลการแข่งขันแล้ว'
+    );
+    if (saved) setScoringMatch(null);
+  }
+
+  function openScoreDialog(match: EventMatch) {
+    setScoringMatch(match);
+    setScoreA(match.score_a?.toString() ?? '');
+    setScoreB(match.score_b?.toString() ?? '');
+  }
+
+  function renderMatch(match: EventMatch) {
+    const playable = match.status !== 'bye' && match.participant_a_id && match.participant_b_id;
+    const side = (participantId: string | null, score: number | null) => (
+      <div
+        className={`flex justify-between gap-2 ${
+          match.winner_id && match.winner_id === participantId ? 'font-semibold' : ''
+        }`}
+      >
+        <span className="truncate">{participantName(participantId)}</span>
+        <span>{score ?? ''}</span>
+      </div>
+    );
+
+    return (
+      <button
+        key={match.id}
+        type="button"
+        className="w-full text-left border rounded-lg p-2 text-sm hover:bg-accent disabled:hover:bg-transparent"
+        onClick={() => openScoreDialog(match)}
+        disabled={!playable || busy}
+      >
+        {side(match.participant_a_id, match.score_a)}
+        {match.status === 'bye' ? (
+          <div className="text-muted-foreground">ได้สิทธิ์ผ่าน (บาย)</div>
+        ) : (
+          side(match.participant_b_id, match.score_b)
+        )}
+      </button>
+    );
+  }
+
+  function renderBracket(event: TournamentEvent) {
+    const totalRounds = Math.max(0, ...event.matches.map((m) => m.round));
+    const rounds = Array.from({ length: totalRounds }, (_, i) => i + 1);
+
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {rounds.map((round) => (
+          <div key={round} className="min-w-[180px] flex flex-col justify-around gap-2">
+            <p className="text-xs font-medium text-muted-foreground text-center">
+              {roundLabel(round, totalRounds)}
+            </p>
+            {event.matches
+              .filter((m) => m.round === round)
+              .sort((a, b) => a.match_number - b.match_number)
+              .map(renderMatch)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  function renderRoundRobin(event: TournamentEvent) {
+    const standings = computeRoundRobinStandings(
+      event.entries.map((entry) => entry.participant_id),
+      event.matches
+    );
+    const rounds = Array.from(new Set(event.matches.map((m) => m.round))).sort((a, b) => a - b);
+
+    return (
+      <div className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>อันดับ</TableHead>
+              <TableHead>นักกีฬา</TableHead>
+              <TableHead className="text-center">แข่ง</TableHead>
+              <TableHead className="text-center">ชนะ</TableHead>
+              <TableHead className="text-center">เสมอ</TableHead>
+              <TableHead className="text-center">แพ้</TableHead>
+              <TableHead className="text-center">ได้/เสีย</TableHead>
+              <TableHead className="text-center">คะแนน</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {standings.map((standing) => (
+              <TableRow key={standing.participant_id}>
+                <TableCell>{standing.placing}</TableCell>
+                <TableCell>{participantName(standing.participant_id)}</TableCell>
+                <TableCell className="text-center">{standing.played}</TableCell>
+                <TableCell className="text-center">{standing.wins}</TableCell>
+                <TableCell className="text-center">{standing.draws}</TableCell>
+                <TableCell className="text-center">{standing.losses}</TableCell>
+                <TableCell className="text-center">
+                  {standing.points_for}/{standing.points_against}
+                </TableCell>
+                <TableCell className="text-center font-semibold">{standing.points}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {rounds.map((round) => (
+            <div key={round} className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">รอบที่ {round}</p>
+              {event.matches
+                .filter((m) => m.round === round)
+                .sort((a, b) => a.match_number - b.match_number)
+                .map(renderMatch)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  function renderRanking(event: TournamentEvent) {
+    const measureLabel = event.result_type === 'time' ? 'เวลา (วินาที)' : event.unit || 'คะแนน';
+    const rows = event.entries
+      .map((entry) => ({
+        entry,
+        result: event.results.find((r) => r.participant_id === entry.participant_id),
+      }))
+      .sort(
+        (a, b) =>
+          (a.result?.placing ?? Number.MAX_SAFE_INTEGER) -
+            (b.result?.placing ?? Number.MAX_SAFE_INTEGER) || a.entry.seed - b.entry.seed
+      );
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>อันดับ</TableHead>
+            <TableHead>นักกีฬา</TableHead>
+            <TableHead>{measureLabel}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ entry, result }) => {
+            const recorded = event.result_type === 'time' ? result?.time_seconds : result?.score;
+            const value = rankingValues[entry.participant_id] ?? recorded?.toString() ?? '';
+            return (
+              <TableRow key={entry.participant_id}>
+                <TableCell>{result?.placing ?? '-'}</TableCell>
+                <TableCell>{participantName(entry.participant_id)}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-32"
+                    value={value}
+                    onChange={(e) =>
+                      setRankingValues((values) => ({
+                        ...values,
+                        [entry.participant_id]: e.target.value,
+                      }))
+                    }
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy || value === ''}
+                    onClick={() =>
+                      run(
+                        () => recordEventResult(event.id, entry.participant_id, Number(value)),
+                        'บันทึกผลแล้ว'
+                      )
+                    }
+                  >
+                    บันทึก
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  function renderPodium(event: TournamentEvent) {
+    const podium = event.results
+      .filter((result) => result.placing !== null && result.placing <= 3)
+      .sort((a, b) => (a.placing ?? 0) - (b.placing ?? 0));
+    if (event.status !== 'completed' || podium.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-3">
+        {podium.map((result) => (
+          <div
+            key={result.participant_id}
+            className="flex items-center gap-2 rounded-lg border bg-yellow-50 px-3 py-2 text-sm"
+          >
+            <Medal className="h-4 w-4 text-yellow-600" />
+            <span className="font-medium">อันดับ {result.placing}</span>
+            <span>{participantName(result.participant_id)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">กำลังโหลด...</div>;
+  }
+
+  const eligibleCount = participants.filter(
+    (p) => p.status === 'selected' || p.status === 'confirmed'
+  ).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            รายการแข่งขัน
+          </CardTitle>
+          <CardDescription>
+            สร้างรายการแข่งขัน จัดสายจากนักกีฬาที่เลือก ({eligibleCount} คน) และบันทึกผล
+            ผลการแข่งขันจะถูกบันทึกเป็นผลงานของนักกีฬาโดยอัตโนมัติ
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="event-name">ชื่อรายการ</Label>
+              <Input
+                id="event-name"
+                placeholder="เช่น ฟรีสไตล์ 50 เมตร รุ่นอายุ 12 ปี"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>รูปแบบ</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as TournamentEventFormat)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TOURNAMENT_EVENT_FORMAT_LABELS) as TournamentEventFormat[]).map(
+                    (value) => (
+                      <SelectItem key={value} value={value}>
+                        {TOURNAMENT_EVENT_FORMAT_LABELS[value]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            {format === 'ranking' && (
+              <div className="space-y-1">
+                <Label>วัดผลจาก</Label>
+                <Select
+                  value={resultType}
+                  onValueChange={(value) => setResultType(value as 'score' | 'time')}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="time">เวลา (น้อยดีกว่า)</SelectItem>
+                    <SelectItem value="score">คะแนน (มากดีกว่า)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {format === 'ranking' && resultType === 'score' && (
+              <div className="space-y-1">
+                <Label htmlFor="event-unit">หน่วย</Label>
+                <Input
+                  id="event-unit"
+                  placeholder="เช่น คะแนน, เมตร"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                />
+              </div>
+            )}
+            <Button onClick={handleCreateEvent} disabled={busy || !name.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              เพิ่มรายการ
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {events.map((event) => (
+        <Card key={event.id}>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <CardTitle>{event.name}</CardTitle>
+                <div className="flex gap-2 mt-2">
+                  <Badge variant="outline">{TOURNAMENT_EVENT_FORMAT_LABELS[event.format]}</Badge>
+                  <Badge variant={event.status === 'completed' ? 'default' : 'secondary'}>
+                    {STATUS_LABELS[event.status]}
+                  </Badge>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || event.matches.some((m) => m.status === 'completed')}
+                  onClick={() => run(() => generateEventBracket(event.id), 'จัดสายการแข่งขันแล้ว')}
+                >
+                  <Shuffle className="h-4 w-4 mr-1" />
+                  {event.entries.length > 0 ? 'จัดสายใหม่' : 'จัดสาย'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={busy}
+                  onClick={() => {
+                    if (confirm(`ลบรายการ "${event.name}" และผลการแข่งขันทั้งหมด?`)) {
+                      run(() => deleteTournamentEvent(event.id), 'ลบรายการแล้ว');
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderPodium(event)}
+            {event.entries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">
+                ยังไม่ได้จัดสาย กด &quot;จัดสาย&quot; เพื่อสร้างตารางการแข่งขันจากนักกีฬาที่เลือก
+              </p>
+            ) : event.format === 'single_elimination' ? (
+              renderBracket(event)
+            ) : event.format === 'round_robin' ? (
+              renderRoundRobin(event)
+            ) : (
+              renderRanking(event)
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={!!scoringMatch} onOpenChange={(open) => !open && setScoringMatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>บันทึกผลการแข่งขัน</DialogTitle>
+            <DialogDescription>
+              {scoringMatch &&
+                `${participantName(scoringMatch.participant_a_id)} พบ ${participantName(
+                  scoringMatch.participant_b_id
+                )}`}
+            </DialogDescription>
+          </DialogHeader>
+          {scoringMatch && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="score-a">{participantName(scoringMatch.participant_a_id)}</Label>
+                <Input
+                  id="score-a"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={scoreA}
+                  onChange={(e) => setScoreA(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="score-b">{participantName(scoringMatch.participant_b_id)}</Label>
+                <Input
+                  id="score-b"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={scoreB}
+                  onChange={(e) => setScoreB(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScoringMatch(null)} disabled={busy}>
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSaveScore} disabled={busy || scoreA === '' || scoreB === ''}>
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   getTournamentDetails,
   getAvailableAthletes,
@@ -13,6 +13,58 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TournamentCategories } from '@/components/coach/TournamentCategories';
+import {
+  SKILL_LEVELS,
+  SKILL_LEVEL_LABELS,
+  describeCategory,
+  type CategoryEligibility,
+  type SkillLevel,
+  type TournamentCategory,
+} from '@/lib/utils/tournament-eligibility';
+import {
+  RSVP_STAGE_LABELS,
+  rsvpStage,
+  summarizeRsvp,
+  type RsvpStage,
+  type RsvpState,
+} from '@/lib/utils/tournament-rsvp';
+import { createClient } from '@/lib/supabase/client';
+
+type EligibilityEntry = CategoryEligibility & { category_id: string };
+
+interface AvailableAthlete {
+  id: string;
+  full_name: string;
+  email: string;
+  profile_picture_url: string | null;
+  participantStatus: string | null;
+  eligibility: EligibilityEntry[];
+}
+
+interface Participant extends RsvpState {
+  id: string;
+  category_id: string | null;
+  added_at: string;
+  response_reason: string | null;
+  athlete: { id: string; full_name: string; email: string; profile_picture_url: string | null };
+}
 import { Calendar, MapPin, Users, ArrowLeft, Search, UserPlus, X } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import {
@@ -27,49 +79,127 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
+function fetchTournamentData(tournamentId: string) {
+  return Promise.all([getTournamentDetails(tournamentId), getAvailableAthletes(tournamentId)]);
+}
+
+type TournamentData = Awaited<ReturnType<typeof fetchTournamentData>>;
+
 export function TournamentManagement({ tournamentId }: { tournamentId: string }) {
   const router = useRouter();
   const [tournament, setTournament] = useState<any>(null);
-  const [participants, setParticipants] = useState<any[]>([]);
-  const [athletes, setAthletes] = useState<any[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [athletes, setAthletes] = useState<AvailableAthlete[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState<string | null>(null);
+  const [categories, setCategories] = useState<TournamentCategory[]>([]);
+  const [referenceDate, setReferenceDate] = useState('');
+  const [entryAthlete, setEntryAthlete] = useState<{ athlete: AvailableAthlete; status: 'selected' | 'waiting' } | null>(null);
+  const [entryCategoryId, setEntryCategoryId] = useState('');
+  const [entryWeight, setEntryWeight] = useState('');
+  const [entrySkillLevel, setEntrySkillLevel] = useState<SkillLevel | ''>('');
 
-  useEffect(() => {
-    loadData();
+  const refreshParticipants = useCallback(async () => {
+    const detailsResult = await getTournamentDetails(tournamentId);
+    if ('participants' in detailsResult && detailsResult.participants) {
+      setParticipants(detailsResult.participants as Participant[]);
+    }
   }, [tournamentId]);
 
-  async function loadData() {
-    setLoading(true);
-    const [detailsResult, athletesResult] = await Promise.all([
-      getTournamentDetails(tournamentId),
-      getAvailableAthletes(tournamentId),
-    ]) as [any, any];
+  // Athletes and parents answer from their own dashboards; keep the RSVP summary live
+  useEffect(() => {
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`tournament-participants-${tournamentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tournament_participants',
+          filter: `tournament_id=eq.${tournamentId}`,
+        },
+        () => {
+          refreshParticipants();
+        }
+      )
+      .subscribe();
 
-    if (detailsResult.tournament) {
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tournamentId, refreshParticipants]);
+
+  const showData = useCallback(([detailsResult, athletesResult]: TournamentData) => {
+    if ('tournament' in detailsResult && detailsResult.tournament) {
       setTournament(detailsResult.tournament);
-      setParticipants(detailsResult.participants || []);
+      setParticipants((detailsResult.participants || []) as Participant[]);
+      setCategories(detailsResult.categories || []);
     }
 
-    if (athletesResult.athletes) {
+    if ('athletes' in athletesResult && athletesResult.athletes) {
       setAthletes(athletesResult.athletes);
+      setReferenceDate(athletesResult.referenceDate);
     }
 
     setLoading(false);
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    showData(await fetchTournamentData(tournamentId));
+  }, [tournamentId, showData]);
+
+  useEffect(() => {
+    fetchTournamentData(tournamentId).then(showData);
+  }, [tournamentId, showData]);
+
+  async function handleAddAthlete(athlete: AvailableAthlete, status: 'selected' | 'waiting') {
+    // With categories the coach picks one (and enters weight / level when it asks for them)
+    if (categories.length > 0) {
+      const firstEligible = athlete.eligibility.find((e) => e.reasons.length === 0);
+      setEntryAthlete({ athlete, status });
+      setEntryCategoryId(firstEligible?.category_id ?? '');
+      setEntryWeight('');
+      setEntrySkillLevel('');
+      return;
+    }
+
+    await addEntry(athlete.id, status);
   }
 
-  async function handleAddAthlete(athleteId: string, status: 'selected' | 'waiting') {
+  async function addEntry(
+    athleteId: string,
+    status: 'selected' | 'waiting',
+    entry?: { categoryId: string; weightKg: number | null; skillLevel: SkillLevel | null }
+  ) {
     setAdding(athleteId);
-    const result = await addAthleteToTournament(tournamentId, athleteId, status);
+    const result = await addAthleteToTournament(tournamentId, athleteId, status, undefined, entry);
     if (result.error) {
       alert(result.error);
     } else {
+      if (result.waitlisted) {
+        alert('ทัวร์นาเมนต์หรือประเภทนี้เต็มแล้ว นักกีฬาถูกเพิ่มในรายชื่อสำรอง');
+      }
+      setEntryAthlete(null);
       await loadData();
     }
     setAdding(null);
   }
 
+  async function handleStatusChange(athleteId: string, status: 'selected' | 'waiting' | 'confirmed' | 'declined') {
+    const result = await updateParticipantStatus(tournamentId, athleteId, status);
+    if (result.error) {
+      alert(result.error);
+    } else {
+      if (result.promoted && result.promoted.length > 0) {
+        alert(`เลื่อนนักกีฬาจากรายชื่อสำรองขึ้นมา ${result.promoted.length} คน`);
+      }
+      await loadData();
+    }
+  }
+
   async function handleRemoveAthlete(athleteId: string) {
     const result = await removeAthleteFromTournament(tournamentId, athleteId);
     if (result.error) {
@@ -88,7 +218,25 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
   }
 
   const selectedParticipants = participants.filter(p => p.status === 'selected' || p.status === 'confirmed');
-  const waitingParticipants = participants.filter(p => p.status === 'waiting');
+  const waitingParticipants = participants.filter(p => p.status === 'waiting')
+    .sort((a, b) => a.added_at.localeCompare(b.added_at));
+  const declinedParticipants = participants.filter(p => p.status === 'declined');
+  const categoryName = (categoryId: string | null) => categories.find(c => c.id === categoryId)?.name;
+  const rsvpSummary = summarizeRsvp(participants);
+  const rsvpStages: RsvpStage[] = ['awaiting_athlete', 'awaiting_consent', 'confirmed', 'declined', 'waiting'];
+
+  const entryCounts = selectedParticipants.reduce((counts: Record<string, number>, p) => {
+    if (p.category_id) counts[p.category_id] = (counts[p.category_id] ?? 0) + 1;
+    return counts;
+  }, {});
+  const eligibleCategoryNames = (athlete: AvailableAthlete) =>
+    athlete.eligibility
+      .filter((e) => e.reasons.length === 0)
+      .map((e) => categoryName(e.category_id))
+      .join(', ');
+  const entryCategory = categories.find(c => c.id === entryCategoryId);
+  const needsWeight = !!entryCategory && (entryCategory.min_weight_kg !== null || entryCategory.max_weight_kg !== null);
+  const needsSkillLevel = !!entryCategory && entryCategory.skill_levels.length > 0;
   
   const availableAthletes = athletes.filter(a => !a.participantStatus);
   const filteredAthletes = availableAthletes.filter(a =>
@@ -135,6 +283,32 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
         </CardContent>
       </Card>
 
+      {participants.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>สถานะการตอบรับ</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {rsvpStages.map((stage) => (
+                <div key={stage} className="rounded-lg border p-3 text-center">
+                  <p className="text-2xl font-bold">{rsvpSummary[stage]}</p>
+                  <p className="text-xs text-muted-foreground">{RSVP_STAGE_LABELS[stage]}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <TournamentCategories
+        tournamentId={tournamentId}
+        categories={categories}
+        entryCounts={entryCounts}
+        referenceDate={referenceDate || tournament.start_date}
+        onChange={loadData}
+      />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-4">
           <Card>
@@ -148,7 +322,7 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                 </p>
               ) : (
                 <div className="space-y-2">
-                  {selectedParticipants.map((p: any) => (
+                  {selectedParticipants.map((p) => (
                     <div key={p.id} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex items-center gap-3">
                         <Avatar>
@@ -158,29 +332,49 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                         <div>
                           <p className="font-medium">{p.athlete.full_name}</p>
                           <p className="text-sm text-muted-foreground">{p.athlete.email}</p>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {categoryName(p.category_id) && (
+                              <Badge variant="outline">{categoryName(p.category_id)}</Badge>
+                            )}
+                            <Badge variant={p.status === 'confirmed' ? 'default' : 'secondary'}>
+                              {RSVP_STAGE_LABELS[rsvpStage(p)]}
+                            </Badge>
+                          </div>
                         </div>
                       </div>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button size="sm" variant="destructive">
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>ยืนยันการลบ</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              คุณแน่ใจหรือไม่ที่จะลบ "{p.athlete.full_name}" ออกจากทัวร์นาเมนต์?
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
-                            <AlertDialogAction onClick={() => handleRemoveAthlete(p.athlete.id)}>
-                              ลบ
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+                      <div className="flex items-center gap-2">
+                        <Select value={p.status} onValueChange={(value) => handleStatusChange(p.athlete.id, value as 'selected' | 'confirmed' | 'declined')}>
+                          <SelectTrigger className="w-[120px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="selected">เลือกแล้ว</SelectItem>
+                            <SelectItem value="confirmed">ยืนยันแล้ว</SelectItem>
+                            <SelectItem value="declined">สละสิทธิ์</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="destructive">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>ยืนยันการลบ</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                คุณแน่ใจหรือไม่ที่จะลบ "{p.athlete.full_name}" ออกจากทัวร์นาเมนต์?
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRemoveAthlete(p.athlete.id)}>
+                                ลบ
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -195,7 +389,7 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {waitingParticipants.map((p: any) => (
+                  {waitingParticipants.map((p, index) => (
                     <div key={p.id} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex items-center gap-3">
                         <Avatar>
@@ -204,9 +398,40 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                         </Avatar>
                         <div>
                           <p className="font-medium">{p.athlete.full_name}</p>
-                          <p className="text-sm text-muted-foreground">{p.athlete.email}</p>
+                          <p className="text-sm text-muted-foreground">
+                            ลำดับที่ {index + 1}
+                            {categoryName(p.category_id) && ` · ${categoryName(p.category_id)}`}
+                          </p>
                         </div>
                       </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => handleStatusChange(p.athlete.id, 'selected')}>
+                          เลือก
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleRemoveAthlete(p.athlete.id)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {declinedParticipants.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>สละสิทธิ์ ({declinedParticipants.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {declinedParticipants.map((p) => (
+                    <div key={p.id} className="flex items-center justify-between p-3 border rounded-lg text-muted-foreground">
+                      <div>
+                        <p>{p.athlete.full_name}</p>
+                        {p.response_reason && <p className="text-sm">เหตุผล: {p.response_reason}</p>}
+                      </div>
                       <Button size="sm" variant="destructive" onClick={() => handleRemoveAthlete(p.athlete.id)}>
                         <X className="h-4 w-4" />
                       </Button>
@@ -235,7 +460,7 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
 
             {isFull && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
-                ทัวร์นาเมนต์เต็มแล้ว คุณสามารถเพิ่มนักกีฬาในรายชื่อสำรองได้
+                ทัวร์นาเมนต์เต็มแล้ว นักกีฬาที่เพิ่มจะอยู่ในรายชื่อสำรองและได้รับสิทธิ์อัตโนมัติเมื่อมีผู้สละสิทธิ์
               </div>
             )}
 
@@ -245,7 +470,7 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                   {searchQuery ? 'ไม่พบนักกีฬาที่ค้นหา' : 'ไม่มีนักกีฬาที่สามารถเพิ่มได้'}
                 </p>
               ) : (
-                filteredAthletes.map((athlete: any) => (
+                filteredAthletes.map((athlete) => (
                   <div
                     key={athlete.id}
                     className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent"
@@ -258,13 +483,20 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                       <div>
                         <p className="font-medium">{athlete.full_name}</p>
                         <p className="text-sm text-muted-foreground">{athlete.email}</p>
+                        {categories.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {eligibleCategoryNames(athlete)
+                              ? `เข้าเกณฑ์: ${eligibleCategoryNames(athlete)}`
+                              : 'ไม่เข้าเกณฑ์ประเภทใด'}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-2">
                       <Button
                         size="sm"
-                        onClick={() => handleAddAthlete(athlete.id, 'selected')}
-                        disabled={adding === athlete.id || isFull}
+                        onClick={() => handleAddAthlete(athlete, 'selected')}
+                        disabled={adding === athlete.id}
                       >
                         <UserPlus className="h-4 w-4 mr-1" />
                         เลือก
@@ -272,7 +504,7 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => handleAddAthlete(athlete.id, 'waiting')}
+                        onClick={() => handleAddAthlete(athlete, 'waiting')}
                         disabled={adding === athlete.id}
                       >
                         สำรอง
@@ -285,6 +517,108 @@ export function TournamentManagement({ tournamentId }: { tournamentId: string })
           </CardContent>
         </Card>
       </div>
+      <Dialog open={!!entryAthlete} onOpenChange={(open) => !open && setEntryAthlete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>เพิ่ม {entryAthlete?.athlete.full_name}</DialogTitle>
+            <DialogDescription>
+              เลือกประเภทการแข่งขัน ระบบจะตรวจสอบคุณสมบัติก่อนเพิ่มนักกีฬา
+            </DialogDescription>
+          </DialogHeader>
+          {entryAthlete && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>ประเภท</Label>
+                <Select value={entryCategoryId} onValueChange={setEntryCategoryId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="เลือกประเภท" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => {
+                      const eligibility = entryAthlete.athlete.eligibility.find((e) => e.category_id === category.id);
+                      return (
+                        <SelectItem key={category.id} value={category.id} disabled={!!eligibility && eligibility.reasons.length > 0}>
+                          {category.name}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                {entryCategory && (
+                  <p className="text-sm text-muted-foreground">{describeCategory(entryCategory)}</p>
+                )}
+              </div>
+
+              {entryAthlete.athlete.eligibility.some((e) => e.reasons.length > 0) && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 space-y-1">
+                  {entryAthlete.athlete.eligibility
+                    .filter((e) => e.reasons.length > 0)
+                    .map((e) => (
+                      <p key={e.category_id}>
+                        {categoryName(e.category_id)}: {e.reasons.join(', ')}
+                      </p>
+                    ))}
+                </div>
+              )}
+
+              {needsWeight && (
+                <div className="space-y-1">
+                  <Label htmlFor="entry-weight">น้ำหนัก (กก.)</Label>
+                  <Input
+                    id="entry-weight"
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={entryWeight}
+                    onChange={(e) => setEntryWeight(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {needsSkillLevel && (
+                <div className="space-y-1">
+                  <Label>ระดับฝีมือ</Label>
+                  <Select value={entrySkillLevel} onValueChange={(value) => setEntrySkillLevel(value as SkillLevel)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="เลือกระดับ" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SKILL_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {SKILL_LEVEL_LABELS[level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryAthlete(null)}>
+              ยกเลิก
+            </Button>
+            <Button
+              disabled={
+                !entryCategoryId ||
+                adding !== null ||
+                (needsWeight && entryWeight === '') ||
+                (needsSkillLevel && entrySkillLevel === '')
+              }
+              onClick={() =>
+                entryAthlete &&
+                addEntry(entryAthlete.athlete.id, entryAthlete.status, {
+                  categoryId: entryCategoryId,
+                  weightKg: needsWeight ? Number(entryWeight) : null,
+                  skillLevel: needsSkillLevel && entrySkillLevel ? entrySkillLevel : null,
+                })
+              }
+            >
+              เพิ่มนักกีฬา
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
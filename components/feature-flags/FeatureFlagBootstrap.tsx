@@ -0,0 +1,16 @@
+/**
+ * Feature Flag Bootstrap
+ *
+ * Server component that evaluates every flag for the current user while the
+ * page renders and hands the results to FeatureFlagProvider, so client
+ * components can call useFeatureFlag without waiting for a request.
+ */
+
+import { getMyFeatureFlags } from '@/lib/feature-flags/actions';
+import { FeatureFlagProvider } from './FeatureFlagProvider';
+
+export async function FeatureFlagBootstrap({ children }: { children: React.ReactNode }) {
+  const bootstrap = await getMyFeatureFlags();
+
+  return <FeatureFlagProvider bootstrap={bootstrap}>{children}</FeatureFlagProvider>;
+}
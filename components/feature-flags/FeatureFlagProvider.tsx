@@ -0,0 +1,131 @@
+'use client';
+
+/**
+ * Feature Flag Provider
+ *
+ * Serves the flags evaluated for the current user to useFeatureFlag:
+ * - Bootstrapped with the flags evaluated during SSR (FeatureFlagBootstrap)
+ * - Re-evaluated when the flag version changes (realtime) or a schedule window opens or closes
+ * - Cached in offline storage, so the last known values are used offline
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { getMyFeatureFlags } from '@/lib/feature-flags/actions';
+import { STORES, getFromOfflineStorage, saveToOfflineStorage } from '@/lib/utils/offline-storage';
+import { FeatureFlagContext } from '@/hooks/useFeatureFlag';
+import type { FeatureFlagBootstrap } from '@/lib/utils/feature-flag-rules';
+
+type StoredFeatureFlags = FeatureFlagBootstrap & { id: string };
+
+// Gives the server time to invalidate its cache after a change, and merges bursts of changes
+const REFRESH_DELAY_MS = 1000;
+
+// Longest delay setTimeout supports
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/** The more recent evaluation for the same user; a different user always wins */
+function newer(current: FeatureFlagBootstrap, next: FeatureFlagBootstrap) {
+  if (current.subject !== next.subject) return next;
+  return new Date(next.evaluatedAt) >= new Date(current.evaluatedAt) ? next : current;
+}
+
+async function storeFlags(flags: FeatureFlagBootstrap) {
+  try {
+    await saveToOfflineStorage<StoredFeatureFlags>(STORES.FEATURE_FLAGS, {
+      ...flags,
+      id: flags.subject,
+    });
+  } catch (error) {
+    console.error('Error caching feature flags:', error);
+  }
+}
+
+interface FeatureFlagProviderProps {
+  bootstrap: FeatureFlagBootstrap;
+  children: React.ReactNode;
+}
+
+export function FeatureFlagProvider({ bootstrap, children }: FeatureFlagProviderProps) {
+  const [flags, setFlags] = useState(bootstrap);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    try {
+      const next = await getMyFeatureFlags();
+      setFlags((current) => newer(current, next));
+      await storeFlags(next);
+    } catch (error) {
+      console.error('Error refreshing feature flags:', error);
+    }
+  }, []);
+
+  // A new server render brings a new bootstrap. Offline, the page may come from the
+  // service worker cache, so a copy saved later by this device can be more recent.
+  useEffect(() => {
+    const applyBootstrap = async () => {
+      setFlags((current) => newer(current, bootstrap));
+
+      if (navigator.onLine) {
+        await storeFlags(bootstrap);
+        return;
+      }
+
+      try {
+        const cached = (await getFromOfflineStorage<StoredFeatureFlags>(
+          STORES.FEATURE_FLAGS,
+          bootstrap.subject
+        )) as StoredFeatureFlags | null;
+        if (cached) {
+          setFlags((current) => newer(current, cached));
+        }
+      } catch (error) {
+        console.error('Error reading cached feature flags:', error);
+      }
+    };
+
+    applyBootstrap();
+  }, [bootstrap]);
+
+  // Re-evaluate when any flag changes, and after reconnecting
+  useEffect(() => {
+    const supabase = createClient();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRefresh = () => {
+      clearTimeout(timer);
+      timer = setTimeout(refresh, REFRESH_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel('feature-flags')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'feature_flag_versions',
+        },
+        scheduleRefresh
+      )
+      .subscribe();
+    window.addEventListener('online', scheduleRefresh);
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+      window.removeEventListener('online', scheduleRefresh);
+    };
+  }, [refresh]);
+
+  // Re-evaluate when a schedule window opens or closes
+  useEffect(() => {
+    if (!flags.nextChangeAt) return;
+
+    const delay = new Date(flags.nextChangeAt).getTime() - Date.now() + REFRESH_DELAY_MS;
+    const timer = setTimeout(refresh, Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [flags.nextChangeAt, refresh]);
+
+  return <FeatureFlagContext.Provider value={flags}>{children}</FeatureFlagContext.Provider>;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import React from 'react';
+import { FeatureFlagProvider } from '../FeatureFlagProvider';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
+import { getMyFeatureFlags } from '@/lib/feature-flags/actions';
+import { getFromOfflineStorage, saveToOfflineStorage } from '@/lib/utils/offline-storage';
+import type { FeatureFlagBootstrap } from '@/lib/utils/feature-flag-rules';
+
+// Realtime callback registered by the provider
+let onFlagChange: (() => void) | undefined;
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => {
+    const channel = {
+      on: (_event: string, _filter: unknown, callback: () => void) => {
+        onFlagChange = callback;
+        return channel;
+      },
+      subscribe: () => channel,
+    };
+    return { channel: () => channel, removeChannel: vi.fn() };
+  },
+}));
+
+vi.mock('@/lib/feature-flags/actions', () => ({
+  getMyFeatureFlags: vi.fn(),
+}));
+
+vi.mock('@/lib/utils/offline-storage', () => ({
+  STORES: { FEATURE_FLAGS: 'feature-flags' },
+  getFromOfflineStorage: vi.fn(),
+  saveToOfflineStorage: vi.fn(),
+}));
+
+const bootstrap: FeatureFlagBootstrap = {
+  subject: 'user-1',
+  flags: { attendance_qr_checkin_v1: true, home_training_v1: false },
+  evaluatedAt: '2026-10-19T08:00:00.000Z',
+  nextChangeAt: null,
+};
+
+function Flag({ name, defaultValue }: { name: string; defaultValue?: boolean }) {
+  return <span data-testid={name}>{String(useFeatureFlag(name, defaultValue))}</span>;
+}
+
+function setOnline(online: boolean) {
+  Object.defineProperty(window.navigator, 'onLine', { value: online, configurable: true });
+}
+
+describe('FeatureFlagProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onFlagChange = undefined;
+    setOnline(true);
+  });
+
+  it('serves the flags evaluated during SSR and caches them for offline use', async () => {
+    render(
+      <FeatureFlagProvider bootstrap={bootstrap}>
+        <Flag name="attendance_qr_checkin_v1" />
+        <Flag name="home_training_v1" />
+        <Flag name="unknown_flag" defaultValue />
+      </FeatureFlagProvider>
+    );
+
+    expect(screen.getByTestId('attendance_qr_checkin_v1')).toHaveTextContent('true');
+    expect(screen.getByTestId('home_training_v1')).toHaveTextContent('false');
+    expect(screen.getByTestId('unknown_flag')).toHaveTextContent('true');
+    await waitFor(() =>
+      expect(saveToOfflineStorage).toHaveBeenCalledWith('feature-flags', {
+        ...bootstrap,
+        id: 'user-1',
+      })
+    );
+  });
+
+  it('uses the default value outside a provider', () => {
+    render(<Flag name="attendance_qr_checkin_v1" defaultValue />);
+    expect(screen.getByTestId('attendance_qr_checkin_v1')).toHaveTextContent('true');
+  });
+
+  it('re-evaluates after the feature flag version changes', async () => {
+    vi.mocked(getMyFeatureFlags).mockResolvedValue({
+      ...bootstrap,
+      flags: { ...bootstrap.flags, home_training_v1: true },
+      evaluatedAt: '2026-10-19T08:05:00.000Z',
+    });
+
+    render(
+      <FeatureFlagProvider bootstrap={bootstrap}>
+        <Flag name="home_training_v1" />
+      </FeatureFlagProvider>
+    );
+
+    act(() => onFlagChange?.());
+    await waitFor(() => expect(screen.getByTestId('home_training_v1')).toHaveTextContent('true'), {
+      timeout: 3000,
+    });
+    expect(getMyFeatureFlags).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a newer cached copy when offline', async () => {
+    setOnline(false);
+    vi.mocked(getFromOfflineStorage).mockResolvedValue({
+      ...bootstrap,
+      id: 'user-1',
+      flags: { ...bootstrap.flags, home_training_v1: true },
+      evaluatedAt: '2026-10-19T09:00:00.000Z',
+    });
+
+    render(
+      <FeatureFlagProvider bootstrap={bootstrap}>
+        <Flag name="home_training_v1" />
+      </FeatureFlagProvider>
+    );
+
+    await waitFor(() => expect(screen.getByTestId('home_training_v1')).toHaveTextContent('true'));
+    expect(getFromOfflineStorage).toHaveBeenCalledWith('feature-flags', 'user-1');
+    expect(saveToOfflineStorage).not.toHaveBeenCalled();
+  });
+});
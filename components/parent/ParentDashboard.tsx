@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { parentLogout } from '@/lib/parent-auth/actions';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { TournamentConsent } from '@/components/parent/TournamentConsent';
+import { ParentReports } from '@/components/parent/ParentReports';
 
 interface ParentUser {
   id: string;
@@ -169,6 +171,12 @@ export function ParentDashboard({ parentUser }: ParentDashboardProps) {
               </div>
             </div>
 
+            {/* Tournament selections awaiting consent */}
+            <TournamentConsent />
+
+            {/* Weekly and monthly reports */}
+            <ParentReports />
+
             {/* Athletes List */}
             <div>
               <h2 className="text-xl font-bold text-gray-900 mb-4">บุตรหลานของคุณ</h2>
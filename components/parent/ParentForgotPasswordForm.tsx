@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { requestPasswordReset } from '@/lib/parent-auth/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Mail, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+export function ParentForgotPasswordForm() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [email, setEmail] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = await requestPasswordReset(email.trim());
+      if (result.success) {
+        setMessage(result.message || 'หากอีเมลนี้มีอยู่ในระบบ เราจะส่งลิงก์รีเซ็ตรหัสผ่านไปให้');
+      } else {
+        setError(result.error || 'เกิดข้อผิดพลาด');
+      }
+    } catch {
+      setError('เกิดข้อผิดพลาดในการเชื่อมต่อ');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (message) {
+    return (
+      <div className="space-y-6 text-center">
+        <CheckCircle2 className="w-12 h-12 text-green-600 mx-auto" />
+        <p className="text-gray-700">{message}</p>
+        <Link href="/parent/login" className="text-sm text-blue-600 hover:underline">
+          กลับไปหน้าเข้าสู่ระบบ
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="email" className="text-gray-700">
+          อีเมล
+        </Label>
+        <div className="relative">
+          <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <Input
+            id="email"
+            type="email"
+            placeholder="parent@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="pl-10"
+            required
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+        disabled={loading}
+      >
+        {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        ส่งลิงก์รีเซ็ตรหัสผ่าน
+      </Button>
+
+      <p className="text-center text-sm">
+        <Link href="/parent/login" className="text-blue-600 hover:underline">
+          กลับไปหน้าเข้าสู่ระบบ
+        </Link>
+      </p>
+    </form>
+  );
+}
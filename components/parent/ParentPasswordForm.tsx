@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { verifyAndSetPassword, resetPassword } from '@/lib/parent-auth/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Lock, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface ParentPasswordFormProps {
+  /** verify: first password from the verification email; reset: from the reset email */
+  mode: 'verify' | 'reset';
+  token: string;
+}
+
+export function ParentPasswordForm({ mode, token }: ParentPasswordFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('รหัสผ่านทั้งสองช่องไม่ตรงกัน');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result =
+        mode === 'verify'
+          ? await verifyAndSetPassword(token, password)
+          : await resetPassword(token, password);
+
+      if (result.success) {
+        setDone(true);
+      } else {
+        setError(result.error || 'เกิดข้อผิดพลาด');
+      }
+    } catch {
+      setError('เกิดข้อผิดพลาดในการเชื่อมต่อ');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="space-y-6 text-center">
+        <CheckCircle2 className="w-12 h-12 text-green-600 mx-auto" />
+        <p className="text-gray-700">
+          {mode === 'verify'
+            ? 'ยืนยันอีเมลและตั้งรหัสผ่านสำเร็จ'
+            : 'ตั้งรหัสผ่านใหม่สำเร็จ กรุณาเข้าสู่ระบบอีกครั้ง'}
+        </p>
+        <Button asChild className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+          <Link href="/parent/login">เข้าสู่ระบบ</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-gray-700">
+          {mode === 'verify' ? 'ตั้งรหัสผ่าน' : 'รหัสผ่านใหม่'}
+        </Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="อย่างน้อย 6 ตัวอักษร"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="pl-10"
+            minLength={6}
+            required
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-gray-700">
+          ยืนยันรหัสผ่าน
+        </Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <Input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="pl-10"
+            minLength={6}
+            required
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+        disabled={loading}
+      >
+        {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === 'verify' ? 'ยืนยันและตั้งรหัสผ่าน' : 'ตั้งรหัสผ่านใหม่'}
+      </Button>
+    </form>
+  );
+}
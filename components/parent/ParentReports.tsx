@@ -0,0 +1,303 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, TrendingUp, TrendingDown, Target, MessageSquare, Bell } from 'lucide-react';
+import { getChildReports, markParentReportOpened } from '@/lib/parent/report-actions';
+import type { ChildReports, ParentReport } from '@/lib/parent/report-actions';
+import {
+  PARENT_REPORT_TYPES,
+  PARENT_REPORT_TYPE_LABELS,
+  type ComparedReportField,
+  type ParentReportType,
+} from '@/lib/utils/parent-reports';
+
+const STAT_CARDS: { field: ComparedReportField; label: string; suffix?: string }[] = [
+  { field: 'attendance_rate', label: 'อัตราการเข้าฝึก', suffix: '%' },
+  { field: 'attended_sessions', label: 'เข้าฝึก (ครั้ง)' },
+  { field: 'absent_sessions', label: 'ขาด (ครั้ง)' },
+  { field: 'performance_improvements', label: 'ผลทดสอบที่ดีขึ้น' },
+  { field: 'completed_goals', label: 'เป้าหมายที่สำเร็จ' },
+];
+
+const FEEDBACK_SOURCE_LABELS = {
+  attendance: 'การฝึกซ้อม',
+  performance: 'การทดสอบ',
+  progress_report: 'รายงานความก้าวหน้า',
+};
+
+function formatPeriod(report: Pick<ParentReport, 'period_start' | 'period_end'>) {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('th-TH', { day: 'numeric', month: 'short' });
+  return `${format(report.period_start)} – ${format(report.period_end)}`;
+}
+
+function Delta({ value, lowerIsBetter }: { value: number; lowerIsBetter?: boolean }) {
+  if (value === 0) return <span className="text-xs text-gray-400">เท่าเดิม</span>;
+
+  const better = lowerIsBetter ? value < 0 : value > 0;
+  const Icon = value > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${better ? 'text-green-600' : 'text-red-600'}`}
+    >
+      <Icon className="w-3 h-3" />
+      {value > 0 ? '+' : ''}
+      {value}
+    </span>
+  );
+}
+
+/**
+ * Weekly and monthly reports of the parent's children, compared with the
+ * period before, with the report history. Hidden until a report exists.
+ */
+export function ParentReports() {
+  const [children, setChildren] = useState<ChildReports[]>([]);
+  const [childId, setChildId] = useState<string | null>(null);
+  const [type, setType] = useState<ParentReportType>('weekly');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadReports() {
+      const result = await getChildReports();
+      if (result.error) {
+        console.error('Error loading parent reports:', result.error);
+        return;
+      }
+      const withReports = (result.children || []).filter((child) => child.reports.length > 0);
+      setChildren(withReports);
+      setChildId(withReports[0]?.connection_id ?? null);
+    }
+
+    loadReports();
+  }, []);
+
+  const child = children.find((c) => c.connection_id === childId);
+  const reports = child?.reports.filter((report) => report.report_type === type) ?? [];
+  const report = reports.find((r) => r.id === selectedId) ?? reports[0];
+
+  useEffect(() => {
+    if (!report || report.opened_at) return;
+
+    markParentReportOpened(report.id).then((result) => {
+      if (result.error) return;
+      const openedAt = new Date().toISOString();
+      setChildren((current) =>
+        current.map((c) => ({
+          ...c,
+          reports: c.reports.map((r) => (r.id === report.id ? { ...r, opened_at: openedAt } : r)),
+        }))
+      );
+    });
+  }, [report]);
+
+  if (children.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-bold text-gray-900">รายงานความก้าวหน้า</h2>
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+          {PARENT_REPORT_TYPES.map((reportType) => (
+            <button
+              key={reportType}
+              onClick={() => {
+                setType(reportType);
+                setSelectedId(null);
+              }}
+              className={`px-3 py-1 text-sm rounded-md ${
+                type === reportType ? 'bg-white shadow-sm font-medium' : 'text-gray-600'
+              }`}
+            >
+              {PARENT_REPORT_TYPE_LABELS[reportType]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {children.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {children.map((c) => (
+            <button
+              key={c.connection_id}
+              onClick={() => {
+                setChildId(c.connection_id);
+                setSelectedId(null);
+              }}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                c.connection_id === childId
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700'
+              }`}
+            >
+              {c.athlete.first_name} {c.athlete.last_name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!report ? (
+        <div className="bg-white rounded-2xl p-6 shadow-sm text-center text-gray-500">
+          ยังไม่มีรายงาน{PARENT_REPORT_TYPE_LABELS[type]}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-white rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center">
+                <FileText className="w-5 h-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="font-bold text-gray-900">
+                  รายงาน{PARENT_REPORT_TYPE_LABELS[type]} · {formatPeriod(report)}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  {child?.athlete.first_name} {child?.athlete.last_name}
+                  {report.comparison ? ' · เทียบกับช่วงก่อนหน้า' : ''}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {STAT_CARDS.map(({ field, label, suffix }) => (
+                <div key={field} className="rounded-xl bg-gray-50 p-3">
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {report[field]}
+                    {suffix}
+                  </p>
+                  {report.comparison && (
+                    <Delta
+                      value={report.comparison[field]}
+                      lowerIsBetter={field === 'absent_sessions'}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {report.report_data && report.report_data.tests.length > 0 && (
+              <div className="mt-6">
+                <h4 className="font-medium text-gray-900 mb-2">ผลการทดสอบ</h4>
+                <ul className="divide-y text-sm">
+                  {report.report_data.tests.map((test, index) => (
+                    <li key={index} className="flex items-center justify-between py-2">
+                      <span>
+                        {test.test_name}{' '}
+                        <span className="text-gray-500">
+                          ({new Date(test.test_date).toLocaleDateString('th-TH')})
+                        </span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {test.score} {test.unit}
+                        {test.previous_score !== null && (
+                          <span
+                            className={`text-xs ${test.improved ? 'text-green-600' : 'text-gray-500'}`}
+                          >
+                            (ก่อนหน้า {test.previous_score})
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.report_data && report.report_data.goals.length > 0 && (
+              <div className="mt-6">
+                <h4 className="flex items-center gap-2 font-medium text-gray-900 mb-2">
+                  <Target className="w-4 h-4" />
+                  เป้าหมาย
+                </h4>
+                <ul className="space-y-2 text-sm">
+                  {report.report_data.goals.map((goal, index) => (
+                    <li key={index}>
+                      <div className="flex justify-between">
+                        <span>{goal.title}</span>
+                        <span className="text-gray-500">
+                          {goal.status === 'completed' ? 'สำเร็จ' : `${goal.progress_percentage}%`}
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                        <div
+                          className="h-1.5 bg-blue-600 rounded-full"
+                          style={{
+                            width: `${goal.status === 'completed' ? 100 : goal.progress_percentage}%`,
+                          }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.report_data && report.report_data.feedback.length > 0 && (
+              <div className="mt-6">
+                <h4 className="flex items-center gap-2 font-medium text-gray-900 mb-2">
+                  <MessageSquare className="w-4 h-4" />
+                  ความเห็นจากโค้ช
+                </h4>
+                <ul className="space-y-2 text-sm">
+                  {report.report_data.feedback.map((item, index) => (
+                    <li key={index} className="rounded-lg bg-gray-50 p-3">
+                      <p className="text-xs text-gray-500">
+                        {new Date(item.date).toLocaleDateString('th-TH')} ·{' '}
+                        {FEEDBACK_SOURCE_LABELS[item.source]}
+                      </p>
+                      <p className="text-gray-800">{item.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.report_data && report.report_data.digest.length > 0 && (
+              <div className="mt-6">
+                <h4 className="flex items-center gap-2 font-medium text-gray-900 mb-2">
+                  <Bell className="w-4 h-4" />
+                  การแจ้งเตือนในช่วงนี้
+                </h4>
+                <ul className="divide-y text-sm">
+                  {report.report_data.digest.map((item, index) => (
+                    <li key={index} className="py-2">
+                      <p className="font-medium text-gray-800">{item.title}</p>
+                      <p className="text-gray-600">{item.message}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {reports.length > 1 && (
+            <div className="bg-white rounded-2xl p-6 shadow-sm">
+              <h4 className="font-medium text-gray-900 mb-2">รายงานย้อนหลัง</h4>
+              <ul className="divide-y text-sm">
+                {reports.map((r) => (
+                  <li key={r.id}>
+                    <button
+                      onClick={() => setSelectedId(r.id)}
+                      className={`w-full flex justify-between py-2 text-left ${
+                        r.id === report.id ? 'font-medium text-blue-600' : 'text-gray-700'
+                      }`}
+                    >
+                      <span>{formatPeriod(r)}</span>
+                      <span>
+                        เข้าฝึก {r.attendance_rate}%
+                        {!r.opened_at && r.id !== report.id && (
+                          <span className="ml-2 text-xs text-blue-600">ใหม่</span>
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
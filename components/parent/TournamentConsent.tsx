@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Trophy, Calendar, MapPin, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/toast';
+import { getChildTournamentInvitations, respondAsParent } from '@/lib/parent/tournament-actions';
+import {
+  MAX_RSVP_REASON_LENGTH,
+  RSVP_STAGE_LABELS,
+  canRespond,
+  rsvpStage,
+  type RsvpState,
+} from '@/lib/utils/tournament-rsvp';
+
+interface ChildInvitation extends RsvpState {
+  id: string;
+  needs_consent: boolean;
+  response_reason: string | null;
+  athlete: { first_name: string; last_name: string };
+  tournament: {
+    id: string;
+    name: string;
+    location: string | null;
+    start_date: string;
+  };
+  category: { id: string; name: string } | null;
+}
+
+async function fetchInvitations(): Promise<ChildInvitation[] | null> {
+  const result = await getChildTournamentInvitations();
+  if (result.error) {
+    console.error('Error loading tournament invitations:', result.error);
+    return null;
+  }
+  return result.invitations || [];
+}
+
+/**
+ * Tournament selections of the parent's children, with consent buttons for
+ * minors. Hidden when no child has been selected.
+ */
+export function TournamentConsent() {
+  const { addToast } = useToast();
+  const [invitations, setInvitations] = useState<ChildInvitation[]>([]);
+  const [refusing, setRefusing] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    async function loadInvitations() {
+      const invitations = await fetchInvitations();
+      if (invitations) setInvitations(invitations);
+    }
+
+    loadInvitations();
+  }, []);
+
+  const respond = async (participantId: string, consent: 'given' | 'refused') => {
+    setSubmitting(true);
+    const result = await respondAsParent(
+      participantId,
+      consent,
+      consent === 'refused' ? reason : undefined
+    );
+    setSubmitting(false);
+
+    if (result.error) {
+      addToast({ title: 'ไม่สามารถบันทึกได้', description: result.error, variant: 'error' });
+      return;
+    }
+
+    addToast({
+      title: consent === 'given' ? 'ให้ความยินยอมแล้ว' : 'ไม่ให้ความยินยอมแล้ว',
+      variant: 'success',
+    });
+    setRefusing(null);
+    setReason('');
+    const invitations = await fetchInvitations();
+    if (invitations) setInvitations(invitations);
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-xl font-bold text-gray-900 mb-4">ทัวร์นาเมนต์</h2>
+      <div className="space-y-4">
+        {invitations.map((invitation) => {
+          const stage = rsvpStage(invitation);
+          const awaitingConsent =
+            invitation.needs_consent &&
+            canRespond(invitation.status) &&
+            invitation.parent_consent !== 'given';
+
+          return (
+            <div key={invitation.id} className="bg-white rounded-2xl p-6 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center">
+                    <Trophy className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-bold text-gray-900">{invitation.tournament.name}</h3>
+                    <p className="text-sm text-gray-600">
+                      {invitation.athlete.first_name} {invitation.athlete.last_name}
+                      {invitation.category && ` · ${invitation.category.name}`}
+                    </p>
+                    <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(invitation.tournament.start_date).toLocaleDateString('th-TH')}
+                      </span>
+                      {invitation.tournament.location && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {invitation.tournament.location}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 whitespace-nowrap">
+                  {RSVP_STAGE_LABELS[stage]}
+                </span>
+              </div>
+
+              {invitation.response_reason && (
+                <p className="mt-3 text-sm text-gray-500">เหตุผล: {invitation.response_reason}</p>
+              )}
+
+              {awaitingConsent && refusing !== invitation.id && (
+                <div className="mt-4 flex gap-2">
+                  <Button
+                    disabled={submitting}
+                    onClick={() => respond(invitation.id, 'given')}
+                    className="flex items-center gap-2"
+                  >
+                    <Check className="w-4 h-4" />
+                    ยินยอมให้เข้าร่วม
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={submitting}
+                    onClick={() => setRefusing(invitation.id)}
+                    className="flex items-center gap-2"
+                  >
+                    <X className="w-4 h-4" />
+                    ไม่ยินยอม
+                  </Button>
+                </div>
+              )}
+
+              {refusing === invitation.id && (
+                <div className="mt-4 space-y-2">
+                  <Textarea
+                    value={reason}
+                    maxLength={MAX_RSVP_REASON_LENGTH}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="กรุณาระบุเหตุผล"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      variant="destructive"
+                      disabled={submitting || !reason.trim()}
+                      onClick={() => respond(invitation.id, 'refused')}
+                    >
+                      ยืนยันไม่ยินยอม
+                    </Button>
+                    <Button variant="outline" onClick={() => setRefusing(null)}>
+                      ยกเลิก
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import { useRouter } from 'next/navigation';
+import { Monitor, Pencil, Trash2, Check, X, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/useToast';
+import { renamePushDevice, revokePushDevice, type PushDevice } from '@/lib/notifications/actions';
+import { generateDeviceFingerprint } from '@/lib/utils/device-fingerprint';
+import { unsubscribeFromPushNotifications } from '@/lib/utils/push-notifications';
+
+interface MyDevicesListProps {
+  devices: PushDevice[];
+}
+
+const noopSubscribe = () => () => {};
+
+/**
+ * The current user's devices that receive push notifications, with rename
+ * and revoke
+ */
+export function MyDevicesList({ devices }: MyDevicesListProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  // The fingerprint needs the browser; null while rendering on the server
+  const currentDeviceId = useSyncExternalStore(
+    noopSubscribe,
+    generateDeviceFingerprint,
+    () => null
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const startEditing = (device: PushDevice) => {
+    setEditingId(device.id);
+    setEditName(device.name);
+  };
+
+  const handleRename = async (device: PushDevice) => {
+    setBusyId(device.id);
+    const { error } = await renamePushDevice(device.id, editName);
+    setBusyId(null);
+
+    if (error) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: error, variant: 'error' });
+      return;
+    }
+    setEditingId(null);
+    router.refresh();
+  };
+
+  const handleRevoke = async (device: PushDevice) => {
+    setBusyId(device.id);
+    // Revoking this browser also ends its subscription, so it does not look subscribed
+    if (device.device_id === currentDeviceId) {
+      await unsubscribeFromPushNotifications();
+    }
+    const { error } = await revokePushDevice(device.id);
+    setBusyId(null);
+
+    if (error) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: error, variant: 'error' });
+      return;
+    }
+    toast({
+      title: 'ยกเลิกอุปกรณ์แล้ว',
+      description: `${device.name} จะไม่ได้รับการแจ้งเตือนอีก`,
+    });
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>อุปกรณ์ของฉัน</CardTitle>
+        <CardDescription>
+          อุปกรณ์ที่รับการแจ้งเตือนแบบ push ({devices.length} เครื่อง)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {devices.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            ยังไม่มีอุปกรณ์ที่เปิดรับการแจ้งเตือน
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {devices.map((device) => {
+              const isCurrent = device.device_id === currentDeviceId;
+              const isBusy = busyId === device.id;
+
+              return (
+                <li key={device.id} className="flex items-center gap-3 py-3">
+                  <Monitor className="h-5 w-5 text-gray-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    {editingId === device.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={editName}
+                          maxLength={60}
+                          onChange={(e) => setEditName(e.target.value)}
+                          aria-label="ชื่ออุปกรณ์"
+                          autoFocus
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRename(device)}
+                          disabled={isBusy}
+                          aria-label="บันทึกชื่อ"
+                        >
+                          {isBusy ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Check className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setEditingId(null)}
+                          aria-label="ยกเลิก"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium truncate">{device.name}</p>
+                          {isCurrent && <Badge variant="secondary">อุปกรณ์นี้</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {device.platform ? `${device.platform} · ` : ''}
+                          ใช้งานล่าสุด{' '}
+                          {format(new Date(device.updated_at), 'dd MMM yyyy HH:mm', { locale: th })}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  {editingId !== device.id && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => startEditing(device)}
+                        aria-label="เปลี่ยนชื่อ"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={isBusy}
+                            aria-label="ยกเลิกอุปกรณ์"
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>ยกเลิกอุปกรณ์</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {device.name} จะไม่ได้รับการแจ้งเตือนอีก
+                              สามารถเปิดรับใหม่ได้จากอุปกรณ์นั้น
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRevoke(device)}>
+                              ยืนยัน
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
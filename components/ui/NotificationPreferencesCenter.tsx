@@ -0,0 +1,569 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell, BellOff, Loader2, AlertCircle, Moon } from 'lucide-react';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useToast } from '@/hooks/useToast';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getChannelPreferences,
+  getEmailLocale,
+  getQuietHours,
+  updateChannelPreferences,
+  updateEmailLocale,
+  updateQuietHours,
+} from '@/lib/notifications/actions';
+import {
+  getParentChannelPreferences,
+  updateNotificationPreferences,
+  updateParentChannelPreferences,
+  type NotificationPreferences,
+  type ParentConnection,
+} from '@/lib/parent/actions';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  buildPreferenceMatrix,
+  channelsFor,
+  type ChannelPreferenceMatrix,
+  type NotificationCategory,
+  type NotificationChannel,
+  type RecipientKind,
+} from '@/lib/utils/notification-routing';
+import { DEFAULT_QUIET_HOURS_TIMEZONE } from '@/lib/utils/quiet-hours';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  EMAIL_LOCALE_LABELS,
+  type EmailLocale,
+} from '@/lib/utils/email-templates';
+import {
+  REPORT_FREQUENCIES,
+  REPORT_FREQUENCY_LABELS,
+  type ReportFrequency,
+} from '@/lib/utils/parent-reports';
+
+export type PreferencesRecipient =
+  | { kind: 'user'; userId: string }
+  | { kind: 'parent'; connection: ParentConnection };
+
+interface NotificationPreferencesCenterProps {
+  recipient: PreferencesRecipient;
+  /** Called after a successful save */
+  onSaved?: () => void;
+}
+
+/**
+ * Everything about how a recipient is notified in one place: the channels
+ * for each notification type, plus this device's push subscription and
+ * quiet hours for users, or the parent's other updates and frequency for a
+ * parent connection
+ */
+export function NotificationPreferencesCenter({
+  recipient,
+  onSaved,
+}: NotificationPreferencesCenterProps) {
+  return recipient.kind === 'user' ? (
+    <UserPreferences userId={recipient.userId} onSaved={onSaved} />
+  ) : (
+    <ParentPreferences connection={recipient.connection} onSaved={onSaved} />
+  );
+}
+
+interface ChannelMatrixProps {
+  kind: RecipientKind;
+  value: ChannelPreferenceMatrix;
+  onChange: (value: ChannelPreferenceMatrix) => void;
+  disabled?: boolean;
+}
+
+/** Notification types down the side, the recipient's channels across the top */
+function ChannelMatrix({ kind, value, onChange, disabled }: ChannelMatrixProps) {
+  const channels = channelsFor(kind);
+
+  const toggle = (category: NotificationCategory, channel: NotificationChannel, checked: boolean) =>
+    onChange({ ...value, [category]: { ...value[category], [channel]: checked } });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left font-medium py-2 pr-2">ประเภท</th>
+            {channels.map((channel) => (
+              <th key={channel} className="font-medium py-2 px-2 text-center whitespace-nowrap">
+                {NOTIFICATION_CHANNEL_LABELS[channel]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {NOTIFICATION_CATEGORIES.map((category) => (
+            <tr key={category} className="border-b last:border-0">
+              <td className="py-2 pr-2">
+                <p>{NOTIFICATION_CATEGORY_LABELS[category].label}</p>
+                <p className="text-xs text-gray-500">
+                  {NOTIFICATION_CATEGORY_LABELS[category].description}
+                </p>
+              </td>
+              {channels.map((channel) => (
+                <td key={channel} className="py-2 px-2 text-center">
+                  <Checkbox
+                    checked={value[category][channel]}
+                    onCheckedChange={(checked) => toggle(category, channel, checked === true)}
+                    disabled={disabled}
+                    aria-label={`${NOTIFICATION_CATEGORY_LABELS[category].label} - ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface EmailLocaleSelectProps {
+  value: EmailLocale;
+  onChange: (value: EmailLocale) => void;
+  disabled?: boolean;
+}
+
+/** Language the recipient's emails are written in */
+function EmailLocaleSelect({ value, onChange, disabled }: EmailLocaleSelectProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor="email-locale" className="flex flex-col gap-1">
+        <span>ภาษาของอีเมล</span>
+        <span className="text-xs text-gray-500 font-normal">Email language</span>
+      </Label>
+      <Select
+        value={value}
+        onValueChange={(locale) => onChange(locale as EmailLocale)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="email-locale" className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EMAIL_LOCALES.map((locale) => (
+            <SelectItem key={locale} value={locale}>
+              {EMAIL_LOCALE_LABELS[locale]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/** Subscribe or unsubscribe this browser for push notifications */
+function DevicePushToggle({ userId }: { userId: string }) {
+  const { isSupported, permission, isSubscribed, isLoading, subscribe, unsubscribe, error } =
+    usePushNotifications(userId);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const handleToggle = async (checked: boolean) => {
+    try {
+      if (checked) {
+        await subscribe();
+        toast({
+          title: 'เปิดการแจ้งเตือนแล้ว',
+          description: 'คุณจะได้รับการแจ้งเตือนแบบ push notification',
+        });
+      } else {
+        await unsubscribe();
+        toast({
+          title: 'ปิดการแจ้งเตือนแล้ว',
+          description: 'อุปกรณ์นี้จะไม่ได้รับการแจ้งเตือนแบบ push notification อีกต่อไป',
+        });
+      }
+      // Device lists rendered on the server pick up the change
+      router.refresh();
+    } catch (err) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: err instanceof Error ? err.message : 'ไม่สามารถเปลี่ยนการตั้งค่าได้',
+        variant: 'error',
+      });
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <div className="flex items-start gap-3">
+        <AlertCircle className="h-5 w-5 text-orange-500 mt-0.5" />
+        <div>
+          <h3 className="font-medium text-sm">Push Notifications ไม่รองรับ</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            เบราว์เซอร์ของคุณไม่รองรับการแจ้งเตือนแบบ push notification
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission === 'denied') {
+    return (
+      <div className="flex items-start gap-3">
+        <BellOff className="h-5 w-5 text-red-500 mt-0.5" />
+        <div>
+          <h3 className="font-medium text-sm">การแจ้งเตือนถูกปิดใช้งาน</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            คุณได้ปิดการอนุญาตการแจ้งเตือนสำหรับเว็บไซต์นี้ กรุณาเปิดใช้งานในการตั้งค่าเบราว์เซอร์
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-start gap-3 flex-1">
+        <Bell className="h-5 w-5 text-blue-500 mt-0.5" />
+        <div className="flex-1">
+          <Label htmlFor="push-notifications" className="text-sm font-medium cursor-pointer">
+            Push Notifications บนอุปกรณ์นี้
+          </Label>
+          <p className="text-sm text-gray-600 mt-1">
+            รับการแจ้งเตือนแบบ real-time ตามประเภทที่เลือกไว้ด้านล่าง
+          </p>
+          {error && <p className="text-sm text-red-600 mt-2">{error.message}</p>}
+        </div>
+      </div>
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      ) : (
+        <Switch
+          id="push-notifications"
+          checked={isSubscribed}
+          onCheckedChange={handleToggle}
+          disabled={isLoading}
+        />
+      )}
+    </div>
+  );
+}
+
+function UserPreferences({ userId, onSaved }: { userId: string; onSaved?: () => void }) {
+  const { toast } = useToast();
+  const [matrix, setMatrix] = useState<ChannelPreferenceMatrix>(() => buildPreferenceMatrix([]));
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState('22:00');
+  const [quietEnd, setQuietEnd] = useState('07:00');
+  const [emailLocale, setEmailLocale] = useState<EmailLocale>(DEFAULT_EMAIL_LOCALE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      const [channels, quietHours, locale] = await Promise.all([
+        getChannelPreferences(),
+        getQuietHours(),
+        getEmailLocale(),
+      ]);
+      if (channels.data) {
+        setMatrix(channels.data);
+      }
+      if (locale.data) {
+        setEmailLocale(locale.data);
+      }
+      if (quietHours.data) {
+        setQuietEnabled(true);
+        setQuietStart(quietHours.data.start);
+        setQuietEnd(quietHours.data.end);
+      }
+      setIsLoaded(true);
+    };
+
+    loadPreferences();
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const timezone =
+      Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_QUIET_HOURS_TIMEZONE;
+    const [channelsResult, quietHoursResult, localeResult] = await Promise.all([
+      updateChannelPreferences(matrix),
+      updateQuietHours(quietEnabled ? { start: quietStart, end: quietEnd, timezone } : null),
+      updateEmailLocale(emailLocale),
+    ]);
+    setIsSaving(false);
+
+    const saveError = channelsResult.error || quietHoursResult.error || localeResult.error;
+    if (saveError) {
+      toast({ title: 'เกิดข้อผิดพลาด', description: saveError, variant: 'error' });
+      return;
+    }
+    toast({
+      title: 'บันทึกการตั้งค่าการแจ้งเตือนแล้ว',
+      description: quietEnabled
+        ? `Push และอีเมลระหว่าง ${quietStart} - ${quietEnd} จะถูกส่งเมื่อสิ้นสุดช่วงเวลานี้`
+        : 'คุณจะได้รับการแจ้งเตือนตามช่องทางที่เลือกทุกช่วงเวลา',
+    });
+    onSaved?.();
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <DevicePushToggle userId={userId} />
+
+      <div className="border-t pt-4 space-y-2">
+        <h3 className="font-medium text-sm">ช่องทางการแจ้งเตือน</h3>
+        <p className="text-sm text-gray-600">เลือกช่องทางที่ต้องการสำหรับการแจ้งเตือนแต่ละประเภท</p>
+        <ChannelMatrix
+          kind="user"
+          value={matrix}
+          onChange={setMatrix}
+          disabled={!isLoaded || isSaving}
+        />
+      </div>
+
+      <div className="border-t pt-4">
+        <EmailLocaleSelect
+          value={emailLocale}
+          onChange={setEmailLocale}
+          disabled={!isLoaded || isSaving}
+        />
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-start gap-3">
+            <Moon className="h-5 w-5 text-indigo-500 mt-0.5" />
+            <div>
+              <Label htmlFor="quiet-hours" className="text-sm font-medium cursor-pointer">
+                ช่วงเวลาห้ามรบกวน
+              </Label>
+              <p className="text-sm text-gray-600 mt-1">
+                เก็บ push และอีเมลไว้ส่งเมื่อสิ้นสุดช่วงเวลานี้
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="quiet-hours"
+            checked={quietEnabled}
+            onCheckedChange={setQuietEnabled}
+            disabled={!isLoaded || isSaving}
+          />
+        </div>
+        {quietEnabled && (
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Label htmlFor="quiet-hours-start" className="text-xs text-gray-600">
+                ตั้งแต่
+              </Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={quietStart}
+                onChange={(e) => setQuietStart(e.target.value)}
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="quiet-hours-end" className="text-xs text-gray-600">
+                ถึง
+              </Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={quietEnd}
+                onChange={(e) => setQuietEnd(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Button size="sm" onClick={handleSave} disabled={!isLoaded || isSaving}>
+        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        บันทึก
+      </Button>
+    </Card>
+  );
+}
+
+type OtherParentUpdates = Pick<
+  NotificationPreferences,
+  | 'notify_attendance'
+  | 'notify_performance'
+  | 'notify_goals'
+  | 'notification_frequency'
+  | 'email_locale'
+  | 'report_frequency'
+>;
+
+const OTHER_PARENT_UPDATES: {
+  key: 'notify_attendance' | 'notify_performance' | 'notify_goals';
+  label: string;
+  description: string;
+}[] = [
+  { key: 'notify_attendance', label: 'การเข้าฝึก', description: 'แจ้งเตือนเมื่อเข้าฝึกหรือขาดฝึก' },
+  {
+    key: 'notify_performance',
+    label: 'ผลการทดสอบ',
+    description: 'แจ้งเตือนเมื่อมีผลการทดสอบใหม่',
+  },
+  {
+    key: 'notify_goals',
+    label: 'เป้าหมาย',
+    description: 'แจ้งเตือนเมื่อมีเป้าหมายใหม่หรือบรรลุเป้าหมาย',
+  },
+];
+
+function ParentPreferences({
+  connection,
+  onSaved,
+}: {
+  connection: ParentConnection;
+  onSaved?: () => void;
+}) {
+  const { toast } = useToast();
+  const [matrix, setMatrix] = useState<ChannelPreferenceMatrix>(() => buildPreferenceMatrix([]));
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [otherUpdates, setOtherUpdates] = useState<OtherParentUpdates>({
+    notify_attendance: connection.notify_attendance,
+    notify_performance: connection.notify_performance,
+    notify_goals: connection.notify_goals,
+    notification_frequency: connection.notification_frequency,
+    email_locale: connection.email_locale ?? DEFAULT_EMAIL_LOCALE,
+    report_frequency: connection.report_frequency ?? 'weekly',
+  });
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      const result = await getParentChannelPreferences(connection.id);
+      if (result.success && result.data) {
+        setMatrix(result.data);
+      }
+      setIsLoaded(true);
+    };
+
+    loadPreferences();
+  }, [connection.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const [channelsResult, otherResult] = await Promise.all([
+      updateParentChannelPreferences(connection.id, matrix),
+      updateNotificationPreferences(connection.id, otherUpdates),
+    ]);
+    setIsSaving(false);
+
+    if (!channelsResult.success || !otherResult.success) {
+      toast({
+        title: 'เกิดข้อผิดพลาด',
+        description: channelsResult.error || otherResult.error,
+        variant: 'error',
+      });
+      return;
+    }
+    toast({ title: 'อัพเดทสำเร็จ', description: channelsResult.message });
+    onSaved?.();
+  };
+
+  const disabled = !isLoaded || isSaving;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">ช่องทางการแจ้งเตือน</h4>
+        <ChannelMatrix kind="parent" value={matrix} onChange={setMatrix} disabled={disabled} />
+      </div>
+
+      <div className="border-t pt-4">
+        <EmailLocaleSelect
+          value={otherUpdates.email_locale ?? DEFAULT_EMAIL_LOCALE}
+          onChange={(locale) => setOtherUpdates({ ...otherUpdates, email_locale: locale })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-4 border-t pt-4">
+        <h4 className="text-sm font-medium">การแจ้งเตือนอื่น</h4>
+        {OTHER_PARENT_UPDATES.map((update) => (
+          <div key={update.key} className="flex items-center justify-between">
+            <Label htmlFor={update.key} className="flex flex-col gap-1">
+              <span>{update.label}</span>
+              <span className="text-xs text-gray-500 font-normal">{update.description}</span>
+            </Label>
+            <Switch
+              id={update.key}
+              checked={Boolean(otherUpdates[update.key])}
+              onCheckedChange={(checked) =>
+                setOtherUpdates({ ...otherUpdates, [update.key]: checked })
+              }
+              disabled={disabled}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="notification_frequency">ความถี่การแจ้งเตือนอื่น</Label>
+          <Select
+            value={otherUpdates.notification_frequency}
+            onValueChange={(value: 'immediate' | 'daily' | 'weekly') =>
+              setOtherUpdates({ ...otherUpdates, notification_frequency: value })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id="notification_frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="immediate">ทันที</SelectItem>
+              <SelectItem value="daily">รายวัน (สรุปท้ายวัน)</SelectItem>
+              <SelectItem value="weekly">รายสัปดาห์ (สรุปท้ายสัปดาห์)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="report_frequency">รายงานความก้าวหน้า</Label>
+          <Select
+            value={otherUpdates.report_frequency}
+            onValueChange={(value) =>
+              setOtherUpdates({ ...otherUpdates, report_frequency: value as ReportFrequency })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id="report_frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {REPORT_FREQUENCY_LABELS[frequency]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={disabled}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          บันทึก
+        </Button>
+      </div>
+    </div>
+  );
+}
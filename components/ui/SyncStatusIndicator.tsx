@@ -1,13 +1,109 @@
 'use client';
 
+import { useState } from 'react';
 import { useSync } from '@/hooks/useSync';
-import { Cloud, CloudOff, RefreshCw, CheckCircle, AlertCircle } from 'lucide-react';
+import { useAttendanceConflicts } from '@/hooks/useAttendanceConflicts';
+import { Cloud, CloudOff, RefreshCw, CheckCircle, AlertCircle, GitMerge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { AttendanceConflict } from '@/lib/coach/offline-attendance';
+import type {
+  AttendanceConflictReason,
+  AttendanceStatus,
+} from '@/lib/coach/attendance-conflicts';
+
+const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'เข้าร่วม',
+  absent: 'ขาด',
+  excused: 'ลา',
+  late: 'สาย',
+};
+
+const CONFLICT_REASON_LABELS: Record<AttendanceConflictReason, string> = {
+  self_check_in: 'นักกีฬาเช็คอินด้วยตนเอง',
+  approved_leave: 'คำขอลาได้รับการอนุมัติแล้ว',
+  changed_elsewhere: 'มีผู้อื่นแก้ไขข้อมูลแล้ว',
+};
+
+const CONFLICT_OUTCOME_LABELS: Record<AttendanceConflict['outcome'], string> = {
+  needs_review: 'รอตรวจสอบ',
+  kept_server: 'ใช้ข้อมูลในระบบแล้ว',
+  rejected: 'บันทึกไม่ได้',
+};
+
+function ConflictItem({
+  conflict,
+  onApplyMine,
+  onDismiss,
+}: {
+  conflict: AttendanceConflict;
+  onApplyMine: (conflict: AttendanceConflict) => Promise<void>;
+  onDismiss: (conflict: AttendanceConflict) => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const { mark, server } = conflict;
+
+  const run = async (action: (conflict: AttendanceConflict) => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action(conflict);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{mark.athleteName}</span>
+        <Badge variant={conflict.outcome === 'needs_review' ? 'destructive' : 'secondary'}>
+          {CONFLICT_OUTCOME_LABELS[conflict.outcome]}
+        </Badge>
+      </div>
+      <p className="text-sm text-gray-600">
+        ของคุณ: {ATTENDANCE_STATUS_LABELS[mark.status]} (
+        {new Date(mark.markedAt).toLocaleTimeString('th-TH', { timeStyle: 'short' })})
+        {server && (
+          <>
+            {' · '}ในระบบ: {ATTENDANCE_STATUS_LABELS[server.status]}
+            {server.check_in_time &&
+              ` (เช็คอิน ${new Date(server.check_in_time).toLocaleTimeString('th-TH', { timeStyle: 'short' })})`}
+          </>
+        )}
+      </p>
+      {(conflict.reason || conflict.message) && (
+        <p className="text-xs text-gray-500">
+          {conflict.message ?? CONFLICT_REASON_LABELS[conflict.reason!]}
+          {server?.geofence_flagged && ' · ตำแหน่งเช็คอินถูกตั้งข้อสังเกต'}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        {conflict.outcome !== 'rejected' && (
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => run(onApplyMine)}>
+            ใช้ของฉัน
+          </Button>
+        )}
+        <Button size="sm" disabled={busy} onClick={() => run(onDismiss)}>
+          {conflict.outcome === 'needs_review' ? 'ใช้ข้อมูลในระบบ' : 'รับทราบ'}
+        </Button>
+      </div>
+    </li>
+  );
+}
 
 export function SyncStatusIndicator() {
   const { syncStatus, pendingCount, manualSync } = useSync();
+  const { conflicts, applyMine, dismiss } = useAttendanceConflicts();
+  const [reviewOpen, setReviewOpen] = useState(false);
 
-  if (syncStatus.status === 'idle' && pendingCount === 0) {
+  if (syncStatus.status === 'idle' && pendingCount === 0 && conflicts.length === 0) {
     return null;
   }
 
@@ -84,6 +180,39 @@ export function SyncStatusIndicator() {
           Retry
         </Button>
       )}
+      {conflicts.length > 0 && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setReviewOpen(true)}
+          className="h-6 px-2 text-xs text-orange-700"
+        >
+          <GitMerge className="mr-1 h-3 w-3" />
+          ข้อมูลขัดแย้ง {conflicts.length}
+        </Button>
+      )}
+
+      <Dialog open={reviewOpen && conflicts.length > 0} onOpenChange={setReviewOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>ตรวจสอบการเช็คชื่อแบบออฟไลน์</DialogTitle>
+            <DialogDescription>
+              ข้อมูลการเข้าร่วมต่อไปนี้เปลี่ยนแปลงระหว่างที่คุณออฟไลน์
+              เลือกว่าจะใช้การเช็คชื่อของคุณหรือข้อมูลที่อยู่ในระบบ
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {conflicts.map((conflict) => (
+              <ConflictItem
+                key={conflict.id}
+                conflict={conflict}
+                onApplyMine={applyMine}
+                onDismiss={dismiss}
+              />
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
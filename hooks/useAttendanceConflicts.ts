@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  applyOfflineAttendanceMark,
+  dismissAttendanceConflict,
+  getAttendanceConflicts,
+  subscribeToAttendanceConflicts,
+  type AttendanceConflict,
+} from '@/lib/coach/offline-attendance';
+
+/**
+ * Hook for reviewing offline attendance marks the server did not apply
+ */
+export function useAttendanceConflicts() {
+  const [conflicts, setConflicts] = useState<AttendanceConflict[]>([]);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        setConflicts(await getAttendanceConflicts());
+      } catch (error) {
+        console.error('Failed to load attendance conflicts:', error);
+      }
+    };
+
+    refresh();
+    return subscribeToAttendanceConflicts(refresh);
+  }, []);
+
+  return {
+    conflicts,
+    /** Send the coach's mark over the current record */
+    applyMine: applyOfflineAttendanceMark,
+    /** Keep the current record, or acknowledge a dropped mark */
+    dismiss: dismissAttendanceConflict,
+  };
+}
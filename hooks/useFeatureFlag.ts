@@ -0,0 +1,31 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { FeatureFlagBootstrap } from '@/lib/utils/feature-flag-rules';
+
+export const FeatureFlagContext = createContext<FeatureFlagBootstrap | null>(null);
+
+/**
+ * Whether a feature flag is enabled for the current user
+ * Reads the flags FeatureFlagProvider evaluated on the server, so it works
+ * without a round trip and offline.
+ *
+ * @param flagName - Feature flag name (e.g., 'attendance_qr_checkin_v1')
+ * @param defaultValue - Used outside a provider or when the flag is unknown
+ *
+ * @example
+ * ```tsx
+ * const qrCheckIn = useFeatureFlag('attendance_qr_checkin_v1');
+ * ```
+ */
+export function useFeatureFlag(flagName: string, defaultValue = false): boolean {
+  const context = useContext(FeatureFlagContext);
+  return context?.flags[flagName] ?? defaultValue;
+}
+
+/**
+ * Every flag evaluated for the current user, or null outside a provider
+ */
+export function useFeatureFlags(): FeatureFlagBootstrap | null {
+  return useContext(FeatureFlagContext);
+}
@@ -8,7 +8,6 @@ import {
   unsubscribeFromPushNotifications,
   getPushSubscription,
   savePushSubscription,
-  removePushSubscription,
 } from '@/lib/utils/push-notifications';
 
 interface UsePushNotificationsResult {
@@ -97,11 +96,10 @@ export function usePushNotifications(userId?: string): UsePushNotificationsResul
     setError(null);
 
     try {
-      const success = await unsubscribeFromPushNotifications();
+      // Only this device's subscription is removed; other devices keep theirs
+      const success = await unsubscribeFromPushNotifications(userId);
       
       if (success) {
-        // Remove subscription from server
-        await removePushSubscription(userId);
         setIsSubscribed(false);
       } else {
         setError(new Error('Failed to unsubscribe from push notifications'));
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 // ============================================================================
 // Activity Management Actions
@@ -53,6 +54,14 @@ export async function createActivity(formData: {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity.create',
+    entityType: 'activity',
+    entityId: activity.id,
+    after: activity,
+  });
+
   revalidatePath('/dashboard/coach/activities');
   return { data: activity };
 }
@@ -68,7 +77,7 @@ export async function generateQRCode(activityId: string) {
   // Verify coach owns this activity
   const { data: activity } = await supabase
     .from('activities')
-    .select('id, coach_id, coaches!inner(user_id)')
+    .select('id, coach_id, qr_code_token, coaches!inner(user_id)')
     .eq('id', activityId)
     .single();
 
@@ -85,6 +94,15 @@ export async function generateQRCode(activityId: string) {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity.generate_qr',
+    entityType: 'activity',
+    entityId: activityId,
+    before: { qr_code_token: (activity as any).qr_code_token ?? null },
+    after: { qr_code_token: data },
+  });
+
   revalidatePath(`/dashboard/coach/activities/${activityId}`);
   return { data: { token: data } };
 }
@@ -164,6 +182,14 @@ export async function registerForActivity(activityId: string, notes?: string) {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity_registration.create',
+    entityType: 'activity_registration',
+    entityId: registration.id,
+    after: registration,
+  });
+
   revalidatePath('/dashboard/athlete/activities');
   return { data: registration };
 }
@@ -176,16 +202,29 @@ export async function cancelRegistration(registrationId: string) {
     return { error: 'ไม่พบข้อมูลผู้ใช้' };
   }
 
-  const { error } = await (supabase as any)
+  const { data: cancelled, error } = await (supabase as any)
     .from('activity_registrations')
     .update({ status: 'cancelled' })
     .eq('id', registrationId)
-    .eq('status', 'pending');
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
 
   if (error) {
     return { error: error.message };
   }
 
+  if (cancelled) {
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'activity_registration.cancel',
+      entityType: 'activity_registration',
+      entityId: registrationId,
+      before: { status: 'pending' },
+      after: { status: cancelled.status },
+    });
+  }
+
   revalidatePath('/dashboard/athlete/activities');
   return { success: true };
 }
@@ -209,7 +248,13 @@ export async function approveRegistration(registrationId: string, coachNotes?: s
     return { error: 'ไม่พบข้อมูลโค้ช' };
   }
 
-  const { error } = await (supabase as any)
+  const { data: before } = await (supabase as any)
+    .from('activity_registrations')
+    .select('*')
+    .eq('id', registrationId)
+    .maybeSingle();
+
+  const { data: approved, error } = await (supabase as any)
     .from('activity_registrations')
     .update({
       status: 'approved',
@@ -217,12 +262,23 @@ export async function approveRegistration(registrationId: string, coachNotes?: s
       approved_at: new Date().toISOString(),
       coach_notes: coachNotes,
     })
-    .eq('id', registrationId);
+    .eq('id', registrationId)
+    .select()
+    .single();
 
   if (error) {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity_registration.approve',
+    entityType: 'activity_registration',
+    entityId: registrationId,
+    before,
+    after: approved,
+  });
+
   revalidatePath('/dashboard/coach/activities');
   return { success: true };
 }
@@ -246,7 +302,13 @@ export async function rejectRegistration(registrationId: string, reason: string)
     return { error: 'ไม่พบข้อมูลโค้ช' };
   }
 
-  const { error } = await (supabase as any)
+  const { data: before } = await (supabase as any)
+    .from('activity_registrations')
+    .select('*')
+    .eq('id', registrationId)
+    .maybeSingle();
+
+  const { data: rejected, error } = await (supabase as any)
     .from('activity_registrations')
     .update({
       status: 'rejected',
@@ -254,12 +316,23 @@ export async function rejectRegistration(registrationId: string, reason: string)
       approved_at: new Date().toISOString(),
       rejection_reason: reason,
     })
-    .eq('id', registrationId);
+    .eq('id', registrationId)
+    .select()
+    .single();
 
   if (error) {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity_registration.reject',
+    entityType: 'activity_registration',
+    entityId: registrationId,
+    before,
+    after: rejected,
+  });
+
   revalidatePath('/dashboard/coach/activities');
   return { success: true };
 }
@@ -272,15 +345,27 @@ export async function removeAthleteFromActivity(registrationId: string) {
     return { error: 'ไม่พบข้อมูลผู้ใช้' };
   }
 
-  const { error } = await (supabase as any)
+  const { data: removed, error } = await (supabase as any)
     .from('activity_registrations')
     .delete()
-    .eq('id', registrationId);
+    .eq('id', registrationId)
+    .select()
+    .maybeSingle();
 
   if (error) {
     return { error: error.message };
   }
 
+  if (removed) {
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'activity_registration.delete',
+      entityType: 'activity_registration',
+      entityId: registrationId,
+      before: removed,
+    });
+  }
+
   revalidatePath('/dashboard/coach/activities');
   return { success: true };
 }
@@ -370,6 +455,14 @@ export async function checkInWithQR(activityId: string, qrToken: string) {
     return { error: error.message };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'activity_checkin.create',
+    entityType: 'activity_checkin',
+    entityId: checkin.id,
+    after: checkin,
+  });
+
   revalidatePath('/dashboard/athlete/activities');
   return { data: checkin };
 }
@@ -394,17 +487,30 @@ export async function checkOutFromActivity(activityId: string) {
   }
 
   // Update check-out time
-  const { error } = await (supabase as any)
+  const { data: checkedOut, error } = await (supabase as any)
     .from('activity_checkins')
     .update({ checked_out_at: new Date().toISOString() })
     .eq('activity_id', activityId)
     .eq('athlete_id', (athlete as any).id)
-    .is('checked_out_at', null);
+    .is('checked_out_at', null)
+    .select()
+    .maybeSingle();
 
   if (error) {
     return { error: error.message };
   }
 
+  if (checkedOut) {
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'activity_checkin.check_out',
+      entityType: 'activity_checkin',
+      entityId: checkedOut.id,
+      before: { checked_out_at: null },
+      after: { checked_out_at: checkedOut.checked_out_at },
+    });
+  }
+
   revalidatePath('/dashboard/athlete/activities');
   return { success: true };
 }
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface DashboardStats {
   totalUsers: number;
@@ -102,6 +103,13 @@ export async function createClub(name: string, sportType: string, description?:
 
     if (error) throw error;
 
+    await createAuditLog({
+      actionType: 'club.create',
+      entityType: 'club',
+      entityId: (data as { id: string }).id,
+      after: data,
+    });
+
     revalidatePath('/dashboard/admin');
     revalidatePath('/dashboard/admin/clubs');
 
@@ -136,6 +144,8 @@ export async function updateClub(
       updateData.description = description;
     }
 
+    const { data: before } = await supabase.from('clubs').select('*').eq('id', id).maybeSingle();
+
     const { data, error } = await supabase
       .from('clubs')
       .update(updateData as never)
@@ -145,6 +155,14 @@ export async function updateClub(
 
     if (error) throw error;
 
+    await createAuditLog({
+      actionType: 'club.update',
+      entityType: 'club',
+      entityId: id,
+      before,
+      after: data,
+    });
+
     revalidatePath('/dashboard/admin');
     revalidatePath('/dashboard/admin/clubs');
 
@@ -161,10 +179,22 @@ export async function deleteClub(id: string) {
   try {
     const supabase = await createClient();
 
-    const { error } = await supabase.from('clubs').delete().eq('id', id);
+    const { data: deleted, error } = await supabase
+      .from('clubs')
+      .delete()
+      .eq('id', id)
+      .select()
+      .maybeSingle();
 
     if (error) throw error;
 
+    await createAuditLog({
+      actionType: 'club.delete',
+      entityType: 'club',
+      entityId: id,
+      before: deleted,
+    });
+
     revalidatePath('/dashboard/admin');
     revalidatePath('/dashboard/admin/clubs');
 
@@ -210,6 +240,12 @@ export async function assignCoachToClub(coachId: string, clubId: string) {
   try {
     const supabase = await createClient();
 
+    const { data: before } = await supabase
+      .from('coaches')
+      .select('*')
+      .eq('id', coachId)
+      .maybeSingle();
+
     const { data, error } = await supabase
       .from('coaches')
       .update({ club_id: clubId } as never)
@@ -219,6 +255,14 @@ export async function assignCoachToClub(coachId: string, clubId: string) {
 
     if (error) throw error;
 
+    await createAuditLog({
+      actionType: 'coach.assign',
+      entityType: 'coach',
+      entityId: coachId,
+      before,
+      after: data,
+    });
+
     revalidatePath('/dashboard/admin');
     revalidatePath('/dashboard/admin/coaches');
 
@@ -267,10 +311,22 @@ export async function deleteUser(userId: string, userType: 'athlete' | 'coach')
     const table = userType === 'athlete' ? 'athletes' : 'coaches';
 
     // Delete from the specific table (will cascade to user_roles and auth.users)
-    const { error } = await supabase.from(table).delete().eq('user_id', userId);
+    const { data: deleted, error } = await supabase
+      .from(table)
+      .delete()
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
 
     if (error) throw error;
 
+    await createAuditLog({
+      actionType: 'user.delete',
+      entityType: userType,
+      entityId: userId,
+      before: deleted,
+    });
+
     revalidatePath('/dashboard/admin');
     revalidatePath('/dashboard/admin/coaches');
     revalidatePath('/dashboard/admin/athletes');
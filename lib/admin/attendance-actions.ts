@@ -1,9 +1,18 @@
 'use server';
 
+import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
 import { Database } from '@/types/database.types';
-import { createAuditLog } from '@/lib/audit/actions';
-import { getCached, invalidatePattern } from '@/lib/utils/cache';
+import { createAuditLog } from '@/lib/audit/log';
+import { CACHE_TAGS, attendanceCacheTags, getCached, invalidateTags } from '@/lib/utils/cache';
+import { getAttendancePolicies } from '@/lib/admin/settings-actions';
+import { runSessionCloseOut, type CloseOutSummary } from '@/lib/admin/session-close-out';
+import { extractCorrelationId } from '@/lib/utils/correlation';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  calculateAttendanceRate,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
 
 type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
 
@@ -46,6 +55,17 @@ interface ClubStats {
   activeAthletes: number;
 }
 
+/**
+ * Load every club's attendance policy for system-wide statistics
+ * Falls back to the defaults when settings cannot be read
+ */
+async function loadPolicyResolver(): Promise<(clubId: string | undefined) => AttendancePolicy> {
+  const result = await getAttendancePolicies();
+  const defaultPolicy = result.data?.defaultPolicy ?? DEFAULT_ATTENDANCE_POLICY;
+  const clubPolicies = result.data?.clubPolicies ?? {};
+  return (clubId) => (clubId && clubPolicies[clubId]) || defaultPolicy;
+}
+
 /**
  * Get all training sessions across all clubs
  * Admin can view all sessions in the system
@@ -170,6 +190,36 @@ export async function getAllSessions(filter?: {
   }
 }
 
+/**
+ * Check that the current user is an admin
+ * Cached stats are shared between admins, so this runs before the cache is read.
+ * @returns An error message, or null for admins
+ */
+async function verifyAdmin(): Promise<string | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ';
+  }
+
+  const { data: userRole, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single();
+
+  // @ts-ignore - Supabase type inference issue
+  if (roleError || !userRole || userRole.role !== 'admin') {
+    return 'ไม่ได้รับอนุญาต: ต้องเป็นแอดมินเท่านั้น';
+  }
+  return null;
+}
+
 /**
  * Get system-wide attendance statistics
  * Provides overview of all attendance across the system
@@ -180,6 +230,11 @@ export async function getAttendanceStats(filter?: {
   endDate?: string;
 }): Promise<{ data?: SystemAttendanceStats; error?: string }> {
   try {
+    const accessError = await verifyAdmin();
+    if (accessError) {
+      return { error: accessError };
+    }
+
     // Create cache key based on filters
     const cacheKey = `attendance-stats:${filter?.startDate || 'all'}:${filter?.endDate || 'all'}`;
     
@@ -189,7 +244,11 @@ export async function getAttendanceStats(filter?: {
       async () => {
         return await computeAttendanceStats(filter);
       },
-      5 * 60 * 1000 // 5 minutes
+      {
+        ttl: 5 * 60 * 1000, // 5 minutes
+        tags: [CACHE_TAGS.attendance],
+        shouldCache: (result) => !result.error,
+      }
     );
     
     return cached;
@@ -209,28 +268,6 @@ async function computeAttendanceStats(filter?: {
   try {
     const supabase = await createClient();
 
-    // Get current user
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
-    }
-
-    // Verify user is admin
-    const { data: userRole, error: roleError } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
-
-    // @ts-ignore - Supabase type inference issue
-    if (roleError || !userRole || userRole.role !== 'admin') {
-      return { error: 'ไม่ได้รับอนุญาต: ต้องเป็นแอดมินเท่านั้น' };
-    }
-
     // Get total sessions count
     let sessionsQuery = supabase
       .from('training_sessions')
@@ -252,7 +289,8 @@ async function computeAttendanceStats(filter?: {
       .select(`
         *,
         training_sessions!inner (
-          session_date
+          session_date,
+          club_id
         )
       `);
 
@@ -284,10 +322,19 @@ async function computeAttendanceStats(filter?: {
     // @ts-ignore
     const lateCount = attendanceRecords?.filter((a) => a.status === 'late').length || 0;
 
-    // Calculate average attendance rate
+    // Calculate average attendance rate; late counts as attended per club policy
+    const policyFor = await loadPolicyResolver();
+    const countedLate =
+      (
+        attendanceRecords as
+          | { status: string; training_sessions: { club_id: string } | null }[]
+          | null
+      )?.filter(
+        (a) => a.status === 'late' && policyFor(a.training_sessions?.club_id).count_late_as_present
+      ).length || 0;
     const averageAttendanceRate =
       totalAttendanceRecords > 0
-        ? Math.round(((presentCount + lateCount) / totalAttendanceRecords) * 100 * 10) / 10
+        ? Math.round(((presentCount + countedLate) / totalAttendanceRecords) * 100 * 10) / 10
         : 0;
 
     // Get count of unique active athletes (athletes with at least one attendance record)
@@ -325,6 +372,11 @@ export async function getClubStats(filter?: {
   endDate?: string;
 }): Promise<{ data?: ClubStats[]; error?: string }> {
   try {
+    const accessError = await verifyAdmin();
+    if (accessError) {
+      return { error: accessError };
+    }
+
     // Create cache key based on filters
     const cacheKey = `club-stats:${filter?.startDate || 'all'}:${filter?.endDate || 'all'}`;
     
@@ -334,7 +386,11 @@ export async function getClubStats(filter?: {
       async () => {
         return await computeClubStats(filter);
       },
-      5 * 60 * 1000 // 5 minutes
+      {
+        ttl: 5 * 60 * 1000, // 5 minutes
+        tags: [CACHE_TAGS.attendance],
+        shouldCache: (result) => !result.error,
+      }
     );
     
     return cached;
@@ -354,28 +410,6 @@ async function computeClubStats(filter?: {
   try {
     const supabase = await createClient();
 
-    // Get current user
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
-    }
-
-    // Verify user is admin
-    const { data: userRole, error: roleError } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
-
-    // @ts-ignore - Supabase type inference issue
-    if (roleError || !userRole || userRole.role !== 'admin') {
-      return { error: 'ไม่ได้รับอนุญาต: ต้องเป็นแอดมินเท่านั้น' };
-    }
-
     // Get all clubs
     const { data: clubs, error: clubsError } = await supabase
       .from('clubs')
@@ -459,6 +493,8 @@ async function computeClubStats(filter?: {
       }
     });
 
+    const policyFor = await loadPolicyResolver();
+
     // Calculate stats for each club
     const clubStats: ClubStats[] = clubs.map((club: any) => {
       const clubId = club.id;
@@ -471,11 +507,11 @@ async function computeClubStats(filter?: {
       const excusedCount = attendanceRecords.filter((a: any) => a.status === 'excused').length;
       const lateCount = attendanceRecords.filter((a: any) => a.status === 'late').length;
 
-      // Calculate attendance rate
-      const attendanceRate =
-        totalAttendanceRecords > 0
-          ? Math.round(((presentCount + lateCount) / totalAttendanceRecords) * 100 * 10) / 10
-          : 0;
+      // Calculate attendance rate per the club's policy
+      const attendanceRate = calculateAttendanceRate(
+        { present: presentCount, late: lateCount, total: totalAttendanceRecords },
+        policyFor(clubId)
+      );
 
       // Get count of unique active athletes
       const uniqueAthletes = new Set(
@@ -604,13 +640,17 @@ export async function updateAnySession(
       actionType: 'training_session.update',
       entityType: 'training_session',
       entityId: sessionId,
-      details: {
-        updates,
-        // @ts-ignore
-        previousValues: existingSession,
-      },
+      before: existingSession,
+      after: updates,
     });
 
+    await invalidateTags(
+      attendanceCacheTags({
+        sessionId,
+        clubId: (existingSession as { club_id?: string | null }).club_id,
+      })
+    );
+
     return { data: updatedSession };
   } catch (error) {
     console.error('Unexpected error in updateAnySession:', error);
@@ -700,16 +740,149 @@ export async function deleteSession(sessionId: string): Promise<{ success?: bool
       actionType: 'training_session.delete',
       entityType: 'training_session',
       entityId: sessionId,
+      before: sessionToDelete,
       details: {
-        // @ts-ignore
-        deletedSession: sessionToDelete,
         deletedAt: new Date().toISOString(),
       },
     });
 
+    await invalidateTags(
+      attendanceCacheTags({
+        sessionId,
+        clubId: (sessionToDelete as { club_id?: string | null }).club_id,
+      })
+    );
+
     return { success: true };
   } catch (error) {
     console.error('Unexpected error in deleteSession:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
+
+/**
+ * Run the session close-out job on demand (admin only)
+ * Same job as the scheduled /api/cron/close-out-sessions, using the admin's own client
+ */
+export async function closeOutEndedSessions(options?: {
+  dryRun?: boolean;
+}): Promise<{ data?: CloseOutSummary; error?: string }> {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+    }
+
+    // Verify user is admin
+    const { data: userRole, error: roleError } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single<{ role: string }>();
+
+    if (roleError || !userRole || userRole.role !== 'admin') {
+      return { error: 'ไม่ได้รับอนุญาต: ต้องเป็นแอดมินเท่านั้น' };
+    }
+
+    const summary = await runSessionCloseOut(supabase, {
+      dryRun: options?.dryRun,
+      triggeredBy: user.id,
+      // The same ID the client sends for the events the close-out writes
+      correlationId: extractCorrelationId(await headers()) ?? undefined,
+    });
+
+    if (!summary.dryRun) {
+      await createAuditLog({
+        userId: user.id,
+        userRole: 'admin',
+        actionType: 'training_session.close_out',
+        entityType: 'training_session',
+        correlationId: summary.correlationId,
+        details: {
+          sessionsClosed: summary.sessionsClosed,
+          absentMarked: summary.absentMarked,
+          excusedMarked: summary.excusedMarked,
+          sessionIds: summary.sessions.map((s) => s.sessionId),
+        },
+      });
+    }
+
+    return { data: summary };
+  } catch (error) {
+    console.error('Unexpected error in closeOutEndedSessions:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Unlock a closed-out attendance sheet so coaches can correct it (admin only)
+ * Rows written by the close-out stay in place; the next run re-locks the sheet.
+ */
+export async function reopenSessionAttendance(
+  sessionId: string
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+    }
+
+    // Verify user is admin
+    const { data: userRole, error: roleError } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single<{ role: string }>();
+
+    if (roleError || !userRole || userRole.role !== 'admin') {
+      return { error: 'ไม่ได้รับอนุญาต: ต้องเป็นแอดมินเท่านั้น' };
+    }
+
+    const { data: lock } = await supabase
+      .from('training_sessions')
+      .select('attendance_locked_at, attendance_locked_by')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    const { error: updateError } = await supabase
+      .from('training_sessions')
+      .update({ attendance_locked_at: null, attendance_locked_by: null } as never)
+      .eq('id', sessionId);
+
+    if (updateError) {
+      console.error('Reopen attendance error:', updateError);
+      return { error: 'เกิดข้อผิดพลาดในการเปิดการเช็คชื่อใหม่' };
+    }
+
+    await createAuditLog({
+      userId: user.id,
+      userRole: 'admin',
+      actionType: 'training_session.reopen_attendance',
+      entityType: 'training_session',
+      entityId: sessionId,
+      before: lock,
+      after: { attendance_locked_at: null, attendance_locked_by: null },
+    });
+
+    await invalidateTags(attendanceCacheTags({ sessionId }));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error in reopenSessionAttendance:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
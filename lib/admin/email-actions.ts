@@ -0,0 +1,284 @@
+'use server';
+
+/**
+ * Email Delivery Actions
+ *
+ * Admins see whether email is configured, the recent send log and the
+ * suppression list; they can send a test email, retry dead-lettered
+ * messages and lift a suppression.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { createAuditLog } from '@/lib/audit/log';
+import { renderEmail, type EmailLocale } from '@/lib/utils/email-templates';
+import {
+  getEmailSender,
+  getEmailTransport,
+  type EmailTransportName,
+} from '@/lib/utils/email-transport';
+import type { EmailMessage, EmailMessageStatus } from '@/lib/admin/email-delivery';
+
+export type EmailMessageSummary = Pick<
+  EmailMessage,
+  | 'id'
+  | 'template'
+  | 'locale'
+  | 'to_email'
+  | 'status'
+  | 'attempts'
+  | 'last_error'
+  | 'created_at'
+  | 'sent_at'
+>;
+
+export interface EmailSuppression {
+  email: string;
+  reason: 'hard_bounce' | 'soft_bounces' | 'complaint';
+  detail: string | null;
+  created_at: string;
+}
+
+export interface EmailDeliveryOverview {
+  /** null when no transport is configured */
+  transport: EmailTransportName | null;
+  sender: string | null;
+  /** Messages queued in the last 7 days, by status */
+  counts: Partial<Record<EmailMessageStatus, number>>;
+  recent: EmailMessageSummary[];
+  suppressions: EmailSuppression[];
+}
+
+const RECENT_LIMIT = 20;
+const SUMMARY_DAYS = 7;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/**
+ * The signed-in admin's id, or an error
+ */
+async function requireAdmin(sb: UntypedClient): Promise<{ userId?: string; error?: string }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await sb.auth.getUser();
+
+  if (authError || !user) {
+    return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+  }
+
+  const { data: roleData } = await sb
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  if (!roleData) {
+    return { error: 'ต้องเป็น admin เท่านั้น' };
+  }
+  return { userId: user.id };
+}
+
+/**
+ * Transport status, recent messages and suppressed addresses
+ */
+export async function getEmailDeliveryOverview(): Promise<{
+  success: boolean;
+  data?: EmailDeliveryOverview;
+  error?: string;
+}> {
+  try {
+    const sb: UntypedClient = await createClient();
+    const { error: accessError } = await requireAdmin(sb);
+    if (accessError) return { success: false, error: accessError };
+
+    const since = new Date(Date.now() - SUMMARY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const [countsResult, recentResult, suppressionsResult] = await Promise.all([
+      sb.from('email_messages').select('status').gte('created_at', since),
+      sb
+        .from('email_messages')
+        .select('id, template, locale, to_email, status, attempts, last_error, created_at, sent_at')
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT),
+      sb
+        .from('email_suppressions')
+        .select('email, reason, detail, created_at')
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const failed = [countsResult, recentResult, suppressionsResult].find((result) => result.error);
+    if (failed) {
+      console.error('Error loading email delivery overview:', failed.error);
+      return { success: false, error: 'ไม่สามารถโหลดข้อมูลการส่งอีเมลได้' };
+    }
+
+    const counts: Partial<Record<EmailMessageStatus, number>> = {};
+    for (const row of (countsResult.data || []) as { status: EmailMessageStatus }[]) {
+      counts[row.status] = (counts[row.status] ?? 0) + 1;
+    }
+
+    const sender = getEmailSender();
+    return {
+      success: true,
+      data: {
+        transport: getEmailTransport()?.name ?? null,
+        sender: sender ? (sender.name ? `${sender.name} <${sender.email}>` : sender.email) : null,
+        counts,
+        recent: recentResult.data || [],
+        suppressions: suppressionsResult.data || [],
+      },
+    };
+  } catch (error) {
+    console.error('Error loading email delivery overview:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Send the test template straight through the transport, so the admin sees
+ * the server's answer instead of waiting for the dispatch job
+ */
+export async function sendTestEmail(
+  to: string,
+  locale: EmailLocale
+): Promise<{ success: boolean; message?: string; error?: string }> {
+  try {
+    const sb: UntypedClient = await createClient();
+    const { userId, error: accessError } = await requireAdmin(sb);
+    if (accessError) return { success: false, error: accessError };
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to.trim())) {
+      return { success: false, error: 'อีเมลไม่ถูกต้อง' };
+    }
+
+    const transport = getEmailTransport();
+    const sender = getEmailSender();
+    if (!transport || !sender) {
+      return {
+        success: false,
+        error: 'ยังไม่ได้ตั้งค่าการส่งอีเมล (EMAIL_TRANSPORT/SMTP_HOST และ EMAIL_FROM)',
+      };
+    }
+
+    const { data: profile } = await sb
+      .from('profiles')
+      .select('full_name, email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    const rendered = renderEmail('test', locale, {
+      requestedBy: profile?.full_name || profile?.email || 'admin',
+    });
+    const result = await transport.send({
+      from: sender,
+      to: { email: to.trim() },
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+    });
+
+    await createAuditLog({
+      userId,
+      userRole: 'admin',
+      actionType: 'email.send_test',
+      entityType: 'email_message',
+      details: {
+        to: to.trim(),
+        transport: transport.name,
+        accepted: result.accepted,
+        code: result.code,
+        error: result.error,
+      },
+    });
+
+    if (!result.accepted) {
+      return { success: false, error: `ส่งไม่สำเร็จ: ${result.error ?? result.code}` };
+    }
+    return { success: true, message: `ส่งอีเมลทดสอบผ่าน ${transport.name} แล้ว` };
+  } catch (error) {
+    console.error('Error sending test email:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดในการส่งอีเมลทดสอบ' };
+  }
+}
+
+/**
+ * Put a dead-lettered message back in the queue
+ */
+export async function retryEmailMessage(
+  messageId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const sb: UntypedClient = await createClient();
+    const { userId, error: accessError } = await requireAdmin(sb);
+    if (accessError) return { success: false, error: accessError };
+
+    const { data, error } = await sb
+      .from('email_messages')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .eq('status', 'dead_letter')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data) {
+      return { success: false, error: 'ส่งซ้ำได้เฉพาะอีเมลที่ส่งไม่สำเร็จ' };
+    }
+
+    await createAuditLog({
+      userId,
+      userRole: 'admin',
+      actionType: 'email_message.retry',
+      entityType: 'email_message',
+      entityId: messageId,
+      before: { status: 'dead_letter' },
+      after: { status: 'pending' },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error retrying email message:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Allow email to a suppressed address again
+ */
+export async function removeEmailSuppression(
+  email: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const sb: UntypedClient = await createClient();
+    const { userId, error: accessError } = await requireAdmin(sb);
+    if (accessError) return { success: false, error: accessError };
+
+    const { data, error } = await sb
+      .from('email_suppressions')
+      .delete()
+      .eq('email', email.trim().toLowerCase())
+      .select('email, reason')
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    await createAuditLog({
+      userId,
+      userRole: 'admin',
+      actionType: 'email_suppression.delete',
+      entityType: 'email_suppression',
+      before: data ?? undefined,
+      details: { email: email.trim().toLowerCase() },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing email suppression:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
@@ -0,0 +1,716 @@
+/**
+ * Email Delivery
+ *
+ * Emails are queued as email_messages rows: directly by the actions that
+ * send account email (parent verification, password resets, membership
+ * decisions), and from notification_deliveries rows the router queued on the
+ * email channel (lib/admin/notification-router.ts). The dispatch job renders
+ * each due message with the template version it was queued with and hands it
+ * to the configured transport (lib/utils/email-transport.ts).
+ *
+ * Failed sends are retried with the outbox backoff and dead-lettered after
+ * the last attempt or when the server refuses the message for good. A
+ * recipient refused by the server, a bounce or complaint reported by the
+ * provider's webhook, or repeated soft bounces put the address on the
+ * suppression list; nothing more is sent to it.
+ *
+ * Runs with the service-role client.
+ */
+
+import { MAX_DELIVERY_ATTEMPTS, retryDelayMs } from '@/lib/utils/event-dispatcher';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  isEmailLocale,
+  renderEmail,
+  type EmailLocale,
+  type EmailTemplateName,
+  type EmailVariables,
+} from '@/lib/utils/email-templates';
+import {
+  createMessageId,
+  getEmailSender,
+  getEmailTransport,
+  type EmailAddress,
+  type EmailSendResult,
+  type EmailTransport,
+} from '@/lib/utils/email-transport';
+
+/** Messages sent per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Notification deliveries turned into messages per run */
+const NOTIFICATION_BATCH_SIZE = 200;
+
+/** Soft bounces within SOFT_BOUNCE_WINDOW_MS that suppress an address */
+const SOFT_BOUNCE_LIMIT = 3;
+const SOFT_BOUNCE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Errors are cut to this length in the send log */
+const MAX_ERROR_LENGTH = 500;
+
+export type EmailMessageStatus =
+  | 'pending'
+  | 'processing'
+  | 'sent'
+  | 'bounced'
+  | 'suppressed'
+  | 'dead_letter';
+
+export type EmailBounceKind = 'hard' | 'soft' | 'complaint';
+
+export interface EmailMessage {
+  id: string;
+  template: EmailTemplateName;
+  template_version: number;
+  locale: EmailLocale;
+  to_email: string;
+  to_name: string | null;
+  variables: EmailVariables;
+  user_id: string | null;
+  parent_connection_id: string | null;
+  notification_delivery_id: string | null;
+  status: EmailMessageStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_code: number | null;
+  last_error: string | null;
+  message_id: string | null;
+  provider_response: string | null;
+  created_at: string;
+  sent_at: string | null;
+  bounced_at: string | null;
+}
+
+export interface EmailRequest {
+  template: EmailTemplateName;
+  to: string;
+  toName?: string | null;
+  locale?: EmailLocale | null;
+  variables: EmailVariables;
+  userId?: string | null;
+  parentConnectionId?: string | null;
+  notificationDeliveryId?: string | null;
+}
+
+export interface EmailOutcome {
+  status: EmailMessageStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_code: number | null;
+  last_error: string | null;
+  message_id: string | null;
+  provider_response: string | null;
+  sent_at: string | null;
+  bounced_at: string | null;
+  locked_at: null;
+}
+
+export interface EmailDispatchSummary {
+  /** Messages created from notification deliveries on the email channel */
+  fromNotifications: number;
+  claimed: number;
+  sent: number;
+  retried: number;
+  bounced: number;
+  suppressed: number;
+  deadLettered: number;
+}
+
+export interface EmailBounceReport {
+  email: string;
+  kind: EmailBounceKind;
+  /** Message-ID of the bounced message, with or without angle brackets */
+  messageId?: string | null;
+  detail?: string | null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+interface EmailNotificationDelivery {
+  id: string;
+  notification_id: string | null;
+  parent_notification_id: string | null;
+  user_id: string | null;
+  parent_connection_id: string | null;
+  category: string | null;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Absolute link to a page of the app, for email bodies
+ */
+export function emailLink(path: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+/**
+ * The suppressed addresses among the given ones
+ */
+async function loadSuppressed(sb: UntypedClient, emails: string[]): Promise<Set<string>> {
+  const normalized = [...new Set(emails.map(normalizeEmail))];
+  if (normalized.length === 0) return new Set();
+
+  const { data, error } = await sb
+    .from('email_suppressions')
+    .select('email')
+    .in('email', normalized);
+
+  if (error) {
+    throw new Error(`Failed to load email suppressions: ${error.message}`);
+  }
+  return new Set(((data || []) as { email: string }[]).map((row) => row.email));
+}
+
+/**
+ * Row for a new message; the template is rendered once so missing variables
+ * fail when the email is queued rather than when it is sent
+ */
+function buildMessageRow(request: EmailRequest, suppressed: boolean) {
+  const locale =
+    request.locale && isEmailLocale(request.locale) ? request.locale : DEFAULT_EMAIL_LOCALE;
+  const rendered = renderEmail(request.template, locale, request.variables);
+
+  return {
+    template: request.template,
+    template_version: rendered.version,
+    locale,
+    to_email: request.to.trim(),
+    to_name: request.toName ?? null,
+    variables: request.variables,
+    user_id: request.userId ?? null,
+    parent_connection_id: request.parentConnectionId ?? null,
+    notification_delivery_id: request.notificationDeliveryId ?? null,
+    status: suppressed ? 'suppressed' : 'pending',
+    last_error: suppressed ? 'Address is on the suppression list' : null,
+  };
+}
+
+/**
+ * Queue one email
+ * Messages to suppressed addresses are recorded as suppressed and not sent.
+ */
+export async function enqueueEmail(
+  sb: UntypedClient,
+  request: EmailRequest
+): Promise<{ id: string; status: EmailMessageStatus }> {
+  const suppressed = await loadSuppressed(sb, [request.to]);
+  const row = buildMessageRow(request, suppressed.has(normalizeEmail(request.to)));
+
+  const { data, error } = await sb.from('email_messages').insert(row).select('id, status').single();
+
+  if (error) {
+    throw new Error(`Failed to queue email: ${error.message}`);
+  }
+  return data as { id: string; status: EmailMessageStatus };
+}
+
+/**
+ * Message row after one send attempt
+ * A recipient refused for good is a hard bounce; other permanent refusals
+ * are dead-lettered, and everything else is retried with the outbox backoff
+ * until MAX_DELIVERY_ATTEMPTS.
+ */
+export function planEmailOutcome(
+  attemptsSoFar: number,
+  result: EmailSendResult,
+  now: Date = new Date()
+): EmailOutcome {
+  const attempts = attemptsSoFar + 1;
+  const logged = {
+    attempts,
+    response_code: result.code,
+    message_id: result.messageId,
+    locked_at: null,
+  };
+
+  if (result.accepted) {
+    return {
+      ...logged,
+      status: 'sent',
+      next_attempt_at: now.toISOString(),
+      last_error: null,
+      provider_response: result.response?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      sent_at: now.toISOString(),
+      bounced_at: null,
+    };
+  }
+
+  const lastError = (result.error ?? `SMTP ${result.code}`).slice(0, MAX_ERROR_LENGTH);
+
+  if (result.recipientRejected) {
+    return {
+      ...logged,
+      status: 'bounced',
+      next_attempt_at: now.toISOString(),
+      last_error: lastError,
+      provider_response: null,
+      sent_at: null,
+      bounced_at: now.toISOString(),
+    };
+  }
+
+  const exhausted = result.permanent || attempts >= MAX_DELIVERY_ATTEMPTS;
+  return {
+    ...logged,
+    status: exhausted ? 'dead_letter' : 'pending',
+    next_attempt_at: new Date(
+      now.getTime() + (exhausted ? 0 : retryDelayMs(attempts))
+    ).toISOString(),
+    last_error: lastError,
+    provider_response: null,
+    sent_at: null,
+    bounced_at: null,
+  };
+}
+
+/**
+ * Record a bounce or complaint and suppress the address when it calls for it
+ * Hard bounces and complaints suppress at once, soft bounces after
+ * SOFT_BOUNCE_LIMIT within SOFT_BOUNCE_WINDOW_MS.
+ */
+export async function recordEmailBounce(
+  sb: UntypedClient,
+  report: EmailBounceReport,
+  now: Date = new Date()
+): Promise<{ suppressed: boolean }> {
+  const email = normalizeEmail(report.email);
+  const detail = report.detail?.slice(0, MAX_ERROR_LENGTH) ?? null;
+
+  let messageRowId: string | null = null;
+  const messageId = report.messageId?.replace(/^<|>$/g, '');
+  if (messageId) {
+    const { data: message } = await sb
+      .from('email_messages')
+      .select('id')
+      .eq('message_id', messageId)
+      .maybeSingle();
+    messageRowId = message?.id ?? null;
+  }
+
+  const { error: bounceError } = await sb.from('email_bounces').insert({
+    email,
+    email_message_id: messageRowId,
+    kind: report.kind,
+    detail,
+  });
+
+  if (bounceError) {
+    throw new Error(`Failed to record email bounce: ${bounceError.message}`);
+  }
+
+  if (messageRowId && report.kind !== 'soft') {
+    await sb
+      .from('email_messages')
+      .update({ status: 'bounced', bounced_at: now.toISOString(), last_error: detail })
+      .eq('id', messageRowId)
+      .eq('status', 'sent');
+  }
+
+  let reason: 'hard_bounce' | 'complaint' | 'soft_bounces' | null =
+    report.kind === 'hard' ? 'hard_bounce' : report.kind === 'complaint' ? 'complaint' : null;
+
+  if (report.kind === 'soft') {
+    const { count } = await sb
+      .from('email_bounces')
+      .select('id', { count: 'exact', head: true })
+      .eq('email', email)
+      .eq('kind', 'soft')
+      .gte('created_at', new Date(now.getTime() - SOFT_BOUNCE_WINDOW_MS).toISOString());
+    if ((count ?? 0) >= SOFT_BOUNCE_LIMIT) reason = 'soft_bounces';
+  }
+
+  if (!reason) return { suppressed: false };
+
+  const { error: suppressError } = await sb
+    .from('email_suppressions')
+    .upsert({ email, reason, detail }, { onConflict: 'email', ignoreDuplicates: true });
+
+  if (suppressError) {
+    throw new Error(`Failed to suppress email address: ${suppressError.message}`);
+  }
+  return { suppressed: true };
+}
+
+/**
+ * Turn due email-channel notification deliveries into queued messages
+ * Deliveries move to 'sending'; recipients without an address are skipped.
+ */
+export async function queueNotificationEmails(
+  sb: UntypedClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<number> {
+  const now = options.now ?? new Date();
+
+  const { data: due, error } = await sb
+    .from('notification_deliveries')
+    .select('id')
+    .eq('channel', 'email')
+    .eq('status', 'queued')
+    .or(`not_before.is.null,not_before.lte.${now.toISOString()}`)
+    .order('created_at')
+    .limit(options.limit ?? NOTIFICATION_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load email deliveries: ${error.message}`);
+  }
+  if (!due?.length) return 0;
+
+  // Only the rows this run moved out of 'queued' are ours to send
+  const { data: claimed, error: claimError } = await sb
+    .from('notification_deliveries')
+    .update({ status: 'sending', locked_at: now.toISOString() })
+    .in(
+      'id',
+      (due as { id: string }[]).map((row) => row.id)
+    )
+    .eq('status', 'queued')
+    .select('id, notification_id, parent_notification_id, user_id, parent_connection_id, category');
+
+  if (claimError) {
+    throw new Error(`Failed to claim email deliveries: ${claimError.message}`);
+  }
+
+  const deliveries = (claimed || []) as EmailNotificationDelivery[];
+  if (deliveries.length === 0) return 0;
+
+  const unique = (values: (string | null)[]) => [...new Set(values.filter(Boolean))] as string[];
+  const notificationIds = unique(deliveries.map((delivery) => delivery.notification_id));
+  const parentNotificationIds = unique(
+    deliveries.map((delivery) => delivery.parent_notification_id)
+  );
+  const userIds = unique(deliveries.map((delivery) => delivery.user_id));
+  const connectionIds = unique(deliveries.map((delivery) => delivery.parent_connection_id));
+  const none = { data: [], error: null };
+
+  const [notifications, parentNotifications, profiles, settings, connections] = await Promise.all([
+    notificationIds.length > 0
+      ? sb.from('notifications').select('id, title, message, link').in('id', notificationIds)
+      : none,
+    parentNotificationIds.length > 0
+      ? sb.from('parent_notifications').select('id, title, message').in('id', parentNotificationIds)
+      : none,
+    userIds.length > 0
+      ? sb.from('profiles').select('id, email, full_name').in('id', userIds)
+      : none,
+    userIds.length > 0
+      ? sb.from('notification_settings').select('user_id, email_locale').in('user_id', userIds)
+      : none,
+    connectionIds.length > 0
+      ? sb
+          .from('parent_connections')
+          .select('id, parent_email, parent_name, email_locale')
+          .in('id', connectionIds)
+      : none,
+  ]);
+
+  for (const result of [notifications, parentNotifications, profiles, settings, connections]) {
+    if (result.error) {
+      throw new Error(`Failed to load email recipients: ${result.error.message}`);
+    }
+  }
+
+  const byId = <T extends { id: string }>(rows: T[] | null) =>
+    new Map((rows || []).map((row) => [row.id, row]));
+  const notificationById = byId<{
+    id: string;
+    title: string;
+    message: string;
+    link: string | null;
+  }>(notifications.data);
+  const parentNotificationById = byId<{ id: string; title: string; message: string }>(
+    parentNotifications.data
+  );
+  const profileById = byId<{ id: string; email: string | null; full_name: string | null }>(
+    profiles.data
+  );
+  const connectionById = byId<{
+    id: string;
+    parent_email: string;
+    parent_name: string;
+    email_locale: EmailLocale;
+  }>(connections.data);
+  const localeByUser = new Map<string, EmailLocale>(
+    ((settings.data || []) as { user_id: string; email_locale: EmailLocale }[]).map((row) => [
+      row.user_id,
+      row.email_locale,
+    ])
+  );
+
+  const requests: EmailRequest[] = [];
+  const skipped: { id: string; detail: string }[] = [];
+
+  for (const delivery of deliveries) {
+    const content = delivery.notification_id
+      ? notificationById.get(delivery.notification_id)
+      : delivery.parent_notification_id
+        ? parentNotificationById.get(delivery.parent_notification_id)
+        : undefined;
+    const profile = delivery.user_id ? profileById.get(delivery.user_id) : undefined;
+    const connection = delivery.parent_connection_id
+      ? connectionById.get(delivery.parent_connection_id)
+      : undefined;
+    const to = profile?.email ?? connection?.parent_email;
+
+    if (!content) {
+      skipped.push({ id: delivery.id, detail: 'ไม่พบการแจ้งเตือน' });
+      continue;
+    }
+    if (!to) {
+      skipped.push({ id: delivery.id, detail: 'ไม่มีอีเมลผู้รับ' });
+      continue;
+    }
+
+    const recipientName = profile?.full_name || connection?.parent_name || to;
+    const link = delivery.notification_id
+      ? notificationById.get(delivery.notification_id)?.link
+      : null;
+    const url = emailLink(connection ? '/parent/dashboard' : link || '/dashboard');
+    const isReport = delivery.category === 'report_published';
+
+    requests.push({
+      template: isReport ? 'progress_report_published' : 'notification',
+      to,
+      toName: profile?.full_name ?? connection?.parent_name ?? null,
+      locale:
+        connection?.email_locale ?? (delivery.user_id ? localeByUser.get(delivery.user_id) : null),
+      variables: isReport
+        ? { recipientName, title: content.title, message: content.message, reportUrl: url }
+        : { recipientName, title: content.title, message: content.message, url },
+      userId: delivery.user_id,
+      parentConnectionId: delivery.parent_connection_id,
+      notificationDeliveryId: delivery.id,
+    });
+  }
+
+  const suppressed = await loadSuppressed(
+    sb,
+    requests.map((request) => request.to)
+  );
+  const rows = requests.map((request) =>
+    buildMessageRow(request, suppressed.has(normalizeEmail(request.to)))
+  );
+
+  if (rows.length > 0) {
+    const { error: insertError } = await sb
+      .from('email_messages')
+      .upsert(rows, { onConflict: 'notification_delivery_id', ignoreDuplicates: true });
+
+    if (insertError) {
+      // Back to the queue for the next run
+      await sb
+        .from('notification_deliveries')
+        .update({ status: 'queued', locked_at: null })
+        .in(
+          'id',
+          deliveries.map((delivery) => delivery.id)
+        )
+        .eq('status', 'sending');
+      throw new Error(`Failed to queue notification emails: ${insertError.message}`);
+    }
+  }
+
+  for (const row of rows.filter((candidate) => candidate.status === 'suppressed')) {
+    skipped.push({ id: row.notification_delivery_id!, detail: 'อีเมลผู้รับถูกระงับ (ตีกลับ)' });
+  }
+
+  for (const { id, detail } of skipped) {
+    const { error: skipError } = await sb
+      .from('notification_deliveries')
+      .update({ status: 'skipped', detail, locked_at: null })
+      .eq('id', id)
+      .eq('status', 'sending');
+
+    if (skipError) {
+      console.error(`Failed to record email delivery ${id}:`, skipError);
+    }
+  }
+
+  return rows.length - rows.filter((row) => row.status === 'suppressed').length;
+}
+
+/**
+ * Mirror a finished message onto its notification delivery (and the parent
+ * notification's own delivery status)
+ */
+async function finishNotificationDelivery(
+  sb: UntypedClient,
+  deliveryId: string,
+  outcome: Pick<EmailOutcome, 'status' | 'last_error'>,
+  now: Date
+): Promise<void> {
+  const delivered = outcome.status === 'sent';
+  const { data, error } = await sb
+    .from('notification_deliveries')
+    .update({
+      status: delivered ? 'delivered' : 'failed',
+      delivered_at: delivered ? now.toISOString() : null,
+      detail: delivered ? null : outcome.last_error,
+      locked_at: null,
+    })
+    .eq('id', deliveryId)
+    .eq('status', 'sending')
+    .select('parent_notification_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to record email delivery ${deliveryId}:`, error);
+    return;
+  }
+
+  if (data?.parent_notification_id) {
+    await sb
+      .from('parent_notifications')
+      .update({
+        delivery_status: delivered ? 'sent' : 'failed',
+        sent_at: delivered ? now.toISOString() : undefined,
+        error_message: delivered ? null : outcome.last_error,
+      })
+      .eq('id', data.parent_notification_id);
+  }
+}
+
+/**
+ * Queue email from notification deliveries, then send the due messages and
+ * record each attempt
+ * Sends nothing when no transport or sender is configured, leaving the queue
+ * for a later run.
+ */
+export async function dispatchEmailMessages(
+  sb: UntypedClient,
+  options: {
+    limit?: number;
+    now?: Date;
+    transport?: EmailTransport | null;
+    sender?: EmailAddress | null;
+  } = {}
+): Promise<EmailDispatchSummary> {
+  const summary: EmailDispatchSummary = {
+    fromNotifications: 0,
+    claimed: 0,
+    sent: 0,
+    retried: 0,
+    bounced: 0,
+    suppressed: 0,
+    deadLettered: 0,
+  };
+
+  summary.fromNotifications = await queueNotificationEmails(sb, { now: options.now });
+
+  const transport = options.transport === undefined ? getEmailTransport() : options.transport;
+  const sender = options.sender === undefined ? getEmailSender() : options.sender;
+  if (!transport || !sender) return summary;
+
+  const { data: rows, error } = await sb.rpc('claim_email_messages', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim email messages: ${error.message}`);
+  }
+
+  const messages = (rows || []) as EmailMessage[];
+  summary.claimed = messages.length;
+  if (messages.length === 0) return summary;
+
+  // Addresses may have bounced since their messages were queued
+  const suppressed = await loadSuppressed(
+    sb,
+    messages.map((message) => message.to_email)
+  );
+
+  for (const message of messages) {
+    const now = options.now ?? new Date();
+    let outcome: EmailOutcome;
+
+    if (suppressed.has(normalizeEmail(message.to_email))) {
+      outcome = {
+        status: 'suppressed',
+        attempts: message.attempts,
+        next_attempt_at: now.toISOString(),
+        response_code: null,
+        last_error: 'Address is on the suppression list',
+        message_id: message.message_id,
+        provider_response: null,
+        sent_at: null,
+        bounced_at: null,
+        locked_at: null,
+      };
+    } else {
+      let result: EmailSendResult;
+      try {
+        const rendered = renderEmail(
+          message.template,
+          message.locale,
+          message.variables,
+          message.template_version
+        );
+        result = await transport.send({
+          from: sender,
+          to: { email: message.to_email, name: message.to_name },
+          subject: rendered.subject,
+          text: rendered.text,
+          html: rendered.html,
+          messageId: message.message_id ?? createMessageId(sender, message.id),
+        });
+      } catch (renderError) {
+        // A template that cannot be rendered will not render on a retry either
+        result = {
+          accepted: false,
+          code: null,
+          permanent: true,
+          recipientRejected: false,
+          messageId: null,
+          response: null,
+          error: renderError instanceof Error ? renderError.message : String(renderError),
+        };
+      }
+      outcome = planEmailOutcome(message.attempts, result, now);
+    }
+
+    const { error: updateError } = await sb
+      .from('email_messages')
+      .update(outcome)
+      .eq('id', message.id)
+      .eq('status', 'processing');
+
+    if (updateError) {
+      console.error(`Failed to record email message ${message.id}:`, updateError);
+      continue;
+    }
+
+    if (outcome.status === 'sent') summary.sent++;
+    else if (outcome.status === 'bounced') summary.bounced++;
+    else if (outcome.status === 'suppressed') summary.suppressed++;
+    else if (outcome.status === 'dead_letter') summary.deadLettered++;
+    else summary.retried++;
+
+    if (outcome.status === 'bounced') {
+      try {
+        await recordEmailBounce(
+          sb,
+          {
+            email: message.to_email,
+            kind: 'hard',
+            messageId: outcome.message_id,
+            detail: outcome.last_error,
+          },
+          now
+        );
+        suppressed.add(normalizeEmail(message.to_email));
+      } catch (bounceError) {
+        console.error(`Failed to record bounce for email message ${message.id}:`, bounceError);
+      }
+    }
+
+    if (message.notification_delivery_id && outcome.status !== 'pending') {
+      await finishNotificationDelivery(sb, message.notification_delivery_id, outcome, now);
+    }
+  }
+
+  return summary;
+}
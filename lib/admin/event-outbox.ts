@@ -0,0 +1,192 @@
+/**
+ * Event Outbox Dispatcher
+ *
+ * Claims due events from event_outbox, checks each one against its schema,
+ * hands it to the in-process subscribers registered for its type and records
+ * the outcome: delivered, retried later with backoff, or dead-lettered once it
+ * runs out of attempts. Events that fail validation are dead-lettered without
+ * being delivered.
+ *
+ * Runs from the /api/cron/dispatch-events job with the service-role client.
+ * Overlapping runs are safe: claims use FOR UPDATE SKIP LOCKED, and a claim
+ * abandoned by a crashed run is picked up again after the lock timeout.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { broadcastEvent, type EventEnvelope } from '@/lib/utils/event-publisher';
+import {
+  getSubscribers,
+  planDeliveryOutcome,
+  planInvalidEventOutcome,
+  subscribeToEvents,
+  type DeliveryFailure,
+  type DeliveryOutcome,
+  type OutboxStatus,
+} from '@/lib/utils/event-dispatcher';
+import { validateEvent } from '@/lib/utils/event-validator';
+import { WEBHOOK_SUBSCRIBER, enqueueWebhookDeliveries } from '@/lib/admin/webhook-delivery';
+import {
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_SUBSCRIBER,
+  createEventNotifications,
+} from '@/lib/admin/notification-router';
+
+/** Events claimed per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 50;
+
+export const REALTIME_SUBSCRIBER = 'realtime-broadcast';
+
+export interface OutboxRow {
+  id: string;
+  event_type: string;
+  payload: EventEnvelope<unknown>;
+  correlation_id: string;
+  status: OutboxStatus;
+  attempts: number;
+  delivered_to: string[];
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface DispatchSummary {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+let builtInsRegistered = false;
+
+/**
+ * Subscribers every deployment has; feature modules register their own
+ * with subscribeToEvents
+ */
+export function registerBuiltInSubscribers(): void {
+  if (builtInsRegistered) return;
+  builtInsRegistered = true;
+
+  subscribeToEvents(REALTIME_SUBSCRIBER, '*', broadcastEvent);
+  subscribeToEvents(WEBHOOK_SUBSCRIBER, '*', async (event) => {
+    await enqueueWebhookDeliveries(createAdminClient(), event);
+  });
+  subscribeToEvents(NOTIFICATION_SUBSCRIBER, NOTIFICATION_EVENT_TYPES, async (event) => {
+    await createEventNotifications(createAdminClient(), event);
+  });
+}
+
+/**
+ * Deliver one claimed event to the subscribers that haven't handled it yet
+ */
+async function deliver(
+  row: OutboxRow
+): Promise<{ succeeded: string[]; failures: DeliveryFailure[] }> {
+  const pending = getSubscribers(row.event_type).filter(
+    (subscriber) => !row.delivered_to.includes(subscriber.name)
+  );
+
+  const results = await Promise.allSettled(
+    pending.map(async (subscriber) => subscriber.handler(row.payload))
+  );
+
+  const succeeded: string[] = [];
+  const failures: DeliveryFailure[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      succeeded.push(pending[index].name);
+    } else {
+      const reason = result.reason;
+      failures.push({
+        subscriber: pending[index].name,
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+
+  return { succeeded, failures };
+}
+
+/**
+ * Run one dispatcher pass over the due events
+ */
+export async function dispatchOutboxEvents(
+  sb: UntypedClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<DispatchSummary> {
+  registerBuiltInSubscribers();
+
+  const summary: DispatchSummary = { claimed: 0, delivered: 0, retried: 0, deadLettered: 0 };
+
+  const { data: rows, error } = await sb.rpc('claim_outbox_events', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim outbox events: ${error.message}`);
+  }
+
+  summary.claimed = (rows || []).length;
+
+  for (const row of (rows || []) as OutboxRow[]) {
+    const validation = validateEvent(row.payload);
+    let outcome: DeliveryOutcome;
+    if (validation.valid) {
+      const { succeeded, failures } = await deliver(row);
+      outcome = planDeliveryOutcome(row, succeeded, failures, options.now);
+    } else {
+      outcome = planInvalidEventOutcome(row, validation.errors, options.now);
+    }
+
+    const { error: updateError } = await sb
+      .from('event_outbox')
+      .update(outcome)
+      .eq('id', row.id)
+      .eq('status', 'processing');
+
+    if (updateError) {
+      // The claim times out and the event is retried; subscribers must be idempotent
+      console.error(`Failed to record delivery of event ${row.id}:`, updateError);
+      continue;
+    }
+
+    if (outcome.status === 'delivered') summary.delivered++;
+    else if (outcome.status === 'dead_letter') summary.deadLettered++;
+    else summary.retried++;
+
+    if (outcome.status === 'dead_letter') {
+      console.error(
+        `Event ${row.id} (${row.event_type}) dead-lettered after ${outcome.attempts} attempts: ${outcome.last_error}`
+      );
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Put dead-lettered events back in the queue with a fresh set of attempts
+ * @returns Number of events requeued
+ */
+export async function requeueDeadLetters(sb: UntypedClient, eventIds: string[]): Promise<number> {
+  if (eventIds.length === 0) return 0;
+
+  const { data, error } = await sb
+    .from('event_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .in('id', eventIds)
+    .eq('status', 'dead_letter')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to requeue events: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
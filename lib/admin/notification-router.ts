@@ -0,0 +1,490 @@
+/**
+ * Notification Router
+ *
+ * Every notifications and parent_notifications row is queued as one
+ * notification_deliveries row per channel open to its recipient (the
+ * queue_notification_deliveries trigger). The dispatch job routes those rows
+ * with the recipient's channel preferences and quiet hours: in-app is
+ * recorded as delivered, push fans out to push_deliveries (held until quiet
+ * hours end), email rows are queued for lib/admin/email-delivery.ts (also
+ * held until quiet hours end) and digest rows for the periodic summary.
+ *
+ * The "notifications" outbox subscriber also creates the notifications that
+ * come from events rather than database triggers: cancelled sessions and
+ * published progress reports.
+ *
+ * Runs with the service-role client.
+ */
+
+import { EVENT_TYPES, type EventEnvelope } from '@/lib/utils/event-publisher';
+import {
+  categoryForNotificationType,
+  planNotificationRoute,
+  resolveChannelPreferences,
+  type ChannelDecision,
+  type ChannelPreferences,
+  type NotificationCategory,
+  type NotificationChannel,
+} from '@/lib/utils/notification-routing';
+import { loadQuietHours, type PushPayload } from '@/lib/admin/push-delivery';
+import type {
+  PerformanceReportPublishedV2Data,
+  TrainingSessionCancelledV1Data,
+} from '@/types/events.generated';
+
+/** Deliveries routed per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 200;
+
+/** Dates in event notifications are shown in the club's time zone */
+const CLUB_TIMEZONE = 'Asia/Bangkok';
+
+export const NOTIFICATION_SUBSCRIBER = 'notifications';
+
+export const NOTIFICATION_EVENT_TYPES: string[] = [
+  EVENT_TYPES.sessionCancelled,
+  EVENT_TYPES.reportPublished,
+];
+
+export type NotificationDeliveryStatus =
+  | 'pending'
+  | 'processing'
+  | 'queued'
+  | 'delivered'
+  | 'skipped'
+  | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  notification_id: string | null;
+  parent_notification_id: string | null;
+  user_id: string | null;
+  parent_connection_id: string | null;
+  category: NotificationCategory | null;
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  not_before: string | null;
+  detail: string | null;
+  created_at: string;
+  routed_at: string | null;
+  delivered_at: string | null;
+}
+
+export interface RouteSummary {
+  claimed: number;
+  delivered: number;
+  queued: number;
+  skipped: number;
+  /** push_deliveries rows created, one per device */
+  pushQueued: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  in_app: boolean;
+}
+
+interface PreferenceRow extends ChannelPreferences {
+  user_id: string | null;
+  parent_connection_id: string | null;
+  category: NotificationCategory;
+}
+
+function formatClubDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('th-TH', {
+    timeZone: CLUB_TIMEZONE,
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatClubDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('th-TH', {
+    timeZone: 'UTC',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Notify the athletes (and their verified parents) of a cancelled session
+ */
+async function notifySessionCancelled(
+  sb: UntypedClient,
+  event: EventEnvelope<TrainingSessionCancelledV1Data>
+): Promise<number> {
+  const data = event.data;
+
+  let query = sb.from('athletes').select('id, user_id');
+  query = data.affectedAthletes?.length
+    ? query.in('id', data.affectedAthletes)
+    : query.eq('club_id', data.clubId);
+  const { data: athletes, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load athletes: ${error.message}`);
+  }
+
+  const recipients = (athletes || []) as { id: string; user_id: string | null }[];
+  if (recipients.length === 0) return 0;
+
+  const when = data.originalScheduledAt
+    ? `การฝึกซ้อมวันที่ ${formatClubDateTime(data.originalScheduledAt)} ถูกยกเลิก`
+    : 'การฝึกซ้อมถูกยกเลิก';
+  const message = data.cancellationReason ? `${when} เหตุผล: ${data.cancellationReason}` : when;
+
+  const athleteRows = recipients
+    .filter((athlete) => athlete.user_id)
+    .map((athlete) => ({
+      user_id: athlete.user_id,
+      type: 'schedule_cancelled',
+      title: 'ยกเลิกการฝึกซ้อม',
+      message,
+      link: '/dashboard/athlete/schedule',
+      event_id: event.eventId,
+    }));
+
+  await insertNotifications(sb, athleteRows);
+  const parentCount = await insertParentNotifications(
+    sb,
+    event.eventId,
+    recipients.map((athlete) => athlete.id),
+    {
+      type: 'session',
+      title: 'ยกเลิกการฝึกซ้อมของบุตรหลาน',
+      message,
+      data: {
+        session_id: data.sessionId,
+        cancelled_at: data.cancelledAt,
+        reason: data.cancellationReason ?? null,
+      },
+    }
+  );
+
+  return athleteRows.length + parentCount;
+}
+
+/**
+ * Tell the athlete (and their verified parents) a progress report is out
+ */
+async function notifyReportPublished(
+  sb: UntypedClient,
+  event: EventEnvelope<PerformanceReportPublishedV2Data>
+): Promise<number> {
+  const data = event.data;
+
+  const { data: athlete, error } = await sb
+    .from('athletes')
+    .select('id, user_id, first_name, last_name')
+    .eq('id', data.athleteId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load athlete: ${error.message}`);
+  }
+  if (!athlete) return 0;
+
+  const period = formatClubDate(data.reportDate);
+  const athleteRows = athlete.user_id
+    ? [
+        {
+          user_id: athlete.user_id,
+          type: 'report_published',
+          title: 'รายงานความก้าวหน้าใหม่',
+          message: `โค้ชเผยแพร่รายงานความก้าวหน้าของคุณ ถึงวันที่ ${period}`,
+          link: '/dashboard/athlete/progress',
+          event_id: event.eventId,
+        },
+      ]
+    : [];
+
+  await insertNotifications(sb, athleteRows);
+  const parentCount = await insertParentNotifications(sb, event.eventId, [athlete.id], {
+    type: 'report',
+    title: 'รายงานความก้าวหน้าของบุตรหลาน',
+    message: `รายงานความก้าวหน้าของ ${athlete.first_name} ${athlete.last_name} ถึงวันที่ ${period} พร้อมให้ดูแล้ว`,
+    data: { report_id: data.reportId, report_date: data.reportDate },
+  });
+
+  return athleteRows.length + parentCount;
+}
+
+async function insertNotifications(
+  sb: UntypedClient,
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error } = await sb
+    .from('notifications')
+    .upsert(rows, { onConflict: 'event_id,user_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to create notifications: ${error.message}`);
+  }
+}
+
+async function insertParentNotifications(
+  sb: UntypedClient,
+  eventId: string,
+  athleteIds: string[],
+  notification: { type: string; title: string; message: string; data: Record<string, unknown> }
+): Promise<number> {
+  const { data: connections, error } = await sb
+    .from('parent_connections')
+    .select('id, athlete_id')
+    .in('athlete_id', athleteIds)
+    .eq('is_verified', true)
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load parent connections: ${error.message}`);
+  }
+
+  const rows = ((connections || []) as { id: string; athlete_id: string }[]).map((connection) => ({
+    parent_connection_id: connection.id,
+    athlete_id: connection.athlete_id,
+    ...notification,
+    event_id: eventId,
+  }));
+  if (rows.length === 0) return 0;
+
+  const { error: insertError } = await sb
+    .from('parent_notifications')
+    .upsert(rows, { onConflict: 'event_id,parent_connection_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to create parent notifications: ${insertError.message}`);
+  }
+  return rows.length;
+}
+
+/**
+ * Create the notifications an outbox event calls for
+ * Idempotent: a redelivered event finds its notifications already there.
+ * @returns Notifications created (athletes and parents)
+ */
+export async function createEventNotifications(
+  sb: UntypedClient,
+  event: EventEnvelope<unknown>
+): Promise<number> {
+  switch (event.eventType) {
+    case EVENT_TYPES.sessionCancelled:
+      return notifySessionCancelled(sb, event as EventEnvelope<TrainingSessionCancelledV1Data>);
+    case EVENT_TYPES.reportPublished:
+      return notifyReportPublished(sb, event as EventEnvelope<PerformanceReportPublishedV2Data>);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Saved channel preferences keyed by `${recipientId}:${category}`
+ */
+async function loadPreferences(
+  sb: UntypedClient,
+  column: 'user_id' | 'parent_connection_id',
+  ids: string[]
+): Promise<Map<string, PreferenceRow>> {
+  const byKey = new Map<string, PreferenceRow>();
+  if (ids.length === 0) return byKey;
+
+  const { data, error } = await sb
+    .from('notification_channel_preferences')
+    .select('user_id, parent_connection_id, category, in_app, push, email, digest')
+    .in(column, ids);
+
+  if (error) {
+    throw new Error(`Failed to load channel preferences: ${error.message}`);
+  }
+
+  for (const row of (data || []) as PreferenceRow[]) {
+    byKey.set(`${row[column]}:${row.category}`, row);
+  }
+  return byKey;
+}
+
+/**
+ * Route the pending deliveries and record each channel's decision
+ */
+export async function routeNotificationDeliveries(
+  sb: UntypedClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<RouteSummary> {
+  const summary: RouteSummary = { claimed: 0, delivered: 0, queued: 0, skipped: 0, pushQueued: 0 };
+
+  const { data: rows, error } = await sb.rpc('claim_notification_deliveries', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim notification deliveries: ${error.message}`);
+  }
+
+  const deliveries = (rows || []) as NotificationDelivery[];
+  summary.claimed = deliveries.length;
+  if (deliveries.length === 0) return summary;
+
+  const unique = (values: (string | null)[]) => [...new Set(values.filter(Boolean))] as string[];
+  const notificationIds = unique(deliveries.map((delivery) => delivery.notification_id));
+  const userIds = unique(deliveries.map((delivery) => delivery.user_id));
+  const connectionIds = unique(deliveries.map((delivery) => delivery.parent_connection_id));
+
+  const [notificationsResult, subscriptionsResult, userPreferences, parentPreferences, quietHours] =
+    await Promise.all([
+      notificationIds.length > 0
+        ? sb
+            .from('notifications')
+            .select('id, user_id, type, title, message, link, in_app')
+            .in('id', notificationIds)
+        : { data: [], error: null },
+      userIds.length > 0
+        ? sb.from('push_subscriptions').select('id, user_id').in('user_id', userIds)
+        : { data: [], error: null },
+      loadPreferences(sb, 'user_id', userIds),
+      loadPreferences(sb, 'parent_connection_id', connectionIds),
+      loadQuietHours(sb, userIds),
+    ]);
+
+  if (notificationsResult.error) {
+    throw new Error(`Failed to load notifications: ${notificationsResult.error.message}`);
+  }
+  if (subscriptionsResult.error) {
+    throw new Error(`Failed to load push subscriptions: ${subscriptionsResult.error.message}`);
+  }
+
+  const notificationById = new Map<string, NotificationRow>(
+    ((notificationsResult.data || []) as NotificationRow[]).map((row) => [row.id, row])
+  );
+  const subscriptionsByUser = new Map<string, string[]>();
+  for (const row of (subscriptionsResult.data || []) as { id: string; user_id: string }[]) {
+    subscriptionsByUser.set(row.user_id, [...(subscriptionsByUser.get(row.user_id) ?? []), row.id]);
+  }
+
+  for (const delivery of deliveries) {
+    const now = options.now ?? new Date();
+    const notification = delivery.notification_id
+      ? notificationById.get(delivery.notification_id)
+      : undefined;
+
+    let decision: ChannelDecision | undefined;
+
+    if (delivery.user_id) {
+      if (!notification) {
+        decision = {
+          channel: delivery.channel,
+          status: 'skipped',
+          notBefore: null,
+          detail: 'ไม่พบการแจ้งเตือน',
+        };
+      } else {
+        const category = categoryForNotificationType(notification.type);
+        const saved = category ? userPreferences.get(`${delivery.user_id}:${category}`) : undefined;
+        // The inbox decision was made when the row was inserted (set_notification_in_app)
+        const preferences = {
+          ...resolveChannelPreferences(category, saved),
+          in_app: notification.in_app,
+        };
+        decision = planNotificationRoute(
+          'user',
+          preferences,
+          quietHours.get(delivery.user_id) ?? null,
+          now
+        ).find((planned) => planned.channel === delivery.channel);
+      }
+    } else if (delivery.parent_connection_id) {
+      const saved = delivery.category
+        ? parentPreferences.get(`${delivery.parent_connection_id}:${delivery.category}`)
+        : undefined;
+      decision = planNotificationRoute(
+        'parent',
+        resolveChannelPreferences(delivery.category, saved),
+        null,
+        now
+      ).find((planned) => planned.channel === delivery.channel);
+    }
+
+    decision ??= {
+      channel: delivery.channel,
+      status: 'skipped',
+      notBefore: null,
+      detail: 'ผู้รับไม่มีช่องทางนี้',
+    };
+
+    if (decision.channel === 'push' && decision.status === 'queued' && notification) {
+      const subscriptionIds = subscriptionsByUser.get(notification.user_id) ?? [];
+
+      if (subscriptionIds.length === 0) {
+        decision = { ...decision, status: 'skipped', detail: 'ไม่มีอุปกรณ์ที่เปิดรับ push' };
+      } else {
+        // Shortened so the encrypted payload stays within the push services' 4 KB limit
+        const sendAt = (decision.notBefore ?? now).toISOString();
+        const payload: PushPayload = {
+          notificationId: notification.id,
+          type: notification.type,
+          title: notification.title.slice(0, 200),
+          body: notification.message.slice(0, 1000),
+          url: notification.link || '/dashboard',
+        };
+        const { error: pushError } = await sb.from('push_deliveries').upsert(
+          subscriptionIds.map((subscriptionId) => ({
+            notification_id: notification.id,
+            subscription_id: subscriptionId,
+            user_id: notification.user_id,
+            payload,
+            next_attempt_at: sendAt,
+          })),
+          { onConflict: 'notification_id,subscription_id', ignoreDuplicates: true }
+        );
+
+        // Left in processing; the claim picks it up again after the lock timeout
+        if (pushError) {
+          console.error(`Failed to queue push for delivery ${delivery.id}:`, pushError);
+          continue;
+        }
+        summary.pushQueued += subscriptionIds.length;
+        decision = {
+          ...decision,
+          detail: [decision.detail, `${subscriptionIds.length} อุปกรณ์`]
+            .filter(Boolean)
+            .join(' · '),
+        };
+      }
+    }
+
+    const { error: updateError } = await sb
+      .from('notification_deliveries')
+      .update({
+        status: decision.status,
+        not_before: decision.notBefore?.toISOString() ?? null,
+        detail: decision.detail,
+        routed_at: now.toISOString(),
+        delivered_at: decision.status === 'delivered' ? now.toISOString() : null,
+        locked_at: null,
+      })
+      .eq('id', delivery.id)
+      .eq('status', 'processing');
+
+    if (updateError) {
+      console.error(`Failed to record notification delivery ${delivery.id}:`, updateError);
+      continue;
+    }
+
+    if (decision.status === 'delivered') summary.delivered++;
+    else if (decision.status === 'queued') summary.queued++;
+    else summary.skipped++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,495 @@
+/**
+ * Parent Report Generator
+ *
+ * Builds a parent_reports row for every verified, active parent connection
+ * and each completed period: last week (Monday to Sunday) and last month, in
+ * the club's time zone. Statistics come from the athlete's attendance, test
+ * results, goals and coach feedback (lib/utils/parent-reports.ts).
+ *
+ * Delivery follows the connection's preferences: a parent whose
+ * report_frequency matches the report gets a 'report' parent notification,
+ * which the router sends on the channels they chose for the report_published
+ * category, with the sections they switched off (notify_attendance,
+ * notify_performance, notify_goals) left out of the summary. Notifications
+ * queued on the digest channel are collected into the report the parent
+ * receives (the weekly one when they receive none).
+ *
+ * Safe to run repeatedly: a connection's report for a period is only
+ * created once (parent_reports_connection_period_key), and only a newly
+ * created report is delivered.
+ *
+ * Runs with the service-role client.
+ */
+
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  ATTENDANCE_POLICY_SETTING_KEY,
+  resolveAttendancePolicies,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+import {
+  PARENT_REPORT_TYPES,
+  PARENT_REPORT_TYPE_LABELS,
+  buildParentReportStats,
+  digestReportType,
+  latestCompletedPeriod,
+  summarizeParentReport,
+  type ParentReportType,
+  type ReportAttendanceRow,
+  type ReportDigestItem,
+  type ReportFrequency,
+  type ReportPerformanceRow,
+  type ReportPeriod,
+} from '@/lib/utils/parent-reports';
+
+/** Connections reported on per report type and run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParentReportRunSummary {
+  periods: Partial<Record<ParentReportType, ReportPeriod>>;
+  generated: number;
+  /** Reports the parent was notified of */
+  notified: number;
+  /** Digest notifications collected into reports */
+  digestItems: number;
+  /** Connections whose report could not be built this run */
+  failed: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+interface ReportConnection {
+  id: string;
+  athlete_id: string;
+  report_frequency: ReportFrequency;
+  notify_attendance: boolean;
+  notify_performance: boolean;
+  notify_goals: boolean;
+  athlete: { first_name: string; last_name: string; club_id: string | null } | null;
+}
+
+interface AthleteActivity {
+  attendance: ReportAttendanceRow[];
+  leaveRequestedAt: string[];
+  performance: ReportPerformanceRow[];
+  goals: {
+    title: string;
+    status: string;
+    progress_percentage: number | null;
+    completed_at: string | null;
+  }[];
+  coachComments: { date: string; text: string }[];
+}
+
+interface CollectedDigest {
+  items: ReportDigestItem[];
+  /** Deliveries collected into the report */
+  included: string[];
+  /** Deliveries of earlier report notifications, which the report history already shows */
+  skipped: string[];
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Attendance policy of each club, for counting late arrivals
+ */
+async function loadAttendancePolicies(
+  sb: UntypedClient
+): Promise<(clubId: string | null) => AttendancePolicy> {
+  const { data, error } = await sb
+    .from('system_settings')
+    .select('setting_key, setting_value')
+    .like('setting_key', `${ATTENDANCE_POLICY_SETTING_KEY}%`);
+
+  if (error) {
+    console.error('Failed to load attendance policies, using defaults:', error);
+    return () => DEFAULT_ATTENDANCE_POLICY;
+  }
+
+  const { defaultPolicy, clubPolicies } = resolveAttendancePolicies(
+    (data || []) as { setting_key: string; setting_value: unknown }[]
+  );
+  return (clubId) => (clubId && clubPolicies[clubId]) || defaultPolicy;
+}
+
+/**
+ * What an athlete did in a period, plus the earlier results new tests are
+ * compared with
+ * Timestamps are queried a day either side of the period; the report
+ * builder keeps the ones on the period's dates in the club's time zone.
+ */
+async function loadAthleteActivity(
+  sb: UntypedClient,
+  athleteId: string,
+  period: ReportPeriod
+): Promise<AthleteActivity> {
+  const from = shiftDate(period.start, -1);
+  const until = shiftDate(period.end, 2);
+
+  const [attendance, leaveRequests, tests, goals, progressReports] = await Promise.all([
+    sb
+      .from('attendance')
+      .select('status, coach_feedback, training_sessions!inner(session_date)')
+      .eq('athlete_id', athleteId)
+      .gte('training_sessions.session_date', period.start)
+      .lte('training_sessions.session_date', period.end),
+    sb
+      .from('leave_requests')
+      .select('requested_at')
+      .eq('athlete_id', athleteId)
+      .gte('requested_at', from)
+      .lt('requested_at', until),
+    sb
+      .from('performance_records')
+      .select('test_name, score, unit, test_date, coach_notes')
+      .eq('athlete_id', athleteId)
+      .gte('test_date', period.start)
+      .lte('test_date', period.end),
+    sb
+      .from('athlete_goals')
+      .select('title, status, progress_percentage, completed_at')
+      .eq('athlete_id', athleteId)
+      .in('status', ['active', 'completed']),
+    sb
+      .from('progress_reports')
+      .select('coach_comments, published_at')
+      .eq('athlete_id', athleteId)
+      .eq('status', 'published')
+      .gte('published_at', from)
+      .lt('published_at', until),
+  ]);
+
+  for (const result of [attendance, leaveRequests, tests, goals, progressReports]) {
+    if (result.error) {
+      throw new Error(`Failed to load athlete activity: ${result.error.message}`);
+    }
+  }
+
+  const periodTests = (tests.data || []) as ReportPerformanceRow[];
+  const testNames = [...new Set(periodTests.map((test) => test.test_name))];
+  let earlierTests: ReportPerformanceRow[] = [];
+  if (testNames.length > 0) {
+    const { data, error } = await sb
+      .from('performance_records')
+      .select('test_name, score, unit, test_date, coach_notes')
+      .eq('athlete_id', athleteId)
+      .in('test_name', testNames)
+      .lt('test_date', period.start)
+      .order('test_date', { ascending: false })
+      .limit(testNames.length * 5);
+
+    if (error) {
+      throw new Error(`Failed to load earlier test results: ${error.message}`);
+    }
+    earlierTests = (data || []) as ReportPerformanceRow[];
+  }
+
+  return {
+    attendance: (
+      (attendance.data || []) as {
+        status: string;
+        coach_feedback: string | null;
+        training_sessions: { session_date: string } | { session_date: string }[];
+      }[]
+    ).map((row) => ({
+      status: row.status,
+      coach_feedback: row.coach_feedback,
+      session_date: Array.isArray(row.training_sessions)
+        ? row.training_sessions[0]?.session_date
+        : row.training_sessions.session_date,
+    })),
+    leaveRequestedAt: ((leaveRequests.data || []) as { requested_at: string }[]).map(
+      (row) => row.requested_at
+    ),
+    performance: [...earlierTests, ...periodTests],
+    goals: goals.data || [],
+    coachComments: (
+      (progressReports.data || []) as { coach_comments: string | null; published_at: string }[]
+    )
+      .filter((report) => report.coach_comments)
+      .map((report) => ({ date: report.published_at, text: report.coach_comments! })),
+  };
+}
+
+/**
+ * The notifications queued for a connection's digest
+ */
+async function collectDigest(sb: UntypedClient, connectionId: string): Promise<CollectedDigest> {
+  const { data: deliveries, error } = await sb
+    .from('notification_deliveries')
+    .select('id, parent_notification_id')
+    .eq('parent_connection_id', connectionId)
+    .eq('channel', 'digest')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load digest deliveries: ${error.message}`);
+  }
+
+  const rows = (deliveries || []) as { id: string; parent_notification_id: string | null }[];
+  const notificationIds = rows
+    .map((row) => row.parent_notification_id)
+    .filter((id): id is string => Boolean(id));
+  if (notificationIds.length === 0) {
+    return { items: [], included: [], skipped: rows.map((row) => row.id) };
+  }
+
+  const { data: notifications, error: notificationsError } = await sb
+    .from('parent_notifications')
+    .select('id, title, message, data, created_at')
+    .in('id', notificationIds);
+
+  if (notificationsError) {
+    throw new Error(`Failed to load digest notifications: ${notificationsError.message}`);
+  }
+
+  const byId = new Map(
+    (
+      (notifications || []) as {
+        id: string;
+        title: string;
+        message: string;
+        data: Record<string, unknown> | null;
+        created_at: string;
+      }[]
+    ).map((notification) => [notification.id, notification])
+  );
+
+  const collected: CollectedDigest = { items: [], included: [], skipped: [] };
+  for (const row of rows) {
+    const notification = row.parent_notification_id
+      ? byId.get(row.parent_notification_id)
+      : undefined;
+    if (!notification || notification.data?.parent_report_id) {
+      collected.skipped.push(row.id);
+      continue;
+    }
+    collected.items.push({
+      title: notification.title,
+      message: notification.message,
+      created_at: notification.created_at,
+    });
+    collected.included.push(row.id);
+  }
+  return collected;
+}
+
+async function finishDigestDeliveries(
+  sb: UntypedClient,
+  digest: CollectedDigest,
+  reportId: string,
+  now: Date
+): Promise<void> {
+  const updates = [
+    digest.included.length > 0 &&
+      sb
+        .from('notification_deliveries')
+        .update({ status: 'delivered', delivered_at: now.toISOString(), detail: null })
+        .in('id', digest.included)
+        .eq('status', 'queued'),
+    digest.skipped.length > 0 &&
+      sb
+        .from('notification_deliveries')
+        .update({ status: 'skipped', detail: 'รายงานอยู่ในประวัติรายงานแล้ว' })
+        .in('id', digest.skipped)
+        .eq('status', 'queued'),
+  ].filter(Boolean);
+
+  for (const { error } of await Promise.all(updates)) {
+    if (error) {
+      console.error(`Failed to record digest deliveries for report ${reportId}:`, error);
+    }
+  }
+}
+
+/**
+ * Tell the parent a report is ready; the router delivers it on their channels
+ */
+async function notifyParent(
+  sb: UntypedClient,
+  connection: ReportConnection,
+  report: { id: string; period: ReportPeriod; type: ParentReportType },
+  summary: string,
+  now: Date
+): Promise<boolean> {
+  const athleteName = connection.athlete
+    ? `${connection.athlete.first_name} ${connection.athlete.last_name}`
+    : 'บุตรหลาน';
+
+  const { error } = await sb.from('parent_notifications').upsert(
+    {
+      parent_connection_id: connection.id,
+      athlete_id: connection.athlete_id,
+      type: 'report',
+      title: `รายงาน${PARENT_REPORT_TYPE_LABELS[report.type]}ของ ${athleteName}`,
+      message: summary || 'รายงานความก้าวหน้าพร้อมให้ดูแล้ว',
+      data: {
+        parent_report_id: report.id,
+        report_type: report.type,
+        period_start: report.period.start,
+        period_end: report.period.end,
+      },
+      event_id: report.id,
+    },
+    { onConflict: 'event_id,parent_connection_id', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error(`Failed to notify parent of report ${report.id}:`, error);
+    return false;
+  }
+
+  await sb.from('parent_reports').update({ sent_at: now.toISOString() }).eq('id', report.id);
+  return true;
+}
+
+/**
+ * Generate the reports of the latest completed periods that do not exist yet
+ */
+export async function generateParentReports(
+  sb: UntypedClient,
+  options: { now?: Date; types?: ParentReportType[]; limit?: number } = {}
+): Promise<ParentReportRunSummary> {
+  const now = options.now ?? new Date();
+  const summary: ParentReportRunSummary = {
+    periods: {},
+    generated: 0,
+    notified: 0,
+    digestItems: 0,
+    failed: 0,
+  };
+
+  const { data: connectionRows, error } = await sb
+    .from('parent_connections')
+    .select(
+      'id, athlete_id, report_frequency, notify_attendance, notify_performance, notify_goals, athlete:athletes(first_name, last_name, club_id)'
+    )
+    .eq('is_verified', true)
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load parent connections: ${error.message}`);
+  }
+
+  const connections = (connectionRows || []) as ReportConnection[];
+  if (connections.length === 0) return summary;
+
+  const policyFor = await loadAttendancePolicies(sb);
+
+  for (const type of options.types ?? PARENT_REPORT_TYPES) {
+    const period = latestCompletedPeriod(type, now);
+    summary.periods[type] = period;
+
+    const { data: existing, error: existingError } = await sb
+      .from('parent_reports')
+      .select('parent_connection_id')
+      .eq('report_type', type)
+      .eq('period_start', period.start);
+
+    if (existingError) {
+      throw new Error(`Failed to load existing reports: ${existingError.message}`);
+    }
+
+    const done = new Set(
+      ((existing || []) as { parent_connection_id: string }[]).map(
+        (row) => row.parent_connection_id
+      )
+    );
+    const due = connections
+      .filter((connection) => !done.has(connection.id))
+      .slice(0, options.limit ?? DEFAULT_BATCH_SIZE);
+
+    const byAthlete = new Map<string, ReportConnection[]>();
+    for (const connection of due) {
+      byAthlete.set(connection.athlete_id, [
+        ...(byAthlete.get(connection.athlete_id) ?? []),
+        connection,
+      ]);
+    }
+
+    for (const [athleteId, athleteConnections] of byAthlete) {
+      let activity: AthleteActivity;
+      try {
+        activity = await loadAthleteActivity(sb, athleteId, period);
+      } catch (activityError) {
+        console.error(`Failed to build ${type} report for athlete ${athleteId}:`, activityError);
+        summary.failed += athleteConnections.length;
+        continue;
+      }
+
+      for (const connection of athleteConnections) {
+        try {
+          const digest =
+            digestReportType(connection.report_frequency) === type
+              ? await collectDigest(sb, connection.id)
+              : { items: [], included: [], skipped: [] };
+
+          const stats = buildParentReportStats({
+            period,
+            policy: policyFor(connection.athlete?.club_id ?? null),
+            ...activity,
+            digest: digest.items,
+          });
+
+          const { data: created, error: insertError } = await sb
+            .from('parent_reports')
+            .upsert(
+              {
+                parent_connection_id: connection.id,
+                athlete_id: athleteId,
+                report_type: type,
+                period_start: period.start,
+                period_end: period.end,
+                ...stats,
+                generated_at: now.toISOString(),
+              },
+              {
+                onConflict: 'parent_connection_id,report_type,period_start',
+                ignoreDuplicates: true,
+              }
+            )
+            .select('id');
+
+          if (insertError) {
+            throw new Error(insertError.message);
+          }
+          // Another run made this report first
+          const reportId = (created as { id: string }[] | null)?.[0]?.id;
+          if (!reportId) continue;
+
+          summary.generated++;
+          await finishDigestDeliveries(sb, digest, reportId, now);
+          summary.digestItems += digest.items.length;
+
+          if (connection.report_frequency === type) {
+            const notified = await notifyParent(
+              sb,
+              connection,
+              { id: reportId, period, type },
+              summarizeParentReport(stats, connection),
+              now
+            );
+            if (notified) summary.notified++;
+          }
+        } catch (reportError) {
+          console.error(
+            `Failed to create ${type} report for connection ${connection.id}:`,
+            reportError
+          );
+          summary.failed++;
+        }
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,352 @@
+/**
+ * Web Push Delivery
+ *
+ * Notifications routed to the push channel are queued as one push_deliveries
+ * row per push subscription the user has (lib/admin/notification-router.ts). The
+ * dispatch job sends each due row to the subscription's push service, signed
+ * with VAPID and encrypted for the device. Subscriptions the push service no
+ * longer knows (404/410) are deleted, deliveries due during the user's quiet
+ * hours wait until they end, and other failures are retried with the outbox
+ * backoff and dead-lettered after the last attempt.
+ *
+ * Runs with the service-role client.
+ */
+
+import { MAX_DELIVERY_ATTEMPTS, retryDelayMs } from '@/lib/utils/event-dispatcher';
+import { quietHoursEndAt, type QuietHours } from '@/lib/utils/quiet-hours';
+import {
+  buildWebPushRequest,
+  getVapidKeys,
+  type VapidKeys,
+  type WebPushSubscription,
+} from '@/lib/utils/web-push';
+
+/** Deliveries sent per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 100;
+
+/** Push services must answer within this long or the attempt counts as failed */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Errors are cut to this length in the delivery log */
+const MAX_ERROR_LENGTH = 500;
+
+export type PushDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'expired' | 'dead_letter';
+
+/** What the service worker receives (see worker/index.js) */
+export interface PushPayload {
+  notificationId: string;
+  type: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface PushDelivery {
+  id: string;
+  notification_id: string;
+  subscription_id: string | null;
+  user_id: string;
+  payload: PushPayload;
+  status: PushDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface PushAttemptResult {
+  /** HTTP status, or null when no response arrived */
+  status: number | null;
+  error: string | null;
+}
+
+export interface PushDeliveryOutcome {
+  status: PushDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  locked_at: null;
+}
+
+export interface PushDispatchSummary {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  /** Held back until the user's quiet hours end */
+  deferred: number;
+  expired: number;
+  deadLettered: number;
+  /** Subscriptions deleted because the push service no longer knows them */
+  pruned: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+type Fetch = typeof fetch;
+
+interface NotificationSettingsRow {
+  user_id: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+/**
+ * Quiet hours of each user that has set them
+ */
+export async function loadQuietHours(
+  sb: UntypedClient,
+  userIds: string[]
+): Promise<Map<string, QuietHours>> {
+  const quietHoursByUser = new Map<string, QuietHours>();
+  if (userIds.length === 0) return quietHoursByUser;
+
+  const { data, error } = await sb
+    .from('notification_settings')
+    .select('user_id, quiet_hours_start, quiet_hours_end, timezone')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to load notification settings: ${error.message}`);
+  }
+
+  for (const row of (data || []) as NotificationSettingsRow[]) {
+    if (row.quiet_hours_start && row.quiet_hours_end) {
+      quietHoursByUser.set(row.user_id, {
+        start: row.quiet_hours_start,
+        end: row.quiet_hours_end,
+        timezone: row.timezone,
+      });
+    }
+  }
+  return quietHoursByUser;
+}
+
+/**
+ * Delivery row after one attempt
+ * 2xx is delivered and 404/410 means the subscription is gone. Other client
+ * errors will not succeed on a retry, except 408 and 429; everything else is
+ * retried with the outbox backoff until MAX_DELIVERY_ATTEMPTS.
+ */
+export function planPushOutcome(
+  attemptsSoFar: number,
+  result: PushAttemptResult,
+  now: Date = new Date()
+): PushDeliveryOutcome {
+  const attempts = attemptsSoFar + 1;
+  const status = result.status;
+  const logged = {
+    attempts,
+    response_status: status,
+    locked_at: null,
+  };
+
+  if (status !== null && status >= 200 && status < 300) {
+    return {
+      ...logged,
+      status: 'delivered',
+      next_attempt_at: now.toISOString(),
+      last_error: null,
+      delivered_at: now.toISOString(),
+    };
+  }
+
+  const lastError = (result.error ?? `HTTP ${status}`).slice(0, MAX_ERROR_LENGTH);
+
+  if (status === 404 || status === 410) {
+    return {
+      ...logged,
+      status: 'expired',
+      next_attempt_at: now.toISOString(),
+      last_error: lastError,
+      delivered_at: null,
+    };
+  }
+
+  const permanent =
+    status !== null && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  const exhausted = permanent || attempts >= MAX_DELIVERY_ATTEMPTS;
+  return {
+    ...logged,
+    status: exhausted ? 'dead_letter' : 'pending',
+    next_attempt_at: new Date(
+      now.getTime() + (exhausted ? 0 : retryDelayMs(attempts))
+    ).toISOString(),
+    last_error: lastError,
+    delivered_at: null,
+  };
+}
+
+/**
+ * Send one payload to one subscription
+ * Never throws; network errors and timeouts are returned as a failed attempt.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: PushPayload,
+  vapid: VapidKeys,
+  options: { fetchImpl?: Fetch; now?: number; timeoutMs?: number } = {}
+): Promise<PushAttemptResult> {
+  try {
+    const request = buildWebPushRequest(subscription, JSON.stringify(payload), vapid, {
+      // Collapse repeated sends of the same notification on the push service
+      topic: payload.notificationId.replace(/-/g, '').slice(0, 32),
+      nowSeconds: options.now !== undefined ? Math.floor(options.now / 1000) : undefined,
+    });
+
+    const response = await (options.fetchImpl ?? fetch)(request.endpoint, {
+      method: 'POST',
+      headers: request.headers,
+      body: new Uint8Array(request.body),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DELIVERY_TIMEOUT_MS),
+    });
+    const ok = response.status >= 200 && response.status < 300;
+    const responseBody = ok ? null : await response.text().catch(() => null);
+
+    return {
+      status: response.status,
+      error: ok ? null : responseBody || `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      status: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Send the due deliveries and record each attempt
+ * Does nothing when VAPID keys are not configured, leaving the queue for a
+ * later run.
+ */
+export async function dispatchPushDeliveries(
+  sb: UntypedClient,
+  options: { limit?: number; now?: Date; fetchImpl?: Fetch; vapid?: VapidKeys | null } = {}
+): Promise<PushDispatchSummary> {
+  const summary: PushDispatchSummary = {
+    claimed: 0,
+    delivered: 0,
+    retried: 0,
+    deferred: 0,
+    expired: 0,
+    deadLettered: 0,
+    pruned: 0,
+  };
+
+  const vapid = options.vapid === undefined ? getVapidKeys() : options.vapid;
+  if (!vapid) return summary;
+
+  const { data: rows, error } = await sb.rpc('claim_push_deliveries', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim push deliveries: ${error.message}`);
+  }
+
+  const deliveries = (rows || []) as PushDelivery[];
+  summary.claimed = deliveries.length;
+  if (deliveries.length === 0) return summary;
+
+  const subscriptionIds = [
+    ...new Set(deliveries.map((delivery) => delivery.subscription_id).filter(Boolean)),
+  ];
+  const userIds = [...new Set(deliveries.map((delivery) => delivery.user_id))];
+
+  const [subscriptionsResult, quietHoursByUser] = await Promise.all([
+    sb.from('push_subscriptions').select('id, subscription').in('id', subscriptionIds),
+    loadQuietHours(sb, userIds),
+  ]);
+
+  if (subscriptionsResult.error) {
+    throw new Error(`Failed to load push subscriptions: ${subscriptionsResult.error.message}`);
+  }
+
+  const subscriptionById = new Map<string, WebPushSubscription>(
+    ((subscriptionsResult.data || []) as { id: string; subscription: WebPushSubscription }[]).map(
+      (row) => [row.id, row.subscription]
+    )
+  );
+
+  const pruned = new Set<string>();
+
+  for (const delivery of deliveries) {
+    const now = options.now ?? new Date();
+
+    // Quiet hours hold the delivery without using up an attempt
+    const resumeAt = quietHoursEndAt(now, quietHoursByUser.get(delivery.user_id) ?? null);
+    if (resumeAt) {
+      const { error: deferError } = await sb
+        .from('push_deliveries')
+        .update({ status: 'pending', next_attempt_at: resumeAt.toISOString(), locked_at: null })
+        .eq('id', delivery.id)
+        .eq('status', 'processing');
+
+      if (deferError) {
+        console.error(`Failed to defer push delivery ${delivery.id}:`, deferError);
+      } else {
+        summary.deferred++;
+      }
+      continue;
+    }
+
+    const subscription = delivery.subscription_id
+      ? subscriptionById.get(delivery.subscription_id)
+      : undefined;
+    const result: PushAttemptResult = subscription
+      ? await sendWebPush(subscription, delivery.payload, vapid, {
+          fetchImpl: options.fetchImpl,
+          now: options.now?.getTime(),
+        })
+      : { status: 410, error: 'Subscription was removed' };
+
+    const outcome = planPushOutcome(delivery.attempts, result, now);
+
+    const { error: updateError } = await sb
+      .from('push_deliveries')
+      .update(outcome)
+      .eq('id', delivery.id)
+      .eq('status', 'processing');
+
+    if (updateError) {
+      console.error(`Failed to record push delivery ${delivery.id}:`, updateError);
+      continue;
+    }
+
+    if (outcome.status === 'delivered') summary.delivered++;
+    else if (outcome.status === 'dead_letter') summary.deadLettered++;
+    else if (outcome.status === 'expired') summary.expired++;
+    else summary.retried++;
+
+    if (
+      outcome.status === 'expired' &&
+      subscription &&
+      delivery.subscription_id &&
+      !pruned.has(delivery.subscription_id)
+    ) {
+      const { error: deleteError } = await sb
+        .from('push_subscriptions')
+        .delete()
+        .eq('id', delivery.subscription_id);
+
+      if (deleteError) {
+        console.error(
+          `Failed to prune push subscription ${delivery.subscription_id}:`,
+          deleteError
+        );
+      } else {
+        pruned.add(delivery.subscription_id);
+        summary.pruned++;
+      }
+    }
+  }
+
+  return summary;
+}
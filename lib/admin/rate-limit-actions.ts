@@ -0,0 +1,146 @@
+'use server';
+
+/**
+ * Rate Limit Actions
+ *
+ * Live counters from the shared rate limit store for the admin rate-limits
+ * page, and a reset for clients that were blocked by mistake.
+ */
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { createAuditLog } from '@/lib/audit/log';
+import { getRateLimitStore } from '@/lib/utils/rate-limit-store';
+import { parseRateLimitKey } from '@/lib/utils/rate-limit';
+
+export interface RateLimitCounterSummary {
+  key: string;
+  scope: string;
+  subject: 'ip' | 'user' | 'other';
+  /** IP address, or the user's name or email */
+  label: string;
+  used: number;
+  capacity: number;
+  windowMs: number;
+  blocked: boolean;
+  lastRequestAt: string;
+  resetAt: string;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+async function requireAdmin(sb: UntypedClient): Promise<{ userId?: string; error?: string }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await sb.auth.getUser();
+
+  if (authError || !user) {
+    return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+  }
+
+  const { data: userRole } = await sb
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (userRole?.role !== 'admin') {
+    return { error: 'ไม่ได้รับอนุญาต: เฉพาะแอดมินเท่านั้น' };
+  }
+  return { userId: user.id };
+}
+
+/**
+ * Keys that have used part of their limit, most limited first
+ */
+export async function getRateLimitCounters(): Promise<{
+  success: boolean;
+  data?: RateLimitCounterSummary[];
+  error?: string;
+}> {
+  try {
+    const supabase = await createClient();
+    const { error: accessError } = await requireAdmin(supabase);
+    if (accessError) return { success: false, error: accessError };
+
+    const counters = await getRateLimitStore().list();
+
+    const userIds = counters
+      .map((counter) => parseRateLimitKey(counter.key))
+      .filter((parsed) => parsed?.subject === 'user')
+      .map((parsed) => parsed!.id);
+    const names = new Map<string, string>();
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', [...new Set(userIds)]);
+      const rows = (profiles || []) as {
+        id: string;
+        full_name: string | null;
+        email: string | null;
+      }[];
+      for (const profile of rows) {
+        names.set(profile.id, profile.full_name || profile.email || profile.id);
+      }
+    }
+
+    const now = Date.now();
+    const data = counters
+      .map((counter): RateLimitCounterSummary => {
+        const parsed = parseRateLimitKey(counter.key);
+        const msPerToken = counter.windowMs / counter.capacity;
+        return {
+          key: counter.key,
+          scope: parsed?.scope ?? '',
+          subject: parsed?.subject ?? 'other',
+          label: parsed ? (names.get(parsed.id) ?? parsed.id) : counter.key,
+          used: counter.capacity - Math.floor(counter.tokens),
+          capacity: counter.capacity,
+          windowMs: counter.windowMs,
+          blocked: counter.tokens < 1,
+          lastRequestAt: new Date(counter.updatedAt).toISOString(),
+          resetAt: new Date(
+            now + Math.ceil((counter.capacity - counter.tokens) * msPerToken)
+          ).toISOString(),
+        };
+      })
+      .sort((a, b) => b.used / b.capacity - a.used / a.capacity);
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Unexpected error in getRateLimitCounters:', error);
+    return { success: false, error: 'ไม่สามารถโหลดตัวนับ Rate Limit ได้' };
+  }
+}
+
+/**
+ * Clear a key's counter so its next request is allowed
+ */
+export async function resetRateLimitCounter(
+  key: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createClient();
+    const { userId, error: accessError } = await requireAdmin(supabase);
+    if (accessError) return { success: false, error: accessError };
+
+    await getRateLimitStore().reset(key);
+
+    await createAuditLog({
+      userId,
+      userRole: 'admin',
+      actionType: 'rate_limit.reset',
+      entityType: 'rate_limit',
+      entityId: key,
+    });
+
+    revalidatePath('/dashboard/admin/rate-limits');
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error in resetRateLimitCounter:', error);
+    return { success: false, error: 'ไม่สามารถรีเซ็ตตัวนับได้' };
+  }
+}
@@ -1,7 +1,7 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { getCached } from '@/lib/utils/cache';
+import { CACHE_TAGS, getCached } from '@/lib/utils/cache';
 
 export interface SystemWideReportParams {
   startDate: string;
@@ -64,6 +64,36 @@ export async function generateSystemWideReport(
       return { error: 'วันที่เริ่มต้นต้องน้อยกว่าหรือเท่ากับวันที่สิ้นสุด' };
     }
 
+    // Shared by all admins; invalidated when attendance or sessions change
+    return await getCached(
+      `system-report:${params.startDate}:${params.endDate}:${params.clubId || 'all'}`,
+      () => computeSystemWideReport(params),
+      {
+        ttl: 5 * 60 * 1000, // 5 minutes
+        staleWhileRevalidate: 10 * 60 * 1000,
+        tags: [
+          CACHE_TAGS.attendance,
+          ...(params.clubId ? [CACHE_TAGS.club(params.clubId)] : []),
+        ],
+        shouldCache: (result) => !result.error,
+      }
+    );
+  } catch (error) {
+    console.error('Unexpected error in generateSystemWideReport:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Internal function to compute the system-wide report
+ * Callers must have checked that the user is an admin.
+ */
+async function computeSystemWideReport(
+  params: SystemWideReportParams
+): Promise<{ data?: SystemWideReportData; error?: string }> {
+  try {
+    const supabase = await createClient();
+
     // Get all clubs or specific club
     let clubsQuery = supabase
       .from('clubs')
@@ -219,7 +249,7 @@ export async function generateSystemWideReport(
       },
     };
   } catch (error) {
-    console.error('Unexpected error in generateSystemWideReport:', error);
+    console.error('Unexpected error in computeSystemWideReport:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
@@ -0,0 +1,321 @@
+/**
+ * Training Session Close-out Job
+ *
+ * Finalises every training session that has ended: writes `absent` rows for
+ * athletes who never checked in (when the club auto-marks absences, the
+ * default), turns approved leave requests into `excused` and locks the
+ * attendance sheet. The roster is the club's members at the session start,
+ * taken from athlete_club_memberships. The
+ * enqueue_attendance_recorded trigger writes
+ * org.club.training.attendance.recorded.v1 for each new row in the same
+ * transaction.
+ *
+ * Safe to run repeatedly: locked sessions are skipped, rows are inserted with
+ * ON CONFLICT DO NOTHING and the lock is only taken once. With `dryRun` the
+ * plan is returned without writing anything.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+import { CACHE_TAGS, invalidateTags } from '@/lib/utils/cache';
+import { generateCorrelationId } from '@/lib/utils/correlation';
+import {
+  ATTENDANCE_POLICY_SETTING_KEY,
+  DEFAULT_ATTENDANCE_POLICY,
+  resolveAttendancePolicies,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+import {
+  isSessionDueForCloseOut,
+  planSessionCloseOut,
+  sessionStartsAt,
+  wasMemberAt,
+  type ClubMembershipPeriod,
+  type CloseOutAttendance,
+  type CloseOutSession,
+} from '@/lib/utils/session-close-out';
+
+/** Sessions processed per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface CloseOutOptions {
+  dryRun?: boolean;
+  now?: Date;
+  /** Admin who triggered the run, undefined for the scheduled job */
+  triggeredBy?: string;
+  /** Correlation ID of the request that started the run, also sent by its client */
+  correlationId?: string;
+  limit?: number;
+}
+
+export interface SessionCloseOutResult {
+  sessionId: string;
+  title: string;
+  sessionDate: string;
+  absent: number;
+  excused: number;
+  /** Sheet was locked by this run (would be, for a dry run) */
+  locked: boolean;
+  error?: string;
+}
+
+export interface CloseOutSummary {
+  dryRun: boolean;
+  correlationId: string;
+  sessionsClosed: number;
+  absentMarked: number;
+  excusedMarked: number;
+  eventsPublished: number;
+  sessions: SessionCloseOutResult[];
+}
+
+type ClosableSession = CloseOutSession & {
+  club_id: string;
+  title: string;
+  start_time: string;
+  /** References auth.users, not coaches */
+  coach_id: string | null;
+};
+
+type RecordedRow = {
+  id: string;
+  athlete_id: string;
+  status: 'absent' | 'excused';
+  notes: string | null;
+  created_at: string;
+};
+
+/**
+ * Close out every ended session that is still open
+ *
+ * @param supabase - Service-role client (scheduled job) or an admin's client
+ */
+export async function runSessionCloseOut(
+  supabase: SupabaseClient<Database>,
+  options: CloseOutOptions = {}
+): Promise<CloseOutSummary> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const correlationId = options.correlationId ?? generateCorrelationId();
+  const summary: CloseOutSummary = {
+    dryRun,
+    correlationId,
+    sessionsClosed: 0,
+    absentMarked: 0,
+    excusedMarked: 0,
+    eventsPublished: 0,
+    sessions: [],
+  };
+
+  const policyFor = await loadPolicies(supabase);
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from('training_sessions')
+    .select(
+      'id, club_id, title, session_date, start_time, end_time, status, attendance_locked_at, coach_id'
+    )
+    .is('attendance_locked_at', null)
+    .neq('status', 'cancelled')
+    .lte('session_date', now.toISOString().split('T')[0])
+    .order('session_date', { ascending: true })
+    .limit(options.limit ?? DEFAULT_BATCH_SIZE);
+
+  if (sessionsError) {
+    throw new Error(`Failed to load sessions for close-out: ${sessionsError.message}`);
+  }
+
+  const due = ((sessions || []) as unknown as ClosableSession[]).filter((session) =>
+    isSessionDueForCloseOut(session, policyFor(session.club_id), now)
+  );
+
+  for (const session of due) {
+    const result = await closeOutSession(supabase, session, policyFor(session.club_id), {
+      dryRun,
+      now,
+      triggeredBy: options.triggeredBy,
+    });
+
+    summary.sessions.push(result.session);
+    summary.absentMarked += result.session.absent;
+    summary.excusedMarked += result.session.excused;
+    summary.eventsPublished += result.eventsPublished;
+    if (result.session.locked) summary.sessionsClosed++;
+  }
+
+  if (!dryRun && summary.sessionsClosed > 0) {
+    await invalidateTags([
+      CACHE_TAGS.attendance,
+      ...summary.sessions
+        .filter((session) => session.locked)
+        .map((session) => CACHE_TAGS.session(session.sessionId)),
+    ]);
+  }
+
+  return summary;
+}
+
+async function loadPolicies(
+  supabase: SupabaseClient<Database>
+): Promise<(clubId: string) => AttendancePolicy> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_key, setting_value')
+    .like('setting_key', `${ATTENDANCE_POLICY_SETTING_KEY}%`);
+
+  if (error) {
+    console.error('Failed to load attendance policies, using defaults:', error);
+    return () => DEFAULT_ATTENDANCE_POLICY;
+  }
+
+  const { defaultPolicy, clubPolicies } = resolveAttendancePolicies(
+    (data || []) as { setting_key: string; setting_value: unknown }[]
+  );
+  return (clubId) => clubPolicies[clubId] || defaultPolicy;
+}
+
+async function closeOutSession(
+  supabase: SupabaseClient<Database>,
+  session: ClosableSession,
+  policy: AttendancePolicy,
+  context: { dryRun: boolean; now: Date; triggeredBy?: string }
+): Promise<{ session: SessionCloseOutResult; eventsPublished: number }> {
+  const result: SessionCloseOutResult = {
+    sessionId: session.id,
+    title: session.title,
+    sessionDate: session.session_date,
+    absent: 0,
+    excused: 0,
+    locked: false,
+  };
+
+  // Athletes who joined later or left before the session are not on its roster
+  const startsAt = sessionStartsAt(session);
+
+  const [membersResult, attendanceResult, leaveResult] = await Promise.all([
+    supabase
+      .from('athlete_club_memberships')
+      .select('athlete_id, joined_at, left_at')
+      .eq('club_id', session.club_id)
+      .lte('joined_at', startsAt),
+    supabase
+      .from('attendance')
+      .select('id, athlete_id, status')
+      .eq('training_session_id', session.id),
+    supabase
+      .from('leave_requests')
+      .select('athlete_id, reason')
+      .eq('session_id', session.id)
+      .eq('status', 'approved'),
+  ]);
+
+  const loadError = membersResult.error || attendanceResult.error || leaveResult.error;
+  if (loadError) {
+    console.error(`Close-out load error for session ${session.id}:`, loadError);
+    return { session: { ...result, error: loadError.message }, eventsPublished: 0 };
+  }
+
+  const leaves = (leaveResult.data || []) as { athlete_id: string; reason: string }[];
+  const leaveReasons = new Map(leaves.map((leave) => [leave.athlete_id, leave.reason]));
+
+  const memberships = (membersResult.data || []) as ClubMembershipPeriod[];
+  const plan = planSessionCloseOut({
+    athleteIds: [...new Set(memberships.map((m) => m.athlete_id))].filter((athleteId) =>
+      wasMemberAt(memberships, athleteId, startsAt)
+    ),
+    attendance: (attendanceResult.data || []) as CloseOutAttendance[],
+    approvedLeaveAthleteIds: leaves.map((leave) => leave.athlete_id),
+    policy,
+  });
+
+  if (context.dryRun) {
+    return {
+      session: {
+        ...result,
+        absent: plan.absent.length,
+        excused: plan.excused.length + plan.excuseExisting.length,
+        locked: true,
+      },
+      eventsPublished: 0,
+    };
+  }
+
+  const recorded: RecordedRow[] = [];
+  const newRows = [
+    ...plan.absent.map((athleteId) => ({
+      training_session_id: session.id,
+      athlete_id: athleteId,
+      status: 'absent' as const,
+      check_in_method: 'auto' as const,
+      marked_by: context.triggeredBy ?? null,
+      notes: 'Marked absent at session close-out',
+    })),
+    ...plan.excused.map((athleteId) => ({
+      training_session_id: session.id,
+      athlete_id: athleteId,
+      status: 'excused' as const,
+      check_in_method: 'auto' as const,
+      marked_by: context.triggeredBy ?? null,
+      notes: `Leave approved: ${leaveReasons.get(athleteId)}`,
+    })),
+  ];
+
+  if (newRows.length > 0) {
+    // A concurrent run or a late manual mark wins; existing rows are left untouched
+    const { data: inserted, error: insertError } = await supabase
+      .from('attendance')
+      .upsert(newRows as never, {
+        onConflict: 'training_session_id,athlete_id',
+        ignoreDuplicates: true,
+      })
+      .select('id, athlete_id, status, notes, created_at');
+
+    if (insertError) {
+      console.error(`Close-out insert error for session ${session.id}:`, insertError);
+      return { session: { ...result, error: insertError.message }, eventsPublished: 0 };
+    }
+
+    recorded.push(...((inserted || []) as RecordedRow[]));
+  }
+
+  if (plan.excuseExisting.length > 0) {
+    const { data: excused, error: excuseError } = await supabase
+      .from('attendance')
+      .update({ status: 'excused', check_in_method: 'auto' } as never)
+      .in('id', plan.excuseExisting)
+      .eq('status', 'absent')
+      .select('id, athlete_id, status, notes, created_at');
+
+    if (excuseError) {
+      console.error(`Close-out excuse error for session ${session.id}:`, excuseError);
+      return { session: { ...result, error: excuseError.message }, eventsPublished: 0 };
+    }
+
+    recorded.push(...((excused || []) as RecordedRow[]));
+  }
+
+  const { data: lockedRows, error: lockError } = await supabase
+    .from('training_sessions')
+    .update({
+      attendance_locked_at: context.now.toISOString(),
+      attendance_locked_by: context.triggeredBy ?? null,
+      ...(session.status === 'scheduled' || session.status === 'ongoing'
+        ? { status: 'completed' as const }
+        : {}),
+    } as never)
+    .eq('id', session.id)
+    .is('attendance_locked_at', null)
+    .select('id');
+
+  if (lockError) {
+    console.error(`Close-out lock error for session ${session.id}:`, lockError);
+    result.error = lockError.message;
+  }
+
+  result.absent = recorded.filter((row) => row.status === 'absent').length;
+  result.excused = recorded.filter((row) => row.status === 'excused').length;
+  result.locked = !lockError && (lockedRows?.length ?? 0) > 0;
+
+  // Rows nobody can be named as marking (no admin, no coach) raise no event
+  const eventsPublished = context.triggeredBy || session.coach_id ? recorded.length : 0;
+  return { session: result, eventsPublished };
+}
@@ -7,6 +7,24 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { createAuditLog } from '@/lib/audit/log';
+import { CACHE_TAGS, getCached, invalidateTags } from '@/lib/utils/cache';
+import {
+  ATTENDANCE_POLICY_SETTING_KEY,
+  attendancePolicySettingKey,
+  resolveAttendancePolicies,
+  resolveAttendancePolicy,
+  validateAttendancePolicy,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+import {
+  LEAVE_POLICY_SETTING_KEY,
+  leavePolicySettingKey,
+  resolveLeavePolicies,
+  resolveLeavePolicy,
+  validateLeavePolicy,
+  type LeavePolicy,
+} from '@/lib/utils/leave-policy';
 
 export interface SystemSetting {
   id: string;
@@ -101,6 +119,12 @@ export async function updateSystemSetting(
       return { success: false, error: 'ต้องเป็น admin เท่านั้น' };
     }
 
+    const { data: previous } = await (supabase as any)
+      .from('system_settings')
+      .select('setting_value')
+      .eq('setting_key', settingKey)
+      .maybeSingle();
+
     // Update setting using the helper function
     const { error } = await (supabase as any).rpc('update_system_setting', {
       p_key: settingKey,
@@ -113,6 +137,16 @@ export async function updateSystemSetting(
       return { success: false, error: 'ไม่สามารถอัปเดตการตั้งค่าได้' };
     }
 
+    await createAuditLog({
+      userId: user.id,
+      userRole: 'admin',
+      actionType: 'system_setting.update',
+      entityType: 'system_setting',
+      entityId: settingKey,
+      before: { value: previous?.setting_value ?? null },
+      after: { value },
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Unexpected error:', error);
@@ -145,3 +179,124 @@ export async function getSystemSetting(
     return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
+
+/**
+ * Get the effective attendance policy for a club
+ * Club overrides are merged over the system default. Available to any signed-in
+ * user (check-in needs it), cached for 5 minutes.
+ */
+export async function getAttendancePolicy(clubId?: string | null): Promise<AttendancePolicy> {
+  return getCached(
+    `attendance-policy:${clubId || 'default'}`,
+    async () => {
+      const [systemDefault, clubOverride] = await Promise.all([
+        getSystemSetting(ATTENDANCE_POLICY_SETTING_KEY),
+        clubId
+          ? getSystemSetting(attendancePolicySettingKey(clubId))
+          : Promise.resolve({ success: true, value: null }),
+      ]);
+
+      return resolveAttendancePolicy(systemDefault.value, clubOverride.value);
+    },
+    { ttl: 5 * 60 * 1000, tags: [CACHE_TAGS.attendancePolicy] }
+  );
+}
+
+/**
+ * Get the system default policy and every club override (admin only)
+ */
+export async function getAttendancePolicies(): Promise<{
+  success: boolean;
+  data?: { defaultPolicy: AttendancePolicy; clubPolicies: Record<string, AttendancePolicy> };
+  error?: string;
+}> {
+  const result = await getSystemSettings();
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, data: resolveAttendancePolicies(result.data) };
+}
+
+/**
+ * Save the attendance policy for a club, or the system default when clubId is null
+ */
+export async function updateAttendancePolicy(
+  clubId: string | null,
+  policy: AttendancePolicy
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateAttendancePolicy(policy);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const result = await updateSystemSetting(
+    attendancePolicySettingKey(clubId),
+    resolveAttendancePolicy(policy)
+  );
+
+  if (result.success) {
+    // Attendance rates depend on the policy
+    await invalidateTags([CACHE_TAGS.attendancePolicy, CACHE_TAGS.attendance]);
+  }
+
+  return result;
+}
+
+/**
+ * Get the effective leave policy for a club
+ * Club overrides are merged over the system default, cached for 5 minutes.
+ */
+export async function getLeavePolicy(clubId?: string | null): Promise<LeavePolicy> {
+  return getCached(
+    `leave-policy:${clubId || 'default'}`,
+    async () => {
+      const [systemDefault, clubOverride] = await Promise.all([
+        getSystemSetting(LEAVE_POLICY_SETTING_KEY),
+        clubId
+          ? getSystemSetting(leavePolicySettingKey(clubId))
+          : Promise.resolve({ success: true, value: null }),
+      ]);
+
+      return resolveLeavePolicy(systemDefault.value, clubOverride.value);
+    },
+    { ttl: 5 * 60 * 1000, tags: [CACHE_TAGS.leavePolicy] }
+  );
+}
+
+/**
+ * Get the system default leave policy and every club override (admin only)
+ */
+export async function getLeavePolicies(): Promise<{
+  success: boolean;
+  data?: { defaultPolicy: LeavePolicy; clubPolicies: Record<string, LeavePolicy> };
+  error?: string;
+}> {
+  const result = await getSystemSettings();
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, data: resolveLeavePolicies(result.data) };
+}
+
+/**
+ * Save the leave policy for a club, or the system default when clubId is null
+ */
+export async function updateLeavePolicy(
+  clubId: string | null,
+  policy: LeavePolicy
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateLeavePolicy(policy);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const result = await updateSystemSetting(leavePolicySettingKey(clubId), resolveLeavePolicy(policy));
+
+  if (result.success) {
+    await invalidateTags([CACHE_TAGS.leavePolicy]);
+  }
+
+  return result;
+}
@@ -0,0 +1,493 @@
+'use server';
+
+/**
+ * Outbound Webhook Actions
+ *
+ * Admins manage endpoints for any club (or all clubs); coaches manage their
+ * own club's endpoints. Secrets are only returned when they are created or
+ * rotated.
+ */
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createAuditLog } from '@/lib/audit/log';
+import { generateWebhookSecret } from '@/lib/utils/webhook-signing';
+import {
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  PRIVATE_WEBHOOK_HOST_ERROR,
+  validateWebhookEventTypes,
+  validateWebhookUrl,
+  type WebhookDeliveryStatus,
+} from '@/lib/utils/webhooks';
+import {
+  findPrivateWebhookAddress,
+  replayWebhookDeliveries as queueReplay,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from '@/lib/admin/webhook-delivery';
+
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'> & {
+  /** Last characters of the secret, to tell rotated secrets apart */
+  secret_preview: string;
+};
+
+export interface WebhookClubOption {
+  id: string;
+  name: string;
+}
+
+export interface WebhookEndpointInput {
+  /** null receives events from every club (admins only) */
+  clubId: string | null;
+  url: string;
+  description?: string;
+  eventTypes: string[];
+}
+
+interface WebhookAccess {
+  userId: string;
+  role: 'admin' | 'coach';
+  clubs: WebhookClubOption[];
+}
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/**
+ * Resolve who may manage webhooks and for which clubs
+ */
+async function getWebhookAccess(
+  sb: UntypedClient
+): Promise<{ access?: WebhookAccess; error?: string }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await sb.auth.getUser();
+
+  if (authError || !user) {
+    return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+  }
+
+  const { data: userRole } = await sb
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (userRole?.role === 'admin') {
+    const { data: clubs } = await sb.from('clubs').select('id, name').order('name');
+    return { access: { userId: user.id, role: 'admin', clubs: clubs || [] } };
+  }
+
+  if (userRole?.role === 'coach') {
+    const { data: coachClubs } = await sb
+      .from('coaches')
+      .select('club:clubs(id, name)')
+      .eq('user_id', user.id);
+    const clubs = ((coachClubs || []) as { club: WebhookClubOption | null }[])
+      .map((row) => row.club)
+      .filter((club): club is WebhookClubOption => club !== null);
+    return { access: { userId: user.id, role: 'coach', clubs } };
+  }
+
+  return { error: 'ไม่ได้รับอนุญาต: เฉพาะแอดมินและโค้ชเท่านั้น' };
+}
+
+function canManageClub(access: WebhookAccess, clubId: string | null): boolean {
+  if (clubId === null) return access.role === 'admin';
+  return access.clubs.some((club) => club.id === clubId);
+}
+
+function toSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secret_preview: secret.slice(-4) };
+}
+
+function validateInput(input: WebhookEndpointInput): string | null {
+  if ((input.description?.length ?? 0) > MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+    return `คำอธิบายต้องไม่เกิน ${MAX_WEBHOOK_DESCRIPTION_LENGTH} ตัวอักษร`;
+  }
+  return validateWebhookUrl(input.url.trim()) || validateWebhookEventTypes(input.eventTypes);
+}
+
+/**
+ * Resolve the URL's host and refuse private or reserved addresses
+ * Delivery checks again before every attempt in case the DNS changes.
+ */
+async function validateWebhookHost(url: string): Promise<string | null> {
+  try {
+    return (await findPrivateWebhookAddress(url.trim())) ? PRIVATE_WEBHOOK_HOST_ERROR : null;
+  } catch {
+    return 'ไม่พบโดเมนของ URL นี้';
+  }
+}
+
+/**
+ * Load an endpoint the current user may manage
+ */
+async function getManagedEndpoint(
+  sb: UntypedClient,
+  access: WebhookAccess,
+  endpointId: string
+): Promise<{ endpoint?: WebhookEndpoint; error?: string }> {
+  const { data: endpoint } = await sb
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .maybeSingle();
+
+  if (!endpoint || !canManageClub(access, endpoint.club_id)) {
+    return { error: 'ไม่พบ Webhook' };
+  }
+  return { endpoint };
+}
+
+/**
+ * Endpoints the current user can manage, with the clubs they can target
+ */
+export async function getWebhookEndpoints(): Promise<{
+  success: boolean;
+  data?: {
+    role: 'admin' | 'coach';
+    endpoints: WebhookEndpointSummary[];
+    clubs: WebhookClubOption[];
+  };
+  error?: string;
+}> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    // RLS limits coaches to their own clubs' endpoints
+    const { data: endpoints, error } = await sb
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      return { success: false, error: 'ไม่สามารถดึงข้อมูล Webhook ได้' };
+    }
+
+    return {
+      success: true,
+      data: {
+        role: access.role,
+        endpoints: ((endpoints || []) as WebhookEndpoint[]).map(toSummary),
+        clubs: access.clubs,
+      },
+    };
+  } catch (error) {
+    console.error('Unexpected error in getWebhookEndpoints:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Register an endpoint
+ * @returns The endpoint and its secret; the secret is not shown again
+ */
+export async function createWebhookEndpoint(input: WebhookEndpointInput): Promise<{
+  success: boolean;
+  data?: { endpoint: WebhookEndpointSummary; secret: string };
+  error?: string;
+}> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    if (!canManageClub(access, input.clubId)) {
+      return { success: false, error: 'ไม่มีสิทธิ์จัดการ Webhook ของสโมสรนี้' };
+    }
+
+    const validationError = validateInput(input) || (await validateWebhookHost(input.url));
+    if (validationError) return { success: false, error: validationError };
+
+    const secret = generateWebhookSecret();
+    const { data: endpoint, error } = await sb
+      .from('webhook_endpoints')
+      .insert({
+        club_id: input.clubId,
+        url: input.url.trim(),
+        description: input.description?.trim() || null,
+        event_types: [...new Set(input.eventTypes)],
+        secret,
+        created_by: access.userId,
+      })
+      .select()
+      .single();
+
+    if (error || !endpoint) {
+      console.error('Error creating webhook endpoint:', error);
+      return { success: false, error: 'ไม่สามารถสร้าง Webhook ได้' };
+    }
+
+    await createAuditLog({
+      userId: access.userId,
+      userRole: access.role,
+      actionType: 'webhook_endpoint.create',
+      entityType: 'webhook_endpoint',
+      entityId: endpoint.id,
+      after: endpoint,
+      details: { clubId: input.clubId },
+    });
+
+    revalidatePath('/dashboard/admin/webhooks');
+    return { success: true, data: { endpoint: toSummary(endpoint), secret } };
+  } catch (error) {
+    console.error('Unexpected error in createWebhookEndpoint:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Change an endpoint's URL, description, event types or enabled state
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  changes: Partial<Omit<WebhookEndpointInput, 'clubId'>> & { isActive?: boolean }
+): Promise<{ success: boolean; data?: WebhookEndpointSummary; error?: string }> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    const { endpoint, error: endpointError } = await getManagedEndpoint(sb, access, endpointId);
+    if (!endpoint) return { success: false, error: endpointError };
+
+    const validationError = validateInput({
+      clubId: endpoint.club_id,
+      url: changes.url ?? endpoint.url,
+      description: changes.description ?? endpoint.description ?? undefined,
+      eventTypes: changes.eventTypes ?? endpoint.event_types,
+    });
+    if (validationError) return { success: false, error: validationError };
+
+    if (changes.url !== undefined) {
+      const hostError = await validateWebhookHost(changes.url);
+      if (hostError) return { success: false, error: hostError };
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (changes.url !== undefined) updates.url = changes.url.trim();
+    if (changes.description !== undefined) updates.description = changes.description.trim() || null;
+    if (changes.eventTypes !== undefined) updates.event_types = [...new Set(changes.eventTypes)];
+    if (changes.isActive !== undefined) updates.is_active = changes.isActive;
+
+    const { data: updated, error } = await sb
+      .from('webhook_endpoints')
+      .update(updates)
+      .eq('id', endpointId)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      console.error('Error updating webhook endpoint:', error);
+      return { success: false, error: 'ไม่สามารถแก้ไข Webhook ได้' };
+    }
+
+    await createAuditLog({
+      userId: access.userId,
+      userRole: access.role,
+      actionType: 'webhook_endpoint.update',
+      entityType: 'webhook_endpoint',
+      entityId: endpointId,
+      before: endpoint,
+      after: updates,
+    });
+
+    revalidatePath('/dashboard/admin/webhooks');
+    return { success: true, data: toSummary(updated) };
+  } catch (error) {
+    console.error('Unexpected error in updateWebhookEndpoint:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Replace an endpoint's secret; deliveries are signed with the new one immediately
+ */
+export async function rotateWebhookSecret(
+  endpointId: string
+): Promise<{ success: boolean; data?: { secret: string }; error?: string }> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    const { endpoint, error: endpointError } = await getManagedEndpoint(sb, access, endpointId);
+    if (!endpoint) return { success: false, error: endpointError };
+
+    const secret = generateWebhookSecret();
+    const { error } = await sb.from('webhook_endpoints').update({ secret }).eq('id', endpointId);
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      return { success: false, error: 'ไม่สามารถเปลี่ยนรหัสลับได้' };
+    }
+
+    await createAuditLog({
+      userId: access.userId,
+      userRole: access.role,
+      actionType: 'webhook_endpoint.rotate_secret',
+      entityType: 'webhook_endpoint',
+      entityId: endpointId,
+      // Secrets are redacted, so the diff only records that it changed
+      before: { secret: endpoint.secret },
+      after: { secret },
+    });
+
+    return { success: true, data: { secret } };
+  } catch (error) {
+    console.error('Unexpected error in rotateWebhookSecret:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Remove an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(
+  endpointId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    const { endpoint, error: endpointError } = await getManagedEndpoint(sb, access, endpointId);
+    if (!endpoint) return { success: false, error: endpointError };
+
+    const { error } = await sb.from('webhook_endpoints').delete().eq('id', endpointId);
+
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return { success: false, error: 'ไม่สามารถลบ Webhook ได้' };
+    }
+
+    await createAuditLog({
+      userId: access.userId,
+      userRole: access.role,
+      actionType: 'webhook_endpoint.delete',
+      entityType: 'webhook_endpoint',
+      entityId: endpointId,
+      before: endpoint,
+      details: { clubId: endpoint.club_id },
+    });
+
+    revalidatePath('/dashboard/admin/webhooks');
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error in deleteWebhookEndpoint:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Latest deliveries to an endpoint, newest first
+ */
+export async function getWebhookDeliveries(
+  endpointId: string,
+  filter?: { status?: WebhookDeliveryStatus }
+): Promise<{ success: boolean; data?: WebhookDelivery[]; error?: string }> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    const { endpoint, error: endpointError } = await getManagedEndpoint(sb, access, endpointId);
+    if (!endpoint) return { success: false, error: endpointError };
+
+    let query = sb
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (filter?.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return { success: false, error: 'ไม่สามารถดึงประวัติการส่งได้' };
+    }
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Unexpected error in getWebhookDeliveries:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Send deliveries again on the next dispatch run
+ * All deliveries must belong to the same endpoint.
+ */
+export async function replayWebhookDeliveries(
+  endpointId: string,
+  deliveryIds: string[]
+): Promise<{ success: boolean; data?: { replayed: number }; error?: string }> {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { access, error: accessError } = await getWebhookAccess(sb);
+    if (!access) return { success: false, error: accessError };
+
+    const { endpoint, error: endpointError } = await getManagedEndpoint(sb, access, endpointId);
+    if (!endpoint) return { success: false, error: endpointError };
+
+    // Deliveries are written by the dispatch job only; replay with the service role
+    const admin: UntypedClient = createAdminClient();
+    const { data: owned } = await admin
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('endpoint_id', endpointId)
+      .in('id', deliveryIds);
+    const ownedIds = ((owned || []) as { id: string }[]).map((row) => row.id);
+
+    const replayed = await queueReplay(admin, ownedIds);
+
+    await createAuditLog({
+      userId: access.userId,
+      userRole: access.role,
+      actionType: 'webhook_delivery.replay',
+      entityType: 'webhook_endpoint',
+      entityId: endpointId,
+      details: { deliveryIds: ownedIds, replayed },
+    });
+
+    return { success: true, data: { replayed } };
+  } catch (error) {
+    console.error('Unexpected error in replayWebhookDeliveries:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
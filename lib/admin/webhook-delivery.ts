@@ -0,0 +1,368 @@
+/**
+ * Outbound Webhook Delivery
+ *
+ * Outbox events fan out to one webhook_deliveries row per matching endpoint
+ * (the "webhooks" outbox subscriber). The dispatch job then POSTs each due
+ * row, signed with the endpoint's secret, and records the response; failures
+ * are retried with the outbox backoff and dead-lettered after the last
+ * attempt. Each endpoint's rows are its delivery log, and replaying a row
+ * just puts it back in the queue. Every attempt resolves the endpoint's host
+ * again and connects only to the addresses that passed the private/reserved
+ * check, so a name that now points at a private address is not contacted.
+ *
+ * Runs with the service-role client.
+ */
+
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import type { EventEnvelope } from '@/lib/utils/event-publisher';
+import { buildWebhookHeaders } from '@/lib/utils/webhook-signing';
+import {
+  endpointReceives,
+  isLocalWebhookHost,
+  isPrivateAddress,
+  planWebhookOutcome,
+  type WebhookAttemptResult,
+  type WebhookDeliveryStatus,
+} from '@/lib/utils/webhooks';
+
+/** Deliveries sent per run; the next run picks up the rest */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Receivers must answer within this long or the attempt counts as failed */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export const WEBHOOK_SUBSCRIBER = 'webhooks';
+
+export interface WebhookEndpoint {
+  id: string;
+  club_id: string | null;
+  url: string;
+  description: string | null;
+  event_types: string[];
+  secret: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  payload: EventEnvelope<unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  duration_ms: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface WebhookDispatchSummary {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/** Resolves a hostname to every address it has */
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+const resolveHost: ResolveHost = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+/**
+ * First private or reserved address an endpoint URL reaches, if any
+ * IP literals are checked as they are; hostnames are resolved and every
+ * address must be public. Local hosts are allowed for testing outside
+ * production, as validateWebhookUrl allows them. Throws when the host does
+ * not resolve.
+ */
+export async function findPrivateWebhookAddress(
+  url: string,
+  options: { resolve?: ResolveHost; allowLocal?: boolean } = {}
+): Promise<string | null> {
+  const { hostname } = new URL(url);
+  if (
+    isLocalWebhookHost(hostname) &&
+    (options.allowLocal ?? process.env.NODE_ENV !== 'production')
+  ) {
+    return null;
+  }
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host) ? [host] : await (options.resolve ?? resolveHost)(host);
+
+  return addresses.find((address) => isPrivateAddress(address)) ?? null;
+}
+
+function privateAddressError(address: string): Error {
+  return new Error(`Endpoint resolves to a private or reserved address (${address})`);
+}
+
+/**
+ * DNS lookup for the delivery socket: the addresses it hands to the
+ * connection are the ones it has just checked, so a record that changes
+ * between the check and the connect cannot redirect the request
+ */
+function checkedLookup(resolve: ResolveHost, allowLocal: boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname)
+      .then((addresses) => {
+        const blocked =
+          allowLocal && isLocalWebhookHost(hostname)
+            ? undefined
+            : addresses.find((address) => isPrivateAddress(address));
+        if (blocked) throw privateAddressError(blocked);
+
+        const entries = addresses
+          .map((address) => ({ address, family: isIP(address) }))
+          .filter((entry) => entry.family !== 0)
+          .filter((entry) => !options.family || entry.family === options.family);
+        if (entries.length === 0) throw new Error(`No addresses found for ${hostname}`);
+
+        if (options.all) callback(null, entries);
+        else callback(null, entries[0].address, entries[0].family);
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, '', 0));
+  };
+}
+
+/**
+ * POST over a socket pinned to checked addresses; redirects are not followed
+ */
+async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  options: { timeoutMs: number; resolve: ResolveHost; allowLocal: boolean }
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  // IP literals connect without a lookup, so they are checked here
+  const local = options.allowLocal && isLocalWebhookHost(target.hostname);
+  if (isIP(host) && isPrivateAddress(host) && !local) throw privateAddressError(host);
+
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: checkedLookup(options.resolve, options.allowLocal),
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') })
+        );
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Queue an outbox event for every endpoint subscribed to it
+ * Throws on database errors so the outbox retries the fan-out; re-running it
+ * is a no-op for endpoints that already have the event.
+ *
+ * @returns Number of endpoints the event was queued for
+ */
+export async function enqueueWebhookDeliveries(
+  sb: UntypedClient,
+  event: EventEnvelope<unknown>
+): Promise<number> {
+  const { data: endpoints, error } = await sb
+    .from('webhook_endpoints')
+    .select('id, club_id, event_types, is_active')
+    .eq('is_active', true)
+    .contains('event_types', [event.eventType]);
+
+  if (error) {
+    throw new Error(`Failed to load webhook endpoints: ${error.message}`);
+  }
+
+  const targets = ((endpoints || []) as WebhookEndpoint[]).filter((endpoint) =>
+    endpointReceives(endpoint, event)
+  );
+  if (targets.length === 0) return 0;
+
+  const { error: insertError } = await sb.from('webhook_deliveries').upsert(
+    targets.map((endpoint) => ({
+      endpoint_id: endpoint.id,
+      event_id: event.eventId,
+      event_type: event.eventType,
+      payload: event,
+    })),
+    { onConflict: 'endpoint_id,event_id', ignoreDuplicates: true }
+  );
+
+  if (insertError) {
+    throw new Error(`Failed to queue webhook deliveries: ${insertError.message}`);
+  }
+
+  return targets.length;
+}
+
+/**
+ * POST one event to an endpoint
+ * Never throws; network errors and timeouts are returned as a failed attempt.
+ */
+export async function sendWebhook(
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  event: EventEnvelope<unknown>,
+  options: {
+    now?: number;
+    timeoutMs?: number;
+    resolve?: ResolveHost;
+    allowLocal?: boolean;
+  } = {}
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(event);
+  const startedAt = Date.now();
+
+  try {
+    // DNS may have changed since the endpoint was registered
+    const response = await postWebhook(
+      endpoint.url,
+      buildWebhookHeaders(endpoint.secret, event, body, options.now),
+      body,
+      {
+        timeoutMs: options.timeoutMs ?? DELIVERY_TIMEOUT_MS,
+        resolve: options.resolve ?? resolveHost,
+        allowLocal: options.allowLocal ?? process.env.NODE_ENV !== 'production',
+      }
+    );
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      body: response.body,
+      error: null,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Send the due deliveries and record each attempt
+ */
+export async function dispatchWebhookDeliveries(
+  sb: UntypedClient,
+  options: { limit?: number; now?: Date; resolve?: ResolveHost } = {}
+): Promise<WebhookDispatchSummary> {
+  const summary: WebhookDispatchSummary = { claimed: 0, delivered: 0, retried: 0, deadLettered: 0 };
+
+  const { data: rows, error } = await sb.rpc('claim_webhook_deliveries', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const deliveries = (rows || []) as WebhookDelivery[];
+  summary.claimed = deliveries.length;
+  if (deliveries.length === 0) return summary;
+
+  const endpointIds = [...new Set(deliveries.map((delivery) => delivery.endpoint_id))];
+  const { data: endpoints, error: endpointsError } = await sb
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', endpointIds);
+
+  if (endpointsError) {
+    throw new Error(`Failed to load webhook endpoints: ${endpointsError.message}`);
+  }
+
+  const endpointById = new Map(
+    ((endpoints || []) as WebhookEndpoint[]).map((endpoint) => [endpoint.id, endpoint])
+  );
+
+  for (const delivery of deliveries) {
+    const endpoint = endpointById.get(delivery.endpoint_id);
+    // A disabled endpoint fails the attempt; the delivery can be replayed once it is enabled again
+    const result: WebhookAttemptResult =
+      endpoint && endpoint.is_active
+        ? await sendWebhook(endpoint, delivery.payload, {
+            now: options.now?.getTime(),
+            resolve: options.resolve,
+          })
+        : { ok: false, status: null, body: null, error: 'Endpoint is disabled', durationMs: 0 };
+
+    const outcome = planWebhookOutcome(delivery.attempts, result, options.now);
+
+    const { error: updateError } = await sb
+      .from('webhook_deliveries')
+      .update(outcome)
+      .eq('id', delivery.id)
+      .eq('status', 'processing');
+
+    if (updateError) {
+      console.error(`Failed to record webhook delivery ${delivery.id}:`, updateError);
+      continue;
+    }
+
+    if (outcome.status === 'delivered') summary.delivered++;
+    else if (outcome.status === 'dead_letter') summary.deadLettered++;
+    else summary.retried++;
+  }
+
+  return summary;
+}
+
+/**
+ * Queue deliveries to be sent again on the next run, whatever their status
+ * @returns Number of deliveries queued
+ */
+export async function replayWebhookDeliveries(
+  sb: UntypedClient,
+  deliveryIds: string[]
+): Promise<number> {
+  if (deliveryIds.length === 0) return 0;
+
+  const { data, error } = await sb
+    .from('webhook_deliveries')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_at: null,
+      last_error: null,
+    })
+    .in('id', deliveryIds)
+    .neq('status', 'processing')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to replay webhook deliveries: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
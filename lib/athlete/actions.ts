@@ -2,7 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { createAuditLog } from '@/lib/audit/actions';
+import { createAuditLog } from '@/lib/audit/log';
 import { Database } from '@/types/database.types';
 
 /**
@@ -131,7 +131,8 @@ export async function updateAthleteProfile(
       actionType: 'athlete.update',
       entityType: 'athlete',
       entityId: athleteId,
-      details: updateData,
+      before: athlete,
+      after: updateData,
     });
 
     // Revalidate the profile page
@@ -228,7 +229,7 @@ export async function updateAthleteProfileComplete(
     // Verify profile exists
     const { data: athlete, error: athleteError } = await (supabase as any)
       .from('profiles')
-      .select('id')
+      .select('*')
       .eq('id', athleteId)
       .single();
 
@@ -242,16 +243,17 @@ export async function updateAthleteProfileComplete(
     const lastName = nameParts.slice(1).join(' ') || nameParts[0];
 
     // Update athlete profile
+    const profileUpdate = {
+      first_name: firstName,
+      last_name: lastName,
+      nickname: data.personalInfo.nickname || null,
+      phone_number: data.personalInfo.phone_number,
+      health_notes: data.personalInfo.medical_conditions || null,
+      updated_at: new Date().toISOString(),
+    };
     const { error: updateError } = await (supabase as any)
       .from('profiles')
-      .update({
-        first_name: firstName,
-        last_name: lastName,
-        nickname: data.personalInfo.nickname || null,
-        phone_number: data.personalInfo.phone_number,
-        health_notes: data.personalInfo.medical_conditions || null,
-        updated_at: new Date().toISOString(),
-      })
+      .update(profileUpdate)
       .eq('id', athleteId);
 
     if (updateError) {
@@ -340,11 +342,12 @@ export async function updateAthleteProfileComplete(
     // Log audit event
     await createAuditLog({
       userId: user.id,
-      actionType: 'athlete.update' as any,
+      actionType: 'athlete.update',
       entityType: 'athlete',
       entityId: athleteId,
+      before: athlete,
+      after: profileUpdate,
       details: {
-        personal_info: data.personalInfo,
         documents_updated: Object.keys(data.documents).filter(
           (key) => data.documents[key as keyof typeof data.documents] !== null
         ),
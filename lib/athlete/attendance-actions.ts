@@ -2,19 +2,58 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { createAuditLog } from '@/lib/audit/actions';
-import { Database } from '@/types/database.types';
-import { invalidatePattern } from '@/lib/utils/cache';
+import { createAuditLog } from '@/lib/audit/log';
+import { Database, Json } from '@/types/database.types';
+import { attendanceCacheTags, invalidateTags } from '@/lib/utils/cache';
+import {
+  describeGeofenceReason,
+  evaluateGeofence,
+  isValidPosition,
+  selectGeofence,
+  type ClubGeofence,
+  type GeofenceResult,
+  type GeoPosition,
+} from '@/lib/athlete/geofence';
+import { getQRTokenSecret, verifySessionQRToken } from '@/lib/athlete/session-qr-signing';
+import { getAttendancePolicy, getLeavePolicy } from '@/lib/admin/settings-actions';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  calculateAttendanceRate,
+  evaluateCheckIn,
+  isAutoAbsentDue,
+} from '@/lib/utils/attendance-policy';
+import {
+  evaluateLeaveRequest,
+  getLeaveMonthRange,
+  isLeaveReasonCategory,
+  type LeavePolicyViolation,
+  type LeaveReasonCategory,
+} from '@/lib/utils/leave-policy';
+import {
+  sessionStartsAt,
+  wasMemberAt,
+  type ClubMembershipPeriod,
+} from '@/lib/utils/session-close-out';
 
 type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
+type TrainingSessionSeries = Database['public']['Tables']['training_session_series']['Row'];
 type AttendanceLog = Database['public']['Tables']['attendance']['Row'];
 type AttendanceLogInsert = Database['public']['Tables']['attendance']['Insert'];
 type LeaveRequest = Database['public']['Tables']['leave_requests']['Row'];
 type LeaveRequestInsert = Database['public']['Tables']['leave_requests']['Insert'];
+type Athlete = Database['public']['Tables']['athletes']['Row'];
+
+const LEAVE_ATTACHMENTS_BUCKET = 'leave-attachments';
+const LEAVE_ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+const LEAVE_ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
 
 interface SessionWithAttendance extends TrainingSession {
   attendance?: AttendanceLog | null;
   leave_request?: LeaveRequest | null;
+  series?: Pick<
+    TrainingSessionSeries,
+    'id' | 'frequency' | 'weekdays' | 'end_date' | 'occurrence_count'
+  > | null;
 }
 
 interface AttendanceStats {
@@ -29,6 +68,8 @@ interface AttendanceStats {
 /**
  * Get all training sessions for an athlete's club
  * Includes attendance status for each session
+ * Recurring series are returned as their individual occurrences, each with
+ * the series rule attached; skipped occurrences never appear
  * OPTIMIZED: Added pagination support
  */
 export async function getAthleteSessions(filter?: {
@@ -68,7 +109,19 @@ export async function getAthleteSessions(filter?: {
     // @ts-ignore
     let query = supabase
       .from('training_sessions')
-      .select('*', { count: 'exact' })
+      .select(
+        `
+        *,
+        training_session_series (
+          id,
+          frequency,
+          weekdays,
+          end_date,
+          occurrence_count
+        )
+      `,
+        { count: 'exact' }
+      )
       // @ts-ignore
       .eq('club_id', athlete.club_id)
       .order('session_date', { ascending: true })
@@ -123,11 +176,13 @@ export async function getAthleteSessions(filter?: {
         // @ts-ignore
         (request) => request.session_id === session.id
       );
+      // @ts-ignore - TypeScript has issues with nested query types
+      const { training_session_series: series, ...sessionFields } = session;
       return {
-        // @ts-ignore - TypeScript has issues with spread on Supabase types
-        ...session,
+        ...sessionFields,
         attendance: attendance || null,
         leave_request: leaveRequest || null,
+        series: series || null,
       };
     });
 
@@ -228,10 +283,22 @@ export async function getSessionDetails(sessionId: string): Promise<{
 
 /**
  * Check in to a training session
- * Validates time window: 30 minutes before to 15 minutes after start time
+ * Validates the club's check-in window (default: 30 minutes before to 15
+ * minutes after start time) and applies its late threshold
+ * When the club has a geofence for the session location, the device position
+ * is checked against it: clearly-outside check-ins are rejected or flagged
+ * depending on the fence, uncertain ones are saved but flagged for the coach.
+ * A rotating QR token from the coach's display can be passed to record a QR
+ * check-in; it must be valid for this session and not yet rotated out.
  */
-export async function athleteCheckIn(sessionId: string): Promise<{
+export async function athleteCheckIn(
+  sessionId: string,
+  position?: GeoPosition | null,
+  qrToken?: string
+): Promise<{
   success?: boolean;
+  flagged?: boolean;
+  flagReason?: string;
   error?: string;
 }> {
   try {
@@ -281,22 +348,38 @@ export async function athleteCheckIn(sessionId: string): Promise<{
       return { error: 'ตารางฝึกซ้อมนี้ถูกยกเลิกแล้ว' };
     }
 
-    // Validate check-in time window
-    // @ts-ignore
-    const sessionDateTime = new Date(`${session.session_date}T${session.start_time}`);
-    const now = new Date();
-    
-    // 30 minutes before
-    const earliestCheckIn = new Date(sessionDateTime.getTime() - 30 * 60 * 1000);
-    // 15 minutes after
-    const latestCheckIn = new Date(sessionDateTime.getTime() + 15 * 60 * 1000);
+    // Attendance is final once the session has been closed out
+    if ((session as TrainingSession).attendance_locked_at) {
+      return { error: 'ปิดการเช็คชื่อของตารางฝึกซ้อมนี้แล้ว' };
+    }
 
-    if (now < earliestCheckIn) {
-      return { error: 'ยังไม่ถึงเวลาเช็คอิน (สามารถเช็คอินได้ 30 นาทีก่อนเวลาเริ่ม)' };
+    // Verify rotating QR token (signature + rotation window, no DB lookup)
+    if (qrToken !== undefined) {
+      const secret = getQRTokenSecret();
+      if (!secret) {
+        console.error('QR_TOKEN_SECRET is not configured');
+        return { error: 'ระบบเช็คอินด้วย QR Code ยังไม่พร้อมใช้งาน' };
+      }
+
+      const verification = verifySessionQRToken(secret, qrToken, sessionId);
+      if (!verification.valid) {
+        return {
+          error:
+            verification.reason === 'expired'
+              ? 'QR Code หมดอายุแล้ว กรุณาสแกน QR Code ล่าสุดจากโค้ช'
+              : 'QR Code ไม่ถูกต้อง',
+        };
+      }
     }
 
-    if (now > latestCheckIn) {
-      return { error: 'หมดเวลาเช็คอินแล้ว (สามารถเช็คอินได้จนถึง 15 นาทีหลังเวลาเริ่ม)' };
+    // Validate check-in time window against the club's attendance policy
+    const { club_id: clubId, location, session_date, start_time } = session as TrainingSession;
+    const policy = await getAttendancePolicy(clubId);
+    const now = new Date();
+    const timing = evaluateCheckIn(now, session_date, start_time, policy);
+
+    if (!timing.allowed) {
+      return { error: timing.message };
     }
 
     // Check for existing attendance
@@ -317,12 +400,18 @@ export async function athleteCheckIn(sessionId: string): Promise<{
       return { error: 'คุณได้เช็คอินแล้ว' };
     }
 
-    // Determine status based on time
-    let status: 'present' | 'late' = 'present';
-    if (now > sessionDateTime) {
-      status = 'late';
+    // Verify device location against the club/location geofence
+    const geofence = await evaluateCheckInGeofence(supabase, clubId, location, position);
+
+    if (geofence.decision === 'reject') {
+      return {
+        error: `ไม่สามารถเช็คอินได้: ${describeGeofenceReason(geofence.reason!)} กรุณาเช็คอินที่สถานที่ฝึกซ้อม`,
+      };
     }
 
+    // Status from the policy's late threshold
+    const status = timing.status;
+
     // Create attendance record
     const attendanceData: AttendanceLogInsert = {
       session_id: sessionId,
@@ -330,8 +419,14 @@ export async function athleteCheckIn(sessionId: string): Promise<{
       athlete_id: athlete.id,
       status: status,
       check_in_time: now.toISOString(),
-      check_in_method: 'manual',
+      check_in_method: qrToken !== undefined ? 'qr' : 'manual',
       notes: null,
+      check_in_latitude: isValidPosition(position) ? position.latitude : null,
+      check_in_longitude: isValidPosition(position) ? position.longitude : null,
+      check_in_accuracy_m: isValidPosition(position) ? position.accuracy : null,
+      check_in_distance_m: geofence.distance_m,
+      geofence_flagged: geofence.decision === 'flag',
+      geofence_flag_reason: geofence.decision === 'flag' ? geofence.reason : null,
     };
 
     // @ts-ignore
@@ -354,15 +449,32 @@ export async function athleteCheckIn(sessionId: string): Promise<{
       entityType: 'attendance_log',
       // @ts-ignore
       entityId: newAttendance.id,
-      details: { session_id: sessionId, status, method: 'self_checkin' },
+      after: attendanceData,
+      details: {
+        session_id: sessionId,
+        status,
+        method: qrToken !== undefined ? 'qr' : 'self_checkin',
+        geofence_decision: geofence.decision,
+        geofence_reason: geofence.reason,
+        distance_m: geofence.distance_m,
+      },
     });
 
     revalidatePath('/dashboard/athlete/schedule');
     revalidatePath('/dashboard/athlete/attendance');
 
     // Invalidate stats cache
-    invalidatePattern('attendance-stats:.*');
-    invalidatePattern('club-stats:.*');
+    await invalidateTags(
+      attendanceCacheTags({ clubId, sessionId, athleteId: (athlete as { id: string }).id })
+    );
+
+    if (geofence.decision === 'flag') {
+      return {
+        success: true,
+        flagged: true,
+        flagReason: describeGeofenceReason(geofence.reason!),
+      };
+    }
 
     return { success: true };
   } catch (error) {
@@ -371,15 +483,98 @@ export async function athleteCheckIn(sessionId: string): Promise<{
   }
 }
 
+/**
+ * Load the club's geofences and evaluate the check-in position
+ * A failed lookup is logged and treated as "no fence" so an outage of the
+ * geofence table never blocks check-in.
+ */
+async function evaluateCheckInGeofence(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  clubId: string,
+  location: string | null,
+  position: GeoPosition | null | undefined
+): Promise<GeofenceResult> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: fences, error } = await (supabase.from('check_in_geofences') as any)
+    .select('id, location, latitude, longitude, radius_m, enforcement, is_active')
+    .eq('club_id', clubId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Geofence lookup error:', error);
+    return evaluateGeofence(null, position);
+  }
+
+  return evaluateGeofence(selectGeofence((fences || []) as ClubGeofence[], location), position);
+}
+
+/**
+ * Upload a supporting document (e.g. a medical certificate) for a leave request
+ * Returns the storage path to pass to requestLeave as `attachmentPath`
+ */
+export async function uploadLeaveAttachment(
+  file: File
+): Promise<{ data?: { path: string }; error?: string }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+    }
+
+    if (!LEAVE_ATTACHMENT_TYPES.includes(file.type)) {
+      return { error: 'รองรับเฉพาะไฟล์ PDF, JPG, PNG หรือ WebP' };
+    }
+
+    if (file.size > LEAVE_ATTACHMENT_MAX_SIZE) {
+      return { error: 'ขนาดไฟล์ต้องไม่เกิน 10MB' };
+    }
+
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${user.id}/${Date.now()}.${fileExt}`;
+
+    const { data, error } = await supabase.storage
+      .from(LEAVE_ATTACHMENTS_BUCKET)
+      .upload(filePath, file, { cacheControl: '3600', upsert: false });
+
+    if (error) {
+      console.error('Leave attachment upload error:', error);
+      return { error: 'ไม่สามารถอัปโหลดไฟล์ได้' };
+    }
+
+    return { data: { path: data.path } };
+  } catch (error) {
+    console.error('Unexpected error in uploadLeaveAttachment:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
 /**
  * Request leave for a training session
- * Must be at least 2 hours before session start
- * Reason must be at least 10 characters
+ * Reason must be at least 10 characters. The request is checked against the
+ * club leave policy: requests within policy are approved automatically (when
+ * the club allows it); requests that break a rule are returned with the
+ * violations unless the athlete chooses to send them to the coach anyway.
  */
 export async function requestLeave(data: {
   sessionId: string;
   reason: string;
-}): Promise<{ success?: boolean; error?: string }> {
+  category?: LeaveReasonCategory;
+  /** Path returned by uploadLeaveAttachment */
+  attachmentPath?: string | null;
+  /** Send the request for coach review even though it breaks the leave policy */
+  acknowledgeViolations?: boolean;
+}): Promise<{
+  success?: boolean;
+  data?: { id: string; status: 'pending' | 'approved'; violations: LeavePolicyViolation[] };
+  error?: string;
+  violations?: LeavePolicyViolation[];
+}> {
   try {
     const supabase = await createClient();
 
@@ -394,60 +589,67 @@ export async function requestLeave(data: {
     }
 
     // Get athlete profile
-    const { data: athlete, error: athleteError } = await supabase
+    const { data: athleteRow, error: athleteError } = await supabase
       .from('athletes')
       .select('*')
       .eq('user_id', user.id)
       .single();
 
-    if (athleteError || !athlete) {
+    if (athleteError || !athleteRow) {
       return { error: 'ไม่พบข้อมูลนักกีฬา' };
     }
 
+    const athlete = athleteRow as Pick<Athlete, 'id' | 'club_id'>;
+
     // Validate reason
     if (!data.reason || data.reason.trim().length < 10) {
       return { error: 'กรุณาระบุเหตุผลอย่างน้อย 10 ตัวอักษร' };
     }
 
+    const category = data.category ?? 'other';
+    if (!isLeaveReasonCategory(category)) {
+      return { error: 'ประเภทเหตุผลการลาไม่ถูกต้อง' };
+    }
+
+    // Attachments must have been uploaded by this athlete
+    const attachmentPath = data.attachmentPath || null;
+    if (attachmentPath && !attachmentPath.startsWith(`${user.id}/`)) {
+      return { error: 'ไฟล์แนบไม่ถูกต้อง' };
+    }
+
     // Get session
-    const { data: session, error: sessionError } = await supabase
+    const { data: sessionRow, error: sessionError } = await supabase
       .from('training_sessions')
       .select('*')
       .eq('id', data.sessionId)
       .single();
 
-    if (sessionError || !session) {
+    if (sessionError || !sessionRow) {
       return { error: 'ไม่พบตารางฝึกซ้อม' };
     }
 
+    const session = sessionRow as TrainingSession;
+
     // Verify session belongs to athlete's club
-    // @ts-ignore
     if (session.club_id !== athlete.club_id) {
       return { error: 'คุณไม่สามารถแจ้งลาในตารางของสโมสรอื่นได้' };
     }
 
     // Check if session is cancelled
-    // @ts-ignore
     if (session.status === 'cancelled') {
       return { error: 'ตารางฝึกซ้อมนี้ถูกยกเลิกแล้ว' };
     }
 
-    // Validate timing - must be at least 2 hours before session
-    // @ts-ignore
-    const sessionDateTime = new Date(`${session.session_date}T${session.start_time}`);
     const now = new Date();
-    const twoHoursFromNow = new Date(now.getTime() + 2 * 60 * 60 * 1000);
-
-    if (sessionDateTime < twoHoursFromNow) {
-      return { error: 'ต้องแจ้งลาล่วงหน้าอย่างน้อย 2 ชั่วโมงก่อนเวลาเริ่ม' };
+    if (new Date(`${session.session_date}T${session.start_time}`) <= now) {
+      return { error: 'ตารางฝึกซ้อมนี้เริ่มไปแล้ว ไม่สามารถแจ้งลาได้' };
     }
 
     // Check for existing leave request
     const { data: existingRequest, error: checkError } = await supabase
       .from('leave_requests')
-      .select('*')
+      .select('id')
       .eq('session_id', data.sessionId)
-      // @ts-ignore
       .eq('athlete_id', athlete.id)
       .maybeSingle();
 
@@ -463,9 +665,8 @@ export async function requestLeave(data: {
     // Check if already checked in
     const { data: existingAttendance, error: attendanceCheckError } = await supabase
       .from('attendance')
-      .select('*')
+      .select('id')
       .eq('training_session_id', data.sessionId)
-      // @ts-ignore
       .eq('athlete_id', athlete.id)
       .maybeSingle();
 
@@ -477,53 +678,171 @@ export async function requestLeave(data: {
       return { error: 'คุณได้เช็คอินแล้ว ไม่สามารถแจ้งลาได้' };
     }
 
-    // Create leave request
+    // Pending and approved leaves in the same month count towards the limit
+    const month = getLeaveMonthRange(session.session_date);
+    const { count: leavesThisMonth, error: countError } = await supabase
+      .from('leave_requests')
+      .select('id, training_sessions!inner(session_date)', { count: 'exact', head: true })
+      .eq('athlete_id', athlete.id)
+      .in('status', ['pending', 'approved'])
+      .gte('training_sessions.session_date', month.start)
+      .lte('training_sessions.session_date', month.end);
+
+    if (countError) {
+      console.error('Leave count error:', countError);
+      return { error: 'เกิดข้อผิดพลาดในการตรวจสอบข้อมูล' };
+    }
+
+    const policy = await getLeavePolicy(session.club_id);
+    const evaluation = evaluateLeaveRequest({
+      now,
+      sessionDate: session.session_date,
+      startTime: session.start_time,
+      category,
+      hasAttachment: !!attachmentPath,
+      leavesThisMonth: leavesThisMonth ?? 0,
+      policy,
+    });
+
+    // Tell the athlete what is wrong before anything is saved
+    if (evaluation.violations.length > 0 && !data.acknowledgeViolations) {
+      return {
+        error: evaluation.violations.map((violation) => violation.message).join('\n'),
+        violations: evaluation.violations,
+      };
+    }
+
+    // Create leave request (always pending; approval happens below)
     const leaveRequestData: LeaveRequestInsert = {
       session_id: data.sessionId,
-      // @ts-ignore
       athlete_id: athlete.id,
       reason: data.reason.trim(),
+      reason_category: category,
+      attachment_path: attachmentPath,
+      policy_violations: evaluation.violations as unknown as Json,
       status: 'pending',
       requested_at: now.toISOString(),
     };
 
-    // @ts-ignore
     const { data: newRequest, error: insertError } = await supabase
       .from('leave_requests')
-      // @ts-ignore
-      .insert(leaveRequestData)
-      .select()
-      .single();
+      .insert(leaveRequestData as never)
+      .select('id')
+      .single<{ id: string }>();
 
-    if (insertError) {
+    if (insertError || !newRequest) {
       console.error('Insert error:', insertError);
       return { error: 'เกิดข้อผิดพลาดในการบันทึกคำขอลา' };
     }
 
-    // Log audit event (using attendance type as leave_request not yet in audit types)
+    const approved =
+      evaluation.autoApprove &&
+      (await autoApproveLeaveRequest({
+        id: newRequest.id,
+        sessionId: data.sessionId,
+        athleteId: athlete.id,
+        reason: leaveRequestData.reason,
+      }));
+
+    // Log audit events
     await createAuditLog({
       userId: user.id,
-      actionType: 'attendance.create',
-      entityType: 'attendance_log',
-      // @ts-ignore
+      actionType: 'leave_request.create',
+      entityType: 'leave_request',
       entityId: newRequest.id,
-      details: { 
-        type: 'leave_request',
-        session_id: data.sessionId, 
-        reason: data.reason 
+      after: { ...leaveRequestData },
+      details: {
+        violations: evaluation.violations.map((violation) => violation.rule),
       },
     });
+    if (approved) {
+      await createAuditLog({
+        userId: user.id,
+        actionType: 'leave_request.approve',
+        entityType: 'leave_request',
+        entityId: newRequest.id,
+        before: { status: 'pending', auto_approved: false },
+        after: { status: 'approved', auto_approved: true },
+      });
+    }
 
     revalidatePath('/dashboard/athlete/schedule');
     revalidatePath('/dashboard/athlete/attendance');
+    revalidatePath('/dashboard/coach/leave-requests');
 
-    return { success: true };
+    if (approved) {
+      await invalidateTags(
+        attendanceCacheTags({ sessionId: data.sessionId, athleteId: athlete.id })
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        id: newRequest.id,
+        status: approved ? 'approved' : 'pending',
+        violations: evaluation.violations,
+      },
+    };
   } catch (error) {
     console.error('Unexpected error in requestLeave:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
 
+/**
+ * Approve a within-policy leave request and record the athlete as excused
+ * Athletes cannot approve their own requests under RLS, so this uses the
+ * service-role client. On failure the request simply stays pending for the
+ * coach.
+ */
+async function autoApproveLeaveRequest(request: {
+  id: string;
+  sessionId: string;
+  athleteId: string;
+  reason: string;
+}): Promise<boolean> {
+  try {
+    const admin = createAdminClient();
+
+    const { error: approveError } = await admin
+      .from('leave_requests')
+      .update({
+        status: 'approved',
+        auto_approved: true,
+        reviewed_at: new Date().toISOString(),
+      } as never)
+      .eq('id', request.id)
+      .eq('status', 'pending');
+
+    if (approveError) {
+      console.error('Leave auto-approval error:', approveError);
+      return false;
+    }
+
+    const { error: attendanceError } = await admin.from('attendance').upsert(
+      {
+        training_session_id: request.sessionId,
+        athlete_id: request.athleteId,
+        status: 'excused',
+        check_in_method: 'auto',
+        notes: `Leave approved: ${request.reason}`,
+      } as never,
+      { onConflict: 'training_session_id,athlete_id', ignoreDuplicates: true }
+    );
+
+    if (attendanceError) {
+      // Close-out still turns approved leave into excused
+      console.error('Attendance creation error:', attendanceError);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Unexpected error in autoApproveLeaveRequest:', error);
+    return false;
+  }
+}
+
 /**
  * Get attendance history for the current athlete
  */
@@ -662,22 +981,73 @@ export async function getAttendanceStats(filter?: {
       return { error: 'เกิดข้อผิดพลาดในการดึงข้อมูลสถิติ' };
     }
 
+    // @ts-ignore
+    const clubId: string = athlete.club_id;
+    const athleteId = (athlete as { id: string }).id;
+    const policy = await getAttendancePolicy(clubId);
+
+    // Sessions that ended without a record count as absent when the club auto-marks absences,
+    // until close-out locks the session and writes the absent rows itself. Only sessions the
+    // athlete was a member for count, as in close-out
+    let autoAbsentCount = 0;
+    if (policy.auto_mark_absent) {
+      let sessionsQuery = supabase
+        .from('training_sessions')
+        .select('id, session_date, start_time, end_time, status')
+        .eq('club_id', clubId)
+        .is('attendance_locked_at', null)
+        .lte('session_date', new Date().toISOString().split('T')[0]);
+
+      if (filter?.startDate) {
+        sessionsQuery = sessionsQuery.gte('session_date', filter.startDate);
+      }
+
+      if (filter?.endDate) {
+        sessionsQuery = sessionsQuery.lte('session_date', filter.endDate);
+      }
+
+      const { data: sessions, error: sessionsError } = await sessionsQuery;
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('athlete_club_memberships')
+        .select('athlete_id, joined_at, left_at')
+        .eq('athlete_id', athleteId)
+        .eq('club_id', clubId);
+
+      if (sessionsError || membershipsError) {
+        console.error('Sessions query error:', sessionsError || membershipsError);
+      } else {
+        const recorded = new Set(
+          (attendance || []).map((a) => (a as { training_session_id?: string }).training_session_id)
+        );
+        const periods = (memberships || []) as ClubMembershipPeriod[];
+        const now = new Date();
+        autoAbsentCount = ((sessions || []) as TrainingSession[]).filter(
+          (s) =>
+            s.status !== 'cancelled' &&
+            !recorded.has(s.id) &&
+            isAutoAbsentDue(now, s.session_date, s.end_time, policy) &&
+            wasMemberAt(periods, athleteId, sessionStartsAt(s))
+        ).length;
+      }
+    }
+
     // Calculate statistics
-    const totalSessions = attendance?.length || 0;
+    const totalSessions = (attendance?.length || 0) + autoAbsentCount;
     // @ts-ignore - TypeScript has issues with nested query types
     const presentCount = attendance?.filter((a) => a.status === 'present').length || 0;
-    // @ts-ignore
-    const absentCount = attendance?.filter((a) => a.status === 'absent').length || 0;
+    const absentCount =
+      // @ts-ignore
+      (attendance?.filter((a) => a.status === 'absent').length || 0) + autoAbsentCount;
     // @ts-ignore
     const excusedCount = attendance?.filter((a) => a.status === 'excused').length || 0;
     // @ts-ignore
     const lateCount = attendance?.filter((a) => a.status === 'late').length || 0;
 
-    // Calculate attendance rate (present + late / total)
-    const attendanceRate =
-      totalSessions > 0
-        ? Math.round(((presentCount + lateCount) / totalSessions) * 100 * 10) / 10
-        : 0;
+    // Attendance rate per club policy (late counts as present by default)
+    const attendanceRate = calculateAttendanceRate(
+      { present: presentCount, late: lateCount, total: totalSessions },
+      policy
+    );
 
     const stats: AttendanceStats = {
       totalSessions,
@@ -0,0 +1,168 @@
+/**
+ * Check-in Geofence Rules
+ *
+ * Pure helpers that decide whether a self check-in was made close enough to
+ * the training location. The server action loads the club's geofences and
+ * the device position; everything here works on plain data so the rules can
+ * be property-tested without a database or a browser.
+ *
+ * Decisions take the reported GPS accuracy into account:
+ * - accept: the reported position is inside the fence and accurate enough
+ * - reject: the athlete is outside the fence even in the most favourable
+ *   reading of the accuracy circle (only when the fence enforces rejection)
+ * - flag: anything in between; the check-in is saved but marked for the coach
+ */
+
+import { normalizeLocation } from '@/lib/coach/session-conflicts';
+import type { GeofenceEnforcement, GeofenceFlagReason } from '@/types/database.types';
+
+export type { GeofenceEnforcement, GeofenceFlagReason };
+
+export type GeofenceDecision = 'accept' | 'flag' | 'reject';
+
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  /** Accuracy radius reported by the device, in meters */
+  accuracy: number;
+}
+
+export interface Geofence {
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+  enforcement: GeofenceEnforcement;
+}
+
+export interface ClubGeofence extends Geofence {
+  id: string;
+  /** Session location this fence applies to; null = club-wide default */
+  location: string | null;
+  is_active?: boolean;
+}
+
+export interface GeofenceResult {
+  decision: GeofenceDecision;
+  /**
+   * Why the check-in was flagged or rejected
+   * - missing_location: no usable coordinates were sent
+   * - low_accuracy: the device fix is too coarse to trust
+   * - near_boundary: reported position is outside, but within its accuracy of the fence
+   * - outside: outside the fence even allowing for accuracy
+   */
+  reason: GeofenceFlagReason | null;
+  /** Distance from the fence centre in meters, null when not measured */
+  distance_m: number | null;
+}
+
+/** Fixes coarser than this are never accepted automatically */
+export const MAX_ACCEPTED_ACCURACY_M = 100;
+
+const EARTH_RADIUS_M = 6_371_000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Check that a position has finite, in-range coordinates and accuracy
+ */
+export function isValidPosition(position: GeoPosition | null | undefined): position is GeoPosition {
+  if (!position) return false;
+  const { latitude, longitude, accuracy } = position;
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Number.isFinite(accuracy) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    accuracy >= 0
+  );
+}
+
+/**
+ * Great-circle distance between two points (haversine), in meters
+ */
+export function distanceInMeters(
+  from: Pick<GeoPosition, 'latitude' | 'longitude'>,
+  to: Pick<GeoPosition, 'latitude' | 'longitude'>
+): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Pick the fence for a session: a location-specific fence wins over the
+ * club-wide default. Inactive fences are ignored.
+ */
+export function selectGeofence(
+  fences: ClubGeofence[],
+  location: string | null
+): ClubGeofence | null {
+  const active = fences.filter((fence) => fence.is_active !== false);
+  const target = location ? normalizeLocation(location) : null;
+
+  const specific = target
+    ? active.find((fence) => fence.location && normalizeLocation(fence.location) === target)
+    : undefined;
+
+  return specific ?? active.find((fence) => !fence.location) ?? null;
+}
+
+/**
+ * Decide whether a check-in position satisfies a geofence
+ *
+ * @param fence - Fence for the session, or null when none is configured
+ * @param position - Device position, or null when the athlete did not share one
+ */
+export function evaluateGeofence(
+  fence: Geofence | null,
+  position: GeoPosition | null | undefined
+): GeofenceResult {
+  if (!fence) {
+    return { decision: 'accept', reason: null, distance_m: null };
+  }
+
+  const failure: GeofenceDecision = fence.enforcement === 'reject' ? 'reject' : 'flag';
+
+  if (!isValidPosition(position)) {
+    return { decision: failure, reason: 'missing_location', distance_m: null };
+  }
+
+  const distance = distanceInMeters(fence, position);
+
+  if (distance - position.accuracy > fence.radius_m) {
+    return { decision: failure, reason: 'outside', distance_m: distance };
+  }
+
+  if (position.accuracy > MAX_ACCEPTED_ACCURACY_M) {
+    return { decision: 'flag', reason: 'low_accuracy', distance_m: distance };
+  }
+
+  if (distance > fence.radius_m) {
+    return { decision: 'flag', reason: 'near_boundary', distance_m: distance };
+  }
+
+  return { decision: 'accept', reason: null, distance_m: distance };
+}
+
+/**
+ * Thai description of a flag reason for toasts and the attendance sheet
+ */
+export function describeGeofenceReason(reason: GeofenceFlagReason): string {
+  switch (reason) {
+    case 'missing_location':
+      return 'ไม่ได้รับตำแหน่งของอุปกรณ์';
+    case 'low_accuracy':
+      return 'ตำแหน่งของอุปกรณ์ไม่แม่นยำพอ';
+    case 'near_boundary':
+      return 'อยู่ใกล้ขอบเขตพื้นที่ฝึกซ้อม';
+    case 'outside':
+      return 'อยู่นอกพื้นที่ฝึกซ้อม';
+  }
+}
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface HomeTrainingLog {
   id: string;
@@ -86,6 +87,14 @@ export async function createHomeTrainingLog(input: CreateHomeTrainingLogInput) {
     return { error: 'ไม่สามารถบันทึกการฝึกได้' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'home_training_log.create',
+    entityType: 'home_training_log',
+    entityId: data.id,
+    after: data,
+  });
+
   revalidatePath('/dashboard/athlete/home-training');
   return { data };
 }
@@ -151,6 +160,13 @@ export async function updateHomeTrainingLog(
 ) {
   const supabase = await createClient();
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: before } = await (supabase as any)
+    .from('home_training_logs')
+    .select('*')
+    .eq('id', logId)
+    .maybeSingle();
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('home_training_logs')
@@ -165,6 +181,14 @@ export async function updateHomeTrainingLog(
     return { error: 'ไม่สามารถแก้ไขการฝึกได้' };
   }
 
+  await createAuditLog({
+    actionType: 'home_training_log.update',
+    entityType: 'home_training_log',
+    entityId: logId,
+    before,
+    after: { ...updates },
+  });
+
   revalidatePath('/dashboard/athlete/home-training');
   return { data };
 }
@@ -173,17 +197,28 @@ export async function deleteHomeTrainingLog(logId: string) {
   const supabase = await createClient();
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { data: deleted, error } = await (supabase as any)
     .from('home_training_logs')
     .delete()
     .eq('id', logId)
-    .eq('status', 'pending'); // Only allow deleting pending logs
+    .eq('status', 'pending') // Only allow deleting pending logs
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error('Error deleting home training log:', error);
     return { error: 'ไม่สามารถลบการฝึกได้' };
   }
 
+  if (deleted) {
+    await createAuditLog({
+      actionType: 'home_training_log.delete',
+      entityType: 'home_training_log',
+      entityId: logId,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/athlete/home-training');
   return { success: true };
 }
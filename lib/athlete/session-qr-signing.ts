@@ -0,0 +1,94 @@
+/**
+ * Training Session QR Token Signing (server only)
+ *
+ * Tokens are HMAC-SHA256 signed with a per-session key derived from
+ * QR_TOKEN_SECRET, so a scan can be verified from the token alone without
+ * storing tokens or looking them up. A screenshot stops working once its
+ * rotation window (plus the grace window) has passed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  QR_TOKEN_GRACE_WINDOWS,
+  formatSessionQRToken,
+  getTokenWindow,
+  getWindowEnd,
+  parseSessionQRToken,
+} from './session-qr-token';
+
+export type QRTokenRejection = 'malformed' | 'wrong_session' | 'expired' | 'invalid_signature';
+
+export type QRTokenVerification =
+  | { valid: true; sessionId: string; window: number }
+  | { valid: false; reason: QRTokenRejection };
+
+/**
+ * Secret used to derive session keys, or null when QR check-in is not configured
+ */
+export function getQRTokenSecret(): string | null {
+  return process.env.QR_TOKEN_SECRET || null;
+}
+
+function deriveSessionKey(secret: string, sessionId: string): Buffer {
+  return createHmac('sha256', secret).update(`training-session:${sessionId}`).digest();
+}
+
+function signWindow(secret: string, sessionId: string, window: number): string {
+  return createHmac('sha256', deriveSessionKey(secret, sessionId))
+    .update(`${sessionId}.${window}`)
+    .digest('base64url');
+}
+
+/**
+ * Issue the token for the current rotation window
+ */
+export function signSessionQRToken(
+  secret: string,
+  sessionId: string,
+  now: number = Date.now()
+): { token: string; expiresAt: string } {
+  const window = getTokenWindow(now);
+  return {
+    token: formatSessionQRToken({
+      sessionId,
+      window,
+      signature: signWindow(secret, sessionId, window),
+    }),
+    expiresAt: getWindowEnd(window).toISOString(),
+  };
+}
+
+/**
+ * Verify a scanned token
+ *
+ * @param expectedSessionId - Session the athlete is checking in to
+ */
+export function verifySessionQRToken(
+  secret: string,
+  token: string,
+  expectedSessionId: string,
+  now: number = Date.now()
+): QRTokenVerification {
+  const parts = parseSessionQRToken(token);
+  if (!parts) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (parts.sessionId !== expectedSessionId) {
+    return { valid: false, reason: 'wrong_session' };
+  }
+
+  const current = getTokenWindow(now);
+  // Allow one window ahead for small clock differences between servers
+  if (parts.window < current - QR_TOKEN_GRACE_WINDOWS || parts.window > current + 1) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const expected = Buffer.from(signWindow(secret, parts.sessionId, parts.window));
+  const received = Buffer.from(parts.signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  return { valid: true, sessionId: parts.sessionId, window: parts.window };
+}
@@ -0,0 +1,62 @@
+/**
+ * Training Session QR Token Format
+ *
+ * Rotating check-in tokens shown by the coach's QR display look like
+ * `ts1.<sessionId>.<window>.<signature>`, where `window` is the index of the
+ * 30-second rotation period the token was issued in. This module only knows
+ * the format and the clock maths so it can be used by the scanner in the
+ * browser; signing and verification live in session-qr-signing.ts.
+ */
+
+export const SESSION_QR_TOKEN_PREFIX = 'ts1';
+
+/** How often the displayed token changes */
+export const QR_TOKEN_ROTATION_SECONDS = 30;
+
+/**
+ * Number of earlier windows still accepted, so a code scanned just before it
+ * rotates (or read by a slow camera) is not rejected
+ */
+export const QR_TOKEN_GRACE_WINDOWS = 1;
+
+export interface SessionQRTokenParts {
+  sessionId: string;
+  window: number;
+  signature: string;
+}
+
+/**
+ * Rotation window index for a point in time
+ */
+export function getTokenWindow(now: number = Date.now()): number {
+  return Math.floor(now / (QR_TOKEN_ROTATION_SECONDS * 1000));
+}
+
+/**
+ * Time at which tokens issued in a window stop being displayed
+ */
+export function getWindowEnd(window: number): Date {
+  return new Date((window + 1) * QR_TOKEN_ROTATION_SECONDS * 1000);
+}
+
+export function formatSessionQRToken(parts: SessionQRTokenParts): string {
+  return [SESSION_QR_TOKEN_PREFIX, parts.sessionId, parts.window, parts.signature].join('.');
+}
+
+/**
+ * Split a scanned token into its parts
+ * @returns null when the text is not a training session token
+ */
+export function parseSessionQRToken(text: string): SessionQRTokenParts | null {
+  const segments = text.trim().split('.');
+  if (segments.length !== 4 || segments[0] !== SESSION_QR_TOKEN_PREFIX) return null;
+
+  const [, sessionId, window, signature] = segments;
+  if (!sessionId || !/^\d+$/.test(window) || !/^[A-Za-z0-9_-]+$/.test(signature)) return null;
+
+  return { sessionId, window: Number(window), signature };
+}
+
+export function isSessionQRToken(text: string): boolean {
+  return parseSessionQRToken(text) !== null;
+}
@@ -0,0 +1,106 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { revalidatePath } from 'next/cache';
+import { ageReferenceDate, recordRsvpResponse } from '@/lib/coach/tournament-entries';
+import {
+  canRespond,
+  requiresParentConsent,
+  validateRsvpReason,
+  type AthleteResponse,
+} from '@/lib/utils/tournament-rsvp';
+
+// Tournaments the signed-in athlete has been selected for or waitlisted on
+export async function getMyTournamentInvitations() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('tournament_participants')
+    .select(
+      `
+      *,
+      tournament:tournaments(id, name, sport_type, location, start_date, end_date, status),
+      category:tournament_categories(id, name)
+    `
+    )
+    .eq('athlete_id', user.id)
+    .order('added_at', { ascending: false });
+
+  if (error) return { error: error.message };
+
+  return { invitations: data };
+}
+
+// Confirm or decline a place; minors stay 'selected' until a parent consents
+export async function respondToTournamentInvitation(
+  participantId: string,
+  response: AthleteResponse,
+  reason?: string
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  const reasonError = validateRsvpReason(response === 'declined', reason);
+  if (reasonError) return { error: reasonError };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = supabase as any;
+
+  const { data: participant, error: participantError } = await sb
+    .from('tournament_participants')
+    .select(
+      `
+      id, tournament_id, status, athlete_response, parent_consent, consent_required,
+      tournament:tournaments(start_date, age_reference_date)
+    `
+    )
+    .eq('id', participantId)
+    .eq('athlete_id', user.id)
+    .single();
+
+  if (participantError || !participant) return { error: 'ไม่พบการคัดเลือกนี้' };
+  if (!canRespond(participant.status)) {
+    return { error: 'ไม่สามารถตอบรับได้ในสถานะปัจจุบัน' };
+  }
+
+  const { data: athlete } = await sb
+    .from('athletes')
+    .select('date_of_birth')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  // Athletes can't update their own entry under RLS; the checks above stand in for it
+  const result = await recordRsvpResponse(
+    createAdminClient(),
+    participant,
+    {
+      athlete_response: response,
+      athlete_responded_at: new Date().toISOString(),
+      consent_required: requiresParentConsent(
+        athlete?.date_of_birth ?? null,
+        ageReferenceDate(participant.tournament)
+      ),
+    },
+    {
+      responder_type: 'athlete',
+      responder_id: user.id,
+      response,
+      reason: reason?.trim() || null,
+    }
+  );
+
+  if (result.error) return { error: result.error };
+
+  revalidatePath('/dashboard/athlete/tournaments');
+  revalidatePath(`/dashboard/coach/tournaments/${participant.tournament_id}`);
+  return { status: result.status };
+}
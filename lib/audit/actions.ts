@@ -1,12 +1,25 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import type { AuditChanges, AuditRecord } from '@/lib/audit/diff';
 
 export type AuditActionType =
   | 'user.login'
   | 'user.logout'
   | 'user.register'
   | 'user.delete'
+  | 'user.password_change'
+  | 'parent_user.create'
+  | 'parent_user.login'
+  | 'parent_user.logout'
+  | 'parent_user.password_change'
+  | 'parent_user.password_reset_request'
+  | 'parent_user.password_reset'
+  | 'parent_connection.create'
+  | 'parent_connection.verify'
+  | 'parent_connection.update'
+  | 'parent_connection.resend_verification'
+  | 'parent_connection.delete'
   | 'club.create'
   | 'club.update'
   | 'club.delete'
@@ -21,93 +34,168 @@ export type AuditActionType =
   | 'training_session.create'
   | 'training_session.update'
   | 'training_session.delete'
+  | 'training_session.conflict_override'
+  | 'training_session.close_out'
+  | 'training_session.reopen_attendance'
+  | 'training_session_series.create'
+  | 'training_session_series.update'
+  | 'training_session_series.cancel'
   | 'attendance.record'
   | 'attendance.create'
   | 'attendance.update'
+  | 'leave_request.create'
+  | 'leave_request.approve'
+  | 'leave_request.reject'
   | 'performance.record'
+  | 'performance.update'
   | 'announcement.create'
-  | 'announcement.update';
+  | 'announcement.update'
+  | 'announcement.delete'
+  | 'membership_application.submit'
+  | 'membership_application.approve'
+  | 'membership_application.reject'
+  | 'activity.create'
+  | 'activity.generate_qr'
+  | 'activity_registration.create'
+  | 'activity_registration.cancel'
+  | 'activity_registration.approve'
+  | 'activity_registration.reject'
+  | 'activity_registration.delete'
+  | 'activity_checkin.create'
+  | 'activity_checkin.check_out'
+  | 'tournament.create'
+  | 'tournament.update'
+  | 'tournament.delete'
+  | 'tournament_category.create'
+  | 'tournament_category.delete'
+  | 'tournament_participant.create'
+  | 'tournament_participant.update'
+  | 'tournament_participant.promote'
+  | 'tournament_participant.delete'
+  | 'tournament_event.create'
+  | 'tournament_event.delete'
+  | 'tournament_event.generate_bracket'
+  | 'tournament_match.record_result'
+  | 'tournament_result.record'
+  | 'goal.create'
+  | 'goal.update'
+  | 'goal.delete'
+  | 'progress_report.create'
+  | 'progress_report.publish'
+  | 'progress_report.delete'
+  | 'home_training_log.create'
+  | 'home_training_log.update'
+  | 'home_training_log.delete'
+  | 'home_training_log.review'
+  | 'home_training_feedback.create'
+  | 'home_training_feedback.update'
+  | 'home_training_feedback.delete'
+  | 'system_setting.update'
+  | 'webhook_endpoint.create'
+  | 'webhook_endpoint.update'
+  | 'webhook_endpoint.rotate_secret'
+  | 'webhook_endpoint.delete'
+  | 'webhook_delivery.replay'
+  | 'email.send_test'
+  | 'email_message.retry'
+  | 'email_suppression.delete'
+  | 'rate_limit.reset'
+  | 'feature_flag.create'
+  | 'feature_flag.update'
+  | 'feature_flag.delete'
+  | 'audit_log.export';
 
 export type AuditEntityType =
   | 'user'
+  | 'parent_user'
+  | 'parent_connection'
   | 'club'
   | 'coach'
   | 'athlete'
   | 'training_session'
+  | 'training_session_series'
   | 'attendance_log'
+  | 'leave_request'
   | 'performance_record'
-  | 'announcement';
+  | 'announcement'
+  | 'membership_application'
+  | 'activity'
+  | 'activity_registration'
+  | 'activity_checkin'
+  | 'tournament'
+  | 'tournament_category'
+  | 'tournament_participant'
+  | 'tournament_event'
+  | 'tournament_match'
+  | 'tournament_result'
+  | 'athlete_goal'
+  | 'progress_report'
+  | 'home_training_log'
+  | 'home_training_feedback'
+  | 'system_setting'
+  | 'webhook_endpoint'
+  | 'email_message'
+  | 'email_suppression'
+  | 'rate_limit'
+  | 'feature_flag'
+  | 'audit_log';
+
+type AuditUserRole = 'admin' | 'coach' | 'athlete';
 
 export interface AuditLogEntry {
   id: string;
   user_id: string | null;
-  user_role: 'admin' | 'coach' | 'athlete' | null;
+  user_role: AuditUserRole | null;
   action_type: AuditActionType;
   entity_type: AuditEntityType;
   entity_id: string | null;
   details: Record<string, unknown> | null;
+  changes: AuditChanges | null;
+  correlation_id: string | null;
   ip_address: string | null;
   user_agent: string | null;
   created_at: string;
+  /** Position in the hash chain (set by the database) */
+  sequence: number;
+  /** row_hash of the previous entry */
+  previous_hash: string;
+  /** SHA-256 of this entry and previous_hash */
+  row_hash: string;
 }
 
 export interface CreateAuditLogParams {
+  /** Entries without a signed-in user only; otherwise always the signed-in user */
   userId?: string;
-  userRole?: 'admin' | 'coach' | 'athlete';
+  /** Entries without a signed-in user only; otherwise the signed-in user's role */
+  userRole?: AuditUserRole;
   actionType: AuditActionType;
   entityType: AuditEntityType;
   entityId?: string;
   details?: Record<string, unknown>;
+  /** Record before the mutation; omit for a create */
+  before?: AuditRecord | null;
+  /** Record (or the fields written) after the mutation; omit for a delete */
+  after?: AuditRecord | null;
+  /** Defaults to the X-Correlation-ID of the current request */
+  correlationId?: string;
   ipAddress?: string;
   userAgent?: string;
 }
 
-/**
- * Create an audit log entry
- */
-export async function createAuditLog(params: CreateAuditLogParams) {
-  try {
-    const supabase = await createClient();
-
-    const { data, error } = await supabase
-      .from('audit_logs')
-      .insert({
-        user_id: params.userId || null,
-        user_role: params.userRole || null,
-        action_type: params.actionType,
-        entity_type: params.entityType,
-        entity_id: params.entityId || null,
-        details: params.details || null,
-        ip_address: params.ipAddress || null,
-        user_agent: params.userAgent || null,
-      } as any)
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    return { success: true, data };
-  } catch (error) {
-    console.error('Failed to create audit log:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to create audit log',
-    };
-  }
-}
-
-/**
- * Get audit logs with optional filters
- */
-export async function getAuditLogs(params?: {
+export interface AuditLogFilters {
   userId?: string;
   actionType?: AuditActionType;
   entityType?: AuditEntityType;
+  entityId?: string;
+  correlationId?: string;
   startDate?: string;
   endDate?: string;
-  limit?: number;
-  offset?: number;
-}) {
+}
+
+/**
+ * Get audit logs with optional filters
+ */
+export async function getAuditLogs(params?: AuditLogFilters & { limit?: number; offset?: number }) {
   try {
     const supabase = await createClient();
 
@@ -128,6 +216,14 @@ export async function getAuditLogs(params?: {
       query = query.eq('entity_type', params.entityType);
     }
 
+    if (params?.entityId) {
+      query = query.eq('entity_id', params.entityId);
+    }
+
+    if (params?.correlationId) {
+      query = query.eq('correlation_id', params.correlationId);
+    }
+
     if (params?.startDate) {
       query = query.gte('created_at', params.startDate);
     }
@@ -160,13 +256,7 @@ export async function getAuditLogs(params?: {
 /**
  * Get audit log count
  */
-export async function getAuditLogCount(params?: {
-  userId?: string;
-  actionType?: AuditActionType;
-  entityType?: AuditEntityType;
-  startDate?: string;
-  endDate?: string;
-}) {
+export async function getAuditLogCount(params?: AuditLogFilters) {
   try {
     const supabase = await createClient();
 
@@ -186,6 +276,14 @@ export async function getAuditLogCount(params?: {
       query = query.eq('entity_type', params.entityType);
     }
 
+    if (params?.entityId) {
+      query = query.eq('entity_id', params.entityId);
+    }
+
+    if (params?.correlationId) {
+      query = query.eq('correlation_id', params.correlationId);
+    }
+
     if (params?.startDate) {
       query = query.gte('created_at', params.startDate);
     }
@@ -207,3 +305,28 @@ export async function getAuditLogCount(params?: {
     };
   }
 }
+
+/**
+ * Every audit entry for a single record, oldest first
+ */
+export async function getAuditTimeline(entityType: AuditEntityType, entityId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return { success: true, data: (data ?? []) as AuditLogEntry[] };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch audit timeline',
+    };
+  }
+}
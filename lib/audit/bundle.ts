@@ -0,0 +1,191 @@
+/**
+ * Signed Audit Bundles (server only)
+ *
+ * An export of the hash-chained audit log for a date range, for auditors who
+ * have no access to the database. The bundle carries the entries, their chain
+ * hashes and the result of verifying the chain when it was exported, and is
+ * signed with Ed25519 so any later change to it can be detected with the
+ * published public key.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import type { AuditLogEntry } from '@/lib/audit/actions';
+
+/** previous_hash of the first entry in the chain */
+export const AUDIT_CHAIN_GENESIS = '0'.repeat(64);
+
+export type AuditChainIssueType = 'gap' | 'modified' | 'broken_link';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  /** Entry at which the problem was found */
+  sequence: number;
+  entryId: string;
+  /** For gaps, the sequences that are missing */
+  missingFrom?: number;
+  missingTo?: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  /** row_hash of the entry before the range, which the range links to */
+  previousHash: string | null;
+  /** row_hash of the last entry in the range */
+  headHash: string | null;
+  issues: AuditChainIssue[];
+}
+
+export interface AuditBundle {
+  version: 1;
+  generatedAt: string;
+  generatedBy: string;
+  range: { startDate: string | null; endDate: string | null };
+  verification: AuditChainVerification;
+  entries: AuditLogEntry[];
+}
+
+export interface SignedAuditBundle extends AuditBundle {
+  signature: {
+    algorithm: 'Ed25519';
+    /** SHA-256 fingerprint of the public key, to match it with the published key */
+    keyId: string;
+    publicKey: string;
+    /** Base64 signature of canonicalJson(bundle without signature) */
+    value: string;
+  };
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same bundle always
+ * serializes to the same bytes
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Ed25519 private key from AUDIT_SIGNING_PRIVATE_KEY (PEM), or null when
+ * signed exports are not configured
+ */
+export function getAuditSigningKey(): KeyObject | null {
+  const pem = process.env.AUDIT_SIGNING_PRIVATE_KEY;
+  if (!pem) return null;
+
+  // Hosting dashboards often store multi-line values with escaped newlines
+  const key = createPrivateKey(pem.replace(/\\n/g, '\n'));
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error('AUDIT_SIGNING_PRIVATE_KEY must be an Ed25519 key');
+  }
+  return key;
+}
+
+function publicKeyPem(key: KeyObject): string {
+  return createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+function keyFingerprint(publicKey: string): string {
+  const der = createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex');
+}
+
+/**
+ * Sign a bundle with the audit signing key
+ */
+export function signAuditBundle(bundle: AuditBundle, privateKey: KeyObject): SignedAuditBundle {
+  const publicKey = publicKeyPem(privateKey);
+  return {
+    ...bundle,
+    signature: {
+      algorithm: 'Ed25519',
+      keyId: keyFingerprint(publicKey),
+      publicKey,
+      value: sign(null, Buffer.from(canonicalJson(bundle)), privateKey).toString('base64'),
+    },
+  };
+}
+
+/**
+ * Check a bundle's signature
+ *
+ * @param trustedPublicKey - The published public key (PEM). Without it, only
+ * the key embedded in the bundle is checked, which proves the bundle is intact
+ * but not who signed it.
+ */
+export function verifyAuditBundleSignature(
+  bundle: SignedAuditBundle,
+  trustedPublicKey?: string
+): boolean {
+  const { signature, ...unsigned } = bundle;
+  if (signature?.algorithm !== 'Ed25519') return false;
+
+  try {
+    if (
+      trustedPublicKey &&
+      keyFingerprint(trustedPublicKey) !== keyFingerprint(signature.publicKey)
+    ) {
+      return false;
+    }
+    return verify(
+      null,
+      Buffer.from(canonicalJson(unsigned)),
+      createPublicKey(trustedPublicKey ?? signature.publicKey),
+      Buffer.from(signature.value, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a bundle's entries form an unbroken chain: consecutive sequences,
+ * each linking to the row_hash of the one before, starting from previousHash.
+ * Row hashes themselves are recomputed by the database (verify_audit_log_chain).
+ */
+export function checkAuditBundleChain(
+  entries: Pick<AuditLogEntry, 'id' | 'sequence' | 'previous_hash' | 'row_hash'>[],
+  previousHash: string | null
+): AuditChainIssue[] {
+  const issues: AuditChainIssue[] = [];
+  let previous: (typeof entries)[number] | null = null;
+
+  for (const entry of entries) {
+    if (previous && entry.sequence !== previous.sequence + 1) {
+      issues.push({
+        type: 'gap',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        missingFrom: previous.sequence + 1,
+        missingTo: entry.sequence - 1,
+      });
+    } else {
+      const expected = previous
+        ? previous.row_hash
+        : (previousHash ?? (entry.sequence === 1 ? AUDIT_CHAIN_GENESIS : null));
+      if (expected !== null && entry.previous_hash !== expected) {
+        issues.push({ type: 'broken_link', sequence: entry.sequence, entryId: entry.id });
+      }
+    }
+    previous = entry;
+  }
+
+  return issues;
+}
@@ -0,0 +1,73 @@
+/**
+ * Audit Diffs
+ *
+ * Turns the record before and after a mutation into the field-level changes
+ * stored in audit_logs.changes. A create has no before, a delete no after.
+ */
+
+/** A row, or the fields written to it */
+export type AuditRecord = object;
+
+/** Field name to its value before and after the mutation */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/** Bookkeeping columns that change on every write */
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+/** Secrets that must never be copied into the audit log */
+const REDACTED_FIELDS = /password|secret|token|hash|otp/i;
+
+export const REDACTED = '[redacted]';
+
+function equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Replace secret fields (passwords, tokens, hashes) with a marker
+ */
+export function redactAuditRecord(
+  record: AuditRecord | null | undefined
+): Record<string, unknown> | null {
+  if (!record) return null;
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      REDACTED_FIELDS.test(key) && value !== null && value !== undefined ? REDACTED : value,
+    ])
+  );
+}
+
+/**
+ * Field-level diff of two versions of a record
+ * Only fields whose value changed are included; secrets are redacted but
+ * still reported as changed.
+ *
+ * @param before - Record before the mutation, or null for a create
+ * @param after - Record (or the fields written) after the mutation, or null for a delete
+ */
+export function diffAuditRecords(
+  before: AuditRecord | null | undefined,
+  after: AuditRecord | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    // An update that only lists the fields it wrote leaves the rest unchanged
+    if (before && after && !(field in after)) continue;
+
+    const previous = before ? ((before as Record<string, unknown>)[field] ?? null) : null;
+    const next = after ? ((after as Record<string, unknown>)[field] ?? null) : null;
+    if (before && after && equal(previous, next)) continue;
+
+    const secret = REDACTED_FIELDS.test(field);
+    changes[field] = {
+      before: secret && previous !== null ? REDACTED : previous,
+      after: secret && next !== null ? REDACTED : next,
+    };
+  }
+
+  return changes;
+}
@@ -0,0 +1,224 @@
+'use server';
+
+/**
+ * Audit Log Integrity Actions
+ *
+ * Admin-only verification of the hash-chained audit log and signed exports
+ * of it for a date range (see lib/audit/bundle.ts).
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { AuditLogEntry } from '@/lib/audit/actions';
+import { createAuditLog } from '@/lib/audit/log';
+import {
+  checkAuditBundleChain,
+  getAuditSigningKey,
+  signAuditBundle,
+  type AuditChainIssue,
+  type AuditChainVerification,
+  type SignedAuditBundle,
+} from '@/lib/audit/bundle';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/** Rows fetched per request; PostgREST caps responses at 1000 rows */
+const PAGE_SIZE = 1000;
+
+/** Larger exports should be split into shorter date ranges */
+const MAX_BUNDLE_ENTRIES = 50000;
+
+export interface AuditRangeParams {
+  /** ISO timestamps; either may be omitted for an open range */
+  startDate?: string;
+  endDate?: string;
+}
+
+interface RawChainVerification {
+  checked: number;
+  first_sequence: number | null;
+  last_sequence: number | null;
+  previous_hash: string | null;
+  head_hash: string | null;
+  issues: {
+    type: AuditChainIssue['type'];
+    sequence: number;
+    entry_id: string;
+    missing_from?: number;
+    missing_to?: number;
+  }[];
+}
+
+async function requireAdmin(sb: UntypedClient): Promise<{ userId?: string; error?: string }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await sb.auth.getUser();
+
+  if (authError || !user) {
+    return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+  }
+
+  const { data: userRole } = await sb
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (userRole?.role !== 'admin') {
+    return { error: 'ไม่ได้รับอนุญาต: เฉพาะแอดมินเท่านั้น' };
+  }
+
+  return { userId: user.id };
+}
+
+async function runChainVerification(
+  sb: UntypedClient,
+  params: AuditRangeParams
+): Promise<AuditChainVerification> {
+  const { data, error } = await sb.rpc('verify_audit_log_chain', {
+    p_from: params.startDate || null,
+    p_to: params.endDate || null,
+  });
+  if (error) throw error;
+
+  const raw = data as RawChainVerification;
+  const issues = raw.issues.map((issue) => ({
+    type: issue.type,
+    sequence: issue.sequence,
+    entryId: issue.entry_id,
+    ...(issue.type === 'gap'
+      ? { missingFrom: issue.missing_from, missingTo: issue.missing_to }
+      : {}),
+  }));
+
+  return {
+    valid: issues.length === 0,
+    checked: raw.checked,
+    firstSequence: raw.first_sequence,
+    lastSequence: raw.last_sequence,
+    previousHash: raw.previous_hash,
+    headHash: raw.head_hash,
+    issues,
+  };
+}
+
+/**
+ * Verify the audit log chain for a date range (the whole log when no range is given)
+ * Reports entries that were deleted (gaps), changed, or re-linked.
+ */
+export async function verifyAuditLogChain(
+  params: AuditRangeParams = {}
+): Promise<{ success: boolean; data?: AuditChainVerification; error?: string }> {
+  try {
+    const supabase = await createClient();
+    const sb = supabase as UntypedClient;
+
+    const { error: accessError } = await requireAdmin(sb);
+    if (accessError) return { success: false, error: accessError };
+
+    return { success: true, data: await runChainVerification(sb, params) };
+  } catch (error) {
+    console.error('Unexpected error in verifyAuditLogChain:', error);
+    return { success: false, error: 'ไม่สามารถตรวจสอบบันทึกการตรวจสอบได้' };
+  }
+}
+
+/**
+ * Export the audit log for a date range as a signed bundle
+ * The bundle includes the chain verification result at export time.
+ */
+export async function exportAuditBundle(
+  params: AuditRangeParams
+): Promise<{ success: boolean; data?: SignedAuditBundle; error?: string }> {
+  try {
+    const supabase = await createClient();
+    const sb = supabase as UntypedClient;
+
+    const { userId, error: accessError } = await requireAdmin(sb);
+    if (accessError || !userId) return { success: false, error: accessError };
+
+    const signingKey = getAuditSigningKey();
+    if (!signingKey) {
+      return {
+        success: false,
+        error: 'ยังไม่ได้ตั้งค่ากุญแจสำหรับลงนาม (AUDIT_SIGNING_PRIVATE_KEY)',
+      };
+    }
+
+    const verification = await runChainVerification(sb, params);
+    const { firstSequence, lastSequence } = verification;
+
+    if (
+      firstSequence !== null &&
+      lastSequence !== null &&
+      lastSequence - firstSequence + 1 > MAX_BUNDLE_ENTRIES
+    ) {
+      return {
+        success: false,
+        error: `ช่วงวันที่มีรายการมากกว่า ${MAX_BUNDLE_ENTRIES.toLocaleString('th-TH')} รายการ กรุณาเลือกช่วงที่สั้นลง`,
+      };
+    }
+
+    // Every entry between the first and last sequence, so the chain can be followed
+    const entries: AuditLogEntry[] = [];
+    if (firstSequence !== null && lastSequence !== null) {
+      for (let from = firstSequence; from <= lastSequence; from += PAGE_SIZE) {
+        const { data, error } = await sb
+          .from('audit_logs')
+          .select('*')
+          .gte('sequence', from)
+          .lte('sequence', Math.min(from + PAGE_SIZE - 1, lastSequence))
+          .order('sequence', { ascending: true });
+        if (error) throw error;
+        entries.push(...((data ?? []) as AuditLogEntry[]));
+      }
+    }
+
+    // The entries read here must agree with the chain the database verified
+    const linkIssues = checkAuditBundleChain(entries, verification.previousHash);
+    if (linkIssues.length > 0) {
+      verification.issues.push(
+        ...linkIssues.filter(
+          (issue) =>
+            !verification.issues.some(
+              (known) => known.type === issue.type && known.sequence === issue.sequence
+            )
+        )
+      );
+      verification.valid = verification.issues.length === 0;
+    }
+
+    const bundle = signAuditBundle(
+      {
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        generatedBy: userId,
+        range: { startDate: params.startDate || null, endDate: params.endDate || null },
+        verification,
+        entries,
+      },
+      signingKey
+    );
+
+    await createAuditLog({
+      userId,
+      userRole: 'admin',
+      actionType: 'audit_log.export',
+      entityType: 'audit_log',
+      details: {
+        range: bundle.range,
+        entries: entries.length,
+        valid: verification.valid,
+        // Named so the hash is not redacted like a secret
+        chainHead: verification.headHash,
+        keyId: bundle.signature.keyId,
+      },
+    });
+
+    return { success: true, data: bundle };
+  } catch (error) {
+    console.error('Unexpected error in exportAuditBundle:', error);
+    return { success: false, error: 'ไม่สามารถส่งออกบันทึกการตรวจสอบได้' };
+  }
+}
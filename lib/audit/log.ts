@@ -0,0 +1,109 @@
+/**
+ * Audit Log Writer (server only)
+ *
+ * Not a server action: browsers cannot call it, so only server code decides
+ * what is logged. Entries made with a Supabase session are written as that
+ * user, with their role from user_roles (RLS refuses anything else). Entries
+ * without one (parents, scheduled jobs) are system entries written with the
+ * service role.
+ */
+
+import { headers } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { extractCorrelationId } from '@/lib/utils/correlation';
+import { diffAuditRecords, redactAuditRecord } from '@/lib/audit/diff';
+import type { CreateAuditLogParams } from '@/lib/audit/actions';
+
+type AuditUserRole = NonNullable<CreateAuditLogParams['userRole']>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/**
+ * The client to write with and the actor it may record
+ */
+async function resolveWriter(
+  params: CreateAuditLogParams
+): Promise<{ writer: UntypedClient; userId: string | null; userRole: AuditUserRole | null }> {
+  const supabase = await createClient();
+
+  let user: { id: string } | null = null;
+  try {
+    ({
+      data: { user },
+    } = await supabase.auth.getUser());
+  } catch {
+    // Parents and system jobs have no Supabase session
+  }
+
+  if (!user) {
+    return {
+      writer: createAdminClient(),
+      userId: params.userId ?? null,
+      userRole: params.userRole ?? null,
+    };
+  }
+
+  const { data } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  return {
+    writer: supabase,
+    userId: user.id,
+    userRole: (data as { role?: AuditUserRole } | null)?.role ?? null,
+  };
+}
+
+/**
+ * Correlation ID forwarded by middleware for the current request
+ */
+async function resolveCorrelationId(): Promise<string | null> {
+  try {
+    return extractCorrelationId(await headers());
+  } catch {
+    // Outside a request (scripts, tests)
+    return null;
+  }
+}
+
+/**
+ * Create an audit log entry
+ * Pass before and/or after to record which fields the mutation changed.
+ */
+export async function createAuditLog(params: CreateAuditLogParams) {
+  try {
+    const { writer, userId, userRole } = await resolveWriter(params);
+    const hasChanges = params.before !== undefined || params.after !== undefined;
+
+    const { data, error } = await writer
+      .from('audit_logs')
+      .insert({
+        user_id: userId,
+        user_role: userRole,
+        action_type: params.actionType,
+        entity_type: params.entityType,
+        entity_id: params.entityId || null,
+        details: redactAuditRecord(params.details),
+        changes: hasChanges ? diffAuditRecords(params.before, params.after) : null,
+        correlation_id: params.correlationId || (await resolveCorrelationId()),
+        ip_address: params.ipAddress || null,
+        user_agent: params.userAgent || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Failed to create audit log:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create audit log',
+    };
+  }
+}
@@ -3,6 +3,8 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { logError, logRegistrationStep } from '@/lib/monitoring/error-logger';
+import { createAuditLog } from '@/lib/audit/log';
+
 export interface AuthResult {
   success: boolean;
   error?: string;
@@ -85,6 +87,15 @@ export async function signUp(email: string, password: string): Promise<AuthResul
       // Don't fail signup if role creation fails - it can be created later
     }
 
+    await createAuditLog({
+      userId: data.user.id,
+      userRole: 'athlete',
+      actionType: 'user.register',
+      entityType: 'user',
+      entityId: data.user.id,
+      after: { email, role: 'athlete' },
+    });
+
     return { success: true, userId: data.user.id };
   } catch (error) {
     console.error('[signUp] Unexpected error:', error);
@@ -157,6 +168,14 @@ export async function signIn(
       }
     }
 
+    await createAuditLog({
+      userId: authData.user.id,
+      actionType: 'user.login',
+      entityType: 'user',
+      entityId: authData.user.id,
+      details: deviceInfo ? { device_id: deviceInfo.deviceId } : undefined,
+    });
+
     // Return success - middleware will handle role-based routing
     return { success: true, data: authData };
   } catch (error) {
@@ -202,6 +221,20 @@ export async function signOut(deviceId?: string): Promise<AuthResult> {
       }
     }
 
+    // Logged while the session still identifies the user
+    const {
+      data: { user: signedInUser },
+    } = await supabase.auth.getUser();
+    if (signedInUser) {
+      await createAuditLog({
+        userId: signedInUser.id,
+        actionType: 'user.logout',
+        entityType: 'user',
+        entityId: signedInUser.id,
+        details: deviceId ? { device_id: deviceId } : undefined,
+      });
+    }
+
     const { error } = await supabase.auth.signOut();
 
     if (error) {
@@ -340,7 +373,7 @@ export async function updatePassword(newPassword: string): Promise<AuthResult> {
   try {
     const supabase = await createClient();
 
-    const { error } = await supabase.auth.updateUser({
+    const { data, error } = await supabase.auth.updateUser({
       password: newPassword,
     });
 
@@ -348,6 +381,13 @@ export async function updatePassword(newPassword: string): Promise<AuthResult> {
       return { success: false, error: error.message };
     }
 
+    await createAuditLog({
+      userId: data.user.id,
+      actionType: 'user.password_change',
+      entityType: 'user',
+      entityId: data.user.id,
+    });
+
     return { success: true };
   } catch {
     return {
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 import { sanitizeHtml, sanitizeInput } from '@/lib/utils/sanitization';
 import { validateRequired, validateLength, validateEnum } from '@/lib/utils/enhanced-validation';
 
@@ -88,6 +89,14 @@ export async function createAnnouncement(input: CreateAnnouncementInput) {
     return { success: false, error: 'ไม่สามารถสร้างประกาศได้' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'announcement.create',
+    entityType: 'announcement',
+    entityId: data.id,
+    after: data,
+  });
+
   revalidatePath('/dashboard/coach');
   revalidatePath('/dashboard/coach/announcements');
   revalidatePath('/dashboard/athlete');
@@ -138,6 +147,12 @@ export async function updateAnnouncement(input: UpdateAnnouncementInput) {
     }
   }
 
+  const { data: before } = await (supabase as any)
+    .from('announcements')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
   const { data, error } = await (supabase as any)
     .from('announcements')
     .update(updates)
@@ -150,6 +165,15 @@ export async function updateAnnouncement(input: UpdateAnnouncementInput) {
     return { success: false, error: 'ไม่สามารถอัปเดตประกาศได้' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'announcement.update',
+    entityType: 'announcement',
+    entityId: id,
+    before,
+    after: { ...updates },
+  });
+
   revalidatePath('/dashboard/coach');
   revalidatePath('/dashboard/coach/announcements');
   revalidatePath('/dashboard/athlete');
@@ -168,13 +192,28 @@ export async function deleteAnnouncement(id: string) {
     return { success: false, error: 'ไม่พบข้อมูลผู้ใช้' };
   }
 
-  const { error } = await supabase.from('announcements').delete().eq('id', id);
+  const { data: deleted, error } = await supabase
+    .from('announcements')
+    .delete()
+    .eq('id', id)
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error('Error deleting announcement:', error);
     return { success: false, error: 'ไม่สามารถลบประกาศได้' };
   }
 
+  if (deleted) {
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'announcement.delete',
+      entityType: 'announcement',
+      entityId: id,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/coach');
   revalidatePath('/dashboard/coach/announcements');
   revalidatePath('/dashboard/athlete');
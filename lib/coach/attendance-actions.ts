@@ -2,14 +2,25 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { createAuditLog } from '@/lib/audit/actions';
+import { createAuditLog } from '@/lib/audit/log';
 import { Database } from '@/types/database.types';
-import { invalidatePattern } from '@/lib/utils/cache';
+import { attendanceCacheTags, invalidateTags } from '@/lib/utils/cache';
+import { getQRTokenSecret, signSessionQRToken } from '@/lib/athlete/session-qr-signing';
+import { QR_TOKEN_ROTATION_SECONDS } from '@/lib/athlete/session-qr-token';
+import { getAttendancePolicy } from '@/lib/admin/settings-actions';
+import { canRecordPresence } from '@/lib/utils/attendance-policy';
+import type { LeavePolicyViolation, LeaveReasonCategory } from '@/lib/utils/leave-policy';
+import {
+  resolveOfflineMark,
+  type AttendanceSyncResult,
+  type OfflineAttendanceMark,
+} from '@/lib/coach/attendance-conflicts';
 
 type AttendanceLog = Database['public']['Tables']['attendance']['Row'];
 type AttendanceLogInsert = Database['public']['Tables']['attendance']['Insert'];
 type AttendanceLogUpdate = Database['public']['Tables']['attendance']['Update'];
 type AttendanceStatus = Database['public']['Tables']['attendance']['Row']['status'];
+type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
 
 // Leave request types
 type LeaveRequest = {
@@ -22,9 +33,29 @@ type LeaveRequest = {
   reviewed_by: string | null;
   reviewed_at: string | null;
   created_at: string;
+  reason_category: LeaveReasonCategory;
+  attachment_path: string | null;
+  policy_violations: LeavePolicyViolation[];
+  auto_approved: boolean;
+  review_comment: string | null;
 };
 
+type LeaveReviewTarget = Pick<
+  LeaveRequest,
+  'id' | 'session_id' | 'athlete_id' | 'reason' | 'status'
+> & {
+  // training_sessions.coach_id references auth.users
+  training_sessions: { coach_id: string | null };
+};
+
+/** Largest selection the bulk review accepts in one call */
+const MAX_BULK_LEAVE_REVIEW = 100;
+
+const MAX_REVIEW_COMMENT_LENGTH = 500;
+
 interface LeaveRequestWithDetails extends LeaveRequest {
+  /** Short-lived signed URL for the attachment, when there is one */
+  attachment_url?: string | null;
   training_sessions?: {
     id: string;
     title: string;
@@ -115,6 +146,9 @@ export async function getSessionAttendance(sessionId: string): Promise<{
           check_in_time,
           check_in_method,
           notes,
+          check_in_distance_m,
+          geofence_flagged,
+          geofence_flag_reason,
           created_at,
           updated_at
         )
@@ -160,15 +194,102 @@ export async function getSessionAttendance(sessionId: string): Promise<{
   }
 }
 
+/**
+ * Issue the current rotating QR check-in token for a training session
+ * The coach's QR display calls this again whenever the token expires
+ */
+export async function getSessionQRToken(sessionId: string): Promise<{
+  data?: { token: string; expiresAt: string; rotationSeconds: number };
+  error?: string;
+}> {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+    }
+
+    // Get coach profile
+    const { data: coach, error: coachError } = await supabase
+      .from('coaches')
+      .select('id, user_id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (coachError || !coach) {
+      return { error: 'ไม่พบข้อมูลโค้ช' };
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('training_sessions')
+      .select('id, coach_id, status')
+      .eq('id', sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      return { error: 'ไม่พบตารางฝึกซ้อม' };
+    }
+
+    const { coach_id, status } = session as Pick<TrainingSession, 'coach_id' | 'status'>;
+
+    // training_sessions.coach_id references auth.users, not coaches.id
+    if (coach_id !== (coach as { user_id: string }).user_id) {
+      return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถสร้าง QR Code ของโค้ชอื่นได้' };
+    }
+
+    if (status === 'cancelled') {
+      return { error: 'ตารางฝึกซ้อมนี้ถูกยกเลิกแล้ว' };
+    }
+
+    const secret = getQRTokenSecret();
+    if (!secret) {
+      console.error('QR_TOKEN_SECRET is not configured');
+      return { error: 'ระบบเช็คอินด้วย QR Code ยังไม่พร้อมใช้งาน' };
+    }
+
+    return {
+      data: {
+        ...signSessionQRToken(secret, sessionId),
+        rotationSeconds: QR_TOKEN_ROTATION_SECONDS,
+      },
+    };
+  } catch (error) {
+    console.error('Unexpected error in getSessionQRToken:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Time an offline mark was made, never later than now
+ */
+function markedAtOrNow(markedAt?: string): Date {
+  const now = new Date();
+  const time = markedAt ? new Date(markedAt) : now;
+  return Number.isNaN(time.getTime()) || time > now ? now : time;
+}
+
 /**
  * Mark or update attendance for an athlete
+ * Present/late are rejected before the club's check-in window opens
+ *
+ * @param options.markedAt - When a mark taken offline was made; used for the
+ * check-in window and as the check-in time
  */
-export async function markAttendance(data: {
-  sessionId: string;
-  athleteId: string;
-  status: AttendanceStatus;
-  notes?: string;
-}): Promise<{ success?: boolean; error?: string }> {
+export async function markAttendance(
+  data: {
+    sessionId: string;
+    athleteId: string;
+    status: AttendanceStatus;
+    notes?: string;
+  },
+  options: { markedAt?: string } = {}
+): Promise<{ success?: boolean; error?: string }> {
   try {
     const supabase = await createClient();
 
@@ -209,6 +330,10 @@ export async function markAttendance(data: {
       return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถเช็คชื่อในตารางของโค้ชอื่นได้' };
     }
 
+    if ((session as TrainingSession).attendance_locked_at) {
+      return { error: 'ปิดการเช็คชื่อของตารางฝึกซ้อมนี้แล้ว กรุณาติดต่อแอดมินเพื่อแก้ไข' };
+    }
+
     // Verify athlete belongs to the same club
     const { data: athlete, error: athleteError } = await supabase
       .from('athletes')
@@ -225,6 +350,21 @@ export async function markAttendance(data: {
       return { error: 'นักกีฬาไม่ได้อยู่ในสโมสรเดียวกัน' };
     }
 
+    // Marks taken offline are recorded at the time the coach made them
+    const markedAt = markedAtOrNow(options.markedAt);
+
+    // Present/late can only be recorded once the club's check-in window has opened
+    const isPresence = data.status === 'present' || data.status === 'late';
+    if (isPresence) {
+      const { club_id, session_date, start_time } = session as TrainingSession;
+      const policy = await getAttendancePolicy(club_id);
+      if (!canRecordPresence(markedAt, session_date, start_time, policy)) {
+        return {
+          error: `ยังไม่สามารถบันทึกการเข้าร่วมได้ (เปิดเช็คอิน ${policy.check_in_opens_minutes_before} นาทีก่อนเวลาเริ่ม)`,
+        };
+      }
+    }
+
     // Check if attendance already exists
     const { data: existingAttendance, error: checkError } = await supabase
       .from('attendance')
@@ -243,6 +383,7 @@ export async function markAttendance(data: {
       const updateData: AttendanceLogUpdate = {
         status: data.status,
         notes: data.notes || null,
+        marked_by: user.id,
       };
 
       // @ts-ignore - Supabase type inference issue
@@ -265,8 +406,8 @@ export async function markAttendance(data: {
         entityType: 'attendance_log',
         // @ts-ignore
         entityId: existingAttendance.id,
-        // @ts-ignore
-        details: updateData,
+        before: existingAttendance,
+        after: updateData,
       });
     } else {
       // Create new attendance
@@ -275,8 +416,9 @@ export async function markAttendance(data: {
         athlete_id: data.athleteId,
         status: data.status,
         check_in_method: 'manual',
+        marked_by: user.id,
         notes: data.notes || null,
-        check_in_time: data.status === 'present' ? new Date().toISOString() : null,
+        check_in_time: isPresence ? markedAt.toISOString() : null,
       };
 
       // @ts-ignore - Supabase type inference issue
@@ -299,7 +441,7 @@ export async function markAttendance(data: {
         entityType: 'attendance_log',
         // @ts-ignore
         entityId: newAttendance.id,
-        details: insertData,
+        after: insertData,
       });
     }
 
@@ -307,8 +449,13 @@ export async function markAttendance(data: {
     revalidatePath('/dashboard/coach/sessions');
 
     // Invalidate stats cache
-    invalidatePattern('attendance-stats:.*');
-    invalidatePattern('club-stats:.*');
+    await invalidateTags(
+      attendanceCacheTags({
+        clubId: (session as TrainingSession).club_id,
+        sessionId: data.sessionId,
+        athleteId: data.athleteId,
+      })
+    );
 
     return { success: true };
   } catch (error) {
@@ -317,6 +464,144 @@ export async function markAttendance(data: {
   }
 }
 
+/**
+ * Send an attendance mark taken offline
+ * The mark is compared with the current record first (see
+ * lib/coach/attendance-conflicts.ts): it is applied, dropped in favour of the
+ * record, or returned for the coach to review. Marks that can no longer be
+ * recorded (sheet closed out, check-in window not open) are rejected rather
+ * than returned as errors, so the sync queue does not retry them.
+ */
+export async function syncOfflineAttendanceMark(
+  mark: OfflineAttendanceMark
+): Promise<{ success?: boolean; data?: AttendanceSyncResult; error?: string }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
+    }
+
+    const { data: coach } = await supabase
+      .from('coaches')
+      .select('id, user_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!coach) {
+      return { success: true, data: { outcome: 'rejected', message: 'ไม่พบข้อมูลโค้ช' } };
+    }
+
+    const { data: session } = await supabase
+      .from('training_sessions')
+      .select('*')
+      .eq('id', mark.sessionId)
+      .maybeSingle();
+
+    if (!session) {
+      return { success: true, data: { outcome: 'rejected', message: 'ไม่พบตารางฝึกซ้อม' } };
+    }
+
+    const trainingSession = session as TrainingSession;
+    // training_sessions.coach_id references auth.users, not coaches.id
+    // @ts-ignore
+    if (trainingSession.coach_id !== coach.user_id) {
+      return {
+        success: true,
+        data: {
+          outcome: 'rejected',
+          message: 'ไม่ได้รับอนุญาต: คุณไม่สามารถเช็คชื่อในตารางของโค้ชอื่นได้',
+        },
+      };
+    }
+
+    if (trainingSession.attendance_locked_at) {
+      return {
+        success: true,
+        data: {
+          outcome: 'rejected',
+          message: 'ปิดการเช็คชื่อของตารางฝึกซ้อมนี้แล้ว กรุณาติดต่อแอดมินเพื่อแก้ไข',
+        },
+      };
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('attendance')
+      .select('*')
+      .eq('training_session_id', mark.sessionId)
+      .eq('athlete_id', mark.athleteId)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Check error:', existingError);
+      return { error: 'เกิดข้อผิดพลาดในการตรวจสอบข้อมูล' };
+    }
+
+    const server = (existing as AttendanceLog | null) ?? null;
+    const resolution = resolveOfflineMark(mark, server, user.id);
+
+    if (resolution.outcome === 'unchanged') {
+      return { success: true, data: { outcome: 'unchanged', server } };
+    }
+    if (resolution.outcome === 'keep_server' || resolution.outcome === 'review') {
+      return {
+        success: true,
+        data: {
+          outcome: resolution.outcome === 'review' ? 'needs_review' : 'kept_server',
+          reason: resolution.reason,
+          server,
+        },
+      };
+    }
+
+    if (mark.status === 'present' || mark.status === 'late') {
+      const policy = await getAttendancePolicy(trainingSession.club_id);
+      if (
+        !canRecordPresence(
+          markedAtOrNow(mark.markedAt),
+          trainingSession.session_date,
+          trainingSession.start_time,
+          policy
+        )
+      ) {
+        return {
+          success: true,
+          data: {
+            outcome: 'rejected',
+            message: `ยังไม่สามารถบันทึกการเข้าร่วมได้ (เปิดเช็คอิน ${policy.check_in_opens_minutes_before} นาทีก่อนเวลาเริ่ม)`,
+            server,
+          },
+        };
+      }
+    }
+
+    const result = await markAttendance(
+      {
+        sessionId: mark.sessionId,
+        athleteId: mark.athleteId,
+        status: mark.status,
+        // A status-only mark keeps the notes already recorded
+        notes: mark.notes ?? server?.notes ?? undefined,
+      },
+      { markedAt: mark.markedAt }
+    );
+
+    if (result.error) {
+      return { error: result.error };
+    }
+
+    return { success: true, data: { outcome: 'applied' } };
+  } catch (error) {
+    console.error('Unexpected error in syncOfflineAttendanceMark:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
 /**
  * Get leave requests for coach's sessions
  */
@@ -392,7 +677,8 @@ export async function getLeaveRequests(filter?: {
  */
 export async function reviewLeaveRequest(
   leaveRequestId: string,
-  action: 'approve' | 'reject'
+  action: 'approve' | 'reject',
+  comment?: string
 ): Promise<{ success?: boolean; error?: string }> {
   try {
     const supabase = await createClient();
@@ -410,104 +696,253 @@ export async function reviewLeaveRequest(
     // Get coach profile
     const { data: coach, error: coachError } = await supabase
       .from('coaches')
-      .select('*')
+      .select('id')
       .eq('user_id', user.id)
-      .single();
+      .single<{ id: string }>();
 
     if (coachError || !coach) {
       return { error: 'ไม่พบข้อมูลโค้ช' };
     }
 
-    // Get leave request and verify coach owns the session
-    const { data: leaveRequest, error: requestError } = await supabase
-      .from('leave_requests')
-      .select('*, training_sessions!inner(*)')
-      .eq('id', leaveRequestId)
-      .single();
+    const result = await applyLeaveReview(supabase, {
+      coachId: coach.id,
+      userId: user.id,
+      leaveRequestIds: [leaveRequestId],
+      action,
+      comment,
+    });
 
-    if (requestError || !leaveRequest) {
-      return { error: 'ไม่พบคำขอลา' };
+    if (result.error) {
+      return { error: result.error };
     }
 
-    // @ts-ignore
-    if (leaveRequest.training_sessions.coach_id !== user.id) {
-      return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถอนุมัติคำขอลาในตารางของโค้ชอื่นได้' };
+    if (result.skipped.length > 0) {
+      return { error: result.skipped[0].error };
     }
 
-    // @ts-ignore
-    if (leaveRequest.status !== 'pending') {
-      return { error: 'คำขอลานี้ได้รับการพิจารณาแล้ว' };
+    revalidatePath('/dashboard/coach/attendance');
+    revalidatePath('/dashboard/coach/sessions');
+    revalidatePath('/dashboard/coach/leave-requests');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unexpected error in reviewLeaveRequest:', error);
+    return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
+  }
+}
+
+/**
+ * Approve or reject several leave requests at once with a shared comment
+ * Requests that cannot be reviewed (another coach's session, already
+ * reviewed) are skipped and reported back; the rest are still applied.
+ */
+export async function bulkReviewLeaveRequests(
+  leaveRequestIds: string[],
+  action: 'approve' | 'reject',
+  comment?: string
+): Promise<{
+  success?: boolean;
+  data?: { reviewed: number; skipped: { id: string; error: string }[] };
+  error?: string;
+}> {
+  try {
+    const ids = Array.from(new Set(leaveRequestIds));
+    if (ids.length === 0) {
+      return { error: 'กรุณาเลือกคำขอลาอย่างน้อย 1 รายการ' };
     }
 
-    // Update leave request status
-    const newStatus = action === 'approve' ? 'approved' : 'rejected';
-    const { error: updateError } = await (supabase as any)
-      .from('leave_requests')
-      .update({
-        status: newStatus,
-        reviewed_by: (coach as any).id,
-        reviewed_at: new Date().toISOString(),
-      })
-      .eq('id', leaveRequestId);
+    if (ids.length > MAX_BULK_LEAVE_REVIEW) {
+      return { error: `เลือกได้ไม่เกิน ${MAX_BULK_LEAVE_REVIEW} รายการต่อครั้ง` };
+    }
 
-    if (updateError) {
-      console.error('Update error:', updateError);
-      return { error: 'เกิดข้อผิดพลาดในการอัปเดตคำขอลา' };
+    const supabase = await createClient();
+
+    // Get current user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { error: 'ไม่ได้รับอนุญาต: กรุณาเข้าสู่ระบบ' };
     }
 
-    // If approved, create an excused attendance record
-    if (action === 'approve') {
-      // @ts-ignore
-      const sessionId = leaveRequest.session_id;
-      // @ts-ignore
-      const athleteId = leaveRequest.athlete_id;
+    // Get coach profile
+    const { data: coach, error: coachError } = await supabase
+      .from('coaches')
+      .select('id')
+      .eq('user_id', user.id)
+      .single<{ id: string }>();
 
-      // Check if attendance already exists
-      const { data: existingAttendance } = await supabase
-        .from('attendance')
-        .select('*')
-        .eq('training_session_id', sessionId)
-        .eq('athlete_id', athleteId)
-        .maybeSingle();
-
-      if (!existingAttendance) {
-        // Create excused attendance record
-        const { error: attendanceError } = await (supabase as any)
-          .from('attendance')
-          .insert({
-            training_session_id: sessionId,
-            athlete_id: athleteId,
-            status: 'excused',
-            check_in_method: 'manual',
-            notes: `Leave approved: ${(leaveRequest as any).reason}`,
-          });
-
-        if (attendanceError) {
-          console.error('Attendance creation error:', attendanceError);
-          // Don't fail the whole operation if attendance creation fails
-        }
-      }
+    if (coachError || !coach) {
+      return { error: 'ไม่พบข้อมูลโค้ช' };
     }
 
-    // Log audit event
-    await createAuditLog({
+    const result = await applyLeaveReview(supabase, {
+      coachId: coach.id,
       userId: user.id,
-      actionType: 'attendance.update',
-      entityType: 'attendance_log',
-      entityId: leaveRequestId,
-      details: { action, status: newStatus },
+      leaveRequestIds: ids,
+      action,
+      comment,
+      bulk: true,
     });
 
+    if (result.error) {
+      return { error: result.error };
+    }
+
     revalidatePath('/dashboard/coach/attendance');
     revalidatePath('/dashboard/coach/sessions');
+    revalidatePath('/dashboard/coach/leave-requests');
 
-    return { success: true };
+    return {
+      success: true,
+      data: { reviewed: result.reviewed.length, skipped: result.skipped },
+    };
   } catch (error) {
-    console.error('Unexpected error in reviewLeaveRequest:', error);
+    console.error('Unexpected error in bulkReviewLeaveRequests:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
 
+/**
+ * Shared by single and bulk review: checks ownership and status, updates the
+ * requests, records approved leave as excused and writes the audit log
+ */
+async function applyLeaveReview(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  params: {
+    coachId: string;
+    userId: string;
+    leaveRequestIds: string[];
+    action: 'approve' | 'reject';
+    comment?: string;
+    bulk?: boolean;
+  }
+): Promise<{ reviewed: string[]; skipped: { id: string; error: string }[]; error?: string }> {
+  const comment = params.comment?.trim() || null;
+  if (comment && comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+    return {
+      reviewed: [],
+      skipped: [],
+      error: `ความคิดเห็นต้องไม่เกิน ${MAX_REVIEW_COMMENT_LENGTH} ตัวอักษร`,
+    };
+  }
+
+  // Get leave requests with their sessions to verify the coach owns them
+  const { data: rows, error: requestError } = await supabase
+    .from('leave_requests')
+    .select('id, session_id, athlete_id, reason, status, training_sessions!inner(coach_id)')
+    .in('id', params.leaveRequestIds);
+
+  if (requestError) {
+    console.error('Leave request query error:', requestError);
+    return { reviewed: [], skipped: [], error: 'เกิดข้อผิดพลาดในการดึงข้อมูลคำขอลา' };
+  }
+
+  const requests = new Map(
+    ((rows || []) as LeaveReviewTarget[]).map((request) => [request.id, request])
+  );
+  const skipped: { id: string; error: string }[] = [];
+  const eligible: LeaveReviewTarget[] = [];
+
+  for (const id of params.leaveRequestIds) {
+    const request = requests.get(id);
+    if (!request) {
+      skipped.push({ id, error: 'ไม่พบคำขอลา' });
+    } else if (request.training_sessions.coach_id !== params.userId) {
+      skipped.push({
+        id,
+        error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถอนุมัติคำขอลาในตารางของโค้ชอื่นได้',
+      });
+    } else if (request.status !== 'pending') {
+      skipped.push({ id, error: 'คำขอลานี้ได้รับการพิจารณาแล้ว' });
+    } else {
+      eligible.push(request);
+    }
+  }
+
+  if (eligible.length === 0) {
+    return { reviewed: [], skipped };
+  }
+
+  // Update leave request status; a concurrent review wins
+  const newStatus = params.action === 'approve' ? 'approved' : 'rejected';
+  const review = {
+    status: newStatus,
+    reviewed_by: params.coachId,
+    reviewed_at: new Date().toISOString(),
+    review_comment: comment,
+  };
+  const { data: updated, error: updateError } = await supabase
+    .from('leave_requests')
+    .update(review as never)
+    .in(
+      'id',
+      eligible.map((request) => request.id)
+    )
+    .eq('status', 'pending')
+    .select('id');
+
+  if (updateError) {
+    console.error('Update error:', updateError);
+    return { reviewed: [], skipped, error: 'เกิดข้อผิดพลาดในการอัปเดตคำขอลา' };
+  }
+
+  const reviewedIds = new Set(((updated || []) as { id: string }[]).map((row) => row.id));
+  const reviewed = eligible.filter((request) => reviewedIds.has(request.id));
+  for (const request of eligible) {
+    if (!reviewedIds.has(request.id)) {
+      skipped.push({ id: request.id, error: 'คำขอลานี้ได้รับการพิจารณาแล้ว' });
+    }
+  }
+
+  // If approved, create excused attendance records (existing records are kept)
+  if (params.action === 'approve' && reviewed.length > 0) {
+    const { error: attendanceError } = await supabase.from('attendance').upsert(
+      reviewed.map((request) => ({
+        training_session_id: request.session_id,
+        athlete_id: request.athlete_id,
+        status: 'excused',
+        check_in_method: 'manual',
+        notes: `Leave approved: ${request.reason}`,
+      })) as never,
+      { onConflict: 'training_session_id,athlete_id', ignoreDuplicates: true }
+    );
+
+    if (attendanceError) {
+      console.error('Attendance creation error:', attendanceError);
+      // Don't fail the whole operation if attendance creation fails
+    }
+
+    await invalidateTags([
+      ...new Set(
+        reviewed.flatMap((request) =>
+          attendanceCacheTags({ sessionId: request.session_id, athleteId: request.athlete_id })
+        )
+      ),
+    ]);
+  }
+
+  // Log audit events
+  await Promise.all(
+    reviewed.map((request) =>
+      createAuditLog({
+        userId: params.userId,
+        userRole: 'coach',
+        actionType: params.action === 'approve' ? 'leave_request.approve' : 'leave_request.reject',
+        entityType: 'leave_request',
+        entityId: request.id,
+        before: { status: request.status },
+        after: review,
+        details: params.bulk ? { bulk: true } : undefined,
+      })
+    )
+  );
+
+  return { reviewed: reviewed.map((request) => request.id), skipped };
+}
+
 /**
  * Update attendance for an athlete
  */
@@ -558,6 +993,13 @@ export async function updateAttendance(
       return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถแก้ไขการเข้าร่วมในตารางของโค้ชอื่นได้' };
     }
 
+    const { training_sessions: attendanceSession } = attendance as {
+      training_sessions: Pick<TrainingSession, 'attendance_locked_at'>;
+    };
+    if (attendanceSession.attendance_locked_at) {
+      return { error: 'ปิดการเช็คชื่อของตารางฝึกซ้อมนี้แล้ว กรุณาติดต่อแอดมินเพื่อแก้ไข' };
+    }
+
     // Prepare update data
     const updateData: AttendanceLogUpdate = {};
     if (data.status !== undefined) updateData.status = data.status;
@@ -582,8 +1024,8 @@ export async function updateAttendance(
       actionType: 'attendance.update',
       entityType: 'attendance_log',
       entityId: attendanceId,
-      // @ts-ignore
-      details: updateData,
+      before: attendance,
+      after: updateData,
     });
 
     // @ts-ignore
@@ -666,8 +1108,31 @@ export async function getCoachLeaveRequests(filter?: {
       return { error: 'เกิดข้อผิดพลาดในการดึงข้อมูลคำขอลา' };
     }
 
-    // @ts-ignore
-    return { data: leaveRequests || [] };
+    const requests = (leaveRequests || []) as LeaveRequestWithDetails[];
+
+    // Attachments live in a private bucket
+    const attachmentPaths = requests
+      .map((request) => request.attachment_path)
+      .filter((path): path is string => !!path);
+
+    if (attachmentPaths.length > 0) {
+      const { data: signedUrls, error: signError } = await supabase.storage
+        .from('leave-attachments')
+        .createSignedUrls(attachmentPaths, 60 * 60);
+
+      if (signError) {
+        console.error('Leave attachment signing error:', signError);
+      }
+
+      const urls = new Map((signedUrls || []).map((signed) => [signed.path, signed.signedUrl]));
+      for (const request of requests) {
+        if (request.attachment_path) {
+          request.attachment_url = urls.get(request.attachment_path) ?? null;
+        }
+      }
+    }
+
+    return { data: requests };
   } catch (error) {
     console.error('Unexpected error in getCoachLeaveRequests:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
@@ -0,0 +1,131 @@
+/**
+ * Offline Attendance Conflict Rules
+ *
+ * Coaches can take attendance without a connection; their marks are queued and
+ * sent when the device is back online. By then the record may have changed:
+ * the athlete checked themselves in, a leave request was approved, or another
+ * coach or an admin edited it. These pure helpers decide what happens to a
+ * queued mark given the record currently on the server, so the rules can be
+ * tested without a database.
+ *
+ * Rules, in order:
+ * 1. No record yet, or the record is exactly what the coach saw (or last
+ *    wrote themselves): apply the mark.
+ * 2. The record already says what the mark says: nothing to do.
+ * 3. The athlete checked themselves in:
+ *    - a present/late mark keeps the check-in (its time and status come from
+ *      the club's check-in policy);
+ *    - an absent/excused mark keeps the check-in if the athlete checked in
+ *      after the coach marked them and the location was not flagged,
+ *      otherwise the coach reviews it.
+ * 4. An approved leave (excused, recorded automatically) beats an absent
+ *    mark; a present/late mark is applied, as the athlete came after all.
+ * 5. Anything else was changed by someone else and the coach reviews it.
+ */
+
+import type { Database } from '@/types/database.types';
+
+type AttendanceRow = Database['public']['Tables']['attendance']['Row'];
+export type AttendanceStatus = AttendanceRow['status'];
+
+export type AttendanceConflictReason = 'self_check_in' | 'approved_leave' | 'changed_elsewhere';
+
+/** A mark taken on the coach's device, waiting to be sent */
+export interface OfflineAttendanceMark {
+  sessionId: string;
+  athleteId: string;
+  /** For the review UI only */
+  athleteName: string;
+  status: AttendanceStatus;
+  /** Omitted when only the status was changed */
+  notes?: string;
+  /** When the coach made the mark (ISO) */
+  markedAt: string;
+  /** The record the coach was looking at, or null when there was none */
+  base: { status: AttendanceStatus; updatedAt: string } | null;
+}
+
+/** The server record a mark is compared with */
+export type ServerAttendanceState = Pick<
+  AttendanceRow,
+  | 'status'
+  | 'notes'
+  | 'check_in_time'
+  | 'check_in_method'
+  | 'marked_by'
+  | 'geofence_flagged'
+  | 'updated_at'
+>;
+
+export type AttendanceMarkResolution =
+  | { outcome: 'apply' }
+  | { outcome: 'unchanged' }
+  | { outcome: 'keep_server'; reason: AttendanceConflictReason }
+  | { outcome: 'review'; reason: AttendanceConflictReason };
+
+/** Result of sending a queued mark (see syncOfflineAttendanceMark) */
+export interface AttendanceSyncResult {
+  outcome: 'applied' | 'unchanged' | 'kept_server' | 'needs_review' | 'rejected';
+  reason?: AttendanceConflictReason;
+  /** Why a rejected mark cannot be recorded */
+  message?: string;
+  server?: ServerAttendanceState | null;
+}
+
+function isPresence(status: AttendanceStatus): boolean {
+  return status === 'present' || status === 'late';
+}
+
+/**
+ * Whether the record is the athlete's own check-in (QR or the check-in
+ * button), rather than a coach's mark or one recorded automatically
+ */
+export function isSelfCheckIn(server: ServerAttendanceState): boolean {
+  return (
+    isPresence(server.status) &&
+    server.check_in_time !== null &&
+    server.check_in_method !== 'auto' &&
+    server.marked_by === null
+  );
+}
+
+/**
+ * Decide what to do with a queued mark
+ *
+ * @param coachUserId - The coach sending the mark; records they wrote
+ * themselves since are not conflicts
+ */
+export function resolveOfflineMark(
+  mark: OfflineAttendanceMark,
+  server: ServerAttendanceState | null,
+  coachUserId: string
+): AttendanceMarkResolution {
+  if (!server) return { outcome: 'apply' };
+
+  const sameNotes = mark.notes === undefined || (server.notes ?? '') === mark.notes;
+  if (server.status === mark.status && sameNotes) return { outcome: 'unchanged' };
+
+  if (
+    (mark.base !== null && server.updated_at === mark.base.updatedAt) ||
+    server.marked_by === coachUserId
+  ) {
+    return { outcome: 'apply' };
+  }
+
+  if (isSelfCheckIn(server)) {
+    if (isPresence(mark.status)) return { outcome: 'keep_server', reason: 'self_check_in' };
+
+    const checkedInAfterMark =
+      new Date(server.check_in_time!).getTime() > new Date(mark.markedAt).getTime();
+    return checkedInAfterMark && !server.geofence_flagged
+      ? { outcome: 'keep_server', reason: 'self_check_in' }
+      : { outcome: 'review', reason: 'self_check_in' };
+  }
+
+  if (server.status === 'excused' && server.check_in_method === 'auto') {
+    if (mark.status === 'absent') return { outcome: 'keep_server', reason: 'approved_leave' };
+    if (isPresence(mark.status)) return { outcome: 'apply' };
+  }
+
+  return { outcome: 'review', reason: 'changed_elsewhere' };
+}
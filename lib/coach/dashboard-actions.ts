@@ -1,6 +1,7 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import { CACHE_TAGS, getCached } from '@/lib/utils/cache';
 
 export interface DashboardStats {
   totalAthletes: number;
@@ -58,6 +59,21 @@ export async function getCoachDashboardStats() {
   const clubId = profile.club_id;
   const today = new Date().toISOString().split('T')[0];
 
+  // Shared by the club's coaches; dropped when the club's sessions or attendance change
+  const stats = await getCached(
+    `coach-dashboard:${clubId}:${today}`,
+    () => computeCoachDashboardStats(supabase, clubId, today),
+    { ttl: 60 * 1000, tags: [CACHE_TAGS.attendance, CACHE_TAGS.club(clubId)] }
+  );
+
+  return { data: stats };
+}
+
+async function computeCoachDashboardStats(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  clubId: string,
+  today: string
+): Promise<DashboardStats> {
   // Get athlete IDs first for leave requests query
   const { data: athleteIds } = await supabase
     .from('profiles')
@@ -168,7 +184,7 @@ export async function getCoachDashboardStats() {
     recentPerformanceRecords: performanceResult.count || 0,
   };
 
-  return { data: stats };
+  return stats;
 }
 
 // Get upcoming sessions with attendance info
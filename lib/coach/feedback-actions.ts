@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 /**
  * Add feedback to attendance log
@@ -31,6 +32,12 @@ export async function addAttendanceFeedback(
     return { success: false, error: 'Coach profile not found' };
   }
 
+  const { data: before } = await (supabase as any)
+    .from('attendance')
+    .select('coach_feedback')
+    .eq('id', attendanceLogId)
+    .maybeSingle();
+
   // Update attendance log with feedback
   const { error } = await (supabase as any)
     .from('attendance')
@@ -42,6 +49,15 @@ export async function addAttendanceFeedback(
     return { success: false, error: 'Failed to add feedback' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'attendance.update',
+    entityType: 'attendance_log',
+    entityId: attendanceLogId,
+    before,
+    after: { coach_feedback: feedback },
+  });
+
   revalidatePath('/dashboard/coach/attendance');
   revalidatePath('/dashboard/athlete/attendance');
 
@@ -76,6 +92,12 @@ export async function addPerformanceNotes(
     return { success: false, error: 'Coach profile not found' };
   }
 
+  const { data: before } = await (supabase as any)
+    .from('performance_records')
+    .select('coach_notes')
+    .eq('id', performanceRecordId)
+    .maybeSingle();
+
   // Update performance record with notes
   const { error } = await (supabase as any)
     .from('performance_records')
@@ -88,6 +110,15 @@ export async function addPerformanceNotes(
     return { success: false, error: 'Failed to add notes' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'performance.update',
+    entityType: 'performance_record',
+    entityId: performanceRecordId,
+    before,
+    after: { coach_notes: notes },
+  });
+
   revalidatePath('/dashboard/coach/performance');
   revalidatePath('/dashboard/athlete/performance');
 
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface CreateGoalInput {
   athleteId: string;
@@ -79,6 +80,15 @@ export async function createGoal(input: CreateGoalInput) {
     return { success: false, error: 'Failed to create goal' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    userRole: 'coach',
+    actionType: 'goal.create',
+    entityType: 'athlete_goal',
+    entityId: data.id,
+    after: data,
+  });
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete');
 
@@ -123,6 +133,13 @@ export async function updateGoal(input: UpdateGoalInput) {
   if (input.targetDate) updateData.target_date = input.targetDate;
   if (input.status) updateData.status = input.status;
 
+  const { data: before } = await (supabase as any)
+    .from('athlete_goals')
+    .select('*')
+    .eq('id', input.id)
+    .eq('coach_id', coach.id)
+    .maybeSingle();
+
   const { data, error } = await (supabase as any)
     .from('athlete_goals')
     .update(updateData)
@@ -136,6 +153,16 @@ export async function updateGoal(input: UpdateGoalInput) {
     return { success: false, error: 'Failed to update goal' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    userRole: 'coach',
+    actionType: 'goal.update',
+    entityType: 'athlete_goal',
+    entityId: input.id,
+    before,
+    after: updateData,
+  });
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete');
 
@@ -167,17 +194,30 @@ export async function deleteGoal(goalId: string) {
     return { success: false, error: 'Coach profile not found' };
   }
 
-  const { error } = await (supabase as any)
+  const { data: deleted, error } = await (supabase as any)
     .from('athlete_goals')
     .delete()
     .eq('id', goalId)
-    .eq('coach_id', coach.id);
+    .eq('coach_id', coach.id)
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error('Error deleting goal:', error);
     return { success: false, error: 'Failed to delete goal' };
   }
 
+  if (deleted) {
+    await createAuditLog({
+      userId: user.id,
+      userRole: 'coach',
+      actionType: 'goal.delete',
+      entityType: 'athlete_goal',
+      entityId: goalId,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete');
 
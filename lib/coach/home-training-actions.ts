@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface CreateFeedbackInput {
   training_log_id: string;
@@ -122,6 +123,13 @@ export async function reviewHomeTrainingLog(
     return { error: 'ไม่พบข้อมูลโปรไฟล์' };
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: before } = await (supabase as any)
+    .from('home_training_logs')
+    .select('*')
+    .eq('id', logId)
+    .maybeSingle();
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('home_training_logs')
@@ -139,6 +147,15 @@ export async function reviewHomeTrainingLog(
     return { error: 'ไม่สามารถตรวจสอบการฝึกได้' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'home_training_log.review',
+    entityType: 'home_training_log',
+    entityId: logId,
+    before,
+    after: data,
+  });
+
   revalidatePath('/dashboard/coach/home-training');
   return { data };
 }
@@ -176,6 +193,14 @@ export async function createHomeTrainingFeedback(input: CreateFeedbackInput) {
     return { error: 'ไม่สามารถสร้าง feedback ได้' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'home_training_feedback.create',
+    entityType: 'home_training_feedback',
+    entityId: data.id,
+    after: data,
+  });
+
   // Also update the training log status
   await reviewHomeTrainingLog(input.training_log_id, 'reviewed');
 
@@ -189,6 +214,13 @@ export async function updateHomeTrainingFeedback(
 ) {
   const supabase = await createClient();
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: before } = await (supabase as any)
+    .from('home_training_feedback')
+    .select('*')
+    .eq('id', feedbackId)
+    .maybeSingle();
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('home_training_feedback')
@@ -202,6 +234,14 @@ export async function updateHomeTrainingFeedback(
     return { error: 'ไม่สามารถแก้ไข feedback ได้' };
   }
 
+  await createAuditLog({
+    actionType: 'home_training_feedback.update',
+    entityType: 'home_training_feedback',
+    entityId: feedbackId,
+    before,
+    after: { ...updates },
+  });
+
   revalidatePath('/dashboard/coach/home-training');
   return { data };
 }
@@ -210,16 +250,27 @@ export async function deleteHomeTrainingFeedback(feedbackId: string) {
   const supabase = await createClient();
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { data: deleted, error } = await (supabase as any)
     .from('home_training_feedback')
     .delete()
-    .eq('id', feedbackId);
+    .eq('id', feedbackId)
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error('Error deleting feedback:', error);
     return { error: 'ไม่สามารถลบ feedback ได้' };
   }
 
+  if (deleted) {
+    await createAuditLog({
+      actionType: 'home_training_feedback.delete',
+      entityType: 'home_training_feedback',
+      entityId: feedbackId,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/coach/home-training');
   return { success: true };
 }
@@ -0,0 +1,205 @@
+/**
+ * Offline Attendance
+ * Lets coaches take attendance without a connection. The sheet (session and
+ * roster) is cached in offline storage while online, marks are queued in the
+ * sync queue, and the sync manager sends them with syncOfflineAttendanceMark.
+ * Marks the server did not apply as sent are kept as conflicts for the coach
+ * to review in the sync status indicator.
+ */
+
+import { syncOfflineAttendanceMark } from '@/lib/coach/attendance-actions';
+import type {
+  AttendanceConflictReason,
+  AttendanceSyncResult,
+  OfflineAttendanceMark,
+  ServerAttendanceState,
+} from '@/lib/coach/attendance-conflicts';
+import {
+  STORES,
+  deleteFromOfflineStorage,
+  getFromOfflineStorage,
+  saveToOfflineStorage,
+  setLastCacheUpdate,
+} from '@/lib/utils/offline-storage';
+import { syncManager } from '@/lib/utils/sync-manager';
+import {
+  addToSyncQueue,
+  getPendingOperations,
+  removeFromSyncQueue,
+  type SyncOperation,
+} from '@/lib/utils/sync-queue';
+
+export const COACH_ATTENDANCE_RESOURCE = 'coach-attendance';
+
+export interface CachedAttendanceSheet<TSession = unknown, TAthlete = unknown> {
+  /** Session ID */
+  id: string;
+  session: TSession;
+  athletes: TAthlete[];
+  cachedAt: number;
+}
+
+export interface AttendanceConflict {
+  /** `${sessionId}:${athleteId}`; a newer mark for the athlete replaces it */
+  id: string;
+  mark: OfflineAttendanceMark;
+  outcome: Exclude<AttendanceSyncResult['outcome'], 'applied' | 'unchanged'>;
+  reason?: AttendanceConflictReason;
+  message?: string;
+  server: ServerAttendanceState | null;
+  detectedAt: number;
+}
+
+const conflictListeners: Set<() => void> = new Set();
+
+function conflictId(mark: Pick<OfflineAttendanceMark, 'sessionId' | 'athleteId'>): string {
+  return `${mark.sessionId}:${mark.athleteId}`;
+}
+
+function notifyConflictListeners(): void {
+  conflictListeners.forEach((listener) => listener());
+}
+
+function isAttendanceMark(operation: SyncOperation): boolean {
+  return operation.resource === COACH_ATTENDANCE_RESOURCE;
+}
+
+/**
+ * Cache a session's attendance sheet for use offline
+ */
+export async function cacheAttendanceSheet<TSession, TAthlete>(
+  sessionId: string,
+  session: TSession,
+  athletes: TAthlete[]
+): Promise<void> {
+  const sheet: CachedAttendanceSheet<TSession, TAthlete> = {
+    id: sessionId,
+    session,
+    athletes,
+    cachedAt: Date.now(),
+  };
+  await saveToOfflineStorage(STORES.ATTENDANCE_SHEETS, sheet);
+  setLastCacheUpdate(STORES.ATTENDANCE_SHEETS);
+}
+
+/**
+ * Get a cached attendance sheet, or null when the session was never opened online
+ */
+export async function getCachedAttendanceSheet<TSession, TAthlete>(
+  sessionId: string
+): Promise<CachedAttendanceSheet<TSession, TAthlete> | null> {
+  return (await getFromOfflineStorage<CachedAttendanceSheet<TSession, TAthlete>>(
+    STORES.ATTENDANCE_SHEETS,
+    sessionId
+  )) as CachedAttendanceSheet<TSession, TAthlete> | null;
+}
+
+/**
+ * Queue a mark to be sent when the device is back online
+ * Replaces a mark for the same athlete that has not been sent yet, keeping the
+ * record the coach first saw so changes made by others are still detected.
+ */
+export async function queueAttendanceMark(mark: OfflineAttendanceMark): Promise<void> {
+  const earlier = (await getPendingOperations()).filter(
+    (operation) => isAttendanceMark(operation) && conflictId(operation.data) === conflictId(mark)
+  );
+
+  for (const operation of earlier) {
+    await removeFromSyncQueue(operation.id);
+  }
+
+  await addToSyncQueue({
+    type: 'update',
+    resource: COACH_ATTENDANCE_RESOURCE,
+    data: {
+      ...mark,
+      base: earlier.length > 0 ? (earlier[0].data as OfflineAttendanceMark).base : mark.base,
+    },
+  });
+
+  // The new mark supersedes an unresolved conflict for the athlete
+  await deleteFromOfflineStorage(STORES.ATTENDANCE_CONFLICTS, conflictId(mark));
+  notifyConflictListeners();
+}
+
+/**
+ * Marks for a session that are waiting to be sent, by athlete ID
+ */
+export async function getQueuedAttendanceMarks(
+  sessionId: string
+): Promise<Record<string, OfflineAttendanceMark>> {
+  const marks: Record<string, OfflineAttendanceMark> = {};
+  for (const operation of await getPendingOperations()) {
+    const mark = operation.data as OfflineAttendanceMark;
+    if (isAttendanceMark(operation) && mark.sessionId === sessionId) {
+      marks[mark.athleteId] = mark;
+    }
+  }
+  return marks;
+}
+
+/**
+ * Conflicts waiting for the coach, oldest first
+ */
+export async function getAttendanceConflicts(): Promise<AttendanceConflict[]> {
+  const conflicts = (await getFromOfflineStorage<AttendanceConflict>(
+    STORES.ATTENDANCE_CONFLICTS
+  )) as AttendanceConflict[] | null;
+  return (conflicts ?? []).sort((a, b) => a.detectedAt - b.detectedAt);
+}
+
+/**
+ * Listen for conflicts being added or resolved
+ */
+export function subscribeToAttendanceConflicts(listener: () => void): () => void {
+  conflictListeners.add(listener);
+  return () => conflictListeners.delete(listener);
+}
+
+/**
+ * Resolve a conflict by keeping the record on the server, or acknowledge a
+ * mark that was dropped by the rules or rejected
+ */
+export async function dismissAttendanceConflict(conflict: AttendanceConflict): Promise<void> {
+  await deleteFromOfflineStorage(STORES.ATTENDANCE_CONFLICTS, conflict.id);
+  notifyConflictListeners();
+}
+
+/**
+ * Resolve a conflict by sending the coach's mark again over the record they
+ * reviewed. If the record changes again before it is sent, it comes back as a
+ * new conflict.
+ */
+export async function applyOfflineAttendanceMark(conflict: AttendanceConflict): Promise<void> {
+  await queueAttendanceMark({
+    ...conflict.mark,
+    base: conflict.server
+      ? { status: conflict.server.status, updatedAt: conflict.server.updated_at }
+      : null,
+  });
+  await syncManager.sync();
+}
+
+syncManager.registerHandler(COACH_ATTENDANCE_RESOURCE, async (operation) => {
+  const mark = operation.data as OfflineAttendanceMark;
+  const result = await syncOfflineAttendanceMark(mark);
+
+  if (result.error || !result.data) {
+    throw new Error(result.error || 'Attendance sync failed');
+  }
+
+  const { outcome, reason, message, server } = result.data;
+  if (outcome === 'applied' || outcome === 'unchanged') return;
+
+  const conflict: AttendanceConflict = {
+    id: conflictId(mark),
+    mark,
+    outcome,
+    reason,
+    message,
+    server: server ?? null,
+    detectedAt: Date.now(),
+  };
+  await saveToOfflineStorage(STORES.ATTENDANCE_CONFLICTS, conflict);
+  notifyConflictListeners();
+});
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface PerformanceRecordInput {
   athleteId: string;
@@ -73,6 +74,15 @@ export async function createPerformanceRecord(data: PerformanceRecordInput) {
     return { success: false, error: 'Failed to create performance record' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    userRole: 'coach',
+    actionType: 'performance.record',
+    entityType: 'performance_record',
+    entityId: (record as { id: string }).id,
+    after: record,
+  });
+
   revalidatePath('/dashboard/coach/performance');
   revalidatePath('/dashboard/athlete/performance');
 
@@ -1,6 +1,13 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import { getAttendancePolicy } from '@/lib/admin/settings-actions';
+import { calculateAttendanceRate, isAutoAbsentDue } from '@/lib/utils/attendance-policy';
+import {
+  sessionStartsAt,
+  wasMemberAt,
+  type ClubMembershipPeriod,
+} from '@/lib/utils/session-close-out';
 
 export interface AttendanceReportParams {
   startDate: string;
@@ -62,7 +69,7 @@ export async function generateAttendanceReport(
     // Get all sessions in date range for coach's club
     let sessionsQuery = supabase
       .from('training_sessions')
-      .select('id')
+      .select('id, session_date, start_time, end_time, status, attendance_locked_at')
       // @ts-ignore
       .eq('club_id', coach.club_id)
       .gte('session_date', params.startDate)
@@ -76,6 +83,29 @@ export async function generateAttendanceReport(
     }
 
     const sessionIds = (sessions || []).map((s: any) => s.id);
+
+    // Club attendance policy (late counting, auto-absent after the session ends).
+    // Closed-out sessions already hold their absent rows, so only open ones are counted here
+    const policy = await getAttendancePolicy((coach as { club_id: string }).club_id);
+    const now = new Date();
+    const sessionRows = (sessions || []) as {
+      id: string;
+      session_date: string;
+      start_time: string;
+      end_time: string;
+      status: string | null;
+      attendance_locked_at: string | null;
+    }[];
+    const autoAbsentSessions = policy.auto_mark_absent
+      ? sessionRows
+          .filter(
+            (s) =>
+              s.status !== 'cancelled' &&
+              !s.attendance_locked_at &&
+              isAutoAbsentDue(now, s.session_date, s.end_time, policy)
+          )
+          .map((s) => ({ id: s.id, startsAt: sessionStartsAt(s) }))
+      : [];
     
     if (sessionIds.length === 0) {
       return { data: [] };
@@ -108,7 +138,7 @@ export async function generateAttendanceReport(
     // Get all attendance records for these sessions
     const { data: attendanceRecords, error: attendanceError } = await supabase
       .from('attendance')
-      .select('athlete_id, status')
+      .select('athlete_id, status, training_session_id')
       .in('training_session_id', sessionIds);
 
     if (attendanceError) {
@@ -116,6 +146,20 @@ export async function generateAttendanceReport(
       return { error: 'เกิดข้อผิดพลาดในการดึงข้อมูลการเข้าร่วม' };
     }
 
+    // Athletes only count as absent from sessions they were a member for, as in close-out
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('athlete_club_memberships')
+      .select('athlete_id, joined_at, left_at')
+      .eq('club_id', (coach as { club_id: string }).club_id)
+      .in('athlete_id', (athletes as { id: string }[]).map((athlete) => athlete.id));
+
+    if (membershipsError) {
+      console.error('Memberships query error:', membershipsError);
+      return { error: 'เกิดข้อผิดพลาดในการดึงข้อมูลนักกีฬา' };
+    }
+
+    const periods = (memberships || []) as ClubMembershipPeriod[];
+
     // Build attendance map
     const attendanceByAthlete = new Map<string, any[]>();
     (attendanceRecords || []).forEach((record: any) => {
@@ -131,15 +175,24 @@ export async function generateAttendanceReport(
     const report: AthleteAttendanceReport[] = athletes.map((athlete: any) => {
       const records = attendanceByAthlete.get(athlete.id) || [];
       
+      const recordedSessions = new Set(
+        (records as { training_session_id: string }[]).map((r) => r.training_session_id)
+      );
+      const autoAbsent = autoAbsentSessions.filter(
+        (session) =>
+          !recordedSessions.has(session.id) && wasMemberAt(periods, athlete.id, session.startsAt)
+      ).length;
+
       const attended = records.filter((r: any) => r.status === 'present').length;
-      const absent = records.filter((r: any) => r.status === 'absent').length;
+      const absent = records.filter((r: any) => r.status === 'absent').length + autoAbsent;
       const late = records.filter((r: any) => r.status === 'late').length;
       const excused = records.filter((r: any) => r.status === 'excused').length;
       
-      // Calculate attendance rate (present + late / total sessions)
-      const attendanceRate = totalSessions > 0
-        ? Math.round(((attended + late) / totalSessions) * 100 * 10) / 10
-        : 0;
+      // Calculate attendance rate per club policy (late counts as present by default)
+      const attendanceRate = calculateAttendanceRate(
+        { present: attended, late, total: totalSessions },
+        policy
+      );
 
       return {
         athleteId: athlete.id,
@@ -2,9 +2,9 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { createAuditLog } from '@/lib/audit/actions';
+import { createAuditLog } from '@/lib/audit/log';
 import { Database } from '@/types/database.types';
-import { invalidatePattern } from '@/lib/utils/cache';
+import { CACHE_TAGS, attendanceCacheTags, invalidateTags } from '@/lib/utils/cache';
 import { sanitizeInput } from '@/lib/utils/sanitization';
 import { 
   validateRequired, 
@@ -12,14 +12,36 @@ import {
   validateDateRange,
   validateTimeRange 
 } from '@/lib/utils/enhanced-validation';
+import {
+  addDays,
+  expandRecurrence,
+  validateRecurrenceRule,
+  type RecurrenceRule,
+  type SeriesEditScope,
+} from '@/lib/coach/session-recurrence';
+import {
+  detectSessionConflicts,
+  type ConflictingTournament,
+  type ConflictOverride,
+  type ExistingSession,
+  type SessionConflict,
+  type SessionSlot,
+} from '@/lib/coach/session-conflicts';
 
 type TrainingSession = Database['public']['Tables']['training_sessions']['Row'];
 type TrainingSessionInsert = Database['public']['Tables']['training_sessions']['Insert'];
 type TrainingSessionUpdate = Database['public']['Tables']['training_sessions']['Update'];
+type TrainingSessionSeries = Database['public']['Tables']['training_session_series']['Row'];
 type Coach = Database['public']['Tables']['coaches']['Row'];
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
 
 /**
  * Create a new training session
+ * When `recurrence` is provided, `session_date` is the first day of a series and
+ * every occurrence is created up front as its own training_sessions row
+ * Sessions that clash with the coach's other sessions, the same location or a
+ * tournament with entered athletes are rejected with the list of `conflicts`
+ * unless the coach passes an `override` reason
  */
 export async function createSession(data: {
   title: string;
@@ -28,7 +50,16 @@ export async function createSession(data: {
   start_time: string;
   end_time: string;
   location: string;
-}): Promise<{ success?: boolean; data?: TrainingSession; error?: string }> {
+  recurrence?: RecurrenceRule;
+  override?: ConflictOverride;
+}): Promise<{
+  success?: boolean;
+  data?: TrainingSession;
+  seriesId?: string;
+  occurrenceCount?: number;
+  conflicts?: SessionConflict[];
+  error?: string;
+}> {
   try {
     const supabase = await createClient();
 
@@ -87,6 +118,13 @@ export async function createSession(data: {
       return { error: timeError.message };
     }
 
+    if (data.recurrence) {
+      const recurrenceError = validateRecurrenceRule(data.recurrence, data.session_date);
+      if (recurrenceError) {
+        return { error: recurrenceError };
+      }
+    }
+
     // Sanitize inputs to prevent XSS
     const sanitizedTitle = sanitizeInput(data.title);
     const sanitizedLocation = sanitizeInput(data.location);
@@ -95,6 +133,53 @@ export async function createSession(data: {
     // Create session with sanitized data
     // Note: coach_id in training_sessions references auth.users(id), not coaches(id)
     const coachData = coach as Coach;
+
+    // Check for scheduling conflicts across every occurrence
+    const slotDates = data.recurrence
+      ? expandRecurrence(data.session_date, data.recurrence)
+      : [data.session_date];
+    const conflicts = await findSessionConflicts(
+      supabase,
+      coachData.club_id,
+      slotDates.map((date) => ({
+        session_date: date,
+        start_time: data.start_time,
+        end_time: data.end_time,
+        location: sanitizedLocation,
+        coach_id: coachData.user_id,
+      }))
+    );
+
+    if (conflicts.length > 0) {
+      const overrideError = validateConflictOverride(data.override);
+      if (overrideError) {
+        return { error: overrideError, conflicts };
+      }
+    }
+
+    if (data.recurrence) {
+      const result = await createSessionSeries(supabase, user.id, coachData, data.recurrence, {
+        title: sanitizedTitle,
+        description: sanitizedDescription,
+        session_date: data.session_date,
+        start_time: data.start_time,
+        end_time: data.end_time,
+        location: sanitizedLocation,
+      });
+
+      if (result.success && result.seriesId && conflicts.length > 0) {
+        await logConflictOverride(
+          user.id,
+          'training_session_series',
+          result.seriesId,
+          conflicts,
+          data.override
+        );
+      }
+
+      return { ...result, conflicts: conflicts.length > 0 ? conflicts : undefined };
+    }
+
     const sessionData = {
       club_id: coachData.club_id,
       coach_id: coachData.user_id, // Use user_id since FK references auth.users
@@ -126,24 +211,248 @@ export async function createSession(data: {
       entityType: 'training_session',
       // @ts-ignore
       entityId: session.id,
-      details: sessionData,
+      after: session,
     });
 
+    if (conflicts.length > 0) {
+      await logConflictOverride(
+        user.id,
+        'training_session',
+        (session as TrainingSession).id,
+        conflicts,
+        data.override
+      );
+    }
+
     revalidatePath('/dashboard/coach/sessions');
 
     // Invalidate stats cache
-    invalidatePattern('attendance-stats:.*');
-    invalidatePattern('club-stats:.*');
-
-    return { success: true, data: session };
+    await invalidateTags(
+      attendanceCacheTags({
+        clubId: coachData.club_id,
+        sessionId: (session as TrainingSession).id,
+      })
+    );
+
+    return { success: true, data: session, conflicts: conflicts.length > 0 ? conflicts : undefined };
   } catch (error) {
     console.error('Unexpected error in createSession:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
 
+/**
+ * Load sessions and tournaments that may clash with the proposed slots
+ * Lookup failures are logged and treated as "no conflicts" so a slow or
+ * missing tournaments table never blocks scheduling
+ */
+async function findSessionConflicts(
+  supabase: SupabaseServerClient,
+  clubId: string,
+  slots: SessionSlot[]
+): Promise<SessionConflict[]> {
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const dates = [...new Set(slots.map((slot) => slot.session_date))].sort();
+  const coachIds = [...new Set(slots.map((slot) => slot.coach_id).filter(Boolean))];
+
+  // Same club (location clashes) or same coach (double booking)
+  let sessionsQuery = supabase
+    .from('training_sessions')
+    .select('id, title, session_date, start_time, end_time, location, coach_id, status')
+    .in('session_date', dates);
+
+  sessionsQuery =
+    coachIds.length > 0
+      ? sessionsQuery.or(`club_id.eq.${clubId},coach_id.in.(${coachIds.join(',')})`)
+      : sessionsQuery.eq('club_id', clubId);
+
+  const { data: sessions, error: sessionsError } = await sessionsQuery;
+
+  if (sessionsError) {
+    console.error('Conflict sessions query error:', sessionsError);
+  }
+
+  const rangeStart = new Date(`${dates[0]}T00:00:00`).toISOString();
+  const rangeEnd = new Date(`${dates[dates.length - 1]}T23:59:59`).toISOString();
+
+  const { data: tournaments, error: tournamentsError } = await supabase
+    .from('tournaments')
+    .select('id, name, start_date, end_date, tournament_participants (status)')
+    .eq('club_id', clubId)
+    .neq('status', 'cancelled')
+    .lte('start_date', rangeEnd)
+    .gte('end_date', rangeStart);
+
+  if (tournamentsError) {
+    console.error('Conflict tournaments query error:', tournamentsError);
+  }
+
+  const enteredTournaments: ConflictingTournament[] = (
+    (tournaments || []) as {
+      id: string;
+      name: string;
+      start_date: string;
+      end_date: string;
+      tournament_participants: { status: string }[] | null;
+    }[]
+  ).map((tournament) => ({
+    id: tournament.id,
+    name: tournament.name,
+    start_date: tournament.start_date,
+    end_date: tournament.end_date,
+    participant_count: (tournament.tournament_participants || []).filter((participant) =>
+      ['selected', 'confirmed'].includes(participant.status)
+    ).length,
+  }));
+
+  return detectSessionConflicts(slots, (sessions || []) as ExistingSession[], enteredTournaments);
+}
+
+/**
+ * A conflict can only be overridden with a written reason
+ */
+function validateConflictOverride(override?: ConflictOverride): string | null {
+  if (!override) {
+    return 'พบตารางที่ชนกัน กรุณาตรวจสอบหรือระบุเหตุผลเพื่อยืนยันการบันทึก';
+  }
+
+  const reasonError =
+    validateRequired(override.reason, 'เหตุผลในการยืนยัน') ||
+    validateLength(override.reason, 5, 500, 'เหตุผลในการยืนยัน');
+
+  return reasonError ? reasonError.message : null;
+}
+
+/**
+ * Record that a coach saved a session despite known conflicts
+ */
+async function logConflictOverride(
+  userId: string,
+  entityType: 'training_session' | 'training_session_series',
+  entityId: string,
+  conflicts: SessionConflict[],
+  override?: ConflictOverride
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    userRole: 'coach',
+    actionType: 'training_session.conflict_override',
+    entityType,
+    entityId,
+    details: {
+      reason: override ? sanitizeInput(override.reason) : null,
+      conflicts: conflicts as unknown as Record<string, unknown>[],
+    },
+  });
+}
+
+/**
+ * Create a series row and materialise all of its occurrences
+ */
+async function createSessionSeries(
+  supabase: SupabaseServerClient,
+  userId: string,
+  coach: Coach,
+  rule: RecurrenceRule,
+  template: {
+    title: string;
+    description: string | null;
+    session_date: string;
+    start_time: string;
+    end_time: string;
+    location: string;
+  }
+): Promise<{
+  success?: boolean;
+  data?: TrainingSession;
+  seriesId?: string;
+  occurrenceCount?: number;
+  error?: string;
+}> {
+  const dates = expandRecurrence(template.session_date, rule);
+  if (dates.length === 0) {
+    return { error: 'ไม่มีวันฝึกซ้อมที่ตรงกับรูปแบบการทำซ้ำที่เลือก' };
+  }
+
+  const seriesData = {
+    club_id: coach.club_id,
+    coach_id: coach.user_id,
+    created_by: userId,
+    title: template.title,
+    description: template.description,
+    location: template.location,
+    start_time: template.start_time,
+    end_time: template.end_time,
+    frequency: rule.frequency,
+    weekdays: [...new Set(rule.weekdays)].sort((a, b) => a - b),
+    start_date: template.session_date,
+    end_date: rule.end_date || null,
+    occurrence_count: rule.occurrence_count ?? null,
+  };
+
+  // The series and its occurrences are written together, or not at all
+  const { data: newSeriesId, error: createError } = await supabase.rpc(
+    'create_training_session_series',
+    { p_series: seriesData, p_dates: dates } as never
+  );
+
+  if (createError || !newSeriesId) {
+    console.error('Series create error:', createError);
+    return { error: 'เกิดข้อผิดพลาดในการสร้างตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  const seriesId = newSeriesId as unknown as string;
+
+  const [{ data: series, error: seriesError }, { data: firstSession, error: sessionError }] =
+    await Promise.all([
+      supabase.from('training_session_series').select('*').eq('id', seriesId).single(),
+      supabase
+        .from('training_sessions')
+        .select('*')
+        .eq('series_id', seriesId)
+        .order('session_date', { ascending: true })
+        .limit(1)
+        .single(),
+    ]);
+
+  if (seriesError || sessionError || !series || !firstSession) {
+    console.error('Series fetch error:', seriesError || sessionError);
+    return { error: 'เกิดข้อผิดพลาดในการสร้างตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  await createAuditLog({
+    userId,
+    actionType: 'training_session_series.create',
+    entityType: 'training_session_series',
+    entityId: (series as TrainingSessionSeries).id,
+    after: series as TrainingSessionSeries,
+    details: { occurrences: dates.length },
+  });
+
+  revalidatePath('/dashboard/coach/sessions');
+
+  // Invalidate stats cache
+  await invalidateTags(attendanceCacheTags({ clubId: coach.club_id }));
+
+  return {
+    success: true,
+    data: firstSession as TrainingSession,
+    seriesId: (series as TrainingSessionSeries).id,
+    occurrenceCount: dates.length,
+  };
+}
+
 /**
  * Update an existing training session
+ * For sessions that belong to a series, `scope` selects whether the change
+ * applies to this occurrence only, this and following occurrences, or every
+ * upcoming occurrence. Individually modified occurrences are left untouched
+ * by series-wide edits.
+ * Changes to date, time or location are checked for conflicts the same way
+ * as createSession and need an `override` reason to go through.
  */
 export async function updateSession(
   sessionId: string,
@@ -154,8 +463,15 @@ export async function updateSession(
     start_time?: string;
     end_time?: string;
     location?: string;
-  }
-): Promise<{ success?: boolean; error?: string }> {
+  },
+  scope: SeriesEditScope = 'this',
+  override?: ConflictOverride
+): Promise<{
+  success?: boolean;
+  updatedCount?: number;
+  conflicts?: SessionConflict[];
+  error?: string;
+}> {
   try {
     const supabase = await createClient();
 
@@ -197,6 +513,9 @@ export async function updateSession(
       return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถแก้ไขตารางของโค้ชอื่นได้' };
     }
 
+    const currentSession = session as TrainingSession;
+    const appliesToSeries = !!currentSession.series_id && scope !== 'this';
+
     // Validate input
     if (data.title !== undefined && data.title.trim().length === 0) {
       return { error: 'ชื่อตารางฝึกซ้อมต้องไม่ว่าง' };
@@ -206,6 +525,11 @@ export async function updateSession(
       return { error: 'สถานที่ต้องไม่ว่าง' };
     }
 
+    // Moving several occurrences to one date would collapse them together
+    if (appliesToSeries && data.session_date !== undefined) {
+      return { error: 'ไม่สามารถเปลี่ยนวันที่ของหลายครั้งพร้อมกันได้ กรุณาแก้ไขทีละครั้ง' };
+    }
+
     // Validate date is not in the past
     if (data.session_date) {
       const sessionDate = new Date(data.session_date);
@@ -236,6 +560,86 @@ export async function updateSession(
     if (data.end_time !== undefined) updateData.end_time = data.end_time;
     if (data.location !== undefined) updateData.location = data.location.trim();
 
+    // Re-check conflicts only when the slot itself moves
+    let conflicts: SessionConflict[] = [];
+    const slotChanged =
+      data.session_date !== undefined ||
+      data.start_time !== undefined ||
+      data.end_time !== undefined ||
+      data.location !== undefined;
+
+    if (slotChanged) {
+      let affected: TrainingSession[] = [currentSession];
+
+      if (appliesToSeries) {
+        const fromDate =
+          scope === 'following'
+            ? currentSession.occurrence_date || currentSession.session_date
+            : new Date().toISOString().split('T')[0];
+
+        const { data: occurrences } = await supabase
+          .from('training_sessions')
+          .select('*')
+          .eq('series_id', currentSession.series_id as string)
+          .gte('session_date', fromDate);
+
+        affected = (occurrences || []) as TrainingSession[];
+      }
+
+      conflicts = await findSessionConflicts(
+        supabase,
+        currentSession.club_id,
+        affected.map((occurrence) => ({
+          id: occurrence.id,
+          session_date: updateData.session_date ?? occurrence.session_date,
+          start_time: updateData.start_time ?? occurrence.start_time,
+          end_time: updateData.end_time ?? occurrence.end_time,
+          location: updateData.location ?? occurrence.location,
+          coach_id: occurrence.coach_id,
+        }))
+      );
+
+      if (conflicts.length > 0) {
+        const overrideError = validateConflictOverride(override);
+        if (overrideError) {
+          return { error: overrideError, conflicts };
+        }
+      }
+    }
+
+    if (appliesToSeries) {
+      const result = await updateSeriesOccurrences(
+        supabase,
+        user.id,
+        currentSession,
+        updateData,
+        scope
+      );
+
+      if (result.error) {
+        return { error: result.error };
+      }
+
+      if (conflicts.length > 0) {
+        await logConflictOverride(
+          user.id,
+          'training_session_series',
+          currentSession.series_id as string,
+          conflicts,
+          override
+        );
+      }
+
+      revalidatePath('/dashboard/coach/sessions');
+      revalidatePath(`/dashboard/coach/sessions/${sessionId}`);
+
+      return {
+        success: true,
+        updatedCount: result.updatedCount,
+        conflicts: conflicts.length > 0 ? conflicts : undefined,
+      };
+    }
+
     // Update session
     // @ts-ignore - Supabase type inference issue
     // Type assertion needed until TypeScript picks up the new database types
@@ -249,30 +653,199 @@ export async function updateSession(
       return { error: 'เกิดข้อผิดพลาดในการแก้ไขตารางฝึกซ้อม' };
     }
 
+    // Remember that this occurrence no longer follows the series template
+    if (currentSession.series_id) {
+      await recordSeriesException(supabase, user.id, currentSession, 'modified');
+    }
+
     // Log audit event
     await createAuditLog({
       userId: user.id,
       actionType: 'training_session.update',
       entityType: 'training_session',
       entityId: sessionId,
-      details: updateData,
+      before: currentSession,
+      after: updateData,
+      details: { series_id: currentSession.series_id ?? null },
     });
 
+    if (conflicts.length > 0) {
+      await logConflictOverride(user.id, 'training_session', sessionId, conflicts, override);
+    }
+
     revalidatePath('/dashboard/coach/sessions');
     revalidatePath(`/dashboard/coach/sessions/${sessionId}`);
 
-    return { success: true };
+    return {
+      success: true,
+      updatedCount: 1,
+      conflicts: conflicts.length > 0 ? conflicts : undefined,
+    };
   } catch (error) {
     console.error('Unexpected error in updateSession:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
 
+/**
+ * Record a skipped or individually modified occurrence of a series
+ */
+async function recordSeriesException(
+  supabase: SupabaseServerClient,
+  userId: string,
+  session: TrainingSession,
+  exceptionType: 'skip' | 'modified',
+  reason?: string
+): Promise<void> {
+  const { error } = await (supabase
+    .from('training_session_exceptions') as any)
+    .upsert(
+      {
+        series_id: session.series_id,
+        occurrence_date: session.occurrence_date || session.session_date,
+        exception_type: exceptionType,
+        reason: reason ? sanitizeInput(reason) : null,
+        created_by: userId,
+      },
+      { onConflict: 'series_id,occurrence_date' }
+    );
+
+  if (error) {
+    console.error('Series exception error:', error);
+  }
+}
+
+/**
+ * Apply an edit to "this and following" or "all" upcoming occurrences
+ *
+ * "following" splits the series at the selected occurrence so the original
+ * series keeps its old template for earlier dates, while "all" updates the
+ * template in place. Past occurrences and individually modified ones are
+ * never rewritten.
+ */
+async function updateSeriesOccurrences(
+  supabase: SupabaseServerClient,
+  userId: string,
+  session: TrainingSession,
+  updateData: TrainingSessionUpdate,
+  scope: Exclude<SeriesEditScope, 'this'>
+): Promise<{ updatedCount?: number; error?: string }> {
+  const { data: series, error: seriesError } = await supabase
+    .from('training_session_series')
+    .select('*')
+    .eq('id', session.series_id as string)
+    .single();
+
+  if (seriesError || !series) {
+    return { error: 'ไม่พบตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  const currentSeries = series as TrainingSessionSeries;
+  const splitDate = session.occurrence_date || session.session_date;
+  const today = new Date().toISOString().split('T')[0];
+  const fromDate = scope === 'following' ? splitDate : today;
+
+  const templateUpdate: Database['public']['Tables']['training_session_series']['Update'] = {};
+  if (updateData.title !== undefined) templateUpdate.title = updateData.title;
+  if (updateData.description !== undefined) templateUpdate.description = updateData.description;
+  if (updateData.start_time !== undefined) templateUpdate.start_time = updateData.start_time;
+  if (updateData.end_time !== undefined) templateUpdate.end_time = updateData.end_time;
+  if (updateData.location !== undefined) templateUpdate.location = updateData.location;
+
+  let targetSeriesId = currentSeries.id;
+
+  if (scope === 'following' && splitDate > currentSeries.start_date) {
+    // New series, the original ended the day before and the later occurrences
+    // and exceptions moved over, all in one transaction
+    const { data: newSeriesId, error: splitError } = await supabase.rpc(
+      'split_training_session_series',
+      {
+        p_series_id: currentSeries.id,
+        p_split_date: splitDate,
+        p_template: templateUpdate,
+      } as never
+    );
+
+    if (splitError || !newSeriesId) {
+      console.error('Series split error:', splitError);
+      return { error: 'เกิดข้อผิดพลาดในการแก้ไขตารางฝึกซ้อมแบบทำซ้ำ' };
+    }
+
+    targetSeriesId = newSeriesId as unknown as string;
+  } else if (Object.keys(templateUpdate).length > 0) {
+    const { error: templateError } = await (supabase.from('training_session_series') as any)
+      .update(templateUpdate)
+      .eq('id', currentSeries.id);
+
+    if (templateError) {
+      console.error('Series template update error:', templateError);
+      return { error: 'เกิดข้อผิดพลาดในการแก้ไขตารางฝึกซ้อมแบบทำซ้ำ' };
+    }
+  }
+
+  // Individually edited occurrences keep their own values
+  const { data: modified, error: modifiedError } = await supabase
+    .from('training_session_exceptions')
+    .select('occurrence_date')
+    .eq('series_id', targetSeriesId)
+    .eq('exception_type', 'modified');
+
+  if (modifiedError) {
+    console.error('Series exceptions error:', modifiedError);
+    return { error: 'เกิดข้อผิดพลาดในการแก้ไขตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  let query = (supabase.from('training_sessions') as any)
+    .update(updateData)
+    .eq('series_id', targetSeriesId)
+    .gte('session_date', fromDate);
+
+  const modifiedDates = ((modified || []) as { occurrence_date: string }[]).map(
+    (exception) => exception.occurrence_date
+  );
+  if (modifiedDates.length > 0) {
+    query = query.not('occurrence_date', 'in', `(${modifiedDates.join(',')})`);
+  }
+
+  const { data: updated, error: updateError } = await query.select('id');
+
+  if (updateError) {
+    console.error('Series update error:', updateError);
+    return { error: 'เกิดข้อผิดพลาดในการแก้ไขตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  await createAuditLog({
+    userId,
+    actionType: 'training_session_series.update',
+    entityType: 'training_session_series',
+    entityId: targetSeriesId,
+    // A split series starts from the template of the series it was split from
+    before: currentSeries,
+    after: templateUpdate,
+    details: {
+      scope,
+      from_date: fromDate,
+      source_series_id: currentSeries.id,
+      updated_sessions: (updated || []).length,
+    },
+  });
+
+  return { updatedCount: (updated || []).length };
+}
+
 /**
  * Cancel a training session
  * Can only cancel if at least 2 hours before start time
+ * For sessions in a series, `scope` cancels this occurrence only (kept as a
+ * skip exception), this and following occurrences (the series is ended the
+ * day before), or the whole series. Occurrences that already started or are
+ * less than 2 hours away are never removed by a series-wide cancellation.
  */
-export async function cancelSession(sessionId: string): Promise<{ success?: boolean; error?: string }> {
+export async function cancelSession(
+  sessionId: string,
+  scope: SeriesEditScope = 'this',
+  reason?: string
+): Promise<{ success?: boolean; cancelledCount?: number; error?: string }> {
   try {
     const supabase = await createClient();
 
@@ -314,45 +887,167 @@ export async function cancelSession(sessionId: string): Promise<{ success?: bool
       return { error: 'ไม่ได้รับอนุญาต: คุณไม่สามารถยกเลิกตารางของโค้ชอื่นได้' };
     }
 
-    // Check if session is at least 2 hours in the future
-    // @ts-ignore
-    const sessionDateTime = new Date(`${session.session_date}T${session.start_time}`);
+    const currentSession = session as TrainingSession;
     const now = new Date();
     const twoHoursFromNow = new Date(now.getTime() + 2 * 60 * 60 * 1000);
 
+    if (currentSession.series_id && scope !== 'this') {
+      return await cancelSeriesOccurrences(
+        supabase,
+        user.id,
+        currentSession,
+        scope,
+        twoHoursFromNow,
+        reason
+      );
+    }
+
+    // Check if session is at least 2 hours in the future
+    const sessionDateTime = new Date(`${currentSession.session_date}T${currentSession.start_time}`);
+
     if (sessionDateTime < twoHoursFromNow) {
       return { error: 'ไม่สามารถยกเลิกตารางได้ ต้องยกเลิกก่อนเวลาเริ่มอย่างน้อย 2 ชั่วโมง' };
     }
 
-    // Delete session (soft delete by updating status would be better in production)
-    const { error: deleteError } = await supabase
-      .from('training_sessions')
-      .delete()
-      .eq('id', sessionId);
+    // Delete session (soft delete by updating status would be better in production);
+    // the session.cancelled event is written in the same transaction
+    const { error: deleteError } = await supabase.rpc('cancel_training_sessions', {
+      p_session_ids: [sessionId],
+      p_reason: reason || null,
+    } as never);
 
     if (deleteError) {
       console.error('Delete error:', deleteError);
       return { error: 'เกิดข้อผิดพลาดในการยกเลิกตารางฝึกซ้อม' };
     }
 
+    // Keep the skipped date so the occurrence is not regenerated
+    if (currentSession.series_id) {
+      await recordSeriesException(supabase, user.id, currentSession, 'skip', reason);
+    }
+
     // Log audit event
     await createAuditLog({
       userId: user.id,
       actionType: 'training_session.delete',
       entityType: 'training_session',
       entityId: sessionId,
-      details: { cancelled_at: new Date().toISOString() },
+      before: currentSession,
+      details: {
+        cancelled_at: now.toISOString(),
+        series_id: currentSession.series_id ?? null,
+        reason: reason || null,
+      },
     });
 
     revalidatePath('/dashboard/coach/sessions');
 
-    return { success: true };
+    return { success: true, cancelledCount: 1 };
   } catch (error) {
     console.error('Unexpected error in cancelSession:', error);
     return { error: 'เกิดข้อผิดพลาดที่ไม่คาดคิด' };
   }
 }
 
+/**
+ * Cancel "this and following" or "all" upcoming occurrences of a series
+ */
+async function cancelSeriesOccurrences(
+  supabase: SupabaseServerClient,
+  userId: string,
+  session: TrainingSession,
+  scope: Exclude<SeriesEditScope, 'this'>,
+  cutoff: Date,
+  reason?: string
+): Promise<{ success?: boolean; cancelledCount?: number; error?: string }> {
+  const seriesId = session.series_id as string;
+  const today = new Date().toISOString().split('T')[0];
+  const fromDate = scope === 'following' ? session.session_date : today;
+
+  const { data: occurrences, error: occurrencesError } = await supabase
+    .from('training_sessions')
+    .select('id, session_date, start_time')
+    .eq('series_id', seriesId)
+    .gte('session_date', fromDate);
+
+  if (occurrencesError) {
+    console.error('Series occurrences error:', occurrencesError);
+    return { error: 'เกิดข้อผิดพลาดในการยกเลิกตารางฝึกซ้อม' };
+  }
+
+  const cancellable = (
+    (occurrences || []) as Pick<TrainingSession, 'id' | 'session_date' | 'start_time'>[]
+  )
+    .filter((occurrence) => new Date(`${occurrence.session_date}T${occurrence.start_time}`) >= cutoff)
+    .map((occurrence) => occurrence.id);
+
+  if (cancellable.length === 0) {
+    return { error: 'ไม่สามารถยกเลิกตารางได้ ต้องยกเลิกก่อนเวลาเริ่มอย่างน้อย 2 ชั่วโมง' };
+  }
+
+  const { data: series, error: seriesError } = await supabase
+    .from('training_session_series')
+    .select('start_date, end_date, occurrence_count, status')
+    .eq('id', seriesId)
+    .single();
+
+  if (seriesError || !series) {
+    console.error('Series load error:', seriesError);
+    return { error: 'ไม่พบตารางฝึกซ้อมแบบทำซ้ำ' };
+  }
+
+  const splitDate = session.occurrence_date || session.session_date;
+  const seriesStart = (series as Pick<TrainingSessionSeries, 'start_date'>).start_date;
+  const endsWholeSeries = scope === 'all' || splitDate <= seriesStart;
+
+  // The occurrences, their cancelled events and the series end go together
+  const { data: cancelledIds, error: cancelError } = await supabase.rpc(
+    'cancel_series_occurrences',
+    {
+      p_series_id: seriesId,
+      p_session_ids: cancellable,
+      p_ends_before: endsWholeSeries ? null : splitDate,
+      p_reason: reason || null,
+    } as never
+  );
+
+  if (cancelError) {
+    console.error('Series cancel error:', cancelError);
+    return { error: 'เกิดข้อผิดพลาดในการยกเลิกตารางฝึกซ้อม' };
+  }
+
+  const cancelledCount = ((cancelledIds || []) as unknown as string[]).length;
+  const seriesUpdate = endsWholeSeries
+    ? { status: 'cancelled' }
+    : { end_date: addDays(splitDate, -1), occurrence_count: null };
+
+  await createAuditLog({
+    userId,
+    actionType: 'training_session_series.cancel',
+    entityType: 'training_session_series',
+    entityId: seriesId,
+    before: series as Record<string, unknown> | null,
+    after: seriesUpdate,
+    details: {
+      scope,
+      from_date: fromDate,
+      cancelled_sessions: cancelledCount,
+      reason: reason || null,
+      cancelled_at: new Date().toISOString(),
+    },
+  });
+
+  revalidatePath('/dashboard/coach/sessions');
+
+  // Invalidate stats cache
+  await invalidateTags([
+    ...attendanceCacheTags({ clubId: session.club_id }),
+    ...cancellable.map((id) => CACHE_TAGS.session(id)),
+  ]);
+
+  return { success: true, cancelledCount };
+}
+
 /**
  * Get all training sessions for a coach
  * OPTIMIZED: Added pagination support
@@ -0,0 +1,178 @@
+/**
+ * Training Session Conflict Detection
+ *
+ * Pure helpers that compare proposed session slots against existing sessions
+ * and tournaments. The server actions load the candidate rows; everything
+ * here works on plain data so the overlap rules can be tested without a
+ * database.
+ *
+ * Session times are local wall-clock times (`session_date` + `start_time`),
+ * interpreted the same way as the check-in and cancellation rules.
+ * Windows are half-open: a session ending at 10:00 does not clash with one
+ * starting at 10:00.
+ */
+
+export type SessionConflictType = 'coach' | 'location' | 'tournament';
+
+export interface SessionSlot {
+  /** Existing session id, when the slot describes a session being edited */
+  id?: string;
+  session_date: string;
+  start_time: string;
+  end_time: string;
+  location: string;
+  coach_id: string | null;
+}
+
+export interface ExistingSession extends SessionSlot {
+  id: string;
+  title: string;
+  status?: string | null;
+}
+
+export interface ConflictingTournament {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  /** Number of athletes selected or confirmed for the tournament */
+  participant_count: number;
+}
+
+export interface SessionConflict {
+  type: SessionConflictType;
+  /** Date of the proposed slot that clashes */
+  session_date: string;
+  conflicting_entity: {
+    type: 'training_session' | 'tournament';
+    id: string;
+    name: string;
+  };
+  overlap_start: string;
+  overlap_end: string;
+}
+
+export interface ConflictOverride {
+  reason: string;
+}
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+function slotWindow(
+  slot: Pick<SessionSlot, 'session_date' | 'start_time' | 'end_time'>
+): TimeWindow {
+  return {
+    start: new Date(`${slot.session_date}T${slot.start_time}`).getTime(),
+    end: new Date(`${slot.session_date}T${slot.end_time}`).getTime(),
+  };
+}
+
+function overlapOf(a: TimeWindow, b: TimeWindow): TimeWindow | null {
+  const start = Math.max(a.start, b.start);
+  const end = Math.min(a.end, b.end);
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * Normalise a free-text location so "Field A" and " field  a " match
+ */
+export function normalizeLocation(location: string): string {
+  return location.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Find every conflict for a set of proposed slots
+ *
+ * @param slots - Proposed sessions (one per occurrence for a series)
+ * @param existingSessions - Other sessions of the club on the same dates
+ * @param tournaments - Club tournaments with at least one entered athlete
+ * @returns Structured conflicts, ordered by date then type
+ */
+export function detectSessionConflicts(
+  slots: SessionSlot[],
+  existingSessions: ExistingSession[],
+  tournaments: ConflictingTournament[]
+): SessionConflict[] {
+  const ignoredIds = new Set(slots.map((slot) => slot.id).filter(Boolean));
+  const conflicts: SessionConflict[] = [];
+
+  for (const slot of slots) {
+    const window = slotWindow(slot);
+    const location = normalizeLocation(slot.location);
+
+    for (const existing of existingSessions) {
+      if (ignoredIds.has(existing.id) || existing.status === 'cancelled') continue;
+      if (existing.session_date !== slot.session_date) continue;
+
+      const overlap = overlapOf(window, slotWindow(existing));
+      if (!overlap) continue;
+
+      const entity = {
+        type: 'training_session' as const,
+        id: existing.id,
+        name: existing.title,
+      };
+
+      if (slot.coach_id && existing.coach_id === slot.coach_id) {
+        conflicts.push({
+          type: 'coach',
+          session_date: slot.session_date,
+          conflicting_entity: entity,
+          overlap_start: new Date(overlap.start).toISOString(),
+          overlap_end: new Date(overlap.end).toISOString(),
+        });
+      }
+
+      if (normalizeLocation(existing.location) === location) {
+        conflicts.push({
+          type: 'location',
+          session_date: slot.session_date,
+          conflicting_entity: entity,
+          overlap_start: new Date(overlap.start).toISOString(),
+          overlap_end: new Date(overlap.end).toISOString(),
+        });
+      }
+    }
+
+    for (const tournament of tournaments) {
+      if (tournament.participant_count <= 0) continue;
+
+      const overlap = overlapOf(window, {
+        start: new Date(tournament.start_date).getTime(),
+        end: new Date(tournament.end_date).getTime(),
+      });
+      if (!overlap) continue;
+
+      conflicts.push({
+        type: 'tournament',
+        session_date: slot.session_date,
+        conflicting_entity: { type: 'tournament', id: tournament.id, name: tournament.name },
+        overlap_start: new Date(overlap.start).toISOString(),
+        overlap_end: new Date(overlap.end).toISOString(),
+      });
+    }
+  }
+
+  const typeOrder: Record<SessionConflictType, number> = { coach: 0, location: 1, tournament: 2 };
+  return conflicts.sort(
+    (a, b) => a.session_date.localeCompare(b.session_date) || typeOrder[a.type] - typeOrder[b.type]
+  );
+}
+
+/**
+ * Thai description of a conflict for toasts and the session form
+ */
+export function describeConflict(conflict: SessionConflict): string {
+  const name = conflict.conflicting_entity.name;
+  switch (conflict.type) {
+    case 'coach':
+      return `${conflict.session_date}: โค้ชมีตาราง "${name}" ในช่วงเวลาเดียวกัน`;
+    case 'location':
+      return `${conflict.session_date}: สถานที่ถูกใช้โดย "${name}" ในช่วงเวลาเดียวกัน`;
+    case 'tournament':
+      return `${conflict.session_date}: นักกีฬาติดการแข่งขัน "${name}"`;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Recurring Training Session Rules
+ *
+ * Pure helpers for expanding a recurring series (weekly/biweekly on chosen
+ * weekdays, bounded by an end date or an occurrence count) into concrete
+ * session dates. Kept free of Supabase so the expansion can be
+ * property-tested and reused by both the server actions and the form preview.
+ *
+ * Dates are plain `YYYY-MM-DD` strings and are handled in UTC so the result
+ * does not depend on the server's timezone.
+ */
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly';
+
+/**
+ * Which occurrences an edit or cancellation applies to
+ * - this: only the selected occurrence
+ * - following: the selected occurrence and every later one
+ * - all: every occurrence in the series that has not happened yet
+ */
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Days of week, 0 = Sunday ... 6 = Saturday */
+  weekdays: number[];
+  /** Last possible occurrence date (inclusive) */
+  end_date?: string;
+  /** Total number of occurrences, including skipped ones */
+  occurrence_count?: number;
+}
+
+/** Hard upper bound so a single series cannot flood training_sessions */
+export const MAX_SERIES_OCCURRENCES = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const WEEKDAY_LABELS_TH = ['อา.', 'จ.', 'อ.', 'พ.', 'พฤ.', 'ศ.', 'ส.'];
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+function isValidDate(date: string | undefined): date is string {
+  if (!date || !DATE_PATTERN.test(date)) return false;
+  const timestamp = parseDate(date);
+  return !isNaN(timestamp) && formatDate(timestamp) === date;
+}
+
+function intervalWeeks(frequency: RecurrenceFrequency): number {
+  return frequency === 'biweekly' ? 2 : 1;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+/**
+ * Validate a recurrence rule against the series start date
+ * @returns Thai error message, or null when the rule is usable
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, startDate: string): string | null {
+  if (!isValidDate(startDate)) {
+    return 'วันที่เริ่มต้นไม่ถูกต้อง';
+  }
+
+  if (rule.frequency !== 'weekly' && rule.frequency !== 'biweekly') {
+    return 'รูปแบบการทำซ้ำไม่ถูกต้อง';
+  }
+
+  if (
+    !Array.isArray(rule.weekdays) ||
+    rule.weekdays.length === 0 ||
+    rule.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    return 'กรุณาเลือกวันในสัปดาห์อย่างน้อย 1 วัน';
+  }
+
+  const hasEndDate = rule.end_date !== undefined && rule.end_date !== '';
+  const hasCount = rule.occurrence_count !== undefined && rule.occurrence_count !== null;
+
+  if (hasEndDate === hasCount) {
+    return 'กรุณาระบุวันสิ้นสุดหรือจำนวนครั้งอย่างใดอย่างหนึ่ง';
+  }
+
+  if (hasEndDate) {
+    if (!isValidDate(rule.end_date)) {
+      return 'วันสิ้นสุดไม่ถูกต้อง';
+    }
+    if (parseDate(rule.end_date) < parseDate(startDate)) {
+      return 'วันสิ้นสุดต้องไม่อยู่ก่อนวันเริ่มต้น';
+    }
+    if (
+      occurrenceDates(startDate, rule, MAX_SERIES_OCCURRENCES + 1).length > MAX_SERIES_OCCURRENCES
+    ) {
+      return `ช่วงวันที่นี้มีการฝึกซ้อมเกิน ${MAX_SERIES_OCCURRENCES} ครั้ง กรุณาเลือกวันสิ้นสุดให้เร็วขึ้น`;
+    }
+  }
+
+  if (hasCount) {
+    const count = rule.occurrence_count as number;
+    if (!Number.isInteger(count) || count < 1) {
+      return 'จำนวนครั้งต้องมากกว่า 0';
+    }
+    if (count > MAX_SERIES_OCCURRENCES) {
+      return `จำนวนครั้งต้องไม่เกิน ${MAX_SERIES_OCCURRENCES} ครั้ง`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every occurrence date of a rule, in order, stopping after `limit`
+ */
+function occurrenceDates(startDate: string, rule: RecurrenceRule, limit: number): string[] {
+  const start = parseDate(startDate);
+  const weekdays = new Set(rule.weekdays);
+  const interval = intervalWeeks(rule.frequency);
+  const end = rule.end_date ? parseDate(rule.end_date) : Infinity;
+
+  // Sunday of the week containing the start date
+  const firstWeekStart = start - new Date(start).getUTCDay() * DAY_MS;
+
+  const dates: string[] = [];
+
+  for (let day = start; day <= end && dates.length < limit; day += DAY_MS) {
+    const weekIndex = Math.floor((day - firstWeekStart) / (7 * DAY_MS));
+    if (weekIndex % interval !== 0) continue;
+    if (!weekdays.has(new Date(day).getUTCDay())) continue;
+
+    dates.push(formatDate(day));
+  }
+
+  return dates;
+}
+
+/**
+ * Expand a recurrence rule into occurrence dates
+ *
+ * The week containing `startDate` is the first active week; biweekly series
+ * then skip every other week. Dates listed in `skipDates` are left out of the
+ * result but still count towards `occurrence_count`, so adding a holiday skip
+ * never pushes an extra session onto the end of the series.
+ *
+ * @param startDate - First date of the series (YYYY-MM-DD)
+ * @param rule - Recurrence rule (assumed valid, see validateRecurrenceRule,
+ *   which rejects rules with more than MAX_SERIES_OCCURRENCES occurrences)
+ * @param skipDates - Occurrence dates to leave out
+ * @returns Sorted list of occurrence dates (YYYY-MM-DD)
+ */
+export function expandRecurrence(
+  startDate: string,
+  rule: RecurrenceRule,
+  skipDates: string[] = []
+): string[] {
+  const skipped = new Set(skipDates);
+  return occurrenceDates(startDate, rule, rule.occurrence_count ?? Infinity).filter(
+    (date) => !skipped.has(date)
+  );
+}
+
+/**
+ * Short Thai description of a rule, e.g. "ทุกสัปดาห์ (จ. พ. ศ.) 12 ครั้ง"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const days = [...rule.weekdays]
+    .sort((a, b) => a - b)
+    .map((day) => WEEKDAY_LABELS_TH[day])
+    .join(' ');
+  const frequency = rule.frequency === 'biweekly' ? 'ทุก 2 สัปดาห์' : 'ทุกสัปดาห์';
+  const bound = rule.occurrence_count
+    ? `${rule.occurrence_count} ครั้ง`
+    : rule.end_date
+      ? `ถึง ${rule.end_date}`
+      : '';
+
+  return [`${frequency} (${days})`, bound].filter(Boolean).join(' ');
+}
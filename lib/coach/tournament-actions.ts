@@ -2,6 +2,21 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
+import {
+  checkCategoryEligibility,
+  isSkillLevel,
+  type EntrantProfile,
+  type SkillLevel,
+  type TournamentCategory,
+} from '@/lib/utils/tournament-eligibility';
+import {
+  ageReferenceDate,
+  getEntryContext,
+  hasRoomFor,
+  isActiveStatus,
+  promoteWaitlist,
+} from '@/lib/coach/tournament-entries';
 
 // Get tournaments for coach's club
 export async function getCoachTournaments() {
@@ -49,7 +64,15 @@ export async function getTournamentDetails(tournamentId: string) {
 
   if (participantsError) return { error: participantsError.message };
 
-  return { tournament, participants };
+  const { data: categories, error: categoriesError } = await sb
+    .from('tournament_categories')
+    .select('*')
+    .eq('tournament_id', tournamentId)
+    .order('name');
+
+  if (categoriesError) return { error: categoriesError.message };
+
+  return { tournament, participants, categories };
 }
 
 // Create tournament
@@ -96,6 +119,14 @@ export async function createTournament(data: {
 
   if (error) return { error: error.message };
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament.create',
+    entityType: 'tournament',
+    entityId: tournament.id,
+    after: tournament,
+  });
+
   revalidatePath('/dashboard/coach/tournaments');
   return { tournament };
 }
@@ -107,6 +138,13 @@ export async function updateTournament(tournamentId: string, data: any) {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return { error: 'Unauthorized' };
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: before } = await (supabase as any)
+    .from('tournaments')
+    .select('*')
+    .eq('id', tournamentId)
+    .maybeSingle();
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data: tournament, error } = await (supabase as any)
     .from('tournaments')
@@ -117,6 +155,15 @@ export async function updateTournament(tournamentId: string, data: any) {
 
   if (error) return { error: error.message };
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament.update',
+    entityType: 'tournament',
+    entityId: tournamentId,
+    before,
+    after: tournament,
+  });
+
   revalidatePath('/dashboard/coach/tournaments');
   revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
   return { tournament };
@@ -129,18 +176,112 @@ export async function deleteTournament(tournamentId: string) {
   if (!user) return { error: 'Unauthorized' };
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { data: deleted, error } = await (supabase as any)
     .from('tournaments')
     .delete()
-    .eq('id', tournamentId);
+    .eq('id', tournamentId)
+    .select()
+    .maybeSingle();
 
   if (error) return { error: error.message };
 
+  if (deleted) {
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'tournament.delete',
+      entityType: 'tournament',
+      entityId: tournamentId,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/coach/tournaments');
   return { success: true };
 }
 
-// Get available athletes (from coach's club)
+// Create an entry category (age bracket, gender, weight class, skill level)
+export async function createTournamentCategory(
+  tournamentId: string,
+  data: Omit<TournamentCategory, 'id'>
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  if (!data.name.trim()) return { error: 'Category name is required' };
+  if (data.min_age !== null && data.max_age !== null && data.min_age > data.max_age) {
+    return { error: 'Minimum age must not exceed maximum age' };
+  }
+  if (
+    data.min_weight_kg !== null &&
+    data.max_weight_kg !== null &&
+    data.min_weight_kg > data.max_weight_kg
+  ) {
+    return { error: 'Minimum weight must not exceed maximum weight' };
+  }
+  if (!data.skill_levels.every(isSkillLevel)) return { error: 'Invalid skill level' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: category, error } = await (supabase as any)
+    .from('tournament_categories')
+    .insert({
+      tournament_id: tournamentId,
+      name: data.name.trim(),
+      min_age: data.min_age,
+      max_age: data.max_age,
+      gender: data.gender,
+      min_weight_kg: data.min_weight_kg,
+      max_weight_kg: data.max_weight_kg,
+      skill_levels: data.skill_levels,
+      max_participants: data.max_participants,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_category.create',
+    entityType: 'tournament_category',
+    entityId: category.id,
+    after: category,
+  });
+
+  revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
+  return { category };
+}
+
+// Delete a category; its entries stay in the tournament without a category
+export async function deleteTournamentCategory(categoryId: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: category, error } = await (supabase as any)
+    .from('tournament_categories')
+    .delete()
+    .eq('id', categoryId)
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_category.delete',
+    entityType: 'tournament_category',
+    entityId: categoryId,
+    before: category,
+  });
+
+  revalidatePath(`/dashboard/coach/tournaments/${category.tournament_id}`);
+  return { success: true };
+}
+
+// Get available athletes (from coach's club) with the categories they can enter
 export async function getAvailableAthletes(tournamentId: string) {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -163,48 +304,126 @@ export async function getAvailableAthletes(tournamentId: string) {
 
   if (error) return { error: String(error) };
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { data: participants } = await (supabase as any)
-    .from('tournament_participants')
-    .select('athlete_id, status')
-    .eq('tournament_id', tournamentId);
-
-  const athletesWithStatus = (athletes || []).map((athlete: { id: string; full_name: string; email: string; profile_picture_url: string | null }) => ({
-    ...athlete,
-    participantStatus: participants?.find((p: { athlete_id: string; status: string }) => p.athlete_id === athlete.id)?.status || null,
-  }));
-
-  return { athletes: athletesWithStatus };
+  const { context, error: contextError } = await getEntryContext(supabase, tournamentId);
+  if (!context) return { error: contextError };
+
+  const { data: athleteDetails } = await supabase
+    .from('athletes')
+    .select('user_id, date_of_birth, gender')
+    .in('user_id', (athletes || []).map((athlete) => athlete.id)) as { data: { user_id: string; date_of_birth: string | null; gender: string | null }[] | null };
+
+  const referenceDate = ageReferenceDate(context.tournament);
+
+  const athletesWithStatus = (athletes || []).map((athlete: { id: string; full_name: string; email: string; profile_picture_url: string | null }) => {
+    const details = athleteDetails?.find((d) => d.user_id === athlete.id);
+    const entrant: EntrantProfile = {
+      date_of_birth: details?.date_of_birth ?? null,
+      gender: details?.gender ?? null,
+      weight_kg: null,
+      skill_level: null,
+    };
+
+    return {
+      ...athlete,
+      participantStatus: context.participants.find((p) => p.athlete_id === athlete.id)?.status || null,
+      // Weight and skill level are entered when adding, so they are reported as missing here
+      eligibility: context.categories.map((category) => ({
+        category_id: category.id,
+        ...checkCategoryEligibility(entrant, category, referenceDate),
+      })),
+    };
+  });
+
+  return { athletes: athletesWithStatus, referenceDate };
 }
 
 // Add athlete to tournament
+// Entries are checked against the category rules; a full tournament or category puts the athlete on the waitlist.
 export async function addAthleteToTournament(
   tournamentId: string,
   athleteId: string,
   status: 'selected' | 'waiting' = 'selected',
-  coachNotes?: string
+  coachNotes?: string,
+  entry: { categoryId?: string | null; weightKg?: number | null; skillLevel?: SkillLevel | null } = {}
 ) {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return { error: 'Unauthorized' };
 
+  const { context, error: contextError } = await getEntryContext(supabase, tournamentId);
+  if (!context) return { error: contextError };
+
+  const categoryId = entry.categoryId ?? null;
+  const category = context.categories.find((c) => c.id === categoryId);
+
+  if (context.categories.length > 0 && !category) {
+    return { error: 'กรุณาเลือกประเภทการแข่งขัน' };
+  }
+  if (entry.skillLevel && !isSkillLevel(entry.skillLevel)) {
+    return { error: 'Invalid skill level' };
+  }
+
+  if (category) {
+    const { data: athlete } = await supabase
+      .from('athletes')
+      .select('date_of_birth, gender')
+      .eq('user_id', athleteId)
+      .maybeSingle<{ date_of_birth: string | null; gender: string | null }>();
+
+    const eligibility = checkCategoryEligibility(
+      {
+        date_of_birth: athlete?.date_of_birth ?? null,
+        gender: athlete?.gender ?? null,
+        weight_kg: entry.weightKg ?? null,
+        skill_level: entry.skillLevel ?? null,
+      },
+      category,
+      ageReferenceDate(context.tournament)
+    );
+
+    if (eligibility.missing.includes('weight_kg')) {
+      return { error: `ประเภท "${category.name}" ต้องระบุน้ำหนักของนักกีฬา` };
+    }
+    if (eligibility.missing.includes('skill_level')) {
+      return { error: `ประเภท "${category.name}" ต้องระบุระดับฝีมือของนักกีฬา` };
+    }
+    if (!eligibility.eligible) {
+      return {
+        error: `ไม่ผ่านเกณฑ์ประเภท "${category.name}": ${eligibility.reasons.join(', ')}`,
+      };
+    }
+  }
+
+  const waitlisted = status === 'selected' && !hasRoomFor(context, categoryId);
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('tournament_participants')
     .insert({
       tournament_id: tournamentId,
       athlete_id: athleteId,
-      status,
+      status: waitlisted ? 'waiting' : status,
       added_by: user.id,
       coach_notes: coachNotes,
+      category_id: categoryId,
+      weight_kg: entry.weightKg ?? null,
+      skill_level: entry.skillLevel ?? null,
     })
     .select()
     .single();
 
   if (error) return { error: error.message };
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_participant.create',
+    entityType: 'tournament_participant',
+    entityId: data.id,
+    after: data,
+  });
+
   revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
-  return { participant: data };
+  return { participant: data, waitlisted };
 }
 
 // Remove athlete from tournament
@@ -214,19 +433,38 @@ export async function removeAthleteFromTournament(tournamentId: string, athleteI
   if (!user) return { error: 'Unauthorized' };
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { data: removed, error } = await (supabase as any)
     .from('tournament_participants')
     .delete()
     .eq('tournament_id', tournamentId)
-    .eq('athlete_id', athleteId);
+    .eq('athlete_id', athleteId)
+    .select();
 
   if (error) return { error: error.message };
 
+  await Promise.all(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ((removed || []) as any[]).map((participant) =>
+      createAuditLog({
+        userId: user.id,
+        actionType: 'tournament_participant.delete',
+        entityType: 'tournament_participant',
+        entityId: participant.id,
+        before: participant,
+      })
+    )
+  );
+
+  // A removed selected athlete frees a place for the waitlist
+  const freed = ((removed || []) as { status: string }[]).filter((p) => isActiveStatus(p.status)).length;
+  const promoted = freed > 0 ? await promoteWaitlist(supabase, tournamentId, freed) : [];
+
   revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
-  return { success: true };
+  return { success: true, promoted };
 }
 
 // Update participant status
+// Selecting from the waitlist respects the limits; a decline promotes the next waiting athlete.
 export async function updateParticipantStatus(
   tournamentId: string,
   athleteId: string,
@@ -237,6 +475,20 @@ export async function updateParticipantStatus(
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return { error: 'Unauthorized' };
 
+  const { context, error: contextError } = await getEntryContext(supabase, tournamentId);
+  if (!context) return { error: contextError };
+
+  const current = context.participants.find((p) => p.athlete_id === athleteId);
+  if (!current) return { error: 'Participant not found' };
+
+  if (
+    isActiveStatus(status) &&
+    !isActiveStatus(current.status) &&
+    !hasRoomFor(context, current.category_id, current.id)
+  ) {
+    return { error: 'ทัวร์นาเมนต์หรือประเภทนี้เต็มแล้ว' };
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const updateData: any = { status };
   if (coachNotes !== undefined) updateData.coach_notes = coachNotes;
@@ -252,6 +504,30 @@ export async function updateParticipantStatus(
 
   if (error) return { error: error.message };
 
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_participant.update',
+    entityType: 'tournament_participant',
+    entityId: current.id,
+    before: { ...current },
+    after: updateData,
+  });
+
+  // Coach answers on the athlete's behalf (e.g. by phone) go into the RSVP history too
+  if ((status === 'confirmed' || status === 'declined') && status !== current.status) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any).from('tournament_rsvp_responses').insert({
+      participant_id: current.id,
+      responder_type: 'coach',
+      responder_id: user.id,
+      response: status,
+      reason: coachNotes || null,
+    });
+  }
+
+  const freedPlace = isActiveStatus(current.status) && status === 'declined';
+  const promoted = freedPlace ? await promoteWaitlist(supabase, tournamentId, 1) : [];
+
   revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
-  return { participant: data };
+  return { participant: data, promoted };
 }
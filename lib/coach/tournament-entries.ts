@@ -0,0 +1,237 @@
+/**
+ * Tournament entry helpers shared by the coach, athlete and parent actions
+ *
+ * Loads the limits and current entries a tournament's rules are checked
+ * against, promotes the waitlist when places free up and records RSVP
+ * answers. The caller passes
+ * the Supabase client: the coach's own client, or the service-role client when
+ * an athlete or parent declines and the waitlist has to move on their behalf.
+ */
+
+import { createAuditLog } from '@/lib/audit/log';
+import {
+  ACTIVE_PARTICIPANT_STATUSES,
+  hasCapacity,
+  selectWaitlistPromotions,
+  type TournamentCategory,
+} from '@/lib/utils/tournament-eligibility';
+import {
+  resolveRsvpStatus,
+  type AthleteResponse,
+  type ParentConsent,
+  type RsvpResponder,
+} from '@/lib/utils/tournament-rsvp';
+
+export interface EntryParticipant {
+  id: string;
+  athlete_id: string;
+  status: string;
+  category_id: string | null;
+  added_at: string;
+}
+
+export interface EntryContext {
+  tournament: {
+    id: string;
+    name: string;
+    max_participants: number | null;
+    start_date: string;
+    age_reference_date: string | null;
+  };
+  categories: TournamentCategory[];
+  participants: EntryParticipant[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+/**
+ * Load what entry rules are checked against: limits, categories and current entries
+ */
+export async function getEntryContext(
+  sb: UntypedClient,
+  tournamentId: string
+): Promise<{ context?: EntryContext; error?: string }> {
+  const { data: tournament, error: tournamentError } = await sb
+    .from('tournaments')
+    .select('id, name, max_participants, start_date, age_reference_date')
+    .eq('id', tournamentId)
+    .single();
+
+  if (tournamentError) return { error: tournamentError.message };
+
+  const { data: categories, error: categoriesError } = await sb
+    .from('tournament_categories')
+    .select('*')
+    .eq('tournament_id', tournamentId)
+    .order('name');
+
+  if (categoriesError) return { error: categoriesError.message };
+
+  const { data: participants, error: participantsError } = await sb
+    .from('tournament_participants')
+    .select('id, athlete_id, status, category_id, added_at')
+    .eq('tournament_id', tournamentId);
+
+  if (participantsError) return { error: participantsError.message };
+
+  return {
+    context: {
+      tournament,
+      categories: (categories || []).map((category: TournamentCategory) => ({
+        ...category,
+        min_weight_kg: category.min_weight_kg === null ? null : Number(category.min_weight_kg),
+        max_weight_kg: category.max_weight_kg === null ? null : Number(category.max_weight_kg),
+        skill_levels: category.skill_levels || [],
+      })),
+      participants: participants || [],
+    },
+  };
+}
+
+/**
+ * Age brackets are computed on the reference date, or the first day of the tournament
+ */
+export function ageReferenceDate(
+  tournament: Pick<EntryContext['tournament'], 'start_date' | 'age_reference_date'>
+): string {
+  return (tournament.age_reference_date || tournament.start_date).slice(0, 10);
+}
+
+export function isActiveStatus(status: string): boolean {
+  return (ACTIVE_PARTICIPANT_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Whether one more athlete fits in the tournament and the given category
+ */
+export function hasRoomFor(
+  context: EntryContext,
+  categoryId: string | null,
+  excludeId?: string
+): boolean {
+  const active = context.participants.filter((p) => p.id !== excludeId && isActiveStatus(p.status));
+  const category = context.categories.find((c) => c.id === categoryId);
+
+  return (
+    hasCapacity(active.length, context.tournament.max_participants) &&
+    hasCapacity(
+      active.filter((p) => p.category_id === categoryId).length,
+      category?.max_participants
+    )
+  );
+}
+
+/**
+ * Move the longest-waiting athletes into places that were freed
+ * @returns ids of the promoted participants
+ */
+export async function promoteWaitlist(
+  sb: UntypedClient,
+  tournamentId: string,
+  freedPlaces: number
+): Promise<string[]> {
+  const { context } = await getEntryContext(sb, tournamentId);
+  if (!context) return [];
+
+  const promotions = selectWaitlistPromotions(
+    context.participants,
+    {
+      tournament: context.tournament.max_participants,
+      categories: new Map(context.categories.map((c) => [c.id, c.max_participants])),
+    },
+    freedPlaces
+  );
+  if (promotions.length === 0) return [];
+
+  const { error } = await sb
+    .from('tournament_participants')
+    .update({ status: 'selected' })
+    .in('id', promotions)
+    .eq('status', 'waiting');
+
+  if (error) {
+    console.error('Error promoting tournament waitlist:', error);
+    return [];
+  }
+
+  await Promise.all(
+    promotions.map((participantId) =>
+      createAuditLog({
+        actionType: 'tournament_participant.promote',
+        entityType: 'tournament_participant',
+        entityId: participantId,
+        before: { status: 'waiting' },
+        after: { status: 'selected' },
+        details: { tournament_id: tournamentId },
+      })
+    )
+  );
+
+  return promotions;
+}
+
+export interface RsvpParticipant {
+  id: string;
+  tournament_id: string;
+  status: string;
+  athlete_response: AthleteResponse | null;
+  parent_consent: ParentConsent | null;
+  consent_required: boolean;
+}
+
+/**
+ * Apply an athlete or parent answer: store it, move the status on, log it and
+ * hand a freed place to the waitlist
+ * @returns the new status and ids of promoted participants
+ */
+export async function recordRsvpResponse(
+  sb: UntypedClient,
+  participant: RsvpParticipant,
+  changes: Partial<Omit<RsvpParticipant, 'id' | 'tournament_id' | 'status'>> &
+    Record<string, unknown>,
+  history: {
+    responder_type: RsvpResponder;
+    responder_id: string;
+    response: string;
+    reason: string | null;
+  }
+): Promise<{ status?: string; promoted?: string[]; error?: string }> {
+  const status = resolveRsvpStatus({
+    athlete_response: changes.athlete_response ?? participant.athlete_response,
+    parent_consent: changes.parent_consent ?? participant.parent_consent,
+    consent_required: changes.consent_required ?? participant.consent_required,
+  });
+
+  // Guard on the status read, so a coach change in between isn't overwritten
+  const { data, error } = await sb
+    .from('tournament_participants')
+    .update({ ...changes, status, response_reason: history.reason })
+    .eq('id', participant.id)
+    .eq('status', participant.status)
+    .select('id');
+
+  if (error) return { error: error.message };
+  if (!data || data.length === 0)
+    return { error: 'สถานะการคัดเลือกเปลี่ยนไปแล้ว กรุณาโหลดหน้าใหม่' };
+
+  const { error: historyError } = await sb
+    .from('tournament_rsvp_responses')
+    .insert({ participant_id: participant.id, ...history });
+
+  if (historyError) console.error('Error recording RSVP history:', historyError);
+
+  await createAuditLog({
+    actionType: 'tournament_participant.update',
+    entityType: 'tournament_participant',
+    entityId: participant.id,
+    before: { ...participant },
+    after: { ...changes, status },
+    details: { responder_type: history.responder_type, responder_id: history.responder_id },
+  });
+
+  const freedPlace = isActiveStatus(participant.status) && status === 'declined';
+  const promoted = freedPlace ? await promoteWaitlist(sb, participant.tournament_id, 1) : [];
+
+  return { status, promoted };
+}
@@ -0,0 +1,615 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
+import {
+  computeEliminationPlacings,
+  computeRoundRobinStandings,
+  generateFixtures,
+  isEventComplete,
+  matchWinner,
+  nextMatchSlot,
+  rankResults,
+  type BracketMatchResult,
+  type TournamentEventFormat,
+  type TournamentResultType,
+} from '@/lib/utils/tournament-bracket';
+
+interface TournamentEventRow {
+  id: string;
+  tournament_id: string;
+  name: string;
+  format: TournamentEventFormat;
+  result_type: TournamentResultType;
+  unit: string | null;
+  status: 'draft' | 'in_progress' | 'completed';
+}
+
+interface TournamentMatchRow extends BracketMatchResult {
+  id: string;
+  event_id: string;
+}
+
+interface TournamentResultRow {
+  id: string;
+  participant_id: string;
+  placing: number | null;
+  score: number | null;
+  time_seconds: number | null;
+  performance_record_id: string | null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+// Get events of a tournament with their brackets and results
+export async function getTournamentEvents(tournamentId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = supabase as any;
+
+  const { data: events, error } = await sb
+    .from('tournament_events')
+    .select(
+      `
+      *,
+      entries:tournament_event_entries(*),
+      matches:tournament_matches(*),
+      results:tournament_results(*)
+    `
+    )
+    .eq('tournament_id', tournamentId)
+    .order('created_at');
+
+  if (error) return { error: error.message };
+
+  const { data: participants, error: participantsError } = await sb
+    .from('tournament_participants')
+    .select(
+      `
+      id,
+      status,
+      athlete:profiles!athlete_id(id, full_name)
+    `
+    )
+    .eq('tournament_id', tournamentId);
+
+  if (participantsError) return { error: participantsError.message };
+
+  return { events, participants };
+}
+
+// Create an event (category/discipline) in a tournament
+export async function createTournamentEvent(
+  tournamentId: string,
+  data: {
+    name: string;
+    format: TournamentEventFormat;
+    result_type?: TournamentResultType;
+    unit?: string;
+  }
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // Knockout and round robin events are decided by matches, ranking events by a measure
+  const resultType = data.format === 'ranking' ? data.result_type : 'placing';
+  if (data.format === 'ranking' && resultType !== 'score' && resultType !== 'time') {
+    return { error: 'Ranking events must be measured by score or time' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: event, error } = await (supabase as any)
+    .from('tournament_events')
+    .insert({
+      tournament_id: tournamentId,
+      name: data.name.trim(),
+      format: data.format,
+      result_type: resultType,
+      unit: data.unit?.trim() || null,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_event.create',
+    entityType: 'tournament_event',
+    entityId: event.id,
+    after: event,
+  });
+
+  revalidatePath(`/dashboard/coach/tournaments/${tournamentId}`);
+  return { event };
+}
+
+// Delete an event together with its bracket and results
+export async function deleteTournamentEvent(eventId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: event, error } = await (supabase as any)
+    .from('tournament_events')
+    .delete()
+    .eq('id', eventId)
+    .select()
+    .single();
+
+  if (error) return { error: error.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_event.delete',
+    entityType: 'tournament_event',
+    entityId: eventId,
+    before: event,
+  });
+
+  revalidatePath(`/dashboard/coach/tournaments/${event.tournament_id}`);
+  return { success: true };
+}
+
+// Enter participants and generate the bracket (or the ranking list)
+// Without an explicit seeding, selected and confirmed participants are seeded in the order they were added.
+export async function generateEventBracket(eventId: string, seededParticipantIds?: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = supabase as any;
+
+  const { data: event, error: eventError } = await sb
+    .from('tournament_events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (eventError) return { error: eventError.message };
+  const tournamentEvent = event as TournamentEventRow;
+
+  const { count: playedCount } = await sb
+    .from('tournament_matches')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId)
+    .eq('status', 'completed');
+
+  const { count: resultCount } = await sb
+    .from('tournament_results')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId);
+
+  if ((playedCount ?? 0) > 0 || (resultCount ?? 0) > 0) {
+    return { error: 'Results have already been recorded for this event' };
+  }
+
+  const { data: participants, error: participantsError } = await sb
+    .from('tournament_participants')
+    .select('id')
+    .eq('tournament_id', tournamentEvent.tournament_id)
+    .in('status', ['selected', 'confirmed'])
+    .order('added_at');
+
+  if (participantsError) return { error: participantsError.message };
+
+  const eligibleIds = new Set(((participants || []) as { id: string }[]).map((p) => p.id));
+  const seededIds = seededParticipantIds
+    ? Array.from(new Set(seededParticipantIds))
+    : Array.from(eligibleIds);
+
+  if (seededIds.some((id) => !eligibleIds.has(id))) {
+    return { error: 'Only selected or confirmed participants can be entered' };
+  }
+  if (seededIds.length < 2) {
+    return { error: 'At least 2 participants are required' };
+  }
+
+  // Replace any previous (unplayed) draw
+  const { error: clearMatchesError } = await sb
+    .from('tournament_matches')
+    .delete()
+    .eq('event_id', eventId);
+  if (clearMatchesError) return { error: clearMatchesError.message };
+
+  const { error: clearEntriesError } = await sb
+    .from('tournament_event_entries')
+    .delete()
+    .eq('event_id', eventId);
+  if (clearEntriesError) return { error: clearEntriesError.message };
+
+  const { error: entriesError } = await sb.from('tournament_event_entries').insert(
+    seededIds.map((participantId, index) => ({
+      event_id: eventId,
+      participant_id: participantId,
+      seed: index + 1,
+    }))
+  );
+  if (entriesError) return { error: entriesError.message };
+
+  const fixtures = generateFixtures(tournamentEvent.format, seededIds);
+  if (fixtures.length > 0) {
+    const { error: matchesError } = await sb
+      .from('tournament_matches')
+      .insert(fixtures.map((match) => ({ ...match, event_id: eventId })));
+    if (matchesError) return { error: matchesError.message };
+  }
+
+  const { error: statusError } = await sb
+    .from('tournament_events')
+    .update({ status: 'in_progress' })
+    .eq('id', eventId);
+  if (statusError) return { error: statusError.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_event.generate_bracket',
+    entityType: 'tournament_event',
+    entityId: eventId,
+    before: { status: tournamentEvent.status },
+    after: { status: 'in_progress' },
+    details: { seeded_participant_ids: seededIds, matches: fixtures.length },
+  });
+
+  revalidatePath(`/dashboard/coach/tournaments/${tournamentEvent.tournament_id}`);
+  return { matches: fixtures.length };
+}
+
+// Record the score of a knockout or round robin match
+export async function recordMatchResult(matchId: string, scoreA: number, scoreB: number) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  if (!Number.isFinite(scoreA) || !Number.isFinite(scoreB) || scoreA < 0 || scoreB < 0) {
+    return { error: 'Scores must be non-negative numbers' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = supabase as any;
+
+  const { data: match, error: matchError } = await sb
+    .from('tournament_matches')
+    .select('*, event:tournament_events(*)')
+    .eq('id', matchId)
+    .single();
+
+  if (matchError) return { error: matchError.message };
+
+  const current = match as TournamentMatchRow & { event: TournamentEventRow };
+  const event = current.event;
+
+  if (current.status === 'bye' || !current.participant_a_id || !current.participant_b_id) {
+    return { error: 'Both participants must be known before recording a result' };
+  }
+
+  const winnerId = matchWinner(current, scoreA, scoreB);
+  const isKnockout = event.format === 'single_elimination';
+  if (isKnockout && !winnerId) {
+    return { error: 'Draws are not allowed in elimination events' };
+  }
+
+  // In a knockout the winner moves on; a result can only be corrected until that next match is played
+  const slot = nextMatchSlot(current.round, current.match_number);
+  let nextMatch: TournamentMatchRow | null = null;
+  if (isKnockout) {
+    const { data } = await sb
+      .from('tournament_matches')
+      .select('*')
+      .eq('event_id', event.id)
+      .eq('round', slot.round)
+      .eq('match_number', slot.match_number)
+      .maybeSingle();
+    nextMatch = data as TournamentMatchRow | null;
+
+    if (nextMatch && nextMatch.status === 'completed' && current.winner_id !== winnerId) {
+      return { error: 'The next round has already been played' };
+    }
+  }
+
+  const result = {
+    score_a: scoreA,
+    score_b: scoreB,
+    winner_id: winnerId,
+    status: 'completed',
+    played_at: new Date().toISOString(),
+    recorded_by: user.id,
+  };
+
+  const { error: updateError } = await sb
+    .from('tournament_matches')
+    .update(result)
+    .eq('id', matchId);
+
+  if (updateError) return { error: updateError.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_match.record_result',
+    entityType: 'tournament_match',
+    entityId: matchId,
+    before: current,
+    after: result,
+  });
+
+  if (nextMatch) {
+    const { error: advanceError } = await sb
+      .from('tournament_matches')
+      .update(slot.slot === 'a' ? { participant_a_id: winnerId } : { participant_b_id: winnerId })
+      .eq('id', nextMatch.id);
+    if (advanceError) return { error: advanceError.message };
+  }
+
+  const finalised = await finaliseBracketEvent(sb, event, user.id);
+  if (finalised.error) return { error: finalised.error };
+
+  revalidatePath(`/dashboard/coach/tournaments/${event.tournament_id}`);
+  return { success: true, completed: finalised.completed };
+}
+
+// Record a time or score for a ranking event and re-rank the event
+export async function recordEventResult(eventId: string, participantId: string, value: number) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized' };
+
+  if (!Number.isFinite(value) || value < 0) {
+    return { error: 'Result must be a non-negative number' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = supabase as any;
+
+  const { data: event, error: eventError } = await sb
+    .from('tournament_events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (eventError) return { error: eventError.message };
+  const tournamentEvent = event as TournamentEventRow;
+
+  if (tournamentEvent.format !== 'ranking' || tournamentEvent.result_type === 'placing') {
+    return { error: 'Results of this event are decided by its matches' };
+  }
+
+  const { data: entry } = await sb
+    .from('tournament_event_entries')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('participant_id', participantId)
+    .maybeSingle();
+
+  if (!entry) return { error: 'Participant is not entered in this event' };
+
+  const { data: previous } = await sb
+    .from('tournament_results')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('participant_id', participantId)
+    .maybeSingle();
+
+  const { data: recorded, error: upsertError } = await sb
+    .from('tournament_results')
+    .upsert(
+      {
+        event_id: eventId,
+        participant_id: participantId,
+        [tournamentEvent.result_type === 'time' ? 'time_seconds' : 'score']: value,
+        recorded_by: user.id,
+      },
+      { onConflict: 'event_id,participant_id' }
+    )
+    .select()
+    .single();
+
+  if (upsertError) return { error: upsertError.message };
+
+  await createAuditLog({
+    userId: user.id,
+    actionType: 'tournament_result.record',
+    entityType: 'tournament_result',
+    entityId: recorded.id,
+    before: previous,
+    after: recorded,
+  });
+
+  const { data: results, error: resultsError } = await sb
+    .from('tournament_results')
+    .select('participant_id, score, time_seconds')
+    .eq('event_id', eventId);
+
+  if (resultsError) return { error: resultsError.message };
+
+  const placings = rankResults(
+    ((results || []) as Pick<TournamentResultRow, 'participant_id' | 'score' | 'time_seconds'>[])
+      .map((result) => ({
+        participant_id: result.participant_id,
+        value: Number(tournamentEvent.result_type === 'time' ? result.time_seconds : result.score),
+      }))
+      .filter((result) => Number.isFinite(result.value)),
+    tournamentEvent.result_type
+  );
+
+  const saved = await saveResults(sb, tournamentEvent, placings, user.id);
+  if (saved.error) return { error: saved.error };
+
+  revalidatePath(`/dashboard/coach/tournaments/${tournamentEvent.tournament_id}`);
+  return { success: true, placing: placings.get(participantId) ?? null };
+}
+
+// Once every match of a knockout or round robin event is played, store the placings
+async function finaliseBracketEvent(
+  sb: UntypedClient,
+  event: TournamentEventRow,
+  userId: string
+): Promise<{ completed?: boolean; error?: string }> {
+  const { data: matches, error } = await sb
+    .from('tournament_matches')
+    .select('*')
+    .eq('event_id', event.id);
+
+  if (error) return { error: error.message };
+
+  const eventMatches = (matches || []) as TournamentMatchRow[];
+  if (!isEventComplete(eventMatches)) return { completed: false };
+
+  let placings: Map<string, number> | null;
+  if (event.format === 'single_elimination') {
+    placings = computeEliminationPlacings(eventMatches);
+  } else {
+    const { data: entries, error: entriesError } = await sb
+      .from('tournament_event_entries')
+      .select('participant_id')
+      .eq('event_id', event.id);
+    if (entriesError) return { error: entriesError.message };
+
+    const standings = computeRoundRobinStandings(
+      ((entries || []) as { participant_id: string }[]).map((entry) => entry.participant_id),
+      eventMatches
+    );
+    placings = new Map(standings.map((standing) => [standing.participant_id, standing.placing]));
+  }
+
+  if (!placings) return { completed: false };
+
+  const saved = await saveResults(sb, event, placings, userId);
+  if (saved.error) return { error: saved.error };
+
+  const { error: statusError } = await sb
+    .from('tournament_events')
+    .update({ status: 'completed' })
+    .eq('id', event.id);
+  if (statusError) return { error: statusError.message };
+
+  return { completed: true };
+}
+
+// Store placings and feed every result into the athlete's performance records
+async function saveResults(
+  sb: UntypedClient,
+  event: TournamentEventRow,
+  placings: Map<string, number>,
+  userId: string
+): Promise<{ error?: string }> {
+  if (placings.size === 0) return {};
+
+  const { error: upsertError } = await sb.from('tournament_results').upsert(
+    Array.from(placings, ([participantId, placing]) => ({
+      event_id: event.id,
+      participant_id: participantId,
+      placing,
+      recorded_by: userId,
+    })),
+    { onConflict: 'event_id,participant_id' }
+  );
+
+  if (upsertError) return { error: upsertError.message };
+
+  const { data: tournament } = await sb
+    .from('tournaments')
+    .select('name')
+    .eq('id', event.tournament_id)
+    .single();
+
+  // performance_records reference coaches.id and athletes.id, tournaments use auth user ids
+  const { data: coach } = await sb.from('coaches').select('id').eq('user_id', userId).maybeSingle();
+
+  if (!coach) return { error: 'Coach profile not found' };
+
+  const { data: results, error: resultsError } = await sb
+    .from('tournament_results')
+    .select('*, participant:tournament_participants(athlete_id)')
+    .eq('event_id', event.id);
+
+  if (resultsError) return { error: resultsError.message };
+
+  const rows = (results || []) as (TournamentResultRow & {
+    participant: { athlete_id: string } | null;
+  })[];
+
+  const { data: athletes } = await sb
+    .from('athletes')
+    .select('id, user_id')
+    .in('user_id', rows.map((row) => row.participant?.athlete_id).filter(Boolean));
+
+  const athleteIds = new Map(
+    ((athletes || []) as { id: string; user_id: string }[]).map((a) => [a.user_id, a.id])
+  );
+
+  const testName = `${tournament?.name ?? 'Tournament'} - ${event.name}`;
+  const testDate = new Date().toISOString().split('T')[0];
+
+  for (const row of rows) {
+    const athleteId = row.participant ? athleteIds.get(row.participant.athlete_id) : undefined;
+    if (!athleteId || row.placing === null) continue;
+
+    const measured =
+      event.result_type === 'time'
+        ? row.time_seconds
+        : event.result_type === 'score'
+          ? row.score
+          : null;
+    const record = {
+      athlete_id: athleteId,
+      coach_id: coach.id,
+      test_type: 'tournament',
+      test_name: testName,
+      score: measured ?? row.placing,
+      unit:
+        event.result_type === 'time'
+          ? 'วินาที'
+          : event.result_type === 'score'
+            ? event.unit || 'คะแนน'
+            : 'อันดับ',
+      test_date: testDate,
+      notes: `อันดับที่ ${row.placing}`,
+    };
+
+    if (row.performance_record_id) {
+      const { error } = await sb
+        .from('performance_records')
+        .update(record)
+        .eq('id', row.performance_record_id);
+      if (error) return { error: error.message };
+      continue;
+    }
+
+    const { data: created, error } = await sb
+      .from('performance_records')
+      .insert(record)
+      .select('id')
+      .single();
+    if (error) return { error: error.message };
+
+    await sb
+      .from('tournament_results')
+      .update({ performance_record_id: created.id })
+      .eq('id', row.id);
+  }
+
+  revalidatePath('/dashboard/coach/performance');
+  revalidatePath('/dashboard/athlete/performance');
+  return {};
+}
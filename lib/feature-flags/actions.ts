@@ -0,0 +1,34 @@
+'use server';
+
+/**
+ * Feature flag results for the signed-in user, for client components
+ * (FeatureFlagProvider refreshes through this after a flag changes)
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { getParentSession } from '@/lib/parent-auth/actions';
+import { getFeatureFlagBootstrap } from '@/lib/utils/feature-flags';
+import type { FeatureFlagBootstrap } from '@/lib/utils/feature-flag-rules';
+
+/**
+ * Evaluate every feature flag for the current user
+ * Staff and athletes are identified by their Supabase session, parents by
+ * their parent session; anyone else only gets flags that are on for everyone.
+ */
+export async function getMyFeatureFlags(): Promise<FeatureFlagBootstrap> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (user) {
+    return getFeatureFlagBootstrap(user.id);
+  }
+
+  const parent = await getParentSession();
+  if (parent) {
+    return getFeatureFlagBootstrap(parent.id, { role: 'parent', clubId: null });
+  }
+
+  return getFeatureFlagBootstrap(null);
+}
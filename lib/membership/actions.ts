@@ -25,6 +25,9 @@ import {
 } from './validation';
 import type { MembershipApplication, PersonalInfo } from '@/types/database.types';
 import { validateClubSelection } from './queries';
+import { createAuditLog } from '@/lib/audit/log';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { emailLink, enqueueEmail } from '@/lib/admin/email-delivery';
 
 /**
  * Submit a new membership application
@@ -200,6 +203,14 @@ export async function submitApplication(
       // The application was created successfully
     }
 
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'membership_application.submit',
+      entityType: 'membership_application',
+      entityId: (newApplication as any).id,
+      after: newApplication,
+    });
+
     // Step 8: Return success with application ID
     return { 
       success: true, 
@@ -358,6 +369,36 @@ export async function reviewApplication(
     // Step 6: Activity log entry added automatically via database function
     // (handled by update_application_status function)
 
+    await createAuditLog({
+      userId: user.id,
+      userRole: isAdmin ? 'admin' : 'coach',
+      actionType: action === 'approve' ? 'membership_application.approve' : 'membership_application.reject',
+      entityType: 'membership_application',
+      entityId: applicationId,
+      before: {
+        status: currentStatus,
+        profile_id: (application as MembershipApplication).profile_id ?? null,
+      },
+      after: { status: newStatus, profile_id: profileId ?? null },
+      details: reason ? { reason } : undefined,
+    });
+
+    // The approved/rejected events are written by the
+    // enqueue_application_decision trigger with the status and profile link
+    const app = application as MembershipApplication;
+
+    // The decision stands even when the email cannot be queued
+    try {
+      await sendApplicationDecisionEmail(
+        app.user_id,
+        (application as { clubs?: { name: string } | null }).clubs?.name ?? '',
+        action,
+        reason
+      );
+    } catch (emailError) {
+      console.error('Error queueing application decision email:', emailError);
+    }
+
     // Step 7: Return success with appropriate message
     const successMessage = action === 'approve' 
       ? 'อนุมัติใบสมัครเรียบร้อยแล้ว' 
@@ -377,6 +418,39 @@ export async function reviewApplication(
   }
 }
 
+/**
+ * Queue the approval or rejection email to the applicant, in the language
+ * they chose for email (Thai when they have not)
+ */
+async function sendApplicationDecisionEmail(
+  userId: string,
+  clubName: string,
+  action: 'approve' | 'reject',
+  reason?: string
+): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const admin = createAdminClient() as any;
+  const [{ data: profile }, { data: settings }] = await Promise.all([
+    admin.from('profiles').select('email, full_name').eq('id', userId).maybeSingle(),
+    admin.from('notification_settings').select('email_locale').eq('user_id', userId).maybeSingle(),
+  ]);
+
+  if (!profile?.email) return;
+
+  const applicantName = profile.full_name || profile.email;
+  await enqueueEmail(admin, {
+    template: action === 'approve' ? 'application_approved' : 'application_rejected',
+    to: profile.email,
+    toName: profile.full_name,
+    locale: settings?.email_locale ?? null,
+    variables:
+      action === 'approve'
+        ? { applicantName, clubName, dashboardUrl: emailLink('/dashboard/athlete') }
+        : { applicantName, clubName, reason: reason ?? '' },
+    userId,
+  });
+}
+
 /**
  * Create athlete profile from approved application
  * 
@@ -410,11 +484,16 @@ async function createAthleteProfile(
 
     if (existingAthlete) {
       // Update application with existing profile_id
-      await (supabase
+      const { error: linkError } = await (supabase
         .from('membership_applications') as any)
         .update({ profile_id: (existingAthlete as any).id })
         .eq('id', application.id);
 
+      if (linkError) {
+        console.error('Error updating application with profile_id:', linkError);
+        return { success: false, error: 'ไม่สามารถเชื่อมโปรไฟล์นักกีฬากับใบสมัครได้' };
+      }
+
       return { 
         success: true, 
         profileId: (existingAthlete as any).id 
@@ -502,6 +581,14 @@ async function createAthleteProfile(
 
     const profileId = (newAthlete as any).id;
 
+    await createAuditLog({
+      actionType: 'athlete.create',
+      entityType: 'athlete',
+      entityId: profileId,
+      after: newAthlete,
+      details: { application_id: application.id },
+    });
+
     // Step 5: Update application with athlete profile_id reference
     const { error: updateError } = await (supabase
       .from('membership_applications') as any)
@@ -509,8 +596,10 @@ async function createAthleteProfile(
       .eq('id', application.id);
 
     if (updateError) {
+      // The approval is only published once the profile is linked, so the
+      // caller rolls the status back and the review can be retried
       console.error('Error updating application with profile_id:', updateError);
-      // Don't fail the entire operation - profile was created successfully
+      return { success: false, error: 'ไม่สามารถเชื่อมโปรไฟล์นักกีฬากับใบสมัครได้' };
     }
 
     // Step 6: Add activity log entry for profile creation
@@ -2,22 +2,49 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import {
+  DEFAULT_QUIET_HOURS_TIMEZONE,
+  validateQuietHours,
+  type QuietHours,
+} from '@/lib/utils/quiet-hours';
+import { describeDevice } from '@/lib/utils/device-fingerprint';
+import { DEFAULT_EMAIL_LOCALE, isEmailLocale, type EmailLocale } from '@/lib/utils/email-templates';
+import {
+  NOTIFICATION_CATEGORIES,
+  buildPreferenceMatrix,
+  type ChannelPreferenceMatrix,
+} from '@/lib/utils/notification-routing';
 
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'new_schedule' | 'schedule_reminder' | 'announcement' | 'test_result' | 'leave_approved' | 'leave_rejected';
+  type: 'new_schedule' | 'schedule_reminder' | 'announcement' | 'test_result' | 'leave_approved' | 'leave_rejected' | 'tournament_selection' | 'schedule_cancelled' | 'report_published';
   title: string;
   message: string;
   link: string | null;
   read: boolean;
+  /** False when the user turned off in-app notifications for this type */
+  in_app: boolean;
   created_at: string;
   session_id?: string;
   announcement_id?: string;
   performance_id?: string;
   leave_request_id?: string;
+  tournament_id?: string;
 }
 
+export interface PushDevice {
+  id: string;
+  device_id: string;
+  /** The name the user gave the device, or one derived from its browser */
+  name: string;
+  platform: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const MAX_DEVICE_NAME_LENGTH = 60;
+
 /**
  * Get notifications for current user
  */
@@ -34,6 +61,7 @@ export async function getNotifications(limit = 50) {
     .from('notifications')
     .select('*')
     .eq('user_id', user.id)
+    .eq('in_app', true)
     .order('created_at', { ascending: false })
     .limit(limit);
 
@@ -60,6 +88,7 @@ export async function getUnreadCount() {
     .from('notifications')
     .select('*', { count: 'exact', head: true })
     .eq('user_id', user.id)
+    .eq('in_app', true)
     .eq('read', false);
 
   if (error) {
@@ -146,3 +175,292 @@ export async function deleteNotification(notificationId: string) {
   revalidatePath('/dashboard/athlete');
   return { error: null };
 }
+
+/**
+ * Get the current user's notification quiet hours
+ * Returns null data when none are set.
+ */
+export async function getQuietHours() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { data: null, error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('notification_settings')
+    .select('quiet_hours_start, quiet_hours_end, timezone')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  if (!data?.quiet_hours_start || !data?.quiet_hours_end) {
+    return { data: null, error: null };
+  }
+
+  const quietHours: QuietHours = {
+    start: data.quiet_hours_start.slice(0, 5),
+    end: data.quiet_hours_end.slice(0, 5),
+    timezone: data.timezone,
+  };
+  return { data: quietHours, error: null };
+}
+
+/**
+ * Set or clear (null) the current user's notification quiet hours
+ * Push notifications and emails that arrive during quiet hours are sent when they end.
+ */
+export async function updateQuietHours(quietHours: QuietHours | null) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  if (quietHours) {
+    const validationError = validateQuietHours(quietHours);
+    if (validationError) {
+      return { error: validationError };
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any).from('notification_settings').upsert(
+    {
+      user_id: user.id,
+      quiet_hours_start: quietHours?.start ?? null,
+      quiet_hours_end: quietHours?.end ?? null,
+      timezone: quietHours?.timezone ?? DEFAULT_QUIET_HOURS_TIMEZONE,
+    },
+    { onConflict: 'user_id' }
+  );
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Get the language of the current user's emails
+ */
+export async function getEmailLocale() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { data: null, error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('notification_settings')
+    .select('email_locale')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: (data?.email_locale ?? DEFAULT_EMAIL_LOCALE) as EmailLocale, error: null };
+}
+
+/**
+ * Set the language of the current user's emails
+ */
+export async function updateEmailLocale(locale: EmailLocale) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  if (!isEmailLocale(locale)) {
+    return { error: 'ภาษาไม่ถูกต้อง' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('notification_settings')
+    .upsert({ user_id: user.id, email_locale: locale }, { onConflict: 'user_id' });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Get the current user's channels for each notification type
+ * Types the user never changed show their defaults.
+ */
+export async function getChannelPreferences() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { data: null, error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('notification_channel_preferences')
+    .select('category, in_app, push, email, digest')
+    .eq('user_id', user.id);
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  return { data: buildPreferenceMatrix(data || []), error: null };
+}
+
+/**
+ * Save the current user's channels for each notification type
+ */
+export async function updateChannelPreferences(preferences: ChannelPreferenceMatrix) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  const rows = NOTIFICATION_CATEGORIES.map((category) => ({
+    user_id: user.id,
+    category,
+    in_app: Boolean(preferences[category]?.in_app),
+    push: Boolean(preferences[category]?.push),
+    email: Boolean(preferences[category]?.email),
+    digest: Boolean(preferences[category]?.digest),
+  }));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('notification_channel_preferences')
+    .upsert(rows, { onConflict: 'user_id,category' });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  revalidatePath('/dashboard/devices');
+  return { error: null };
+}
+
+/**
+ * Get the devices receiving push notifications for the current user
+ */
+export async function getMyPushDevices() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { data: null, error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('push_subscriptions')
+    .select('id, device_id, device_name, device_info, created_at, updated_at')
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return { data: null, error: error.message };
+  }
+
+  const devices: PushDevice[] = (data || []).map(
+    (row: {
+      id: string;
+      device_id: string;
+      device_name: string | null;
+      device_info: { userAgent?: string; platform?: string } | null;
+      created_at: string;
+      updated_at: string;
+    }) => ({
+      id: row.id,
+      device_id: row.device_id,
+      name: row.device_name || describeDevice(row.device_info?.userAgent),
+      platform: row.device_info?.platform ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    })
+  );
+  return { data: devices, error: null };
+}
+
+/**
+ * Rename one of the current user's devices
+ */
+export async function renamePushDevice(id: string, name: string) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { error: 'กรุณากรอกชื่ออุปกรณ์' };
+  }
+  if (trimmed.length > MAX_DEVICE_NAME_LENGTH) {
+    return { error: `ชื่ออุปกรณ์ต้องไม่เกิน ${MAX_DEVICE_NAME_LENGTH} ตัวอักษร` };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('push_subscriptions')
+    .update({ device_name: trimmed })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return { error: error.message };
+  }
+  if (!data || data.length === 0) {
+    return { error: 'ไม่พบอุปกรณ์' };
+  }
+
+  revalidatePath('/dashboard/devices');
+  return { error: null };
+}
+
+/**
+ * Stop push notifications to one of the current user's devices
+ * The device can subscribe again from its notification settings.
+ */
+export async function revokePushDevice(id: string) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: 'ไม่พบข้อมูลผู้ใช้' };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('push_subscriptions')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  revalidatePath('/dashboard/devices');
+  return { error: null };
+}
@@ -1,8 +1,11 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { cookies } from 'next/headers';
 import bcrypt from 'bcryptjs';
+import { createAuditLog } from '@/lib/audit/log';
+import { emailLink, enqueueEmail } from '@/lib/admin/email-delivery';
 
 const PARENT_SESSION_COOKIE = 'parent_session';
 const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
@@ -78,6 +81,20 @@ export async function verifyAndSetPassword(token: string, password: string) {
         verified_at: new Date().toISOString(),
       })
       .eq('id', connection.id);
+
+    await createAuditLog({
+      actionType: 'parent_user.create',
+      entityType: 'parent_user',
+      entityId: parentUser.id,
+      after: parentUser,
+    });
+    await createAuditLog({
+      actionType: 'parent_connection.verify',
+      entityType: 'parent_connection',
+      entityId: connection.id,
+      before: connection,
+      after: { parent_user_id: parentUser.id, is_verified: true },
+    });
     
     // สร้าง session
     const sessionToken = crypto.randomUUID();
@@ -184,6 +201,12 @@ export async function parentLogin(email: string, password: string) {
         login_count: (parentUser.login_count || 0) + 1,
       })
       .eq('id', parentUser.id);
+
+    await createAuditLog({
+      actionType: 'parent_user.login',
+      entityType: 'parent_user',
+      entityId: parentUser.id,
+    });
     
     // สร้าง session
     const sessionToken = crypto.randomUUID();
@@ -234,10 +257,20 @@ export async function parentLogout() {
       const sb = supabase as any;
       
       // ลบ session
-      await sb
+      const { data: session } = await sb
         .from('parent_sessions')
         .delete()
-        .eq('session_token', sessionToken);
+        .eq('session_token', sessionToken)
+        .select('parent_user_id')
+        .maybeSingle();
+
+      if (session) {
+        await createAuditLog({
+          actionType: 'parent_user.logout',
+          entityType: 'parent_user',
+          entityId: session.parent_user_id,
+        });
+      }
     }
     
     // ลบ cookie
@@ -346,6 +379,14 @@ export async function changeParentPassword(oldPassword: string, newPassword: str
         password_changed_at: new Date().toISOString(),
       })
       .eq('id', parentUser.id);
+
+    await createAuditLog({
+      actionType: 'parent_user.password_change',
+      entityType: 'parent_user',
+      entityId: parentUser.id,
+      before: { password_hash: user.password_hash },
+      after: { password_hash: newPasswordHash },
+    });
     
     return { success: true, message: 'เปลี่ยนรหัสผ่านสำเร็จ' };
   } catch (error) {
@@ -381,7 +422,8 @@ export async function requestPasswordReset(email: string) {
     
     // สร้าง reset token
     const resetToken = crypto.randomUUID();
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 ชั่วโมง
+    const expiresInMinutes = 60;
+    const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
     
     await sb
       .from('parent_password_resets')
@@ -390,14 +432,39 @@ export async function requestPasswordReset(email: string) {
         reset_token: resetToken,
         expires_at: expiresAt.toISOString(),
       });
+
+    await createAuditLog({
+      actionType: 'parent_user.password_reset_request',
+      entityType: 'parent_user',
+      entityId: parentUser.id,
+      details: { expires_at: expiresAt.toISOString() },
+    });
     
-    // TODO: ส่งอีเมล
-    // await sendPasswordResetEmail(email, resetToken);
+    // ส่งอีเมลในภาษาที่ผู้ปกครองเลือกไว้
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const admin = createAdminClient() as any;
+    const { data: connection } = await admin
+      .from('parent_connections')
+      .select('id, parent_name, email_locale')
+      .eq('parent_user_id', parentUser.id)
+      .limit(1)
+      .maybeSingle();
+
+    await enqueueEmail(admin, {
+      template: 'parent_password_reset',
+      to: email,
+      toName: connection?.parent_name ?? null,
+      locale: connection?.email_locale ?? null,
+      variables: {
+        resetUrl: emailLink(`/parent/reset-password?token=${encodeURIComponent(resetToken)}`),
+        expiresInMinutes: String(expiresInMinutes),
+      },
+      parentConnectionId: connection?.id ?? null,
+    });
     
     return { 
       success: true, 
       message: 'หากอีเมลนี้มีอยู่ในระบบ เราจะส่งลิงก์รีเซ็ตรหัสผ่านไปให้',
-      resetToken, // TODO: ลบออกใน production
     };
   } catch (error) {
     console.error('Error requesting password reset:', error);
@@ -457,6 +524,14 @@ export async function resetPassword(token: string, newPassword: string) {
       .from('parent_sessions')
       .delete()
       .eq('parent_user_id', reset.parent_user_id);
+
+    await createAuditLog({
+      actionType: 'parent_user.password_reset',
+      entityType: 'parent_user',
+      entityId: reset.parent_user_id,
+      after: { password_hash: newPasswordHash, failed_login_attempts: 0, locked_until: null },
+      details: { reset_id: reset.id },
+    });
     
     return { success: true, message: 'รีเซ็ตรหัสผ่านสำเร็จ กรุณาล็อกอินด้วยรหัสผ่านใหม่' };
   } catch (error) {
@@ -1,7 +1,17 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
+import { emailLink, enqueueEmail } from '@/lib/admin/email-delivery';
+import type { EmailLocale } from '@/lib/utils/email-templates';
+import type { ReportFrequency } from '@/lib/utils/parent-reports';
+import {
+  NOTIFICATION_CATEGORIES,
+  buildPreferenceMatrix,
+  type ChannelPreferenceMatrix,
+} from '@/lib/utils/notification-routing';
 
 export interface ParentConnection {
   id: string;
@@ -20,6 +30,8 @@ export interface ParentConnection {
   notify_announcements: boolean;
   notify_goals: boolean;
   notification_frequency: 'immediate' | 'daily' | 'weekly';
+  email_locale: EmailLocale;
+  report_frequency: ReportFrequency;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -30,6 +42,7 @@ export interface AddParentInput {
   parentName: string;
   relationship: 'father' | 'mother' | 'guardian';
   phoneNumber?: string;
+  emailLocale?: EmailLocale;
 }
 
 export interface NotificationPreferences {
@@ -39,6 +52,29 @@ export interface NotificationPreferences {
   notify_announcements?: boolean;
   notify_goals?: boolean;
   notification_frequency?: 'immediate' | 'daily' | 'weekly';
+  email_locale?: EmailLocale;
+  report_frequency?: ReportFrequency;
+}
+
+/**
+ * Queue the email with the link that verifies the connection and sets the
+ * parent's password (/parent/verify)
+ */
+async function sendVerificationEmail(connection: ParentConnection, athleteName: string) {
+  await enqueueEmail(createAdminClient(), {
+    template: 'parent_verification',
+    to: connection.parent_email,
+    toName: connection.parent_name,
+    locale: connection.email_locale,
+    variables: {
+      parentName: connection.parent_name,
+      athleteName,
+      verifyUrl: emailLink(
+        `/parent/verify?token=${encodeURIComponent(connection.verification_token ?? '')}`
+      ),
+    },
+    parentConnectionId: connection.id,
+  });
 }
 
 /**
@@ -58,7 +94,7 @@ export async function addParentConnection(input: AddParentInput) {
     
     const { data: athlete, error: athleteError } = await sb
       .from('athletes')
-      .select('id')
+      .select('id, first_name, last_name')
       .eq('user_id', user.id)
       .single();
     
@@ -78,6 +114,7 @@ export async function addParentConnection(input: AddParentInput) {
         parent_name: input.parentName,
         relationship: input.relationship,
         phone_number: input.phoneNumber,
+        email_locale: input.emailLocale ?? 'th',
         verification_token: verificationToken,
         verification_sent_at: new Date().toISOString(),
       })
@@ -91,8 +128,20 @@ export async function addParentConnection(input: AddParentInput) {
       return { success: false, error: error.message };
     }
     
-    // TODO: Send verification email
-    // await sendVerificationEmail(input.parentEmail, verificationToken);
+    await createAuditLog({
+      userId: user.id,
+      actionType: 'parent_connection.create',
+      entityType: 'parent_connection',
+      entityId: data.id,
+      after: data,
+    });
+
+    // The connection is saved either way; the athlete can resend the email
+    try {
+      await sendVerificationEmail(data, `${athlete.first_name} ${athlete.last_name}`.trim());
+    } catch (emailError) {
+      console.error('Error queueing parent verification email:', emailError);
+    }
     
     revalidatePath('/dashboard/athlete/profile');
     return { 
@@ -129,6 +178,14 @@ export async function verifyParentConnection(token: string) {
     if (error) {
       return { success: false, error: 'ลิงก์ยืนยันไม่ถูกต้องหรือหมดอายุ' };
     }
+
+    await createAuditLog({
+      actionType: 'parent_connection.verify',
+      entityType: 'parent_connection',
+      entityId: data.id,
+      before: { is_verified: false, verified_at: null },
+      after: { is_verified: data.is_verified, verified_at: data.verified_at },
+    });
     
     return { 
       success: true, 
@@ -192,6 +249,12 @@ export async function updateNotificationPreferences(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const sb = supabase as any;
     
+    const { data: before } = await sb
+      .from('parent_connections')
+      .select('*')
+      .eq('id', connectionId)
+      .maybeSingle();
+
     const { data, error } = await sb
       .from('parent_connections')
       .update(preferences)
@@ -202,6 +265,14 @@ export async function updateNotificationPreferences(
     if (error) {
       return { success: false, error: error.message };
     }
+
+    await createAuditLog({
+      actionType: 'parent_connection.update',
+      entityType: 'parent_connection',
+      entityId: connectionId,
+      before,
+      after: { ...preferences },
+    });
     
     revalidatePath('/dashboard/athlete/profile');
     return { 
@@ -215,6 +286,98 @@ export async function updateNotificationPreferences(
   }
 }
 
+/**
+ * ดึงช่องทางการแจ้งเตือนของผู้ปกครองแยกตามประเภท
+ */
+export async function getParentChannelPreferences(connectionId: string) {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { data, error } = await sb
+      .from('notification_channel_preferences')
+      .select('category, in_app, push, email, digest')
+      .eq('parent_connection_id', connectionId);
+
+    if (error) throw error;
+
+    return { success: true, data: buildPreferenceMatrix(data || []) };
+  } catch (error) {
+    console.error('Error getting parent channel preferences:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดในการดึงการตั้งค่า' };
+  }
+}
+
+/**
+ * อัพเดทช่องทางการแจ้งเตือนของผู้ปกครอง (อีเมล/สรุปรายงาน) แยกตามประเภท
+ * notify_leave_requests และ notify_announcements จะเปิดเมื่อมีช่องทางใดเปิดอยู่
+ */
+export async function updateParentChannelPreferences(
+  connectionId: string,
+  preferences: ChannelPreferenceMatrix
+) {
+  try {
+    const supabase = await createClient();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sb = supabase as any;
+
+    const { data: before } = await sb
+      .from('notification_channel_preferences')
+      .select('category, email, digest')
+      .eq('parent_connection_id', connectionId);
+
+    // Parents have no in-app inbox or push devices
+    const rows = NOTIFICATION_CATEGORIES.map((category) => ({
+      parent_connection_id: connectionId,
+      category,
+      in_app: false,
+      push: false,
+      email: Boolean(preferences[category]?.email),
+      digest: Boolean(preferences[category]?.digest),
+    }));
+
+    const { error } = await sb
+      .from('notification_channel_preferences')
+      .upsert(rows, { onConflict: 'parent_connection_id,category' });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const receives = (category: (typeof NOTIFICATION_CATEGORIES)[number]) =>
+      rows.some((row) => row.category === category && (row.email || row.digest));
+
+    const { error: flagsError } = await sb
+      .from('parent_connections')
+      .update({
+        notify_leave_requests: receives('leave_reviewed'),
+        notify_announcements: receives('announcement'),
+      })
+      .eq('id', connectionId);
+
+    if (flagsError) {
+      return { success: false, error: flagsError.message };
+    }
+
+    await createAuditLog({
+      actionType: 'parent_connection.update',
+      entityType: 'parent_connection',
+      entityId: connectionId,
+      before: { channels: before || [] },
+      after: {
+        channels: rows.map(({ category, email, digest }) => ({ category, email, digest })),
+      },
+    });
+
+    revalidatePath('/dashboard/athlete/profile');
+    return { success: true, message: 'อัพเดทการตั้งค่าสำเร็จ' };
+  } catch (error) {
+    console.error('Error updating parent channel preferences:', error);
+    return { success: false, error: 'เกิดข้อผิดพลาดในการอัพเดทการตั้งค่า' };
+  }
+}
+
 /**
  * ส่งอีเมลยืนยันใหม่
  */
@@ -235,15 +398,26 @@ export async function resendVerificationEmail(connectionId: string) {
       })
       .eq('id', connectionId)
       .eq('is_verified', false)
-      .select()
+      .select('*, athletes(first_name, last_name)')
       .single();
     
     if (error) {
       return { success: false, error: 'ไม่สามารถส่งอีเมลยืนยันได้' };
     }
-    
-    // TODO: Send verification email
-    // await sendVerificationEmail(data.parent_email, verificationToken);
+
+    const athlete = data.athletes as { first_name: string; last_name: string } | null;
+
+    await createAuditLog({
+      actionType: 'parent_connection.resend_verification',
+      entityType: 'parent_connection',
+      entityId: connectionId,
+      after: { verification_token: data.verification_token, verification_sent_at: data.verification_sent_at },
+    });
+    
+    await sendVerificationEmail(
+      data,
+      athlete ? `${athlete.first_name} ${athlete.last_name}`.trim() : data.parent_name
+    );
     
     return { 
       success: true,
@@ -264,14 +438,25 @@ export async function removeParentConnection(connectionId: string) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const sb = supabase as any;
     
-    const { error } = await sb
+    const { data: removed, error } = await sb
       .from('parent_connections')
       .delete()
-      .eq('id', connectionId);
+      .eq('id', connectionId)
+      .select()
+      .maybeSingle();
     
     if (error) {
       return { success: false, error: error.message };
     }
+
+    if (removed) {
+      await createAuditLog({
+        actionType: 'parent_connection.delete',
+        entityType: 'parent_connection',
+        entityId: connectionId,
+        before: removed,
+      });
+    }
     
     revalidatePath('/dashboard/athlete/profile');
     return { 
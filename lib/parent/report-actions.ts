@@ -0,0 +1,123 @@
+'use server';
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getParentSession } from '@/lib/parent-auth/actions';
+import {
+  compareParentReports,
+  type ParentReportData,
+  type ParentReportStats,
+  type ParentReportType,
+  type ReportComparison,
+} from '@/lib/utils/parent-reports';
+
+// Parents sign in with their own session, so reports are read with the
+// service-role client after checking the parent's verified connections.
+
+/** Reports kept per child on the dashboard */
+const REPORT_HISTORY_LIMIT = 52;
+
+export interface ParentReport extends Omit<ParentReportStats, 'report_data'> {
+  id: string;
+  report_type: ParentReportType;
+  period_start: string;
+  period_end: string;
+  report_data: ParentReportData | null;
+  generated_at: string;
+  sent_at: string | null;
+  opened_at: string | null;
+  /** Change since the previous report of the same type; null for the first */
+  comparison: ReportComparison | null;
+}
+
+export interface ChildReports {
+  connection_id: string;
+  athlete: { id: string; first_name: string; last_name: string };
+  reports: ParentReport[];
+}
+
+// Weekly and monthly reports of every linked child, newest first
+export async function getChildReports(): Promise<{ children?: ChildReports[]; error?: string }> {
+  const parentUser = await getParentSession();
+  if (!parentUser) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = createAdminClient() as any;
+
+  const { data: connections, error } = await sb
+    .from('parent_connections')
+    .select('id, athlete:athletes(id, first_name, last_name)')
+    .eq('parent_user_id', parentUser.id)
+    .eq('is_verified', true)
+    .eq('is_active', true);
+
+  if (error) return { error: error.message };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const linked = (connections || []).filter((connection: any) => connection.athlete);
+  if (linked.length === 0) return { children: [] };
+
+  const { data: reports, error: reportsError } = await sb
+    .from('parent_reports')
+    .select('*')
+    .in(
+      'parent_connection_id',
+      linked.map((connection: { id: string }) => connection.id)
+    )
+    .order('period_start', { ascending: false })
+    .limit(REPORT_HISTORY_LIMIT * linked.length * 2);
+
+  if (reportsError) return { error: reportsError.message };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const children: ChildReports[] = linked.map((connection: any) => {
+    // DECIMAL comes back as a string
+    const own = (reports || [])
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .filter((report: any) => report.parent_connection_id === connection.id)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .map((report: any) => ({ ...report, attendance_rate: Number(report.attendance_rate ?? 0) }));
+    return {
+      connection_id: connection.id,
+      athlete: connection.athlete,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      reports: own.map((report: any) => {
+        const previous = own.find(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (other: any) =>
+            other.report_type === report.report_type && other.period_start < report.period_start
+        );
+        return { ...report, comparison: compareParentReports(report, previous ?? null) };
+      }),
+    };
+  });
+
+  return { children };
+}
+
+// Record that the parent opened a report
+export async function markParentReportOpened(reportId: string) {
+  const parentUser = await getParentSession();
+  if (!parentUser) return { error: 'Unauthorized' };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = createAdminClient() as any;
+
+  const { data: report } = await sb
+    .from('parent_reports')
+    .select('id, opened_at, connection:parent_connections(parent_user_id)')
+    .eq('id', reportId)
+    .maybeSingle();
+
+  if (!report || report.connection?.parent_user_id !== parentUser.id) {
+    return { error: 'ไม่พบรายงานนี้' };
+  }
+  if (report.opened_at) return { success: true };
+
+  const { error } = await sb
+    .from('parent_reports')
+    .update({ opened_at: new Date().toISOString() })
+    .eq('id', reportId)
+    .is('opened_at', null);
+
+  if (error) return { error: error.message };
+  return { success: true };
+}
@@ -0,0 +1,150 @@
+'use server';
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { revalidatePath } from 'next/cache';
+import { getParentSession } from '@/lib/parent-auth/actions';
+import { ageReferenceDate, recordRsvpResponse } from '@/lib/coach/tournament-entries';
+import {
+  canRespond,
+  requiresParentConsent,
+  validateRsvpReason,
+  type ParentConsent,
+} from '@/lib/utils/tournament-rsvp';
+
+// Parents sign in with their own session rather than Supabase auth, so RLS
+// can't see them: every query checks the parent's verified connections and
+// then runs with the service-role client.
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getConnectedAthletes(admin: any, parentUserId: string) {
+  const { data: connections, error } = await admin
+    .from('parent_connections')
+    .select('id, athlete:athletes(id, user_id, first_name, last_name, date_of_birth)')
+    .eq('parent_user_id', parentUserId)
+    .eq('is_verified', true)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error loading parent connections:', error);
+    return [];
+  }
+
+  return (connections || []).filter(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (connection: any) => connection.athlete?.user_id
+  );
+}
+
+// Tournament selections of every linked child
+export async function getChildTournamentInvitations() {
+  const parentUser = await getParentSession();
+  if (!parentUser) return { error: 'Unauthorized' };
+
+  const admin = createAdminClient();
+  const connections = await getConnectedAthletes(admin, parentUser.id);
+  if (connections.length === 0) return { invitations: [] };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const athleteUserIds = connections.map((c: any) => c.athlete.user_id);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (admin as any)
+    .from('tournament_participants')
+    .select(
+      `
+      *,
+      tournament:tournaments(id, name, sport_type, location, start_date, end_date, age_reference_date),
+      category:tournament_categories(id, name)
+    `
+    )
+    .in('athlete_id', athleteUserIds)
+    .in('status', ['selected', 'confirmed', 'declined'])
+    .order('added_at', { ascending: false });
+
+  if (error) return { error: error.message };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const invitations = (data || []).map((participant: any) => {
+    const athlete = connections.find(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (c: any) => c.athlete.user_id === participant.athlete_id
+    ).athlete;
+    return {
+      ...participant,
+      athlete: { first_name: athlete.first_name, last_name: athlete.last_name },
+      needs_consent: requiresParentConsent(
+        athlete.date_of_birth,
+        ageReferenceDate(participant.tournament)
+      ),
+    };
+  });
+
+  return { invitations };
+}
+
+// Give or refuse consent for a minor's place
+export async function respondAsParent(
+  participantId: string,
+  consent: ParentConsent,
+  reason?: string
+) {
+  const parentUser = await getParentSession();
+  if (!parentUser) return { error: 'Unauthorized' };
+
+  const reasonError = validateRsvpReason(consent === 'refused', reason);
+  if (reasonError) return { error: reasonError };
+
+  const admin = createAdminClient();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const sb = admin as any;
+
+  const { data: participant, error: participantError } = await sb
+    .from('tournament_participants')
+    .select(
+      `
+      id, tournament_id, athlete_id, status, athlete_response, parent_consent, consent_required,
+      tournament:tournaments(start_date, age_reference_date)
+    `
+    )
+    .eq('id', participantId)
+    .single();
+
+  if (participantError || !participant) return { error: 'ไม่พบการคัดเลือกนี้' };
+
+  const connections = await getConnectedAthletes(admin, parentUser.id);
+  const connection = connections.find(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (c: any) => c.athlete.user_id === participant.athlete_id
+  );
+  if (!connection) return { error: 'Unauthorized' };
+
+  if (!canRespond(participant.status)) {
+    return { error: 'ไม่สามารถตอบรับได้ในสถานะปัจจุบัน' };
+  }
+
+  const result = await recordRsvpResponse(
+    admin,
+    participant,
+    {
+      parent_consent: consent,
+      parent_consent_at: new Date().toISOString(),
+      parent_consent_by: connection.id,
+      consent_required: requiresParentConsent(
+        connection.athlete.date_of_birth,
+        ageReferenceDate(participant.tournament)
+      ),
+    },
+    {
+      responder_type: 'parent',
+      responder_id: parentUser.id,
+      response: consent === 'given' ? 'consent_given' : 'consent_refused',
+      reason: reason?.trim() || null,
+    }
+  );
+
+  if (result.error) return { error: result.error };
+
+  revalidatePath('/parent/dashboard');
+  revalidatePath(`/dashboard/coach/tournaments/${participant.tournament_id}`);
+  return { status: result.status };
+}
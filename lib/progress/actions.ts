@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { createAuditLog } from '@/lib/audit/log';
 
 export interface ProgressReportInput {
   athleteId: string;
@@ -215,6 +216,15 @@ export async function createProgressReport(input: ProgressReportInput) {
     return { success: false, error: 'Failed to create progress report' };
   }
 
+  await createAuditLog({
+    userId: user.id,
+    userRole: 'coach',
+    actionType: 'progress_report.create',
+    entityType: 'progress_report',
+    entityId: report.id,
+    after: report,
+  });
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete/progress');
 
@@ -232,6 +242,12 @@ export async function publishProgressReport(reportId: string) {
     published_at: new Date().toISOString(),
   };
 
+  const { data: before } = await supabase
+    .from('progress_reports')
+    .select('status, published_at')
+    .eq('id', reportId)
+    .maybeSingle();
+
   const { data, error } = (await (supabase
     .from('progress_reports') as any)
     .update(updateData)
@@ -244,6 +260,19 @@ export async function publishProgressReport(reportId: string) {
     return { success: false, error: 'Failed to publish progress report' };
   }
 
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  await createAuditLog({
+    userId: user?.id,
+    actionType: 'progress_report.publish',
+    entityType: 'progress_report',
+    entityId: reportId,
+    before,
+    after: updateData,
+  });
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete/progress');
 
@@ -368,16 +397,27 @@ export async function getMyProgressReports() {
 export async function deleteProgressReport(reportId: string) {
   const supabase = await createClient();
 
-  const { error } = await supabase
+  const { data: deleted, error } = await supabase
     .from('progress_reports')
     .delete()
-    .eq('id', reportId);
+    .eq('id', reportId)
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error('Error deleting progress report:', error);
     return { success: false, error: 'Failed to delete progress report' };
   }
 
+  if (deleted) {
+    await createAuditLog({
+      actionType: 'progress_report.delete',
+      entityType: 'progress_report',
+      entityId: reportId,
+      before: deleted,
+    });
+  }
+
   revalidatePath('/dashboard/coach/athletes');
   revalidatePath('/dashboard/athlete/progress');
 
@@ -0,0 +1,28 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database.types';
+
+/**
+ * Service-role client for scheduled jobs that run without a signed-in user,
+ * and for the few server actions that act on the system's behalf after doing
+ * their own checks (e.g. auto-approving a leave request that is within policy).
+ * Bypasses RLS — never import this from client components or expose it to
+ * request handlers that are not protected by a shared secret.
+ *
+ * @param options.correlationId - Copied into events the database writes for
+ *   this client's changes, e.g. the X-Correlation-ID of the cron request
+ */
+export function createAdminClient(options: { correlationId?: string } = {}) {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: options.correlationId
+        ? { headers: { 'x-correlation-id': options.correlationId } }
+        : undefined,
+    }
+  );
+}
@@ -1,10 +1,19 @@
 import { createServerClient } from '@supabase/ssr';
+import type { User } from '@supabase/supabase-js';
 import { NextResponse, type NextRequest } from 'next/server';
 import { checkAthleteAccess } from '@/lib/auth/access-control';
 import { createRequestContext, extractCorrelationId } from '@/lib/utils/correlation';
 import { createLogger } from '@/lib/utils/logger';
 
-export async function updateSession(request: NextRequest) {
+export interface UpdateSessionOptions {
+  /**
+   * Runs once the signed-in user (or null) is known; returning a response
+   * ends the request with it, e.g. a 429 from a per-user rate limit
+   */
+  onUser?: (user: User | null) => Promise<NextResponse | null>;
+}
+
+export async function updateSession(request: NextRequest, options: UpdateSessionOptions = {}) {
   // Create request context for logging
   const correlationId = extractCorrelationId(request.headers);
   const context = createRequestContext(
@@ -63,6 +72,15 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
+  if (options.onUser) {
+    const earlyResponse = await options.onUser(user);
+    if (earlyResponse) {
+      earlyResponse.headers.set('X-Correlation-ID', context.correlationId);
+      earlyResponse.headers.set('X-Causation-ID', context.causationId);
+      return earlyResponse;
+    }
+  }
+
   // Protect routes based on authentication
   if (!user && request.nextUrl.pathname.startsWith('/dashboard')) {
     const url = request.nextUrl.clone();
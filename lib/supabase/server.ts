@@ -1,9 +1,15 @@
 import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { Database } from '@/types/database.types';
+import {
+  extractCorrelationId,
+  generateCausationId,
+  generateCorrelationId,
+} from '@/lib/utils/correlation';
 
 export async function createClient() {
   const cookieStore = await cookies();
+  const requestHeaders = await headers();
 
   return createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -25,6 +31,14 @@ export async function createClient() {
           }
         },
       },
+      // Copied into the envelopes of events the database writes for this
+      // operation (scripts/156-write-events-with-changes.sql)
+      global: {
+        headers: {
+          'x-correlation-id': extractCorrelationId(requestHeaders) || generateCorrelationId(),
+          'x-causation-id': generateCausationId(),
+        },
+      },
     }
   );
 }
@@ -0,0 +1,218 @@
+/**
+ * Attendance Policy
+ *
+ * Per-club rules for check-in windows, lateness and how attendance rates are
+ * calculated. Policies are stored as JSON in system_settings: the
+ * `attendance_policy` key holds the system default and
+ * `attendance_policy:<clubId>` overrides it for one club. Everything here is
+ * pure so the same rules are applied by athlete check-in, coach marking,
+ * reports and statistics (and can be tested without a database).
+ *
+ * Session times are local wall-clock times (`session_date` + `start_time`),
+ * interpreted the same way as everywhere else in the attendance flow.
+ */
+
+export interface AttendancePolicy {
+  /** Minutes before the start time that check-in opens */
+  check_in_opens_minutes_before: number;
+  /** Minutes after the start time that check-in closes */
+  check_in_closes_minutes_after: number;
+  /** Check-ins more than this many minutes after the start are recorded as late */
+  late_after_minutes: number;
+  /** Whether late arrivals count towards the attendance rate */
+  count_late_as_present: boolean;
+  /** Treat athletes without a record as absent once the session has ended */
+  auto_mark_absent: boolean;
+  /** Grace period after the session end before auto-absent applies */
+  auto_mark_absent_after_minutes: number;
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  check_in_opens_minutes_before: 30,
+  check_in_closes_minutes_after: 15,
+  late_after_minutes: 0,
+  count_late_as_present: true,
+  auto_mark_absent: true,
+  auto_mark_absent_after_minutes: 0,
+};
+
+export const ATTENDANCE_POLICY_SETTING_KEY = 'attendance_policy';
+
+/** Longest configurable offset (one day) */
+const MAX_OFFSET_MINUTES = 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+const NUMBER_FIELDS = [
+  'check_in_opens_minutes_before',
+  'check_in_closes_minutes_after',
+  'late_after_minutes',
+  'auto_mark_absent_after_minutes',
+] as const;
+
+const BOOLEAN_FIELDS = ['count_late_as_present', 'auto_mark_absent'] as const;
+
+export type CheckInEvaluation =
+  | { allowed: true; status: 'present' | 'late' }
+  | { allowed: false; reason: 'too_early' | 'too_late'; message: string };
+
+/**
+ * system_settings key for a club's policy, or the system default when no club is given
+ */
+export function attendancePolicySettingKey(clubId?: string | null): string {
+  return clubId ? `${ATTENDANCE_POLICY_SETTING_KEY}:${clubId}` : ATTENDANCE_POLICY_SETTING_KEY;
+}
+
+/**
+ * Merge stored policy layers over the defaults, later layers winning
+ * Fields with the wrong type (e.g. a hand-edited setting) are ignored.
+ */
+export function resolveAttendancePolicy(...layers: unknown[]): AttendancePolicy {
+  const policy: AttendancePolicy = { ...DEFAULT_ATTENDANCE_POLICY };
+
+  for (const layer of layers) {
+    if (!layer || typeof layer !== 'object') continue;
+    const values = layer as Record<string, unknown>;
+
+    for (const field of NUMBER_FIELDS) {
+      const value = values[field];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        policy[field] = value;
+      }
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+      const value = values[field];
+      if (typeof value === 'boolean') {
+        policy[field] = value;
+      }
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Resolve the system default and every club override from stored settings rows
+ */
+export function resolveAttendancePolicies(
+  settings: { setting_key: string; setting_value: unknown }[]
+): { defaultPolicy: AttendancePolicy; clubPolicies: Record<string, AttendancePolicy> } {
+  const stored = new Map(settings.map((setting) => [setting.setting_key, setting.setting_value]));
+  const defaultPolicy = resolveAttendancePolicy(stored.get(ATTENDANCE_POLICY_SETTING_KEY));
+  const clubPolicies: Record<string, AttendancePolicy> = {};
+
+  for (const [key, value] of stored) {
+    if (key.startsWith(`${ATTENDANCE_POLICY_SETTING_KEY}:`)) {
+      const clubId = key.slice(ATTENDANCE_POLICY_SETTING_KEY.length + 1);
+      clubPolicies[clubId] = resolveAttendancePolicy(defaultPolicy, value);
+    }
+  }
+
+  return { defaultPolicy, clubPolicies };
+}
+
+/**
+ * Validate a policy before saving
+ * @returns Thai error message, or null when the policy is usable
+ */
+export function validateAttendancePolicy(policy: AttendancePolicy): string | null {
+  for (const field of NUMBER_FIELDS) {
+    const value = policy[field];
+    if (!Number.isInteger(value) || value < 0 || value > MAX_OFFSET_MINUTES) {
+      return `ค่านาทีต้องเป็นจำนวนเต็มระหว่าง 0 ถึง ${MAX_OFFSET_MINUTES}`;
+    }
+  }
+
+  if (policy.late_after_minutes > policy.check_in_closes_minutes_after) {
+    return 'เวลาที่นับว่าสายต้องไม่เกินเวลาปิดเช็คอิน';
+  }
+
+  return null;
+}
+
+/**
+ * Check-in window and late threshold for a session
+ */
+export function getCheckInWindow(
+  sessionDate: string,
+  startTime: string,
+  policy: AttendancePolicy
+): { opensAt: Date; closesAt: Date; lateAfter: Date } {
+  const start = new Date(`${sessionDate}T${startTime}`).getTime();
+  return {
+    opensAt: new Date(start - policy.check_in_opens_minutes_before * MINUTE_MS),
+    closesAt: new Date(start + policy.check_in_closes_minutes_after * MINUTE_MS),
+    lateAfter: new Date(start + policy.late_after_minutes * MINUTE_MS),
+  };
+}
+
+/**
+ * Decide whether a self check-in at `now` is allowed, and with which status
+ */
+export function evaluateCheckIn(
+  now: Date,
+  sessionDate: string,
+  startTime: string,
+  policy: AttendancePolicy
+): CheckInEvaluation {
+  const { opensAt, closesAt, lateAfter } = getCheckInWindow(sessionDate, startTime, policy);
+
+  if (now < opensAt) {
+    const minutesUntil = Math.ceil((opensAt.getTime() - now.getTime()) / MINUTE_MS);
+    return {
+      allowed: false,
+      reason: 'too_early',
+      message: `ยังไม่ถึงเวลาเช็คอิน (สามารถเช็คอินได้ในอีก ${minutesUntil} นาที)`,
+    };
+  }
+
+  if (now > closesAt) {
+    return {
+      allowed: false,
+      reason: 'too_late',
+      message: `หมดเวลาเช็คอินแล้ว (สามารถเช็คอินได้จนถึง ${policy.check_in_closes_minutes_after} นาทีหลังเวลาเริ่ม)`,
+    };
+  }
+
+  return { allowed: true, status: now > lateAfter ? 'late' : 'present' };
+}
+
+/**
+ * Whether a coach may record an athlete as present/late at `now`
+ * (not before check-in for the session has opened)
+ */
+export function canRecordPresence(
+  now: Date,
+  sessionDate: string,
+  startTime: string,
+  policy: AttendancePolicy
+): boolean {
+  return now >= getCheckInWindow(sessionDate, startTime, policy).opensAt;
+}
+
+/**
+ * Whether an athlete without a record should be treated as absent at `now`
+ */
+export function isAutoAbsentDue(
+  now: Date,
+  sessionDate: string,
+  endTime: string,
+  policy: AttendancePolicy
+): boolean {
+  if (!policy.auto_mark_absent) return false;
+  const end = new Date(`${sessionDate}T${endTime}`).getTime();
+  return now.getTime() >= end + policy.auto_mark_absent_after_minutes * MINUTE_MS;
+}
+
+/**
+ * Attendance rate in percent (one decimal place)
+ */
+export function calculateAttendanceRate(
+  counts: { present: number; late: number; total: number },
+  policy: AttendancePolicy
+): number {
+  if (counts.total <= 0) return 0;
+  const attended = counts.present + (policy.count_late_as_present ? counts.late : 0);
+  return Math.round((attended / counts.total) * 100 * 10) / 10;
+}
@@ -0,0 +1,103 @@
+/**
+ * Shared Cache Backend
+ *
+ * Keeps cache entries in Postgres (cache_entries) so every server instance
+ * reads the same entries and sees the same invalidations. Server only: it
+ * uses the service-role client.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logger } from '@/lib/utils/logger';
+import type { CacheBackend, CacheEntry } from '@/lib/utils/cache';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+interface CacheRow {
+  value: unknown;
+  tags: string[];
+  fresh_until: string;
+  stale_until: string;
+}
+
+/** Share of writes that also delete expired entries */
+const PRUNE_PROBABILITY = 0.01;
+
+/**
+ * Create a backend backed by cache_entries
+ * If the database cannot be reached, reads and writes go to `fallback` (this
+ * instance's memory) so a cache outage never fails the request.
+ *
+ * @param fallback - Local backend for outages; invalidations are applied to it too
+ * @param sb - Service-role client (created on first use when omitted)
+ */
+export function createSupabaseCacheBackend(
+  fallback: CacheBackend,
+  sb?: UntypedClient
+): CacheBackend {
+  let client = sb;
+  const db = (): UntypedClient => (client ??= createAdminClient());
+
+  return {
+    async get<T>(key: string) {
+      const { data, error } = await db()
+        .from('cache_entries')
+        .select('value, tags, fresh_until, stale_until')
+        .eq('key', key)
+        .gt('stale_until', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        logger.warn('Shared cache unavailable, using local cache', { key, error: error.message });
+        return fallback.get<T>(key);
+      }
+      if (!data) return null;
+
+      const row = data as CacheRow;
+      return {
+        value: row.value as T,
+        tags: row.tags,
+        freshUntil: new Date(row.fresh_until).getTime(),
+        staleUntil: new Date(row.stale_until).getTime(),
+      };
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const { error } = await db()
+        .from('cache_entries')
+        .upsert(
+          {
+            key,
+            value: entry.value,
+            tags: entry.tags,
+            fresh_until: new Date(entry.freshUntil).toISOString(),
+            stale_until: new Date(entry.staleUntil).toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'key' }
+        );
+
+      if (error) {
+        logger.warn('Shared cache unavailable, using local cache', { key, error: error.message });
+        await fallback.set(key, entry);
+        return;
+      }
+
+      if (Math.random() < PRUNE_PROBABILITY) {
+        await db().from('cache_entries').delete().lt('stale_until', new Date().toISOString());
+      }
+    },
+
+    async delete(key) {
+      await fallback.delete(key);
+      const { error } = await db().from('cache_entries').delete().eq('key', key);
+      if (error) throw new Error(error.message);
+    },
+
+    async invalidateTags(tags) {
+      await fallback.invalidateTags(tags);
+      const { error } = await db().from('cache_entries').delete().overlaps('tags', tags);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -1,130 +1,269 @@
 /**
- * Simple in-memory cache for server-side data
- * Used to cache expensive stats calculations
+ * Server-side cache for expensive stats and reports
+ *
+ * Entries carry tags (club, athlete, session, ...) so a write can invalidate
+ * everything derived from it, and are served stale while they are recomputed
+ * in the background. Entries live in a CacheBackend: the shared Supabase
+ * backend (cache-store.ts) when the service-role key is configured, so an
+ * invalidation in one server instance is seen by all of them; otherwise a
+ * per-process memory backend.
+ *
+ * Invalidating tags also revalidates them in the Next.js cache, so pages and
+ * fetches tagged the same way stay consistent with these entries.
  */
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
+import { after } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { logger } from './logger';
+import { createSupabaseCacheBackend } from './cache-store';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  tags: string[];
+  /** Served without recomputing until this time (epoch ms) */
+  freshUntil: number;
+  /** Served while recomputing in the background until this time (epoch ms) */
+  staleUntil: number;
 }
 
-class SimpleCache {
-  private cache: Map<string, CacheEntry<any>>;
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every entry that has any of the tags */
+  invalidateTags(tags: string[]): Promise<void>;
+}
 
-  constructor() {
-    this.cache = new Map();
-  }
+export interface CacheOptions<T = unknown> {
+  /** How long an entry is fresh, in milliseconds */
+  ttl?: number;
+  /** How long after ttl a stale entry may still be served while it is recomputed */
+  staleWhileRevalidate?: number;
+  tags?: string[];
+  /** Return false to use a result without caching it, e.g. an error */
+  shouldCache?: (value: T) => boolean;
+}
 
-  /**
-   * Get cached data if it exists and hasn't expired
-   */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return null;
-    }
+/** Tags shared by cached data and the writes that change it */
+export const CACHE_TAGS = {
+  /** Anything derived from attendance or training sessions */
+  attendance: 'attendance',
+  attendancePolicy: 'attendance-policy',
+  leavePolicy: 'leave-policy',
+  featureFlags: 'feature-flags',
+  /** The list of every flag, which any flag change invalidates */
+  featureFlagList: 'feature-flags:list',
+  club: (clubId: string) => `club:${clubId}`,
+  athlete: (athleteId: string) => `athlete:${athleteId}`,
+  session: (sessionId: string) => `session:${sessionId}`,
+  featureFlag: (name: string) => `feature-flag:${name}`,
+};
 
-    const now = Date.now();
-    const age = now - entry.timestamp;
+/**
+ * Tags to invalidate after attendance or a training session changes
+ * Pass whatever the caller knows; attendance-wide stats are always included.
+ */
+export function attendanceCacheTags(ref: {
+  clubId?: string | null;
+  sessionId?: string | null;
+  athleteId?: string | null;
+}): string[] {
+  return [
+    CACHE_TAGS.attendance,
+    ...(ref.clubId ? [CACHE_TAGS.club(ref.clubId)] : []),
+    ...(ref.sessionId ? [CACHE_TAGS.session(ref.sessionId)] : []),
+    ...(ref.athleteId ? [CACHE_TAGS.athlete(ref.athleteId)] : []),
+  ];
+}
 
-    // Check if cache entry has expired
-    if (age > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
+const DEFAULT_TTL = 60 * 1000;
 
-    return entry.data as T;
-  }
+/**
+ * Create a per-process backend
+ * Expired entries are dropped when read and by the cleanup interval.
+ */
+export function createMemoryCacheBackend(
+  entries: Map<string, CacheEntry> = new Map()
+): CacheBackend & { cleanup(now?: number): void } {
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry as CacheEntry<T>;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async invalidateTags(tags) {
+      for (const [key, entry] of entries) {
+        if (entry.tags.some((tag) => tags.includes(tag))) entries.delete(key);
+      }
+    },
+    cleanup(now = Date.now()) {
+      for (const [key, entry] of entries) {
+        if (entry.staleUntil <= now) entries.delete(key);
+      }
+    },
+  };
+}
 
-  /**
-   * Set cache data with TTL (time to live) in milliseconds
-   */
-  set<T>(key: string, data: T, ttl: number = 60000): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
-    });
-  }
+const memoryBackend = createMemoryCacheBackend();
 
-  /**
-   * Clear a specific cache entry
-   */
-  delete(key: string): void {
-    this.cache.delete(key);
-  }
+// Run cleanup every 5 minutes
+if (typeof setInterval !== 'undefined') {
+  setInterval(
+    () => {
+      memoryBackend.cleanup();
+    },
+    5 * 60 * 1000
+  );
+}
 
-  /**
-   * Clear all cache entries
-   */
-  clear(): void {
-    this.cache.clear();
-  }
+let backend: CacheBackend | null = null;
 
-  /**
-   * Clear expired entries
-   */
-  cleanup(): void {
-    const now = Date.now();
-    
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now - entry.timestamp;
-      if (age > entry.ttl) {
-        this.cache.delete(key);
-      }
-    }
+/**
+ * The backend used by getCached and invalidateTags
+ */
+export function getCacheBackend(): CacheBackend {
+  if (!backend) {
+    backend =
+      process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+        ? createSupabaseCacheBackend(memoryBackend)
+        : memoryBackend;
   }
+  return backend;
+}
 
-  /**
-   * Get cache size
-   */
-  size(): number {
-    return this.cache.size;
-  }
+/**
+ * Replace the backend, e.g. with a memory backend in tests
+ */
+export function setCacheBackend(next: CacheBackend | null): void {
+  backend = next;
 }
 
-// Export singleton instance
-export const cache = new SimpleCache();
+// Computations in progress in this process, so concurrent misses share one
+const inFlight = new Map<string, Promise<unknown>>();
 
-// Run cleanup every 5 minutes
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    cache.cleanup();
-  }, 5 * 60 * 1000);
+function refresh<T>(
+  key: string,
+  compute: () => Promise<T>,
+  { ttl, staleWhileRevalidate, tags, shouldCache }: Required<CacheOptions<T>>
+): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = (async () => {
+    try {
+      const value = await compute();
+      if (!shouldCache(value)) return value;
+
+      const now = Date.now();
+      await getCacheBackend()
+        .set(key, {
+          value,
+          tags,
+          freshUntil: now + ttl,
+          staleUntil: now + ttl + staleWhileRevalidate,
+        })
+        .catch((error: Error) => logger.warn('Cache write failed', { key, error: error.message }));
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, promise);
+  return promise;
+}
+
+function refreshInBackground(task: () => Promise<unknown>): void {
+  const run = () =>
+    task().catch((error: Error) =>
+      logger.warn('Background cache refresh failed', { error: error.message })
+    );
+  try {
+    // Keeps the serverless function alive until the refresh has been stored
+    after(run);
+  } catch {
+    // Outside a request (scripts, tests)
+    void run();
+  }
 }
 
 /**
- * Helper function to get or compute cached data
+ * Get cached data, or compute and cache it
+ *
+ * @param key - Cache key; include every parameter the result depends on
+ * @param compute - Produces the value on a miss; must return JSON-serialisable data
+ * @param options - Time to live in milliseconds, or ttl, stale window and tags
  */
 export async function getCached<T>(
   key: string,
   compute: () => Promise<T>,
-  ttl: number = 60000
+  options: number | CacheOptions<T> = DEFAULT_TTL
 ): Promise<T> {
-  // Try to get from cache
-  const cached = cache.get<T>(key);
-  if (cached !== null) {
-    return cached;
+  const {
+    ttl = DEFAULT_TTL,
+    staleWhileRevalidate = 0,
+    tags = [],
+    shouldCache = () => true,
+  } = typeof options === 'number' ? { ttl: options } : options;
+  const resolved = { ttl, staleWhileRevalidate, tags, shouldCache };
+
+  const entry = await getCacheBackend()
+    .get<T>(key)
+    .catch((error: Error) => {
+      logger.warn('Cache read failed', { key, error: error.message });
+      return null;
+    });
+  const now = Date.now();
+
+  if (entry && now < entry.freshUntil) {
+    return entry.value;
+  }
+  if (entry && now < entry.staleUntil) {
+    refreshInBackground(() => refresh(key, compute, resolved));
+    return entry.value;
   }
 
-  // Compute and cache
-  const data = await compute();
-  cache.set(key, data, ttl);
-  return data;
+  return refresh(key, compute, resolved);
 }
 
 /**
- * Invalidate cache entries by pattern
+ * Invalidate every cached entry with any of the tags, in this cache and in
+ * the Next.js cache
  */
-export function invalidatePattern(pattern: string): void {
-  const keys = Array.from(cache['cache'].keys());
-  const regex = new RegExp(pattern);
-  
-  for (const key of keys) {
-    if (regex.test(key)) {
-      cache.delete(key);
+export async function invalidateTags(tags: string[]): Promise<void> {
+  if (tags.length === 0) return;
+
+  try {
+    await getCacheBackend().invalidateTags(tags);
+  } catch (error) {
+    logger.error('Cache invalidation failed', error as Error, { tags });
+  }
+
+  for (const tag of tags) {
+    try {
+      revalidateTag(tag, 'max');
+    } catch {
+      // Outside a request there is no Next.js cache to revalidate
     }
   }
 }
+
+/**
+ * Remove a single entry
+ */
+export async function invalidateKey(key: string): Promise<void> {
+  try {
+    await getCacheBackend().delete(key);
+  } catch (error) {
+    logger.error('Cache invalidation failed', error as Error, { key });
+  }
+}
@@ -56,3 +56,35 @@ export function getDeviceInfo() {
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   };
 }
+
+/** Checked in order; more specific user agents first (Edge and Opera also say Chrome) */
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg(A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORM_PATTERNS: [RegExp, string][] = [
+  [/iPad/, 'iPad'],
+  [/iPhone|iPod/, 'iPhone'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Readable default name for a device, e.g. "Chrome บน Android"
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  const ua = userAgent || '';
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1];
+  const platform = PLATFORM_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1];
+
+  if (browser && platform) return `${browser} บน ${platform}`;
+  return browser || platform || 'อุปกรณ์ไม่ทราบชื่อ';
+}
@@ -0,0 +1,25 @@
+import type { GeoPosition } from '@/lib/athlete/geofence';
+
+/**
+ * Read the device position for check-in
+ * Resolves to null when geolocation is unavailable, denied or times out,
+ * so callers can still submit and let the server decide.
+ */
+export function getDevicePosition(timeoutMs = 10000): Promise<GeoPosition | null> {
+  if (typeof window === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
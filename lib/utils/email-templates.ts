@@ -0,0 +1,331 @@
+/**
+ * Email Templates
+ *
+ * Every email the system sends is rendered from a named, versioned template
+ * in Thai and English. A queued message records the template version it was
+ * created with, so retries render the same content after a template changes;
+ * new versions are appended to a template's list and the last one is used for
+ * new messages.
+ *
+ * Templates are paragraphs with {{variable}} placeholders and an optional
+ * button; the plain-text and HTML parts are both built from them, and
+ * variables are HTML-escaped in the HTML part.
+ */
+
+export const EMAIL_LOCALES = ['th', 'en'] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const EMAIL_LOCALE_LABELS: Record<EmailLocale, string> = {
+  th: 'ภาษาไทย',
+  en: 'English',
+};
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'th';
+
+export type EmailTemplateName =
+  | 'parent_verification'
+  | 'parent_password_reset'
+  | 'application_approved'
+  | 'application_rejected'
+  | 'progress_report_published'
+  | 'notification'
+  | 'test';
+
+export type EmailVariables = Record<string, string>;
+
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  /** Button below the paragraphs; url is the name of a variable */
+  action?: { label: string; url: string };
+}
+
+interface EmailTemplateVersion {
+  version: number;
+  /** Variables every render must be given */
+  variables: string[];
+  content: Record<EmailLocale, EmailContent>;
+}
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  version: number;
+  locale: EmailLocale;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const FOOTER: Record<EmailLocale, string> = {
+  th: 'อีเมลนี้ส่งจากระบบสโมสรกีฬาโดยอัตโนมัติ กรุณาอย่าตอบกลับ',
+  en: 'This email was sent automatically by the sports club system. Please do not reply.',
+};
+
+const EMAIL_TEMPLATES: Record<EmailTemplateName, EmailTemplateVersion[]> = {
+  parent_verification: [
+    {
+      version: 1,
+      variables: ['parentName', 'athleteName', 'verifyUrl'],
+      content: {
+        th: {
+          subject: 'ยืนยันอีเมลเพื่อติดตาม {{athleteName}}',
+          paragraphs: [
+            'เรียน คุณ{{parentName}}',
+            '{{athleteName}} ได้เพิ่มคุณเป็นผู้ปกครองในระบบสโมสรกีฬา กรุณายืนยันอีเมลและตั้งรหัสผ่านเพื่อรับรายงานความก้าวหน้าและการแจ้งเตือนของบุตรหลาน',
+            'ลิงก์นี้ใช้ได้ภายใน 7 วัน หากคุณไม่รู้จักนักกีฬาคนนี้ สามารถละเว้นอีเมลนี้ได้',
+          ],
+          action: { label: 'ยืนยันอีเมลและตั้งรหัสผ่าน', url: 'verifyUrl' },
+        },
+        en: {
+          subject: 'Confirm your email to follow {{athleteName}}',
+          paragraphs: [
+            'Dear {{parentName}},',
+            '{{athleteName}} has added you as a parent in the sports club system. Confirm your email and set a password to receive progress reports and notifications about your child.',
+            'This link is valid for 7 days. If you do not know this athlete, you can ignore this email.',
+          ],
+          action: { label: 'Confirm email and set password', url: 'verifyUrl' },
+        },
+      },
+    },
+  ],
+  parent_password_reset: [
+    {
+      version: 1,
+      variables: ['resetUrl', 'expiresInMinutes'],
+      content: {
+        th: {
+          subject: 'รีเซ็ตรหัสผ่านบัญชีผู้ปกครอง',
+          paragraphs: [
+            'เราได้รับคำขอรีเซ็ตรหัสผ่านสำหรับบัญชีผู้ปกครองของคุณ',
+            'ลิงก์นี้ใช้ได้ภายใน {{expiresInMinutes}} นาที หากคุณไม่ได้ขอรีเซ็ตรหัสผ่าน สามารถละเว้นอีเมลนี้ได้',
+          ],
+          action: { label: 'ตั้งรหัสผ่านใหม่', url: 'resetUrl' },
+        },
+        en: {
+          subject: 'Reset your parent account password',
+          paragraphs: [
+            'We received a request to reset the password of your parent account.',
+            'This link is valid for {{expiresInMinutes}} minutes. If you did not ask to reset your password, you can ignore this email.',
+          ],
+          action: { label: 'Set a new password', url: 'resetUrl' },
+        },
+      },
+    },
+  ],
+  application_approved: [
+    {
+      version: 1,
+      variables: ['applicantName', 'clubName', 'dashboardUrl'],
+      content: {
+        th: {
+          subject: 'ใบสมัครเข้าร่วม {{clubName}} ได้รับการอนุมัติแล้ว',
+          paragraphs: [
+            'เรียน คุณ{{applicantName}}',
+            'ยินดีด้วย! ใบสมัครของคุณเพื่อเข้าร่วม {{clubName}} ได้รับการอนุมัติแล้ว คุณสามารถเข้าสู่ระบบเพื่อดูตารางฝึกซ้อมและเช็คอินได้ทันที',
+          ],
+          action: { label: 'ไปที่แดชบอร์ด', url: 'dashboardUrl' },
+        },
+        en: {
+          subject: 'Your application to {{clubName}} was approved',
+          paragraphs: [
+            'Dear {{applicantName}},',
+            'Congratulations! Your application to join {{clubName}} has been approved. You can now sign in to see your training schedule and check in.',
+          ],
+          action: { label: 'Go to dashboard', url: 'dashboardUrl' },
+        },
+      },
+    },
+  ],
+  application_rejected: [
+    {
+      version: 1,
+      variables: ['applicantName', 'clubName', 'reason'],
+      content: {
+        th: {
+          subject: 'ผลการพิจารณาใบสมัครเข้าร่วม {{clubName}}',
+          paragraphs: [
+            'เรียน คุณ{{applicantName}}',
+            'ขออภัย ใบสมัครของคุณเพื่อเข้าร่วม {{clubName}} ไม่ได้รับการอนุมัติ',
+            'เหตุผล: {{reason}}',
+            'คุณสามารถแก้ไขข้อมูลและสมัครใหม่ได้ หรือติดต่อสโมสรหากมีข้อสงสัย',
+          ],
+        },
+        en: {
+          subject: 'Decision on your application to {{clubName}}',
+          paragraphs: [
+            'Dear {{applicantName}},',
+            'We are sorry, your application to join {{clubName}} was not approved.',
+            'Reason: {{reason}}',
+            'You can update your details and apply again, or contact the club if you have any questions.',
+          ],
+        },
+      },
+    },
+  ],
+  progress_report_published: [
+    {
+      version: 1,
+      variables: ['recipientName', 'title', 'message', 'reportUrl'],
+      content: {
+        th: {
+          subject: '{{title}}',
+          paragraphs: [
+            'เรียน คุณ{{recipientName}}',
+            '{{message}}',
+            'เปิดดูรายงานฉบับเต็มได้ในระบบ',
+          ],
+          action: { label: 'ดูรายงาน', url: 'reportUrl' },
+        },
+        en: {
+          subject: 'New progress report: {{title}}',
+          paragraphs: [
+            'Dear {{recipientName}},',
+            'A coach has published a new progress report.',
+            '{{message}}',
+          ],
+          action: { label: 'View report', url: 'reportUrl' },
+        },
+      },
+    },
+  ],
+  notification: [
+    {
+      version: 1,
+      variables: ['recipientName', 'title', 'message', 'url'],
+      content: {
+        th: {
+          subject: '{{title}}',
+          paragraphs: ['เรียน คุณ{{recipientName}}', '{{message}}'],
+          action: { label: 'เปิดในระบบ', url: 'url' },
+        },
+        en: {
+          subject: '{{title}}',
+          paragraphs: ['Dear {{recipientName}},', '{{message}}'],
+          action: { label: 'Open in the app', url: 'url' },
+        },
+      },
+    },
+  ],
+  test: [
+    {
+      version: 1,
+      variables: ['requestedBy'],
+      content: {
+        th: {
+          subject: 'ทดสอบการส่งอีเมล',
+          paragraphs: [
+            'อีเมลนี้เป็นการทดสอบการตั้งค่าการส่งอีเมลของระบบ ส่งโดย {{requestedBy}}',
+            'หากคุณได้รับอีเมลนี้ แสดงว่าการตั้งค่าถูกต้อง',
+          ],
+        },
+        en: {
+          subject: 'Email delivery test',
+          paragraphs: [
+            'This is a test of the system email settings, sent by {{requestedBy}}.',
+            'If you received this email, delivery is configured correctly.',
+          ],
+        },
+      },
+    },
+  ],
+};
+
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return (EMAIL_LOCALES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Version new messages of a template are rendered with
+ */
+export function latestTemplateVersion(name: EmailTemplateName): number {
+  const versions = EMAIL_TEMPLATES[name];
+  if (!versions) {
+    throw new Error(`Unknown email template: ${name}`);
+  }
+  return versions[versions.length - 1].version;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function interpolate(
+  source: string,
+  variables: EmailVariables,
+  escape: (value: string) => string = (value) => value
+): string {
+  return source.replace(/\{\{(\w+)\}\}/g, (_, name: string) => escape(variables[name] ?? ''));
+}
+
+/**
+ * Render a template in the given locale
+ * Throws when the template or version does not exist or a variable is missing.
+ */
+export function renderEmail(
+  name: EmailTemplateName,
+  locale: EmailLocale,
+  variables: EmailVariables,
+  version?: number
+): RenderedEmail {
+  const versions = EMAIL_TEMPLATES[name];
+  if (!versions) {
+    throw new Error(`Unknown email template: ${name}`);
+  }
+
+  const template =
+    version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((candidate) => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown version ${version} of email template ${name}`);
+  }
+
+  const missing = template.variables.filter((variable) => !variables[variable]);
+  if (missing.length > 0) {
+    throw new Error(`Email template ${name} is missing variables: ${missing.join(', ')}`);
+  }
+
+  const content = template.content[locale] ?? template.content[DEFAULT_EMAIL_LOCALE];
+  // Header lines cannot contain line breaks
+  const subject = interpolate(content.subject, variables).replace(/\s+/g, ' ').trim();
+  const paragraphs = content.paragraphs.map((paragraph) => interpolate(paragraph, variables));
+  const actionUrl = content.action ? variables[content.action.url] : null;
+
+  const text = [
+    ...paragraphs,
+    ...(content.action && actionUrl ? [`${content.action.label}: ${actionUrl}`] : []),
+    '--',
+    FOOTER[locale],
+  ].join('\n\n');
+
+  const htmlParagraphs = content.paragraphs
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 16px">${interpolate(paragraph, variables, escapeHtml).replace(/\n/g, '<br>')}</p>`
+    )
+    .join('\n');
+  const htmlAction =
+    content.action && actionUrl
+      ? `<p style="margin:24px 0"><a href="${escapeHtml(actionUrl)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block">${escapeHtml(content.action.label)}</a></p>`
+      : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;font-size:15px;line-height:1.6">
+${htmlParagraphs}
+${htmlAction}
+<p style="margin:32px 0 0;font-size:12px;color:#6b7280">${escapeHtml(FOOTER[locale])}</p>
+</div>
+</body>
+</html>`;
+
+  return { template: name, version: template.version, locale, subject, text, html };
+}
@@ -0,0 +1,505 @@
+/**
+ * Email Transports (server only)
+ *
+ * Messages are handed to a transport as a rendered email and sent as a
+ * multipart/alternative MIME message (plain text and HTML, UTF-8, base64
+ * bodies, RFC 2047 encoded headers). Three transports are available:
+ *
+ * - smtp: any SMTP relay (SendGrid, AWS SES, Postmark, ...). Uses implicit
+ *   TLS on port 465 or SMTP_SECURE=true, otherwise upgrades with STARTTLS
+ *   when the server offers it, and authenticates with AUTH PLAIN. Credentials
+ *   are never sent over an unencrypted connection.
+ * - file: writes each message as an .eml file to EMAIL_FILE_DIR, for local
+ *   development and tests.
+ * - console: logs each message, for local development.
+ *
+ * EMAIL_TRANSPORT selects the transport; without it, smtp is used when
+ * SMTP_HOST is set. The sender is EMAIL_FROM ("Name <address>" or an address).
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { hostname } from 'os';
+import { join } from 'path';
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls, type TLSSocket } from 'tls';
+
+/** SMTP servers must answer each command within this long */
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+/** Base64 and header lines are wrapped at this length (RFC 2045) */
+const MAX_LINE_LENGTH = 76;
+
+export type EmailTransportName = 'smtp' | 'file' | 'console';
+
+export interface EmailAddress {
+  email: string;
+  name?: string | null;
+}
+
+export interface OutgoingEmail {
+  from: EmailAddress;
+  to: EmailAddress;
+  subject: string;
+  text: string;
+  html: string;
+  /** Message-ID without angle brackets; generated when omitted */
+  messageId?: string;
+}
+
+export interface EmailSendResult {
+  accepted: boolean;
+  /** Last SMTP reply code, or null when no reply arrived */
+  code: number | null;
+  /** The server refused the message for good (5xx); retrying will not help */
+  permanent: boolean;
+  /** The server refused the recipient address for good (a hard bounce) */
+  recipientRejected: boolean;
+  messageId: string | null;
+  /** What the server said when it accepted the message, e.g. its queue id */
+  response: string | null;
+  error: string | null;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: OutgoingEmail): Promise<EmailSendResult>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465) */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Name sent with EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Parse "Name <address>" or a bare address
+ */
+export function parseEmailAddress(value: string): EmailAddress | null {
+  const match = value.trim().match(/^(?:"?([^"<]*?)"?\s*)?<([^<>\s]+@[^<>\s]+)>$/);
+  if (match) {
+    return { name: match[1]?.trim() || null, email: match[2] };
+  }
+  return /^[^<>\s@]+@[^<>\s@]+$/.test(value.trim()) ? { email: value.trim(), name: null } : null;
+}
+
+/**
+ * Header value as-is when it is printable ASCII, otherwise as UTF-8 encoded
+ * words (RFC 2047) that never split a character
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  // 75-character encoded words leave room for 45 bytes of UTF-8
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+    .join('\r\n ');
+}
+
+function formatAddress(address: EmailAddress): string {
+  if (!address.name) return `<${address.email}>`;
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/["\\]/g, '\\$&')}"`
+    : encodeHeaderValue(address.name);
+  return `${name} <${address.email}>`;
+}
+
+function base64Lines(value: string): string {
+  const encoded = Buffer.from(value, 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let index = 0; index < encoded.length; index += MAX_LINE_LENGTH) {
+    lines.push(encoded.slice(index, index + MAX_LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Message-ID for a message sent from the given address's domain
+ */
+export function createMessageId(from: EmailAddress, id: string = randomUUID()): string {
+  return `${id}@${from.email.split('@')[1] || 'localhost'}`;
+}
+
+/**
+ * The message as it is sent over SMTP, with CRLF line endings
+ */
+export function buildMimeMessage(
+  message: OutgoingEmail,
+  options: { date?: Date; boundary?: string } = {}
+): string {
+  const boundary = options.boundary ?? `=_${randomUUID().replace(/-/g, '')}`;
+  const messageId = message.messageId ?? createMessageId(message.from);
+
+  return [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code: number | null,
+    readonly stage: 'connect' | 'recipient' | 'other'
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Reads SMTP replies from a socket, joining multiline replies ("250-...")
+ */
+function readReplies(socket: Socket | TLSSocket) {
+  let buffer = '';
+  let pending: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  let failure: Error | null = null;
+
+  const settle = () => {
+    if (!waiting) return;
+    const current = waiting;
+    if (replies.length > 0) {
+      waiting = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiting = null;
+      current.reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      pending.push(line);
+      if (!/^\d{3}-/.test(line)) {
+        replies.push({
+          code: Number.parseInt(line.slice(0, 3), 10) || 0,
+          lines: pending.map((pendingLine) => pendingLine.slice(4)),
+        });
+        pending = [];
+      }
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure ??= error;
+    settle();
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+        settle();
+      });
+    },
+    /** Stop reading, before the socket is handed to TLS */
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host })
+      : connectTcp({ host: config.host, port: config.port });
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: Socket, host: string): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = connectTls({ socket, servername: host });
+    secure.once('secureConnect', () => {
+      secure.off('error', reject);
+      resolve(secure);
+    });
+    secure.once('error', reject);
+  });
+}
+
+/** Lines starting with a dot get another one so they do not end the DATA section */
+function dotStuff(mime: string): string {
+  return mime.replace(/^\./gm, '..');
+}
+
+/**
+ * Send one message over SMTP
+ * Throws SmtpError when the server refuses a command or the connection fails.
+ */
+async function sendSmtp(
+  config: SmtpConfig,
+  message: OutgoingEmail,
+  messageId: string
+): Promise<SmtpReply> {
+  let socket: Socket | TLSSocket = await openSocket(config).catch((error: Error) => {
+    throw new SmtpError(error.message, null, 'connect');
+  });
+  socket.setTimeout(config.timeoutMs ?? SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error('SMTP server did not answer in time'))
+  );
+
+  let replies = readReplies(socket);
+  let secure = config.secure;
+
+  const expect = async (
+    command: string | null,
+    codes: number[],
+    stage: SmtpError['stage'] = 'other'
+  ): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await replies.next();
+    if (!codes.includes(reply.code)) {
+      // The verb only, so credentials and message bodies stay out of the error
+      const verb = command === null ? 'greeting' : command.split(/[\s:]/)[0];
+      throw new SmtpError(`${verb}: ${reply.code} ${reply.lines.join(' ')}`, reply.code, stage);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220], 'connect');
+    const clientName = config.clientName ?? hostname();
+    let extensions = (await expect(`EHLO ${clientName}`, [250])).lines.map((line) =>
+      line.toUpperCase()
+    );
+
+    if (!secure && extensions.some((line) => line.startsWith('STARTTLS'))) {
+      await expect('STARTTLS', [220]);
+      replies.detach();
+      socket = await upgradeToTls(socket as Socket, config.host);
+      socket.setTimeout(config.timeoutMs ?? SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error('SMTP server did not answer in time'))
+      );
+      replies = readReplies(socket);
+      secure = true;
+      extensions = (await expect(`EHLO ${clientName}`, [250])).lines.map((line) =>
+        line.toUpperCase()
+      );
+    }
+
+    if (config.user) {
+      if (!secure) {
+        throw new SmtpError(
+          'SMTP server does not offer STARTTLS; refusing to send credentials',
+          null,
+          'other'
+        );
+      }
+      if (!extensions.some((line) => line.startsWith('AUTH') && line.includes('PLAIN'))) {
+        throw new SmtpError('SMTP server does not support AUTH PLAIN', null, 'other');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString(
+        'base64'
+      );
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await expect(`MAIL FROM:<${message.from.email}>`, [250]);
+    await expect(`RCPT TO:<${message.to.email}>`, [250, 251], 'recipient');
+    await expect('DATA', [354]);
+
+    // The message ends with CRLF, so the terminating dot is on a line of its own
+    socket.write(dotStuff(buildMimeMessage({ ...message, messageId })));
+    const accepted = await expect('.', [250]);
+
+    socket.write('QUIT\r\n');
+    return accepted;
+  } finally {
+    replies.detach();
+    // Errors while closing do not change the outcome
+    socket.on('error', () => undefined);
+    socket.end();
+  }
+}
+
+/**
+ * Transport that sends through an SMTP relay
+ */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = message.messageId ?? createMessageId(message.from);
+      try {
+        const reply = await sendSmtp(config, message, messageId);
+        return {
+          accepted: true,
+          code: reply.code,
+          permanent: false,
+          recipientRejected: false,
+          messageId,
+          response: reply.lines.join(' ') || null,
+          error: null,
+        };
+      } catch (error) {
+        const code = error instanceof SmtpError ? error.code : null;
+        const permanent = code !== null && code >= 500;
+        return {
+          accepted: false,
+          code,
+          permanent,
+          recipientRejected: permanent && error instanceof SmtpError && error.stage === 'recipient',
+          messageId,
+          response: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Transport that writes each message to `<dir>/<timestamp>-<message id>.eml`
+ */
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const messageId = message.messageId ?? createMessageId(message.from);
+      try {
+        await mkdir(dir, { recursive: true });
+        const fileName = `${Date.now()}-${messageId.replace(/[^\w.-]/g, '_')}.eml`;
+        await writeFile(join(dir, fileName), buildMimeMessage({ ...message, messageId }));
+        return {
+          accepted: true,
+          code: 250,
+          permanent: false,
+          recipientRejected: false,
+          messageId,
+          response: fileName,
+          error: null,
+        };
+      } catch (error) {
+        return {
+          accepted: false,
+          code: null,
+          permanent: false,
+          recipientRejected: false,
+          messageId,
+          response: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Transport that logs each message instead of sending it
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      const messageId = message.messageId ?? createMessageId(message.from);
+      console.info(
+        `[email] to ${message.to.email}: ${message.subject}\n${message.text}\n(Message-ID <${messageId}>)`
+      );
+      return {
+        accepted: true,
+        code: 250,
+        permanent: false,
+        recipientRejected: false,
+        messageId,
+        response: 'logged',
+        error: null,
+      };
+    },
+  };
+}
+
+/**
+ * Sender address from EMAIL_FROM, or null when it is not set or invalid
+ */
+export function getEmailSender(): EmailAddress | null {
+  const from = process.env.EMAIL_FROM;
+  return from ? parseEmailAddress(from) : null;
+}
+
+/**
+ * Transport configured by the environment, or null when email is not set up
+ */
+export function getEmailTransport(): EmailTransport | null {
+  const name = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : null);
+
+  switch (name) {
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) return null;
+      const port = Number.parseInt(process.env.SMTP_PORT || '587', 10);
+      return createSmtpTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      });
+    }
+    case 'file':
+      return createFileTransport(process.env.EMAIL_FILE_DIR || join(process.cwd(), '.emails'));
+    case 'console':
+      return createConsoleTransport();
+    default:
+      return null;
+  }
+}
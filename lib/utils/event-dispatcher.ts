@@ -0,0 +1,144 @@
+/**
+ * Event Dispatcher
+ *
+ * In-process subscriber registry for outbox events and the retry policy the
+ * outbox dispatcher (lib/admin/event-outbox.ts) follows. Delivery is
+ * at-least-once: a subscriber that fails is retried with exponential backoff
+ * until MAX_DELIVERY_ATTEMPTS, after which the event is dead-lettered.
+ * Subscribers that already succeeded are not called again, but handlers
+ * should still be idempotent on eventId.
+ */
+
+import type { EventEnvelope } from '@/lib/utils/event-publisher';
+
+export type EventHandler = (event: EventEnvelope<unknown>) => Promise<void> | void;
+
+export interface EventSubscriber {
+  /** Stable name; recorded in event_outbox.delivered_to, so don't rename lightly */
+  name: string;
+  /** Event types to receive, or '*' for all */
+  eventTypes: string[] | '*';
+  handler: EventHandler;
+}
+
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead_letter';
+
+export interface DeliveryFailure {
+  subscriber: string;
+  error: string;
+}
+
+export interface DeliveryOutcome {
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  delivered_to: string[];
+  delivered_at: string | null;
+  locked_at: null;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const subscribers = new Map<string, EventSubscriber>();
+
+/**
+ * Register a subscriber; registering the same name again replaces it
+ * @returns A function that removes the subscriber
+ */
+export function subscribeToEvents(
+  name: string,
+  eventTypes: string[] | '*',
+  handler: EventHandler
+): () => void {
+  subscribers.set(name, { name, eventTypes, handler });
+  return () => {
+    subscribers.delete(name);
+  };
+}
+
+export function getSubscribers(eventType: string): EventSubscriber[] {
+  return [...subscribers.values()].filter(
+    (subscriber) => subscriber.eventTypes === '*' || subscriber.eventTypes.includes(eventType)
+  );
+}
+
+export function clearSubscribers(): void {
+  subscribers.clear();
+}
+
+/**
+ * Wait before the given retry (1-based): 30s, 1m, 2m, 4m … capped at one hour
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Outbox row state after one delivery attempt
+ *
+ * @param row - Attempts so far and subscribers that already handled the event
+ * @param succeeded - Subscribers that handled the event in this attempt
+ * @param failures - Subscribers that threw in this attempt
+ */
+export function planDeliveryOutcome(
+  row: { attempts: number; delivered_to: string[] },
+  succeeded: string[],
+  failures: DeliveryFailure[],
+  now: Date = new Date()
+): DeliveryOutcome {
+  const attempts = row.attempts + 1;
+  const deliveredTo = [...new Set([...row.delivered_to, ...succeeded])];
+
+  if (failures.length === 0) {
+    return {
+      status: 'delivered',
+      attempts,
+      next_attempt_at: now.toISOString(),
+      last_error: null,
+      delivered_to: deliveredTo,
+      delivered_at: now.toISOString(),
+      locked_at: null,
+    };
+  }
+
+  const lastError = failures.map((failure) => `${failure.subscriber}: ${failure.error}`).join('; ');
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  return {
+    status: exhausted ? 'dead_letter' : 'pending',
+    attempts,
+    next_attempt_at: new Date(
+      now.getTime() + (exhausted ? 0 : retryDelayMs(attempts))
+    ).toISOString(),
+    last_error: lastError,
+    delivered_to: deliveredTo,
+    delivered_at: null,
+    locked_at: null,
+  };
+}
+
+/**
+ * Outbox row state for an event that does not match its schema
+ * Retrying cannot fix the payload, so it is dead-lettered straight away.
+ *
+ * @param errors - Validation errors, e.g. from validateEvent
+ */
+export function planInvalidEventOutcome(
+  row: { attempts: number; delivered_to: string[] },
+  errors: string[],
+  now: Date = new Date()
+): DeliveryOutcome {
+  return {
+    status: 'dead_letter',
+    attempts: row.attempts + 1,
+    next_attempt_at: now.toISOString(),
+    last_error: `Invalid event: ${errors.join('; ')}`,
+    delivered_to: row.delivered_to,
+    delivered_at: null,
+    locked_at: null,
+  };
+}
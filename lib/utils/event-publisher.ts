@@ -0,0 +1,103 @@
+/**
+ * Event Publisher
+ *
+ * Domain events (see events/EVENT_SCHEMA_REGISTRY.md) are written to the
+ * event_outbox table by database triggers, in the same transaction as the
+ * change that raises them (scripts/156-write-events-with-changes.sql). The
+ * outbox dispatcher (lib/admin/event-outbox.ts) validates them and delivers
+ * them to in-process subscribers with retries. One of those subscribers
+ * broadcasts on the Supabase Realtime `events` channel.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { generateCausationId, generateCorrelationId } from '@/lib/utils/correlation';
+
+export const EVENTS_CHANNEL = 'events';
+
+/** Event types written by the outbox triggers, one per schema in events/schemas */
+export const EVENT_TYPES = {
+  attendanceRecorded: 'org.club.training.attendance.recorded.v1',
+  sessionCreated: 'org.club.training.session.created.v1',
+  sessionCancelled: 'org.club.training.session.cancelled.v1',
+  applicationApproved: 'org.club.membership.application.approved.v1',
+  applicationRejected: 'org.club.membership.application.rejected.v1',
+  reportPublished: 'org.club.performance.report.published.v2',
+} as const;
+
+export interface EventEnvelope<T = Record<string, unknown>> {
+  eventId: string;
+  eventType: string;
+  timestamp: string;
+  correlationId: string;
+  causationId: string;
+  data: T;
+}
+
+let broadcastClient: SupabaseClient | null = null;
+
+function getBroadcastClient(): SupabaseClient {
+  if (!broadcastClient) {
+    broadcastClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+  }
+  return broadcastClient;
+}
+
+/**
+ * Wrap an event payload in the standard envelope
+ */
+export function buildEvent<T>(
+  eventType: string,
+  data: T,
+  correlationId?: string,
+  causationId?: string
+): EventEnvelope<T> {
+  return {
+    eventId: crypto.randomUUID(),
+    eventType,
+    timestamp: new Date().toISOString(),
+    correlationId: correlationId || generateCorrelationId(),
+    causationId: causationId || generateCausationId(),
+    data,
+  };
+}
+
+/**
+ * Broadcast an event to subscribers of the Realtime events channel
+ * Throws when the broadcast fails so the dispatcher can retry it.
+ */
+export async function broadcastEvent(event: EventEnvelope<unknown>): Promise<void> {
+  const response = await getBroadcastClient()
+    .channel(EVENTS_CHANNEL)
+    .httpSend(event.eventType, event);
+
+  if (!response.success) {
+    throw new Error(`Broadcast of ${event.eventType} failed (${response.status}): ${response.error}`);
+  }
+}
+
+/**
+ * Broadcast an event directly, bypassing the outbox
+ * For ephemeral signals only; domain events go through the outbox so they
+ * are validated and retried.
+ * @returns The published envelope, or null when the broadcast failed
+ */
+export async function publishEvent<T>(
+  eventType: string,
+  data: T,
+  correlationId?: string,
+  causationId?: string
+): Promise<EventEnvelope<T> | null> {
+  const event = buildEvent(eventType, data, correlationId, causationId);
+
+  try {
+    await broadcastEvent(event);
+    return event;
+  } catch (error) {
+    console.error(`Failed to publish ${eventType}:`, error);
+    return null;
+  }
+}
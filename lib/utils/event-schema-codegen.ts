@@ -0,0 +1,131 @@
+/**
+ * Event Type Generator
+ *
+ * Turns the event JSON Schemas into TypeScript payload types. The output is
+ * committed as types/events.generated.ts and kept current by the events
+ * contract test (`npm run events:generate` rewrites it).
+ */
+
+import type { JsonSchema } from '@/lib/utils/event-validator';
+
+const INDENT = '  ';
+
+/**
+ * Payload type name for an event type,
+ * e.g. org.club.training.attendance.recorded.v1 → TrainingAttendanceRecordedV1Data
+ */
+export function eventTypeName(eventType: string): string {
+  const name = eventType
+    .replace(/^org\.club\./, '')
+    .split(/[._-]/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `${name}Data`;
+}
+
+function docComment(text: string | undefined, indent: string): string {
+  if (!text) return '';
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n`;
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : JSON.stringify(value);
+}
+
+function objectType(schema: JsonSchema, depth: number): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) return 'Record<string, unknown>';
+
+  const indent = INDENT.repeat(depth + 1);
+  const required = new Set(schema.required ?? []);
+  const lines = properties.map(
+    ([key, property]) =>
+      `${docComment(property.description, indent)}${indent}${propertyKey(key)}${
+        required.has(key) ? '' : '?'
+      }: ${schemaType(property, depth + 1)};`
+  );
+  return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function singleType(type: string, schema: JsonSchema, depth: number): string {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return type;
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'array': {
+      const items = schema.items ? schemaType(schema.items, depth) : 'unknown';
+      return /^[\w<>, ]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+    }
+    case 'object':
+      return objectType(schema, depth);
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * TypeScript type for a schema node
+ */
+export function schemaType(schema: JsonSchema, depth = 0): string {
+  if (schema.const !== undefined) return literal(schema.const);
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (schema.enum) {
+    const values = schema.enum.map(literal);
+    if (types.includes('null') && !schema.enum.includes(null)) values.push('null');
+    return values.join(' | ');
+  }
+  if (types.length === 0) return 'unknown';
+
+  return [...new Set(types.map((type) => singleType(type, schema, depth)))].join(' | ');
+}
+
+/**
+ * Source of types/events.generated.ts
+ */
+export function generateEventTypes(schemas: JsonSchema[]): string {
+  const sorted = [...schemas].sort((a, b) => a.$id!.localeCompare(b.$id!));
+
+  const payloads = sorted.map((schema) => {
+    const data = schema.properties?.data ?? { type: 'object' };
+    const summary = [schema.$id, schema.description].filter(Boolean).join(': ');
+    return `${docComment(summary, '')}export type ${eventTypeName(schema.$id!)} = ${schemaType(data)};\n`;
+  });
+
+  const map = sorted
+    .map((schema) => `${INDENT}'${schema.$id}': ${eventTypeName(schema.$id!)};`)
+    .join('\n');
+
+  return [
+    '/**',
+    ' * Event payload types, generated from events/schemas. Do not edit by hand;',
+    ' * run `npm run events:generate` after changing a schema.',
+    ' */',
+    '',
+    "import type { EventEnvelope } from '@/lib/utils/event-publisher';",
+    '',
+    payloads.join('\n'),
+    '/** Payload type for each event type */',
+    'export interface EventPayloads {',
+    map,
+    '}',
+    '',
+    'export type EventType = keyof EventPayloads;',
+    '',
+    'export type TypedEvent<T extends EventType = EventType> = EventEnvelope<EventPayloads[T]> & {',
+    `${INDENT}eventType: T;`,
+    '};',
+    '',
+  ].join('\n');
+}
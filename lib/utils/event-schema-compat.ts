@@ -0,0 +1,113 @@
+/**
+ * Event Schema Compatibility
+ *
+ * A published schema version is a contract with every subscriber and webhook
+ * receiver, so within a version the set of valid events must not change. The
+ * only compatible edits are documentation (title, description, examples) and
+ * new optional properties; anything else needs a new version (…v2) alongside
+ * the old one.
+ */
+
+import type { JsonSchema } from '@/lib/utils/event-validator';
+
+/** Keywords that document a schema without changing which events are valid */
+const ANNOTATION_KEYWORDS = new Set([
+  '$schema',
+  '$comment',
+  'title',
+  'description',
+  'examples',
+  'default',
+]);
+
+/** Keywords compared structurally instead of by value */
+const STRUCTURAL_KEYWORDS = new Set(['properties', 'required', 'items']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameSet(a: unknown[] = [], b: unknown[] = []): boolean {
+  const left = new Set(a.map((value) => JSON.stringify(value)));
+  const right = new Set(b.map((value) => JSON.stringify(value)));
+  return left.size === right.size && [...left].every((value) => right.has(value));
+}
+
+/**
+ * Differences between two versions of a schema that would change which
+ * events are valid
+ *
+ * @returns One message per breaking change, prefixed with its JSON path
+ */
+export function findBreakingChanges(
+  previous: JsonSchema,
+  current: JsonSchema,
+  path = '$'
+): string[] {
+  const before = previous as Record<string, unknown>;
+  const after = current as Record<string, unknown>;
+  const changes: string[] = [];
+
+  const keywords = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const keyword of keywords) {
+    if (ANNOTATION_KEYWORDS.has(keyword) || STRUCTURAL_KEYWORDS.has(keyword)) continue;
+
+    const changed =
+      keyword === 'type' || keyword === 'enum'
+        ? !sameSet([before[keyword]].flat(), [after[keyword]].flat())
+        : !sameValue(before[keyword], after[keyword]);
+    if (changed) {
+      changes.push(
+        `${path}: "${keyword}" changed from ${JSON.stringify(before[keyword])} to ${JSON.stringify(after[keyword])}`
+      );
+    }
+  }
+
+  if (!sameSet(previous.required, current.required)) {
+    changes.push(
+      `${path}: required changed from ${JSON.stringify(previous.required ?? [])} to ${JSON.stringify(current.required ?? [])}`
+    );
+  }
+
+  for (const [key, schema] of Object.entries(previous.properties ?? {})) {
+    const next = current.properties?.[key];
+    if (!next) {
+      changes.push(`${path}.${key}: property removed`);
+    } else {
+      changes.push(...findBreakingChanges(schema, next, `${path}.${key}`));
+    }
+  }
+
+  if (previous.items && current.items) {
+    changes.push(...findBreakingChanges(previous.items, current.items, `${path}[]`));
+  } else if (previous.items || current.items) {
+    changes.push(`${path}: "items" ${previous.items ? 'removed' : 'added'}`);
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the published schemas with the current ones, keyed by $id
+ * New schemas (including new versions) are always compatible; removing a
+ * published version is not.
+ *
+ * @returns Breaking changes, each prefixed with the event type
+ */
+export function compareSchemaSets(
+  published: Record<string, JsonSchema>,
+  current: Record<string, JsonSchema>
+): string[] {
+  const changes: string[] = [];
+
+  for (const [eventType, schema] of Object.entries(published)) {
+    const next = current[eventType];
+    if (!next) {
+      changes.push(`${eventType}: schema removed`);
+      continue;
+    }
+    changes.push(...findBreakingChanges(schema, next).map((change) => `${eventType} ${change}`));
+  }
+
+  return changes;
+}
@@ -0,0 +1,189 @@
+/**
+ * Event Validator
+ *
+ * Validates event envelopes against the versioned JSON Schemas in
+ * events/schemas before the outbox dispatcher delivers them. Covers the
+ * subset of JSON Schema draft-07 the registry uses (type, required,
+ * properties, const, enum, format, minimum/maximum, minLength/maxLength,
+ * items); other keywords are ignored.
+ */
+
+import userRegistered from '@/events/schemas/auth/user.registered.v1.json';
+import userVerified from '@/events/schemas/auth/user.verified.v1.json';
+import authSessionCreated from '@/events/schemas/auth/session.created.v1.json';
+import authSessionEnded from '@/events/schemas/auth/session.ended.v1.json';
+import applicationSubmitted from '@/events/schemas/membership/application.submitted.v1.json';
+import applicationApproved from '@/events/schemas/membership/application.approved.v1.json';
+import applicationRejected from '@/events/schemas/membership/application.rejected.v1.json';
+import sessionCreated from '@/events/schemas/training/session.created.v1.json';
+import sessionUpdated from '@/events/schemas/training/session.updated.v1.json';
+import sessionCancelled from '@/events/schemas/training/session.cancelled.v1.json';
+import attendanceRecorded from '@/events/schemas/training/attendance.recorded.v1.json';
+import announcementPublished from '@/events/schemas/communication/announcement.published.v1.json';
+import notificationSent from '@/events/schemas/communication/notification.sent.v1.json';
+import recordCreated from '@/events/schemas/performance/record.created.v1.json';
+import reportPublished from '@/events/schemas/performance/report.published.v1.json';
+import reportPublishedV2 from '@/events/schemas/performance/report.published.v2.json';
+import type { EventType, TypedEvent } from '@/types/events.generated';
+
+export interface JsonSchema {
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  const?: unknown;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface EventValidationResult {
+  valid: boolean;
+  /** One message per failed rule, prefixed with the JSON path, e.g. "data.sessionId: must be a uuid" */
+  errors: string[];
+}
+
+const SCHEMAS = [
+  userRegistered,
+  userVerified,
+  authSessionCreated,
+  authSessionEnded,
+  applicationSubmitted,
+  applicationApproved,
+  applicationRejected,
+  sessionCreated,
+  sessionUpdated,
+  sessionCancelled,
+  attendanceRecorded,
+  announcementPublished,
+  notificationSent,
+  recordCreated,
+  reportPublished,
+  reportPublishedV2,
+] as JsonSchema[];
+
+/** Schemas keyed by event type ($id) */
+export const EVENT_SCHEMAS: ReadonlyMap<string, JsonSchema> = new Map(
+  SCHEMAS.map((schema) => [schema.$id!, schema])
+);
+
+const FORMATS: Record<string, RegExp> = {
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Check a value against a schema, collecting every failure
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: must be ${types.join(' or ')}`];
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    const pattern = schema.format ? FORMATS[schema.format] : undefined;
+    if (pattern && !pattern.test(value)) {
+      errors.push(`${path}: must be a ${schema.format}`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an event envelope against the schema registered for its type
+ */
+export function validateEvent(event: { eventType?: unknown }): EventValidationResult {
+  const schema =
+    typeof event.eventType === 'string' ? EVENT_SCHEMAS.get(event.eventType) : undefined;
+  if (!schema) {
+    return { valid: false, errors: [`$.eventType: no schema for ${String(event.eventType)}`] };
+  }
+
+  const errors = validateAgainstSchema(event, schema).map((error) => error.replace(/^\$\./, ''));
+  return { valid: errors.length === 0, errors };
+}
+
+export function validateEventSchema(event: { eventType?: unknown }): boolean {
+  return validateEvent(event).valid;
+}
+
+/**
+ * Narrow an incoming event (e.g. from a Realtime broadcast) to its generated type
+ */
+export function isEventOfType<T extends EventType>(
+  value: unknown,
+  eventType: T
+): value is TypedEvent<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { eventType?: unknown }).eventType === eventType &&
+    validateEvent(value).valid
+  );
+}
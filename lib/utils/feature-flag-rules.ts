@@ -0,0 +1,301 @@
+/**
+ * Feature Flag Targeting Rules
+ *
+ * Pure evaluation of a flag for one user, shared by the flag service, the
+ * admin API (to explain a decision) and tests. Rules are checked in order:
+ *
+ * 1. Kill switch (`enabled = false`) turns the flag off for everyone
+ * 2. Schedule window (`starts_at` / `ends_at`)
+ * 3. User deny list, then user allow list
+ * 4. Role and club targeting
+ * 5. Percentage rollout
+ *
+ * Every evaluation returns the rule that decided it and a readable reason.
+ */
+
+export const FEATURE_FLAG_ROLES = ['admin', 'coach', 'athlete', 'parent'] as const;
+
+export type FeatureFlagRole = (typeof FEATURE_FLAG_ROLES)[number];
+
+export interface FeatureFlagRules {
+  /** Only these roles get the flag (empty: every role) */
+  roles?: FeatureFlagRole[];
+  /** Only members of these clubs get the flag (empty: every club) */
+  club_ids?: string[];
+  /** Always enabled for these users while the flag is on and scheduled */
+  allow_user_ids?: string[];
+  /** Never enabled for these users */
+  deny_user_ids?: string[];
+  /** Enabled from this time (ISO 8601) */
+  starts_at?: string | null;
+  /** Disabled from this time (ISO 8601) */
+  ends_at?: string | null;
+}
+
+export interface EvaluableFeatureFlag {
+  name: string;
+  enabled: boolean;
+  rollout_percentage: number;
+  rules?: FeatureFlagRules | null;
+}
+
+/** What is known about the user a flag is evaluated for */
+export interface FeatureFlagContext {
+  userId: string;
+  role?: FeatureFlagRole | null;
+  clubId?: string | null;
+}
+
+export type FeatureFlagDecisionRule =
+  | 'missing'
+  | 'kill_switch'
+  | 'schedule'
+  | 'deny_list'
+  | 'allow_list'
+  | 'role'
+  | 'club'
+  | 'rollout';
+
+export interface FeatureFlagEvaluation {
+  flag: string;
+  enabled: boolean;
+  /** The rule that decided the result */
+  rule: FeatureFlagDecisionRule;
+  /** e.g. "enabled because club X is in the allowlist" */
+  reason: string;
+}
+
+/**
+ * Hash a user ID to a consistent number between 0-99
+ * This ensures the same user always gets the same bucket
+ */
+export function hashUserId(userId: string): number {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    const char = userId.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash) % 100;
+}
+
+/**
+ * Whether a flag uses role or club targeting, i.e. needs more than the user ID
+ */
+export function needsUserProfile(rules: FeatureFlagRules | null | undefined): boolean {
+  return Boolean(rules?.roles?.length || rules?.club_ids?.length);
+}
+
+/**
+ * Evaluate a flag for one user
+ *
+ * @param flag - Flag row, or null when it does not exist
+ * @param context - The user, with role and club when the flag targets them
+ * @param now - Evaluation time, for schedule windows
+ */
+export function evaluateFeatureFlag(
+  flag: EvaluableFeatureFlag | null,
+  context: FeatureFlagContext,
+  now: Date = new Date()
+): FeatureFlagEvaluation {
+  if (!flag) {
+    return {
+      flag: '',
+      enabled: false,
+      rule: 'missing',
+      reason: 'disabled because the flag does not exist',
+    };
+  }
+
+  const result = (enabled: boolean, rule: FeatureFlagDecisionRule, reason: string) => ({
+    flag: flag.name,
+    enabled,
+    rule,
+    reason: `${enabled ? 'enabled' : 'disabled'} because ${reason}`,
+  });
+  const rules = flag.rules ?? {};
+
+  if (!flag.enabled) {
+    return result(false, 'kill_switch', 'the flag is switched off');
+  }
+
+  if (rules.starts_at && now < new Date(rules.starts_at)) {
+    return result(false, 'schedule', `it is scheduled to start at ${rules.starts_at}`);
+  }
+  if (rules.ends_at && now >= new Date(rules.ends_at)) {
+    return result(false, 'schedule', `its schedule ended at ${rules.ends_at}`);
+  }
+
+  if (rules.deny_user_ids?.includes(context.userId)) {
+    return result(false, 'deny_list', `user ${context.userId} is in the denylist`);
+  }
+  if (rules.allow_user_ids?.includes(context.userId)) {
+    return result(true, 'allow_list', `user ${context.userId} is in the allowlist`);
+  }
+
+  // Targeting that matched, to explain an enabled result
+  const matched: string[] = [];
+  let targetingRule: FeatureFlagDecisionRule = 'rollout';
+  if (rules.roles?.length) {
+    if (!context.role || !rules.roles.includes(context.role)) {
+      return result(false, 'role', `role ${context.role ?? 'unknown'} is not targeted`);
+    }
+    matched.push(`role ${context.role} is targeted`);
+    targetingRule = 'role';
+  }
+  if (rules.club_ids?.length) {
+    if (!context.clubId || !rules.club_ids.includes(context.clubId)) {
+      return result(false, 'club', `club ${context.clubId ?? 'none'} is not in the allowlist`);
+    }
+    matched.push(`club ${context.clubId} is in the allowlist`);
+    targetingRule = 'club';
+  }
+
+  const targeted = matched.length > 0 ? matched.join(' and ') : 'the flag is on';
+  if (flag.rollout_percentage >= 100) {
+    return result(true, targetingRule, targeted);
+  }
+  const bucket = hashUserId(context.userId);
+  if (bucket < flag.rollout_percentage) {
+    return result(
+      true,
+      'rollout',
+      `${targeted} and rollout bucket ${bucket} is below ${flag.rollout_percentage}%`
+    );
+  }
+  return result(
+    false,
+    'rollout',
+    `rollout bucket ${bucket} is not below ${flag.rollout_percentage}%`
+  );
+}
+
+/**
+ * Whether a flag is on for every user: fully rolled out, inside its schedule
+ * window and not limited to particular users, roles or clubs
+ */
+export function isEnabledForEveryone(
+  flag: EvaluableFeatureFlag | null,
+  now: Date = new Date()
+): boolean {
+  if (!flag || flag.rollout_percentage < 100 || flag.rules?.deny_user_ids?.length) {
+    return false;
+  }
+  // An unknown user with no role or club only passes untargeted flags
+  return evaluateFeatureFlag(flag, { userId: '' }, now).enabled;
+}
+
+/** Flags evaluated for one user, sent to the browser (see FeatureFlagProvider) */
+export interface FeatureFlagBootstrap {
+  /** Who the flags were evaluated for: a user ID, `parent:<id>` or `anonymous` */
+  subject: string;
+  /** Flag name to whether it is enabled for the subject */
+  flags: Record<string, boolean>;
+  evaluatedAt: string;
+  /** Next schedule boundary, when a result may change without the flag being edited */
+  nextChangeAt: string | null;
+}
+
+/**
+ * Evaluate every flag for one user
+ * Only the results are included, never the rules, so allow and deny lists
+ * stay on the server.
+ *
+ * @param context - The user, or null for a visitor who is not signed in
+ */
+export function buildFeatureFlagBootstrap(
+  flags: EvaluableFeatureFlag[],
+  context: FeatureFlagContext | null,
+  subject: string,
+  now: Date = new Date()
+): FeatureFlagBootstrap {
+  const boundaries = flags
+    .filter((flag) => flag.enabled)
+    .flatMap((flag) => [flag.rules?.starts_at, flag.rules?.ends_at])
+    .filter((at): at is string => !!at && new Date(at) > now)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  return {
+    subject,
+    flags: Object.fromEntries(
+      flags.map((flag) => [
+        flag.name,
+        context ? evaluateFeatureFlag(flag, context, now).enabled : isEnabledForEveryone(flag, now),
+      ])
+    ),
+    evaluatedAt: now.toISOString(),
+    nextChangeAt: boundaries[0] ? new Date(boundaries[0]).toISOString() : null,
+  };
+}
+
+function stringList(value: unknown, field: string): string[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    return `${field} must be a list of strings`;
+  }
+  return Array.from(new Set(value.map((item: string) => item.trim()).filter(Boolean)));
+}
+
+function timestamp(value: unknown, field: string): string | null | { error: string } {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    return { error: `${field} must be an ISO 8601 date` };
+  }
+  return new Date(value).toISOString();
+}
+
+/**
+ * Validate rules sent by an admin and normalise them for storage
+ * Lists are trimmed and de-duplicated; dates become ISO strings.
+ */
+export function validateFeatureFlagRules(
+  input: unknown
+): { rules: FeatureFlagRules; error?: undefined } | { rules?: undefined; error: string } {
+  if (input === null || input === undefined) return { rules: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Rules must be an object' };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const lists: Record<'roles' | 'club_ids' | 'allow_user_ids' | 'deny_user_ids', string[]> = {
+    roles: [],
+    club_ids: [],
+    allow_user_ids: [],
+    deny_user_ids: [],
+  };
+  for (const field of Object.keys(lists) as (keyof typeof lists)[]) {
+    const list = stringList(raw[field], field);
+    if (typeof list === 'string') return { error: list };
+    lists[field] = list;
+  }
+
+  const unknownRole = lists.roles.find(
+    (role) => !(FEATURE_FLAG_ROLES as readonly string[]).includes(role)
+  );
+  if (unknownRole) {
+    return { error: `Unknown role: ${unknownRole}` };
+  }
+  const both = lists.allow_user_ids.find((id) => lists.deny_user_ids.includes(id));
+  if (both) {
+    return { error: `User ${both} cannot be in both the allowlist and the denylist` };
+  }
+
+  const startsAt = timestamp(raw.starts_at, 'starts_at');
+  if (startsAt && typeof startsAt === 'object') return { error: startsAt.error };
+  const endsAt = timestamp(raw.ends_at, 'ends_at');
+  if (endsAt && typeof endsAt === 'object') return { error: endsAt.error };
+  if (startsAt && endsAt && startsAt >= endsAt) {
+    return { error: 'starts_at must be before ends_at' };
+  }
+
+  return {
+    rules: {
+      ...(lists.roles.length ? { roles: lists.roles as FeatureFlagRole[] } : {}),
+      ...(lists.club_ids.length ? { club_ids: lists.club_ids } : {}),
+      ...(lists.allow_user_ids.length ? { allow_user_ids: lists.allow_user_ids } : {}),
+      ...(lists.deny_user_ids.length ? { deny_user_ids: lists.deny_user_ids } : {}),
+      ...(startsAt ? { starts_at: startsAt } : {}),
+      ...(endsAt ? { ends_at: endsAt } : {}),
+    },
+  };
+}
@@ -3,73 +3,148 @@
  * 
  * Provides feature flag management with:
  * - User-based percentage rollout
+ * - Targeting by role, club, user allow/deny lists and schedule
+ *   (see feature-flag-rules.ts)
  * - Caching for performance
  * - Kill-switch capability
+ * - Audit log entries for every change
  * 
  * Requirements: 20.8, 20.9
  */
 
 import { createClient } from '@/lib/supabase/server';
-import { cache, invalidatePattern } from './cache';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { AuditActionType } from '@/lib/audit/actions';
+import { createAuditLog } from '@/lib/audit/log';
+import { CACHE_TAGS, getCached, invalidateTags } from './cache';
+import {
+  buildFeatureFlagBootstrap,
+  evaluateFeatureFlag,
+  isEnabledForEveryone,
+  needsUserProfile,
+  validateFeatureFlagRules,
+  type FeatureFlagBootstrap,
+  type FeatureFlagContext,
+  type FeatureFlagEvaluation,
+  type FeatureFlagRules,
+} from './feature-flag-rules';
 
 export interface FeatureFlag {
   name: string;
   enabled: boolean;
   rollout_percentage: number;
+  rules: FeatureFlagRules;
   description: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
 /**
- * Hash a user ID to a consistent number between 0-99
- * This ensures the same user always gets the same bucket
+ * Get feature flag configuration from database with caching
  */
-function hashUserId(userId: string): number {
-  let hash = 0;
-  for (let i = 0; i < userId.length; i++) {
-    const char = userId.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash) % 100;
+async function getFeatureFlag(flagName: string): Promise<FeatureFlag | null> {
+  // Shared across instances and invalidated on every change (5 minute TTL)
+  return getCached(
+    `feature_flag:${flagName}`,
+    async () => {
+      // Only admins can read feature_flags; rules never leave the server
+      const supabase = createAdminClient();
+      const { data, error } = await supabase
+        .from('feature_flags')
+        .select('*')
+        .eq('name', flagName)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data as FeatureFlag;
+    },
+    {
+      ttl: 5 * 60 * 1000,
+      tags: [CACHE_TAGS.featureFlags, CACHE_TAGS.featureFlag(flagName)],
+    }
+  );
 }
 
 /**
- * Get feature flag configuration from database with caching
+ * Get every flag, cached like single flags
  */
-async function getFeatureFlag(flagName: string): Promise<FeatureFlag | null> {
-  const cacheKey = `feature_flag:${flagName}`;
-  
-  // Try to get from cache first (5 minute TTL)
-  const cached = cache.get<FeatureFlag>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  // Fetch from database
-  const supabase = await createClient();
-  const { data, error } = await supabase
-    .from('feature_flags')
-    .select('*')
-    .eq('name', flagName)
-    .single();
-  
-  if (error || !data) {
-    return null;
+async function getFeatureFlags(): Promise<FeatureFlag[]> {
+  return getCached('feature_flags:all', getAllFeatureFlags, {
+    ttl: 5 * 60 * 1000,
+    tags: [CACHE_TAGS.featureFlags, CACHE_TAGS.featureFlagList],
+    shouldCache: (flags) => flags.length > 0,
+  });
+}
+
+/**
+ * Load the role and club targeted flags need when the caller did not pass them
+ */
+async function resolveFlagContext(
+  flags: (FeatureFlag | null)[],
+  userId: string,
+  context: Omit<FeatureFlagContext, 'userId'>
+): Promise<FeatureFlagContext> {
+  const resolved: FeatureFlagContext = { userId, ...context };
+  if (
+    !flags.some((flag) => flag && needsUserProfile(flag.rules)) ||
+    (context.role && context.clubId !== undefined)
+  ) {
+    return resolved;
   }
-  
-  // Cache the result
-  cache.set(cacheKey, data, 300); // 5 minutes
-  
-  return data;
+
+  const supabase: UntypedClient = await createClient();
+  const [{ data: userRole }, { data: profile }] = await Promise.all([
+    context.role
+      ? Promise.resolve({ data: null })
+      : supabase.from('user_roles').select('role').eq('user_id', userId).maybeSingle(),
+    context.clubId !== undefined
+      ? Promise.resolve({ data: null })
+      : supabase.from('profiles').select('club_id').eq('id', userId).maybeSingle(),
+  ]);
+
+  return {
+    ...resolved,
+    role: context.role ?? userRole?.role ?? null,
+    clubId: context.clubId !== undefined ? context.clubId : (profile?.club_id ?? null),
+  };
+}
+
+/**
+ * Evaluate a feature flag for a user and explain the result
+ * 
+ * @param flagName - Feature flag name
+ * @param userId - User ID (parent_users ID for parents)
+ * @param context - Role and club, if known; looked up when the flag targets them
+ * @returns The result and the rule that decided it
+ * 
+ * @example
+ * ```typescript
+ * const { enabled, reason } = await explainFeatureFlag('home_training_v1', userId);
+ * // reason: "enabled because club 7f3c... is in the allowlist"
+ * ```
+ */
+export async function explainFeatureFlag(
+  flagName: string,
+  userId: string,
+  context: Omit<FeatureFlagContext, 'userId'> = {}
+): Promise<FeatureFlagEvaluation> {
+  const flag = await getFeatureFlag(flagName);
+  const evaluation = evaluateFeatureFlag(flag, await resolveFlagContext([flag], userId, context));
+  return { ...evaluation, flag: flagName };
 }
 
 /**
  * Check if a feature is enabled for a specific user
  * 
  * @param flagName - Feature flag name (e.g., 'attendance_qr_checkin_v1')
- * @param userId - User ID for percentage-based rollout
+ * @param userId - User ID for percentage-based rollout and user targeting
+ * @param context - Role and club, if known; saves a lookup for targeted flags
  * @returns true if feature is enabled for this user
  * 
  * @example
@@ -83,29 +158,10 @@ async function getFeatureFlag(flagName: string): Promise<FeatureFlag | null> {
  */
 export async function isFeatureEnabled(
   flagName: string,
-  userId: string
+  userId: string,
+  context: Omit<FeatureFlagContext, 'userId'> = {}
 ): Promise<boolean> {
-  // Get flag configuration
-  const flag = await getFeatureFlag(flagName);
-  
-  // If flag doesn't exist or is disabled, return false
-  if (!flag || !flag.enabled) {
-    return false;
-  }
-  
-  // If rollout is 100%, feature is enabled for everyone
-  if (flag.rollout_percentage >= 100) {
-    return true;
-  }
-  
-  // If rollout is 0%, feature is disabled for everyone
-  if (flag.rollout_percentage <= 0) {
-    return false;
-  }
-  
-  // Check if user falls within rollout percentage
-  const userBucket = hashUserId(userId);
-  return userBucket < flag.rollout_percentage;
+  return (await explainFeatureFlag(flagName, userId, context)).enabled;
 }
 
 /**
@@ -113,18 +169,60 @@ export async function isFeatureEnabled(
  * Use this for features that don't need gradual rollout
  * 
  * @param flagName - Feature flag name
- * @returns true if feature is enabled globally
+ * @returns true if feature is enabled globally: fully rolled out, in its
+ * schedule window and not targeted at particular users, roles or clubs
  */
 export async function isFeatureEnabledGlobal(flagName: string): Promise<boolean> {
-  const flag = await getFeatureFlag(flagName);
-  return flag?.enabled && flag.rollout_percentage >= 100 || false;
+  return isEnabledForEveryone(await getFeatureFlag(flagName));
+}
+
+/**
+ * Evaluate every flag for a user, to bootstrap FeatureFlagProvider
+ * 
+ * @param userId - User ID (parent_users ID for parents), or null when not signed in
+ * @param context - Role and club, if known; looked up when a flag targets them
+ */
+export async function getFeatureFlagBootstrap(
+  userId: string | null,
+  context: Omit<FeatureFlagContext, 'userId'> = {}
+): Promise<FeatureFlagBootstrap> {
+  const flags = await getFeatureFlags();
+  if (!userId) {
+    return buildFeatureFlagBootstrap(flags, null, 'anonymous');
+  }
+
+  const subject = context.role === 'parent' ? `parent:${userId}` : userId;
+  return buildFeatureFlagBootstrap(
+    flags,
+    await resolveFlagContext(flags, userId, context),
+    subject
+  );
+}
+
+/**
+ * Record a flag change in the audit log as the signed-in user
+ */
+async function auditFlagChange(
+  actionType: AuditActionType,
+  flagName: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Promise<void> {
+  await createAuditLog({
+    actionType,
+    entityType: 'feature_flag',
+    entityId: flagName,
+    before,
+    after,
+  });
 }
 
 /**
- * Get all feature flags (admin use)
+ * Get all feature flags (admin use, and evaluation on the server)
+ * Read with the service role: feature_flags is admin-only under RLS.
  */
 export async function getAllFeatureFlags(): Promise<FeatureFlag[]> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
   const { data, error } = await supabase
     .from('feature_flags')
     .select('*')
@@ -134,7 +232,7 @@ export async function getAllFeatureFlags(): Promise<FeatureFlag[]> {
     return [];
   }
   
-  return data;
+  return data as FeatureFlag[];
 }
 
 /**
@@ -142,9 +240,9 @@ export async function getAllFeatureFlags(): Promise<FeatureFlag[]> {
  */
 export async function updateFeatureFlag(
   flagName: string,
-  updates: Partial<Pick<FeatureFlag, 'enabled' | 'rollout_percentage' | 'description'>>
+  updates: Partial<Pick<FeatureFlag, 'enabled' | 'rollout_percentage' | 'description' | 'rules'>>
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase: UntypedClient = await createClient();
   
   // Validate rollout percentage
   if (updates.rollout_percentage !== undefined) {
@@ -155,12 +253,34 @@ export async function updateFeatureFlag(
       };
     }
   }
+
+  // Validate and normalise targeting rules
+  const changes: Record<string, unknown> = { ...updates };
+  if (updates.rules !== undefined) {
+    const validation = validateFeatureFlagRules(updates.rules);
+    if (validation.error !== undefined) {
+      return { success: false, error: validation.error };
+    }
+    changes.rules = validation.rules;
+  }
+
+  const { data: previous, error: fetchError } = await supabase
+    .from('feature_flags')
+    .select('*')
+    .eq('name', flagName)
+    .maybeSingle();
+
+  if (fetchError || !previous) {
+    return {
+      success: false,
+      error: fetchError?.message ?? `Feature flag ${flagName} not found`
+    };
+  }
   
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { error } = await supabase
     .from('feature_flags')
     .update({
-      ...updates,
+      ...changes,
       updated_at: new Date().toISOString()
     })
     .eq('name', flagName);
@@ -173,7 +293,9 @@ export async function updateFeatureFlag(
   }
   
   // Invalidate cache
-  cache.delete(`feature_flag:${flagName}`);
+  await invalidateTags([CACHE_TAGS.featureFlag(flagName), CACHE_TAGS.featureFlagList]);
+
+  await auditFlagChange('feature_flag.update', flagName, previous, changes);
   
   return { success: true };
 }
@@ -182,9 +304,9 @@ export async function updateFeatureFlag(
  * Create a new feature flag (admin use)
  */
 export async function createFeatureFlag(
-  flag: Omit<FeatureFlag, 'created_at' | 'updated_at'>
+  flag: Omit<FeatureFlag, 'created_at' | 'updated_at' | 'rules'> & { rules?: FeatureFlagRules }
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase: UntypedClient = await createClient();
   
   // Validate rollout percentage
   if (flag.rollout_percentage < 0 || flag.rollout_percentage > 100) {
@@ -193,11 +315,16 @@ export async function createFeatureFlag(
       error: 'Rollout percentage must be between 0 and 100'
     };
   }
+
+  const validation = validateFeatureFlagRules(flag.rules);
+  if (validation.error !== undefined) {
+    return { success: false, error: validation.error };
+  }
+  const row = { ...flag, rules: validation.rules };
   
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { error } = await supabase
     .from('feature_flags')
-    .insert(flag);
+    .insert(row);
   
   if (error) {
     return {
@@ -206,6 +333,11 @@ export async function createFeatureFlag(
     };
   }
   
+  // A missing flag is cached as null
+  await invalidateTags([CACHE_TAGS.featureFlag(flag.name), CACHE_TAGS.featureFlagList]);
+
+  await auditFlagChange('feature_flag.create', flag.name, null, row);
+  
   return { success: true };
 }
 
@@ -215,13 +347,14 @@ export async function createFeatureFlag(
 export async function deleteFeatureFlag(
   flagName: string
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase: UntypedClient = await createClient();
   
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { error } = await (supabase as any)
+  const { data: deleted, error } = await supabase
     .from('feature_flags')
     .delete()
-    .eq('name', flagName);
+    .eq('name', flagName)
+    .select()
+    .maybeSingle();
   
   if (error) {
     return {
@@ -231,7 +364,11 @@ export async function deleteFeatureFlag(
   }
   
   // Invalidate cache
-  cache.delete(`feature_flag:${flagName}`);
+  await invalidateTags([CACHE_TAGS.featureFlag(flagName), CACHE_TAGS.featureFlagList]);
+
+  if (deleted) {
+    await auditFlagChange('feature_flag.delete', flagName, deleted, null);
+  }
   
   return { success: true };
 }
@@ -239,7 +376,6 @@ export async function deleteFeatureFlag(
 /**
  * Clear all feature flag cache (admin use)
  */
-export function clearFeatureFlagCache(): void {
-  // Clear all cache entries starting with 'feature_flag:'
-  invalidatePattern('^feature_flag:');
+export async function clearFeatureFlagCache(): Promise<void> {
+  await invalidateTags([CACHE_TAGS.featureFlags]);
 }
@@ -0,0 +1,227 @@
+/**
+ * Leave Policy
+ *
+ * Per-club rules for athlete leave requests: how much notice is required, how
+ * many leaves an athlete may take per month and which reasons need a
+ * supporting document (e.g. a medical certificate). Stored as JSON in
+ * system_settings the same way as the attendance policy: `leave_policy` holds
+ * the system default and `leave_policy:<clubId>` overrides it for one club.
+ *
+ * Requests that satisfy every rule are approved automatically when the club
+ * enables auto-approval; anything else goes to the coach together with the
+ * rules it breaks.
+ */
+
+export const LEAVE_REASON_CATEGORIES = [
+  'sick',
+  'injury',
+  'family',
+  'school',
+  'travel',
+  'other',
+] as const;
+
+export type LeaveReasonCategory = (typeof LEAVE_REASON_CATEGORIES)[number];
+
+export const LEAVE_REASON_CATEGORY_LABELS: Record<LeaveReasonCategory, string> = {
+  sick: 'ป่วย',
+  injury: 'บาดเจ็บ',
+  family: 'ธุระครอบครัว',
+  school: 'เรียน/สอบ',
+  travel: 'เดินทาง',
+  other: 'อื่นๆ',
+};
+
+export interface LeavePolicy {
+  /** Hours before the session start that leave must be requested */
+  min_notice_hours: number;
+  /** Pending + approved leaves allowed per calendar month, null for no limit */
+  max_leaves_per_month: number | null;
+  /** Reason categories that must come with an attachment */
+  attachment_required_categories: LeaveReasonCategory[];
+  /** Approve requests that satisfy every rule without waiting for the coach */
+  auto_approve: boolean;
+}
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  min_notice_hours: 2,
+  max_leaves_per_month: null,
+  attachment_required_categories: [],
+  auto_approve: true,
+};
+
+export const LEAVE_POLICY_SETTING_KEY = 'leave_policy';
+
+/** Longest configurable notice period (one week) */
+const MAX_NOTICE_HOURS = 7 * 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type LeavePolicyRule = 'min_notice' | 'monthly_limit' | 'attachment_required';
+
+export interface LeavePolicyViolation {
+  rule: LeavePolicyRule;
+  message: string;
+}
+
+export interface LeaveRequestEvaluation {
+  violations: LeavePolicyViolation[];
+  /** Within policy and the club approves such requests automatically */
+  autoApprove: boolean;
+}
+
+/**
+ * system_settings key for a club's policy, or the system default when no club is given
+ */
+export function leavePolicySettingKey(clubId?: string | null): string {
+  return clubId ? `${LEAVE_POLICY_SETTING_KEY}:${clubId}` : LEAVE_POLICY_SETTING_KEY;
+}
+
+export function isLeaveReasonCategory(value: unknown): value is LeaveReasonCategory {
+  return (
+    typeof value === 'string' && (LEAVE_REASON_CATEGORIES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Merge stored policy layers over the defaults, later layers winning
+ * Fields with the wrong type (e.g. a hand-edited setting) are ignored.
+ */
+export function resolveLeavePolicy(...layers: unknown[]): LeavePolicy {
+  const policy: LeavePolicy = {
+    ...DEFAULT_LEAVE_POLICY,
+    attachment_required_categories: [...DEFAULT_LEAVE_POLICY.attachment_required_categories],
+  };
+
+  for (const layer of layers) {
+    if (!layer || typeof layer !== 'object') continue;
+    const values = layer as Record<string, unknown>;
+
+    if (typeof values.min_notice_hours === 'number' && Number.isFinite(values.min_notice_hours)) {
+      policy.min_notice_hours = values.min_notice_hours;
+    }
+
+    const maxLeaves = values.max_leaves_per_month;
+    if (maxLeaves === null || (typeof maxLeaves === 'number' && Number.isFinite(maxLeaves))) {
+      policy.max_leaves_per_month = maxLeaves;
+    }
+
+    if (Array.isArray(values.attachment_required_categories)) {
+      policy.attachment_required_categories = Array.from(
+        new Set(values.attachment_required_categories.filter(isLeaveReasonCategory))
+      );
+    }
+
+    if (typeof values.auto_approve === 'boolean') {
+      policy.auto_approve = values.auto_approve;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Resolve the system default and every club override from stored settings rows
+ */
+export function resolveLeavePolicies(settings: { setting_key: string; setting_value: unknown }[]): {
+  defaultPolicy: LeavePolicy;
+  clubPolicies: Record<string, LeavePolicy>;
+} {
+  const stored = new Map(settings.map((setting) => [setting.setting_key, setting.setting_value]));
+  const defaultPolicy = resolveLeavePolicy(stored.get(LEAVE_POLICY_SETTING_KEY));
+  const clubPolicies: Record<string, LeavePolicy> = {};
+
+  for (const [key, value] of stored) {
+    if (key.startsWith(`${LEAVE_POLICY_SETTING_KEY}:`)) {
+      const clubId = key.slice(LEAVE_POLICY_SETTING_KEY.length + 1);
+      clubPolicies[clubId] = resolveLeavePolicy(defaultPolicy, value);
+    }
+  }
+
+  return { defaultPolicy, clubPolicies };
+}
+
+/**
+ * Validate a policy before saving
+ * @returns Thai error message, or null when the policy is usable
+ */
+export function validateLeavePolicy(policy: LeavePolicy): string | null {
+  if (
+    !Number.isInteger(policy.min_notice_hours) ||
+    policy.min_notice_hours < 0 ||
+    policy.min_notice_hours > MAX_NOTICE_HOURS
+  ) {
+    return `ระยะเวลาแจ้งล่วงหน้าต้องเป็นจำนวนเต็มระหว่าง 0 ถึง ${MAX_NOTICE_HOURS} ชั่วโมง`;
+  }
+
+  if (
+    policy.max_leaves_per_month !== null &&
+    (!Number.isInteger(policy.max_leaves_per_month) ||
+      policy.max_leaves_per_month < 1 ||
+      policy.max_leaves_per_month > 31)
+  ) {
+    return 'จำนวนครั้งที่ลาได้ต่อเดือนต้องเป็นจำนวนเต็มระหว่าง 1 ถึง 31';
+  }
+
+  if (!policy.attachment_required_categories.every(isLeaveReasonCategory)) {
+    return 'ประเภทเหตุผลการลาไม่ถูกต้อง';
+  }
+
+  return null;
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of the calendar month a session falls in
+ */
+export function getLeaveMonthRange(sessionDate: string): { start: string; end: string } {
+  const [year, month] = sessionDate.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = `${year}-${String(month).padStart(2, '0')}`;
+  return { start: `${prefix}-01`, end: `${prefix}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Check a leave request against the club policy
+ *
+ * @param leavesThisMonth - The athlete's pending and approved leaves in the
+ *   session's month, not counting this request
+ */
+export function evaluateLeaveRequest(params: {
+  now: Date;
+  sessionDate: string;
+  startTime: string;
+  category: LeaveReasonCategory;
+  hasAttachment: boolean;
+  leavesThisMonth: number;
+  policy: LeavePolicy;
+}): LeaveRequestEvaluation {
+  const { policy } = params;
+  const violations: LeavePolicyViolation[] = [];
+
+  const start = new Date(`${params.sessionDate}T${params.startTime}`).getTime();
+  if (start - params.now.getTime() < policy.min_notice_hours * HOUR_MS) {
+    violations.push({
+      rule: 'min_notice',
+      message: `ต้องแจ้งลาล่วงหน้าอย่างน้อย ${policy.min_notice_hours} ชั่วโมงก่อนเวลาเริ่ม`,
+    });
+  }
+
+  if (
+    policy.max_leaves_per_month !== null &&
+    params.leavesThisMonth >= policy.max_leaves_per_month
+  ) {
+    violations.push({
+      rule: 'monthly_limit',
+      message: `ลาได้ไม่เกิน ${policy.max_leaves_per_month} ครั้งต่อเดือน (เดือนนี้ลาไปแล้ว ${params.leavesThisMonth} ครั้ง)`,
+    });
+  }
+
+  if (policy.attachment_required_categories.includes(params.category) && !params.hasAttachment) {
+    violations.push({
+      rule: 'attachment_required',
+      message: `การลาประเภท "${LEAVE_REASON_CATEGORY_LABELS[params.category]}" ต้องแนบเอกสารประกอบ (เช่น ใบรับรองแพทย์)`,
+    });
+  }
+
+  return { violations, autoApprove: violations.length === 0 && policy.auto_approve };
+}
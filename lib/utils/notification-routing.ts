@@ -0,0 +1,163 @@
+/**
+ * Notification Channel Routing
+ *
+ * Every notification belongs to a category the recipient can route to any of
+ * the channels open to them: athletes, coaches and admins get in-app, push,
+ * email and the periodic digest; parents (who have no in-app inbox or push
+ * devices) get email and the digest. Categories without a saved preference
+ * use the defaults below. Quiet hours hold push and email until they end.
+ * Safe to import from client components.
+ */
+
+import { quietHoursEndAt, type QuietHours } from '@/lib/utils/quiet-hours';
+
+export const NOTIFICATION_CHANNELS = ['in_app', 'push', 'email', 'digest'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'ในแอป',
+  push: 'Push',
+  email: 'อีเมล',
+  digest: 'สรุปรายงาน',
+};
+
+export const NOTIFICATION_CATEGORIES = [
+  'session_cancelled',
+  'leave_reviewed',
+  'report_published',
+  'tournament_selection',
+  'announcement',
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<
+  NotificationCategory,
+  { label: string; description: string }
+> = {
+  session_cancelled: { label: 'ยกเลิกการฝึกซ้อม', description: 'เมื่อโค้ชยกเลิกตารางฝึก' },
+  leave_reviewed: { label: 'ผลคำขอลา', description: 'เมื่อคำขอลาได้รับอนุมัติหรือถูกปฏิเสธ' },
+  report_published: { label: 'รายงานความก้าวหน้า', description: 'เมื่อโค้ชเผยแพร่รายงานใหม่' },
+  tournament_selection: {
+    label: 'การคัดเลือกทัวร์นาเมนต์',
+    description: 'เมื่อได้รับเลือกเข้าร่วมทัวร์นาเมนต์',
+  },
+  announcement: { label: 'ประกาศ', description: 'เมื่อมีประกาศจากสโมสร' },
+};
+
+export type RecipientKind = 'user' | 'parent';
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+/** Routing when the recipient has not saved a preference for the category */
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationCategory, ChannelPreferences> = {
+  session_cancelled: { in_app: true, push: true, email: true, digest: false },
+  leave_reviewed: { in_app: true, push: true, email: false, digest: true },
+  report_published: { in_app: true, push: true, email: true, digest: true },
+  tournament_selection: { in_app: true, push: true, email: true, digest: false },
+  announcement: { in_app: true, push: true, email: false, digest: true },
+};
+
+/** Channels a recipient can receive at all */
+export function channelsFor(kind: RecipientKind): NotificationChannel[] {
+  return kind === 'parent' ? ['email', 'digest'] : [...NOTIFICATION_CHANNELS];
+}
+
+/**
+ * Category of a notifications row; null for types that are not routed
+ * (they use in-app and push as before)
+ * Mirrors notification_category() in scripts/153-create-notification-routing.sql,
+ * which also maps the parent_notifications types.
+ */
+export function categoryForNotificationType(type: string): NotificationCategory | null {
+  switch (type) {
+    case 'schedule_cancelled':
+      return 'session_cancelled';
+    case 'leave_approved':
+    case 'leave_rejected':
+      return 'leave_reviewed';
+    case 'report_published':
+      return 'report_published';
+    case 'tournament_selection':
+      return 'tournament_selection';
+    case 'announcement':
+      return 'announcement';
+    default:
+      return null;
+  }
+}
+
+/** Saved preference for a category, or the default */
+export function resolveChannelPreferences(
+  category: NotificationCategory | null,
+  saved: Partial<ChannelPreferences> | null | undefined
+): ChannelPreferences {
+  const defaults: ChannelPreferences = category
+    ? DEFAULT_CHANNEL_PREFERENCES[category]
+    : { in_app: true, push: true, email: false, digest: false };
+  return { ...defaults, ...saved };
+}
+
+export type ChannelPreferenceMatrix = Record<NotificationCategory, ChannelPreferences>;
+
+/**
+ * Every category's channels from the saved rows, defaults for the rest
+ * Rows for unknown categories are ignored.
+ */
+export function buildPreferenceMatrix(
+  saved: (Partial<ChannelPreferences> & { category: string })[]
+): ChannelPreferenceMatrix {
+  const matrix = {} as ChannelPreferenceMatrix;
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const row = saved.find((candidate) => candidate.category === category);
+    const channels = row
+      ? Object.fromEntries(
+          NOTIFICATION_CHANNELS.filter((channel) => typeof row[channel] === 'boolean').map(
+            (channel) => [channel, row[channel]]
+          )
+        )
+      : null;
+    matrix[category] = resolveChannelPreferences(category, channels);
+  }
+  return matrix;
+}
+
+export type ChannelDecisionStatus = 'delivered' | 'queued' | 'skipped';
+
+export interface ChannelDecision {
+  channel: NotificationChannel;
+  /** delivered: shown in-app; queued: handed to the channel's sender; skipped: not sent */
+  status: ChannelDecisionStatus;
+  /** Earliest send time when quiet hours hold the channel back */
+  notBefore: Date | null;
+  detail: string | null;
+}
+
+/**
+ * Decide, per channel, what happens to one notification
+ * In-app is recorded as delivered when enabled (the row is the delivery).
+ * Push and email wait for quiet hours to end; the digest collects
+ * notifications for a later summary so quiet hours do not apply.
+ */
+export function planNotificationRoute(
+  kind: RecipientKind,
+  preferences: ChannelPreferences,
+  quietHours: QuietHours | null,
+  now: Date = new Date()
+): ChannelDecision[] {
+  const resumeAt = quietHoursEndAt(now, quietHours);
+
+  return channelsFor(kind).map((channel): ChannelDecision => {
+    if (!preferences[channel]) {
+      return { channel, status: 'skipped', notBefore: null, detail: 'ปิดช่องทางนี้ไว้' };
+    }
+    if (channel === 'in_app') {
+      return { channel, status: 'delivered', notBefore: null, detail: null };
+    }
+    if ((channel === 'push' || channel === 'email') && resumeAt) {
+      return { channel, status: 'queued', notBefore: resumeAt, detail: 'ช่วงเวลาห้ามรบกวน' };
+    }
+    return { channel, status: 'queued', notBefore: null, detail: null };
+  });
+}
@@ -4,7 +4,7 @@
  */
 
 const DB_NAME = 'sports-club-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 // Store names
 export const STORES = {
@@ -13,6 +13,11 @@ export const STORES = {
   ATTENDANCE: 'attendance',
   ANNOUNCEMENTS: 'announcements',
   PERFORMANCE: 'performance',
+  FEATURE_FLAGS: 'feature-flags',
+  /** Coach attendance sheets (session + roster), keyed by session ID */
+  ATTENDANCE_SHEETS: 'attendance-sheets',
+  /** Offline attendance marks the server did not apply as sent */
+  ATTENDANCE_CONFLICTS: 'attendance-conflicts',
 } as const;
 
 type StoreName = (typeof STORES)[keyof typeof STORES];
@@ -0,0 +1,373 @@
+/**
+ * Parent Report Building
+ *
+ * Works out the reporting periods (Monday-Sunday weeks and calendar months in
+ * the club's time zone), turns an athlete's attendance, test results, goals
+ * and coach feedback for a period into the statistics stored in
+ * parent_reports, and compares a report with the one for the period before.
+ * Pure so the scheduled generator stays testable without a database; safe to
+ * import from client components.
+ */
+
+import { calculateAttendanceRate, type AttendancePolicy } from '@/lib/utils/attendance-policy';
+
+export const PARENT_REPORT_TYPES = ['weekly', 'monthly'] as const;
+
+export type ParentReportType = (typeof PARENT_REPORT_TYPES)[number];
+
+export const PARENT_REPORT_TYPE_LABELS: Record<ParentReportType, string> = {
+  weekly: 'รายสัปดาห์',
+  monthly: 'รายเดือน',
+};
+
+/** Which report a parent is sent; every report is still kept for the dashboard */
+export const REPORT_FREQUENCIES = ['weekly', 'monthly', 'off'] as const;
+
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  weekly: 'ทุกสัปดาห์',
+  monthly: 'ทุกเดือน',
+  off: 'ไม่ส่ง (ดูได้ใน Dashboard)',
+};
+
+export const REPORT_TIMEZONE = 'Asia/Bangkok';
+
+/**
+ * The report that collects a parent's digest notifications: the one they
+ * are sent, or the weekly report on the dashboard when they are sent none
+ */
+export function digestReportType(frequency: ReportFrequency): ParentReportType {
+  return frequency === 'monthly' ? 'monthly' : 'weekly';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Units whose lower scores are better (times) */
+const LOWER_IS_BETTER_UNITS = ['วินาที', 'นาที', 'second', 'minute', 'sec', 'min'];
+
+export interface ReportPeriod {
+  /** YYYY-MM-DD, inclusive */
+  start: string;
+  end: string;
+}
+
+export interface ReportAttendanceRow {
+  status: string;
+  session_date: string;
+  coach_feedback: string | null;
+}
+
+export interface ReportPerformanceRow {
+  test_name: string;
+  score: number;
+  unit: string;
+  test_date: string;
+  coach_notes: string | null;
+}
+
+export interface ReportGoalRow {
+  title: string;
+  status: string;
+  progress_percentage: number | null;
+  completed_at: string | null;
+}
+
+export interface ReportCoachComment {
+  date: string;
+  text: string;
+}
+
+export interface ReportTestResult {
+  test_name: string;
+  score: number;
+  unit: string;
+  test_date: string;
+  /** The athlete's previous score on the same test, before this one */
+  previous_score: number | null;
+  improved: boolean | null;
+}
+
+export interface ReportFeedback {
+  date: string;
+  source: 'attendance' | 'performance' | 'progress_report';
+  text: string;
+}
+
+export interface ReportDigestItem {
+  title: string;
+  message: string;
+  created_at: string;
+}
+
+/** parent_reports.report_data */
+export interface ParentReportData {
+  late_sessions: number;
+  excused_sessions: number;
+  tests: ReportTestResult[];
+  goals: { title: string; status: string; progress_percentage: number }[];
+  feedback: ReportFeedback[];
+  /** Notifications the parent chose to receive in the digest instead of by email */
+  digest: ReportDigestItem[];
+}
+
+/** The columns of a parent_reports row that the generator fills in */
+export interface ParentReportStats {
+  total_sessions: number;
+  attended_sessions: number;
+  attendance_rate: number;
+  absent_sessions: number;
+  leave_requests: number;
+  performance_tests: number;
+  performance_improvements: number;
+  active_goals: number;
+  completed_goals: number;
+  coach_feedback: string | null;
+  report_data: ParentReportData;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Midnight UTC of the calendar date it is at `now` in a time zone */
+function localDate(now: Date, timezone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day')));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a date or timestamp in the report time zone
+ */
+export function reportDay(value: string, timezone: string = REPORT_TIMEZONE): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? value
+    : toDateString(localDate(new Date(value), timezone));
+}
+
+/**
+ * The most recent period of a type that has ended by `now`: last week
+ * (Monday to Sunday) or last calendar month
+ */
+export function latestCompletedPeriod(
+  type: ParentReportType,
+  now: Date,
+  timezone: string = REPORT_TIMEZONE
+): ReportPeriod {
+  const today = localDate(now, timezone);
+
+  if (type === 'weekly') {
+    const monday = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+    return {
+      start: toDateString(new Date(monday.getTime() - 7 * DAY_MS)),
+      end: toDateString(new Date(monday.getTime() - DAY_MS)),
+    };
+  }
+
+  return {
+    start: toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1))),
+    end: toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0))),
+  };
+}
+
+function lowerIsBetter(unit: string): boolean {
+  const normalized = unit.toLowerCase();
+  return LOWER_IS_BETTER_UNITS.some((candidate) => normalized.startsWith(candidate));
+}
+
+/**
+ * Test results in the period, each compared with the athlete's previous
+ * score on the same test. Higher scores are better except for times.
+ *
+ * @param history - The athlete's results up to the end of the period, any order
+ */
+export function compareTestResults(
+  history: ReportPerformanceRow[],
+  period: ReportPeriod
+): ReportTestResult[] {
+  const sorted = [...history].sort((a, b) => a.test_date.localeCompare(b.test_date));
+  const lastScore = new Map<string, number>();
+  const results: ReportTestResult[] = [];
+
+  for (const record of sorted) {
+    if (record.test_date > period.end) continue;
+    const previous = lastScore.get(record.test_name) ?? null;
+
+    if (record.test_date >= period.start) {
+      const improved =
+        previous === null
+          ? null
+          : lowerIsBetter(record.unit)
+            ? record.score < previous
+            : record.score > previous;
+      results.push({
+        test_name: record.test_name,
+        score: record.score,
+        unit: record.unit,
+        test_date: record.test_date,
+        previous_score: previous,
+        improved,
+      });
+    }
+    lastScore.set(record.test_name, record.score);
+  }
+
+  return results;
+}
+
+/**
+ * Statistics for one athlete and period
+ * Rows outside the period are ignored, except earlier test results, which
+ * are what new results are compared with.
+ */
+export function buildParentReportStats(params: {
+  period: ReportPeriod;
+  policy: AttendancePolicy;
+  attendance: ReportAttendanceRow[];
+  /** requested_at of the athlete's leave requests */
+  leaveRequestedAt: string[];
+  performance: ReportPerformanceRow[];
+  goals: ReportGoalRow[];
+  coachComments: ReportCoachComment[];
+  digest?: ReportDigestItem[];
+}): ParentReportStats {
+  const { period, policy } = params;
+  const inPeriod = (date: string) => {
+    const day = reportDay(date);
+    return day >= period.start && day <= period.end;
+  };
+
+  const attendance = params.attendance.filter((row) => inPeriod(row.session_date));
+  const count = (status: string) => attendance.filter((row) => row.status === status).length;
+  const present = count('present');
+  const late = count('late');
+  const total = attendance.length;
+
+  const tests = compareTestResults(params.performance, period);
+  const completed = params.goals.filter(
+    (goal) => goal.status === 'completed' && goal.completed_at && inPeriod(goal.completed_at)
+  );
+  const active = params.goals.filter((goal) => goal.status === 'active');
+
+  const feedback: ReportFeedback[] = [
+    ...attendance
+      .filter((row) => row.coach_feedback?.trim())
+      .map((row) => ({
+        date: row.session_date,
+        source: 'attendance' as const,
+        text: row.coach_feedback!.trim(),
+      })),
+    ...params.performance
+      .filter((row) => inPeriod(row.test_date) && row.coach_notes?.trim())
+      .map((row) => ({
+        date: row.test_date,
+        source: 'performance' as const,
+        text: row.coach_notes!.trim(),
+      })),
+    ...params.coachComments
+      .filter((comment) => inPeriod(comment.date) && comment.text.trim())
+      .map((comment) => ({
+        date: reportDay(comment.date),
+        source: 'progress_report' as const,
+        text: comment.text.trim(),
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    total_sessions: total,
+    attended_sessions: present + (policy.count_late_as_present ? late : 0),
+    attendance_rate: calculateAttendanceRate({ present, late, total }, policy),
+    absent_sessions: count('absent'),
+    leave_requests: params.leaveRequestedAt.filter(inPeriod).length,
+    performance_tests: tests.length,
+    performance_improvements: tests.filter((test) => test.improved).length,
+    active_goals: active.length,
+    completed_goals: completed.length,
+    coach_feedback: feedback.length > 0 ? feedback.map((item) => item.text).join('\n') : null,
+    report_data: {
+      late_sessions: late,
+      excused_sessions: count('excused'),
+      tests,
+      goals: [...active, ...completed].map((goal) => ({
+        title: goal.title,
+        status: goal.status,
+        progress_percentage: goal.progress_percentage ?? 0,
+      })),
+      feedback,
+      digest: params.digest ?? [],
+    },
+  };
+}
+
+export const COMPARED_REPORT_FIELDS = [
+  'attendance_rate',
+  'attended_sessions',
+  'absent_sessions',
+  'performance_tests',
+  'performance_improvements',
+  'completed_goals',
+  'active_goals',
+] as const;
+
+export type ComparedReportField = (typeof COMPARED_REPORT_FIELDS)[number];
+
+export type ReportComparison = Record<ComparedReportField, number>;
+
+/**
+ * Change of each compared figure since the previous period's report, or
+ * null when there is none
+ */
+export function compareParentReports(
+  current: Pick<ParentReportStats, ComparedReportField>,
+  previous: Pick<ParentReportStats, ComparedReportField> | null
+): ReportComparison | null {
+  if (!previous) return null;
+
+  const comparison = {} as ReportComparison;
+  for (const field of COMPARED_REPORT_FIELDS) {
+    comparison[field] =
+      Math.round((Number(current[field] ?? 0) - Number(previous[field] ?? 0)) * 10) / 10;
+  }
+  return comparison;
+}
+
+/**
+ * Summary sent with a new report; sections the parent switched off are left out
+ */
+export function summarizeParentReport(
+  stats: Pick<
+    ParentReportStats,
+    | 'total_sessions'
+    | 'attended_sessions'
+    | 'attendance_rate'
+    | 'performance_tests'
+    | 'performance_improvements'
+    | 'active_goals'
+    | 'completed_goals'
+  >,
+  sections: { notify_attendance: boolean; notify_performance: boolean; notify_goals: boolean }
+): string {
+  const lines: string[] = [];
+  if (sections.notify_attendance) {
+    lines.push(
+      stats.total_sessions > 0
+        ? `เข้าฝึก ${stats.attended_sessions}/${stats.total_sessions} ครั้ง (${stats.attendance_rate}%)`
+        : 'ไม่มีการฝึกซ้อมในช่วงนี้'
+    );
+  }
+  if (sections.notify_performance && stats.performance_tests > 0) {
+    lines.push(
+      `ทดสอบสมรรถภาพ ${stats.performance_tests} ครั้ง ดีขึ้น ${stats.performance_improvements} รายการ`
+    );
+  }
+  if (sections.notify_goals) {
+    lines.push(`เป้าหมายที่กำลังทำ ${stats.active_goals} สำเร็จ ${stats.completed_goals}`);
+  }
+  return lines.join(' · ');
+}
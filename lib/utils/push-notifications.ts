@@ -1,8 +1,14 @@
 /**
  * Push Notifications Utility
  * Handles web push notification subscriptions and delivery
+ *
+ * Each device (browser) has its own subscription, keyed on the device
+ * fingerprint, so subscribing or unsubscribing here leaves the user's other
+ * devices alone.
  */
 
+import { getDeviceInfo } from '@/lib/utils/device-fingerprint';
+
 const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
 
 /**
@@ -92,9 +98,11 @@ export async function subscribeToPushNotifications(): Promise<PushSubscription |
 }
 
 /**
- * Unsubscribe from push notifications
+ * Unsubscribe this device from push notifications
+ * When a user ID is given, this device's subscription is also removed from
+ * the server; the user's other devices keep theirs.
  */
-export async function unsubscribeFromPushNotifications(): Promise<boolean> {
+export async function unsubscribeFromPushNotifications(userId?: string): Promise<boolean> {
   if (!isPushNotificationSupported()) {
     return false;
   }
@@ -104,7 +112,11 @@ export async function unsubscribeFromPushNotifications(): Promise<boolean> {
     const subscription = await registration.pushManager.getSubscription();
 
     if (subscription) {
+      const endpoint = subscription.endpoint;
       await subscription.unsubscribe();
+      if (userId) {
+        await removePushSubscription(userId, endpoint);
+      }
       return true;
     }
 
@@ -133,12 +145,13 @@ export async function getPushSubscription(): Promise<PushSubscription | null> {
 }
 
 /**
- * Save push subscription to server
+ * Save this device's push subscription to server
  */
 export async function savePushSubscription(
   subscription: PushSubscription,
   userId: string
 ): Promise<void> {
+  const { deviceId, ...deviceInfo } = getDeviceInfo();
   const response = await fetch('/api/notifications/subscribe', {
     method: 'POST',
     headers: {
@@ -147,6 +160,8 @@ export async function savePushSubscription(
     body: JSON.stringify({
       subscription,
       userId,
+      deviceId,
+      deviceInfo,
     }),
   });
 
@@ -156,15 +171,17 @@ export async function savePushSubscription(
 }
 
 /**
- * Remove push subscription from server
+ * Remove this device's push subscription from server
+ * @param endpoint - The browser subscription's endpoint, which also matches it
+ * if the device fingerprint has changed since it was saved
  */
-export async function removePushSubscription(userId: string): Promise<void> {
+export async function removePushSubscription(userId: string, endpoint?: string): Promise<void> {
   const response = await fetch('/api/notifications/unsubscribe', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ userId }),
+    body: JSON.stringify({ userId, deviceId: getDeviceInfo().deviceId, endpoint }),
   });
 
   if (!response.ok) {
@@ -0,0 +1,82 @@
+/**
+ * Notification Quiet Hours
+ *
+ * A daily window, in the user's time zone, during which push notifications
+ * and emails are held back and sent when it ends. Windows may cross midnight
+ * (22:00-07:00). Safe to import from client components.
+ */
+
+export const DEFAULT_QUIET_HOURS_TIMEZONE = 'Asia/Bangkok';
+
+export interface QuietHours {
+  /** HH:MM or HH:MM:SS, local time */
+  start: string;
+  end: string;
+  /** IANA time zone */
+  timezone: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/;
+
+function toMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) throw new Error(`Invalid time: ${time}`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check a quiet hours window before it is saved
+ * @returns An error message (Thai), or null when the window is acceptable
+ */
+export function validateQuietHours(quietHours: QuietHours): string | null {
+  if (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+    return 'รูปแบบเวลาไม่ถูกต้อง';
+  }
+  if (toMinutes(quietHours.start) === toMinutes(quietHours.end)) {
+    return 'เวลาเริ่มและเวลาสิ้นสุดต้องไม่ตรงกัน';
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: quietHours.timezone });
+  } catch {
+    return 'เขตเวลาไม่ถูกต้อง';
+  }
+  return null;
+}
+
+/** Minutes since local midnight (with fractional seconds) at `now` in a time zone */
+function localMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return (
+    part('hour') * 60 + part('minute') + (part('second') + now.getUTCMilliseconds() / 1000) / 60
+  );
+}
+
+/**
+ * When the quiet hours containing `now` end, or null when `now` is outside
+ * them (or there are none)
+ */
+export function quietHoursEndAt(now: Date, quietHours: QuietHours | null): Date | null {
+  if (!quietHours) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return null;
+
+  const current = localMinutes(now, quietHours.timezone);
+  const inside =
+    start < end ? current >= start && current < end : current >= start || current < end;
+  if (!inside) return null;
+
+  const remaining = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return new Date(now.getTime() + Math.round(remaining * MINUTE_MS));
+}
@@ -7,41 +7,57 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  checkRateLimit,
+  enforceRateLimit,
   getClientIdentifier,
+  rateLimitKeys,
   RATE_LIMIT_CONFIGS,
   type RateLimitConfig,
+  type RateLimitResult,
 } from './rate-limit';
+import { getRateLimitStore } from './rate-limit-store';
+
+/**
+ * 429 response for a blocked request
+ * @param result - Result from enforceRateLimit
+ * @param config - Rate limit configuration that blocked it
+ */
+export function createRateLimitResponse(
+  result: RateLimitResult,
+  config: RateLimitConfig
+): NextResponse {
+  const retryAfter = result.retryAfter ?? 60;
+  return NextResponse.json(
+    {
+      error: 'Too many requests',
+      message: 'คุณส่งคำขอบ่อยเกินไป กรุณารอสักครู่แล้วลองใหม่อีกครั้ง',
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        'X-RateLimit-Limit': config.maxRequests.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': new Date(result.resetAt).toISOString(),
+      },
+    }
+  );
+}
 
 /**
  * Create a rate limiting middleware for API routes
+ * Requests are limited per client IP in the shared store.
  * @param config - Rate limit configuration
+ * @param scope - Key prefix, so different limits keep separate counters
  * @returns Middleware function
  */
-export function createRateLimitMiddleware(config: RateLimitConfig) {
+export function createRateLimitMiddleware(config: RateLimitConfig, scope = 'route') {
   return async (request: NextRequest) => {
-    const clientId = getClientIdentifier(request);
-    const { allowed, retryAfter } = checkRateLimit(clientId, config);
+    const keys = rateLimitKeys(scope, getClientIdentifier(request));
+    const result = await enforceRateLimit(getRateLimitStore(), keys, config);
 
-    if (!allowed) {
-      return NextResponse.json(
-        {
-          error: 'Too many requests',
-          message: 'คุณส่งคำขอบ่อยเกินไป กรุณารอสักครู่แล้วลองใหม่อีกครั้ง',
-          retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfter?.toString() || '60',
-            'X-RateLimit-Limit': config.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(
-              Date.now() + (retryAfter || 60) * 1000
-            ).toISOString(),
-          },
-        }
-      );
+    if (!result.allowed) {
+      return createRateLimitResponse(result, config);
     }
 
     return null; // Allow request to proceed
@@ -52,35 +68,20 @@ export function createRateLimitMiddleware(config: RateLimitConfig) {
  * Wrap an API route handler with rate limiting
  * @param handler - API route handler
  * @param config - Rate limit configuration
+ * @param scope - Key prefix, so different limits keep separate counters
  * @returns Wrapped handler with rate limiting
  */
 export function withRateLimit(
   handler: (request: NextRequest) => Promise<NextResponse>,
-  config: RateLimitConfig
+  config: RateLimitConfig,
+  scope = 'route'
 ) {
   return async (request: NextRequest) => {
-    const clientId = getClientIdentifier(request);
-    const { allowed, retryAfter } = checkRateLimit(clientId, config);
+    const keys = rateLimitKeys(scope, getClientIdentifier(request));
+    const result = await enforceRateLimit(getRateLimitStore(), keys, config);
 
-    if (!allowed) {
-      return NextResponse.json(
-        {
-          error: 'Too many requests',
-          message: 'คุณส่งคำขอบ่อยเกินไป กรุณารอสักครู่แล้วลองใหม่อีกครั้ง',
-          retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfter?.toString() || '60',
-            'X-RateLimit-Limit': config.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(
-              Date.now() + (retryAfter || 60) * 1000
-            ).toISOString(),
-          },
-        }
-      );
+    if (!result.allowed) {
+      return createRateLimitResponse(result, config);
     }
 
     // Call the actual handler
@@ -95,17 +96,17 @@ export const rateLimitMiddleware = {
   /**
    * Rate limiting for authentication endpoints (5 per minute)
    */
-  auth: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.AUTH),
+  auth: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.AUTH, 'route-auth'),
 
   /**
    * Rate limiting for general API endpoints (100 per minute)
    */
-  api: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.API),
+  api: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.API, 'route-api'),
 
   /**
    * Rate limiting for sensitive operations (3 per minute)
    */
-  sensitive: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.SENSITIVE),
+  sensitive: createRateLimitMiddleware(RATE_LIMIT_CONFIGS.SENSITIVE, 'route-sensitive'),
 };
 
 /**
@@ -113,12 +114,12 @@ export const rateLimitMiddleware = {
  */
 export const withRateLimitAuth = (
   handler: (request: NextRequest) => Promise<NextResponse>
-) => withRateLimit(handler, RATE_LIMIT_CONFIGS.AUTH);
+) => withRateLimit(handler, RATE_LIMIT_CONFIGS.AUTH, 'route-auth');
 
 export const withRateLimitApi = (
   handler: (request: NextRequest) => Promise<NextResponse>
-) => withRateLimit(handler, RATE_LIMIT_CONFIGS.API);
+) => withRateLimit(handler, RATE_LIMIT_CONFIGS.API, 'route-api');
 
 export const withRateLimitSensitive = (
   handler: (request: NextRequest) => Promise<NextResponse>
-) => withRateLimit(handler, RATE_LIMIT_CONFIGS.SENSITIVE);
+) => withRateLimit(handler, RATE_LIMIT_CONFIGS.SENSITIVE, 'route-sensitive');
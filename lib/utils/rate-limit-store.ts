@@ -0,0 +1,116 @@
+/**
+ * Shared Rate Limit Store
+ *
+ * Keeps token buckets in Postgres (rate_limit_buckets) so every server
+ * instance enforces the same limits. Server only: it uses the service-role
+ * client.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logger } from '@/lib/utils/logger';
+import {
+  createMemoryRateLimitStore,
+  describeBucket,
+  refillTokens,
+  type RateLimitCounter,
+  type RateLimitStore,
+} from '@/lib/utils/rate-limit';
+
+/** Most buckets returned by list(); the busiest keys are the most recent ones */
+const MAX_LISTED_COUNTERS = 500;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type UntypedClient = any;
+
+interface BucketRow {
+  key: string;
+  tokens: number;
+  capacity: number;
+  window_ms: number;
+  updated_at: string;
+}
+
+/**
+ * Create a store backed by rate_limit_buckets
+ * If the database cannot be reached, requests are limited by `fallback`
+ * (this instance's counters) rather than let through unlimited or rejected.
+ */
+export function createSupabaseRateLimitStore(
+  sb: UntypedClient,
+  fallback: RateLimitStore = createMemoryRateLimitStore()
+): RateLimitStore {
+  return {
+    async take(key, config) {
+      const now = Date.now();
+      const { data, error } = await sb.rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: config.maxRequests,
+        p_window_ms: config.windowMs,
+      });
+      const row = (data as { allowed: boolean; tokens: number }[] | null)?.[0];
+
+      if (error || !row) {
+        logger.warn('Shared rate limit store unavailable, using local counters', {
+          key,
+          error: error?.message,
+        });
+        return fallback.take(key, config);
+      }
+
+      return describeBucket(
+        {
+          tokens: row.tokens,
+          capacity: config.maxRequests,
+          windowMs: config.windowMs,
+          updatedAt: now,
+        },
+        row.allowed
+      );
+    },
+
+    async reset(key) {
+      const { error } = await sb.from('rate_limit_buckets').delete().eq('key', key);
+      if (error) throw new Error(error.message);
+      await fallback.reset(key);
+    },
+
+    async list() {
+      const { data, error } = await sb
+        .from('rate_limit_buckets')
+        .select('key, tokens, capacity, window_ms, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(MAX_LISTED_COUNTERS);
+      if (error) throw new Error(error.message);
+
+      const now = Date.now();
+      return ((data || []) as BucketRow[])
+        .map((row): RateLimitCounter => {
+          const bucket = {
+            tokens: row.tokens,
+            capacity: row.capacity,
+            windowMs: row.window_ms,
+            updatedAt: new Date(row.updated_at).getTime(),
+          };
+          return { key: row.key, ...bucket, tokens: refillTokens(bucket, now) };
+        })
+        .filter((counter) => counter.tokens < counter.capacity);
+    },
+  };
+}
+
+let sharedStore: RateLimitStore | null = null;
+
+/**
+ * The store used by middleware and route wrappers
+ * Shared when the service-role key is configured; otherwise (tests, local
+ * development without Supabase) counters are kept in memory.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) {
+    sharedStore =
+      process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+        ? createSupabaseRateLimitStore(createAdminClient())
+        : createMemoryRateLimitStore();
+  }
+  return sharedStore;
+}
@@ -1,32 +1,201 @@
 /**
  * Rate Limiting Utility
  * 
- * Implements in-memory rate limiting for API endpoints.
- * Uses a sliding window approach with automatic cleanup of expired entries.
+ * Token bucket rate limiting for API endpoints. Each key (an IP address or a
+ * user) gets a bucket of `maxRequests` tokens that refills continuously over
+ * `windowMs`, so a client can burst up to the limit and then continues at
+ * the average rate instead of waiting for a fixed window to reset.
+ *
+ * Buckets live in a RateLimitStore. The shared Supabase store
+ * (rate-limit-store.ts) is used in production so every server instance sees
+ * the same counters; the in-memory store below is for tests and local
+ * development.
  */
 
+export interface RateLimitConfig {
+  maxRequests: number;
+  windowMs: number; // Time window in milliseconds
+}
+
+export interface RateLimitBucket {
+  /** Tokens left; fractional while refilling */
+  tokens: number;
+  capacity: number;
+  windowMs: number;
+  /** When tokens was last computed (epoch ms) */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole requests left before the limit is reached */
+  remaining: number;
+  /** Seconds until the next request would be allowed (only when blocked) */
+  retryAfter?: number;
+  /** When the bucket is full again (epoch ms) */
+  resetAt: number;
+}
+
+/** A bucket with its key; tokens are refilled up to the time it was listed */
+export interface RateLimitCounter extends RateLimitBucket {
+  key: string;
+}
+
+/**
+ * Where buckets are kept
+ * Implementations must take tokens atomically per key.
+ */
+export interface RateLimitStore {
+  take(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+  /** Buckets that are not full, i.e. keys that have used part of their limit */
+  list(): Promise<RateLimitCounter[]>;
+}
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
 }
 
-export interface RateLimitConfig {
-  maxRequests: number;
-  windowMs: number; // Time window in milliseconds
+/**
+ * Tokens in a bucket at `now`, after refilling for the time since it was updated
+ */
+export function refillTokens(bucket: RateLimitBucket, now: number): number {
+  const elapsed = Math.max(now - bucket.updatedAt, 0);
+  return Math.min(
+    bucket.capacity,
+    bucket.tokens + (elapsed * bucket.capacity) / bucket.windowMs
+  );
 }
 
-// In-memory store for rate limit data
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Refill a bucket and take one token from it
+ * Mirrors take_rate_limit_token (scripts/145-create-rate-limit-buckets.sql).
+ *
+ * @param bucket - Current bucket, or null for a key seen for the first time
+ * @returns The updated bucket and whether the request is allowed
+ */
+export function takeToken(
+  bucket: RateLimitBucket | null,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): { bucket: RateLimitBucket; allowed: boolean } {
+  const current = {
+    tokens: bucket?.tokens ?? config.maxRequests,
+    capacity: config.maxRequests,
+    windowMs: config.windowMs,
+    updatedAt: bucket?.updatedAt ?? now,
+  };
+  let tokens = refillTokens(current, now);
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  return { bucket: { ...current, tokens, updatedAt: now }, allowed };
+}
+
+/**
+ * Describe a bucket after a take, for responses and headers
+ */
+export function describeBucket(
+  bucket: RateLimitBucket,
+  allowed: boolean
+): RateLimitResult {
+  const msPerToken = bucket.windowMs / bucket.capacity;
+  const result: RateLimitResult = {
+    allowed,
+    remaining: Math.floor(bucket.tokens),
+    resetAt: bucket.updatedAt + Math.ceil((bucket.capacity - bucket.tokens) * msPerToken),
+  };
+  if (!allowed) {
+    result.retryAfter = Math.max(1, Math.ceil(((1 - bucket.tokens) * msPerToken) / 1000));
+  }
+  return result;
+}
+
+/**
+ * Create an in-memory store
+ * Counters are per process, so this does not limit across server instances.
+ */
+export function createMemoryRateLimitStore(
+  buckets: Map<string, RateLimitBucket> = new Map(),
+  clock: () => number = Date.now
+): RateLimitStore {
+  return {
+    async take(key, config) {
+      const { bucket, allowed } = takeToken(buckets.get(key) ?? null, config, clock());
+      buckets.set(key, bucket);
+      return describeBucket(bucket, allowed);
+    },
+    async reset(key) {
+      buckets.delete(key);
+    },
+    async list() {
+      const now = clock();
+      return [...buckets.entries()]
+        .map(([key, bucket]) => ({ key, ...bucket, tokens: refillTokens(bucket, now) }))
+        .filter((counter) => counter.tokens < counter.capacity);
+    },
+  };
+}
+
+/**
+ * Rate limit keys for a request: always the client IP, plus the user when signed in
+ * Limiting per user stops one account spreading requests across addresses;
+ * limiting per IP covers anonymous requests such as login attempts.
+ *
+ * @param scope - Which limit the keys are for, e.g. 'auth' or 'api'
+ */
+export function rateLimitKeys(
+  scope: string,
+  clientId: string,
+  userId?: string | null
+): string[] {
+  const keys = [`${scope}:ip:${clientId}`];
+  if (userId) keys.push(`${scope}:user:${userId}`);
+  return keys;
+}
+
+/**
+ * Split a key from rateLimitKeys back into its parts
+ * @returns null for keys not made by rateLimitKeys
+ */
+export function parseRateLimitKey(
+  key: string
+): { scope: string; subject: 'ip' | 'user'; id: string } | null {
+  const match = /^([^:]+):(ip|user):(.+)$/.exec(key);
+  if (!match) return null;
+  return { scope: match[1], subject: match[2] as 'ip' | 'user', id: match[3] };
+}
+
+/**
+ * Take a token for every key; the request is allowed only if all keys allow it
+ * When blocked, the result is the key that stays blocked longest.
+ */
+export async function enforceRateLimit(
+  store: RateLimitStore,
+  keys: string[],
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const results = await Promise.all(keys.map((key) => store.take(key, config)));
+  const blocked = results.filter((result) => !result.allowed);
+  if (blocked.length > 0) {
+    return blocked.reduce((a, b) => ((b.retryAfter ?? 0) > (a.retryAfter ?? 0) ? b : a));
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+// Process-local buckets behind the synchronous helpers below
+const rateLimitStore = new Map<string, RateLimitBucket>();
 
 // Cleanup interval (5 minutes)
 const CLEANUP_INTERVAL = 5 * 60 * 1000;
 
-// Start cleanup interval
+// Start cleanup interval: full buckets hold no state
 if (typeof global !== 'undefined') {
   setInterval(() => {
     const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetTime < now) {
+    for (const [key, bucket] of rateLimitStore.entries()) {
+      if (refillTokens(bucket, now) >= bucket.capacity) {
         rateLimitStore.delete(key);
       }
     }
@@ -34,7 +203,9 @@ if (typeof global !== 'undefined') {
 }
 
 /**
- * Check if a request should be rate limited
+ * Check if a request should be rate limited, using this process's counters only
+ * Prefer enforceRateLimit with getRateLimitStore() for limits that must hold
+ * across server instances.
  * @param identifier - Unique identifier (e.g., IP address, user ID)
  * @param config - Rate limit configuration
  * @returns Object with allowed status and retry-after time
@@ -43,28 +214,11 @@ export function checkRateLimit(
   identifier: string,
   config: RateLimitConfig
 ): { allowed: boolean; retryAfter?: number } {
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  // If no entry exists or window has expired, create new entry
-  if (!entry || entry.resetTime < now) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    });
-    return { allowed: true };
-  }
-
-  // Increment count
-  entry.count++;
-
-  // Check if limit exceeded
-  if (entry.count > config.maxRequests) {
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-    return { allowed: false, retryAfter };
-  }
+  const { bucket, allowed } = takeToken(rateLimitStore.get(identifier) ?? null, config);
+  rateLimitStore.set(identifier, bucket);
 
-  return { allowed: true };
+  const { retryAfter } = describeBucket(bucket, allowed);
+  return allowed ? { allowed } : { allowed, retryAfter };
 }
 
 /**
@@ -78,19 +232,21 @@ export function resetRateLimit(identifier: string): void {
 /**
  * Get current rate limit status for an identifier
  * @param identifier - Unique identifier
- * @returns Current count and reset time, or null if no entry
+ * @returns Requests used and when the bucket is full again, or null if no entry
  */
 export function getRateLimitStatus(identifier: string): RateLimitEntry | null {
-  const entry = rateLimitStore.get(identifier);
-  if (!entry) return null;
+  const bucket = rateLimitStore.get(identifier);
+  if (!bucket) return null;
 
   const now = Date.now();
-  if (entry.resetTime < now) {
+  const tokens = refillTokens(bucket, now);
+  if (tokens >= bucket.capacity) {
     rateLimitStore.delete(identifier);
     return null;
   }
 
-  return entry;
+  const { remaining, resetAt } = describeBucket({ ...bucket, tokens, updatedAt: now }, true);
+  return { count: bucket.capacity - remaining, resetTime: resetAt };
 }
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * Session Close-out Planning
+ *
+ * Decides which attendance rows a training session needs once it has ended:
+ * approved leave becomes `excused`, and athletes with no record become
+ * `absent` unless the club has turned auto-marking off. Existing rows are never
+ * overwritten except an `absent` row for an athlete whose leave was approved,
+ * which is converted to `excused`. Pure so the job stays idempotent and
+ * testable without a database.
+ */
+
+import type { AttendancePolicy } from '@/lib/utils/attendance-policy';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface CloseOutSession {
+  id: string;
+  session_date: string;
+  end_time: string;
+  status: string | null;
+  attendance_locked_at: string | null;
+}
+
+export interface CloseOutAttendance {
+  id: string;
+  athlete_id: string;
+  status: string;
+}
+
+/** One stretch of an athlete's membership of a club (athlete_club_memberships) */
+export interface ClubMembershipPeriod {
+  athlete_id: string;
+  joined_at: string;
+  left_at: string | null;
+}
+
+export interface CloseOutPlan {
+  /** Athletes to insert as absent */
+  absent: string[];
+  /** Athletes to insert as excused */
+  excused: string[];
+  /** Existing absent rows to convert to excused */
+  excuseExisting: string[];
+}
+
+/**
+ * Whether a session has ended (plus the club's grace period) and is still open
+ */
+export function isSessionDueForCloseOut(
+  session: CloseOutSession,
+  policy: AttendancePolicy,
+  now: Date
+): boolean {
+  if (session.attendance_locked_at || session.status === 'cancelled') return false;
+  const end = new Date(`${session.session_date}T${session.end_time}`).getTime();
+  return now.getTime() >= end + policy.auto_mark_absent_after_minutes * MINUTE_MS;
+}
+
+/**
+ * When a session starts (ISO); its roster is the club's members at that moment
+ */
+export function sessionStartsAt(session: { session_date: string; start_time: string }): string {
+  return new Date(`${session.session_date}T${session.start_time}`).toISOString();
+}
+
+/**
+ * Whether an athlete was a member of the club when a session started
+ * Athletes who joined later or left before the session are not on its roster.
+ */
+export function wasMemberAt(
+  memberships: ClubMembershipPeriod[],
+  athleteId: string,
+  startsAt: string
+): boolean {
+  const at = new Date(startsAt).getTime();
+  return memberships.some(
+    (m) =>
+      m.athlete_id === athleteId &&
+      new Date(m.joined_at).getTime() <= at &&
+      (!m.left_at || new Date(m.left_at).getTime() > at)
+  );
+}
+
+/**
+ * Work out the attendance changes needed to finalise a session
+ *
+ * @param athleteIds - Athletes expected at the session (the club roster at its start)
+ * @param approvedLeaveAthleteIds - Athletes with an approved leave request for the session
+ */
+export function planSessionCloseOut(params: {
+  athleteIds: string[];
+  attendance: CloseOutAttendance[];
+  approvedLeaveAthleteIds: string[];
+  policy: AttendancePolicy;
+}): CloseOutPlan {
+  const recorded = new Map(params.attendance.map((row) => [row.athlete_id, row]));
+  const onLeave = new Set(params.approvedLeaveAthleteIds);
+  const plan: CloseOutPlan = { absent: [], excused: [], excuseExisting: [] };
+
+  // Athletes who left the club after requesting leave are still excused
+  const athletes = new Set([...params.athleteIds, ...params.approvedLeaveAthleteIds]);
+
+  for (const athleteId of athletes) {
+    const existing = recorded.get(athleteId);
+
+    if (existing) {
+      if (existing.status === 'absent' && onLeave.has(athleteId)) {
+        plan.excuseExisting.push(existing.id);
+      }
+      continue;
+    }
+
+    if (onLeave.has(athleteId)) {
+      plan.excused.push(athleteId);
+    } else if (params.policy.auto_mark_absent) {
+      plan.absent.push(athleteId);
+    }
+  }
+
+  return plan;
+}
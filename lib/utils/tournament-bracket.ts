@@ -0,0 +1,329 @@
+/**
+ * Tournament Brackets
+ *
+ * Fixture generation and placings for tournament events. Three formats are
+ * supported:
+ * - single_elimination: seeded knockout bracket, byes go to the top seeds
+ * - round_robin: everyone plays everyone (circle method), ranked by points
+ * - ranking: no matches, athletes are ranked by a time or score (heats,
+ *   races, judged events)
+ *
+ * Participants are identified by their tournament_participants id. Everything
+ * here is pure so the actions only have to persist what it returns.
+ */
+
+export type TournamentEventFormat = 'single_elimination' | 'round_robin' | 'ranking';
+
+/** What a result is measured in; knockout and round robin events rank by placing */
+export type TournamentResultType = 'placing' | 'score' | 'time';
+
+export const TOURNAMENT_EVENT_FORMAT_LABELS: Record<TournamentEventFormat, string> = {
+  single_elimination: 'แพ้คัดออก',
+  round_robin: 'พบกันหมด',
+  ranking: 'จัดอันดับตามผลงาน',
+};
+
+/** Round robin points */
+export const ROUND_ROBIN_POINTS = { win: 3, draw: 1, loss: 0 } as const;
+
+export interface GeneratedMatch {
+  round: number;
+  match_number: number;
+  participant_a_id: string | null;
+  participant_b_id: string | null;
+  status: 'pending' | 'bye';
+  winner_id: string | null;
+}
+
+export interface BracketMatchResult {
+  round: number;
+  match_number: number;
+  participant_a_id: string | null;
+  participant_b_id: string | null;
+  score_a: number | null;
+  score_b: number | null;
+  winner_id: string | null;
+  status: 'pending' | 'completed' | 'bye';
+}
+
+export interface Standing {
+  participant_id: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points_for: number;
+  points_against: number;
+  points: number;
+  placing: number;
+}
+
+/**
+ * Seed numbers (1-based) in bracket order, so that seed 1 and 2 can only meet
+ * in the final, 1-4 in the semi-finals and so on
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Number of rounds in a knockout bracket for `count` entrants
+ */
+export function eliminationRounds(count: number): number {
+  return count < 2 ? 0 : Math.ceil(Math.log2(count));
+}
+
+/**
+ * The match (and side) a knockout winner moves on to
+ */
+export function nextMatchSlot(
+  round: number,
+  matchNumber: number
+): { round: number; match_number: number; slot: 'a' | 'b' } {
+  return {
+    round: round + 1,
+    match_number: Math.ceil(matchNumber / 2),
+    slot: matchNumber % 2 === 1 ? 'a' : 'b',
+  };
+}
+
+/**
+ * Generate every match of a single elimination bracket
+ * First-round byes are resolved immediately and their winners placed in round 2.
+ *
+ * @param seededIds - Participant ids, best seed first
+ */
+export function generateSingleElimination(seededIds: string[]): GeneratedMatch[] {
+  const rounds = eliminationRounds(seededIds.length);
+  if (rounds === 0) return [];
+
+  const size = 2 ** rounds;
+  const order = bracketSeedOrder(size).map((seed) => seededIds[seed - 1] ?? null);
+  const matches: GeneratedMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let matchNumber = 1; matchNumber <= count; matchNumber++) {
+      matches.push({
+        round,
+        match_number: matchNumber,
+        participant_a_id: round === 1 ? order[(matchNumber - 1) * 2] : null,
+        participant_b_id: round === 1 ? order[(matchNumber - 1) * 2 + 1] : null,
+        status: 'pending',
+        winner_id: null,
+      });
+    }
+  }
+
+  const find = (round: number, matchNumber: number) =>
+    matches.find((match) => match.round === round && match.match_number === matchNumber)!;
+
+  for (const match of matches.filter((m) => m.round === 1)) {
+    if (match.participant_a_id && match.participant_b_id) continue;
+
+    match.status = 'bye';
+    match.winner_id = match.participant_a_id ?? match.participant_b_id;
+
+    if (rounds > 1) {
+      const next = nextMatchSlot(match.round, match.match_number);
+      const target = find(next.round, next.match_number);
+      if (next.slot === 'a') target.participant_a_id = match.winner_id;
+      else target.participant_b_id = match.winner_id;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Generate a round robin schedule with the circle method
+ * With an odd number of entrants one athlete sits out each round.
+ */
+export function generateRoundRobin(ids: string[]): GeneratedMatch[] {
+  if (ids.length < 2) return [];
+
+  const slots: (string | null)[] = ids.length % 2 === 0 ? [...ids] : [...ids, null];
+  const rounds = slots.length - 1;
+  const matches: GeneratedMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    let matchNumber = 1;
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (!a || !b) continue;
+      matches.push({
+        round,
+        match_number: matchNumber++,
+        participant_a_id: a,
+        participant_b_id: b,
+        status: 'pending',
+        winner_id: null,
+      });
+    }
+    // Keep the first slot fixed and rotate the rest clockwise
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return matches;
+}
+
+/**
+ * Generate the fixtures for an event; ranking events have none
+ */
+export function generateFixtures(
+  format: TournamentEventFormat,
+  seededIds: string[]
+): GeneratedMatch[] {
+  switch (format) {
+    case 'single_elimination':
+      return generateSingleElimination(seededIds);
+    case 'round_robin':
+      return generateRoundRobin(seededIds);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Winner of a scored match, null for a draw
+ */
+export function matchWinner(
+  match: Pick<BracketMatchResult, 'participant_a_id' | 'participant_b_id'>,
+  scoreA: number,
+  scoreB: number
+): string | null {
+  if (scoreA === scoreB) return null;
+  return scoreA > scoreB ? match.participant_a_id : match.participant_b_id;
+}
+
+/**
+ * Standard competition ranking ("1224"): equal values share a placing
+ */
+function assignPlacings<T>(sorted: T[], same: (a: T, b: T) => boolean): number[] {
+  const placings: number[] = [];
+  sorted.forEach((item, index) => {
+    placings.push(index > 0 && same(sorted[index - 1], item) ? placings[index - 1] : index + 1);
+  });
+  return placings;
+}
+
+/**
+ * Round robin table: points, then points difference, then points scored
+ */
+export function computeRoundRobinStandings(
+  participantIds: string[],
+  matches: BracketMatchResult[]
+): Standing[] {
+  const table = new Map<string, Standing>(
+    participantIds.map((id) => [
+      id,
+      {
+        participant_id: id,
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        points_for: 0,
+        points_against: 0,
+        points: 0,
+        placing: 0,
+      },
+    ])
+  );
+
+  for (const match of matches) {
+    if (match.status !== 'completed' || match.score_a === null || match.score_b === null) continue;
+    const a = match.participant_a_id ? table.get(match.participant_a_id) : undefined;
+    const b = match.participant_b_id ? table.get(match.participant_b_id) : undefined;
+    if (!a || !b) continue;
+
+    a.played++;
+    b.played++;
+    a.points_for += match.score_a;
+    a.points_against += match.score_b;
+    b.points_for += match.score_b;
+    b.points_against += match.score_a;
+
+    if (match.score_a === match.score_b) {
+      a.draws++;
+      b.draws++;
+      a.points += ROUND_ROBIN_POINTS.draw;
+      b.points += ROUND_ROBIN_POINTS.draw;
+    } else {
+      const [winner, loser] = match.score_a > match.score_b ? [a, b] : [b, a];
+      winner.wins++;
+      loser.losses++;
+      winner.points += ROUND_ROBIN_POINTS.win;
+      loser.points += ROUND_ROBIN_POINTS.loss;
+    }
+  }
+
+  const sorted = Array.from(table.values()).sort(
+    (x, y) =>
+      y.points - x.points ||
+      y.points_for - y.points_against - (x.points_for - x.points_against) ||
+      y.points_for - x.points_for
+  );
+  const placings = assignPlacings(
+    sorted,
+    (x, y) =>
+      x.points === y.points &&
+      x.points_for - x.points_against === y.points_for - y.points_against &&
+      x.points_for === y.points_for
+  );
+
+  return sorted.map((standing, index) => ({ ...standing, placing: placings[index] }));
+}
+
+/**
+ * Final placings of a knockout bracket once the final has been played
+ * Losers share the placing of the round they went out in (both semi-final
+ * losers are 3rd, quarter-final losers 5th, ...).
+ *
+ * @returns participant id -> placing, or null while the final is undecided
+ */
+export function computeEliminationPlacings(
+  matches: BracketMatchResult[]
+): Map<string, number> | null {
+  const rounds = Math.max(0, ...matches.map((match) => match.round));
+  const final = matches.find((match) => match.round === rounds);
+  if (!final || final.status !== 'completed' || !final.winner_id) return null;
+
+  const placings = new Map<string, number>([[final.winner_id, 1]]);
+
+  for (const match of matches) {
+    if (match.status !== 'completed' || !match.winner_id) continue;
+    const loser =
+      match.winner_id === match.participant_a_id ? match.participant_b_id : match.participant_a_id;
+    if (loser) placings.set(loser, 2 ** (rounds - match.round) + 1);
+  }
+
+  return placings;
+}
+
+/**
+ * Rank results of a ranking event: fastest time or highest score first
+ */
+export function rankResults(
+  results: { participant_id: string; value: number }[],
+  resultType: Exclude<TournamentResultType, 'placing'>
+): Map<string, number> {
+  const sorted = [...results].sort((a, b) =>
+    resultType === 'time' ? a.value - b.value : b.value - a.value
+  );
+  const placings = assignPlacings(sorted, (a, b) => a.value === b.value);
+  return new Map(sorted.map((result, index) => [result.participant_id, placings[index]]));
+}
+
+/**
+ * Whether every match that needs playing has a result
+ */
+export function isEventComplete(matches: BracketMatchResult[]): boolean {
+  return matches.length > 0 && matches.every((match) => match.status !== 'pending');
+}
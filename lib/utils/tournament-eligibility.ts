@@ -0,0 +1,228 @@
+/**
+ * Tournament Eligibility
+ *
+ * Entry categories for tournaments (age bracket, gender, weight class, skill
+ * level) and the capacity rules behind the automatic waitlist.
+ *
+ * Age is computed from date_of_birth on the tournament's reference date, so
+ * an athlete stays in the same bracket for the whole tournament. Weight and
+ * skill level are recorded per entry (weigh-in / coach assessment) because
+ * they change between tournaments.
+ */
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type SkillLevel = (typeof SKILL_LEVELS)[number];
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'เริ่มต้น',
+  intermediate: 'กลาง',
+  advanced: 'สูง',
+};
+
+export type CategoryGender = 'male' | 'female';
+
+export const CATEGORY_GENDER_LABELS: Record<CategoryGender, string> = {
+  male: 'ชาย',
+  female: 'หญิง',
+};
+
+export interface TournamentCategory {
+  id: string;
+  name: string;
+  min_age: number | null;
+  max_age: number | null;
+  /** null accepts every gender */
+  gender: CategoryGender | null;
+  min_weight_kg: number | null;
+  max_weight_kg: number | null;
+  /** Empty accepts every level */
+  skill_levels: SkillLevel[];
+  /** Selected + confirmed entries allowed in this category, null for no limit */
+  max_participants: number | null;
+}
+
+export interface EntrantProfile {
+  date_of_birth: string | null;
+  gender: string | null;
+  weight_kg: number | null;
+  skill_level: SkillLevel | null;
+}
+
+/** Entry details the coach still has to provide before eligibility can be decided */
+export type MissingEntryField = 'weight_kg' | 'skill_level';
+
+export interface CategoryEligibility {
+  eligible: boolean;
+  /** Thai explanations of every rule the athlete fails */
+  reasons: string[];
+  missing: MissingEntryField[];
+}
+
+/** Participant statuses that take up a place */
+export const ACTIVE_PARTICIPANT_STATUSES = ['selected', 'confirmed'] as const;
+
+export function isSkillLevel(value: unknown): value is SkillLevel {
+  return typeof value === 'string' && (SKILL_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Age in whole years on a reference date (YYYY-MM-DD)
+ */
+export function ageOnDate(dateOfBirth: string, referenceDate: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.slice(0, 10).split('-').map(Number);
+  const [year, month, day] = referenceDate.slice(0, 10).split('-').map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+/**
+ * Short description of a category's rules, e.g. "อายุ 10-12 ปี · ชาย · ไม่เกิน 45 กก."
+ */
+export function describeCategory(category: TournamentCategory): string {
+  const parts: string[] = [];
+
+  if (category.min_age !== null && category.max_age !== null) {
+    parts.push(`อายุ ${category.min_age}-${category.max_age} ปี`);
+  } else if (category.max_age !== null) {
+    parts.push(`อายุไม่เกิน ${category.max_age} ปี`);
+  } else if (category.min_age !== null) {
+    parts.push(`อายุ ${category.min_age} ปีขึ้นไป`);
+  }
+
+  if (category.gender) parts.push(CATEGORY_GENDER_LABELS[category.gender]);
+
+  if (category.min_weight_kg !== null && category.max_weight_kg !== null) {
+    parts.push(`${category.min_weight_kg}-${category.max_weight_kg} กก.`);
+  } else if (category.max_weight_kg !== null) {
+    parts.push(`ไม่เกิน ${category.max_weight_kg} กก.`);
+  } else if (category.min_weight_kg !== null) {
+    parts.push(`${category.min_weight_kg} กก. ขึ้นไป`);
+  }
+
+  if (category.skill_levels.length > 0) {
+    parts.push(`ระดับ${category.skill_levels.map((level) => SKILL_LEVEL_LABELS[level]).join('/')}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'ไม่จำกัดคุณสมบัติ';
+}
+
+/**
+ * Check an athlete against a category
+ * Weight and skill level that have not been provided yet are reported as
+ * missing rather than failing, so the athlete list can show who could enter.
+ */
+export function checkCategoryEligibility(
+  entrant: EntrantProfile,
+  category: TournamentCategory,
+  referenceDate: string
+): CategoryEligibility {
+  const reasons: string[] = [];
+  const missing: MissingEntryField[] = [];
+
+  if (category.min_age !== null || category.max_age !== null) {
+    if (!entrant.date_of_birth) {
+      reasons.push('ไม่มีข้อมูลวันเกิด');
+    } else {
+      const age = ageOnDate(entrant.date_of_birth, referenceDate);
+      if (category.min_age !== null && age < category.min_age) {
+        reasons.push(`อายุ ${age} ปี ต่ำกว่าเกณฑ์ ${category.min_age} ปี`);
+      }
+      if (category.max_age !== null && age > category.max_age) {
+        reasons.push(`อายุ ${age} ปี เกินเกณฑ์ ${category.max_age} ปี`);
+      }
+    }
+  }
+
+  if (category.gender && entrant.gender !== category.gender) {
+    reasons.push(`ประเภทนี้สำหรับนักกีฬา${CATEGORY_GENDER_LABELS[category.gender]}เท่านั้น`);
+  }
+
+  if (category.min_weight_kg !== null || category.max_weight_kg !== null) {
+    if (entrant.weight_kg === null) {
+      missing.push('weight_kg');
+    } else {
+      if (category.min_weight_kg !== null && entrant.weight_kg < category.min_weight_kg) {
+        reasons.push(`น้ำหนัก ${entrant.weight_kg} กก. ต่ำกว่าเกณฑ์ ${category.min_weight_kg} กก.`);
+      }
+      if (category.max_weight_kg !== null && entrant.weight_kg > category.max_weight_kg) {
+        reasons.push(`น้ำหนัก ${entrant.weight_kg} กก. เกินเกณฑ์ ${category.max_weight_kg} กก.`);
+      }
+    }
+  }
+
+  if (category.skill_levels.length > 0) {
+    if (!entrant.skill_level) {
+      missing.push('skill_level');
+    } else if (!category.skill_levels.includes(entrant.skill_level)) {
+      reasons.push(`ระดับฝีมือ${SKILL_LEVEL_LABELS[entrant.skill_level]}ไม่ตรงกับประเภทนี้`);
+    }
+  }
+
+  return { eligible: reasons.length === 0 && missing.length === 0, reasons, missing };
+}
+
+/**
+ * Whether another athlete fits under every limit (null means no limit)
+ */
+export function hasCapacity(taken: number, ...limits: (number | null | undefined)[]): boolean {
+  return limits.every((limit) => limit === null || limit === undefined || taken < limit);
+}
+
+interface WaitlistCandidate {
+  id: string;
+  status: string;
+  category_id: string | null;
+  added_at: string;
+}
+
+/**
+ * Pick waiting participants to promote, first come first served
+ * A candidate is only promoted when both the tournament and its category
+ * still have room; candidates that don't fit are skipped so later ones in a
+ * category with room can move up.
+ *
+ * @param maxPromotions - Places that were freed, e.g. 1 for a single decline
+ */
+export function selectWaitlistPromotions(
+  participants: WaitlistCandidate[],
+  limits: { tournament: number | null; categories: Map<string, number | null> },
+  maxPromotions: number
+): string[] {
+  const isActive = (p: WaitlistCandidate) =>
+    (ACTIVE_PARTICIPANT_STATUSES as readonly string[]).includes(p.status);
+
+  let taken = participants.filter(isActive).length;
+  const takenByCategory = new Map<string, number>();
+  for (const participant of participants.filter(isActive)) {
+    if (participant.category_id) {
+      takenByCategory.set(
+        participant.category_id,
+        (takenByCategory.get(participant.category_id) ?? 0) + 1
+      );
+    }
+  }
+
+  const waiting = participants
+    .filter((p) => p.status === 'waiting')
+    .sort((a, b) => a.added_at.localeCompare(b.added_at));
+  const promoted: string[] = [];
+
+  for (const candidate of waiting) {
+    if (promoted.length >= maxPromotions || !hasCapacity(taken, limits.tournament)) break;
+
+    const categoryTaken = candidate.category_id
+      ? (takenByCategory.get(candidate.category_id) ?? 0)
+      : 0;
+    const categoryLimit = candidate.category_id
+      ? limits.categories.get(candidate.category_id)
+      : null;
+    if (!hasCapacity(categoryTaken, categoryLimit)) continue;
+
+    promoted.push(candidate.id);
+    taken++;
+    if (candidate.category_id) takenByCategory.set(candidate.category_id, categoryTaken + 1);
+  }
+
+  return promoted;
+}
@@ -0,0 +1,119 @@
+/**
+ * Tournament RSVP
+ *
+ * Selected athletes confirm or decline their place themselves. Minors also
+ * need consent from a linked parent before the place counts as confirmed;
+ * either side declining gives the place up.
+ *
+ * The participant status stays the single source of truth for the coach
+ * ('selected' until confirmed, then 'confirmed' or 'declined'); the response
+ * columns only record who answered what and when.
+ */
+
+import { ageOnDate } from '@/lib/utils/tournament-eligibility';
+
+/** Athletes under this age on the tournament's reference date need parent consent */
+export const ADULT_AGE = 18;
+
+export const MAX_RSVP_REASON_LENGTH = 500;
+
+export type AthleteResponse = 'confirmed' | 'declined';
+
+export type ParentConsent = 'given' | 'refused';
+
+export type RsvpResponder = 'athlete' | 'parent' | 'coach';
+
+export interface RsvpState {
+  status: string;
+  athlete_response: AthleteResponse | null;
+  parent_consent: ParentConsent | null;
+  consent_required: boolean;
+}
+
+export type RsvpStage =
+  | 'awaiting_athlete'
+  | 'awaiting_consent'
+  | 'confirmed'
+  | 'declined'
+  | 'waiting';
+
+export const RSVP_STAGE_LABELS: Record<RsvpStage, string> = {
+  awaiting_athlete: 'รอนักกีฬาตอบรับ',
+  awaiting_consent: 'รอผู้ปกครองยินยอม',
+  confirmed: 'ยืนยันแล้ว',
+  declined: 'สละสิทธิ์',
+  waiting: 'สำรอง',
+};
+
+/**
+ * Whether an athlete is a minor on the reference date
+ * Without a date of birth the age can't be known, so no consent is asked for.
+ */
+export function requiresParentConsent(dateOfBirth: string | null, referenceDate: string): boolean {
+  return !!dateOfBirth && ageOnDate(dateOfBirth, referenceDate) < ADULT_AGE;
+}
+
+/**
+ * Only athletes holding a place can answer; the waitlist waits for a place first
+ */
+export function canRespond(status: string): boolean {
+  return status === 'selected' || status === 'confirmed';
+}
+
+/**
+ * Participant status that follows from the answers so far
+ */
+export function resolveRsvpStatus(
+  state: Omit<RsvpState, 'status'>
+): 'selected' | 'confirmed' | 'declined' {
+  if (state.athlete_response === 'declined' || state.parent_consent === 'refused') {
+    return 'declined';
+  }
+  if (
+    state.athlete_response === 'confirmed' &&
+    (!state.consent_required || state.parent_consent === 'given')
+  ) {
+    return 'confirmed';
+  }
+  return 'selected';
+}
+
+/**
+ * Where a participant is in the RSVP flow
+ */
+export function rsvpStage(state: RsvpState): RsvpStage {
+  if (state.status === 'waiting') return 'waiting';
+  if (state.status === 'declined') return 'declined';
+  if (state.status === 'confirmed') return 'confirmed';
+  if (state.athlete_response === 'confirmed' && state.consent_required) return 'awaiting_consent';
+  return 'awaiting_athlete';
+}
+
+export function summarizeRsvp(participants: RsvpState[]): Record<RsvpStage, number> {
+  const summary: Record<RsvpStage, number> = {
+    awaiting_athlete: 0,
+    awaiting_consent: 0,
+    confirmed: 0,
+    declined: 0,
+    waiting: 0,
+  };
+  for (const participant of participants) {
+    summary[rsvpStage(participant)]++;
+  }
+  return summary;
+}
+
+/**
+ * Validate the reason given with an answer
+ * @returns Thai error message, or null when the reason is acceptable
+ */
+export function validateRsvpReason(declining: boolean, reason: string | undefined): string | null {
+  const trimmed = reason?.trim() ?? '';
+  if (declining && !trimmed) {
+    return 'กรุณาระบุเหตุผลที่ไม่สามารถเข้าร่วมได้';
+  }
+  if (trimmed.length > MAX_RSVP_REASON_LENGTH) {
+    return `เหตุผลต้องไม่เกิน ${MAX_RSVP_REASON_LENGTH} ตัวอักษร`;
+  }
+  return null;
+}
@@ -0,0 +1,207 @@
+/**
+ * Web Push Signing and Encryption (server only)
+ *
+ * Requests to a browser's push service are authenticated with VAPID
+ * (RFC 8292): an ES256 JWT for the push service's origin, signed with the
+ * application server key whose public half the browser subscribed with
+ * (NEXT_PUBLIC_VAPID_PUBLIC_KEY). Payloads are encrypted for the subscription
+ * with aes128gcm (RFC 8291, RFC 8188), so only the subscribed browser can
+ * read them.
+ *
+ * Keys are base64url, as printed by `npx web-push generate-vapid-keys`.
+ */
+
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type ECDH,
+} from 'crypto';
+
+/** Record size advertised in the aes128gcm header; the whole payload is one record */
+const RECORD_SIZE = 4096;
+
+/** Push services accept request bodies up to 4096 bytes; the header and tag take 103 */
+export const MAX_PUSH_PAYLOAD_BYTES = 3993;
+
+/** VAPID tokens may be valid for at most 24 hours */
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+export interface VapidKeys {
+  /** Uncompressed P-256 point (65 bytes) */
+  publicKey: string;
+  /** P-256 private scalar (32 bytes) */
+  privateKey: string;
+  /** Contact for the push service: a mailto: or https: URL */
+  subject: string;
+}
+
+/** A browser PushSubscription as serialized by PushSubscription.toJSON() */
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface WebPushRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * VAPID keys from NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and
+ * VAPID_SUBJECT (falling back to NEXT_PUBLIC_APP_URL), or null when push
+ * delivery is not configured
+ */
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT || process.env.NEXT_PUBLIC_APP_URL;
+  if (!publicKey || !privateKey || !subject) return null;
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * New application server key pair
+ */
+export function generateVapidKeys(): Pick<VapidKeys, 'publicKey' | 'privateKey'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  // The scalar can come back shorter than 32 bytes when it has leading zeros
+  const privateKey = ecdh.getPrivateKey();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]).toString(
+      'base64url'
+    ),
+  };
+}
+
+/**
+ * Authorization header value for a request to the subscription's push service
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): string {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: nowSeconds + VAPID_TOKEN_SECONDS,
+      sub: vapid.subject,
+    })
+  ).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64url');
+
+  return `vapid t=${header}.${claims}.${signature}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for a subscription (aes128gcm, single record)
+ *
+ * @param options.salt - Fixed salt, for tests; random otherwise
+ * @param options.serverKeys - Fixed ephemeral key pair, for tests; new otherwise
+ */
+export function encryptPushPayload(
+  subscription: WebPushSubscription,
+  payload: string | Buffer,
+  options: { salt?: Buffer; serverKeys?: ECDH } = {}
+): Buffer {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is larger than ${MAX_PUSH_PAYLOAD_BYTES} bytes`);
+  }
+
+  const clientPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  const serverKeys = options.serverKeys ?? createECDH('prime256v1');
+  if (!options.serverKeys) serverKeys.generateKeys();
+  const serverPublicKey = serverKeys.getPublicKey();
+  const salt = options.salt ?? randomBytes(16);
+
+  // RFC 8291 section 3.4: combine the ECDH secret with the subscription's auth secret
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  // RFC 8188 section 2.2-2.3: content encryption key and nonce for the record
+  const contentKey = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Signed, encrypted request delivering a payload to one subscription
+ *
+ * @param options.ttl - Seconds the push service keeps the message for an offline device
+ */
+export function buildWebPushRequest(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidKeys,
+  options: { ttl?: number; urgency?: PushUrgency; topic?: string; nowSeconds?: number } = {}
+): WebPushRequest {
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, vapid, options.nowSeconds),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl ?? 24 * 60 * 60),
+    Urgency: options.urgency ?? 'normal',
+  };
+  if (options.topic) headers.Topic = options.topic;
+
+  return {
+    endpoint: subscription.endpoint,
+    headers,
+    body: encryptPushPayload(subscription, payload),
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Webhook Signing (server only)
+ *
+ * Every delivery carries X-Webhook-Timestamp (unix seconds) and
+ * X-Webhook-Signature: "v1=" + hex HMAC-SHA256 of "<timestamp>.<raw body>",
+ * keyed with the endpoint's secret. Receivers recompute the signature over
+ * the raw body and reject timestamps outside the tolerance to stop replays.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_TYPE_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_EVENT_ID_HEADER = 'X-Webhook-Id';
+
+/** Receivers should reject deliveries signed more than this long ago */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const SIGNATURE_VERSION = 'v1';
+
+export type WebhookSignatureRejection = 'malformed' | 'expired' | 'invalid_signature';
+
+export type WebhookSignatureVerification =
+  | { valid: true }
+  | { valid: false; reason: WebhookSignatureRejection };
+
+/**
+ * New endpoint secret; shown to the user so their receiver can verify deliveries
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Signature header value for a delivery
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `${SIGNATURE_VERSION}=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Headers sent with a delivery
+ */
+export function buildWebhookHeaders(
+  secret: string,
+  event: { eventId: string; eventType: string },
+  body: string,
+  now: number = Date.now()
+): Record<string, string> {
+  const timestamp = Math.floor(now / 1000);
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'SportsClub-Webhooks/1.0',
+    [WEBHOOK_EVENT_ID_HEADER]: event.eventId,
+    [WEBHOOK_EVENT_TYPE_HEADER]: event.eventType,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  };
+}
+
+/**
+ * Verify a received delivery, as a receiver would
+ *
+ * @param body - Raw request body, before JSON parsing
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signatureHeader: string | null,
+  timestampHeader: string | null,
+  body: string,
+  now: number = Date.now(),
+  toleranceSeconds: number = WEBHOOK_TOLERANCE_SECONDS
+): WebhookSignatureVerification {
+  const timestamp = Number(timestampHeader);
+  const prefix = `${SIGNATURE_VERSION}=`;
+  if (!timestampHeader || !Number.isInteger(timestamp) || !signatureHeader?.startsWith(prefix)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body));
+  const received = Buffer.from(signatureHeader.slice(prefix.length));
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,272 @@
+/**
+ * Outbound Webhook Rules
+ *
+ * Which endpoints receive an event, what URLs may be registered and how a
+ * failed delivery is retried. Safe to import from client components; signing
+ * lives in webhook-signing.ts (server only).
+ */
+
+import { EVENT_SCHEMAS } from '@/lib/utils/event-validator';
+import { MAX_DELIVERY_ATTEMPTS, retryDelayMs } from '@/lib/utils/event-dispatcher';
+
+/** Event types an endpoint can subscribe to, from events/EVENT_SCHEMA_REGISTRY.md */
+export const WEBHOOK_EVENT_TYPES: readonly string[] = [...EVENT_SCHEMAS.keys()].sort();
+
+/** Response bodies are cut to this length in the delivery log */
+export const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+
+export type WebhookDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'dead_letter';
+
+export interface WebhookEndpointTarget {
+  club_id: string | null;
+  event_types: string[];
+  is_active: boolean;
+}
+
+export interface WebhookAttemptResult {
+  ok: boolean;
+  /** HTTP status, or null when no response arrived */
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDeliveryOutcome {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  duration_ms: number;
+  last_error: string | null;
+  delivered_at: string | null;
+  locked_at: null;
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export const PRIVATE_WEBHOOK_HOST_ERROR = 'URL ต้องไม่ชี้ไปยังเครือข่ายภายในหรือที่อยู่สงวน';
+
+/**
+ * IPv4 ranges a webhook may not reach: this network, private, carrier-grade
+ * NAT, loopback, link-local (including cloud metadata at 169.254.169.254),
+ * IETF protocol assignments, documentation, benchmarking, multicast and
+ * reserved/broadcast
+ */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it is not one */
+function parseIpv6(address: string): number[] | null {
+  let text = address.replace(/%.*$/, '');
+  const tail: number[] = [];
+
+  // Dotted IPv4 in the last 32 bits (::ffff:192.0.2.1)
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.', lastColon)) {
+    const ipv4 = parseIpv4(text.slice(lastColon + 1));
+    if (ipv4 === null) return null;
+    tail.push(Math.floor(ipv4 / 0x10000), ipv4 % 0x10000);
+    const prefix = text.slice(0, lastColon + 1);
+    text = prefix.endsWith('::') ? prefix : prefix.slice(0, -1);
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string) => (half === '' ? [] : half.split(':'));
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (![...head, ...rest].every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const known = head.length + rest.length + tail.length;
+  if (halves.length === 1 ? known !== 8 : known > 7) return null;
+
+  return [
+    ...head.map((group) => parseInt(group, 16)),
+    ...Array<number>(8 - known).fill(0),
+    ...rest.map((group) => parseInt(group, 16)),
+    ...tail,
+  ];
+}
+
+function isBlockedIpv4(value: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(parseIpv4(base)! / size);
+  });
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet. IPv6 must be global unicast (2000::/3, outside the
+ * documentation, Teredo and 6to4-of-a-blocked-IPv4 ranges); IPv4-mapped
+ * addresses are judged by the IPv4 address they carry.
+ *
+ * @returns false for anything that is not an IP address (a hostname)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const bare = address.replace(/^\[(.*)\]$/, '$1');
+
+  const ipv4 = parseIpv4(bare);
+  if (ipv4 !== null) return isBlockedIpv4(ipv4);
+
+  const groups = parseIpv6(bare);
+  if (!groups) return false;
+
+  const embeddedIpv4 = (high: number, low: number) => high * 0x10000 + low;
+
+  // ::ffff:a.b.c.d
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return isBlockedIpv4(embeddedIpv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries an IPv4 address in the next 32 bits
+  if (groups[0] === 0x2002) {
+    return isBlockedIpv4(embeddedIpv4(groups[1], groups[2]));
+  }
+  // Teredo (2001::/32) and documentation (2001:db8::/32)
+  if (groups[0] === 0x2001 && (groups[1] === 0 || groups[1] === 0xdb8)) return true;
+
+  return (groups[0] & 0xe000) !== 0x2000;
+}
+
+/**
+ * Hosts allowed for local testing outside production
+ */
+export function isLocalWebhookHost(hostname: string): boolean {
+  return LOCAL_HOSTS.has(hostname);
+}
+
+/**
+ * Check a URL before it is registered
+ * HTTPS is required; plain HTTP is allowed only for local testing outside
+ * production. IP addresses must be public; hostnames are resolved and checked
+ * on the server when the endpoint is saved and again before each delivery.
+ *
+ * @returns An error message (Thai), or null when the URL is acceptable
+ */
+export function validateWebhookUrl(
+  url: string,
+  allowLocalHttp: boolean = process.env.NODE_ENV !== 'production'
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL ไม่ถูกต้อง';
+  }
+
+  if (parsed.username || parsed.password) {
+    return 'URL ต้องไม่มีชื่อผู้ใช้หรือรหัสผ่าน';
+  }
+
+  const local = isLocalWebhookHost(parsed.hostname);
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowLocalHttp && local)) {
+    return 'URL ต้องขึ้นต้นด้วย https://';
+  }
+
+  if (local) return allowLocalHttp ? null : PRIVATE_WEBHOOK_HOST_ERROR;
+  if (isPrivateAddress(parsed.hostname) || parsed.hostname.endsWith('.localhost')) {
+    return PRIVATE_WEBHOOK_HOST_ERROR;
+  }
+  return null;
+}
+
+/**
+ * Check the event types an endpoint subscribes to
+ * @returns An error message (Thai), or null when the list is acceptable
+ */
+export function validateWebhookEventTypes(eventTypes: string[]): string | null {
+  if (eventTypes.length === 0) {
+    return 'กรุณาเลือกอย่างน้อยหนึ่งเหตุการณ์';
+  }
+  const unknown = eventTypes.find((type) => !WEBHOOK_EVENT_TYPES.includes(type));
+  if (unknown) {
+    return `ไม่รู้จักเหตุการณ์ ${unknown}`;
+  }
+  return null;
+}
+
+/**
+ * Whether an endpoint should receive an event
+ * Club endpoints only receive events that carry their club's id; endpoints
+ * without a club receive events from every club.
+ */
+export function endpointReceives(
+  endpoint: WebhookEndpointTarget,
+  event: { eventType: string; data: unknown }
+): boolean {
+  if (!endpoint.is_active || !endpoint.event_types.includes(event.eventType)) {
+    return false;
+  }
+  if (endpoint.club_id === null) return true;
+
+  const data = event.data as { clubId?: unknown } | null;
+  return data?.clubId === endpoint.club_id;
+}
+
+/**
+ * Delivery log row after one attempt
+ * Any non-2xx response or network error is retried with the outbox backoff
+ * until MAX_DELIVERY_ATTEMPTS, then the delivery is dead-lettered.
+ */
+export function planWebhookOutcome(
+  attemptsSoFar: number,
+  result: WebhookAttemptResult,
+  now: Date = new Date()
+): WebhookDeliveryOutcome {
+  const attempts = attemptsSoFar + 1;
+  const logged = {
+    attempts,
+    response_status: result.status,
+    response_body: result.body?.slice(0, MAX_RESPONSE_BODY_LENGTH) ?? null,
+    duration_ms: Math.round(result.durationMs),
+    locked_at: null,
+  };
+
+  if (result.ok) {
+    return {
+      ...logged,
+      status: 'delivered',
+      next_attempt_at: now.toISOString(),
+      last_error: null,
+      delivered_at: now.toISOString(),
+    };
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  return {
+    ...logged,
+    status: exhausted ? 'dead_letter' : 'pending',
+    next_attempt_at: new Date(
+      now.getTime() + (exhausted ? 0 : retryDelayMs(attempts))
+    ).toISOString(),
+    last_error: result.error ?? `HTTP ${result.status}`,
+    delivered_at: null,
+  };
+}
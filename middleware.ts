@@ -5,62 +5,47 @@ import {
   generateCausationId,
   extractCorrelationId,
 } from '@/lib/utils/correlation';
-import { checkRateLimit, getClientIdentifier, RATE_LIMIT_CONFIGS } from '@/lib/utils/rate-limit';
-
-export async function middleware(request: NextRequest) {
-  // Apply rate limiting for authentication endpoints
-  if (request.nextUrl.pathname.startsWith('/api/auth')) {
-    const clientId = getClientIdentifier(request);
-    const { allowed, retryAfter } = checkRateLimit(clientId, RATE_LIMIT_CONFIGS.AUTH);
+import {
+  enforceRateLimit,
+  getClientIdentifier,
+  rateLimitKeys,
+  RATE_LIMIT_CONFIGS,
+  type RateLimitConfig,
+} from '@/lib/utils/rate-limit';
+import { getRateLimitStore } from '@/lib/utils/rate-limit-store';
+import { createRateLimitResponse } from '@/lib/utils/rate-limit-middleware';
 
-    if (!allowed) {
-      return NextResponse.json(
-        {
-          error: 'Too many requests',
-          message: 'คุณส่งคำขอบ่อยเกินไป กรุณารอสักครู่แล้วลองใหม่อีกครั้ง',
-          retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfter?.toString() || '60',
-            'X-RateLimit-Limit': RATE_LIMIT_CONFIGS.AUTH.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(
-              Date.now() + (retryAfter || 60) * 1000
-            ).toISOString(),
-          },
-        }
-      );
-    }
-  }
+/**
+ * Apply the auth and general API limits to an /api request
+ * Both the client IP and, when signed in, the user are limited, using the
+ * shared store so the limits hold across server instances.
+ */
+async function limitApiRequest(
+  request: NextRequest,
+  userId: string | null
+): Promise<NextResponse | null> {
+  const clientId = getClientIdentifier(request);
+  const store = getRateLimitStore();
 
-  // Apply rate limiting for general API endpoints
-  if (request.nextUrl.pathname.startsWith('/api/')) {
-    const clientId = getClientIdentifier(request);
-    const { allowed, retryAfter } = checkRateLimit(clientId, RATE_LIMIT_CONFIGS.API);
+  // Authentication endpoints have a stricter limit on top of the API limit
+  const limits: { scope: string; config: RateLimitConfig }[] = [
+    ...(request.nextUrl.pathname.startsWith('/api/auth')
+      ? [{ scope: 'auth', config: RATE_LIMIT_CONFIGS.AUTH }]
+      : []),
+    { scope: 'api', config: RATE_LIMIT_CONFIGS.API },
+  ];
 
-    if (!allowed) {
-      return NextResponse.json(
-        {
-          error: 'Too many requests',
-          message: 'คุณส่งคำขอบ่อยเกินไป กรุณารอสักครู่แล้วลองใหม่อีกครั้ง',
-          retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfter?.toString() || '60',
-            'X-RateLimit-Limit': RATE_LIMIT_CONFIGS.API.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(
-              Date.now() + (retryAfter || 60) * 1000
-            ).toISOString(),
-          },
-        }
-      );
+  for (const { scope, config } of limits) {
+    const result = await enforceRateLimit(store, rateLimitKeys(scope, clientId, userId), config);
+    if (!result.allowed) {
+      return createRateLimitResponse(result, config);
     }
   }
+  return null;
+}
+
+export async function middleware(request: NextRequest) {
+  const isApiRequest = request.nextUrl.pathname.startsWith('/api/');
 
   // Generate or extract correlation ID
   const existingCorrelationId = extractCorrelationId(request.headers);
@@ -68,9 +53,14 @@ export async function middleware(request: NextRequest) {
   
   // Generate causation ID for this operation
   const causationId = generateCausationId();
-  
+
+  // Forward the correlation ID so server actions and route handlers can read it
+  request.headers.set('x-correlation-id', correlationId);
+
   // Call the session update middleware
-  const response = await updateSession(request);
+  const response = await updateSession(request, {
+    onUser: isApiRequest ? (user) => limitApiRequest(request, user?.id ?? null) : undefined,
+  });
   
   // Add correlation and causation IDs to response headers
   response.headers.set('X-Correlation-ID', correlationId);
@@ -0,0 +1,160 @@
+-- Migration: 136-create-training-session-series.sql
+-- Description: Recurring training session series with per-occurrence exceptions
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Series template: one row per recurring schedule (e.g. Mon/Wed/Fri practice)
+CREATE TABLE IF NOT EXISTS training_session_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES clubs(id) ON DELETE CASCADE,
+  coach_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+
+  title TEXT NOT NULL,
+  description TEXT,
+  location TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly')),
+  weekdays SMALLINT[] NOT NULL CHECK (array_length(weekdays, 1) > 0),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT series_bounded CHECK (end_date IS NOT NULL OR occurrence_count IS NOT NULL),
+  CONSTRAINT series_valid_date_range CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT series_valid_time_range CHECK (end_time > start_time)
+);
+
+-- One-off deviations from the series template
+-- skip: occurrence removed (e.g. public holiday)
+-- modified: occurrence edited individually, excluded from series-wide edits
+CREATE TABLE IF NOT EXISTS training_session_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES training_session_series(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  exception_type VARCHAR(20) NOT NULL CHECK (exception_type IN ('skip', 'modified')),
+  reason TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(series_id, occurrence_date)
+);
+
+-- Link materialised occurrences back to their series
+ALTER TABLE training_sessions
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES training_session_series(id) ON DELETE SET NULL;
+
+ALTER TABLE training_sessions
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_training_session_series_club_id ON training_session_series(club_id);
+CREATE INDEX IF NOT EXISTS idx_training_session_series_coach_id ON training_session_series(coach_id);
+CREATE INDEX IF NOT EXISTS idx_training_session_exceptions_series ON training_session_exceptions(series_id);
+CREATE INDEX IF NOT EXISTS idx_training_sessions_series ON training_sessions(series_id, occurrence_date);
+
+COMMENT ON TABLE training_session_series IS 'Recurring training schedule; occurrences are materialised into training_sessions';
+COMMENT ON TABLE training_session_exceptions IS 'Skipped or individually modified occurrences of a series';
+COMMENT ON COLUMN training_sessions.series_id IS 'Series this session was generated from (NULL = one-off session)';
+COMMENT ON COLUMN training_sessions.occurrence_date IS 'Original scheduled date within the series, kept when the occurrence is moved';
+
+-- Enable RLS
+ALTER TABLE training_session_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_session_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches manage club series" ON training_session_series;
+DROP POLICY IF EXISTS "Athletes view club series" ON training_session_series;
+DROP POLICY IF EXISTS "Admins manage all series" ON training_session_series;
+DROP POLICY IF EXISTS "Coaches manage club series exceptions" ON training_session_exceptions;
+DROP POLICY IF EXISTS "Athletes view club series exceptions" ON training_session_exceptions;
+DROP POLICY IF EXISTS "Admins manage all series exceptions" ON training_session_exceptions;
+
+CREATE POLICY "Coaches manage club series"
+  ON training_session_series
+  FOR ALL
+  USING (
+    coach_id = auth.uid()
+    OR created_by = auth.uid()
+    OR club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    coach_id = auth.uid()
+    OR created_by = auth.uid()
+    OR club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Athletes view club series"
+  ON training_session_series
+  FOR SELECT
+  USING (club_id IN (SELECT club_id FROM athletes WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins manage all series"
+  ON training_session_series
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Coaches manage club series exceptions"
+  ON training_session_exceptions
+  FOR ALL
+  USING (
+    series_id IN (
+      SELECT id FROM training_session_series
+      WHERE club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid())
+    )
+  )
+  WITH CHECK (
+    series_id IN (
+      SELECT id FROM training_session_series
+      WHERE club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Athletes view club series exceptions"
+  ON training_session_exceptions
+  FOR SELECT
+  USING (
+    series_id IN (
+      SELECT id FROM training_session_series
+      WHERE club_id IN (SELECT club_id FROM athletes WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins manage all series exceptions"
+  ON training_session_exceptions
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_training_session_series_updated_at ON training_session_series;
+CREATE TRIGGER update_training_session_series_updated_at
+  BEFORE UPDATE ON training_session_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP INDEX IF EXISTS idx_training_sessions_series;
+-- ALTER TABLE training_sessions DROP COLUMN IF EXISTS occurrence_date;
+-- ALTER TABLE training_sessions DROP COLUMN IF EXISTS series_id;
+-- DROP TABLE IF EXISTS training_session_exceptions;
+-- DROP TABLE IF EXISTS training_session_series;
+
+-- COMMIT;
@@ -0,0 +1,99 @@
+-- Migration: 137-create-check-in-geofences.sql
+-- Description: Optional check-in geofences per club/location and device location on attendance
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Geofence used to verify athlete self check-in
+-- location = NULL is the club-wide default; a row with a location name
+-- (matched against training_sessions.location) overrides it for that place
+CREATE TABLE IF NOT EXISTS check_in_geofences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES clubs(id) ON DELETE CASCADE,
+  location TEXT,
+
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_m INTEGER NOT NULL CHECK (radius_m BETWEEN 10 AND 5000),
+
+  -- reject: refuse check-ins outside the fence; flag: save them but mark for review
+  enforcement VARCHAR(20) NOT NULL DEFAULT 'flag' CHECK (enforcement IN ('reject', 'flag')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_check_in_geofences_club_location
+  ON check_in_geofences(club_id, COALESCE(lower(location), ''));
+
+-- Device location captured at self check-in
+ALTER TABLE attendance
+ADD COLUMN IF NOT EXISTS check_in_latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS check_in_longitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS check_in_accuracy_m DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS check_in_distance_m DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS geofence_flagged BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS geofence_flag_reason VARCHAR(30)
+  CHECK (geofence_flag_reason IS NULL OR geofence_flag_reason IN ('missing_location', 'low_accuracy', 'near_boundary', 'outside'));
+
+CREATE INDEX IF NOT EXISTS idx_attendance_geofence_flagged
+  ON attendance(training_session_id) WHERE geofence_flagged = true;
+
+COMMENT ON TABLE check_in_geofences IS 'Optional geofence (centre + radius) that athlete self check-ins are verified against';
+COMMENT ON COLUMN attendance.check_in_distance_m IS 'Distance from the geofence centre at check-in, NULL when no fence applied';
+COMMENT ON COLUMN attendance.geofence_flagged IS 'Check-in could not be verified inside the geofence and needs coach review';
+
+-- Enable RLS
+ALTER TABLE check_in_geofences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches manage club geofences" ON check_in_geofences;
+DROP POLICY IF EXISTS "Athletes view club geofences" ON check_in_geofences;
+DROP POLICY IF EXISTS "Admins manage all geofences" ON check_in_geofences;
+
+CREATE POLICY "Coaches manage club geofences"
+  ON check_in_geofences
+  FOR ALL
+  USING (club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid()))
+  WITH CHECK (club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid()));
+
+CREATE POLICY "Athletes view club geofences"
+  ON check_in_geofences
+  FOR SELECT
+  USING (club_id IN (SELECT club_id FROM athletes WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins manage all geofences"
+  ON check_in_geofences
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_check_in_geofences_updated_at ON check_in_geofences;
+CREATE TRIGGER update_check_in_geofences_updated_at
+  BEFORE UPDATE ON check_in_geofences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP INDEX IF EXISTS idx_attendance_geofence_flagged;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS geofence_flag_reason;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS geofence_flagged;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS check_in_distance_m;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS check_in_accuracy_m;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS check_in_longitude;
+-- ALTER TABLE attendance DROP COLUMN IF EXISTS check_in_latitude;
+-- DROP TABLE IF EXISTS check_in_geofences;
+
+-- COMMIT;
@@ -0,0 +1,164 @@
+-- Migration: 138-add-attendance-close-out.sql
+-- Description: Lock attendance sheets once a training session has been closed out, with club membership history for the roster
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Set by the close-out job after absent/excused rows have been written.
+-- A locked sheet can only be changed by admins (or the service role).
+ALTER TABLE training_sessions
+ADD COLUMN IF NOT EXISTS attendance_locked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS attendance_locked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Close-out scans for ended sessions that are still open
+CREATE INDEX IF NOT EXISTS idx_training_sessions_open_attendance
+  ON training_sessions(session_date)
+  WHERE attendance_locked_at IS NULL;
+
+COMMENT ON COLUMN training_sessions.attendance_locked_at IS 'When the attendance sheet was closed out; NULL while check-in/marking is still open';
+COMMENT ON COLUMN training_sessions.attendance_locked_by IS 'Admin who ran the close-out, NULL when run by the scheduled job';
+
+-- Sessions held before close-out existed keep the attendance they have: lock
+-- them now so the first run does not mark everyone missing from them absent
+UPDATE training_sessions
+SET attendance_locked_at = NOW()
+WHERE attendance_locked_at IS NULL
+  AND session_date < CURRENT_DATE;
+
+-- Which club an athlete belonged to and when, so close-out takes the roster
+-- that applied at the session rather than today's athletes.club_id
+CREATE TABLE IF NOT EXISTS athlete_club_memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  athlete_id UUID NOT NULL REFERENCES athletes(id) ON DELETE CASCADE,
+  club_id UUID NOT NULL REFERENCES clubs(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- NULL while the athlete is still in the club
+  left_at TIMESTAMPTZ,
+  CHECK (left_at IS NULL OR left_at >= joined_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_athlete_club_memberships_club
+  ON athlete_club_memberships(club_id, joined_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_athlete_club_memberships_open
+  ON athlete_club_memberships(athlete_id)
+  WHERE left_at IS NULL;
+
+COMMENT ON TABLE athlete_club_memberships IS 'Club membership periods of each athlete, maintained from athletes.club_id';
+
+-- Current members joined when their athlete profile was created
+INSERT INTO athlete_club_memberships (athlete_id, club_id, joined_at)
+SELECT a.id, a.club_id, a.created_at
+FROM athletes a
+WHERE a.club_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM athlete_club_memberships m
+    WHERE m.athlete_id = a.id AND m.left_at IS NULL
+  );
+
+-- Close the open membership and start a new one whenever the club changes
+CREATE OR REPLACE FUNCTION track_athlete_club_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.club_id IS NOT DISTINCT FROM OLD.club_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE athlete_club_memberships
+  SET left_at = NOW()
+  WHERE athlete_id = NEW.id AND left_at IS NULL;
+
+  IF NEW.club_id IS NOT NULL THEN
+    INSERT INTO athlete_club_memberships (athlete_id, club_id)
+    VALUES (NEW.id, NEW.club_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_athlete_club_membership ON athletes;
+CREATE TRIGGER track_athlete_club_membership
+  AFTER INSERT OR UPDATE OF club_id ON athletes
+  FOR EACH ROW
+  EXECUTE FUNCTION track_athlete_club_membership();
+
+-- Enable RLS; rows are only written by the trigger
+ALTER TABLE athlete_club_memberships ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches view club memberships" ON athlete_club_memberships;
+DROP POLICY IF EXISTS "Athletes view own memberships" ON athlete_club_memberships;
+DROP POLICY IF EXISTS "Admins view all memberships" ON athlete_club_memberships;
+
+CREATE POLICY "Coaches view club memberships"
+  ON athlete_club_memberships
+  FOR SELECT
+  USING (club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid()));
+
+CREATE POLICY "Athletes view own memberships"
+  ON athlete_club_memberships
+  FOR SELECT
+  USING (athlete_id IN (SELECT id FROM athletes WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins view all memberships"
+  ON athlete_club_memberships
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Reject attendance changes on locked sheets for everyone except admins
+CREATE OR REPLACE FUNCTION prevent_locked_attendance_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF auth.role() = 'service_role'
+     OR EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_session_id := OLD.training_session_id;
+  ELSE
+    v_session_id := NEW.training_session_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM training_sessions
+    WHERE id = v_session_id AND attendance_locked_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Attendance for training session % is locked', v_session_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_attendance_not_locked ON attendance;
+CREATE TRIGGER check_attendance_not_locked
+  BEFORE INSERT OR UPDATE OR DELETE ON attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_attendance_changes();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP TRIGGER IF EXISTS check_attendance_not_locked ON attendance;
+-- DROP TRIGGER IF EXISTS track_athlete_club_membership ON athletes;
+-- DROP FUNCTION IF EXISTS track_athlete_club_membership();
+-- DROP TABLE IF EXISTS athlete_club_memberships;
+-- DROP FUNCTION IF EXISTS prevent_locked_attendance_changes();
+-- DROP INDEX IF EXISTS idx_training_sessions_open_attendance;
+-- ALTER TABLE training_sessions DROP COLUMN IF EXISTS attendance_locked_by;
+-- ALTER TABLE training_sessions DROP COLUMN IF EXISTS attendance_locked_at;
+
+-- COMMIT;
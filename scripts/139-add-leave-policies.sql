@@ -0,0 +1,126 @@
+-- Migration: 139-add-leave-policies.sql
+-- Description: Leave request categories, attachments, policy checks and review comments
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+ALTER TABLE leave_requests
+ADD COLUMN IF NOT EXISTS reason_category VARCHAR(20) NOT NULL DEFAULT 'other'
+  CHECK (reason_category IN ('sick', 'injury', 'family', 'school', 'travel', 'other')),
+ADD COLUMN IF NOT EXISTS attachment_path TEXT,
+ADD COLUMN IF NOT EXISTS policy_violations JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS auto_approved BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS review_comment TEXT
+  CHECK (review_comment IS NULL OR char_length(review_comment) <= 500);
+
+COMMENT ON COLUMN leave_requests.reason_category IS 'Reason category used by the club leave policy (e.g. sick requires a medical certificate)';
+COMMENT ON COLUMN leave_requests.attachment_path IS 'Path of the supporting document in the leave-attachments bucket';
+COMMENT ON COLUMN leave_requests.policy_violations IS 'Leave policy rules the request broke when submitted ([] when within policy)';
+COMMENT ON COLUMN leave_requests.auto_approved IS 'Approved automatically because the request was within the club leave policy';
+COMMENT ON COLUMN leave_requests.review_comment IS 'Comment from the coach who approved or rejected the request';
+
+-- Monthly leave limit counts an athlete's requests per month
+CREATE INDEX IF NOT EXISTS idx_leave_requests_athlete_status
+  ON leave_requests(athlete_id, status);
+
+-- Athletes may only submit pending requests; auto-approval happens server-side
+CREATE OR REPLACE FUNCTION enforce_pending_leave_requests()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.auto_approved := false;
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_comment := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_leave_request_pending ON leave_requests;
+CREATE TRIGGER check_leave_request_pending
+  BEFORE INSERT ON leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_pending_leave_requests();
+
+-- Supporting documents (medical certificates etc.)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'leave-attachments',
+  'leave-attachments',
+  false, -- Private bucket, read through signed URLs
+  10485760, -- 10MB limit
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+-- Athletes upload into their own folder
+CREATE POLICY "Athletes can upload own leave attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Athletes can view own leave attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Coaches can view attachments from athletes in their club
+CREATE POLICY "Coaches can view club leave attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'leave-attachments'
+    AND EXISTS (
+      SELECT 1
+      FROM profiles coach
+      JOIN profiles athlete ON athlete.club_id = coach.club_id
+      WHERE coach.id = auth.uid()
+      AND coach.role = 'coach'
+      AND athlete.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Admins have full access to leave attachments"
+  ON storage.objects FOR ALL
+  USING (
+    bucket_id = 'leave-attachments'
+    AND EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin')
+  );
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP POLICY IF EXISTS "Admins have full access to leave attachments" ON storage.objects;
+-- DROP POLICY IF EXISTS "Coaches can view club leave attachments" ON storage.objects;
+-- DROP POLICY IF EXISTS "Athletes can view own leave attachments" ON storage.objects;
+-- DROP POLICY IF EXISTS "Athletes can upload own leave attachments" ON storage.objects;
+-- DELETE FROM storage.buckets WHERE id = 'leave-attachments';
+-- DROP TRIGGER IF EXISTS check_leave_request_pending ON leave_requests;
+-- DROP FUNCTION IF EXISTS enforce_pending_leave_requests();
+-- DROP INDEX IF EXISTS idx_leave_requests_athlete_status;
+-- ALTER TABLE leave_requests DROP COLUMN IF EXISTS review_comment;
+-- ALTER TABLE leave_requests DROP COLUMN IF EXISTS auto_approved;
+-- ALTER TABLE leave_requests DROP COLUMN IF EXISTS policy_violations;
+-- ALTER TABLE leave_requests DROP COLUMN IF EXISTS attachment_path;
+-- ALTER TABLE leave_requests DROP COLUMN IF EXISTS reason_category;
+
+-- COMMIT;
@@ -0,0 +1,218 @@
+-- Migration: 140-create-tournament-events.sql
+-- Description: Tournament events with brackets, matches and results that feed performance records
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- An event (category/discipline) within a tournament, e.g. "100m freestyle U12"
+CREATE TABLE IF NOT EXISTS tournament_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('single_elimination', 'round_robin', 'ranking')),
+  result_type TEXT NOT NULL DEFAULT 'placing' CHECK (result_type IN ('placing', 'score', 'time')),
+  unit TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_progress', 'completed')),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Knockout and round robin events are ranked by placing
+  CONSTRAINT tournament_events_result_type CHECK (format = 'ranking' OR result_type = 'placing'),
+  CONSTRAINT tournament_events_ranking_measure CHECK (format <> 'ranking' OR result_type <> 'placing')
+);
+
+-- Participants entered in an event, in seed order
+CREATE TABLE IF NOT EXISTS tournament_event_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES tournament_events(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES tournament_participants(id) ON DELETE CASCADE,
+  seed INTEGER NOT NULL CHECK (seed > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(event_id, participant_id)
+);
+
+-- Knockout and round robin fixtures; a NULL side is a bye or a slot not decided yet
+CREATE TABLE IF NOT EXISTS tournament_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES tournament_events(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round > 0),
+  match_number INTEGER NOT NULL CHECK (match_number > 0),
+  participant_a_id UUID REFERENCES tournament_participants(id) ON DELETE SET NULL,
+  participant_b_id UUID REFERENCES tournament_participants(id) ON DELETE SET NULL,
+  score_a NUMERIC(10, 3),
+  score_b NUMERIC(10, 3),
+  winner_id UUID REFERENCES tournament_participants(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'bye')),
+  played_at TIMESTAMPTZ,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(event_id, round, match_number)
+);
+
+-- Final result per participant; linked to the performance record it produced
+CREATE TABLE IF NOT EXISTS tournament_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES tournament_events(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES tournament_participants(id) ON DELETE CASCADE,
+  placing INTEGER CHECK (placing IS NULL OR placing > 0),
+  score NUMERIC(10, 3),
+  time_seconds NUMERIC(10, 3) CHECK (time_seconds IS NULL OR time_seconds >= 0),
+  performance_record_id UUID REFERENCES performance_records(id) ON DELETE SET NULL,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(event_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_events_tournament ON tournament_events(tournament_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_event_entries_event ON tournament_event_entries(event_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_event ON tournament_matches(event_id, round);
+CREATE INDEX IF NOT EXISTS idx_tournament_results_event ON tournament_results(event_id);
+
+ALTER TABLE tournament_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_event_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_results ENABLE ROW LEVEL SECURITY;
+
+-- Coaches manage events of their club's tournaments (same rule as tournament_participants)
+CREATE OR REPLACE FUNCTION is_tournament_event_coach(p_event_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM tournament_events e
+    JOIN tournaments t ON t.id = e.tournament_id
+    JOIN profiles p ON p.club_id = t.club_id
+    WHERE e.id = p_event_id AND p.id = auth.uid() AND p.role = 'coach'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Athletes can see events of tournaments they were selected for
+CREATE OR REPLACE FUNCTION is_tournament_event_participant(p_event_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM tournament_events e
+    JOIN tournament_participants tp ON tp.tournament_id = e.tournament_id
+    WHERE e.id = p_event_id AND tp.athlete_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Coaches manage tournament events" ON tournament_events;
+CREATE POLICY "Coaches manage tournament events"
+  ON tournament_events FOR ALL
+  USING (
+    tournament_id IN (
+      SELECT t.id FROM tournaments t
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  )
+  WITH CHECK (
+    tournament_id IN (
+      SELECT t.id FROM tournaments t
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  );
+
+DROP POLICY IF EXISTS "Athletes view tournament events" ON tournament_events;
+CREATE POLICY "Athletes view tournament events"
+  ON tournament_events FOR SELECT
+  USING (is_tournament_event_participant(id));
+
+DROP POLICY IF EXISTS "Coaches manage event entries" ON tournament_event_entries;
+CREATE POLICY "Coaches manage event entries"
+  ON tournament_event_entries FOR ALL
+  USING (is_tournament_event_coach(event_id))
+  WITH CHECK (is_tournament_event_coach(event_id));
+
+DROP POLICY IF EXISTS "Athletes view event entries" ON tournament_event_entries;
+CREATE POLICY "Athletes view event entries"
+  ON tournament_event_entries FOR SELECT
+  USING (is_tournament_event_participant(event_id));
+
+DROP POLICY IF EXISTS "Coaches manage matches" ON tournament_matches;
+CREATE POLICY "Coaches manage matches"
+  ON tournament_matches FOR ALL
+  USING (is_tournament_event_coach(event_id))
+  WITH CHECK (is_tournament_event_coach(event_id));
+
+DROP POLICY IF EXISTS "Athletes view matches" ON tournament_matches;
+CREATE POLICY "Athletes view matches"
+  ON tournament_matches FOR SELECT
+  USING (is_tournament_event_participant(event_id));
+
+DROP POLICY IF EXISTS "Coaches manage results" ON tournament_results;
+CREATE POLICY "Coaches manage results"
+  ON tournament_results FOR ALL
+  USING (is_tournament_event_coach(event_id))
+  WITH CHECK (is_tournament_event_coach(event_id));
+
+DROP POLICY IF EXISTS "Athletes view results" ON tournament_results;
+CREATE POLICY "Athletes view results"
+  ON tournament_results FOR SELECT
+  USING (is_tournament_event_participant(event_id));
+
+DROP POLICY IF EXISTS "Admins manage tournament events" ON tournament_events;
+CREATE POLICY "Admins manage tournament events"
+  ON tournament_events FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage event entries" ON tournament_event_entries;
+CREATE POLICY "Admins manage event entries"
+  ON tournament_event_entries FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage matches" ON tournament_matches;
+CREATE POLICY "Admins manage matches"
+  ON tournament_matches FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage results" ON tournament_results;
+CREATE POLICY "Admins manage results"
+  ON tournament_results FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_tournament_events_updated_at ON tournament_events;
+CREATE TRIGGER update_tournament_events_updated_at
+  BEFORE UPDATE ON tournament_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tournament_matches_updated_at ON tournament_matches;
+CREATE TRIGGER update_tournament_matches_updated_at
+  BEFORE UPDATE ON tournament_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tournament_results_updated_at ON tournament_results;
+CREATE TRIGGER update_tournament_results_updated_at
+  BEFORE UPDATE ON tournament_results
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP TABLE IF EXISTS tournament_results;
+-- DROP TABLE IF EXISTS tournament_matches;
+-- DROP TABLE IF EXISTS tournament_event_entries;
+-- DROP TABLE IF EXISTS tournament_events;
+-- DROP FUNCTION IF EXISTS is_tournament_event_participant(UUID);
+-- DROP FUNCTION IF EXISTS is_tournament_event_coach(UUID);
+
+-- COMMIT;
@@ -0,0 +1,110 @@
+-- Migration: 141-add-tournament-categories.sql
+-- Description: Tournament entry categories (age, gender, weight, skill level) and waitlist ordering
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Age brackets are computed on this date; defaults to the tournament start date
+ALTER TABLE tournaments
+  ADD COLUMN IF NOT EXISTS age_reference_date DATE;
+
+CREATE TABLE IF NOT EXISTS tournament_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+
+  min_age INTEGER CHECK (min_age IS NULL OR min_age >= 0),
+  max_age INTEGER CHECK (max_age IS NULL OR max_age >= 0),
+  gender TEXT CHECK (gender IS NULL OR gender IN ('male', 'female')),
+  min_weight_kg NUMERIC(5, 2) CHECK (min_weight_kg IS NULL OR min_weight_kg > 0),
+  max_weight_kg NUMERIC(5, 2) CHECK (max_weight_kg IS NULL OR max_weight_kg > 0),
+  skill_levels TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (skill_levels <@ ARRAY['beginner', 'intermediate', 'advanced']::TEXT[]),
+  max_participants INTEGER CHECK (max_participants IS NULL OR max_participants > 0),
+
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_age_range CHECK (min_age IS NULL OR max_age IS NULL OR min_age <= max_age),
+  CONSTRAINT valid_weight_range CHECK (
+    min_weight_kg IS NULL OR max_weight_kg IS NULL OR min_weight_kg <= max_weight_kg
+  ),
+  UNIQUE(tournament_id, name)
+);
+
+-- Entry details: category plus the weigh-in weight and assessed level the entry was checked against
+ALTER TABLE tournament_participants
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES tournament_categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS weight_kg NUMERIC(5, 2) CHECK (weight_kg IS NULL OR weight_kg > 0),
+  ADD COLUMN IF NOT EXISTS skill_level TEXT
+    CHECK (skill_level IS NULL OR skill_level IN ('beginner', 'intermediate', 'advanced'));
+
+CREATE INDEX IF NOT EXISTS idx_tournament_categories_tournament ON tournament_categories(tournament_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_participants_category ON tournament_participants(category_id);
+-- Waitlist is promoted in the order athletes were added
+CREATE INDEX IF NOT EXISTS idx_tournament_participants_waitlist
+  ON tournament_participants(tournament_id, added_at)
+  WHERE status = 'waiting';
+
+ALTER TABLE tournament_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches manage tournament categories" ON tournament_categories;
+CREATE POLICY "Coaches manage tournament categories"
+  ON tournament_categories FOR ALL
+  USING (
+    tournament_id IN (
+      SELECT t.id FROM tournaments t
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  )
+  WITH CHECK (
+    tournament_id IN (
+      SELECT t.id FROM tournaments t
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  );
+
+DROP POLICY IF EXISTS "Athletes view tournament categories" ON tournament_categories;
+CREATE POLICY "Athletes view tournament categories"
+  ON tournament_categories FOR SELECT
+  USING (
+    tournament_id IN (
+      SELECT tournament_id FROM tournament_participants WHERE athlete_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins manage tournament categories" ON tournament_categories;
+CREATE POLICY "Admins manage tournament categories"
+  ON tournament_categories FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_tournament_categories_updated_at ON tournament_categories;
+CREATE TRIGGER update_tournament_categories_updated_at
+  BEFORE UPDATE ON tournament_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP INDEX IF EXISTS idx_tournament_participants_waitlist;
+-- ALTER TABLE tournament_participants
+--   DROP COLUMN IF EXISTS skill_level,
+--   DROP COLUMN IF EXISTS weight_kg,
+--   DROP COLUMN IF EXISTS category_id;
+-- DROP TABLE IF EXISTS tournament_categories;
+-- ALTER TABLE tournaments DROP COLUMN IF EXISTS age_reference_date;
+
+-- COMMIT;
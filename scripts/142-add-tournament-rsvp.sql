@@ -0,0 +1,220 @@
+-- Migration: 142-add-tournament-rsvp.sql
+-- Description: Athlete/parent tournament RSVP, response history and selection notifications
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+-- New enum values cannot be added inside the transaction that uses them
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumtypid = 'notification_type'::regtype
+    AND enumlabel = 'tournament_selection'
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'tournament_selection';
+  END IF;
+END $$;
+
+BEGIN;
+
+-- Current answers; status remains the coach-facing outcome
+ALTER TABLE tournament_participants
+  ADD COLUMN IF NOT EXISTS athlete_response TEXT
+    CHECK (athlete_response IS NULL OR athlete_response IN ('confirmed', 'declined')),
+  ADD COLUMN IF NOT EXISTS athlete_responded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS consent_required BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS parent_consent TEXT
+    CHECK (parent_consent IS NULL OR parent_consent IN ('given', 'refused')),
+  ADD COLUMN IF NOT EXISTS parent_consent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS parent_consent_by UUID REFERENCES parent_connections(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS response_reason TEXT CHECK (char_length(response_reason) <= 500);
+
+-- Every answer, in order; responder_id is an auth user for athletes/coaches and a parent_users id for parents
+CREATE TABLE IF NOT EXISTS tournament_rsvp_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  participant_id UUID NOT NULL REFERENCES tournament_participants(id) ON DELETE CASCADE,
+  responder_type TEXT NOT NULL CHECK (responder_type IN ('athlete', 'parent', 'coach')),
+  responder_id UUID NOT NULL,
+  response TEXT NOT NULL CHECK (response IN ('confirmed', 'declined', 'consent_given', 'consent_refused')),
+  reason TEXT CHECK (char_length(reason) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_rsvp_responses_participant
+  ON tournament_rsvp_responses(participant_id, created_at);
+
+ALTER TABLE tournament_rsvp_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches view rsvp responses" ON tournament_rsvp_responses;
+CREATE POLICY "Coaches view rsvp responses"
+  ON tournament_rsvp_responses FOR SELECT
+  USING (
+    participant_id IN (
+      SELECT tp.id FROM tournament_participants tp
+      INNER JOIN tournaments t ON t.id = tp.tournament_id
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  );
+
+DROP POLICY IF EXISTS "Coaches record rsvp responses" ON tournament_rsvp_responses;
+CREATE POLICY "Coaches record rsvp responses"
+  ON tournament_rsvp_responses FOR INSERT
+  WITH CHECK (
+    responder_type = 'coach'
+    AND responder_id = auth.uid()
+    AND participant_id IN (
+      SELECT tp.id FROM tournament_participants tp
+      INNER JOIN tournaments t ON t.id = tp.tournament_id
+      INNER JOIN profiles p ON p.club_id = t.club_id
+      WHERE p.id = auth.uid() AND p.role = 'coach'
+    )
+  );
+
+DROP POLICY IF EXISTS "Athletes view own rsvp responses" ON tournament_rsvp_responses;
+CREATE POLICY "Athletes view own rsvp responses"
+  ON tournament_rsvp_responses FOR SELECT
+  USING (
+    participant_id IN (SELECT id FROM tournament_participants WHERE athlete_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins manage rsvp responses" ON tournament_rsvp_responses;
+CREATE POLICY "Admins manage rsvp responses"
+  ON tournament_rsvp_responses FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Parents are notified about tournaments too
+ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_type_check;
+ALTER TABLE parent_notifications ADD CONSTRAINT parent_notifications_type_check
+  CHECK (type IN ('attendance', 'performance', 'leave', 'announcement', 'goal', 'report', 'tournament'));
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS tournament_id UUID REFERENCES tournaments(id) ON DELETE CASCADE;
+
+-- A new selection (first pick, re-selection or waitlist promotion) starts the RSVP over
+CREATE OR REPLACE FUNCTION reset_tournament_rsvp()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'selected' AND OLD.status NOT IN ('selected', 'confirmed') THEN
+    NEW.athlete_response := NULL;
+    NEW.athlete_responded_at := NULL;
+    NEW.parent_consent := NULL;
+    NEW.parent_consent_at := NULL;
+    NEW.parent_consent_by := NULL;
+    NEW.response_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_reset_tournament_rsvp ON tournament_participants;
+CREATE TRIGGER trigger_reset_tournament_rsvp
+  BEFORE UPDATE OF status ON tournament_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_tournament_rsvp();
+
+-- Notify the athlete and their verified parents when a place is offered
+CREATE OR REPLACE FUNCTION notify_tournament_selection()
+RETURNS TRIGGER AS $$
+DECLARE
+  tournament_record RECORD;
+  athlete_record RECORD;
+  parent_record RECORD;
+BEGIN
+  IF NEW.status <> 'selected' OR (TG_OP = 'UPDATE' AND OLD.status IN ('selected', 'confirmed')) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, start_date, location INTO tournament_record
+  FROM tournaments WHERE id = NEW.tournament_id;
+
+  INSERT INTO notifications (user_id, type, title, message, link, tournament_id)
+  VALUES (
+    NEW.athlete_id,
+    'tournament_selection',
+    'คุณได้รับเลือกเข้าร่วมทัวร์นาเมนต์',
+    format('คุณได้รับเลือกให้เข้าร่วม "%s" วันที่ %s กรุณายืนยันการเข้าร่วม',
+      tournament_record.name,
+      TO_CHAR(tournament_record.start_date, 'DD/MM/YYYY')
+    ),
+    '/dashboard/athlete/tournaments',
+    NEW.tournament_id
+  );
+
+  SELECT id, first_name, last_name INTO athlete_record
+  FROM athletes WHERE user_id = NEW.athlete_id;
+
+  IF athlete_record.id IS NOT NULL THEN
+    FOR parent_record IN
+      SELECT id FROM parent_connections
+      WHERE athlete_id = athlete_record.id AND is_verified = TRUE AND is_active = TRUE
+    LOOP
+      INSERT INTO parent_notifications (parent_connection_id, athlete_id, type, title, message, data)
+      VALUES (
+        parent_record.id,
+        athlete_record.id,
+        'tournament',
+        'บุตรหลานได้รับเลือกเข้าร่วมทัวร์นาเมนต์',
+        format('%s %s ได้รับเลือกให้เข้าร่วม "%s" วันที่ %s',
+          athlete_record.first_name,
+          athlete_record.last_name,
+          tournament_record.name,
+          TO_CHAR(tournament_record.start_date, 'DD/MM/YYYY')
+        ),
+        jsonb_build_object('tournament_id', NEW.tournament_id, 'participant_id', NEW.id)
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_tournament_selection ON tournament_participants;
+CREATE TRIGGER trigger_notify_tournament_selection
+  AFTER INSERT OR UPDATE OF status ON tournament_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_tournament_selection();
+
+-- Live RSVP summary for coaches
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'tournament_participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE tournament_participants;
+  END IF;
+END $$;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- ALTER PUBLICATION supabase_realtime DROP TABLE tournament_participants;
+-- DROP TRIGGER IF EXISTS trigger_notify_tournament_selection ON tournament_participants;
+-- DROP FUNCTION IF EXISTS notify_tournament_selection();
+-- DROP TRIGGER IF EXISTS trigger_reset_tournament_rsvp ON tournament_participants;
+-- DROP FUNCTION IF EXISTS reset_tournament_rsvp();
+-- ALTER TABLE notifications DROP COLUMN IF EXISTS tournament_id;
+-- ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_type_check;
+-- ALTER TABLE parent_notifications ADD CONSTRAINT parent_notifications_type_check
+--   CHECK (type IN ('attendance', 'performance', 'leave', 'announcement', 'goal', 'report'));
+-- DROP TABLE IF EXISTS tournament_rsvp_responses;
+-- ALTER TABLE tournament_participants
+--   DROP COLUMN IF EXISTS response_reason,
+--   DROP COLUMN IF EXISTS parent_consent_by,
+--   DROP COLUMN IF EXISTS parent_consent_at,
+--   DROP COLUMN IF EXISTS parent_consent,
+--   DROP COLUMN IF EXISTS consent_required,
+--   DROP COLUMN IF EXISTS athlete_responded_at,
+--   DROP COLUMN IF EXISTS athlete_response;
+
+-- COMMIT;
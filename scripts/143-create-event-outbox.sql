@@ -0,0 +1,94 @@
+-- Migration: 143-create-event-outbox.sql
+-- Description: Outbox for domain events (events/schemas) with dispatcher claims, retries and dead-lettering
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- One row per event; id is the envelope's eventId so re-enqueueing is a no-op
+CREATE TABLE IF NOT EXISTS event_outbox (
+  id UUID PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  correlation_id UUID NOT NULL,
+  causation_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'delivered', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  -- Subscribers that already handled the event, so a retry only re-runs the ones that failed
+  delivered_to TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_due
+  ON event_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_event_outbox_correlation ON event_outbox(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_event_outbox_dead_letter
+  ON event_outbox(created_at DESC)
+  WHERE status = 'dead_letter';
+
+ALTER TABLE event_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Server actions enqueue with the signed-in user's client; only fresh rows
+DROP POLICY IF EXISTS "Users enqueue events" ON event_outbox;
+CREATE POLICY "Users enqueue events"
+  ON event_outbox FOR INSERT
+  WITH CHECK (
+    auth.uid() IS NOT NULL
+    AND created_by = auth.uid()
+    AND status = 'pending'
+    AND attempts = 0
+  );
+
+DROP POLICY IF EXISTS "Admins manage event outbox" ON event_outbox;
+CREATE POLICY "Admins manage event outbox"
+  ON event_outbox FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Claim due events for one dispatcher run. SKIP LOCKED lets overlapping runs
+-- share the queue; a claim older than the lock timeout is treated as a
+-- crashed run and handed out again.
+CREATE OR REPLACE FUNCTION claim_outbox_events(
+  p_limit INTEGER DEFAULT 50,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF event_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE event_outbox o
+  SET status = 'processing', locked_at = NOW()
+  WHERE o.id IN (
+    SELECT id FROM event_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_outbox_events(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS claim_outbox_events(INTEGER, INTERVAL);
+-- DROP TABLE IF EXISTS event_outbox;
+
+-- COMMIT;
@@ -0,0 +1,139 @@
+-- Migration: 144-create-webhooks.sql
+-- Description: Outbound webhook endpoints filtered by event type, with a per-delivery log, retries and replay
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- club_id NULL receives events from every club (admins only)
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID REFERENCES clubs(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description VARCHAR(200),
+  event_types TEXT[] NOT NULL CHECK (cardinality(event_types) > 0),
+  secret TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_club ON webhook_endpoints(club_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_event_types
+  ON webhook_endpoints USING GIN (event_types)
+  WHERE is_active = true;
+
+-- One row per (endpoint, event); the row is the delivery log and the retry queue
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'delivered', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  duration_ms INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  UNIQUE (endpoint_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON webhook_deliveries(endpoint_id, created_at DESC);
+
+COMMENT ON COLUMN webhook_endpoints.secret IS 'HMAC-SHA256 key for the X-Webhook-Signature header';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log for outbound webhooks; pending rows are retried by the dispatch job';
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches manage club webhooks" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins manage all webhooks" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Coaches view club webhook deliveries" ON webhook_deliveries;
+DROP POLICY IF EXISTS "Admins manage all webhook deliveries" ON webhook_deliveries;
+
+CREATE POLICY "Coaches manage club webhooks"
+  ON webhook_endpoints
+  FOR ALL
+  USING (club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid()))
+  WITH CHECK (club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins manage all webhooks"
+  ON webhook_endpoints
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Deliveries are written by the dispatch job; replays go through a server action
+CREATE POLICY "Coaches view club webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  USING (
+    endpoint_id IN (
+      SELECT id FROM webhook_endpoints
+      WHERE club_id IN (SELECT club_id FROM coaches WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins manage all webhook deliveries"
+  ON webhook_deliveries
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Same claim semantics as claim_outbox_events
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 50,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'processing', locked_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_webhook_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS claim_webhook_deliveries(INTEGER, INTERVAL);
+-- DROP TABLE IF EXISTS webhook_deliveries;
+-- DROP TABLE IF EXISTS webhook_endpoints;
+
+-- COMMIT;
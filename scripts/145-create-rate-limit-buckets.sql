@@ -0,0 +1,90 @@
+-- Migration: 145-create-rate-limit-buckets.sql
+-- Description: Shared token buckets for API rate limiting, so every server instance enforces the same limits
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- One bucket per limited key, e.g. 'api:ip:203.0.113.7' or 'auth:user:<uuid>'.
+-- A bucket holds up to capacity tokens and refills capacity tokens every window_ms.
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  window_ms INTEGER NOT NULL CHECK (window_ms > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated ON rate_limit_buckets(updated_at);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Token buckets behind lib/utils/rate-limit-store.ts; written only through take_rate_limit_token';
+
+-- No policies: only the service role (middleware and admin actions) reads or writes buckets
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Refill the bucket for the time since its last update, then take one token if
+-- there is one. Mirrors takeToken in lib/utils/rate-limit.ts.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+  p_key TEXT,
+  p_capacity INTEGER,
+  p_window_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, tokens DOUBLE PRECISION) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_bucket rate_limit_buckets%ROWTYPE;
+  v_tokens DOUBLE PRECISION;
+  v_allowed BOOLEAN;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, capacity, window_ms, updated_at)
+  VALUES (p_key, p_capacity, p_capacity, p_window_ms, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_bucket FROM rate_limit_buckets b WHERE b.key = p_key FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity,
+    v_bucket.tokens
+      + GREATEST(EXTRACT(EPOCH FROM (v_now - v_bucket.updated_at)) * 1000, 0)
+      * p_capacity / p_window_ms
+  );
+  v_allowed := v_tokens >= 1;
+  IF v_allowed THEN
+    v_tokens := v_tokens - 1;
+  END IF;
+
+  UPDATE rate_limit_buckets b
+  SET tokens = v_tokens, capacity = p_capacity, window_ms = p_window_ms, updated_at = v_now
+  WHERE b.key = p_key;
+
+  -- Occasionally drop buckets that have refilled completely; they hold no state
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_buckets b
+    WHERE b.key IN (
+      SELECT s.key FROM rate_limit_buckets s
+      WHERE s.updated_at + s.window_ms * INTERVAL '1 millisecond' < v_now
+      LIMIT 1000
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_allowed, v_tokens;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION take_rate_limit_token(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS take_rate_limit_token(TEXT, INTEGER, INTEGER);
+-- DROP TABLE IF EXISTS rate_limit_buckets;
+
+-- COMMIT;
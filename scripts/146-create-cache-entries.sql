@@ -0,0 +1,41 @@
+-- Migration: 146-create-cache-entries.sql
+-- Description: Shared server cache entries with tags, so invalidations reach every server instance
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- One row per cache key (lib/utils/cache-store.ts). Rows are served until
+-- fresh_until, served stale while recomputed until stale_until, and deleted
+-- when any of their tags is invalidated.
+CREATE TABLE IF NOT EXISTS cache_entries (
+  key TEXT PRIMARY KEY,
+  value JSONB,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  fresh_until TIMESTAMPTZ NOT NULL,
+  stale_until TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cache_entries_tags ON cache_entries USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_cache_entries_stale_until ON cache_entries(stale_until);
+
+COMMENT ON TABLE cache_entries IS 'Shared server cache; entries may hold data from any club, so only the service role can read them';
+
+-- No policies: only the service role reads or writes cache entries
+ALTER TABLE cache_entries ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP TABLE IF EXISTS cache_entries;
+
+-- COMMIT;
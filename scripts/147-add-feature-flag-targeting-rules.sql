@@ -0,0 +1,39 @@
+-- Migration: 147-add-feature-flag-targeting-rules.sql
+-- Description: Targeting rules for feature flags (roles, clubs, user allow/deny lists, schedule window)
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Evaluated by lib/utils/feature-flag-rules.ts after the enabled kill switch and
+-- before rollout_percentage. Shape:
+-- {
+--   "roles": ["coach"], "club_ids": ["<uuid>"],
+--   "allow_user_ids": ["<uuid>"], "deny_user_ids": ["<uuid>"],
+--   "starts_at": "2026-11-01T00:00:00.000Z", "ends_at": null
+-- }
+ALTER TABLE feature_flags
+  ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE feature_flags
+  DROP CONSTRAINT IF EXISTS feature_flags_rules_is_object;
+ALTER TABLE feature_flags
+  ADD CONSTRAINT feature_flags_rules_is_object CHECK (jsonb_typeof(rules) = 'object');
+
+COMMENT ON COLUMN feature_flags.rules IS 'Targeting rules: roles, club_ids, allow_user_ids, deny_user_ids, starts_at, ends_at (empty object: no targeting)';
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- ALTER TABLE feature_flags DROP CONSTRAINT IF EXISTS feature_flags_rules_is_object;
+-- ALTER TABLE feature_flags DROP COLUMN IF EXISTS rules;
+
+-- COMMIT;
@@ -0,0 +1,93 @@
+-- Migration: 148-enable-feature-flags-realtime.sql
+-- Description: Admin-only feature_flags and a published version counter so clients re-evaluate their flags
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Flags carry targeting rules (user allow/deny lists), so only admins read
+-- the table; evaluation reads it on the server with the service role
+ALTER TABLE feature_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage feature flags" ON feature_flags;
+
+CREATE POLICY "Admins manage feature flags"
+  ON feature_flags
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Single row bumped on every flag change. FeatureFlagProvider subscribes to
+-- it as a signal and re-evaluates on the server; no flag data is published
+CREATE TABLE IF NOT EXISTS feature_flag_versions (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  version BIGINT NOT NULL DEFAULT 0,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO feature_flag_versions (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE feature_flag_versions IS 'Change counter for feature_flags, published to realtime instead of the flag rows';
+
+ALTER TABLE feature_flag_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view the feature flag version" ON feature_flag_versions;
+
+-- Parents subscribe with the anon key, so the counter is readable by everyone
+CREATE POLICY "Anyone can view the feature flag version"
+  ON feature_flag_versions
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION bump_feature_flag_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE feature_flag_versions
+  SET version = version + 1, changed_at = NOW()
+  WHERE id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS bump_feature_flag_version ON feature_flags;
+CREATE TRIGGER bump_feature_flag_version
+  AFTER INSERT OR UPDATE OR DELETE ON feature_flags
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION bump_feature_flag_version();
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'feature_flags'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE feature_flags;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'feature_flag_versions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE feature_flag_versions;
+  END IF;
+END $$;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- ALTER PUBLICATION supabase_realtime DROP TABLE feature_flag_versions;
+-- DROP TRIGGER IF EXISTS bump_feature_flag_version ON feature_flags;
+-- DROP FUNCTION IF EXISTS bump_feature_flag_version();
+-- DROP TABLE IF EXISTS feature_flag_versions;
+-- DROP POLICY IF EXISTS "Admins manage feature flags" ON feature_flags;
+-- ALTER TABLE feature_flags DISABLE ROW LEVEL SECURITY;
+
+-- COMMIT;
@@ -0,0 +1,48 @@
+-- Migration: 149-extend-audit-logs.sql
+-- Description: Before/after changes and correlation IDs on audit log entries, text entity IDs and a per-record timeline index
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Some audited records are not keyed by a UUID (feature flags use their name)
+ALTER TABLE audit_logs
+  ALTER COLUMN entity_id TYPE TEXT USING entity_id::text;
+
+-- Field-level diff written by lib/audit/diff.ts. Shape:
+-- { "<field>": { "before": <value|null>, "after": <value|null> } }
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS changes JSONB,
+  ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+
+-- Timeline of a single record
+CREATE INDEX IF NOT EXISTS idx_audit_logs_entity
+  ON audit_logs(entity_type, entity_id, created_at DESC);
+
+-- Everything written by one request
+CREATE INDEX IF NOT EXISTS idx_audit_logs_correlation_id
+  ON audit_logs(correlation_id)
+  WHERE correlation_id IS NOT NULL;
+
+COMMENT ON COLUMN audit_logs.changes IS 'Changed fields: { field: { before, after } } (secrets redacted)';
+COMMENT ON COLUMN audit_logs.correlation_id IS 'X-Correlation-ID of the request that made the change';
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP INDEX IF EXISTS idx_audit_logs_correlation_id;
+-- DROP INDEX IF EXISTS idx_audit_logs_entity;
+-- ALTER TABLE audit_logs DROP COLUMN IF EXISTS correlation_id;
+-- ALTER TABLE audit_logs DROP COLUMN IF EXISTS changes;
+-- UPDATE audit_logs SET entity_id = NULL WHERE entity_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+-- ALTER TABLE audit_logs ALTER COLUMN entity_id TYPE UUID USING entity_id::uuid;
+
+-- COMMIT;
@@ -0,0 +1,251 @@
+-- Migration: 150-chain-audit-logs.sql
+-- Description: Tamper-evident audit log: each entry is hashed together with the previous entry's hash, entries can no longer be changed, the chain can be verified, and signed-in users can only insert entries in their own name
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- sequence: position in the chain (1, 2, 3, ... with no gaps)
+-- previous_hash: row_hash of the entry at sequence - 1 (64 zeros for the first)
+-- row_hash: SHA-256 of the entry's contents and previous_hash
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS sequence BIGINT,
+  ADD COLUMN IF NOT EXISTS previous_hash TEXT,
+  ADD COLUMN IF NOT EXISTS row_hash TEXT;
+
+-- Entries keep the actor's ID after the user is deleted; ON DELETE SET NULL
+-- would change chained rows
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey;
+
+-- Hash of one entry. Verification recomputes it, so it only reads columns that
+-- never change after the insert.
+CREATE OR REPLACE FUNCTION audit_log_row_hash(r audit_logs)
+RETURNS TEXT AS $$
+  SELECT encode(
+    digest(
+      jsonb_build_object(
+        'sequence', r.sequence,
+        'previous_hash', r.previous_hash,
+        'id', r.id,
+        'created_at', to_char(r.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        'user_id', r.user_id,
+        'user_role', r.user_role,
+        'action_type', r.action_type,
+        'entity_type', r.entity_type,
+        'entity_id', r.entity_id,
+        'details', r.details,
+        'changes', r.changes,
+        'correlation_id', r.correlation_id,
+        'ip_address', r.ip_address::text,
+        'user_agent', r.user_agent
+      )::text,
+      'sha256'
+    ),
+    'hex'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Append every new entry to the chain. The lock makes writers take turns, so
+-- two entries never claim the same position.
+CREATE OR REPLACE FUNCTION chain_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_head audit_logs%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_logs_chain'));
+
+  SELECT * INTO v_head FROM audit_logs WHERE sequence IS NOT NULL ORDER BY sequence DESC LIMIT 1;
+
+  NEW.sequence := COALESCE(v_head.sequence, 0) + 1;
+  NEW.previous_hash := COALESCE(v_head.row_hash, repeat('0', 64));
+  -- Taken after the lock, so created_at follows the chain order
+  NEW.created_at := clock_timestamp();
+  NEW.row_hash := audit_log_row_hash(NEW);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Chain the entries written before this migration, oldest first
+DO $$
+DECLARE
+  v_row audit_logs%ROWTYPE;
+  v_sequence BIGINT := 0;
+  v_previous TEXT := repeat('0', 64);
+BEGIN
+  FOR v_row IN SELECT * FROM audit_logs ORDER BY created_at, id LOOP
+    v_sequence := v_sequence + 1;
+    v_row.sequence := v_sequence;
+    v_row.previous_hash := v_previous;
+    v_row.row_hash := audit_log_row_hash(v_row);
+
+    UPDATE audit_logs
+    SET sequence = v_row.sequence, previous_hash = v_row.previous_hash, row_hash = v_row.row_hash
+    WHERE id = v_row.id;
+
+    v_previous := v_row.row_hash;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE audit_logs
+  ALTER COLUMN sequence SET NOT NULL,
+  ALTER COLUMN previous_hash SET NOT NULL,
+  ALTER COLUMN row_hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_sequence ON audit_logs(sequence);
+
+DROP TRIGGER IF EXISTS chain_audit_log ON audit_logs;
+CREATE TRIGGER chain_audit_log
+  BEFORE INSERT ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION chain_audit_log();
+
+-- Entries are append-only, even for the service role. Someone who can drop
+-- this trigger can change rows, which verify_audit_log_chain then reports.
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs entries cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON audit_logs;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON audit_logs;
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Signed-in users can only append entries in their own name and role. System
+-- entries (parents, scheduled jobs) are written with the service role, which
+-- bypasses RLS; anon can no longer insert.
+DROP POLICY IF EXISTS "System can insert audit logs" ON audit_logs;
+DROP POLICY IF EXISTS "Users insert their own audit logs" ON audit_logs;
+
+CREATE POLICY "Users insert their own audit logs"
+  ON audit_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND user_role IS NOT DISTINCT FROM (
+      SELECT role::text FROM user_roles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Check the entries written between p_from and p_to (the whole chain when
+-- both are null), plus the link to the entry before them. Reports:
+-- - gap: entries missing between two sequences (deleted rows)
+-- - modified: the entry no longer matches its row_hash
+-- - broken_link: previous_hash is not the row_hash of the entry before it
+CREATE OR REPLACE FUNCTION verify_audit_log_chain(
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_first BIGINT;
+  v_last BIGINT;
+  v_row audit_logs%ROWTYPE;
+  v_previous audit_logs%ROWTYPE;
+  v_checked INTEGER := 0;
+  v_issues JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT public.is_admin() AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only admins can verify the audit log';
+  END IF;
+
+  SELECT MIN(sequence), MAX(sequence) INTO v_first, v_last
+  FROM audit_logs
+  WHERE (p_from IS NULL OR created_at >= p_from)
+    AND (p_to IS NULL OR created_at <= p_to);
+
+  IF v_first IS NULL THEN
+    RETURN jsonb_build_object(
+      'checked', 0, 'first_sequence', NULL, 'last_sequence', NULL,
+      'previous_hash', NULL, 'head_hash', NULL, 'issues', v_issues
+    );
+  END IF;
+
+  SELECT * INTO v_previous FROM audit_logs WHERE sequence = v_first - 1;
+
+  FOR v_row IN
+    SELECT * FROM audit_logs WHERE sequence BETWEEN v_first AND v_last ORDER BY sequence
+  LOOP
+    v_checked := v_checked + 1;
+
+    IF v_row.sequence > 1 AND (v_previous.sequence IS NULL OR v_previous.sequence <> v_row.sequence - 1) THEN
+      v_issues := v_issues || jsonb_build_object(
+        'type', 'gap',
+        'sequence', v_row.sequence,
+        'entry_id', v_row.id,
+        'missing_from', COALESCE(v_previous.sequence, 0) + 1,
+        'missing_to', v_row.sequence - 1
+      );
+    ELSIF v_row.previous_hash <> COALESCE(v_previous.row_hash, repeat('0', 64)) THEN
+      v_issues := v_issues || jsonb_build_object(
+        'type', 'broken_link', 'sequence', v_row.sequence, 'entry_id', v_row.id
+      );
+    END IF;
+
+    IF v_row.row_hash <> audit_log_row_hash(v_row) THEN
+      v_issues := v_issues || jsonb_build_object(
+        'type', 'modified', 'sequence', v_row.sequence, 'entry_id', v_row.id
+      );
+    END IF;
+
+    v_previous := v_row;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'checked', v_checked,
+    'first_sequence', v_first,
+    'last_sequence', v_last,
+    'previous_hash', (SELECT row_hash FROM audit_logs WHERE sequence = v_first - 1),
+    'head_hash', v_previous.row_hash,
+    'issues', v_issues
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION verify_audit_log_chain(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION verify_audit_log_chain(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON COLUMN audit_logs.sequence IS 'Position in the hash chain, without gaps';
+COMMENT ON COLUMN audit_logs.previous_hash IS 'row_hash of the previous entry (64 zeros for the first)';
+COMMENT ON COLUMN audit_logs.row_hash IS 'SHA-256 of the entry and previous_hash (audit_log_row_hash)';
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS verify_audit_log_chain(TIMESTAMPTZ, TIMESTAMPTZ);
+-- DROP POLICY IF EXISTS "Users insert their own audit logs" ON audit_logs;
+-- CREATE POLICY "System can insert audit logs" ON audit_logs FOR INSERT WITH CHECK (true);
+-- DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON audit_logs;
+-- DROP TRIGGER IF EXISTS prevent_audit_log_changes ON audit_logs;
+-- DROP FUNCTION IF EXISTS prevent_audit_log_changes();
+-- DROP TRIGGER IF EXISTS chain_audit_log ON audit_logs;
+-- DROP FUNCTION IF EXISTS chain_audit_log();
+-- DROP FUNCTION IF EXISTS audit_log_row_hash(audit_logs);
+-- DROP INDEX IF EXISTS idx_audit_logs_sequence;
+-- ALTER TABLE audit_logs DROP COLUMN IF EXISTS row_hash;
+-- ALTER TABLE audit_logs DROP COLUMN IF EXISTS previous_hash;
+-- ALTER TABLE audit_logs DROP COLUMN IF EXISTS sequence;
+-- ALTER TABLE audit_logs
+--   ADD CONSTRAINT audit_logs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL
+--   NOT VALID;
+
+-- COMMIT;
@@ -0,0 +1,153 @@
+-- Migration: 151-create-push-deliveries.sql
+-- Description: Server-side Web Push: every notification is queued for each of the user's push subscriptions, with per-user quiet hours
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Per-user delivery settings; no row means no quiet hours
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'Asia/Bangkok',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)),
+  CHECK (quiet_hours_start IS NULL OR quiet_hours_start <> quiet_hours_end)
+);
+
+COMMENT ON TABLE notification_settings IS 'Per-user notification settings; push notifications are held during quiet hours (local time in timezone)';
+
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage own notification settings" ON notification_settings;
+CREATE POLICY "Users manage own notification settings"
+  ON notification_settings
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_notification_settings_updated_at ON notification_settings;
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per (notification, subscription); the row is the delivery log and the retry queue.
+-- subscription_id becomes NULL when an expired subscription is pruned.
+CREATE TABLE IF NOT EXISTS push_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  subscription_id UUID REFERENCES push_subscriptions(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'delivered', 'expired', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  UNIQUE (notification_id, subscription_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_due
+  ON push_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_user
+  ON push_deliveries(user_id, created_at DESC);
+
+COMMENT ON TABLE push_deliveries IS 'Web Push delivery log; pending rows are sent (and retried) by the dispatch job';
+
+ALTER TABLE push_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the trigger below and the dispatch job
+DROP POLICY IF EXISTS "Users view own push deliveries" ON push_deliveries;
+DROP POLICY IF EXISTS "Admins manage all push deliveries" ON push_deliveries;
+
+CREATE POLICY "Users view own push deliveries"
+  ON push_deliveries
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins manage all push deliveries"
+  ON push_deliveries
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Queue every new notification for each of the user's devices. The message is
+-- shortened so the encrypted payload stays within the push services' 4 KB limit.
+CREATE OR REPLACE FUNCTION queue_push_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO push_deliveries (notification_id, subscription_id, user_id, payload)
+  SELECT
+    NEW.id,
+    s.id,
+    NEW.user_id,
+    jsonb_build_object(
+      'notificationId', NEW.id,
+      'type', NEW.type::text,
+      'title', left(NEW.title, 200),
+      'body', left(NEW.message, 1000),
+      'url', COALESCE(NEW.link, '/dashboard')
+    )
+  FROM push_subscriptions s
+  WHERE s.user_id = NEW.user_id
+  ON CONFLICT (notification_id, subscription_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_push_deliveries ON notifications;
+CREATE TRIGGER queue_push_deliveries
+  AFTER INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION queue_push_deliveries();
+
+-- Same claim semantics as claim_webhook_deliveries
+CREATE OR REPLACE FUNCTION claim_push_deliveries(
+  p_limit INTEGER DEFAULT 100,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF push_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE push_deliveries d
+  SET status = 'processing', locked_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM push_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_push_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS claim_push_deliveries(INTEGER, INTERVAL);
+-- DROP TRIGGER IF EXISTS queue_push_deliveries ON notifications;
+-- DROP FUNCTION IF EXISTS queue_push_deliveries();
+-- DROP TABLE IF EXISTS push_deliveries;
+-- DROP TABLE IF EXISTS notification_settings;
+
+-- COMMIT;
@@ -0,0 +1,62 @@
+-- Migration: 152-add-push-subscription-devices.sql
+-- Description: One push subscription per device instead of per user; devices can be named and revoked
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Subscribing on a second device used to overwrite the first
+ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_user_id_key;
+
+ALTER TABLE push_subscriptions
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS device_name TEXT,
+  ADD COLUMN IF NOT EXISTS device_info JSONB;
+
+-- Subscriptions saved before devices were tracked keep working as their own device
+UPDATE push_subscriptions SET device_id = 'legacy-' || id::text WHERE device_id IS NULL;
+
+ALTER TABLE push_subscriptions ALTER COLUMN device_id SET NOT NULL;
+
+ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_device_name_check;
+ALTER TABLE push_subscriptions
+  ADD CONSTRAINT push_subscriptions_device_name_check
+  CHECK (device_name IS NULL OR char_length(device_name) BETWEEN 1 AND 60);
+
+ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_user_device_key;
+ALTER TABLE push_subscriptions
+  ADD CONSTRAINT push_subscriptions_user_device_key UNIQUE (user_id, device_id);
+
+-- A browser keeps its endpoint when its fingerprint changes; subscribe replaces by endpoint
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint
+  ON push_subscriptions ((subscription->>'endpoint'));
+
+COMMENT ON COLUMN push_subscriptions.device_id IS 'Device fingerprint from lib/utils/device-fingerprint.ts, as recorded in login_sessions.device_id';
+COMMENT ON COLUMN push_subscriptions.device_name IS 'Name the user gave the device; shown instead of the browser and platform';
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- Keep the most recently updated subscription per user before restoring the constraint
+-- DELETE FROM push_subscriptions p
+--   USING push_subscriptions newer
+--   WHERE newer.user_id = p.user_id
+--     AND (newer.updated_at, newer.id) > (p.updated_at, p.id);
+-- DROP INDEX IF EXISTS idx_push_subscriptions_endpoint;
+-- ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_user_device_key;
+-- ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_device_name_check;
+-- ALTER TABLE push_subscriptions
+--   DROP COLUMN IF EXISTS device_info,
+--   DROP COLUMN IF EXISTS device_name,
+--   DROP COLUMN IF EXISTS device_id;
+-- ALTER TABLE push_subscriptions ADD CONSTRAINT push_subscriptions_user_id_key UNIQUE (user_id);
+
+-- COMMIT;
@@ -0,0 +1,304 @@
+-- Migration: 153-create-notification-routing.sql
+-- Description: Per-category notification channels (in-app, push, email, digest) with a per-channel delivery log
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+-- New enum values cannot be added inside the transaction that uses them
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumtypid = 'notification_type'::regtype
+    AND enumlabel = 'report_published'
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'report_published';
+  END IF;
+END $$;
+
+BEGIN;
+
+-- Parents are told about cancelled sessions too
+ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_type_check;
+ALTER TABLE parent_notifications ADD CONSTRAINT parent_notifications_type_check
+  CHECK (type IN ('attendance', 'performance', 'leave', 'announcement', 'goal', 'report', 'tournament', 'session'));
+
+-- Notifications created from outbox events are keyed by the event so a
+-- redelivered event does not notify twice
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS event_id UUID;
+ALTER TABLE parent_notifications
+  ADD COLUMN IF NOT EXISTS event_id UUID;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_event_recipient_key;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_event_recipient_key UNIQUE (event_id, user_id);
+ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_event_recipient_key;
+ALTER TABLE parent_notifications
+  ADD CONSTRAINT parent_notifications_event_recipient_key UNIQUE (event_id, parent_connection_id);
+
+-- Routed category of a notifications.type or parent_notifications.type;
+-- NULL for types that are not routed. Mirrors lib/utils/notification-routing.ts.
+CREATE OR REPLACE FUNCTION notification_category(p_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_type
+    WHEN 'schedule_cancelled' THEN 'session_cancelled'
+    WHEN 'session' THEN 'session_cancelled'
+    WHEN 'leave_approved' THEN 'leave_reviewed'
+    WHEN 'leave_rejected' THEN 'leave_reviewed'
+    WHEN 'leave' THEN 'leave_reviewed'
+    WHEN 'report_published' THEN 'report_published'
+    WHEN 'report' THEN 'report_published'
+    WHEN 'tournament_selection' THEN 'tournament_selection'
+    WHEN 'tournament' THEN 'tournament_selection'
+    WHEN 'announcement' THEN 'announcement'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- One row per recipient and category; no row means the defaults
+-- (DEFAULT_CHANNEL_PREFERENCES). Parent rows are managed by the athlete.
+CREATE TABLE IF NOT EXISTS notification_channel_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_connection_id UUID REFERENCES parent_connections(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN (
+    'session_cancelled', 'leave_reviewed', 'report_published', 'tournament_selection', 'announcement'
+  )),
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  push BOOLEAN NOT NULL DEFAULT TRUE,
+  email BOOLEAN NOT NULL DEFAULT FALSE,
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (num_nonnulls(user_id, parent_connection_id) = 1),
+  UNIQUE (user_id, category),
+  UNIQUE (parent_connection_id, category)
+);
+
+COMMENT ON TABLE notification_channel_preferences IS 'Channels each user or parent connection receives per notification category';
+
+ALTER TABLE notification_channel_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage own channel preferences" ON notification_channel_preferences;
+DROP POLICY IF EXISTS "Athletes manage their parents' channel preferences" ON notification_channel_preferences;
+DROP POLICY IF EXISTS "Admins manage all channel preferences" ON notification_channel_preferences;
+
+CREATE POLICY "Users manage own channel preferences"
+  ON notification_channel_preferences
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Athletes manage their parents' channel preferences"
+  ON notification_channel_preferences
+  FOR ALL
+  USING (parent_connection_id IN (
+    SELECT pc.id FROM parent_connections pc
+    JOIN athletes a ON a.id = pc.athlete_id
+    WHERE a.user_id = auth.uid()
+  ))
+  WITH CHECK (parent_connection_id IN (
+    SELECT pc.id FROM parent_connections pc
+    JOIN athletes a ON a.id = pc.athlete_id
+    WHERE a.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins manage all channel preferences"
+  ON notification_channel_preferences
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_notification_channel_preferences_updated_at ON notification_channel_preferences;
+CREATE TRIGGER update_notification_channel_preferences_updated_at
+  BEFORE UPDATE ON notification_channel_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry the existing parent settings over: a switched-off type gets no
+-- channels, and parents on a daily or weekly frequency get the digest
+-- instead of email
+INSERT INTO notification_channel_preferences
+  (parent_connection_id, category, in_app, push, email, digest)
+SELECT
+  pc.id,
+  c.category,
+  FALSE,
+  FALSE,
+  c.enabled AND pc.notification_frequency = 'immediate',
+  c.enabled
+FROM parent_connections pc
+CROSS JOIN LATERAL (VALUES
+  ('session_cancelled', TRUE),
+  ('leave_reviewed', COALESCE(pc.notify_leave_requests, TRUE)),
+  ('report_published', TRUE),
+  ('tournament_selection', TRUE),
+  ('announcement', COALESCE(pc.notify_announcements, TRUE))
+) AS c(category, enabled)
+WHERE NOT COALESCE(pc.notify_leave_requests, TRUE)
+   OR NOT COALESCE(pc.notify_announcements, TRUE)
+   OR pc.notification_frequency <> 'immediate'
+ON CONFLICT (parent_connection_id, category) DO NOTHING;
+
+-- Hide the notification from the inbox when the user turned in-app off for its category
+CREATE OR REPLACE FUNCTION set_notification_in_app()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT p.in_app INTO NEW.in_app
+  FROM notification_channel_preferences p
+  WHERE p.user_id = NEW.user_id
+    AND p.category = notification_category(NEW.type::text);
+
+  NEW.in_app := COALESCE(NEW.in_app, TRUE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_notification_in_app ON notifications;
+CREATE TRIGGER set_notification_in_app
+  BEFORE INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION set_notification_in_app();
+
+-- One row per (notification, channel): what the router decided and when.
+-- Push rows point at push_deliveries for the per-device outcome; email and
+-- digest rows stay queued until their senders pick them up.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID REFERENCES notifications(id) ON DELETE CASCADE,
+  parent_notification_id UUID REFERENCES parent_notifications(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_connection_id UUID REFERENCES parent_connections(id) ON DELETE CASCADE,
+  category TEXT,
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'push', 'email', 'digest')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'queued', 'delivered', 'skipped', 'failed')),
+  not_before TIMESTAMPTZ,
+  detail TEXT,
+  locked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  routed_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  CHECK (num_nonnulls(notification_id, parent_notification_id) = 1),
+  CHECK (num_nonnulls(user_id, parent_connection_id) = 1),
+  UNIQUE (notification_id, channel),
+  UNIQUE (parent_notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending
+  ON notification_deliveries(created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_queued
+  ON notification_deliveries(channel, not_before)
+  WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user
+  ON notification_deliveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_parent
+  ON notification_deliveries(parent_connection_id, created_at DESC);
+
+COMMENT ON TABLE notification_deliveries IS 'Per-channel delivery log for notifications and parent_notifications; pending rows are routed by the dispatch job';
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view own notification deliveries" ON notification_deliveries;
+DROP POLICY IF EXISTS "Admins manage all notification deliveries" ON notification_deliveries;
+
+CREATE POLICY "Users view own notification deliveries"
+  ON notification_deliveries
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins manage all notification deliveries"
+  ON notification_deliveries
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Queue a routing row per channel open to the recipient (channelsFor)
+CREATE OR REPLACE FUNCTION queue_notification_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'notifications' THEN
+    INSERT INTO notification_deliveries (notification_id, user_id, category, channel)
+    SELECT NEW.id, NEW.user_id, notification_category(NEW.type::text), channel
+    FROM unnest(ARRAY['in_app', 'push', 'email', 'digest']) AS channel
+    ON CONFLICT (notification_id, channel) DO NOTHING;
+  ELSE
+    INSERT INTO notification_deliveries (parent_notification_id, parent_connection_id, category, channel)
+    SELECT NEW.id, NEW.parent_connection_id, notification_category(NEW.type), channel
+    FROM unnest(ARRAY['email', 'digest']) AS channel
+    ON CONFLICT (parent_notification_id, channel) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_notification_deliveries ON notifications;
+CREATE TRIGGER queue_notification_deliveries
+  AFTER INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION queue_notification_deliveries();
+
+DROP TRIGGER IF EXISTS queue_notification_deliveries ON parent_notifications;
+CREATE TRIGGER queue_notification_deliveries
+  AFTER INSERT ON parent_notifications
+  FOR EACH ROW EXECUTE FUNCTION queue_notification_deliveries();
+
+-- Push fan-out now follows the router's decision (lib/admin/notification-router.ts)
+DROP TRIGGER IF EXISTS queue_push_deliveries ON notifications;
+DROP FUNCTION IF EXISTS queue_push_deliveries();
+
+-- Same claim semantics as claim_push_deliveries
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(
+  p_limit INTEGER DEFAULT 200,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF notification_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_deliveries d
+  SET status = 'processing', locked_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM notification_deliveries
+    WHERE status = 'pending'
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_notification_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS claim_notification_deliveries(INTEGER, INTERVAL);
+-- DROP TRIGGER IF EXISTS queue_notification_deliveries ON parent_notifications;
+-- DROP TRIGGER IF EXISTS queue_notification_deliveries ON notifications;
+-- DROP FUNCTION IF EXISTS queue_notification_deliveries();
+-- DROP TABLE IF EXISTS notification_deliveries;
+-- DROP TRIGGER IF EXISTS set_notification_in_app ON notifications;
+-- DROP FUNCTION IF EXISTS set_notification_in_app();
+-- DROP TABLE IF EXISTS notification_channel_preferences;
+-- DROP FUNCTION IF EXISTS notification_category(TEXT);
+-- ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_event_recipient_key;
+-- ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_event_recipient_key;
+-- ALTER TABLE parent_notifications DROP COLUMN IF EXISTS event_id;
+-- ALTER TABLE notifications DROP COLUMN IF EXISTS event_id, DROP COLUMN IF EXISTS in_app;
+-- DELETE FROM parent_notifications WHERE type = 'session';
+-- ALTER TABLE parent_notifications DROP CONSTRAINT IF EXISTS parent_notifications_type_check;
+-- ALTER TABLE parent_notifications ADD CONSTRAINT parent_notifications_type_check
+--   CHECK (type IN ('attendance', 'performance', 'leave', 'announcement', 'goal', 'report', 'tournament'));
+-- Restore queue_push_deliveries from 151-create-push-deliveries.sql
+
+-- COMMIT;
@@ -0,0 +1,166 @@
+-- Migration: 154-create-email-delivery.sql
+-- Description: Email queue with retries, bounce log and suppression list; per-recipient email language
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Language of the emails each recipient receives (lib/utils/email-templates.ts)
+ALTER TABLE notification_settings
+  ADD COLUMN IF NOT EXISTS email_locale TEXT NOT NULL DEFAULT 'th';
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_email_locale_check;
+ALTER TABLE notification_settings
+  ADD CONSTRAINT notification_settings_email_locale_check CHECK (email_locale IN ('th', 'en'));
+
+ALTER TABLE parent_connections
+  ADD COLUMN IF NOT EXISTS email_locale TEXT NOT NULL DEFAULT 'th';
+ALTER TABLE parent_connections DROP CONSTRAINT IF EXISTS parent_connections_email_locale_check;
+ALTER TABLE parent_connections
+  ADD CONSTRAINT parent_connections_email_locale_check CHECK (email_locale IN ('th', 'en'));
+
+-- Email deliveries move to 'sending' once they are in the email queue, then
+-- to delivered or failed when the message is sent or gives up
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_status_check
+  CHECK (status IN ('pending', 'processing', 'queued', 'sending', 'delivered', 'skipped', 'failed'));
+
+-- One row per email; the row is the send log and the retry queue. The
+-- template is rendered at send time with the version recorded at enqueue.
+CREATE TABLE IF NOT EXISTS email_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL,
+  template_version INTEGER NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'th' CHECK (locale IN ('th', 'en')),
+  to_email TEXT NOT NULL,
+  to_name TEXT,
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  parent_connection_id UUID REFERENCES parent_connections(id) ON DELETE SET NULL,
+  notification_delivery_id UUID UNIQUE REFERENCES notification_deliveries(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'bounced', 'suppressed', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  response_code INTEGER,
+  last_error TEXT,
+  message_id TEXT,
+  provider_response TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  bounced_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_due
+  ON email_messages(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_email_messages_to_email
+  ON email_messages(lower(to_email), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_messages_message_id
+  ON email_messages(message_id)
+  WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_messages_created
+  ON email_messages(created_at DESC);
+
+COMMENT ON TABLE email_messages IS 'Email send log; pending rows are sent (and retried) by the dispatch job';
+COMMENT ON COLUMN email_messages.message_id IS 'Message-ID header the email was sent with, used to match bounce reports';
+
+-- Bounces and complaints reported by the SMTP server or the provider's webhook
+CREATE TABLE IF NOT EXISTS email_bounces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  email_message_id UUID REFERENCES email_messages(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('hard', 'soft', 'complaint')),
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_bounces_email
+  ON email_bounces(lower(email), created_at DESC);
+
+COMMENT ON TABLE email_bounces IS 'Bounce and complaint log; hard bounces, complaints and repeated soft bounces suppress the address';
+
+-- Addresses nothing is sent to; removing a row lifts the suppression
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email TEXT PRIMARY KEY CHECK (email = lower(email)),
+  reason TEXT NOT NULL CHECK (reason IN ('hard_bounce', 'soft_bounces', 'complaint')),
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE email_suppressions IS 'Addresses excluded from email; messages to them are recorded as suppressed';
+
+ALTER TABLE email_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_bounces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; admins can review and manage them
+DROP POLICY IF EXISTS "Admins manage email messages" ON email_messages;
+CREATE POLICY "Admins manage email messages"
+  ON email_messages
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins view email bounces" ON email_bounces;
+CREATE POLICY "Admins view email bounces"
+  ON email_bounces
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage email suppressions" ON email_suppressions;
+CREATE POLICY "Admins manage email suppressions"
+  ON email_suppressions
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin'));
+
+-- Same claim semantics as claim_push_deliveries
+CREATE OR REPLACE FUNCTION claim_email_messages(
+  p_limit INTEGER DEFAULT 50,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF email_messages AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_messages m
+  SET status = 'processing', locked_at = NOW()
+  WHERE m.id IN (
+    SELECT id FROM email_messages
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_email_messages(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS claim_email_messages(INTEGER, INTERVAL);
+-- DROP TABLE IF EXISTS email_suppressions;
+-- DROP TABLE IF EXISTS email_bounces;
+-- DROP TABLE IF EXISTS email_messages;
+-- UPDATE notification_deliveries SET status = 'queued' WHERE status = 'sending';
+-- ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+-- ALTER TABLE notification_deliveries
+--   ADD CONSTRAINT notification_deliveries_status_check
+--   CHECK (status IN ('pending', 'processing', 'queued', 'delivered', 'skipped', 'failed'));
+-- ALTER TABLE parent_connections DROP COLUMN IF EXISTS email_locale;
+-- ALTER TABLE notification_settings DROP COLUMN IF EXISTS email_locale;
+
+-- COMMIT;
@@ -0,0 +1,53 @@
+-- Migration: 155-create-parent-report-digest.sql
+-- Description: Scheduled weekly/monthly parent reports, one per connection and period, with a per-connection report frequency
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Which report a parent is sent (lib/utils/parent-reports.ts); reports are
+-- generated for every verified connection either way
+ALTER TABLE parent_connections
+  ADD COLUMN IF NOT EXISTS report_frequency TEXT NOT NULL DEFAULT 'weekly';
+ALTER TABLE parent_connections DROP CONSTRAINT IF EXISTS parent_connections_report_frequency_check;
+ALTER TABLE parent_connections
+  ADD CONSTRAINT parent_connections_report_frequency_check
+  CHECK (report_frequency IN ('weekly', 'monthly', 'off'));
+
+-- One report per connection and period, so a rerun of the generator finds
+-- the report it already made
+DELETE FROM parent_reports r
+USING parent_reports newer
+WHERE r.parent_connection_id = newer.parent_connection_id
+  AND r.report_type = newer.report_type
+  AND r.period_start = newer.period_start
+  AND (r.created_at, r.id) < (newer.created_at, newer.id);
+
+ALTER TABLE parent_reports DROP CONSTRAINT IF EXISTS parent_reports_connection_period_key;
+ALTER TABLE parent_reports
+  ADD CONSTRAINT parent_reports_connection_period_key
+  UNIQUE (parent_connection_id, report_type, period_start);
+
+COMMENT ON COLUMN parent_reports.report_data IS 'Test results, goals, coach feedback and digest notifications of the period (ParentReportData)';
+COMMENT ON COLUMN parent_reports.sent_at IS 'When the parent was notified of the report; NULL when their report_frequency does not include it';
+
+-- Replaced by the scheduled generator (lib/admin/parent-reports.ts), which
+-- reads the current attendance table
+DROP FUNCTION IF EXISTS generate_weekly_parent_report(UUID, DATE, DATE);
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- Restore generate_weekly_parent_report from 91-create-parent-notification-system.sql
+-- ALTER TABLE parent_reports DROP CONSTRAINT IF EXISTS parent_reports_connection_period_key;
+-- ALTER TABLE parent_connections DROP COLUMN IF EXISTS report_frequency;
+
+-- COMMIT;
@@ -0,0 +1,337 @@
+-- Migration: 156-write-events-with-changes.sql
+-- Description: Write domain events to event_outbox in the same transaction as the change that raises them
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Correlation or causation ID for events written by the current transaction.
+-- Server clients send X-Correlation-ID and X-Causation-ID (PostgREST exposes
+-- them in request.headers); without a valid header one ID is generated per
+-- transaction and shared by all of its events.
+CREATE OR REPLACE FUNCTION event_trace_id(p_kind TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_value TEXT := NULLIF(current_setting('request.headers', true), '')::json ->> ('x-' || p_kind || '-id');
+BEGIN
+  IF v_value ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN
+    RETURN v_value::uuid;
+  END IF;
+
+  v_value := NULLIF(current_setting('app.event_' || p_kind || '_id', true), '');
+  IF v_value IS NULL THEN
+    v_value := gen_random_uuid()::text;
+    PERFORM set_config('app.event_' || p_kind || '_id', v_value, true);
+  END IF;
+  RETURN v_value::uuid;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- ISO 8601 in UTC, the format event schemas use for date-time
+CREATE OR REPLACE FUNCTION event_timestamp(p_value TIMESTAMPTZ)
+RETURNS TEXT AS $$
+  SELECT to_char(p_value AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Session dates and times are in the club's time zone
+CREATE OR REPLACE FUNCTION session_scheduled_at(p_date DATE, p_time TIME)
+RETURNS TEXT AS $$
+  SELECT event_timestamp((p_date + p_time) AT TIME ZONE 'Asia/Bangkok');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Wrap the payload in the event envelope and write it to the outbox. Null
+-- properties are left out. Any error aborts the change that raised the event.
+-- Only called from the triggers below; the dispatcher validates each event
+-- against its schema before delivering it.
+CREATE OR REPLACE FUNCTION enqueue_event(p_event_type TEXT, p_data JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+  v_correlation_id UUID := event_trace_id('correlation');
+  v_causation_id UUID := event_trace_id('causation');
+BEGIN
+  INSERT INTO event_outbox (id, event_type, payload, correlation_id, causation_id, created_by)
+  VALUES (
+    v_event_id,
+    p_event_type,
+    jsonb_build_object(
+      'eventId', v_event_id,
+      'eventType', p_event_type,
+      'timestamp', event_timestamp(NOW()),
+      'correlationId', v_correlation_id,
+      'causationId', v_causation_id,
+      'data', jsonb_strip_nulls(p_data)
+    ),
+    v_correlation_id,
+    v_causation_id,
+    auth.uid()
+  );
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION enqueue_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- org.club.training.attendance.recorded.v1 for new rows and status or note changes
+CREATE OR REPLACE FUNCTION enqueue_attendance_recorded()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_club_id UUID;
+  v_coach_id UUID;
+  v_marked_by UUID;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.notes IS NOT DISTINCT FROM OLD.notes THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT club_id, coach_id INTO v_club_id, v_coach_id
+  FROM training_sessions
+  WHERE id = NEW.training_session_id;
+
+  -- The scheduled close-out marks rows without a user; they are the coach's
+  v_marked_by := COALESCE(NEW.marked_by, auth.uid(), v_coach_id);
+  IF v_marked_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_event(
+    'org.club.training.attendance.recorded.v1',
+    jsonb_build_object(
+      'attendanceId', NEW.id,
+      'sessionId', NEW.training_session_id,
+      'athleteId', NEW.athlete_id,
+      'clubId', v_club_id,
+      'status', NEW.status::text,
+      'checkInTime', event_timestamp(NEW.check_in_time),
+      'checkInMethod', NEW.check_in_method::text,
+      'markedBy', v_marked_by,
+      'notes', NEW.notes,
+      'recordedAt', event_timestamp(NOW())
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enqueue_attendance_recorded ON attendance;
+CREATE TRIGGER enqueue_attendance_recorded
+  AFTER INSERT OR UPDATE OF status, notes ON attendance
+  FOR EACH ROW EXECUTE FUNCTION enqueue_attendance_recorded();
+
+-- org.club.training.session.created.v1 for every new session, including series occurrences
+CREATE OR REPLACE FUNCTION enqueue_session_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_coach_id UUID := COALESCE(NEW.coach_id, auth.uid());
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_event(
+    'org.club.training.session.created.v1',
+    jsonb_build_object(
+      'sessionId', NEW.id,
+      'clubId', NEW.club_id,
+      'coachId', v_coach_id,
+      'title', NEW.title,
+      'description', NEW.description,
+      'scheduledAt', session_scheduled_at(NEW.session_date, NEW.start_time),
+      'durationMinutes', CASE
+        WHEN NEW.end_time > NEW.start_time
+          THEN (EXTRACT(EPOCH FROM NEW.end_time - NEW.start_time) / 60)::integer
+      END,
+      'location', NEW.location,
+      'maxParticipants', NEW.max_participants,
+      'status', NEW.status::text,
+      'createdAt', event_timestamp(COALESCE(NEW.created_at, NOW()))
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enqueue_session_created ON training_sessions;
+CREATE TRIGGER enqueue_session_created
+  AFTER INSERT ON training_sessions
+  FOR EACH ROW EXECUTE FUNCTION enqueue_session_created();
+
+-- org.club.training.session.cancelled.v1 for every removed session. The
+-- reason comes from cancel_training_sessions.
+CREATE OR REPLACE FUNCTION enqueue_session_cancelled()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_coach_id UUID := COALESCE(OLD.coach_id, auth.uid());
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM enqueue_event(
+    'org.club.training.session.cancelled.v1',
+    jsonb_build_object(
+      'sessionId', OLD.id,
+      'clubId', OLD.club_id,
+      'coachId', v_coach_id,
+      'cancelledAt', event_timestamp(NOW()),
+      'cancellationReason', NULLIF(current_setting('app.cancellation_reason', true), ''),
+      'originalScheduledAt', session_scheduled_at(OLD.session_date, OLD.start_time)
+    )
+  );
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enqueue_session_cancelled ON training_sessions;
+CREATE TRIGGER enqueue_session_cancelled
+  AFTER DELETE ON training_sessions
+  FOR EACH ROW EXECUTE FUNCTION enqueue_session_cancelled();
+
+-- Cancel sessions with a reason for the cancelled events. Runs with the
+-- caller's rights, so RLS decides which sessions they may remove.
+CREATE OR REPLACE FUNCTION cancel_training_sessions(
+  p_session_ids UUID[],
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  PERFORM set_config('app.cancellation_reason', COALESCE(p_reason, ''), true);
+
+  RETURN QUERY
+  DELETE FROM training_sessions
+  WHERE id = ANY(p_session_ids)
+  RETURNING id;
+
+  PERFORM set_config('app.cancellation_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- org.club.membership.application.approved.v1 once the approved applicant's
+-- athlete profile is linked (an approval rolled back for a failed profile
+-- raises nothing), org.club.membership.application.rejected.v1 on rejection
+CREATE OR REPLACE FUNCTION enqueue_application_decision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reviewed_by UUID := NULLIF(NEW.review_info ->> 'reviewed_by', '')::uuid;
+  v_reviewed_at TIMESTAMPTZ := COALESCE(NULLIF(NEW.review_info ->> 'reviewed_at', '')::timestamptz, NOW());
+  v_coach_id UUID;
+BEGIN
+  IF NEW.status = 'approved'
+     AND NEW.profile_id IS NOT NULL
+     AND (OLD.status IS DISTINCT FROM 'approved' OR OLD.profile_id IS NULL) THEN
+    -- An admin approving an application with no assigned coach has none to report
+    v_coach_id := COALESCE(
+      NEW.assigned_coach_id,
+      (SELECT id FROM coaches WHERE user_id = v_reviewed_by LIMIT 1)
+    );
+    IF v_coach_id IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    PERFORM enqueue_event(
+      'org.club.membership.application.approved.v1',
+      jsonb_build_object(
+        'applicationId', NEW.id,
+        'athleteId', NEW.user_id,
+        'clubId', NEW.club_id,
+        'coachId', v_coach_id,
+        'approvedAt', event_timestamp(v_reviewed_at),
+        'reviewedBy', v_reviewed_by,
+        'membershipStatus', 'active'
+      )
+    );
+  ELSIF NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM 'rejected' THEN
+    PERFORM enqueue_event(
+      'org.club.membership.application.rejected.v1',
+      jsonb_build_object(
+        'applicationId', NEW.id,
+        'athleteId', NEW.user_id,
+        'clubId', NEW.club_id,
+        'rejectedAt', event_timestamp(v_reviewed_at),
+        'rejectionReason', COALESCE(NEW.review_info ->> 'notes', ''),
+        'reviewedBy', v_reviewed_by,
+        'membershipStatus', 'rejected'
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enqueue_application_decision ON membership_applications;
+CREATE TRIGGER enqueue_application_decision
+  AFTER UPDATE OF status, profile_id ON membership_applications
+  FOR EACH ROW EXECUTE FUNCTION enqueue_application_decision();
+
+-- org.club.performance.report.published.v2 when a progress report is published
+CREATE OR REPLACE FUNCTION enqueue_report_published()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'published' OR OLD.status = 'published' OR NEW.generated_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_event(
+    'org.club.performance.report.published.v2',
+    jsonb_build_object(
+      'reportId', NEW.id,
+      'athleteId', NEW.athlete_id,
+      'coachId', NEW.generated_by,
+      'clubId', (SELECT club_id FROM athletes WHERE id = NEW.athlete_id),
+      'reportDate', NEW.period_end,
+      'strengths', (
+        SELECT string_agg(item, E'\n') FROM jsonb_array_elements_text(NEW.highlights) AS item
+      ),
+      'areasForImprovement', (
+        SELECT string_agg(item, E'\n')
+        FROM jsonb_array_elements_text(NEW.areas_for_improvement) AS item
+      ),
+      'recommendations', NEW.coach_comments,
+      'publishedAt', event_timestamp(COALESCE(NEW.published_at, NOW()))
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enqueue_report_published ON progress_reports;
+CREATE TRIGGER enqueue_report_published
+  AFTER UPDATE OF status ON progress_reports
+  FOR EACH ROW EXECUTE FUNCTION enqueue_report_published();
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP TRIGGER IF EXISTS enqueue_report_published ON progress_reports;
+-- DROP FUNCTION IF EXISTS enqueue_report_published();
+-- DROP TRIGGER IF EXISTS enqueue_application_decision ON membership_applications;
+-- DROP FUNCTION IF EXISTS enqueue_application_decision();
+-- DROP FUNCTION IF EXISTS cancel_training_sessions(UUID[], TEXT);
+-- DROP TRIGGER IF EXISTS enqueue_session_cancelled ON training_sessions;
+-- DROP FUNCTION IF EXISTS enqueue_session_cancelled();
+-- DROP TRIGGER IF EXISTS enqueue_session_created ON training_sessions;
+-- DROP FUNCTION IF EXISTS enqueue_session_created();
+-- DROP TRIGGER IF EXISTS enqueue_attendance_recorded ON attendance;
+-- DROP FUNCTION IF EXISTS enqueue_attendance_recorded();
+-- DROP FUNCTION IF EXISTS enqueue_event(TEXT, JSONB);
+-- DROP FUNCTION IF EXISTS session_scheduled_at(DATE, TIME);
+-- DROP FUNCTION IF EXISTS event_timestamp(TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS event_trace_id(TEXT);
+
+-- COMMIT;
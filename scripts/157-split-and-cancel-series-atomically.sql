@@ -0,0 +1,132 @@
+-- Migration: 157-split-and-cancel-series-atomically.sql
+-- Description: Split a training session series and cancel its occurrences in one transaction each
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Split a series at p_split_date for a "this and following" edit: a new series
+-- with the edited template (p_template holds only the changed columns: title,
+-- description, location, start_time, end_time) takes over the occurrences and
+-- exceptions from that date, and the original ends the day before. Runs with
+-- the caller's rights, and any failure leaves both series as they were.
+-- Returns the new series id.
+CREATE OR REPLACE FUNCTION split_training_session_series(
+  p_series_id UUID,
+  p_split_date DATE,
+  p_template JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_series training_session_series%ROWTYPE;
+  v_last_occurrence DATE;
+  v_new_series_id UUID;
+BEGIN
+  SELECT * INTO v_series
+  FROM training_session_series
+  WHERE id = p_series_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Training session series % not found', p_series_id;
+  END IF;
+  IF p_split_date <= v_series.start_date THEN
+    RAISE EXCEPTION 'Split date % is not after the start of series %', p_split_date, p_series_id;
+  END IF;
+
+  -- The last occurrence that moves over keeps the new series bounded
+  SELECT MAX(occurrence_date) INTO v_last_occurrence
+  FROM training_sessions
+  WHERE series_id = p_series_id AND occurrence_date >= p_split_date;
+
+  INSERT INTO training_session_series (
+    club_id, coach_id, created_by, title, description, location, start_time, end_time,
+    frequency, weekdays, start_date, end_date, occurrence_count
+  )
+  VALUES (
+    v_series.club_id,
+    v_series.coach_id,
+    COALESCE(auth.uid(), v_series.created_by),
+    CASE WHEN p_template ? 'title' THEN p_template ->> 'title' ELSE v_series.title END,
+    CASE WHEN p_template ? 'description' THEN p_template ->> 'description' ELSE v_series.description END,
+    CASE WHEN p_template ? 'location' THEN p_template ->> 'location' ELSE v_series.location END,
+    CASE WHEN p_template ? 'start_time' THEN (p_template ->> 'start_time')::time ELSE v_series.start_time END,
+    CASE WHEN p_template ? 'end_time' THEN (p_template ->> 'end_time')::time ELSE v_series.end_time END,
+    v_series.frequency,
+    v_series.weekdays,
+    p_split_date,
+    COALESCE(v_last_occurrence, v_series.end_date, p_split_date),
+    NULL
+  )
+  RETURNING id INTO v_new_series_id;
+
+  UPDATE training_session_series
+  SET end_date = p_split_date - 1, occurrence_count = NULL, updated_at = NOW()
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Training session series % could not be ended', p_series_id;
+  END IF;
+
+  UPDATE training_sessions
+  SET series_id = v_new_series_id
+  WHERE series_id = p_series_id AND occurrence_date >= p_split_date;
+
+  UPDATE training_session_exceptions
+  SET series_id = v_new_series_id
+  WHERE series_id = p_series_id AND occurrence_date >= p_split_date;
+
+  RETURN v_new_series_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Cancel occurrences of a series and end it: the series stops the day before
+-- p_ends_before, or is cancelled as a whole when that is NULL. The sessions
+-- and their session.cancelled events go with the series update, or not at
+-- all. Runs with the caller's rights. Returns the cancelled session ids.
+CREATE OR REPLACE FUNCTION cancel_series_occurrences(
+  p_series_id UUID,
+  p_session_ids UUID[],
+  p_ends_before DATE DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  SELECT cancelled.id
+  FROM cancel_training_sessions(
+    ARRAY(SELECT id FROM training_sessions WHERE id = ANY(p_session_ids) AND series_id = p_series_id),
+    p_reason
+  ) AS cancelled(id);
+
+  IF p_ends_before IS NULL THEN
+    UPDATE training_session_series
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE id = p_series_id;
+  ELSE
+    UPDATE training_session_series
+    SET end_date = p_ends_before - 1, occurrence_count = NULL, updated_at = NOW()
+    WHERE id = p_series_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Training session series % not found', p_series_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS cancel_series_occurrences(UUID, UUID[], DATE, TEXT);
+-- DROP FUNCTION IF EXISTS split_training_session_series(UUID, DATE, JSONB);
+
+-- COMMIT;
@@ -0,0 +1,86 @@
+-- Migration: 158-create-series-atomically.sql
+-- Description: Create a training session series and its occurrences in one transaction
+-- Date: 2026-10-19
+
+-- ============================================
+-- UP Migration
+-- ============================================
+
+BEGIN;
+
+-- Create a series from p_series (the training_session_series columns:
+-- club_id, coach_id, created_by, title, description, location, start_time,
+-- end_time, frequency, weekdays, start_date, end_date, occurrence_count) and
+-- one session per date in p_dates. Runs with the caller's rights, and any
+-- failure leaves neither the series nor its sessions behind.
+-- Returns the new series id.
+CREATE OR REPLACE FUNCTION create_training_session_series(
+  p_series JSONB,
+  p_dates DATE[]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_series training_session_series%ROWTYPE;
+  v_series_id UUID;
+BEGIN
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A training session series needs at least one occurrence';
+  END IF;
+
+  v_series := jsonb_populate_record(NULL::training_session_series, p_series);
+
+  INSERT INTO training_session_series (
+    club_id, coach_id, created_by, title, description, location, start_time, end_time,
+    frequency, weekdays, start_date, end_date, occurrence_count
+  )
+  VALUES (
+    v_series.club_id,
+    v_series.coach_id,
+    v_series.created_by,
+    v_series.title,
+    v_series.description,
+    v_series.location,
+    v_series.start_time,
+    v_series.end_time,
+    v_series.frequency,
+    v_series.weekdays,
+    v_series.start_date,
+    v_series.end_date,
+    v_series.occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  INSERT INTO training_sessions (
+    club_id, coach_id, created_by, title, description, session_date, start_time, end_time,
+    location, series_id, occurrence_date
+  )
+  SELECT
+    v_series.club_id,
+    v_series.coach_id,
+    v_series.created_by,
+    v_series.title,
+    v_series.description,
+    occurrence.date,
+    v_series.start_time,
+    v_series.end_time,
+    v_series.location,
+    v_series_id,
+    occurrence.date
+  FROM unnest(p_dates) AS occurrence(date)
+  ORDER BY occurrence.date;
+
+  RETURN v_series_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMIT;
+
+-- ============================================
+-- DOWN Migration (Rollback)
+-- ============================================
+
+-- BEGIN;
+
+-- DROP FUNCTION IF EXISTS create_training_session_series(JSONB, DATE[]);
+
+-- COMMIT;
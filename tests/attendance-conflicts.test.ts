@@ -0,0 +1,175 @@
+/**
+ * Offline Attendance Conflict Rules Tests
+ *
+ * Tests the rules applied to attendance marks a coach took offline when they
+ * are sent (see lib/coach/attendance-conflicts.ts):
+ * - Marks over an untouched or missing record are applied
+ * - Athlete self check-ins win over presence marks and later-made absences
+ * - Approved leave wins over absent, but not over present/late
+ * - Anything else changed by someone else goes to review
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  isSelfCheckIn,
+  resolveOfflineMark,
+  type AttendanceStatus,
+  type OfflineAttendanceMark,
+  type ServerAttendanceState,
+} from '@/lib/coach/attendance-conflicts';
+
+const COACH = 'coach-user';
+const OTHER = 'admin-user';
+const SEEN_AT = '2026-10-19T08:00:00.000Z';
+
+const statusGen = fc.constantFrom<AttendanceStatus>('present', 'absent', 'excused', 'late');
+
+function mark(overrides: Partial<OfflineAttendanceMark> = {}): OfflineAttendanceMark {
+  return {
+    sessionId: 'session-1',
+    athleteId: 'athlete-1',
+    athleteName: 'สมชาย ใจดี',
+    status: 'absent',
+    markedAt: '2026-10-19T09:00:00.000Z',
+    base: null,
+    ...overrides,
+  };
+}
+
+function server(overrides: Partial<ServerAttendanceState> = {}): ServerAttendanceState {
+  return {
+    status: 'absent',
+    notes: null,
+    check_in_time: null,
+    check_in_method: 'manual',
+    marked_by: OTHER,
+    geofence_flagged: false,
+    updated_at: '2026-10-19T09:05:00.000Z',
+    ...overrides,
+  };
+}
+
+function selfCheckIn(overrides: Partial<ServerAttendanceState> = {}): ServerAttendanceState {
+  return server({
+    status: 'present',
+    check_in_time: '2026-10-19T09:10:00.000Z',
+    check_in_method: 'qr',
+    marked_by: null,
+    ...overrides,
+  });
+}
+
+describe('resolveOfflineMark', () => {
+  it('applies any mark when there is no record yet', () => {
+    fc.assert(
+      fc.property(statusGen, (status) => {
+        expect(resolveOfflineMark(mark({ status }), null, COACH)).toEqual({ outcome: 'apply' });
+      })
+    );
+  });
+
+  it('applies a mark over the record the coach saw, or one they wrote themselves', () => {
+    fc.assert(
+      fc.property(statusGen, statusGen, (status, serverStatus) => {
+        fc.pre(status !== serverStatus);
+
+        const seen = server({ status: serverStatus, updated_at: SEEN_AT });
+        expect(
+          resolveOfflineMark(
+            mark({ status, base: { status: serverStatus, updatedAt: SEEN_AT } }),
+            seen,
+            COACH
+          )
+        ).toEqual({ outcome: 'apply' });
+
+        expect(
+          resolveOfflineMark(
+            mark({ status }),
+            server({ status: serverStatus, marked_by: COACH }),
+            COACH
+          )
+        ).toEqual({ outcome: 'apply' });
+      })
+    );
+  });
+
+  it('does nothing when the record already matches the mark', () => {
+    fc.assert(
+      fc.property(statusGen, fc.option(fc.string(), { nil: undefined }), (status, notes) => {
+        expect(
+          resolveOfflineMark(
+            mark({ status, notes }),
+            server({ status, notes: notes ?? null }),
+            COACH
+          )
+        ).toEqual({ outcome: 'unchanged' });
+      })
+    );
+  });
+
+  it('keeps a self check-in over a present or late mark', () => {
+    expect(resolveOfflineMark(mark({ status: 'late' }), selfCheckIn(), COACH)).toEqual({
+      outcome: 'keep_server',
+      reason: 'self_check_in',
+    });
+  });
+
+  it('keeps a self check-in made after the coach marked the athlete absent', () => {
+    expect(
+      resolveOfflineMark(mark({ markedAt: '2026-10-19T09:00:00.000Z' }), selfCheckIn(), COACH)
+    ).toEqual({ outcome: 'keep_server', reason: 'self_check_in' });
+  });
+
+  it('sends a self check-in to review when the coach marked absent later, or it was flagged', () => {
+    expect(
+      resolveOfflineMark(mark({ markedAt: '2026-10-19T09:30:00.000Z' }), selfCheckIn(), COACH)
+    ).toEqual({ outcome: 'review', reason: 'self_check_in' });
+
+    expect(
+      resolveOfflineMark(
+        mark({ status: 'excused' }),
+        selfCheckIn({ geofence_flagged: true }),
+        COACH
+      )
+    ).toEqual({ outcome: 'review', reason: 'self_check_in' });
+  });
+
+  it('keeps approved leave over absent, and applies present or late over it', () => {
+    const leave = server({ status: 'excused', check_in_method: 'auto', marked_by: null });
+
+    expect(resolveOfflineMark(mark({ status: 'absent' }), leave, COACH)).toEqual({
+      outcome: 'keep_server',
+      reason: 'approved_leave',
+    });
+    expect(resolveOfflineMark(mark({ status: 'present' }), leave, COACH)).toEqual({
+      outcome: 'apply',
+    });
+  });
+
+  it('sends changes made by someone else to review', () => {
+    fc.assert(
+      fc.property(statusGen, statusGen, (status, serverStatus) => {
+        fc.pre(status !== serverStatus);
+
+        expect(
+          resolveOfflineMark(
+            mark({ status, base: { status: 'absent', updatedAt: SEEN_AT } }),
+            server({ status: serverStatus }),
+            COACH
+          )
+        ).toEqual({ outcome: 'review', reason: 'changed_elsewhere' });
+      })
+    );
+  });
+});
+
+describe('isSelfCheckIn', () => {
+  it('only matches presence recorded by the athlete', () => {
+    expect(isSelfCheckIn(selfCheckIn())).toBe(true);
+    expect(isSelfCheckIn(selfCheckIn({ check_in_method: 'manual' }))).toBe(true);
+    expect(isSelfCheckIn(selfCheckIn({ marked_by: COACH }))).toBe(false);
+    expect(isSelfCheckIn(selfCheckIn({ check_in_method: 'auto' }))).toBe(false);
+    expect(isSelfCheckIn(selfCheckIn({ status: 'absent' }))).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Property-Based Tests for Attendance Policy
+ * Feature: training-attendance
+ *
+ * Property: Configurable check-in rules
+ * For any valid policy and session, self check-in is only allowed inside the
+ * configured window, lateness follows the configured threshold, and the
+ * attendance rate respects whether late arrivals count
+ *
+ * This property ensures that:
+ * - Check-in is rejected before the window opens and after it closes
+ * - Status is late exactly when checking in after the late threshold
+ * - Counting late as present never lowers the attendance rate
+ * - Stored policies fall back to defaults for missing or malformed fields
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  attendancePolicySettingKey,
+  calculateAttendanceRate,
+  canRecordPresence,
+  evaluateCheckIn,
+  getCheckInWindow,
+  isAutoAbsentDue,
+  resolveAttendancePolicy,
+  validateAttendancePolicy,
+  type AttendancePolicy,
+} from '@/lib/utils/attendance-policy';
+
+const MINUTE_MS = 60 * 1000;
+const SESSION_DATE = '2026-03-15';
+const START_TIME = '17:00:00';
+
+const policyArb: fc.Arbitrary<AttendancePolicy> = fc
+  .record({
+    check_in_opens_minutes_before: fc.integer({ min: 0, max: 240 }),
+    check_in_closes_minutes_after: fc.integer({ min: 0, max: 240 }),
+    late_fraction: fc.double({ min: 0, max: 1, noNaN: true }),
+    count_late_as_present: fc.boolean(),
+    auto_mark_absent: fc.boolean(),
+    auto_mark_absent_after_minutes: fc.integer({ min: 0, max: 240 }),
+  })
+  .map(({ late_fraction, ...policy }) => ({
+    ...policy,
+    late_after_minutes: Math.floor(policy.check_in_closes_minutes_after * late_fraction),
+  }));
+
+const startMs = new Date(`${SESSION_DATE}T${START_TIME}`).getTime();
+
+describe('Attendance Policy Property-Based Tests', () => {
+  it('Property: Generated policies are valid', () => {
+    fc.assert(
+      fc.property(policyArb, (policy) => {
+        expect(validateAttendancePolicy(policy)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Check-in is only allowed inside the configured window', () => {
+    fc.assert(
+      fc.property(policyArb, fc.integer({ min: -600, max: 600 }), (policy, offsetMinutes) => {
+        const now = new Date(startMs + offsetMinutes * MINUTE_MS);
+        const result = evaluateCheckIn(now, SESSION_DATE, START_TIME, policy);
+
+        const insideWindow =
+          offsetMinutes >= -policy.check_in_opens_minutes_before &&
+          offsetMinutes <= policy.check_in_closes_minutes_after;
+
+        expect(result.allowed).toBe(insideWindow);
+
+        if (!result.allowed) {
+          expect(result.reason).toBe(offsetMinutes < 0 ? 'too_early' : 'too_late');
+          expect(result.message.length).toBeGreaterThan(0);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('Property: Status is late exactly after the late threshold', () => {
+    fc.assert(
+      fc.property(policyArb, fc.integer({ min: -600, max: 600 }), (policy, offsetMinutes) => {
+        const now = new Date(startMs + offsetMinutes * MINUTE_MS);
+        const result = evaluateCheckIn(now, SESSION_DATE, START_TIME, policy);
+
+        if (result.allowed) {
+          expect(result.status).toBe(
+            offsetMinutes > policy.late_after_minutes ? 'late' : 'present'
+          );
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('Property: Coaches can record presence once the window has opened', () => {
+    fc.assert(
+      fc.property(policyArb, fc.integer({ min: -600, max: 600 }), (policy, offsetMinutes) => {
+        const now = new Date(startMs + offsetMinutes * MINUTE_MS);
+        const { opensAt } = getCheckInWindow(SESSION_DATE, START_TIME, policy);
+
+        expect(canRecordPresence(now, SESSION_DATE, START_TIME, policy)).toBe(now >= opensAt);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Counting late as present never lowers the rate', () => {
+    fc.assert(
+      fc.property(
+        policyArb,
+        fc.nat({ max: 100 }),
+        fc.nat({ max: 100 }),
+        fc.nat({ max: 100 }),
+        (policy, present, late, absent) => {
+          const counts = { present, late, total: present + late + absent };
+          const strict = calculateAttendanceRate(counts, {
+            ...policy,
+            count_late_as_present: false,
+          });
+          const lenient = calculateAttendanceRate(counts, {
+            ...policy,
+            count_late_as_present: true,
+          });
+
+          expect(lenient).toBeGreaterThanOrEqual(strict);
+          expect(strict).toBeGreaterThanOrEqual(0);
+          expect(lenient).toBeLessThanOrEqual(100);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('keeps the previous 30/15 minute window as the default', () => {
+    const at = (minutes: number) => new Date(startMs + minutes * MINUTE_MS);
+    const policy = DEFAULT_ATTENDANCE_POLICY;
+
+    expect(evaluateCheckIn(at(-31), SESSION_DATE, START_TIME, policy).allowed).toBe(false);
+    expect(evaluateCheckIn(at(-30), SESSION_DATE, START_TIME, policy)).toEqual({
+      allowed: true,
+      status: 'present',
+    });
+    expect(evaluateCheckIn(at(5), SESSION_DATE, START_TIME, policy)).toEqual({
+      allowed: true,
+      status: 'late',
+    });
+    expect(evaluateCheckIn(at(16), SESSION_DATE, START_TIME, policy)).toMatchObject({
+      allowed: false,
+      reason: 'too_late',
+    });
+  });
+
+  it('resolves stored layers over the defaults and ignores malformed fields', () => {
+    expect(resolveAttendancePolicy()).toEqual(DEFAULT_ATTENDANCE_POLICY);
+    expect(
+      resolveAttendancePolicy(
+        { check_in_opens_minutes_before: 60, late_after_minutes: 'ten' },
+        null,
+        { check_in_opens_minutes_before: 45, count_late_as_present: false }
+      )
+    ).toEqual({
+      ...DEFAULT_ATTENDANCE_POLICY,
+      check_in_opens_minutes_before: 45,
+      count_late_as_present: false,
+    });
+  });
+
+  it('rejects invalid policies', () => {
+    expect(
+      validateAttendancePolicy({ ...DEFAULT_ATTENDANCE_POLICY, check_in_opens_minutes_before: -1 })
+    ).not.toBeNull();
+    expect(
+      validateAttendancePolicy({ ...DEFAULT_ATTENDANCE_POLICY, late_after_minutes: 1.5 })
+    ).not.toBeNull();
+    expect(
+      validateAttendancePolicy({
+        ...DEFAULT_ATTENDANCE_POLICY,
+        check_in_closes_minutes_after: 10,
+        late_after_minutes: 20,
+      })
+    ).not.toBeNull();
+  });
+
+  it('applies auto-absent only when enabled and after the grace period', () => {
+    const endTime = '19:00:00';
+    const end = new Date(`${SESSION_DATE}T${endTime}`).getTime();
+    const policy = {
+      ...DEFAULT_ATTENDANCE_POLICY,
+      auto_mark_absent: true,
+      auto_mark_absent_after_minutes: 30,
+    };
+
+    expect(isAutoAbsentDue(new Date(end + 29 * MINUTE_MS), SESSION_DATE, endTime, policy)).toBe(
+      false
+    );
+    expect(isAutoAbsentDue(new Date(end + 30 * MINUTE_MS), SESSION_DATE, endTime, policy)).toBe(
+      true
+    );
+    expect(
+      isAutoAbsentDue(new Date(end + 600 * MINUTE_MS), SESSION_DATE, endTime, {
+        ...policy,
+        auto_mark_absent: false,
+      })
+    ).toBe(false);
+  });
+
+  it('builds per-club setting keys', () => {
+    expect(attendancePolicySettingKey()).toBe('attendance_policy');
+    expect(attendancePolicySettingKey('club-1')).toBe('attendance_policy:club-1');
+  });
+});
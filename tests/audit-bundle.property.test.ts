@@ -0,0 +1,212 @@
+/**
+ * Property-Based Tests for Signed Audit Bundles
+ * Feature: sports-club-management
+ *
+ * Property: Exported audit bundles are tamper-evident
+ * For any exported range of the hash-chained audit log, the signature only
+ * verifies for the unmodified bundle and the published key, and the chain
+ * check reports every removed or re-linked entry
+ *
+ * Validates: Requirements 5.5
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createHash, generateKeyPairSync } from 'crypto';
+import {
+  AUDIT_CHAIN_GENESIS,
+  canonicalJson,
+  checkAuditBundleChain,
+  signAuditBundle,
+  verifyAuditBundleSignature,
+  type AuditBundle,
+} from '@/lib/audit/bundle';
+import type { AuditLogEntry } from '@/lib/audit/actions';
+
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+const publishedKey = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+const otherKey = generateKeyPairSync('ed25519')
+  .publicKey.export({ type: 'spki', format: 'pem' })
+  .toString();
+
+function sha256(value: string) {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** A chain of entries starting at the given sequence */
+function buildChain(count: number, firstSequence = 1): AuditLogEntry[] {
+  const entries: AuditLogEntry[] = [];
+  let previousHash = firstSequence === 1 ? AUDIT_CHAIN_GENESIS : sha256('earlier');
+
+  for (let i = 0; i < count; i++) {
+    const sequence = firstSequence + i;
+    const entry = {
+      id: `00000000-0000-4000-8000-${String(sequence).padStart(12, '0')}`,
+      user_id: null,
+      user_role: 'coach',
+      action_type: 'leave_request.approve',
+      entity_type: 'leave_request',
+      entity_id: `leave-${sequence}`,
+      details: null,
+      changes: { status: { before: 'pending', after: 'approved' } },
+      correlation_id: null,
+      ip_address: null,
+      user_agent: null,
+      created_at: new Date(Date.UTC(2026, 9, 1) + sequence * 60000).toISOString(),
+      sequence,
+      previous_hash: previousHash,
+      row_hash: '',
+    } as AuditLogEntry;
+    entry.row_hash = sha256(`${previousHash}${sequence}`);
+    previousHash = entry.row_hash;
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+function buildBundle(entries: AuditLogEntry[]): AuditBundle {
+  return {
+    version: 1,
+    generatedAt: '2026-10-19T08:00:00.000Z',
+    generatedBy: 'admin-1',
+    range: { startDate: '2026-10-01T00:00:00.000Z', endDate: null },
+    verification: {
+      valid: true,
+      checked: entries.length,
+      firstSequence: entries[0]?.sequence ?? null,
+      lastSequence: entries[entries.length - 1]?.sequence ?? null,
+      previousHash: entries[0]?.previous_hash ?? null,
+      headHash: entries[entries.length - 1]?.row_hash ?? null,
+      issues: [],
+    },
+    entries,
+  };
+}
+
+describe('Signed audit bundles', () => {
+  it('verifies an unmodified bundle with the published key only', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 20 }), (count) => {
+        const signed = signAuditBundle(buildBundle(buildChain(count)), privateKey);
+
+        expect(verifyAuditBundleSignature(signed)).toBe(true);
+        expect(verifyAuditBundleSignature(signed, publishedKey)).toBe(true);
+        expect(verifyAuditBundleSignature(signed, otherKey)).toBe(false);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('rejects a bundle whose entries were changed after signing', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.nat(),
+        fc.constantFrom('entity_id', 'action_type', 'created_at', 'row_hash'),
+        fc.string({ minLength: 1 }),
+        (count, index, field, value) => {
+          const signed = signAuditBundle(buildBundle(buildChain(count)), privateKey);
+          const entry = signed.entries[index % count];
+          fc.pre(entry[field] !== value);
+
+          const tampered = {
+            ...signed,
+            entries: signed.entries.map((item) =>
+              item === entry ? { ...item, [field]: value } : item
+            ),
+          };
+          expect(verifyAuditBundleSignature(tampered, publishedKey)).toBe(false);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('rejects a bundle whose verification result was changed after signing', () => {
+    const chain = buildChain(3);
+    const signed = signAuditBundle(
+      {
+        ...buildBundle(chain),
+        verification: {
+          ...buildBundle(chain).verification,
+          valid: false,
+          issues: [{ type: 'modified', sequence: 2, entryId: chain[1].id }],
+        },
+      },
+      privateKey
+    );
+
+    const cleaned = {
+      ...signed,
+      verification: { ...signed.verification, valid: true, issues: [] },
+    };
+    expect(verifyAuditBundleSignature(signed, publishedKey)).toBe(true);
+    expect(verifyAuditBundleSignature(cleaned, publishedKey)).toBe(false);
+  });
+
+  it('signs the same content identically regardless of key order', () => {
+    fc.assert(
+      fc.property(fc.dictionary(fc.string(), fc.jsonValue()), (value) => {
+        const reversed = Object.fromEntries(Object.entries(value).reverse());
+        expect(canonicalJson(reversed)).toBe(canonicalJson(value));
+        expect(JSON.parse(canonicalJson(value))).toEqual(JSON.parse(JSON.stringify(value)));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Audit bundle chain check', () => {
+  it('accepts an unbroken chain, from the start or from mid-chain', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 20 }),
+        fc.integer({ min: 1, max: 1000 }),
+        (count, first) => {
+          const chain = buildChain(count, first);
+          expect(checkAuditBundleChain(chain, chain[0]?.previous_hash ?? null)).toEqual([]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('reports a gap for every removed entry', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 3, max: 20 }), fc.nat(), (count, index) => {
+        const chain = buildChain(count);
+        const removed = 1 + (index % (count - 2));
+        const entries = chain.filter((_, i) => i !== removed);
+
+        expect(checkAuditBundleChain(entries, AUDIT_CHAIN_GENESIS)).toEqual([
+          {
+            type: 'gap',
+            sequence: chain[removed + 1].sequence,
+            entryId: chain[removed + 1].id,
+            missingFrom: chain[removed].sequence,
+            missingTo: chain[removed].sequence,
+          },
+        ]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('reports an entry that does not link to the one before it', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 20 }), fc.nat(), (count, index) => {
+        const chain = buildChain(count);
+        const relinked = index % count;
+        const entries = chain.map((entry, i) =>
+          i === relinked ? { ...entry, previous_hash: sha256('forged') } : entry
+        );
+
+        expect(checkAuditBundleChain(entries, AUDIT_CHAIN_GENESIS)).toEqual([
+          { type: 'broken_link', sequence: chain[relinked].sequence, entryId: chain[relinked].id },
+        ]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
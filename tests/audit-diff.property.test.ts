@@ -0,0 +1,99 @@
+/**
+ * Property-Based Tests for Audit Diffs
+ * Feature: sports-club-management
+ *
+ * Property: Audit changes record exactly what a mutation changed
+ * For any record before and after a mutation, the diff lists every changed
+ * field with its old and new value, leaves out unchanged fields, and never
+ * contains the value of a secret
+ *
+ * Validates: Requirements 5.5
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { REDACTED, diffAuditRecords, redactAuditRecord } from '@/lib/audit/diff';
+
+const fieldArb = fc.constantFrom('name', 'status', 'notes', 'capacity', 'club_id', 'is_active');
+const valueArb = fc.oneof(
+  fc.string(),
+  fc.integer(),
+  fc.boolean(),
+  fc.constant(null),
+  fc.array(fc.string(), { maxLength: 3 })
+);
+const recordArb = fc.dictionary(fieldArb, valueArb);
+
+describe('Audit diffs', () => {
+  it('lists exactly the written fields whose value changed', () => {
+    fc.assert(
+      fc.property(recordArb, recordArb, (before, after) => {
+        const changes = diffAuditRecords(before, after);
+
+        for (const field of Object.keys(after)) {
+          const changed = JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field]);
+          if (changed) {
+            expect(changes[field]).toEqual({ before: before[field] ?? null, after: after[field] });
+          } else {
+            expect(changes).not.toHaveProperty(field);
+          }
+        }
+        // Fields the update did not write are not reported
+        for (const field of Object.keys(changes)) {
+          expect(after).toHaveProperty(field);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('records every field of a created or deleted record', () => {
+    fc.assert(
+      fc.property(recordArb, (record) => {
+        const created = diffAuditRecords(null, record);
+        const deleted = diffAuditRecords(record, null);
+
+        for (const [field, value] of Object.entries(record)) {
+          expect(created[field]).toEqual({ before: null, after: value ?? null });
+          expect(deleted[field]).toEqual({ before: value ?? null, after: null });
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('ignores updated_at', () => {
+    const changes = diffAuditRecords(
+      { status: 'draft', updated_at: '2026-10-01T00:00:00Z' },
+      { status: 'published', updated_at: '2026-10-19T00:00:00Z' }
+    );
+    expect(changes).toEqual({ status: { before: 'draft', after: 'published' } });
+  });
+
+  it('never copies a secret into the audit log', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('password_hash', 'secret', 'verification_token', 'otp_code'),
+        fc.string({ minLength: 1 }),
+        fc.string({ minLength: 1 }),
+        (field, previous, next) => {
+          fc.pre(previous !== next);
+          const changes = diffAuditRecords({ [field]: previous }, { [field]: next });
+
+          // Still reported as changed, without either value
+          expect(changes[field]).toEqual({ before: REDACTED, after: REDACTED });
+          expect(redactAuditRecord({ [field]: next, name: 'x' })).toEqual({
+            [field]: REDACTED,
+            name: 'x',
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('returns null details when there are none', () => {
+    expect(redactAuditRecord(undefined)).toBeNull();
+    expect(redactAuditRecord(null)).toBeNull();
+  });
+});
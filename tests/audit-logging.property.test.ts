@@ -80,8 +80,16 @@ vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabase),
 }));
 
+// Entries without a signed-in user are written with the service role
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(() => mockSupabase),
+}));
+
 // Import after mocking
-const { createAuditLog, getAuditLogs } = await import('@/lib/audit/actions');
+const { getAuditLogs } = await import('@/lib/audit/actions');
+const { createAuditLog } = await import('@/lib/audit/log');
+const { createClient } = await import('@/lib/supabase/server');
+const { createAdminClient } = await import('@/lib/supabase/admin');
 
 describe('Audit Logging Property-Based Tests', () => {
   beforeEach(() => {
@@ -383,4 +391,38 @@ describe('Audit Logging Property-Based Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  it('records the signed-in user and their role, not the ones passed in', async () => {
+    const signedInClient = {
+      auth: {
+        getUser: vi.fn(async () => ({ data: { user: { id: 'auth-user-1' } } })),
+      },
+      from: vi.fn((table: string) => {
+        if (table === 'user_roles') {
+          return {
+            select: () => ({
+              eq: () => ({
+                maybeSingle: async () => ({ data: { role: 'coach' }, error: null }),
+              }),
+            }),
+          };
+        }
+        return mockSupabase.from(table);
+      }),
+    };
+    vi.mocked(createClient).mockResolvedValueOnce(signedInClient as never);
+
+    const result = await createAuditLog({
+      userId: 'someone-else',
+      userRole: 'admin',
+      actionType: 'athlete.update',
+      entityType: 'athlete',
+      entityId: 'athlete-1',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.user_id).toBe('auth-user-1');
+    expect(result.data?.user_role).toBe('coach');
+    expect(createAdminClient).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,218 @@
+/**
+ * Property-Based Tests for Check-in Geofence
+ * Feature: training-attendance
+ *
+ * Property: Geofence decisions
+ * For any fence and device position, a check-in is only accepted when the
+ * reported position is inside the fence with a usable fix, and only rejected
+ * when the athlete is outside the fence even allowing for GPS accuracy
+ *
+ * This property ensures that:
+ * - Distance is symmetric and zero for identical points
+ * - Accepted check-ins are always within the radius
+ * - Rejections never happen to someone who could be inside the fence
+ * - Flag-only fences never reject
+ * - Location-specific fences override the club-wide default
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  distanceInMeters,
+  evaluateGeofence,
+  selectGeofence,
+  MAX_ACCEPTED_ACCURACY_M,
+  type ClubGeofence,
+  type Geofence,
+  type GeoPosition,
+} from '@/lib/athlete/geofence';
+
+// Keep away from the poles where a few degrees of longitude is almost nothing
+const latitudeArb = fc.double({ min: -60, max: 60, noNaN: true });
+const longitudeArb = fc.double({ min: -179, max: 179, noNaN: true });
+
+const fenceArb = fc.record({
+  latitude: latitudeArb,
+  longitude: longitudeArb,
+  radius_m: fc.integer({ min: 10, max: 5000 }),
+  enforcement: fc.constantFrom<'reject' | 'flag'>('reject', 'flag'),
+});
+
+/** Position offset from the fence centre by roughly `meters` to the north-east */
+const positionNear = (fence: Geofence, meters: number, accuracy: number): GeoPosition => {
+  const offset = meters / Math.SQRT2 / 111_320;
+  return {
+    latitude: fence.latitude + offset,
+    longitude: fence.longitude + offset / Math.cos((fence.latitude * Math.PI) / 180),
+    accuracy,
+  };
+};
+
+describe('Check-in Geofence Property-Based Tests', () => {
+  it('Property: Distance is symmetric and zero for the same point', () => {
+    fc.assert(
+      fc.property(
+        latitudeArb,
+        longitudeArb,
+        latitudeArb,
+        longitudeArb,
+        (lat1, lon1, lat2, lon2) => {
+          const a = { latitude: lat1, longitude: lon1 };
+          const b = { latitude: lat2, longitude: lon2 };
+
+          expect(distanceInMeters(a, a)).toBe(0);
+          expect(distanceInMeters(a, b)).toBeCloseTo(distanceInMeters(b, a), 6);
+          expect(distanceInMeters(a, b)).toBeGreaterThanOrEqual(0);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Accepted check-ins are inside the fence with a usable fix', () => {
+    fc.assert(
+      fc.property(
+        fenceArb,
+        fc.integer({ min: 0, max: 20000 }),
+        fc.integer({ min: 0, max: 2000 }),
+        (fence, meters, accuracy) => {
+          const position = positionNear(fence, meters, accuracy);
+          const result = evaluateGeofence(fence, position);
+
+          if (result.decision === 'accept') {
+            expect(result.distance_m).not.toBeNull();
+            expect(result.distance_m!).toBeLessThanOrEqual(fence.radius_m);
+            expect(position.accuracy).toBeLessThanOrEqual(MAX_ACCEPTED_ACCURACY_M);
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('Property: Only clearly-outside or unlocated check-ins are rejected', () => {
+    fc.assert(
+      fc.property(
+        fenceArb,
+        fc.integer({ min: 0, max: 20000 }),
+        fc.integer({ min: 0, max: 2000 }),
+        (fence, meters, accuracy) => {
+          const result = evaluateGeofence(fence, positionNear(fence, meters, accuracy));
+
+          if (result.decision === 'reject') {
+            expect(fence.enforcement).toBe('reject');
+            expect(result.reason).toBe('outside');
+            expect(result.distance_m! - accuracy).toBeGreaterThan(fence.radius_m);
+          }
+
+          if (fence.enforcement === 'flag') {
+            expect(result.decision).not.toBe('reject');
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('Property: Moving closer never makes the decision worse', () => {
+    const rank = { accept: 0, flag: 1, reject: 2 };
+
+    fc.assert(
+      fc.property(
+        fenceArb,
+        fc.integer({ min: 0, max: 20000 }),
+        fc.integer({ min: 0, max: 20000 }),
+        fc.integer({ min: 0, max: 500 }),
+        (fence, a, b, accuracy) => {
+          const near = evaluateGeofence(fence, positionNear(fence, Math.min(a, b), accuracy));
+          const far = evaluateGeofence(fence, positionNear(fence, Math.max(a, b), accuracy));
+
+          expect(rank[near.decision]).toBeLessThanOrEqual(rank[far.decision]);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('accepts everything when no fence is configured', () => {
+    expect(evaluateGeofence(null, null)).toEqual({
+      decision: 'accept',
+      reason: null,
+      distance_m: null,
+    });
+  });
+
+  it('handles missing or invalid positions according to enforcement', () => {
+    const fence: Geofence = {
+      latitude: 13.7563,
+      longitude: 100.5018,
+      radius_m: 200,
+      enforcement: 'reject',
+    };
+
+    expect(evaluateGeofence(fence, null)).toMatchObject({
+      decision: 'reject',
+      reason: 'missing_location',
+    });
+    expect(
+      evaluateGeofence(
+        { ...fence, enforcement: 'flag' },
+        { latitude: NaN, longitude: 0, accuracy: 5 }
+      )
+    ).toMatchObject({ decision: 'flag', reason: 'missing_location' });
+  });
+
+  it('flags coarse fixes and positions near the boundary', () => {
+    const fence: Geofence = {
+      latitude: 13.7563,
+      longitude: 100.5018,
+      radius_m: 200,
+      enforcement: 'reject',
+    };
+
+    expect(evaluateGeofence(fence, positionNear(fence, 50, 500))).toMatchObject({
+      decision: 'flag',
+      reason: 'low_accuracy',
+    });
+    expect(evaluateGeofence(fence, positionNear(fence, 230, 50))).toMatchObject({
+      decision: 'flag',
+      reason: 'near_boundary',
+    });
+    expect(evaluateGeofence(fence, positionNear(fence, 50, 10)).decision).toBe('accept');
+  });
+
+  it('prefers a location-specific fence over the club default', () => {
+    const fences: ClubGeofence[] = [
+      {
+        id: 'club',
+        location: null,
+        latitude: 13.7,
+        longitude: 100.5,
+        radius_m: 500,
+        enforcement: 'flag',
+      },
+      {
+        id: 'field',
+        location: 'สนามฟุตบอล A',
+        latitude: 13.8,
+        longitude: 100.6,
+        radius_m: 100,
+        enforcement: 'reject',
+      },
+      {
+        id: 'old',
+        location: 'ห้องฟิตเนส',
+        latitude: 13.9,
+        longitude: 100.7,
+        radius_m: 100,
+        enforcement: 'reject',
+        is_active: false,
+      },
+    ];
+
+    expect(selectGeofence(fences, ' สนามฟุตบอล  A ')?.id).toBe('field');
+    expect(selectGeofence(fences, 'ห้องฟิตเนส')?.id).toBe('club');
+    expect(selectGeofence(fences, null)?.id).toBe('club');
+    expect(selectGeofence([], 'สนามฟุตบอล A')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Coach Session Ownership Tests
+ *
+ * training_sessions.coach_id references auth.users, so the coach attendance
+ * actions must compare it with coaches.user_id, not coaches.id. The fixtures
+ * use different values for the two so a comparison with coaches.id fails.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const COACH_ROW_ID = 'coach-row-1';
+const COACH_USER_ID = 'auth-coach-1';
+
+let sessionRow: Record<string, unknown>;
+
+function query(result: unknown) {
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    single: async () => ({ data: result, error: null }),
+    maybeSingle: async () => ({ data: result, error: null }),
+  };
+  return builder;
+}
+
+const mockSupabase = {
+  auth: {
+    getUser: vi.fn(async () => ({ data: { user: { id: COACH_USER_ID } }, error: null })),
+  },
+  from: vi.fn((table: string) => {
+    if (table === 'coaches') {
+      return query({ id: COACH_ROW_ID, user_id: COACH_USER_ID });
+    }
+    if (table === 'training_sessions') {
+      return query(sessionRow);
+    }
+    return query(null);
+  }),
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabase),
+}));
+
+vi.mock('@/lib/audit/log', () => ({
+  createAuditLog: vi.fn(async () => ({ success: true })),
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}));
+
+const { getSessionQRToken, syncOfflineAttendanceMark } = await import(
+  '@/lib/coach/attendance-actions'
+);
+
+const mark = {
+  sessionId: 'session-1',
+  athleteId: 'athlete-1',
+  athleteName: 'นักกีฬา',
+  status: 'absent' as const,
+  markedAt: '2026-10-19T10:00:00.000Z',
+  base: null,
+};
+
+describe('coach session ownership', () => {
+  beforeEach(() => {
+    vi.stubEnv('QR_TOKEN_SECRET', 'test-secret');
+    sessionRow = {
+      id: 'session-1',
+      club_id: 'club-1',
+      coach_id: COACH_USER_ID,
+      status: 'scheduled',
+      session_date: '2026-10-19',
+      start_time: '09:00:00',
+      attendance_locked_at: null,
+    };
+  });
+
+  it('issues a QR token for a session the coach owns', async () => {
+    const result = await getSessionQRToken('session-1');
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.token).toBeDefined();
+  });
+
+  it("refuses a QR token for another coach's session", async () => {
+    sessionRow.coach_id = 'auth-coach-2';
+
+    const result = await getSessionQRToken('session-1');
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toContain('ไม่ได้รับอนุญาต');
+  });
+
+  it('accepts offline marks for a session the coach owns', async () => {
+    // A closed-out sheet is the first check after ownership
+    sessionRow.attendance_locked_at = '2026-10-19T12:00:00.000Z';
+
+    const result = await syncOfflineAttendanceMark(mark);
+
+    expect(result.data?.outcome).toBe('rejected');
+    expect(result.data?.message).toContain('ปิดการเช็คชื่อ');
+  });
+
+  it("rejects offline marks for another coach's session", async () => {
+    sessionRow.coach_id = COACH_ROW_ID;
+
+    const result = await syncOfflineAttendanceMark(mark);
+
+    expect(result.data?.outcome).toBe('rejected');
+    expect(result.data?.message).toContain('ไม่ได้รับอนุญาต');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Event Schema Contract Tests
+ *
+ * Keeps the event registry honest for subscribers and webhook receivers:
+ * every schema file is registered with the runtime validator, published
+ * versions only change compatibly (events/schemas.lock.json), and the
+ * generated payload types match the schemas (types/events.generated.ts).
+ *
+ * After a compatible schema change or a new version, refresh the lock file
+ * and types with `npm run events:generate`.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { format, resolveConfig } from 'prettier';
+import { EVENT_SCHEMAS, type JsonSchema } from '@/lib/utils/event-validator';
+import { compareSchemaSets, findBreakingChanges } from '@/lib/utils/event-schema-compat';
+import { eventTypeName, generateEventTypes } from '@/lib/utils/event-schema-codegen';
+
+const SCHEMAS_DIR = path.resolve(__dirname, '../../../events/schemas');
+const LOCK_FILE = path.resolve(__dirname, '../../../events/schemas.lock.json');
+const TYPES_FILE = path.resolve(__dirname, '../../../types/events.generated.ts');
+
+function schemaFiles(): { file: string; schema: JsonSchema }[] {
+  return fs
+    .readdirSync(SCHEMAS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((domain) =>
+      fs
+        .readdirSync(path.join(SCHEMAS_DIR, domain.name))
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => {
+          const file = path.join(domain.name, name);
+          return {
+            file,
+            schema: JSON.parse(fs.readFileSync(path.join(SCHEMAS_DIR, file), 'utf-8')),
+          };
+        })
+    );
+}
+
+function currentSchemas(): Record<string, JsonSchema> {
+  return Object.fromEntries([...EVENT_SCHEMAS.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+describe('Event Schema Contracts', () => {
+  it('registers every schema file with the validator under its path-derived id', () => {
+    const files = schemaFiles();
+    expect(files.length).toBe(EVENT_SCHEMAS.size);
+
+    for (const { file, schema } of files) {
+      const expectedId = `org.club.${file
+        .replace(/\.json$/, '')
+        .split(path.sep)
+        .join('.')}`;
+      expect(schema.$id, file).toBe(expectedId);
+      expect(EVENT_SCHEMAS.get(expectedId), file).toEqual(schema);
+      expect(schema.properties?.eventType?.const, file).toBe(expectedId);
+    }
+  });
+
+  it('changes published schema versions only compatibly', async () => {
+    const published: Record<string, JsonSchema> = fs.existsSync(LOCK_FILE)
+      ? JSON.parse(fs.readFileSync(LOCK_FILE, 'utf-8'))
+      : {};
+
+    const breaking = compareSchemaSets(published, currentSchemas());
+    expect(
+      breaking,
+      'Breaking change to a published event schema; add a new version (e.g. .v2.json) instead'
+    ).toEqual([]);
+
+    const lock = await format(JSON.stringify(currentSchemas()), {
+      ...(await resolveConfig(LOCK_FILE)),
+      parser: 'json',
+    });
+    await expect(lock).toMatchFileSnapshot(LOCK_FILE);
+  });
+
+  it('keeps the generated payload types in sync with the schemas', async () => {
+    await expect(generateEventTypes([...EVENT_SCHEMAS.values()])).toMatchFileSnapshot(TYPES_FILE);
+  });
+});
+
+describe('Event Schema Compatibility Checker', () => {
+  const base: JsonSchema = {
+    type: 'object',
+    required: ['id', 'status'],
+    properties: {
+      id: { type: 'string', format: 'uuid', description: 'Identifier' },
+      status: { type: 'string', enum: ['present', 'absent'] },
+      notes: { type: ['string', 'null'], maxLength: 500 },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+  };
+
+  function change(edit: (schema: JsonSchema) => void): string[] {
+    const next: JsonSchema = JSON.parse(JSON.stringify(base));
+    edit(next);
+    return findBreakingChanges(base, next);
+  }
+
+  it('accepts documentation edits and new optional properties', () => {
+    expect(change((s) => (s.properties!.id.description = 'Attendance id'))).toEqual([]);
+    expect(change((s) => (s.properties!.clubId = { type: 'string', format: 'uuid' }))).toEqual([]);
+    expect(change((s) => (s.required = ['status', 'id']))).toEqual([]);
+    expect(change((s) => (s.properties!.notes.type = ['null', 'string']))).toEqual([]);
+  });
+
+  it('rejects edits that change which events are valid', () => {
+    expect(change((s) => delete s.properties!.notes)).toEqual(['$.notes: property removed']);
+    expect(change((s) => s.required!.push('notes'))).toHaveLength(1);
+    expect(change((s) => (s.required = ['id']))).toHaveLength(1);
+    expect(change((s) => (s.properties!.id.type = 'integer'))[0]).toMatch(/^\$\.id: "type"/);
+    expect(change((s) => s.properties!.status.enum!.push('late'))[0]).toMatch(
+      /^\$\.status: "enum"/
+    );
+    expect(change((s) => (s.properties!.notes.maxLength = 200))[0]).toMatch(/"maxLength"/);
+    expect(change((s) => delete s.properties!.id.format)[0]).toMatch(/"format"/);
+    expect(change((s) => (s.properties!.tags.items = { type: 'integer' }))[0]).toMatch(
+      /^\$\.tags\[\]: "type"/
+    );
+    expect(change((s) => ((s as Record<string, unknown>).additionalProperties = false))[0]).toMatch(
+      /"additionalProperties"/
+    );
+  });
+
+  it('treats removed versions as breaking and new versions as compatible', () => {
+    const v1 = { 'org.club.training.session.created.v1': base };
+    const v2 = { ...v1, 'org.club.training.session.created.v2': { ...base, required: ['id'] } };
+
+    expect(compareSchemaSets(v1, v2)).toEqual([]);
+    expect(compareSchemaSets(v2, v1)).toEqual([
+      'org.club.training.session.created.v2: schema removed',
+    ]);
+  });
+
+  it('names payload types after the event type', () => {
+    expect(eventTypeName('org.club.training.attendance.recorded.v1')).toBe(
+      'TrainingAttendanceRecordedV1Data'
+    );
+  });
+});
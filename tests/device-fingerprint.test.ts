@@ -0,0 +1,47 @@
+/**
+ * Device Name Tests
+ *
+ * Tests the default names shown for push notification devices before the
+ * user renames them (see describeDevice in lib/utils/device-fingerprint.ts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeDevice } from '@/lib/utils/device-fingerprint';
+
+describe('describeDevice', () => {
+  it('names the browser and platform', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Mobile Safari/537.36'
+      )
+    ).toBe('Chrome บน Android');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari บน iPhone');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.5; rv:129.0) Gecko/20100101 Firefox/129.0'
+      )
+    ).toBe('Firefox บน macOS');
+  });
+
+  it('does not mistake Chromium-based browsers for Chrome', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 Edg/128.0.0.0'
+      )
+    ).toBe('Edge บน Windows');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/25.0 Chrome/121.0.0.0 Safari/537.36'
+      )
+    ).toBe('Samsung Internet บน Android');
+  });
+
+  it('falls back when the user agent is missing or unknown', () => {
+    expect(describeDevice(null)).toBe('อุปกรณ์ไม่ทราบชื่อ');
+    expect(describeDevice('curl/8.5.0')).toBe('อุปกรณ์ไม่ทราบชื่อ');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Email Delivery Tests
+ *
+ * Tests template rendering in lib/utils/email-templates.ts, MIME building and
+ * the SMTP and file transports in lib/utils/email-transport.ts, and the retry
+ * and bounce decisions in lib/admin/email-delivery.ts
+ */
+
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { createServer, type Server, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MAX_DELIVERY_ATTEMPTS } from '@/lib/utils/event-dispatcher';
+import { latestTemplateVersion, renderEmail } from '@/lib/utils/email-templates';
+import {
+  buildMimeMessage,
+  createFileTransport,
+  createSmtpTransport,
+  encodeHeaderValue,
+  parseEmailAddress,
+  type EmailSendResult,
+  type OutgoingEmail,
+} from '@/lib/utils/email-transport';
+import { planEmailOutcome } from '@/lib/admin/email-delivery';
+
+const NOW = new Date('2026-10-19T09:00:00Z');
+
+const MESSAGE: OutgoingEmail = {
+  from: { email: 'no-reply@club.example', name: 'สโมสรกีฬา' },
+  to: { email: 'parent@example.com', name: 'Somchai' },
+  subject: 'ยืนยันอีเมลเพื่อติดตาม น้องเอ',
+  text: 'สวัสดี\n.line starting with a dot',
+  html: '<p>สวัสดี</p>',
+  messageId: 'abc@club.example',
+};
+
+function decodeBase64Part(mime: string, contentType: string): string {
+  const start = mime.indexOf(`Content-Type: ${contentType}`);
+  const body = mime.slice(mime.indexOf('\r\n\r\n', start) + 4);
+  return Buffer.from(body.slice(0, body.indexOf('\r\n--')).replace(/\r\n/g, ''), 'base64').toString(
+    'utf8'
+  );
+}
+
+describe('renderEmail', () => {
+  const variables = {
+    parentName: 'สมชาย',
+    athleteName: 'น้องเอ',
+    verifyUrl: 'https://club.example/parent/verify?token=abc',
+  };
+
+  it('renders Thai and English content with the latest version', () => {
+    const th = renderEmail('parent_verification', 'th', variables);
+    const en = renderEmail('parent_verification', 'en', variables);
+
+    expect(th.version).toBe(latestTemplateVersion('parent_verification'));
+    expect(th.subject).toContain('น้องเอ');
+    expect(th.text).toContain('https://club.example/parent/verify?token=abc');
+    expect(th.html).toContain('<html lang="th">');
+    expect(en.html).toContain('<html lang="en">');
+    expect(en.subject).not.toBe(th.subject);
+  });
+
+  it('escapes variables in the HTML part but not in the text part', () => {
+    const rendered = renderEmail('parent_verification', 'en', {
+      ...variables,
+      athleteName: '<script>alert(1)</script>',
+    });
+
+    expect(rendered.html).not.toContain('<script>');
+    expect(rendered.html).toContain('&lt;script&gt;');
+    expect(rendered.text).toContain('<script>alert(1)</script>');
+  });
+
+  it('keeps the subject on one line', () => {
+    const rendered = renderEmail('notification', 'en', {
+      recipientName: 'A',
+      title: 'Line one\r\nBcc: someone@example.com',
+      message: 'Body',
+      url: 'https://club.example',
+    });
+
+    expect(rendered.subject).not.toMatch(/[\r\n]/);
+  });
+
+  it('refuses missing variables and unknown versions', () => {
+    expect(() =>
+      renderEmail('parent_verification', 'th', { parentName: 'สมชาย', athleteName: 'น้องเอ' })
+    ).toThrow(/verifyUrl/);
+    expect(() => renderEmail('parent_verification', 'th', variables, 999)).toThrow(/version 999/);
+  });
+});
+
+describe('MIME building', () => {
+  it('leaves ASCII headers alone and encodes others without splitting characters', () => {
+    expect(encodeHeaderValue('Weekly report')).toBe('Weekly report');
+
+    const subject = 'รายงานความก้าวหน้าประจำสัปดาห์ของน้องเอ';
+    const encoded = encodeHeaderValue(subject);
+    const words = encoded.split('\r\n ');
+
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    const decoded = words
+      .map((word) => Buffer.from(word.slice('=?UTF-8?B?'.length, -2), 'base64').toString('utf8'))
+      .join('');
+    expect(decoded).toBe(subject);
+  });
+
+  it('parses display-name and bare addresses', () => {
+    expect(parseEmailAddress('Sports Club <no-reply@club.example>')).toEqual({
+      name: 'Sports Club',
+      email: 'no-reply@club.example',
+    });
+    expect(parseEmailAddress('no-reply@club.example')).toEqual({
+      name: null,
+      email: 'no-reply@club.example',
+    });
+    expect(parseEmailAddress('not an address')).toBeNull();
+  });
+
+  it('builds a multipart message with CRLF lines no longer than 76 characters', () => {
+    const mime = buildMimeMessage(MESSAGE, { date: NOW, boundary: 'b1' });
+
+    expect(mime).toContain('Message-ID: <abc@club.example>');
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="b1"');
+    expect(mime.endsWith('--b1--\r\n')).toBe(true);
+    expect(mime.replace(/\r\n/g, '')).not.toContain('\n');
+    for (const line of mime.split('\r\n').slice(mime.split('\r\n').indexOf('') + 1)) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+    expect(decodeBase64Part(mime, 'text/plain')).toBe(MESSAGE.text);
+    expect(decodeBase64Part(mime, 'text/html')).toBe(MESSAGE.html);
+  });
+});
+
+/**
+ * A minimal SMTP server that records what it receives and refuses
+ * recipients at refused.example
+ */
+function startFakeSmtpServer() {
+  const received: { commands: string[]; data: string }[] = [];
+
+  const server = createServer((socket: Socket) => {
+    const session = { commands: [] as string[], data: '' };
+    received.push(session);
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 fake.smtp ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 2.0.0 Ok: queued as Q123\r\n');
+          } else {
+            session.data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        const verb = line.split(/[\s:]/)[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-fake.smtp\r\n250-PIPELINING\r\n250 8BITMIME\r\n');
+        } else if (verb === 'MAIL') {
+          socket.write('250 2.1.0 Ok\r\n');
+        } else if (verb === 'RCPT') {
+          socket.write(
+            line.includes('@refused.example') ? '550 5.1.1 User unknown\r\n' : '250 2.1.5 Ok\r\n'
+          );
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('502 5.5.2 Command not recognized\r\n');
+        }
+      }
+    });
+  });
+
+  return { server, received };
+}
+
+describe('SMTP transport', () => {
+  const fake = startFakeSmtpServer();
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = fake.server;
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('delivers a message the server accepts', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      clientName: 'test.local',
+    });
+    const result = await transport.send(MESSAGE);
+
+    expect(result).toMatchObject({
+      accepted: true,
+      code: 250,
+      messageId: 'abc@club.example',
+      response: '2.0.0 Ok: queued as Q123',
+    });
+
+    const session = fake.received[fake.received.length - 1];
+    // QUIT is sent after the result is known, so it may not have arrived yet
+    expect(session.commands.slice(0, 4)).toEqual([
+      'EHLO test.local',
+      'MAIL FROM:<no-reply@club.example>',
+      'RCPT TO:<parent@example.com>',
+      'DATA',
+    ]);
+    // Dot-stuffing is undone by the server, leaving the message as built
+    const unstuffed = session.data.replace(/^\.\./gm, '.');
+    expect(decodeBase64Part(unstuffed, 'text/plain')).toBe(MESSAGE.text);
+  });
+
+  it('reports a recipient the server refuses as a permanent bounce', async () => {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false });
+    const result = await transport.send({
+      ...MESSAGE,
+      to: { email: 'nobody@refused.example' },
+    });
+
+    expect(result).toMatchObject({
+      accepted: false,
+      code: 550,
+      permanent: true,
+      recipientRejected: true,
+    });
+    expect(result.error).toContain('RCPT');
+  });
+
+  it('refuses to send credentials without TLS', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'club',
+      password: 'secret',
+    });
+    const result = await transport.send(MESSAGE);
+
+    expect(result.accepted).toBe(false);
+    expect(result.permanent).toBe(false);
+    expect(result.error).not.toContain('secret');
+    expect(fake.received[fake.received.length - 1].commands.some((c) => c.startsWith('AUTH'))).toBe(
+      false
+    );
+  });
+
+  it('reports a connection failure as temporary', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: closedPort, secure: false });
+    const result = await transport.send(MESSAGE);
+
+    expect(result).toMatchObject({ accepted: false, code: null, permanent: false });
+  });
+});
+
+describe('file transport', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'emails-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes each message as an .eml file', async () => {
+    const result = await createFileTransport(dir).send(MESSAGE);
+    const files = await readdir(dir);
+
+    expect(result.accepted).toBe(true);
+    expect(files).toEqual([result.response]);
+    expect(files[0]).toMatch(/\.eml$/);
+    const contents = await readFile(join(dir, files[0]), 'utf8');
+    expect(contents).toContain('Message-ID: <abc@club.example>');
+  });
+});
+
+describe('planEmailOutcome', () => {
+  const failure = (overrides: Partial<EmailSendResult>): EmailSendResult => ({
+    accepted: false,
+    code: 421,
+    permanent: false,
+    recipientRejected: false,
+    messageId: 'abc@club.example',
+    response: null,
+    error: 'DATA: 421 try again later',
+    ...overrides,
+  });
+
+  it('marks accepted messages sent', () => {
+    const outcome = planEmailOutcome(
+      0,
+      failure({ accepted: true, code: 250, error: null, response: 'queued as Q1' }),
+      NOW
+    );
+
+    expect(outcome).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      sent_at: NOW.toISOString(),
+      provider_response: 'queued as Q1',
+      last_error: null,
+    });
+  });
+
+  it('retries temporary failures later with a growing delay', () => {
+    const first = planEmailOutcome(0, failure({}), NOW);
+    const third = planEmailOutcome(2, failure({}), NOW);
+
+    expect(first.status).toBe('pending');
+    expect(new Date(first.next_attempt_at).getTime()).toBeGreaterThan(NOW.getTime());
+    expect(new Date(third.next_attempt_at).getTime()).toBeGreaterThan(
+      new Date(first.next_attempt_at).getTime()
+    );
+  });
+
+  it('dead-letters permanent failures and exhausted retries', () => {
+    expect(planEmailOutcome(0, failure({ code: 554, permanent: true }), NOW).status).toBe(
+      'dead_letter'
+    );
+    expect(planEmailOutcome(MAX_DELIVERY_ATTEMPTS - 1, failure({}), NOW).status).toBe(
+      'dead_letter'
+    );
+  });
+
+  it('records refused recipients as bounced', () => {
+    const outcome = planEmailOutcome(
+      0,
+      failure({ code: 550, permanent: true, recipientRejected: true }),
+      NOW
+    );
+
+    expect(outcome).toMatchObject({ status: 'bounced', bounced_at: NOW.toISOString() });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Property-Based Tests for the Event Outbox
+ * Feature: domain-events
+ *
+ * Property: Only valid events are published, and failed deliveries end
+ * For any event built by a server action, the outbox accepts it exactly when
+ * it matches its registered schema; for any sequence of delivery attempts,
+ * an event is either delivered or dead-lettered after MAX_DELIVERY_ATTEMPTS
+ *
+ * This property ensures that:
+ * - Events that break their schema never reach subscribers
+ * - Retries back off and never wait longer than an hour
+ * - Subscribers that already handled an event are remembered across retries
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildEvent, EVENT_TYPES } from '@/lib/utils/event-publisher';
+import { EVENT_SCHEMAS, validateEvent } from '@/lib/utils/event-validator';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  clearSubscribers,
+  getSubscribers,
+  planDeliveryOutcome,
+  planInvalidEventOutcome,
+  retryDelayMs,
+  subscribeToEvents,
+} from '@/lib/utils/event-dispatcher';
+
+const attendanceArb = fc.record({
+  attendanceId: fc.uuid(),
+  sessionId: fc.uuid(),
+  athleteId: fc.uuid(),
+  clubId: fc.uuid(),
+  status: fc.constantFrom('present', 'absent', 'late', 'excused'),
+  checkInTime: fc.option(
+    fc
+      .date({ min: new Date('2024-01-01'), max: new Date('2030-01-01'), noInvalidDate: true })
+      .map((d) => d.toISOString()),
+    { nil: null }
+  ),
+  checkInMethod: fc.constantFrom('manual', 'qr', 'auto'),
+  markedBy: fc.uuid(),
+  notes: fc.option(fc.string(), { nil: null }),
+});
+
+const subscriberNameArb = fc.constantFrom('realtime-broadcast', 'webhooks', 'analytics', 'audit');
+
+describe('Event Outbox Property-Based Tests', () => {
+  afterEach(() => {
+    clearSubscribers();
+  });
+
+  it('Property: Every event type raised by server actions has a schema', () => {
+    for (const eventType of Object.values(EVENT_TYPES)) {
+      expect(EVENT_SCHEMAS.has(eventType)).toBe(true);
+    }
+  });
+
+  it('Property: Well-formed attendance events are valid', () => {
+    fc.assert(
+      fc.property(attendanceArb, (data) => {
+        const result = validateEvent(buildEvent(EVENT_TYPES.attendanceRecorded, data));
+
+        expect(result.errors).toEqual([]);
+        expect(result.valid).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Missing required fields and malformed ids are rejected', () => {
+    fc.assert(
+      fc.property(
+        attendanceArb,
+        fc.constantFrom('attendanceId', 'sessionId', 'athleteId', 'status', 'markedBy'),
+        fc.boolean(),
+        (data, field, drop) => {
+          const broken: Record<string, unknown> = { ...data };
+          if (drop) delete broken[field];
+          else broken[field] = 'not-a-uuid';
+
+          const result = validateEvent(buildEvent(EVENT_TYPES.attendanceRecorded, broken));
+
+          expect(result.valid).toBe(false);
+          expect(result.errors.some((error) => error.startsWith(`data.${field}:`))).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Events are checked against the schema of their own type', () => {
+    const rejection = {
+      applicationId: crypto.randomUUID(),
+      athleteId: crypto.randomUUID(),
+      clubId: crypto.randomUUID(),
+      rejectedAt: new Date().toISOString(),
+      rejectionReason: 'ขาดเอกสารใบรับรองแพทย์',
+    };
+
+    expect(validateEvent(buildEvent(EVENT_TYPES.applicationRejected, rejection)).valid).toBe(true);
+    expect(
+      validateEvent(
+        buildEvent(EVENT_TYPES.applicationRejected, { ...rejection, rejectionReason: 'สั้น' })
+      ).valid
+    ).toBe(false);
+    expect(validateEvent(buildEvent('org.club.unknown.v1', rejection)).valid).toBe(false);
+  });
+
+  it('Property: Retry delays grow and are capped at one hour', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 50 }), (attempt) => {
+        const delay = retryDelayMs(attempt);
+
+        expect(delay).toBeGreaterThanOrEqual(30 * 1000);
+        expect(delay).toBeLessThanOrEqual(60 * 60 * 1000);
+        expect(retryDelayMs(attempt + 1)).toBeGreaterThanOrEqual(delay);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property: Failing deliveries end in dead letter after the last attempt', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(subscriberNameArb, { maxLength: 4 }), {
+          minLength: MAX_DELIVERY_ATTEMPTS,
+          maxLength: MAX_DELIVERY_ATTEMPTS + 2,
+        }),
+        (succeededPerAttempt) => {
+          const now = new Date('2025-06-01T00:00:00Z');
+          let row = { attempts: 0, delivered_to: [] as string[] };
+          let status = 'pending';
+
+          for (const succeeded of succeededPerAttempt) {
+            if (status !== 'pending') break;
+            const outcome = planDeliveryOutcome(
+              row,
+              succeeded,
+              [{ subscriber: 'flaky', error: 'timeout' }],
+              now
+            );
+
+            for (const name of [...row.delivered_to, ...succeeded]) {
+              expect(outcome.delivered_to).toContain(name);
+            }
+            expect(new Set(outcome.delivered_to).size).toBe(outcome.delivered_to.length);
+            expect(outcome.delivered_at).toBeNull();
+
+            row = { attempts: outcome.attempts, delivered_to: outcome.delivered_to };
+            status = outcome.status;
+          }
+
+          expect(status).toBe('dead_letter');
+          expect(row.attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property: An attempt without failures delivers the event', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: MAX_DELIVERY_ATTEMPTS - 1 }),
+        fc.array(subscriberNameArb, { maxLength: 4 }),
+        (attempts, succeeded) => {
+          const outcome = planDeliveryOutcome({ attempts, delivered_to: [] }, succeeded, []);
+
+          expect(outcome.status).toBe('delivered');
+          expect(outcome.attempts).toBe(attempts + 1);
+          expect(outcome.last_error).toBeNull();
+          expect(outcome.delivered_at).not.toBeNull();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property: Events that fail validation are dead-lettered on the first attempt', () => {
+    fc.assert(
+      fc.property(attendanceArb, (data) => {
+        const event = buildEvent(EVENT_TYPES.attendanceRecorded, { ...data, markedBy: 'system' });
+        const { valid, errors } = validateEvent(event);
+        expect(valid).toBe(false);
+
+        const outcome = planInvalidEventOutcome({ attempts: 0, delivered_to: [] }, errors);
+        expect(outcome.status).toBe('dead_letter');
+        expect(outcome.attempts).toBe(1);
+        expect(outcome.last_error).toContain('data.markedBy: must be a uuid');
+        expect(outcome.delivered_to).toEqual([]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property: Subscribers receive only the event types they asked for', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(Object.values(EVENT_TYPES) as string[]),
+        fc.constantFrom(...Object.values(EVENT_TYPES)),
+        (eventTypes, eventType) => {
+          clearSubscribers();
+          subscribeToEvents('all', '*', () => {});
+          const unsubscribe = subscribeToEvents('filtered', eventTypes, () => {});
+
+          const names = getSubscribers(eventType).map((subscriber) => subscriber.name);
+          expect(names).toContain('all');
+          expect(names.includes('filtered')).toBe(eventTypes.includes(eventType));
+
+          unsubscribe();
+          expect(getSubscribers(eventType).map((subscriber) => subscriber.name)).toEqual(['all']);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
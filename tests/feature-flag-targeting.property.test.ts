@@ -0,0 +1,251 @@
+/**
+ * Property-Based Tests for Feature Flag Targeting
+ * Feature: feature-flags
+ *
+ * Property: Targeting rules decide in order and explain themselves
+ * For any flag and any user, the kill switch, schedule window, deny list,
+ * allow list, role and club targeting and rollout percentage are applied in
+ * that order, and the evaluation names the rule that decided it
+ *
+ * Validates: Requirements 20.8, 20.9
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  FEATURE_FLAG_ROLES,
+  buildFeatureFlagBootstrap,
+  evaluateFeatureFlag,
+  hashUserId,
+  validateFeatureFlagRules,
+  type EvaluableFeatureFlag,
+  type FeatureFlagRules,
+} from '@/lib/utils/feature-flag-rules';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const idArb = fc.uuid();
+const roleArb = fc.constantFrom(...FEATURE_FLAG_ROLES);
+
+const rulesArb: fc.Arbitrary<FeatureFlagRules> = fc.record(
+  {
+    roles: fc.uniqueArray(roleArb, { maxLength: 4 }),
+    club_ids: fc.uniqueArray(idArb, { maxLength: 3 }),
+    allow_user_ids: fc.uniqueArray(idArb, { maxLength: 3 }),
+    deny_user_ids: fc.uniqueArray(idArb, { maxLength: 3 }),
+  },
+  { requiredKeys: [] }
+);
+
+const flagArb: fc.Arbitrary<EvaluableFeatureFlag> = fc.record({
+  name: fc.constant('home_training_v1'),
+  enabled: fc.boolean(),
+  rollout_percentage: fc.integer({ min: 0, max: 100 }),
+  rules: rulesArb,
+});
+
+const contextArb = fc.record({
+  userId: idArb,
+  role: fc.option(roleArb, { nil: undefined }),
+  clubId: fc.option(idArb, { nil: undefined }),
+});
+
+describe('Property: Targeting rules decide in order and explain themselves', () => {
+  it('matches a reference evaluation for any flag and user', () => {
+    fc.assert(
+      fc.property(flagArb, contextArb, (flag, context) => {
+        const rules = flag.rules ?? {};
+        const expected = !flag.enabled
+          ? false
+          : rules.deny_user_ids?.includes(context.userId)
+            ? false
+            : rules.allow_user_ids?.includes(context.userId)
+              ? true
+              : (!rules.roles?.length || (!!context.role && rules.roles.includes(context.role))) &&
+                (!rules.club_ids?.length ||
+                  (!!context.clubId && rules.club_ids.includes(context.clubId))) &&
+                (flag.rollout_percentage >= 100 ||
+                  hashUserId(context.userId) < flag.rollout_percentage);
+
+        const evaluation = evaluateFeatureFlag(flag, context, NOW);
+        expect(evaluation.enabled).toBe(expected);
+        expect(
+          evaluation.reason.startsWith(expected ? 'enabled because' : 'disabled because')
+        ).toBe(true);
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('never enables a switched-off flag, even for allowlisted users', () => {
+    fc.assert(
+      fc.property(flagArb, idArb, (flag, userId) => {
+        const evaluation = evaluateFeatureFlag(
+          { ...flag, enabled: false, rules: { ...flag.rules, allow_user_ids: [userId] } },
+          { userId },
+          NOW
+        );
+        expect(evaluation).toMatchObject({ enabled: false, rule: 'kill_switch' });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('disables the flag outside its schedule window', () => {
+    const flag = { name: 'f', enabled: true, rollout_percentage: 100 };
+
+    expect(
+      evaluateFeatureFlag(
+        { ...flag, rules: { starts_at: '2026-11-01T00:00:00.000Z' } },
+        { userId: 'u' },
+        NOW
+      )
+    ).toMatchObject({ enabled: false, rule: 'schedule' });
+    expect(
+      evaluateFeatureFlag(
+        { ...flag, rules: { ends_at: '2026-10-01T00:00:00.000Z' } },
+        { userId: 'u' },
+        NOW
+      )
+    ).toMatchObject({ enabled: false, rule: 'schedule' });
+    expect(
+      evaluateFeatureFlag(
+        {
+          ...flag,
+          rules: { starts_at: '2026-10-01T00:00:00.000Z', ends_at: '2026-11-01T00:00:00.000Z' },
+        },
+        { userId: 'u' },
+        NOW
+      ).enabled
+    ).toBe(true);
+  });
+
+  it('explains which targeting rule matched', () => {
+    const evaluation = evaluateFeatureFlag(
+      { name: 'f', enabled: true, rollout_percentage: 100, rules: { club_ids: ['club-x'] } },
+      { userId: 'u', clubId: 'club-x' },
+      NOW
+    );
+
+    expect(evaluation).toEqual({
+      flag: 'f',
+      enabled: true,
+      rule: 'club',
+      reason: 'enabled because club club-x is in the allowlist',
+    });
+  });
+
+  it('treats a missing flag as disabled', () => {
+    expect(evaluateFeatureFlag(null, { userId: 'u' })).toMatchObject({
+      enabled: false,
+      rule: 'missing',
+    });
+  });
+});
+
+describe('buildFeatureFlagBootstrap', () => {
+  it('agrees with evaluateFeatureFlag for every flag and leaves rules out', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(
+          flagArb.map((flag) => ({ ...flag, name: `flag_${flag.rollout_percentage}` })),
+          {
+            selector: (flag) => flag.name,
+            maxLength: 5,
+          }
+        ),
+        contextArb,
+        (flags, context) => {
+          const bootstrap = buildFeatureFlagBootstrap(flags, context, context.userId, NOW);
+
+          expect(Object.keys(bootstrap.flags)).toEqual(flags.map((flag) => flag.name));
+          for (const flag of flags) {
+            expect(bootstrap.flags[flag.name]).toBe(
+              evaluateFeatureFlag(flag, context, NOW).enabled
+            );
+          }
+          expect(JSON.stringify(bootstrap)).not.toContain('allow_user_ids');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('only enables untargeted, fully rolled out flags for anonymous visitors', () => {
+    const bootstrap = buildFeatureFlagBootstrap(
+      [
+        { name: 'everyone', enabled: true, rollout_percentage: 100 },
+        { name: 'partial', enabled: true, rollout_percentage: 50 },
+        { name: 'coaches', enabled: true, rollout_percentage: 100, rules: { roles: ['coach'] } },
+      ],
+      null,
+      'anonymous',
+      NOW
+    );
+
+    expect(bootstrap.flags).toEqual({ everyone: true, partial: false, coaches: false });
+  });
+
+  it('reports the next schedule boundary of an enabled flag', () => {
+    const bootstrap = buildFeatureFlagBootstrap(
+      [
+        {
+          name: 'a',
+          enabled: true,
+          rollout_percentage: 100,
+          rules: { starts_at: '2026-10-01T00:00:00.000Z', ends_at: '2026-12-01T00:00:00.000Z' },
+        },
+        {
+          name: 'b',
+          enabled: true,
+          rollout_percentage: 100,
+          rules: { starts_at: '2026-11-01T00:00:00.000Z' },
+        },
+        {
+          name: 'c',
+          enabled: false,
+          rollout_percentage: 100,
+          rules: { starts_at: '2026-10-20T00:00:00.000Z' },
+        },
+      ],
+      { userId: 'u' },
+      'u',
+      NOW
+    );
+
+    expect(bootstrap.nextChangeAt).toBe('2026-11-01T00:00:00.000Z');
+    expect(bootstrap.evaluatedAt).toBe(NOW.toISOString());
+  });
+});
+
+describe('validateFeatureFlagRules', () => {
+  it('normalises lists and dates and drops empty rules', () => {
+    expect(
+      validateFeatureFlagRules({
+        roles: ['coach', 'coach'],
+        club_ids: [' club-a ', ''],
+        allow_user_ids: [],
+        starts_at: '2026-11-01T07:00:00+07:00',
+        ends_at: null,
+      })
+    ).toEqual({
+      rules: { roles: ['coach'], club_ids: ['club-a'], starts_at: '2026-11-01T00:00:00.000Z' },
+    });
+    expect(validateFeatureFlagRules(undefined)).toEqual({ rules: {} });
+  });
+
+  it('rejects invalid rules', () => {
+    expect(validateFeatureFlagRules({ roles: ['owner'] }).error).toBe('Unknown role: owner');
+    expect(validateFeatureFlagRules({ club_ids: 'club-a' }).error).toBeDefined();
+    expect(validateFeatureFlagRules({ starts_at: 'tomorrow' }).error).toBeDefined();
+    expect(
+      validateFeatureFlagRules({ allow_user_ids: ['u1'], deny_user_ids: ['u1'] }).error
+    ).toBeDefined();
+    expect(
+      validateFeatureFlagRules({
+        starts_at: '2026-11-02T00:00:00Z',
+        ends_at: '2026-11-01T00:00:00Z',
+      }).error
+    ).toBe('starts_at must be before ends_at');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Property-Based Tests for Leave Policy
+ * Feature: training-attendance
+ *
+ * Property: Leave requests are auto-approved only when within policy
+ * For any club policy and leave request, the evaluation reports exactly the
+ * rules the request breaks, and auto-approval happens only when it breaks
+ * none and the club allows it
+ *
+ * This property ensures that:
+ * - Notice, monthly limit and attachment rules are each enforced
+ * - Violations are always explained to the athlete
+ * - Stored policies are merged over the defaults and validated before saving
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DEFAULT_LEAVE_POLICY,
+  LEAVE_REASON_CATEGORIES,
+  evaluateLeaveRequest,
+  getLeaveMonthRange,
+  leavePolicySettingKey,
+  resolveLeavePolicies,
+  resolveLeavePolicy,
+  validateLeavePolicy,
+  type LeavePolicy,
+} from '@/lib/utils/leave-policy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SESSION_DATE = '2026-03-15';
+const START_TIME = '18:00:00';
+const SESSION_START = new Date(`${SESSION_DATE}T${START_TIME}`).getTime();
+
+const policyArb: fc.Arbitrary<LeavePolicy> = fc.record({
+  min_notice_hours: fc.integer({ min: 0, max: 168 }),
+  max_leaves_per_month: fc.option(fc.integer({ min: 1, max: 31 }), { nil: null }),
+  attachment_required_categories: fc.subarray([...LEAVE_REASON_CATEGORIES]),
+  auto_approve: fc.boolean(),
+});
+
+const requestArb = fc.record({
+  hoursBefore: fc.double({ min: 0, max: 200, noNaN: true }),
+  category: fc.constantFrom(...LEAVE_REASON_CATEGORIES),
+  hasAttachment: fc.boolean(),
+  leavesThisMonth: fc.integer({ min: 0, max: 40 }),
+});
+
+describe('Leave Policy Property-Based Tests', () => {
+  it('Property: Each rule is reported exactly when it is broken', () => {
+    fc.assert(
+      fc.property(policyArb, requestArb, (policy, request) => {
+        const result = evaluateLeaveRequest({
+          now: new Date(SESSION_START - request.hoursBefore * HOUR_MS),
+          sessionDate: SESSION_DATE,
+          startTime: START_TIME,
+          category: request.category,
+          hasAttachment: request.hasAttachment,
+          leavesThisMonth: request.leavesThisMonth,
+          policy,
+        });
+        const rules = result.violations.map((violation) => violation.rule);
+
+        expect(rules.includes('min_notice')).toBe(
+          request.hoursBefore * HOUR_MS < policy.min_notice_hours * HOUR_MS
+        );
+        expect(rules.includes('monthly_limit')).toBe(
+          policy.max_leaves_per_month !== null &&
+            request.leavesThisMonth >= policy.max_leaves_per_month
+        );
+        expect(rules.includes('attachment_required')).toBe(
+          policy.attachment_required_categories.includes(request.category) && !request.hasAttachment
+        );
+        result.violations.forEach((violation) =>
+          expect(violation.message.length).toBeGreaterThan(0)
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Auto-approval requires no violations and an enabled policy', () => {
+    fc.assert(
+      fc.property(policyArb, requestArb, (policy, request) => {
+        const result = evaluateLeaveRequest({
+          now: new Date(SESSION_START - request.hoursBefore * HOUR_MS),
+          sessionDate: SESSION_DATE,
+          startTime: START_TIME,
+          category: request.category,
+          hasAttachment: request.hasAttachment,
+          leavesThisMonth: request.leavesThisMonth,
+          policy,
+        });
+
+        expect(result.autoApprove).toBe(policy.auto_approve && result.violations.length === 0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Valid policies survive a save/resolve round trip', () => {
+    fc.assert(
+      fc.property(policyArb, (policy) => {
+        expect(validateLeavePolicy(policy)).toBeNull();
+        expect(resolveLeavePolicy(JSON.parse(JSON.stringify(policy)))).toEqual(policy);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('keeps the previous 2-hour notice rule by default', () => {
+    const evaluate = (hoursBefore: number) =>
+      evaluateLeaveRequest({
+        now: new Date(SESSION_START - hoursBefore * HOUR_MS),
+        sessionDate: SESSION_DATE,
+        startTime: START_TIME,
+        category: 'other',
+        hasAttachment: false,
+        leavesThisMonth: 10,
+        policy: DEFAULT_LEAVE_POLICY,
+      });
+
+    expect(evaluate(2)).toEqual({ violations: [], autoApprove: true });
+    expect(evaluate(1.5).violations).toEqual([
+      { rule: 'min_notice', message: 'ต้องแจ้งลาล่วงหน้าอย่างน้อย 2 ชั่วโมงก่อนเวลาเริ่ม' },
+    ]);
+  });
+
+  it('merges club overrides over the system default and ignores bad fields', () => {
+    const { defaultPolicy, clubPolicies } = resolveLeavePolicies([
+      { setting_key: leavePolicySettingKey(), setting_value: { min_notice_hours: 24 } },
+      {
+        setting_key: leavePolicySettingKey('club-1'),
+        setting_value: {
+          max_leaves_per_month: 2,
+          attachment_required_categories: ['sick', 'unknown', 'sick'],
+          auto_approve: 'yes',
+        },
+      },
+      { setting_key: 'attendance_policy', setting_value: { min_notice_hours: 1 } },
+    ]);
+
+    expect(defaultPolicy).toEqual({ ...DEFAULT_LEAVE_POLICY, min_notice_hours: 24 });
+    expect(clubPolicies).toEqual({
+      'club-1': {
+        ...DEFAULT_LEAVE_POLICY,
+        min_notice_hours: 24,
+        max_leaves_per_month: 2,
+        attachment_required_categories: ['sick'],
+      },
+    });
+  });
+
+  it('rejects out-of-range policies', () => {
+    expect(validateLeavePolicy({ ...DEFAULT_LEAVE_POLICY, min_notice_hours: -1 })).not.toBeNull();
+    expect(validateLeavePolicy({ ...DEFAULT_LEAVE_POLICY, min_notice_hours: 1.5 })).not.toBeNull();
+    expect(
+      validateLeavePolicy({ ...DEFAULT_LEAVE_POLICY, max_leaves_per_month: 0 })
+    ).not.toBeNull();
+  });
+
+  it('returns the calendar month of the session', () => {
+    expect(getLeaveMonthRange('2026-02-10')).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+    expect(getLeaveMonthRange('2028-02-29')).toEqual({ start: '2028-02-01', end: '2028-02-29' });
+    expect(getLeaveMonthRange('2026-12-31')).toEqual({ start: '2026-12-01', end: '2026-12-31' });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Notification Routing Tests
+ *
+ * Tests the per-channel routing decisions and preference defaults in
+ * lib/utils/notification-routing.ts, and that the category mapping matches
+ * notification_category() in the migration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DEFAULT_CHANNEL_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  buildPreferenceMatrix,
+  categoryForNotificationType,
+  planNotificationRoute,
+  resolveChannelPreferences,
+} from '@/lib/utils/notification-routing';
+import type { QuietHours } from '@/lib/utils/quiet-hours';
+
+const ALL_ON = { in_app: true, push: true, email: true, digest: true };
+
+// 23:00 in Bangkok
+const NIGHT = new Date('2026-10-19T16:00:00Z');
+const QUIET: QuietHours = { start: '22:00', end: '07:00', timezone: 'Asia/Bangkok' };
+
+describe('planNotificationRoute', () => {
+  it('delivers in-app and queues the other channels for users', () => {
+    const decisions = planNotificationRoute('user', ALL_ON, null, NIGHT);
+
+    expect(decisions.map((decision) => [decision.channel, decision.status])).toEqual([
+      ['in_app', 'delivered'],
+      ['push', 'queued'],
+      ['email', 'queued'],
+      ['digest', 'queued'],
+    ]);
+    expect(decisions.every((decision) => decision.notBefore === null)).toBe(true);
+  });
+
+  it('skips channels the recipient turned off', () => {
+    const decisions = planNotificationRoute(
+      'user',
+      { in_app: false, push: true, email: false, digest: true },
+      null,
+      NIGHT
+    );
+
+    expect(decisions.map((decision) => decision.status)).toEqual([
+      'skipped',
+      'queued',
+      'skipped',
+      'queued',
+    ]);
+  });
+
+  it('holds push and email until quiet hours end, but not in-app or the digest', () => {
+    const decisions = planNotificationRoute('user', ALL_ON, QUIET, NIGHT);
+    const byChannel = Object.fromEntries(decisions.map((decision) => [decision.channel, decision]));
+
+    // 07:00 Bangkok the next morning
+    expect(byChannel.push.notBefore?.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(byChannel.email.notBefore?.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(byChannel.in_app.notBefore).toBeNull();
+    expect(byChannel.digest.notBefore).toBeNull();
+  });
+
+  it('only routes parents to email and the digest', () => {
+    const decisions = planNotificationRoute('parent', ALL_ON, null, NIGHT);
+    expect(decisions.map((decision) => decision.channel)).toEqual(['email', 'digest']);
+  });
+});
+
+describe('channel preferences', () => {
+  it('fills unsaved categories with the defaults', () => {
+    const matrix = buildPreferenceMatrix([
+      { category: 'announcement', push: false },
+      { category: 'not_a_category', email: true },
+    ]);
+
+    expect(Object.keys(matrix)).toEqual([...NOTIFICATION_CATEGORIES]);
+    expect(matrix.announcement).toEqual({
+      ...DEFAULT_CHANNEL_PREFERENCES.announcement,
+      push: false,
+    });
+    expect(matrix.session_cancelled).toEqual(DEFAULT_CHANNEL_PREFERENCES.session_cancelled);
+  });
+
+  it('keeps unrouted notification types on in-app and push', () => {
+    expect(resolveChannelPreferences(null, null)).toEqual({
+      in_app: true,
+      push: true,
+      email: false,
+      digest: false,
+    });
+  });
+
+  it('maps notification types like notification_category() in the migration', () => {
+    const sql = readFileSync(
+      join(process.cwd(), 'scripts/153-create-notification-routing.sql'),
+      'utf8'
+    );
+    const body = sql.slice(sql.indexOf('FUNCTION notification_category'));
+    const sqlMapping = new Map(
+      [...body.matchAll(/WHEN '(\w+)' THEN '(\w+)'/g)].map((match) => [match[1], match[2]])
+    );
+
+    for (const type of [
+      'schedule_cancelled',
+      'leave_approved',
+      'leave_rejected',
+      'report_published',
+      'tournament_selection',
+      'announcement',
+    ]) {
+      expect(categoryForNotificationType(type)).toBe(sqlMapping.get(type));
+    }
+    expect(categoryForNotificationType('new_schedule')).toBeNull();
+    expect(sqlMapping.has('new_schedule')).toBe(false);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Parent Report Tests
+ *
+ * Tests the reporting periods, statistics, comparisons and notification
+ * summary in lib/utils/parent-reports.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/utils/attendance-policy';
+import {
+  buildParentReportStats,
+  compareParentReports,
+  compareTestResults,
+  digestReportType,
+  latestCompletedPeriod,
+  summarizeParentReport,
+  type ReportPerformanceRow,
+} from '@/lib/utils/parent-reports';
+
+const WEEK = { start: '2026-10-12', end: '2026-10-18' };
+
+function test(
+  test_name: string,
+  score: number,
+  test_date: string,
+  unit = 'ครั้ง',
+  coach_notes: string | null = null
+): ReportPerformanceRow {
+  return { test_name, score, unit, test_date, coach_notes };
+}
+
+describe('latestCompletedPeriod', () => {
+  it('returns last Monday to Sunday', () => {
+    // Monday 19 October 2026, 09:00 in Bangkok
+    expect(latestCompletedPeriod('weekly', new Date('2026-10-19T02:00:00Z'))).toEqual(WEEK);
+    // Sunday 25 October 2026
+    expect(latestCompletedPeriod('weekly', new Date('2026-10-25T10:00:00Z'))).toEqual(WEEK);
+  });
+
+  it('uses the date in Bangkok, not UTC', () => {
+    // Sunday 18 October 23:30 UTC is already Monday 19 October in Bangkok
+    expect(latestCompletedPeriod('weekly', new Date('2026-10-18T23:30:00Z'))).toEqual(WEEK);
+    // Sunday 18 October 16:59 UTC is still Sunday in Bangkok
+    expect(latestCompletedPeriod('weekly', new Date('2026-10-18T16:59:00Z'))).toEqual({
+      start: '2026-10-05',
+      end: '2026-10-11',
+    });
+  });
+
+  it('returns last calendar month', () => {
+    expect(latestCompletedPeriod('monthly', new Date('2026-10-19T02:00:00Z'))).toEqual({
+      start: '2026-09-01',
+      end: '2026-09-30',
+    });
+    // 31 December 18:00 UTC is 1 January in Bangkok
+    expect(latestCompletedPeriod('monthly', new Date('2026-12-31T18:00:00Z'))).toEqual({
+      start: '2026-12-01',
+      end: '2026-12-31',
+    });
+    expect(latestCompletedPeriod('monthly', new Date('2028-03-05T00:00:00Z'))).toEqual({
+      start: '2028-02-01',
+      end: '2028-02-29',
+    });
+  });
+});
+
+describe('compareTestResults', () => {
+  it('compares each result with the previous one on the same test', () => {
+    const results = compareTestResults(
+      [
+        test('ยืนกระโดดไกล', 180, '2026-10-14', 'ซม.'),
+        test('ยืนกระโดดไกล', 170, '2026-09-01', 'ซม.'),
+        test('ซิทอัพ', 30, '2026-10-15'),
+        test('ยืนกระโดดไกล', 175, '2026-10-16', 'ซม.'),
+      ],
+      WEEK
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({ test_name: 'ยืนกระโดดไกล', previous_score: 170, improved: true }),
+      expect.objectContaining({ test_name: 'ซิทอัพ', previous_score: null, improved: null }),
+      expect.objectContaining({ test_name: 'ยืนกระโดดไกล', previous_score: 180, improved: false }),
+    ]);
+  });
+
+  it('treats a lower time as an improvement', () => {
+    const results = compareTestResults(
+      [
+        test('วิ่ง 50 เมตร', 7.9, '2026-10-01', 'วินาที'),
+        test('วิ่ง 50 เมตร', 7.5, '2026-10-13', 'วินาที'),
+      ],
+      WEEK
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].improved).toBe(true);
+  });
+
+  it('ignores results after the period', () => {
+    expect(compareTestResults([test('ซิทอัพ', 30, '2026-10-19')], WEEK)).toEqual([]);
+  });
+});
+
+describe('buildParentReportStats', () => {
+  const attendance = [
+    { status: 'present', session_date: '2026-10-12', coach_feedback: 'ตั้งใจดีมาก' },
+    { status: 'late', session_date: '2026-10-14', coach_feedback: null },
+    { status: 'absent', session_date: '2026-10-16', coach_feedback: null },
+    { status: 'excused', session_date: '2026-10-17', coach_feedback: '  ' },
+    { status: 'present', session_date: '2026-10-20', coach_feedback: 'นอกช่วง' },
+  ];
+
+  function build(policy = DEFAULT_ATTENDANCE_POLICY) {
+    return buildParentReportStats({
+      period: WEEK,
+      policy,
+      attendance,
+      // 11 October 18:00 UTC is 12 October in Bangkok
+      leaveRequestedAt: ['2026-10-11T18:00:00Z', '2026-10-18T17:30:00Z'],
+      performance: [
+        test('ซิทอัพ', 28, '2026-09-20'),
+        test('ซิทอัพ', 32, '2026-10-15', 'ครั้ง', 'ดีขึ้นมาก'),
+      ],
+      goals: [
+        { title: 'ซิทอัพ 35 ครั้ง', status: 'active', progress_percentage: 60, completed_at: null },
+        {
+          title: 'เข้าฝึกครบ',
+          status: 'completed',
+          progress_percentage: 100,
+          completed_at: '2026-10-13T03:00:00Z',
+        },
+        {
+          title: 'เป้าหมายเก่า',
+          status: 'completed',
+          progress_percentage: 100,
+          completed_at: '2026-08-01T03:00:00Z',
+        },
+      ],
+      coachComments: [{ date: '2026-10-18T10:00:00Z', text: 'พัฒนาการดี' }],
+    });
+  }
+
+  it('counts sessions in the period', () => {
+    const stats = build();
+    expect(stats.total_sessions).toBe(4);
+    expect(stats.absent_sessions).toBe(1);
+    expect(stats.report_data.late_sessions).toBe(1);
+    expect(stats.report_data.excused_sessions).toBe(1);
+    expect(stats.leave_requests).toBe(1);
+  });
+
+  it('counts late arrivals as the club policy says', () => {
+    const counted = build({ ...DEFAULT_ATTENDANCE_POLICY, count_late_as_present: true });
+    const notCounted = build({ ...DEFAULT_ATTENDANCE_POLICY, count_late_as_present: false });
+
+    expect(counted.attended_sessions).toBe(2);
+    expect(counted.attendance_rate).toBe(50);
+    expect(notCounted.attended_sessions).toBe(1);
+    expect(notCounted.attendance_rate).toBe(25);
+  });
+
+  it('collects tests, goals and coach feedback', () => {
+    const stats = build();
+    expect(stats.performance_tests).toBe(1);
+    expect(stats.performance_improvements).toBe(1);
+    expect(stats.active_goals).toBe(1);
+    expect(stats.completed_goals).toBe(1);
+    expect(stats.report_data.feedback.map((item) => item.source)).toEqual([
+      'attendance',
+      'performance',
+      'progress_report',
+    ]);
+    expect(stats.coach_feedback).toBe('ตั้งใจดีมาก\nดีขึ้นมาก\nพัฒนาการดี');
+    expect(stats.report_data.digest).toEqual([]);
+  });
+
+  it('reports an empty period', () => {
+    const stats = buildParentReportStats({
+      period: WEEK,
+      policy: DEFAULT_ATTENDANCE_POLICY,
+      attendance: [],
+      leaveRequestedAt: [],
+      performance: [],
+      goals: [],
+      coachComments: [],
+    });
+    expect(stats.total_sessions).toBe(0);
+    expect(stats.attendance_rate).toBe(0);
+    expect(stats.coach_feedback).toBeNull();
+  });
+});
+
+describe('compareParentReports', () => {
+  const report = {
+    attendance_rate: 75,
+    attended_sessions: 3,
+    absent_sessions: 1,
+    performance_tests: 2,
+    performance_improvements: 1,
+    completed_goals: 1,
+    active_goals: 2,
+  };
+
+  it('returns the change of each figure', () => {
+    expect(
+      compareParentReports(report, { ...report, attendance_rate: 66.67, absent_sessions: 2 })
+    ).toEqual({
+      attendance_rate: 8.3,
+      attended_sessions: 0,
+      absent_sessions: -1,
+      performance_tests: 0,
+      performance_improvements: 0,
+      completed_goals: 0,
+      active_goals: 0,
+    });
+  });
+
+  it('returns null for the first report', () => {
+    expect(compareParentReports(report, null)).toBeNull();
+  });
+});
+
+describe('summarizeParentReport', () => {
+  const stats = {
+    total_sessions: 4,
+    attended_sessions: 3,
+    attendance_rate: 75,
+    performance_tests: 2,
+    performance_improvements: 1,
+    active_goals: 2,
+    completed_goals: 1,
+  };
+  const all = { notify_attendance: true, notify_performance: true, notify_goals: true };
+
+  it('summarises every section', () => {
+    expect(summarizeParentReport(stats, all)).toBe(
+      'เข้าฝึก 3/4 ครั้ง (75%) · ทดสอบสมรรถภาพ 2 ครั้ง ดีขึ้น 1 รายการ · เป้าหมายที่กำลังทำ 2 สำเร็จ 1'
+    );
+  });
+
+  it('leaves out sections the parent switched off', () => {
+    expect(
+      summarizeParentReport(stats, { ...all, notify_attendance: false, notify_goals: false })
+    ).toBe('ทดสอบสมรรถภาพ 2 ครั้ง ดีขึ้น 1 รายการ');
+    expect(
+      summarizeParentReport(stats, {
+        notify_attendance: false,
+        notify_performance: false,
+        notify_goals: false,
+      })
+    ).toBe('');
+  });
+});
+
+describe('digestReportType', () => {
+  it('collects the digest into the report the parent receives', () => {
+    expect(digestReportType('weekly')).toBe('weekly');
+    expect(digestReportType('monthly')).toBe('monthly');
+    expect(digestReportType('off')).toBe('weekly');
+  });
+});
@@ -107,7 +107,7 @@ vi.mock('@/lib/supabase/server', () => ({
 }));
 
 // Mock audit logging
-vi.mock('@/lib/audit/actions', () => ({
+vi.mock('@/lib/audit/log', () => ({
   createAuditLog: vi.fn(async () => ({ success: true })),
 }));
 
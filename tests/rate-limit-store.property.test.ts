@@ -0,0 +1,204 @@
+/**
+ * Property-Based Tests for the Rate Limit Store
+ * Feature: rate-limiting
+ *
+ * Property: Limits hold however requests are spread
+ * For any limit and any sequence of requests, a key is never allowed more
+ * than its bucket capacity plus what refilled in the meantime, whether the
+ * requests hit one server instance or several sharing a store, and whether
+ * a user spreads them over several IP addresses
+ *
+ * This property ensures that:
+ * - A burst is allowed up to the limit and no further
+ * - Retry-After is exactly when the next request is allowed again
+ * - Per-user and per-IP keys are both enforced
+ * - The shared store falls back to local counters when the database fails
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createMemoryRateLimitStore,
+  describeBucket,
+  enforceRateLimit,
+  parseRateLimitKey,
+  rateLimitKeys,
+  takeToken,
+  type RateLimitBucket,
+  type RateLimitConfig,
+} from '@/lib/utils/rate-limit';
+import { createSupabaseRateLimitStore } from '@/lib/utils/rate-limit-store';
+
+const configArb: fc.Arbitrary<RateLimitConfig> = fc.record({
+  maxRequests: fc.integer({ min: 1, max: 50 }),
+  windowMs: fc.integer({ min: 1_000, max: 10 * 60 * 1000 }),
+});
+
+/** Gaps between consecutive requests, in ms */
+const gapsArb = fc.array(fc.integer({ min: 0, max: 5_000 }), { minLength: 1, maxLength: 200 });
+
+function manualClock(start = 1_800_000_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('Property: Limits hold however requests are spread', () => {
+  it('never allows more than capacity plus the refill since the first request', () => {
+    fc.assert(
+      fc.property(configArb, gapsArb, (config, gaps) => {
+        let bucket: RateLimitBucket | null = null;
+        let now = 0;
+        let allowedCount = 0;
+
+        for (const gap of gaps) {
+          now += gap;
+          const taken = takeToken(bucket, config, now);
+          bucket = taken.bucket;
+          if (taken.allowed) allowedCount++;
+
+          const refilled = ((now - gaps[0]) * config.maxRequests) / config.windowMs;
+          expect(allowedCount).toBeLessThanOrEqual(config.maxRequests + refilled);
+          expect(bucket.tokens).toBeGreaterThanOrEqual(0);
+          expect(bucket.tokens).toBeLessThanOrEqual(config.maxRequests);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('allows a burst of exactly the limit, then allows again after Retry-After', () => {
+    fc.assert(
+      fc.property(configArb, (config) => {
+        const now = 1_000_000;
+        let bucket: RateLimitBucket | null = null;
+        const results: boolean[] = [];
+        for (let i = 0; i <= config.maxRequests; i++) {
+          const taken = takeToken(bucket, config, now);
+          bucket = taken.bucket;
+          results.push(taken.allowed);
+        }
+        expect(results.filter(Boolean)).toHaveLength(config.maxRequests);
+        expect(results[config.maxRequests]).toBe(false);
+
+        const { retryAfter, remaining } = describeBucket(bucket!, false);
+        expect(remaining).toBe(0);
+        expect(retryAfter).toBeGreaterThanOrEqual(1);
+
+        expect(takeToken(bucket, config, now + retryAfter! * 1000).allowed).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('enforces one limit across instances that share a store', async () => {
+    await fc.assert(
+      fc.asyncProperty(configArb, fc.integer({ min: 2, max: 5 }), async (config, instances) => {
+        const clock = manualClock();
+        const shared = new Map<string, RateLimitBucket>();
+        const stores = Array.from({ length: instances }, () =>
+          createMemoryRateLimitStore(shared, clock.now)
+        );
+
+        let allowed = 0;
+        for (let i = 0; i < config.maxRequests * instances; i++) {
+          const result = await stores[i % instances].take('api:ip:203.0.113.7', config);
+          if (result.allowed) allowed++;
+        }
+        expect(allowed).toBe(config.maxRequests);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('blocks a user across addresses and an address across users', async () => {
+    const config = { maxRequests: 3, windowMs: 60_000 };
+    const store = createMemoryRateLimitStore(new Map(), manualClock().now);
+
+    for (let i = 0; i < 3; i++) {
+      expect(
+        (await enforceRateLimit(store, rateLimitKeys('api', `10.0.0.${i}`, 'user-1'), config))
+          .allowed
+      ).toBe(true);
+    }
+    const sameUser = await enforceRateLimit(
+      store,
+      rateLimitKeys('api', '10.0.0.9', 'user-1'),
+      config
+    );
+    expect(sameUser.allowed).toBe(false);
+    expect(sameUser.retryAfter).toBe(20);
+
+    for (let i = 0; i < 2; i++) {
+      await enforceRateLimit(store, rateLimitKeys('api', '10.0.0.0', `user-${i + 2}`), config);
+    }
+    const sameAddress = await enforceRateLimit(
+      store,
+      rateLimitKeys('api', '10.0.0.0', 'user-9'),
+      config
+    );
+    expect(sameAddress.allowed).toBe(false);
+
+    expect(parseRateLimitKey('api:user:user-1')).toEqual({
+      scope: 'api',
+      subject: 'user',
+      id: 'user-1',
+    });
+    expect(parseRateLimitKey('api:ip:2001:db8::1')).toEqual({
+      scope: 'api',
+      subject: 'ip',
+      id: '2001:db8::1',
+    });
+  });
+
+  it('lists only keys that have used part of their limit', async () => {
+    const clock = manualClock();
+    const store = createMemoryRateLimitStore(new Map(), clock.now);
+    const config = { maxRequests: 2, windowMs: 1_000 };
+
+    await store.take('auth:ip:a', config);
+    await store.take('auth:ip:b', config);
+    clock.advance(600);
+    await store.take('auth:ip:b', config);
+
+    expect((await store.list()).map((counter) => counter.key)).toEqual(['auth:ip:b']);
+    await store.reset('auth:ip:b');
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('Shared Supabase store', () => {
+  const config = { maxRequests: 5, windowMs: 60_000 };
+
+  function fakeClient(rpc: () => { data: unknown; error: { message: string } | null }) {
+    return { rpc: async () => rpc() };
+  }
+
+  it('describes the bucket returned by take_rate_limit_token', async () => {
+    const store = createSupabaseRateLimitStore(
+      fakeClient(() => ({ data: [{ allowed: false, tokens: 0.25 }], error: null }))
+    );
+
+    const result = await store.take('auth:ip:a', config);
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.retryAfter).toBe(9);
+  });
+
+  it('falls back to local counters when the database fails', async () => {
+    const store = createSupabaseRateLimitStore(
+      fakeClient(() => ({ data: null, error: { message: 'connection refused' } })),
+      createMemoryRateLimitStore()
+    );
+
+    const results = [];
+    for (let i = 0; i <= config.maxRequests; i++) {
+      results.push((await store.take('auth:ip:a', config)).allowed);
+    }
+    expect(results.filter(Boolean)).toHaveLength(config.maxRequests);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Property-Based Tests for Session Close-out
+ * Feature: training-attendance
+ *
+ * Property: Close-out finalises attendance without overwriting it
+ * For any roster, existing attendance and approved leave, the close-out plan
+ * gives every unrecorded athlete exactly one outcome and never touches a
+ * recorded status other than converting absent to excused for approved leave
+ *
+ * This property ensures that:
+ * - Athletes with a record are never inserted again (idempotent re-runs)
+ * - Approved leave always becomes excused
+ * - Absent rows are only written when the club auto-marks absences
+ * - Sessions are only closed after they end (plus grace) and only once
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/utils/attendance-policy';
+import {
+  isSessionDueForCloseOut,
+  planSessionCloseOut,
+  sessionStartsAt,
+  wasMemberAt,
+  type ClubMembershipPeriod,
+  type CloseOutAttendance,
+  type CloseOutSession,
+} from '@/lib/utils/session-close-out';
+
+const MINUTE_MS = 60 * 1000;
+
+const scenarioArb = fc.uniqueArray(fc.uuid(), { minLength: 0, maxLength: 20 }).chain((athleteIds) =>
+  fc.record({
+    athleteIds: fc.constant(athleteIds),
+    recorded: fc.subarray(athleteIds).chain((ids) =>
+      fc.tuple(
+        ...ids.map((id) =>
+          fc.record({
+            id: fc.uuid(),
+            athlete_id: fc.constant(id),
+            status: fc.constantFrom('present', 'absent', 'late', 'excused'),
+          })
+        )
+      )
+    ),
+    onLeave: fc.subarray(athleteIds),
+    autoMarkAbsent: fc.boolean(),
+  })
+);
+
+const plan = (scenario: {
+  athleteIds: string[];
+  recorded: CloseOutAttendance[];
+  onLeave: string[];
+  autoMarkAbsent: boolean;
+}) =>
+  planSessionCloseOut({
+    athleteIds: scenario.athleteIds,
+    attendance: scenario.recorded,
+    approvedLeaveAthleteIds: scenario.onLeave,
+    policy: { ...DEFAULT_ATTENDANCE_POLICY, auto_mark_absent: scenario.autoMarkAbsent },
+  });
+
+describe('Session Close-out Property-Based Tests', () => {
+  it('Property: Recorded athletes are never inserted again', () => {
+    fc.assert(
+      fc.property(scenarioArb, (scenario) => {
+        const result = plan(scenario);
+        const recordedIds = new Set(scenario.recorded.map((r) => r.athlete_id));
+
+        for (const athleteId of [...result.absent, ...result.excused]) {
+          expect(recordedIds.has(athleteId)).toBe(false);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Every unrecorded athlete gets at most one outcome', () => {
+    fc.assert(
+      fc.property(scenarioArb, (scenario) => {
+        const result = plan(scenario);
+        const outcomes = [...result.absent, ...result.excused];
+
+        expect(new Set(outcomes).size).toBe(outcomes.length);
+
+        const recordedIds = new Set(scenario.recorded.map((r) => r.athlete_id));
+        const unrecorded = scenario.athleteIds.filter((id) => !recordedIds.has(id));
+        if (scenario.autoMarkAbsent) {
+          expect(outcomes.sort()).toEqual([...unrecorded].sort());
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Approved leave becomes excused and never absent', () => {
+    fc.assert(
+      fc.property(scenarioArb, (scenario) => {
+        const result = plan(scenario);
+        const onLeave = new Set(scenario.onLeave);
+
+        result.absent.forEach((id) => expect(onLeave.has(id)).toBe(false));
+        result.excused.forEach((id) => expect(onLeave.has(id)).toBe(true));
+
+        const converted = new Set(result.excuseExisting);
+        for (const row of scenario.recorded) {
+          expect(converted.has(row.id)).toBe(
+            row.status === 'absent' && onLeave.has(row.athlete_id)
+          );
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Applying the plan makes a second plan empty', () => {
+    fc.assert(
+      fc.property(scenarioArb, (scenario) => {
+        const first = plan(scenario);
+        const converted = new Set(first.excuseExisting);
+        const afterFirstRun: CloseOutAttendance[] = [
+          ...scenario.recorded.map((row) =>
+            converted.has(row.id) ? { ...row, status: 'excused' } : row
+          ),
+          ...first.absent.map((id) => ({ id: `a-${id}`, athlete_id: id, status: 'absent' })),
+          ...first.excused.map((id) => ({ id: `e-${id}`, athlete_id: id, status: 'excused' })),
+        ];
+
+        expect(plan({ ...scenario, recorded: afterFirstRun })).toEqual({
+          absent: [],
+          excused: [],
+          excuseExisting: [],
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('marks unrecorded athletes absent under the default policy', () => {
+    expect(
+      planSessionCloseOut({
+        athleteIds: ['a1', 'a2'],
+        attendance: [],
+        approvedLeaveAthleteIds: ['a2'],
+        policy: DEFAULT_ATTENDANCE_POLICY,
+      })
+    ).toEqual({ absent: ['a1'], excused: ['a2'], excuseExisting: [] });
+  });
+
+  it('does not write absent rows when the club does not auto-mark absences', () => {
+    expect(
+      planSessionCloseOut({
+        athleteIds: ['a1', 'a2'],
+        attendance: [],
+        approvedLeaveAthleteIds: ['a2'],
+        policy: { ...DEFAULT_ATTENDANCE_POLICY, auto_mark_absent: false },
+      })
+    ).toEqual({ absent: [], excused: ['a2'], excuseExisting: [] });
+  });
+
+  it('excuses athletes with approved leave who are no longer on the roster', () => {
+    expect(
+      planSessionCloseOut({
+        athleteIds: ['a1'],
+        attendance: [],
+        approvedLeaveAthleteIds: ['former'],
+        policy: { ...DEFAULT_ATTENDANCE_POLICY, auto_mark_absent: true },
+      })
+    ).toEqual({ absent: ['a1'], excused: ['former'], excuseExisting: [] });
+  });
+
+  it('closes sessions only after the end time plus grace, and only once', () => {
+    const session: CloseOutSession = {
+      id: 's1',
+      session_date: '2026-03-15',
+      end_time: '19:00:00',
+      status: 'scheduled',
+      attendance_locked_at: null,
+    };
+    const policy = { ...DEFAULT_ATTENDANCE_POLICY, auto_mark_absent_after_minutes: 30 };
+    const end = new Date('2026-03-15T19:00:00').getTime();
+
+    expect(isSessionDueForCloseOut(session, policy, new Date(end + 29 * MINUTE_MS))).toBe(false);
+    expect(isSessionDueForCloseOut(session, policy, new Date(end + 30 * MINUTE_MS))).toBe(true);
+    expect(
+      isSessionDueForCloseOut(
+        { ...session, attendance_locked_at: '2026-03-15T12:30:00Z' },
+        policy,
+        new Date(end + 600 * MINUTE_MS)
+      )
+    ).toBe(false);
+    expect(
+      isSessionDueForCloseOut(
+        { ...session, status: 'cancelled' },
+        policy,
+        new Date(end + 600 * MINUTE_MS)
+      )
+    ).toBe(false);
+  });
+
+  it('counts athletes only for sessions that started while they were members', () => {
+    const startsAt = sessionStartsAt({ session_date: '2026-03-15', start_time: '17:00:00' });
+    const memberships: ClubMembershipPeriod[] = [
+      { athlete_id: 'a1', joined_at: '2026-01-01T00:00:00Z', left_at: null },
+      // Joined after the session started
+      { athlete_id: 'a2', joined_at: '2026-03-20T00:00:00Z', left_at: null },
+      // Left before the session and rejoined later
+      { athlete_id: 'a3', joined_at: '2025-06-01T00:00:00Z', left_at: '2026-02-01T00:00:00Z' },
+      { athlete_id: 'a3', joined_at: '2026-04-01T00:00:00Z', left_at: null },
+    ];
+
+    expect(startsAt).toBe(new Date('2026-03-15T17:00:00').toISOString());
+    expect(wasMemberAt(memberships, 'a1', startsAt)).toBe(true);
+    expect(wasMemberAt(memberships, 'a2', startsAt)).toBe(false);
+    expect(wasMemberAt(memberships, 'a3', startsAt)).toBe(false);
+    expect(wasMemberAt(memberships, 'a4', startsAt)).toBe(false);
+    expect(
+      wasMemberAt([{ athlete_id: 'a5', joined_at: startsAt, left_at: startsAt }], 'a5', startsAt)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Training Session Conflict Detection Tests
+ *
+ * Tests the pure conflict checker used by createSession/updateSession:
+ * - Coach double-booking
+ * - Location double-booking (case/whitespace insensitive)
+ * - Collisions with tournaments that have entered athletes
+ * - Half-open windows and ignored rows (the session being edited, cancelled sessions)
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  detectSessionConflicts,
+  normalizeLocation,
+  type ConflictingTournament,
+  type ExistingSession,
+  type SessionSlot,
+} from '@/lib/coach/session-conflicts';
+
+const COACH_A = 'coach-a';
+const COACH_B = 'coach-b';
+
+const slot: SessionSlot = {
+  session_date: '2026-03-02',
+  start_time: '16:00',
+  end_time: '18:00',
+  location: 'สนามฟุตบอล A',
+  coach_id: COACH_A,
+};
+
+function existing(overrides: Partial<ExistingSession>): ExistingSession {
+  return {
+    id: 'session-1',
+    title: 'ฝึกซ้อมประจำวัน',
+    session_date: '2026-03-02',
+    start_time: '17:00',
+    end_time: '19:00',
+    location: 'ห้องฟิตเนส',
+    coach_id: COACH_B,
+    status: 'scheduled',
+    ...overrides,
+  };
+}
+
+describe('Session Conflict Detection', () => {
+  it('reports a coach double-booking with the overlap window', () => {
+    const conflicts = detectSessionConflicts([slot], [existing({ coach_id: COACH_A })], []);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].type).toBe('coach');
+    expect(conflicts[0].conflicting_entity).toEqual({
+      type: 'training_session',
+      id: 'session-1',
+      name: 'ฝึกซ้อมประจำวัน',
+    });
+    expect(new Date(conflicts[0].overlap_start).getTime()).toBe(
+      new Date('2026-03-02T17:00').getTime()
+    );
+    expect(new Date(conflicts[0].overlap_end).getTime()).toBe(
+      new Date('2026-03-02T18:00').getTime()
+    );
+  });
+
+  it('matches locations regardless of case and spacing', () => {
+    expect(normalizeLocation('  Field   A ')).toBe(normalizeLocation('field a'));
+
+    const conflicts = detectSessionConflicts(
+      [{ ...slot, location: 'Field A' }],
+      [existing({ location: ' field  a' })],
+      []
+    );
+
+    expect(conflicts.map((c) => c.type)).toEqual(['location']);
+  });
+
+  it('reports both coach and location when the same coach reuses the same place', () => {
+    const conflicts = detectSessionConflicts(
+      [slot],
+      [existing({ coach_id: COACH_A, location: slot.location })],
+      []
+    );
+
+    expect(conflicts.map((c) => c.type)).toEqual(['coach', 'location']);
+  });
+
+  it('treats back-to-back sessions as not overlapping', () => {
+    const conflicts = detectSessionConflicts(
+      [slot],
+      [existing({ coach_id: COACH_A, start_time: '18:00', end_time: '20:00' })],
+      []
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('ignores the session being edited and cancelled sessions', () => {
+    const conflicts = detectSessionConflicts(
+      [{ ...slot, id: 'session-1' }],
+      [
+        existing({ id: 'session-1', coach_id: COACH_A }),
+        existing({ id: 'session-2', coach_id: COACH_A, status: 'cancelled' }),
+      ],
+      []
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('reports tournaments with entered athletes only', () => {
+    const tournaments: ConflictingTournament[] = [
+      {
+        id: 't-1',
+        name: 'ชิงแชมป์ภาค',
+        start_date: new Date('2026-03-01T08:00').toISOString(),
+        end_date: new Date('2026-03-03T18:00').toISOString(),
+        participant_count: 4,
+      },
+      {
+        id: 't-2',
+        name: 'รายการเปิด',
+        start_date: new Date('2026-03-01T08:00').toISOString(),
+        end_date: new Date('2026-03-03T18:00').toISOString(),
+        participant_count: 0,
+      },
+    ];
+
+    const conflicts = detectSessionConflicts([slot], [], tournaments);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].type).toBe('tournament');
+    expect(conflicts[0].conflicting_entity.id).toBe('t-1');
+  });
+
+  it('Property: conflicts are found exactly when windows overlap on the same day', () => {
+    const minuteArb = fc.integer({ min: 6 * 60, max: 22 * 60 });
+    const toTime = (minutes: number) =>
+      `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+    fc.assert(
+      fc.property(
+        minuteArb,
+        fc.integer({ min: 15, max: 180 }),
+        minuteArb,
+        fc.integer({ min: 15, max: 180 }),
+        (startA, lengthA, startB, lengthB) => {
+          const endA = Math.min(startA + lengthA, 23 * 60 + 59);
+          const endB = Math.min(startB + lengthB, 23 * 60 + 59);
+
+          const conflicts = detectSessionConflicts(
+            [{ ...slot, start_time: toTime(startA), end_time: toTime(endA) }],
+            [existing({ coach_id: COACH_A, start_time: toTime(startB), end_time: toTime(endB) })],
+            []
+          );
+
+          const overlaps = Math.max(startA, startB) < Math.min(endA, endB);
+          expect(conflicts.length > 0).toBe(overlaps);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Property-Based Tests for Rotating Session QR Tokens
+ * Feature: training-attendance
+ *
+ * Property: Rotating token validity
+ * For any session and issue time, a signed token verifies for that session
+ * during its own rotation window and the grace window after it, and is
+ * rejected afterwards, for other sessions, or when tampered with
+ *
+ * This property ensures that:
+ * - Freshly issued tokens always verify
+ * - A screenshot stops working once the grace window has passed
+ * - Tokens cannot be reused for another session
+ * - Any change to the signature or window is detected
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { signSessionQRToken, verifySessionQRToken } from '@/lib/athlete/session-qr-signing';
+import {
+  QR_TOKEN_GRACE_WINDOWS,
+  QR_TOKEN_ROTATION_SECONDS,
+  formatSessionQRToken,
+  isSessionQRToken,
+  parseSessionQRToken,
+} from '@/lib/athlete/session-qr-token';
+
+const SECRET = 'test-qr-secret';
+const ROTATION_MS = QR_TOKEN_ROTATION_SECONDS * 1000;
+
+const nowArb = fc.integer({
+  min: new Date('2025-01-01T00:00:00Z').getTime(),
+  max: new Date('2030-01-01T00:00:00Z').getTime(),
+});
+
+describe('Session QR Token Property-Based Tests', () => {
+  it('Property: Tokens verify for their session within the rotation and grace windows', () => {
+    fc.assert(
+      fc.property(
+        fc.uuid(),
+        nowArb,
+        fc.integer({ min: 0, max: (QR_TOKEN_GRACE_WINDOWS + 1) * ROTATION_MS - 1 }),
+        (sessionId, issuedAt, elapsed) => {
+          // Scan time relative to the start of the issuing window
+          const windowStart = issuedAt - (issuedAt % ROTATION_MS);
+          const { token, expiresAt } = signSessionQRToken(SECRET, sessionId, issuedAt);
+
+          expect(new Date(expiresAt).getTime()).toBe(windowStart + ROTATION_MS);
+          expect(verifySessionQRToken(SECRET, token, sessionId, windowStart + elapsed)).toEqual(
+            expect.objectContaining({ valid: true, sessionId })
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Tokens are rejected once the grace window has passed', () => {
+    fc.assert(
+      fc.property(
+        fc.uuid(),
+        nowArb,
+        fc.integer({ min: 0, max: 24 * 60 * 60 * 1000 }),
+        (sessionId, issuedAt, extra) => {
+          const windowStart = issuedAt - (issuedAt % ROTATION_MS);
+          const { token } = signSessionQRToken(SECRET, sessionId, issuedAt);
+          const scannedAt = windowStart + (QR_TOKEN_GRACE_WINDOWS + 1) * ROTATION_MS + extra;
+
+          expect(verifySessionQRToken(SECRET, token, sessionId, scannedAt)).toEqual({
+            valid: false,
+            reason: 'expired',
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Tokens cannot be used for another session', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.uuid(), nowArb, (sessionA, sessionB, now) => {
+        fc.pre(sessionA !== sessionB);
+        const { token } = signSessionQRToken(SECRET, sessionA, now);
+
+        expect(verifySessionQRToken(SECRET, token, sessionB, now)).toEqual({
+          valid: false,
+          reason: 'wrong_session',
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Forged windows and signatures are detected', () => {
+    fc.assert(
+      fc.property(fc.uuid(), nowArb, (sessionId, now) => {
+        const { token } = signSessionQRToken(SECRET, sessionId, now);
+        const parts = parseSessionQRToken(token)!;
+
+        // Re-using the signature for the next window
+        const shifted = formatSessionQRToken({ ...parts, window: parts.window + 1 });
+        expect(verifySessionQRToken(SECRET, shifted, sessionId, now)).toEqual({
+          valid: false,
+          reason: 'invalid_signature',
+        });
+
+        // Signed with a different secret
+        const { token: foreign } = signSessionQRToken('another-secret', sessionId, now);
+        expect(verifySessionQRToken(SECRET, foreign, sessionId, now)).toEqual({
+          valid: false,
+          reason: 'invalid_signature',
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('recognises training session tokens and ignores activity tokens', () => {
+    const { token } = signSessionQRToken(SECRET, 'session-1');
+
+    expect(isSessionQRToken(token)).toBe(true);
+    expect(isSessionQRToken('a1b2c3d4e5f6')).toBe(false);
+    expect(isSessionQRToken('ts1.session-1.abc.sig')).toBe(false);
+    expect(verifySessionQRToken(SECRET, 'not-a-token', 'session-1')).toEqual({
+      valid: false,
+      reason: 'malformed',
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Property-Based Tests for Recurring Training Session Expansion
+ * Feature: training-attendance
+ *
+ * Property: Series expansion
+ * For any recurrence rule, the expanded occurrences stay inside the series
+ * bounds, fall on the chosen weekdays, and honour skip exceptions
+ *
+ * This property ensures that:
+ * - Occurrences are sorted, unique and never before the start date
+ * - Every occurrence falls on one of the selected weekdays
+ * - Count-bounded series produce exactly `occurrence_count` dates
+ * - Biweekly series only produce dates in every other week
+ * - Skipped dates are removed without extending the series
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  addDays,
+  expandRecurrence,
+  validateRecurrenceRule,
+  MAX_SERIES_OCCURRENCES,
+  type RecurrenceRule,
+} from '@/lib/coach/session-recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateArb = fc
+  .date({ min: new Date('2024-01-01T00:00:00Z'), max: new Date('2027-12-31T00:00:00Z'), noInvalidDate: true })
+  .map((date) => date.toISOString().split('T')[0]);
+
+const weekdaysArb = fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 });
+
+const frequencyArb = fc.constantFrom<'weekly' | 'biweekly'>('weekly', 'biweekly');
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS
+  );
+}
+
+describe('Session Recurrence Property-Based Tests', () => {
+  it('Property: Occurrences are sorted, unique, bounded and on selected weekdays', () => {
+    fc.assert(
+      fc.property(
+        dateArb,
+        weekdaysArb,
+        frequencyArb,
+        // At most one occurrence a day, so this stays within the cap
+        fc.integer({ min: 0, max: MAX_SERIES_OCCURRENCES - 1 }),
+        (startDate, weekdays, frequency, lengthInDays) => {
+          const endDate = addDays(startDate, lengthInDays);
+          const rule: RecurrenceRule = { frequency, weekdays, end_date: endDate };
+
+          expect(validateRecurrenceRule(rule, startDate)).toBeNull();
+
+          const dates = expandRecurrence(startDate, rule);
+
+          expect([...dates].sort()).toEqual(dates);
+          expect(new Set(dates).size).toBe(dates.length);
+
+          for (const date of dates) {
+            expect(date >= startDate).toBe(true);
+            expect(date <= endDate).toBe(true);
+            expect(weekdays).toContain(weekday(date));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Count-bounded series produce exactly occurrence_count dates', () => {
+    fc.assert(
+      fc.property(
+        dateArb,
+        weekdaysArb,
+        frequencyArb,
+        fc.integer({ min: 1, max: MAX_SERIES_OCCURRENCES }),
+        (startDate, weekdays, frequency, count) => {
+          const rule: RecurrenceRule = { frequency, weekdays, occurrence_count: count };
+          expect(expandRecurrence(startDate, rule)).toHaveLength(count);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Biweekly series skip every other week', () => {
+    fc.assert(
+      fc.property(dateArb, weekdaysArb, fc.integer({ min: 1, max: 40 }), (startDate, weekdays, count) => {
+        const dates = expandRecurrence(startDate, {
+          frequency: 'biweekly',
+          weekdays,
+          occurrence_count: count,
+        });
+
+        // Week index relative to the Sunday of the start week
+        const firstSunday = addDays(startDate, -weekday(startDate));
+        for (const date of dates) {
+          const weekIndex = Math.floor(daysBetween(firstSunday, date) / 7);
+          expect(weekIndex % 2).toBe(0);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Skipped dates are removed and still count towards the series length', () => {
+    fc.assert(
+      fc.property(
+        dateArb,
+        weekdaysArb,
+        frequencyArb,
+        fc.integer({ min: 1, max: 30 }),
+        fc.array(fc.nat(), { maxLength: 5 }),
+        (startDate, weekdays, frequency, count, skipIndexes) => {
+          const rule: RecurrenceRule = { frequency, weekdays, occurrence_count: count };
+          const all = expandRecurrence(startDate, rule);
+          const skipDates = [...new Set(skipIndexes.map((index) => all[index % all.length]))];
+
+          const remaining = expandRecurrence(startDate, rule, skipDates);
+
+          expect(remaining).toHaveLength(count - skipDates.length);
+          expect(remaining).toEqual(all.filter((date) => !skipDates.includes(date)));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('expands a Mon/Wed/Fri practice into the expected dates', () => {
+    // 2026-01-05 is a Monday
+    const dates = expandRecurrence('2026-01-05', {
+      frequency: 'weekly',
+      weekdays: [1, 3, 5],
+      end_date: '2026-01-16',
+    });
+
+    expect(dates).toEqual([
+      '2026-01-05',
+      '2026-01-07',
+      '2026-01-09',
+      '2026-01-12',
+      '2026-01-14',
+      '2026-01-16',
+    ]);
+  });
+
+  it('rejects rules without exactly one bound or without weekdays', () => {
+    expect(
+      validateRecurrenceRule({ frequency: 'weekly', weekdays: [1] }, '2026-01-05')
+    ).not.toBeNull();
+    expect(
+      validateRecurrenceRule(
+        { frequency: 'weekly', weekdays: [1], end_date: '2026-02-01', occurrence_count: 4 },
+        '2026-01-05'
+      )
+    ).not.toBeNull();
+    expect(
+      validateRecurrenceRule({ frequency: 'weekly', weekdays: [], occurrence_count: 4 }, '2026-01-05')
+    ).not.toBeNull();
+    expect(
+      validateRecurrenceRule({ frequency: 'weekly', weekdays: [1], end_date: '2026-01-01' }, '2026-01-05')
+    ).not.toBeNull();
+    expect(
+      validateRecurrenceRule(
+        { frequency: 'weekly', weekdays: [1], occurrence_count: MAX_SERIES_OCCURRENCES + 1 },
+        '2026-01-05'
+      )
+    ).not.toBeNull();
+  });
+
+  it('rejects end dates that would create more than the maximum number of occurrences', () => {
+    // Every day of the week: 104 days from 2026-01-05 is the largest allowed range
+    const everyDay = { frequency: 'weekly' as const, weekdays: [0, 1, 2, 3, 4, 5, 6] };
+    const lastAllowed = addDays('2026-01-05', MAX_SERIES_OCCURRENCES - 1);
+
+    expect(validateRecurrenceRule({ ...everyDay, end_date: lastAllowed }, '2026-01-05')).toBeNull();
+    expect(expandRecurrence('2026-01-05', { ...everyDay, end_date: lastAllowed })).toHaveLength(
+      MAX_SERIES_OCCURRENCES
+    );
+    expect(
+      validateRecurrenceRule({ ...everyDay, end_date: addDays(lastAllowed, 1) }, '2026-01-05')
+    ).toContain(`เกิน ${MAX_SERIES_OCCURRENCES} ครั้ง`);
+    // Two years of weekly sessions on two days is over the cap too
+    expect(
+      validateRecurrenceRule(
+        { frequency: 'weekly', weekdays: [1, 4], end_date: '2027-12-31' },
+        '2026-01-05'
+      )
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Property-Based Tests for the Shared Cache
+ * Feature: caching
+ *
+ * Property: Invalidation reaches every reader
+ * For any set of cached entries and any tags invalidated, exactly the entries
+ * carrying one of those tags are gone, for every instance reading the same
+ * backend, and stale entries are served only inside their stale window
+ *
+ * This property ensures that:
+ * - Fresh entries are served without recomputing
+ * - Stale entries are served once while a refresh runs in the background
+ * - Concurrent misses share one computation
+ * - Results rejected by shouldCache (e.g. errors) are not stored
+ * - The shared backend falls back to local memory when the database fails
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  CACHE_TAGS,
+  attendanceCacheTags,
+  createMemoryCacheBackend,
+  getCached,
+  invalidateTags,
+  setCacheBackend,
+  type CacheEntry,
+} from '@/lib/utils/cache';
+import { createSupabaseCacheBackend } from '@/lib/utils/cache-store';
+
+const tagArb = fc.constantFrom(
+  CACHE_TAGS.attendance,
+  CACHE_TAGS.featureFlags,
+  CACHE_TAGS.club('club-a'),
+  CACHE_TAGS.club('club-b'),
+  CACHE_TAGS.session('session-1'),
+  CACHE_TAGS.athlete('athlete-1')
+);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T08:00:00Z'));
+  setCacheBackend(createMemoryCacheBackend());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  setCacheBackend(null);
+});
+
+describe('Property: Invalidation reaches every reader', () => {
+  it('removes exactly the entries that carry an invalidated tag', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.uniqueArray(tagArb, { maxLength: 3 }), { minLength: 1, maxLength: 10 }),
+        fc.uniqueArray(tagArb, { minLength: 1, maxLength: 3 }),
+        async (entryTags, invalidated) => {
+          const shared = new Map<string, CacheEntry>();
+          const instanceA = createMemoryCacheBackend(shared);
+          const instanceB = createMemoryCacheBackend(shared);
+          const until = Date.now() + 60_000;
+
+          for (const [i, tags] of entryTags.entries()) {
+            await instanceA.set(`key-${i}`, {
+              value: i,
+              tags,
+              freshUntil: until,
+              staleUntil: until,
+            });
+          }
+          await instanceB.invalidateTags(invalidated);
+
+          for (const [i, tags] of entryTags.entries()) {
+            const expected = tags.some((tag) => invalidated.includes(tag));
+            expect(await instanceA.get(`key-${i}`)).toEqual(
+              expected ? null : expect.objectContaining({ value: i })
+            );
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('serves fresh entries, then stale ones while refreshing, then recomputes', async () => {
+    let version = 0;
+    const compute = vi.fn(async () => ++version);
+    const options = { ttl: 1_000, staleWhileRevalidate: 5_000, tags: ['t'] };
+
+    expect(await getCached('stats', compute, options)).toBe(1);
+    expect(await getCached('stats', compute, options)).toBe(1);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    // Stale: the old value is returned and a refresh starts
+    vi.setSystemTime(Date.now() + 2_000);
+    expect(await getCached('stats', compute, options)).toBe(1);
+    await vi.waitFor(() => expect(compute).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await getCached('stats', compute, options)).toBe(2));
+
+    // Past the stale window: recomputed before returning
+    vi.setSystemTime(Date.now() + 10_000);
+    expect(await getCached('stats', compute, options)).toBe(3);
+
+    await invalidateTags(['t']);
+    expect(await getCached('stats', compute, options)).toBe(4);
+  });
+
+  it('shares one computation between concurrent misses', async () => {
+    let resolve!: (value: string) => void;
+    const compute = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+
+    const pending = Promise.all([getCached('report', compute), getCached('report', compute)]);
+    await vi.waitFor(() => expect(compute).toHaveBeenCalledTimes(1));
+    resolve('done');
+
+    expect(await pending).toEqual(['done', 'done']);
+  });
+
+  it('does not store results rejected by shouldCache', async () => {
+    const compute = vi.fn(async () => ({ error: 'ไม่ได้รับอนุญาต' }));
+    const options = { ttl: 60_000, shouldCache: (result: { error?: string }) => !result.error };
+
+    await getCached('stats', compute, options);
+    await getCached('stats', compute, options);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('builds attendance tags from whatever the caller knows', () => {
+    expect(attendanceCacheTags({})).toEqual(['attendance']);
+    expect(attendanceCacheTags({ clubId: 'c', sessionId: 's', athleteId: 'a' })).toEqual([
+      'attendance',
+      'club:c',
+      'session:s',
+      'athlete:a',
+    ]);
+  });
+});
+
+describe('Shared Supabase backend', () => {
+  /** Query builder stand-in whose every query fails */
+  function failingClient() {
+    const result = { data: null, error: { message: 'connection refused' } };
+    const builder: Record<string, unknown> = {};
+    for (const method of ['from', 'select', 'eq', 'gt', 'lt', 'upsert', 'delete', 'overlaps']) {
+      builder[method] = () => builder;
+    }
+    builder.maybeSingle = async () => result;
+    builder.then = (onFulfilled: (value: typeof result) => unknown) =>
+      Promise.resolve(result).then(onFulfilled);
+    return builder;
+  }
+
+  it('falls back to local memory when the database fails', async () => {
+    const local = createMemoryCacheBackend();
+    const backend = createSupabaseCacheBackend(local, failingClient());
+    const until = Date.now() + 60_000;
+
+    await backend.set('k', { value: 'v', tags: ['t'], freshUntil: until, staleUntil: until });
+    expect((await backend.get<string>('k'))?.value).toBe('v');
+
+    await expect(backend.invalidateTags(['t'])).rejects.toThrow('connection refused');
+    expect(await local.get('k')).toBeNull();
+  });
+});
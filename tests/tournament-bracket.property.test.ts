@@ -0,0 +1,223 @@
+/**
+ * Property-Based Tests for Tournament Brackets
+ * Feature: tournaments
+ *
+ * Property: Generated fixtures are fair and complete
+ * For any list of entrants, a knockout bracket places every entrant exactly
+ * once with byes going to the top seeds, and a round robin schedule pairs
+ * every two entrants exactly once without anyone playing twice in a round
+ *
+ * This property ensures that:
+ * - Seeds 1 and 2 can only meet in the final
+ * - Played brackets always produce a single winner and consistent placings
+ * - Ranking events order times ascending and scores descending, sharing ties
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  bracketSeedOrder,
+  computeEliminationPlacings,
+  computeRoundRobinStandings,
+  eliminationRounds,
+  generateRoundRobin,
+  generateSingleElimination,
+  isEventComplete,
+  matchWinner,
+  nextMatchSlot,
+  rankResults,
+  type BracketMatchResult,
+} from '@/lib/utils/tournament-bracket';
+
+const entrantsArb = fc
+  .integer({ min: 2, max: 40 })
+  .map((count) => Array.from({ length: count }, (_, i) => `p${i + 1}`));
+
+/**
+ * Play a knockout bracket to the end, the better seed (lower number) always winning
+ */
+function playElimination(ids: string[]): BracketMatchResult[] {
+  const matches: BracketMatchResult[] = generateSingleElimination(ids).map((match) => ({
+    ...match,
+    score_a: null,
+    score_b: null,
+  }));
+  const seed = (id: string | null) => (id ? ids.indexOf(id) : Number.MAX_SAFE_INTEGER);
+
+  for (const match of [...matches].sort((a, b) => a.round - b.round)) {
+    if (match.status === 'bye') continue;
+    const [scoreA, scoreB] =
+      seed(match.participant_a_id) < seed(match.participant_b_id) ? [2, 1] : [1, 2];
+    match.score_a = scoreA;
+    match.score_b = scoreB;
+    match.winner_id = matchWinner(match, scoreA, scoreB);
+    match.status = 'completed';
+
+    const next = nextMatchSlot(match.round, match.match_number);
+    const target = matches.find(
+      (m) => m.round === next.round && m.match_number === next.match_number
+    );
+    if (target && next.slot === 'a') target.participant_a_id = match.winner_id;
+    if (target && next.slot === 'b') target.participant_b_id = match.winner_id;
+  }
+
+  return matches;
+}
+
+describe('Tournament Bracket Property-Based Tests', () => {
+  it('Property: Every entrant appears exactly once in the first round of a knockout', () => {
+    fc.assert(
+      fc.property(entrantsArb, (ids) => {
+        const matches = generateSingleElimination(ids);
+        const firstRound = matches.filter((match) => match.round === 1);
+        const placed = firstRound
+          .flatMap((match) => [match.participant_a_id, match.participant_b_id])
+          .filter((id): id is string => id !== null);
+
+        expect(firstRound).toHaveLength(2 ** (eliminationRounds(ids.length) - 1));
+        expect(placed.sort()).toEqual([...ids].sort());
+        // A bye never faces another bye
+        firstRound.forEach((match) =>
+          expect(match.participant_a_id ?? match.participant_b_id).not.toBeNull()
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Byes go to the top seeds and advance them to round 2', () => {
+    fc.assert(
+      fc.property(entrantsArb, (ids) => {
+        const matches = generateSingleElimination(ids);
+        const byes = matches.filter((match) => match.status === 'bye');
+        const byeCount = 2 ** eliminationRounds(ids.length) - ids.length;
+
+        expect(byes.map((match) => match.winner_id).sort()).toEqual(ids.slice(0, byeCount).sort());
+        if (eliminationRounds(ids.length) > 1) {
+          const roundTwo = matches
+            .filter((match) => match.round === 2)
+            .flatMap((match) => [match.participant_a_id, match.participant_b_id]);
+          byes.forEach((bye) => expect(roundTwo).toContain(bye.winner_id));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: The top two seeds can only meet in the final', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 6 }), (power) => {
+        const order = bracketSeedOrder(2 ** power);
+        const half = order.length / 2;
+
+        expect([...order].sort((a, b) => a - b)).toEqual(
+          Array.from({ length: order.length }, (_, i) => i + 1)
+        );
+        expect(order.slice(0, half)).toContain(1);
+        expect(order.slice(half)).toContain(2);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('Property: A played knockout produces one champion and placings per round', () => {
+    fc.assert(
+      fc.property(entrantsArb, (ids) => {
+        const matches = playElimination(ids);
+        const placings = computeEliminationPlacings(matches);
+        const rounds = eliminationRounds(ids.length);
+
+        expect(isEventComplete(matches)).toBe(true);
+        expect(placings).not.toBeNull();
+        expect(placings!.size).toBe(ids.length);
+        expect(placings!.get('p1')).toBe(1);
+        expect(placings!.get('p2')).toBe(2);
+        expect(Array.from(placings!.values()).filter((placing) => placing === 1)).toHaveLength(1);
+        placings!.forEach((placing) => {
+          expect(placing === 1 || Number.isInteger(Math.log2(placing - 1))).toBe(true);
+          expect(placing).toBeLessThanOrEqual(2 ** (rounds - 1) + 1);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Round robin pairs everyone exactly once and never twice per round', () => {
+    fc.assert(
+      fc.property(entrantsArb, (ids) => {
+        const matches = generateRoundRobin(ids);
+        const pairs = new Set(
+          matches.map((match) => [match.participant_a_id, match.participant_b_id].sort().join('|'))
+        );
+
+        expect(matches).toHaveLength((ids.length * (ids.length - 1)) / 2);
+        expect(pairs.size).toBe(matches.length);
+
+        const rounds = new Set(matches.map((match) => match.round));
+        rounds.forEach((round) => {
+          const playing = matches
+            .filter((match) => match.round === round)
+            .flatMap((match) => [match.participant_a_id, match.participant_b_id]);
+          expect(new Set(playing).size).toBe(playing.length);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Round robin points add up over the played matches', () => {
+    fc.assert(
+      fc.property(
+        entrantsArb.filter((ids) => ids.length <= 12),
+        fc.infiniteStream(fc.integer({ min: 0, max: 5 })),
+        (ids, scores) => {
+          const matches: BracketMatchResult[] = generateRoundRobin(ids).map((match) => ({
+            ...match,
+            score_a: scores.next().value,
+            score_b: scores.next().value,
+            status: 'completed',
+          }));
+          const standings = computeRoundRobinStandings(ids, matches);
+          const draws = matches.filter((match) => match.score_a === match.score_b).length;
+
+          expect(standings.reduce((sum, s) => sum + s.points, 0)).toBe(
+            (matches.length - draws) * 3 + draws * 2
+          );
+          standings.forEach((standing) => expect(standing.played).toBe(ids.length - 1));
+          for (let i = 1; i < standings.length; i++) {
+            expect(standings[i].points).toBeLessThanOrEqual(standings[i - 1].points);
+            expect(standings[i].placing).toBeGreaterThanOrEqual(standings[i - 1].placing);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('leaves knockout placings open until the final is played', () => {
+    const matches: BracketMatchResult[] = generateSingleElimination(['a', 'b', 'c', 'd']).map(
+      (match) => ({ ...match, score_a: null, score_b: null })
+    );
+    expect(computeEliminationPlacings(matches)).toBeNull();
+    expect(isEventComplete(matches)).toBe(false);
+  });
+
+  it('ranks times ascending and scores descending with shared placings', () => {
+    const results = [
+      { participant_id: 'a', value: 31.2 },
+      { participant_id: 'b', value: 29.8 },
+      { participant_id: 'c', value: 31.2 },
+      { participant_id: 'd', value: 33 },
+    ];
+
+    expect(Object.fromEntries(rankResults(results, 'time'))).toEqual({ b: 1, a: 2, c: 2, d: 4 });
+    expect(Object.fromEntries(rankResults(results, 'score'))).toEqual({ d: 1, a: 2, c: 2, b: 4 });
+  });
+
+  it('treats equal scores as a draw', () => {
+    const match = { participant_a_id: 'a', participant_b_id: 'b' };
+    expect(matchWinner(match, 1, 1)).toBeNull();
+    expect(matchWinner(match, 2, 1)).toBe('a');
+    expect(matchWinner(match, 0, 3)).toBe('b');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Property-Based Tests for Tournament Eligibility
+ * Feature: tournaments
+ *
+ * Property: Entries respect category rules and capacity
+ * For any athlete and category, the athlete is eligible exactly when age on
+ * the reference date, gender, weight and skill level all fit the category,
+ * and waitlist promotions never push a tournament or category over its limit
+ *
+ * This property ensures that:
+ * - Age brackets use completed years on the reference date
+ * - Missing weigh-in data is asked for instead of silently rejected
+ * - The waitlist is promoted first come first served
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  SKILL_LEVELS,
+  ageOnDate,
+  checkCategoryEligibility,
+  describeCategory,
+  hasCapacity,
+  selectWaitlistPromotions,
+  type EntrantProfile,
+  type TournamentCategory,
+} from '@/lib/utils/tournament-eligibility';
+
+const REFERENCE_DATE = '2026-06-15';
+
+const dateArb = fc
+  .date({
+    min: new Date('1990-01-01T00:00:00Z'),
+    max: new Date('2024-12-31T00:00:00Z'),
+    noInvalidDate: true,
+  })
+  .map((date) => date.toISOString().slice(0, 10));
+
+const optionalInt = (min: number, max: number) =>
+  fc.option(fc.integer({ min, max }), { nil: null });
+
+const categoryArb: fc.Arbitrary<TournamentCategory> = fc.record({
+  id: fc.constant('category'),
+  name: fc.constant('รุ่นทดสอบ'),
+  min_age: optionalInt(0, 20),
+  max_age: optionalInt(10, 40),
+  gender: fc.constantFrom<TournamentCategory['gender']>(null, 'male', 'female'),
+  min_weight_kg: optionalInt(20, 60),
+  max_weight_kg: optionalInt(40, 100),
+  skill_levels: fc.subarray([...SKILL_LEVELS]),
+  max_participants: optionalInt(1, 10),
+});
+
+const entrantArb: fc.Arbitrary<EntrantProfile> = fc.record({
+  date_of_birth: dateArb,
+  gender: fc.constantFrom('male', 'female', 'other'),
+  weight_kg: fc.option(fc.integer({ min: 15, max: 120 }), { nil: null }),
+  skill_level: fc.option(fc.constantFrom(...SKILL_LEVELS), { nil: null }),
+});
+
+describe('Tournament Eligibility Property-Based Tests', () => {
+  it('Property: Age counts completed years on the reference date', () => {
+    fc.assert(
+      fc.property(dateArb, (dateOfBirth) => {
+        const [year, month, day] = dateOfBirth.split('-');
+        const age = ageOnDate(dateOfBirth, REFERENCE_DATE);
+        const birthdayThisYear = `2026-${month}-${day}`;
+
+        expect(age).toBe(2026 - Number(year) - (birthdayThisYear > REFERENCE_DATE ? 1 : 0));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: An athlete is eligible exactly when every rule fits', () => {
+    fc.assert(
+      fc.property(entrantArb, categoryArb, (entrant, category) => {
+        const result = checkCategoryEligibility(entrant, category, REFERENCE_DATE);
+        const age = ageOnDate(entrant.date_of_birth!, REFERENCE_DATE);
+        const needsWeight = category.min_weight_kg !== null || category.max_weight_kg !== null;
+        const needsLevel = category.skill_levels.length > 0;
+
+        const ageFits =
+          (category.min_age === null || age >= category.min_age) &&
+          (category.max_age === null || age <= category.max_age);
+        const genderFits = category.gender === null || entrant.gender === category.gender;
+        const weightFits =
+          !needsWeight ||
+          (entrant.weight_kg !== null &&
+            (category.min_weight_kg === null || entrant.weight_kg >= category.min_weight_kg) &&
+            (category.max_weight_kg === null || entrant.weight_kg <= category.max_weight_kg));
+        const levelFits =
+          !needsLevel ||
+          (entrant.skill_level !== null && category.skill_levels.includes(entrant.skill_level));
+
+        expect(result.eligible).toBe(ageFits && genderFits && weightFits && levelFits);
+        expect(result.missing.includes('weight_kg')).toBe(
+          needsWeight && entrant.weight_kg === null
+        );
+        expect(result.missing.includes('skill_level')).toBe(
+          needsLevel && entrant.skill_level === null
+        );
+        if (!ageFits || !genderFits) expect(result.reasons.length).toBeGreaterThan(0);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('Property: Waitlist promotions stay within limits and follow the queue', () => {
+    const participantArb = fc.record({
+      status: fc.constantFrom('selected', 'confirmed', 'waiting', 'declined'),
+      category_id: fc.constantFrom<string | null>(null, 'a', 'b'),
+    });
+
+    fc.assert(
+      fc.property(
+        fc.array(participantArb, { maxLength: 30 }),
+        optionalInt(1, 20),
+        optionalInt(1, 8),
+        fc.integer({ min: 0, max: 5 }),
+        (rows, tournamentLimit, categoryLimit, freed) => {
+          const participants = rows.map((row, index) => ({
+            ...row,
+            id: `p${index}`,
+            added_at: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+          }));
+          const categories = new Map<string, number | null>([
+            ['a', categoryLimit],
+            ['b', null],
+          ]);
+
+          const promoted = selectWaitlistPromotions(
+            participants,
+            { tournament: tournamentLimit, categories },
+            freed
+          );
+          const after = participants.map((p) =>
+            promoted.includes(p.id) ? { ...p, status: 'selected' } : p
+          );
+          const active = (list: typeof after) =>
+            list.filter((p) => p.status === 'selected' || p.status === 'confirmed');
+          const activeBefore = active(participants);
+
+          expect(promoted.length).toBeLessThanOrEqual(freed);
+          promoted.forEach((id) =>
+            expect(participants.find((p) => p.id === id)?.status).toBe('waiting')
+          );
+          if (promoted.length > 0) {
+            expect(
+              tournamentLimit === null ||
+                active(after).length <= Math.max(tournamentLimit, activeBefore.length)
+            ).toBe(true);
+            expect(
+              categoryLimit === null ||
+                active(after).filter((p) => p.category_id === 'a').length <=
+                  Math.max(categoryLimit, activeBefore.filter((p) => p.category_id === 'a').length)
+            ).toBe(true);
+          }
+
+          // Nobody who waited longer in a category with room is skipped
+          const waitingInB = participants.filter(
+            (p) => p.status === 'waiting' && p.category_id !== 'a'
+          );
+          const promotedInB = promoted.filter((id) => waitingInB.some((p) => p.id === id));
+          expect(promotedInB).toEqual(waitingInB.slice(0, promotedInB.length).map((p) => p.id));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('promotes the next waiting athlete when a selected athlete declines', () => {
+    const participants = [
+      { id: 'p1', status: 'declined', category_id: null, added_at: '2026-01-01T00:00:00Z' },
+      { id: 'p2', status: 'selected', category_id: null, added_at: '2026-01-02T00:00:00Z' },
+      { id: 'p3', status: 'waiting', category_id: null, added_at: '2026-01-04T00:00:00Z' },
+      { id: 'p4', status: 'waiting', category_id: null, added_at: '2026-01-03T00:00:00Z' },
+    ];
+
+    expect(
+      selectWaitlistPromotions(participants, { tournament: 2, categories: new Map() }, 1)
+    ).toEqual(['p4']);
+    expect(
+      selectWaitlistPromotions(participants, { tournament: 1, categories: new Map() }, 1)
+    ).toEqual([]);
+  });
+
+  it('treats a birthday on the reference date as already reached', () => {
+    expect(ageOnDate('2014-06-15', REFERENCE_DATE)).toBe(12);
+    expect(ageOnDate('2014-06-16', REFERENCE_DATE)).toBe(11);
+    expect(ageOnDate('2012-02-29', '2026-02-28')).toBe(13);
+  });
+
+  it('checks capacity against every limit', () => {
+    expect(hasCapacity(3, null, undefined)).toBe(true);
+    expect(hasCapacity(3, 4, null)).toBe(true);
+    expect(hasCapacity(3, 4, 3)).toBe(false);
+  });
+
+  it('describes category rules in Thai', () => {
+    expect(
+      describeCategory({
+        id: 'c',
+        name: 'U12',
+        min_age: null,
+        max_age: 12,
+        gender: 'male',
+        min_weight_kg: null,
+        max_weight_kg: 45,
+        skill_levels: ['beginner'],
+        max_participants: null,
+      })
+    ).toBe('อายุไม่เกิน 12 ปี · ชาย · ไม่เกิน 45 กก. · ระดับเริ่มต้น');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Property-Based Tests for Tournament RSVP
+ * Feature: tournaments
+ *
+ * Property: A place is confirmed only with every required answer
+ * For any combination of athlete response and parent consent, a participant
+ * is confirmed exactly when the athlete confirmed and, for minors, a parent
+ * gave consent; either side declining gives the place up
+ *
+ * This property ensures that:
+ * - Minors can't confirm a place without a parent
+ * - The coach summary accounts for every participant exactly once
+ * - Declines always carry a reason
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ADULT_AGE,
+  MAX_RSVP_REASON_LENGTH,
+  canRespond,
+  requiresParentConsent,
+  resolveRsvpStatus,
+  rsvpStage,
+  summarizeRsvp,
+  validateRsvpReason,
+  type RsvpState,
+} from '@/lib/utils/tournament-rsvp';
+
+const answersArb = fc.record({
+  athlete_response: fc.constantFrom<RsvpState['athlete_response']>(null, 'confirmed', 'declined'),
+  parent_consent: fc.constantFrom<RsvpState['parent_consent']>(null, 'given', 'refused'),
+  consent_required: fc.boolean(),
+});
+
+const stateArb: fc.Arbitrary<RsvpState> = fc
+  .tuple(answersArb, fc.constantFrom('selected', 'confirmed', 'declined', 'waiting'))
+  .map(([answers, status]) => ({ ...answers, status }));
+
+describe('Tournament RSVP Property-Based Tests', () => {
+  it('Property: Confirmed exactly when the athlete and any required parent agree', () => {
+    fc.assert(
+      fc.property(answersArb, (answers) => {
+        const status = resolveRsvpStatus(answers);
+        const declined =
+          answers.athlete_response === 'declined' || answers.parent_consent === 'refused';
+        const confirmed =
+          !declined &&
+          answers.athlete_response === 'confirmed' &&
+          (!answers.consent_required || answers.parent_consent === 'given');
+
+        expect(status === 'declined').toBe(declined);
+        expect(status === 'confirmed').toBe(confirmed);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: The summary counts every participant in exactly one stage', () => {
+    fc.assert(
+      fc.property(fc.array(stateArb, { maxLength: 40 }), (states) => {
+        const summary = summarizeRsvp(states);
+        const total = Object.values(summary).reduce((sum, count) => sum + count, 0);
+
+        expect(total).toBe(states.length);
+        expect(summary.confirmed).toBe(states.filter((s) => s.status === 'confirmed').length);
+        expect(summary.waiting).toBe(states.filter((s) => s.status === 'waiting').length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Only athletes holding a place can answer', () => {
+    fc.assert(
+      fc.property(stateArb, (state) => {
+        expect(canRespond(state.status)).toBe(
+          state.status === 'selected' || state.status === 'confirmed'
+        );
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('asks for consent from parents of minors only', () => {
+    expect(requiresParentConsent('2010-06-16', '2028-06-15')).toBe(true);
+    expect(requiresParentConsent('2010-06-15', '2028-06-15')).toBe(false);
+    expect(requiresParentConsent(null, '2028-06-15')).toBe(false);
+    expect(ADULT_AGE).toBe(18);
+  });
+
+  it('shows a minor who confirmed as waiting for consent', () => {
+    expect(
+      rsvpStage({
+        status: 'selected',
+        athlete_response: 'confirmed',
+        parent_consent: null,
+        consent_required: true,
+      })
+    ).toBe('awaiting_consent');
+    expect(
+      rsvpStage({
+        status: 'selected',
+        athlete_response: null,
+        parent_consent: 'given',
+        consent_required: true,
+      })
+    ).toBe('awaiting_athlete');
+  });
+
+  it('requires a reason to decline and limits its length', () => {
+    expect(validateRsvpReason(true, '   ')).not.toBeNull();
+    expect(validateRsvpReason(true, 'ติดสอบปลายภาค')).toBeNull();
+    expect(validateRsvpReason(false, undefined)).toBeNull();
+    expect(validateRsvpReason(false, 'x'.repeat(MAX_RSVP_REASON_LENGTH + 1))).not.toBeNull();
+  });
+});
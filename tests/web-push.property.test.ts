@@ -0,0 +1,386 @@
+/**
+ * Property-Based Tests for Web Push Delivery
+ * Feature: push-notifications
+ *
+ * Property: Only the subscribed device can read a push, and only this app can send one
+ * For any payload, the request a push service receives carries a VAPID token
+ * that verifies with the application server key, and the body decrypts with
+ * the subscription's keys back to the payload
+ *
+ * This property ensures that:
+ * - Gone subscriptions (404/410) are expired, not retried
+ * - Other failures are retried and end in dead letter
+ * - Quiet hours hold deliveries until they end, across midnight
+ * - A push service stand-in receives, verifies and decrypts a delivery end to end
+ */
+
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { MAX_DELIVERY_ATTEMPTS } from '@/lib/utils/event-dispatcher';
+import {
+  MAX_PUSH_PAYLOAD_BYTES,
+  createVapidAuthorization,
+  encryptPushPayload,
+  generateVapidKeys,
+  type VapidKeys,
+  type WebPushSubscription,
+} from '@/lib/utils/web-push';
+import { quietHoursEndAt, validateQuietHours } from '@/lib/utils/quiet-hours';
+import { planPushOutcome, sendWebPush, type PushPayload } from '@/lib/admin/push-delivery';
+
+const VAPID: VapidKeys = { ...generateVapidKeys(), subject: 'mailto:admin@example.com' };
+
+/** A browser's side of a subscription: its ECDH key pair and auth secret */
+function createTestDevice(endpoint: string) {
+  const keys = createECDH('prime256v1');
+  keys.generateKeys();
+  const auth = randomBytes(16);
+  const subscription: WebPushSubscription = {
+    endpoint,
+    keys: { p256dh: keys.getPublicKey('base64url'), auth: auth.toString('base64url') },
+  };
+  return { keys, auth, subscription };
+}
+
+type TestDevice = ReturnType<typeof createTestDevice>;
+
+/** What the browser does with an aes128gcm push body (RFC 8291) */
+function decryptPush(device: TestDevice, body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const record = body.subarray(21 + idLength);
+
+  const sharedSecret = device.keys.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    device.keys.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, device.auth, keyInfo, 32));
+  const contentKey = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([
+    decipher.update(record.subarray(0, record.length - 16)),
+    decipher.final(),
+  ]);
+
+  // Strip the last-record delimiter and any padding after it
+  const delimiter = padded.lastIndexOf(0x02);
+  expect(delimiter).toBeGreaterThanOrEqual(0);
+  return padded.subarray(0, delimiter).toString();
+}
+
+/** What a push service checks before accepting a request (RFC 8292) */
+function verifyVapid(authorization: string, audience: string, nowSeconds: number): boolean {
+  const match = /^vapid t=([^,]+), k=(.+)$/.exec(authorization);
+  if (!match) return false;
+  const [header, claims, signature] = match[1].split('.');
+  const publicKey = Buffer.from(match[2], 'base64url');
+
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+  const decoded = JSON.parse(Buffer.from(claims, 'base64url').toString());
+
+  return (
+    valid &&
+    decoded.aud === audience &&
+    decoded.exp > nowSeconds &&
+    decoded.exp <= nowSeconds + 24 * 60 * 60 &&
+    typeof decoded.sub === 'string'
+  );
+}
+
+/** Local stand-in push service: verifies each request and answers with the configured status */
+interface Received {
+  verified: boolean;
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+let server: Server;
+let origin: string;
+let responseStatus = 201;
+const received: Received[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const verified = verifyVapid(
+        (req.headers.authorization as string) || '',
+        origin,
+        Math.floor(Date.now() / 1000)
+      );
+      received.push({ verified, headers: req.headers, body: Buffer.concat(chunks) });
+      res.statusCode = verified ? responseStatus : 401;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const payloadArb: fc.Arbitrary<PushPayload> = fc.record({
+  notificationId: fc.uuid(),
+  type: fc.constantFrom('announcement', 'new_schedule', 'leave_approved'),
+  title: fc.string({ maxLength: 200 }),
+  body: fc.string({ maxLength: 1000 }),
+  url: fc.constantFrom('/dashboard', '/dashboard/athlete/schedule'),
+});
+
+describe('encryptPushPayload', () => {
+  it('decrypts with the subscription keys back to the payload', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 1000 }), (payload) => {
+        const device = createTestDevice('https://push.example.com/send/abc');
+        expect(decryptPush(device, encryptPushPayload(device.subscription, payload))).toBe(payload);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('does not decrypt for another device', () => {
+    const device = createTestDevice('https://push.example.com/send/abc');
+    const other = createTestDevice('https://push.example.com/send/def');
+    const body = encryptPushPayload(device.subscription, 'สวัสดี');
+
+    expect(() => decryptPush(other, body)).toThrow();
+  });
+
+  it('rejects payloads push services would refuse', () => {
+    const device = createTestDevice('https://push.example.com/send/abc');
+
+    expect(() =>
+      encryptPushPayload(device.subscription, 'x'.repeat(MAX_PUSH_PAYLOAD_BYTES + 1))
+    ).toThrow();
+    expect(
+      encryptPushPayload(device.subscription, 'x'.repeat(MAX_PUSH_PAYLOAD_BYTES)).length
+    ).toBeLessThanOrEqual(4096);
+  });
+});
+
+describe('createVapidAuthorization', () => {
+  it('verifies with the application server key for the endpoint origin only', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const authorization = createVapidAuthorization(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      VAPID,
+      now
+    );
+
+    expect(verifyVapid(authorization, 'https://fcm.googleapis.com', now)).toBe(true);
+    expect(verifyVapid(authorization, 'https://updates.push.services.mozilla.com', now)).toBe(
+      false
+    );
+
+    const otherKey = generateVapidKeys().publicKey;
+    expect(
+      verifyVapid(
+        authorization.replace(/k=.+$/, `k=${otherKey}`),
+        'https://fcm.googleapis.com',
+        now
+      )
+    ).toBe(false);
+  });
+});
+
+describe('sendWebPush', () => {
+  it('delivers a payload the push service can verify and the device can decrypt', async () => {
+    await fc.assert(
+      fc.asyncProperty(payloadArb, async (payload) => {
+        responseStatus = 201;
+        const device = createTestDevice(`${origin}/send/${payload.notificationId}`);
+        const countBefore = received.length;
+
+        const result = await sendWebPush(device.subscription, payload, VAPID);
+
+        expect(result).toEqual({ status: 201, error: null });
+        expect(received.length).toBe(countBefore + 1);
+
+        const request = received[received.length - 1];
+        expect(request.verified).toBe(true);
+        expect(request.headers['content-encoding']).toBe('aes128gcm');
+        expect(Number(request.headers.ttl)).toBeGreaterThan(0);
+        expect(JSON.parse(decryptPush(device, request.body))).toEqual(payload);
+      }),
+      { numRuns: 15 }
+    );
+  });
+
+  it('reports the push service status for gone subscriptions and outages', async () => {
+    const device = createTestDevice(`${origin}/send/gone`);
+    const payload: PushPayload = {
+      notificationId: '6f1d3a52-8a7e-4d8e-9f0a-2b7c1e4d5a60',
+      type: 'announcement',
+      title: 'ประกาศ',
+      body: 'ทดสอบ',
+      url: '/dashboard',
+    };
+
+    for (const status of [404, 410, 503]) {
+      responseStatus = status;
+      const result = await sendWebPush(device.subscription, payload, VAPID);
+      expect(result.status).toBe(status);
+      expect(result.error).not.toBeNull();
+      expect(planPushOutcome(0, result).status).toBe(status === 503 ? 'pending' : 'expired');
+    }
+  });
+
+  it('returns a failed attempt instead of throwing when the push service is unreachable', async () => {
+    const device = createTestDevice('http://127.0.0.1:1/send/unreachable');
+    const result = await sendWebPush(
+      device.subscription,
+      { notificationId: 'n', type: 'announcement', title: 't', body: 'b', url: '/dashboard' },
+      VAPID,
+      { timeoutMs: 2000 }
+    );
+
+    expect(result.status).toBeNull();
+    expect(result.error).toBeTruthy();
+  });
+});
+
+describe('planPushOutcome', () => {
+  const now = new Date('2026-10-19T08:00:00.000Z');
+
+  it('delivers on 2xx and expires on 404/410 without retrying', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: MAX_DELIVERY_ATTEMPTS - 1 }),
+        fc.integer({ min: 200, max: 299 }),
+        (attempts, status) => {
+          const outcome = planPushOutcome(attempts, { status, error: null }, now);
+          expect(outcome.status).toBe('delivered');
+          expect(outcome.delivered_at).toBe(now.toISOString());
+
+          for (const gone of [404, 410]) {
+            expect(planPushOutcome(attempts, { status: gone, error: null }, now).status).toBe(
+              'expired'
+            );
+          }
+        }
+      )
+    );
+  });
+
+  it('retries server errors and timeouts later, and dead-letters the last attempt', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: MAX_DELIVERY_ATTEMPTS - 1 }),
+        fc.constantFrom<number | null>(null, 408, 429, 500, 502, 503),
+        (attempts, status) => {
+          const outcome = planPushOutcome(attempts, { status, error: null }, now);
+          const last = attempts + 1 >= MAX_DELIVERY_ATTEMPTS;
+
+          expect(outcome.attempts).toBe(attempts + 1);
+          expect(outcome.status).toBe(last ? 'dead_letter' : 'pending');
+          if (!last) {
+            expect(new Date(outcome.next_attempt_at).getTime()).toBeGreaterThan(now.getTime());
+          }
+        }
+      )
+    );
+  });
+
+  it('dead-letters client errors that a retry cannot fix', () => {
+    for (const status of [400, 401, 403, 413]) {
+      expect(planPushOutcome(0, { status, error: null }, now).status).toBe('dead_letter');
+    }
+  });
+});
+
+describe('quietHoursEndAt', () => {
+  const timeArb = fc
+    .tuple(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }))
+    .map(([h, m]) => `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`);
+  const nowArb = fc.date({
+    min: new Date('2026-01-01T00:00:00Z'),
+    max: new Date('2027-01-01T00:00:00Z'),
+    noInvalidDate: true,
+  });
+
+  it('ends within a day, at the configured local end time', () => {
+    fc.assert(
+      fc.property(timeArb, timeArb, nowArb, (start, end, now) => {
+        fc.pre(start !== end);
+        const quietHours = { start, end, timezone: 'Asia/Bangkok' };
+        const endsAt = quietHoursEndAt(now, quietHours);
+        if (!endsAt) return;
+
+        expect(endsAt.getTime()).toBeGreaterThan(now.getTime());
+        expect(endsAt.getTime() - now.getTime()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+
+        // Bangkok is UTC+7 all year
+        const local = new Date(endsAt.getTime() + 7 * 60 * 60 * 1000);
+        const localTime = `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+        expect(localTime).toBe(end);
+        expect(quietHoursEndAt(endsAt, quietHours)).toBeNull();
+      })
+    );
+  });
+
+  it('handles windows that cross midnight', () => {
+    const quietHours = { start: '22:00', end: '07:00', timezone: 'Asia/Bangkok' };
+
+    // 23:30 and 05:00 Bangkok time are inside; 12:00 is not
+    expect(quietHoursEndAt(new Date('2026-10-19T16:30:00Z'), quietHours)?.toISOString()).toBe(
+      '2026-10-20T00:00:00.000Z'
+    );
+    expect(quietHoursEndAt(new Date('2026-10-19T22:00:00Z'), quietHours)?.toISOString()).toBe(
+      '2026-10-20T00:00:00.000Z'
+    );
+    expect(quietHoursEndAt(new Date('2026-10-19T05:00:00Z'), quietHours)).toBeNull();
+    expect(quietHoursEndAt(new Date('2026-10-19T05:00:00Z'), null)).toBeNull();
+  });
+
+  it('rejects windows that cannot be saved', () => {
+    expect(validateQuietHours({ start: '22:00', end: '07:00', timezone: 'Asia/Bangkok' })).toBe(
+      null
+    );
+    expect(validateQuietHours({ start: '22:00', end: '22:00', timezone: 'Asia/Bangkok' })).not.toBe(
+      null
+    );
+    expect(validateQuietHours({ start: '25:00', end: '07:00', timezone: 'Asia/Bangkok' })).not.toBe(
+      null
+    );
+    expect(validateQuietHours({ start: '22:00', end: '07:00', timezone: 'Mars/Base' })).not.toBe(
+      null
+    );
+  });
+});
@@ -9,6 +9,10 @@ export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
 
 export type CheckInMethod = 'manual' | 'qr' | 'auto';
 
+export type GeofenceEnforcement = 'reject' | 'flag';
+
+export type GeofenceFlagReason = 'missing_location' | 'low_accuracy' | 'near_boundary' | 'outside';
+
 export type AnnouncementPriority = 'low' | 'normal' | 'high' | 'urgent';
 
 export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected';
@@ -211,6 +215,10 @@ export interface Database {
           max_participants: number | null;
           status: 'scheduled' | 'ongoing' | 'completed' | 'cancelled';
           qr_code: string | null;
+          series_id: string | null;
+          occurrence_date: string | null;
+          attendance_locked_at: string | null;
+          attendance_locked_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -227,6 +235,10 @@ export interface Database {
           max_participants?: number | null;
           status?: 'scheduled' | 'ongoing' | 'completed' | 'cancelled';
           qr_code?: string | null;
+          series_id?: string | null;
+          occurrence_date?: string | null;
+          attendance_locked_at?: string | null;
+          attendance_locked_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -243,10 +255,166 @@ export interface Database {
           max_participants?: number | null;
           status?: 'scheduled' | 'ongoing' | 'completed' | 'cancelled';
           qr_code?: string | null;
+          series_id?: string | null;
+          occurrence_date?: string | null;
+          attendance_locked_at?: string | null;
+          attendance_locked_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      training_session_series: {
+        Row: {
+          id: string;
+          club_id: string;
+          coach_id: string | null;
+          created_by: string;
+          title: string;
+          description: string | null;
+          location: string;
+          start_time: string;
+          end_time: string;
+          frequency: 'weekly' | 'biweekly';
+          weekdays: number[];
+          start_date: string;
+          end_date: string | null;
+          occurrence_count: number | null;
+          status: 'active' | 'cancelled';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          club_id: string;
+          coach_id?: string | null;
+          created_by: string;
+          title: string;
+          description?: string | null;
+          location: string;
+          start_time: string;
+          end_time: string;
+          frequency: 'weekly' | 'biweekly';
+          weekdays: number[];
+          start_date: string;
+          end_date?: string | null;
+          occurrence_count?: number | null;
+          status?: 'active' | 'cancelled';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          club_id?: string;
+          coach_id?: string | null;
+          created_by?: string;
+          title?: string;
+          description?: string | null;
+          location?: string;
+          start_time?: string;
+          end_time?: string;
+          frequency?: 'weekly' | 'biweekly';
+          weekdays?: number[];
+          start_date?: string;
+          end_date?: string | null;
+          occurrence_count?: number | null;
+          status?: 'active' | 'cancelled';
           created_at?: string;
           updated_at?: string;
         };
       };
+      training_session_exceptions: {
+        Row: {
+          id: string;
+          series_id: string;
+          occurrence_date: string;
+          exception_type: 'skip' | 'modified';
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          series_id: string;
+          occurrence_date: string;
+          exception_type: 'skip' | 'modified';
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          series_id?: string;
+          occurrence_date?: string;
+          exception_type?: 'skip' | 'modified';
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      check_in_geofences: {
+        Row: {
+          id: string;
+          club_id: string;
+          location: string | null;
+          latitude: number;
+          longitude: number;
+          radius_m: number;
+          enforcement: GeofenceEnforcement;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          club_id: string;
+          location?: string | null;
+          latitude: number;
+          longitude: number;
+          radius_m: number;
+          enforcement?: GeofenceEnforcement;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          club_id?: string;
+          location?: string | null;
+          latitude?: number;
+          longitude?: number;
+          radius_m?: number;
+          enforcement?: GeofenceEnforcement;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      athlete_club_memberships: {
+        Row: {
+          id: string;
+          athlete_id: string;
+          club_id: string;
+          joined_at: string;
+          left_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          athlete_id: string;
+          club_id: string;
+          joined_at?: string;
+          left_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          athlete_id?: string;
+          club_id?: string;
+          joined_at?: string;
+          left_at?: string | null;
+        };
+      };
       attendance: {
         Row: {
           id: string;
@@ -257,6 +425,12 @@ export interface Database {
           check_in_method: CheckInMethod;
           marked_by: string | null;
           notes: string | null;
+          check_in_latitude: number | null;
+          check_in_longitude: number | null;
+          check_in_accuracy_m: number | null;
+          check_in_distance_m: number | null;
+          geofence_flagged: boolean;
+          geofence_flag_reason: GeofenceFlagReason | null;
           created_at: string;
           updated_at: string;
         };
@@ -269,6 +443,12 @@ export interface Database {
           check_in_method?: CheckInMethod;
           marked_by?: string | null;
           notes?: string | null;
+          check_in_latitude?: number | null;
+          check_in_longitude?: number | null;
+          check_in_accuracy_m?: number | null;
+          check_in_distance_m?: number | null;
+          geofence_flagged?: boolean;
+          geofence_flag_reason?: GeofenceFlagReason | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -281,6 +461,12 @@ export interface Database {
           check_in_method?: CheckInMethod;
           marked_by?: string | null;
           notes?: string | null;
+          check_in_latitude?: number | null;
+          check_in_longitude?: number | null;
+          check_in_accuracy_m?: number | null;
+          check_in_distance_m?: number | null;
+          geofence_flagged?: boolean;
+          geofence_flag_reason?: GeofenceFlagReason | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -410,6 +596,11 @@ export interface Database {
           reviewed_by: string | null;
           reviewed_at: string | null;
           created_at: string;
+          reason_category: 'sick' | 'injury' | 'family' | 'school' | 'travel' | 'other';
+          attachment_path: string | null;
+          policy_violations: Json;
+          auto_approved: boolean;
+          review_comment: string | null;
         };
         Insert: {
           id?: string;
@@ -421,6 +612,11 @@ export interface Database {
           reviewed_by?: string | null;
           reviewed_at?: string | null;
           created_at?: string;
+          reason_category?: 'sick' | 'injury' | 'family' | 'school' | 'travel' | 'other';
+          attachment_path?: string | null;
+          policy_violations?: Json;
+          auto_approved?: boolean;
+          review_comment?: string | null;
         };
         Update: {
           id?: string;
@@ -432,6 +628,11 @@ export interface Database {
           reviewed_by?: string | null;
           reviewed_at?: string | null;
           created_at?: string;
+          reason_category?: 'sick' | 'injury' | 'family' | 'school' | 'travel' | 'other';
+          attachment_path?: string | null;
+          policy_violations?: Json;
+          auto_approved?: boolean;
+          review_comment?: string | null;
         };
       };
       user_roles: {
@@ -677,6 +878,7 @@ export interface Database {
           name: string;
           enabled: boolean;
           rollout_percentage: number;
+          rules: Json;
           description: string | null;
           created_at: string;
           updated_at: string;
@@ -685,6 +887,7 @@ export interface Database {
           name: string;
           enabled?: boolean;
           rollout_percentage?: number;
+          rules?: Json;
           description?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -693,6 +896,7 @@ export interface Database {
           name?: string;
           enabled?: boolean;
           rollout_percentage?: number;
+          rules?: Json;
           description?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -0,0 +1,398 @@
+/**
+ * Event payload types, generated from events/schemas. Do not edit by hand;
+ * run `npm run events:generate` after changing a schema.
+ */
+
+import type { EventEnvelope } from '@/lib/utils/event-publisher';
+
+/** org.club.auth.session.created.v1: Published when a user successfully logs in and a session is created */
+export type AuthSessionCreatedV1Data = {
+  /** Unique identifier for the login session */
+  sessionId: string;
+  /** User who logged in */
+  userId: string;
+  /** Device fingerprint identifier */
+  deviceId?: string;
+  deviceInfo?: {
+    /** Browser user agent string */
+    userAgent?: string;
+    /** Operating system platform */
+    platform?: string;
+    /** Browser language */
+    language?: string;
+    /** Screen resolution (e.g., 1920x1080) */
+    screenResolution?: string;
+    /** User timezone */
+    timezone?: string;
+  };
+  /** Timestamp when login occurred */
+  loginAt: string;
+  /** IP address of the login request */
+  ipAddress?: string;
+};
+
+/** org.club.auth.session.ended.v1: Published when a user logs out or a session expires */
+export type AuthSessionEndedV1Data = {
+  /** Unique identifier for the login session */
+  sessionId: string;
+  /** User whose session ended */
+  userId: string;
+  /** Timestamp when session ended */
+  endedAt: string;
+  /** Reason the session ended */
+  endReason: 'logout' | 'timeout' | 'expired' | 'forced';
+  /** Duration of the session in seconds */
+  sessionDuration?: number;
+};
+
+/** org.club.auth.user.registered.v1: Published when a new user account is created in the system */
+export type AuthUserRegisteredV1Data = {
+  /** Unique identifier for the newly created user */
+  userId: string;
+  /** Email address of the registered user */
+  email: string;
+  /** Default role assigned to the user */
+  role: 'admin' | 'coach' | 'athlete' | 'parent';
+  /** Profile record ID created for the user */
+  profileId?: string;
+  /** Timestamp when registration completed */
+  registeredAt?: string;
+};
+
+/** org.club.auth.user.verified.v1: Published when a user successfully verifies their email address */
+export type AuthUserVerifiedV1Data = {
+  /** Unique identifier for the verified user */
+  userId: string;
+  /** Email address that was verified */
+  email: string;
+  /** Timestamp when email verification completed */
+  verifiedAt: string;
+  /** Method used for verification */
+  verificationMethod?: 'otp' | 'magic_link' | 'email_link';
+};
+
+/** org.club.communication.announcement.published.v1: Published when a coach or admin posts an announcement */
+export type CommunicationAnnouncementPublishedV1Data = {
+  /** Unique identifier for the announcement */
+  announcementId: string;
+  /** Club the announcement is for (null for system-wide) */
+  clubId?: string | null;
+  /** User who created the announcement */
+  authorId: string;
+  /** Role of the announcement author */
+  authorRole: 'admin' | 'coach';
+  /** Announcement title */
+  title: string;
+  /** Announcement content/body */
+  content?: string;
+  /** Priority level of the announcement */
+  priority?: 'low' | 'normal' | 'high' | 'urgent';
+  /** When the announcement was published */
+  publishedAt: string;
+  /** Optional expiration date for the announcement */
+  expiresAt?: string | null;
+  /** Who should receive this announcement */
+  targetAudience?: 'club' | 'system-wide';
+  /** Number of users who will receive this announcement */
+  recipientCount?: number;
+};
+
+/** org.club.communication.notification.sent.v1: Published when a notification is sent to a user */
+export type CommunicationNotificationSentV1Data = {
+  /** Unique identifier for the notification */
+  notificationId: string;
+  /** User who received the notification */
+  userId: string;
+  /** Type of notification (e.g., application_approved, session_created, announcement_published) */
+  notificationType: string;
+  /** Notification title */
+  title: string;
+  /** Notification message body */
+  message?: string;
+  /** ID of the related entity (application, session, etc.) */
+  relatedId?: string | null;
+  /** Type of the related entity (application, session, announcement, etc.) */
+  relatedType?: string | null;
+  /** When the notification was sent */
+  sentAt: string;
+  /** Channels through which the notification was sent */
+  channels?: Array<'in-app' | 'email' | 'push' | 'sms'>;
+  /** Priority level of the notification */
+  priority?: 'low' | 'normal' | 'high' | 'urgent';
+  /** Optional deep link URL for navigation */
+  deepLink?: string | null;
+};
+
+/** org.club.membership.application.approved.v1: Published when a coach approves a membership application */
+export type MembershipApplicationApprovedV1Data = {
+  /** Unique identifier for the membership application */
+  applicationId: string;
+  /** User ID of the athlete whose application was approved */
+  athleteId: string;
+  /** Club the athlete was approved to join */
+  clubId: string;
+  /** Coach who approved the application and will be assigned to the athlete */
+  coachId: string;
+  /** Timestamp when application was approved */
+  approvedAt: string;
+  /** User ID of the person who reviewed (may be different from assigned coach) */
+  reviewedBy?: string;
+  /** New membership status after approval */
+  membershipStatus?: 'active';
+};
+
+/** org.club.membership.application.rejected.v1: Published when a coach rejects a membership application */
+export type MembershipApplicationRejectedV1Data = {
+  /** Unique identifier for the membership application */
+  applicationId: string;
+  /** User ID of the athlete whose application was rejected */
+  athleteId: string;
+  /** Club the athlete applied to join */
+  clubId: string;
+  /** Timestamp when application was rejected */
+  rejectedAt: string;
+  /** Reason provided by the coach for rejection */
+  rejectionReason: string;
+  /** User ID of the coach who rejected the application */
+  reviewedBy?: string;
+  /** New membership status after rejection */
+  membershipStatus?: 'rejected';
+};
+
+/** org.club.membership.application.submitted.v1: Published when an athlete submits a membership application to join a club */
+export type MembershipApplicationSubmittedV1Data = {
+  /** Unique identifier for the membership application */
+  applicationId: string;
+  /** User who submitted the application */
+  userId: string;
+  /** Club the user is applying to join */
+  clubId: string;
+  /** Timestamp when application was submitted */
+  appliedAt: string;
+  /** Whether supporting documents were uploaded */
+  hasDocuments?: boolean;
+  personalInfo?: {
+    fullName?: string;
+    dateOfBirth?: string;
+    phoneNumber?: string;
+  };
+};
+
+/** org.club.performance.record.created.v1: Published when a coach records a performance test result for an athlete */
+export type PerformanceRecordCreatedV1Data = {
+  /** Unique identifier for the performance record */
+  recordId: string;
+  /** Athlete whose performance was recorded */
+  athleteId: string;
+  /** Coach who recorded the performance */
+  coachId: string;
+  /** Club the athlete belongs to */
+  clubId?: string;
+  /** Category of the test (e.g., speed, strength, endurance) */
+  testType: string;
+  /** Specific name of the test (e.g., 100m sprint, bench press) */
+  testName: string;
+  /** Numeric score/result of the test */
+  score: number;
+  /** Unit of measurement (e.g., seconds, kg, meters) */
+  unit?: string;
+  /** Date when the test was performed */
+  testDate: string;
+  /** Optional notes about the performance */
+  notes?: string | null;
+  /** When the record was created */
+  createdAt?: string;
+  /** Athlete's previous best score for this test type */
+  previousBest?: number | null;
+  /** Whether this is a new personal best */
+  isPersonalBest?: boolean;
+};
+
+/** org.club.performance.report.published.v1: Published when a coach creates a formal progress report for an athlete */
+export type PerformanceReportPublishedV1Data = {
+  /** Unique identifier for the progress report */
+  reportId: string;
+  /** Athlete the report is about */
+  athleteId: string;
+  /** Coach who created the report */
+  coachId: string;
+  /** Club the athlete belongs to */
+  clubId?: string;
+  /** Date of the progress report */
+  reportDate: string;
+  /** Overall rating from 1-5 */
+  overallRating: number;
+  /** Athlete's strengths identified by coach */
+  strengths?: string;
+  /** Areas where athlete can improve */
+  areasForImprovement?: string;
+  /** Coach's recommendations for the athlete */
+  recommendations?: string;
+  /** Optional goals set for the athlete */
+  goals?: string | null;
+  /** When the report was published */
+  publishedAt?: string;
+  /** Whether connected parents should be notified */
+  notifyParents?: boolean;
+  /** List of parent IDs who will be notified */
+  parentIds?: string[];
+};
+
+/** org.club.performance.report.published.v2: Published when a coach creates a formal progress report for an athlete */
+export type PerformanceReportPublishedV2Data = {
+  /** Unique identifier for the progress report */
+  reportId: string;
+  /** Athlete the report is about */
+  athleteId: string;
+  /** Coach who created the report */
+  coachId: string;
+  /** Club the athlete belongs to */
+  clubId?: string;
+  /** Date of the progress report */
+  reportDate: string;
+  /** Athlete's strengths identified by coach */
+  strengths?: string;
+  /** Areas where athlete can improve */
+  areasForImprovement?: string;
+  /** Coach's recommendations for the athlete */
+  recommendations?: string;
+  /** Optional goals set for the athlete */
+  goals?: string | null;
+  /** When the report was published */
+  publishedAt?: string;
+  /** Whether connected parents should be notified */
+  notifyParents?: boolean;
+  /** List of parent IDs who will be notified */
+  parentIds?: string[];
+};
+
+/** org.club.training.attendance.recorded.v1: Published when attendance is recorded for a training session (check-in or manual marking) */
+export type TrainingAttendanceRecordedV1Data = {
+  /** Unique identifier for the attendance record */
+  attendanceId: string;
+  /** Training session the attendance is for */
+  sessionId: string;
+  /** Athlete whose attendance was recorded */
+  athleteId: string;
+  /** Club the session belongs to */
+  clubId?: string;
+  /** Attendance status */
+  status: 'present' | 'absent' | 'late' | 'excused';
+  /** When the athlete checked in (null for absent/excused) */
+  checkInTime?: string | null;
+  /** How attendance was recorded */
+  checkInMethod?: 'manual' | 'qr' | 'auto';
+  /** User who marked the attendance (athlete for check-in, coach for manual) */
+  markedBy: string;
+  /** Optional notes about the attendance */
+  notes?: string | null;
+  /** When the attendance record was created */
+  recordedAt?: string;
+};
+
+/** org.club.training.session.cancelled.v1: Published when a coach cancels a training session */
+export type TrainingSessionCancelledV1Data = {
+  /** Unique identifier for the training session */
+  sessionId: string;
+  /** Club the session belongs to */
+  clubId: string;
+  /** Coach who cancelled the session */
+  coachId: string;
+  /** When the session was cancelled */
+  cancelledAt: string;
+  /** Optional reason for cancellation */
+  cancellationReason?: string | null;
+  /** When the session was originally scheduled */
+  originalScheduledAt?: string;
+  /** List of athlete IDs who were registered for the session */
+  affectedAthletes?: string[];
+};
+
+/** org.club.training.session.created.v1: Published when a coach creates a new training session */
+export type TrainingSessionCreatedV1Data = {
+  /** Unique identifier for the training session */
+  sessionId: string;
+  /** Club the session belongs to */
+  clubId: string;
+  /** Coach who created the session */
+  coachId: string;
+  /** Optional team the session is for */
+  teamId?: string | null;
+  /** Session title */
+  title: string;
+  /** Session description */
+  description?: string | null;
+  /** Type of training session */
+  sessionType?: 'practice' | 'match' | 'fitness' | 'other';
+  /** When the session is scheduled to start */
+  scheduledAt: string;
+  /** Duration of the session in minutes */
+  durationMinutes?: number;
+  /** Where the session will take place */
+  location?: string;
+  /** Maximum number of participants allowed */
+  maxParticipants?: number | null;
+  /** Current status of the session */
+  status?: 'scheduled' | 'ongoing' | 'completed' | 'cancelled';
+  /** When the session was created */
+  createdAt?: string;
+};
+
+/** org.club.training.session.updated.v1: Published when a coach modifies an existing training session */
+export type TrainingSessionUpdatedV1Data = {
+  /** Unique identifier for the training session */
+  sessionId: string;
+  /** Club the session belongs to */
+  clubId: string;
+  /** Coach who updated the session */
+  coachId: string;
+  /** When the session was updated */
+  updatedAt: string;
+  /** Fields that were changed with before/after values */
+  changes: {
+    title?: {
+      before?: string;
+      after?: string;
+    };
+    scheduledAt?: {
+      before?: string;
+      after?: string;
+    };
+    location?: {
+      before?: string;
+      after?: string;
+    };
+    status?: {
+      before?: string;
+      after?: string;
+    };
+  };
+  /** Whether athletes should be notified of the changes */
+  notifyAthletes?: boolean;
+};
+
+/** Payload type for each event type */
+export interface EventPayloads {
+  'org.club.auth.session.created.v1': AuthSessionCreatedV1Data;
+  'org.club.auth.session.ended.v1': AuthSessionEndedV1Data;
+  'org.club.auth.user.registered.v1': AuthUserRegisteredV1Data;
+  'org.club.auth.user.verified.v1': AuthUserVerifiedV1Data;
+  'org.club.communication.announcement.published.v1': CommunicationAnnouncementPublishedV1Data;
+  'org.club.communication.notification.sent.v1': CommunicationNotificationSentV1Data;
+  'org.club.membership.application.approved.v1': MembershipApplicationApprovedV1Data;
+  'org.club.membership.application.rejected.v1': MembershipApplicationRejectedV1Data;
+  'org.club.membership.application.submitted.v1': MembershipApplicationSubmittedV1Data;
+  'org.club.performance.record.created.v1': PerformanceRecordCreatedV1Data;
+  'org.club.performance.report.published.v1': PerformanceReportPublishedV1Data;
+  'org.club.performance.report.published.v2': PerformanceReportPublishedV2Data;
+  'org.club.training.attendance.recorded.v1': TrainingAttendanceRecordedV1Data;
+  'org.club.training.session.cancelled.v1': TrainingSessionCancelledV1Data;
+  'org.club.training.session.created.v1': TrainingSessionCreatedV1Data;
+  'org.club.training.session.updated.v1': TrainingSessionUpdatedV1Data;
+}
+
+export type EventType = keyof EventPayloads;
+
+export type TypedEvent<T extends EventType = EventType> = EventEnvelope<EventPayloads[T]> & {
+  eventType: T;
+};
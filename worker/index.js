@@ -0,0 +1,44 @@
+/**
+ * Service Worker Push Handlers
+ *
+ * next-pwa bundles this file into the generated service worker. Payloads are
+ * sent by lib/admin/push-delivery.ts: { notificationId, type, title, body, url }.
+ */
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'Sports Club';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-96x96.png',
+      // Repeated sends of one notification replace each other
+      tag: payload.notificationId || payload.type,
+      data: { url: payload.url || '/dashboard', notificationId: payload.notificationId },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url) || clients[0];
+      if (existing) {
+        return existing
+          .focus()
+          .then((client) => (client.url === url ? client : client.navigate(url)));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});